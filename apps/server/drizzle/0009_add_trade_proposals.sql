@@ -0,0 +1,35 @@
+-- Two-phase Trade Proposals
+--
+-- Replaces instant barter with a proposal lifecycle: an agent proposes, the target
+-- accepts, rejects or counters. Items only move when the target accepts.
+
+CREATE TABLE IF NOT EXISTS trade_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  proposer_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  offering_item_type VARCHAR(50) NOT NULL,
+  offering_quantity INTEGER NOT NULL,
+  requesting_item_type VARCHAR(50) NOT NULL,
+  requesting_quantity INTEGER NOT NULL,
+  parent_proposal_id UUID,  -- Set when this proposal counters another
+  status VARCHAR(20) NOT NULL DEFAULT 'open',  -- open, accepted, rejected, countered, expired
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  created_at_tick BIGINT NOT NULL,
+  expires_at_tick BIGINT NOT NULL,
+  resolved_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS trade_proposals_tenant_idx ON trade_proposals(tenant_id);
+CREATE INDEX IF NOT EXISTS trade_proposals_proposer_idx ON trade_proposals(proposer_id);
+CREATE INDEX IF NOT EXISTS trade_proposals_target_idx ON trade_proposals(target_id);
+CREATE INDEX IF NOT EXISTS trade_proposals_status_idx ON trade_proposals(status);
+CREATE INDEX IF NOT EXISTS trade_proposals_expires_idx ON trade_proposals(expires_at_tick);
+
+COMMENT ON TABLE trade_proposals IS 'Pending and resolved trade offers between agents (propose/accept/reject/counter)';
+COMMENT ON COLUMN trade_proposals.parent_proposal_id IS 'Proposal this one counters, NULL for an opening offer';
+COMMENT ON COLUMN trade_proposals.expires_at_tick IS 'Tick after which an open proposal can no longer be accepted';
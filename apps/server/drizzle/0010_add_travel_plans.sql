@@ -0,0 +1,32 @@
+-- Multi-tick Travel Plans
+--
+-- A travel_to action stores a destination; the orchestrator then advances the
+-- agent one A* step per tick (no LLM call) until arrival or interruption.
+
+CREATE TABLE IF NOT EXISTS travel_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  from_x INTEGER NOT NULL,
+  from_y INTEGER NOT NULL,
+  to_x INTEGER NOT NULL,
+  to_y INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',  -- active, arrived, interrupted, cancelled
+  end_reason VARCHAR(50),
+  steps_taken INTEGER NOT NULL DEFAULT 0,
+  health_at_last_step REAL NOT NULL,
+  started_at_tick BIGINT NOT NULL,
+  last_step_tick BIGINT NOT NULL,
+  ended_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS travel_plans_tenant_idx ON travel_plans(tenant_id);
+CREATE INDEX IF NOT EXISTS travel_plans_agent_idx ON travel_plans(agent_id);
+CREATE INDEX IF NOT EXISTS travel_plans_status_idx ON travel_plans(status);
+
+COMMENT ON TABLE travel_plans IS 'Multi-tick journeys started by travel_to, advanced one step per tick';
+COMMENT ON COLUMN travel_plans.end_reason IS 'Why the journey ended early (critical_hunger, critical_energy, took_damage, path_blocked, step_failed, timeout, replaced)';
+COMMENT ON COLUMN travel_plans.health_at_last_step IS 'Health after the last step; a drop interrupts travel';
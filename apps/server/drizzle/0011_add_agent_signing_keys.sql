@@ -0,0 +1,26 @@
+-- Agent Signing Keys (Ed25519)
+--
+-- Credentials were signed with an HMAC keyed by the issuer's public agent ID,
+-- so anyone could forge them. Each agent now owns an Ed25519 keypair; the
+-- private key is stored encrypted (AES-256-GCM, ENCRYPTION_MASTER_KEY).
+
+CREATE TABLE IF NOT EXISTS agent_signing_keys (
+  agent_id UUID PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  algorithm VARCHAR(20) NOT NULL DEFAULT 'ed25519',
+  public_key TEXT NOT NULL,
+  encrypted_private_key JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS agent_signing_keys_tenant_idx ON agent_signing_keys(tenant_id);
+
+-- Existing credentials keep their HMAC signature and are reported as unverifiable
+ALTER TABLE agent_credentials ADD COLUMN IF NOT EXISTS signature_algorithm VARCHAR(20) NOT NULL DEFAULT 'hmac-sha256';
+ALTER TABLE agent_credentials ADD COLUMN IF NOT EXISTS revocation_signature VARCHAR(256);
+
+COMMENT ON TABLE agent_signing_keys IS 'Per-agent Ed25519 keypairs used to sign credentials and revocations';
+COMMENT ON COLUMN agent_signing_keys.public_key IS 'Base64 SPKI DER public key (safe to publish)';
+COMMENT ON COLUMN agent_signing_keys.encrypted_private_key IS 'AES-256-GCM encrypted PKCS#8 private key';
+COMMENT ON COLUMN agent_credentials.signature_algorithm IS 'ed25519 for verifiable credentials, hmac-sha256 for legacy rows';
+COMMENT ON COLUMN agent_credentials.revocation_signature IS 'Issuer signature over the revocation (credential id, issuer, tick)';
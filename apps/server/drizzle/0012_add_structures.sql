@@ -0,0 +1,37 @@
+-- Agent-built Structures
+--
+-- build starts a construction site (or adds a tick of work to one); completed
+-- shelters also get a shelters row, completed walls block movement.
+-- Structures lose condition every tick and collapse unless maintained.
+
+CREATE TABLE IF NOT EXISTS structures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  structure_type VARCHAR(30) NOT NULL,  -- shelter, storage, market_stall, wall
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  owner_agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'under_construction',  -- under_construction, complete, collapsed, demolished
+  build_progress INTEGER NOT NULL DEFAULT 0,
+  build_ticks_required INTEGER NOT NULL,
+  condition REAL NOT NULL DEFAULT 100,
+  materials_used JSONB NOT NULL DEFAULT '{}',
+  shelter_id UUID REFERENCES shelters(id) ON DELETE SET NULL,
+  started_at_tick BIGINT NOT NULL,
+  completed_at_tick BIGINT,
+  last_maintained_tick BIGINT NOT NULL,
+  ended_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS structures_tenant_idx ON structures(tenant_id);
+CREATE INDEX IF NOT EXISTS structures_position_idx ON structures(x, y);
+CREATE INDEX IF NOT EXISTS structures_owner_idx ON structures(owner_agent_id);
+CREATE INDEX IF NOT EXISTS structures_status_idx ON structures(status);
+
+COMMENT ON TABLE structures IS 'Structures built by agents with the build action; decay without maintenance';
+COMMENT ON COLUMN structures.condition IS '0-100; decays per tick by type, restored by build work, collapses at 0';
+COMMENT ON COLUMN structures.materials_used IS 'Total items consumed by construction and repairs (salvage basis for demolish)';
+COMMENT ON COLUMN structures.shelter_id IS 'shelters row created when a shelter structure completes';
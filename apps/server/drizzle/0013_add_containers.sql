@@ -0,0 +1,47 @@
+-- Shared Storage Containers
+--
+-- Containers hold items at a cell (optionally inside a shelter or storage
+-- structure). The owner's access list grants deposit/withdraw rights to
+-- agents, puzzle teams or holders of a credential claim type.
+
+CREATE TABLE IF NOT EXISTS containers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  shelter_id UUID REFERENCES shelters(id) ON DELETE SET NULL,
+  structure_id UUID REFERENCES structures(id) ON DELETE SET NULL,
+  owner_agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  capacity INTEGER NOT NULL,
+  created_at_tick BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS container_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+  item_type VARCHAR(50) NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS container_access (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  container_id UUID NOT NULL REFERENCES containers(id) ON DELETE CASCADE,
+  grantee_type VARCHAR(20) NOT NULL,  -- agent, team, credential
+  grantee_id UUID,
+  claim_type VARCHAR(50),
+  permission VARCHAR(20) NOT NULL,    -- deposit, withdraw
+  granted_by UUID REFERENCES agents(id) ON DELETE SET NULL,
+  granted_at_tick BIGINT NOT NULL
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS containers_tenant_idx ON containers(tenant_id);
+CREATE INDEX IF NOT EXISTS containers_position_idx ON containers(x, y);
+CREATE INDEX IF NOT EXISTS containers_owner_idx ON containers(owner_agent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS container_items_container_item_idx ON container_items(container_id, item_type);
+CREATE INDEX IF NOT EXISTS container_access_container_idx ON container_access(container_id);
+
+COMMENT ON TABLE containers IS 'Shared storage; access is logged as container_* events';
+COMMENT ON COLUMN container_access.grantee_id IS 'Agent ID, puzzle team ID, or credential issuer ID (NULL = credential from any issuer)';
+COMMENT ON COLUMN container_access.permission IS 'deposit, or withdraw (which includes deposit)';
@@ -0,0 +1,32 @@
+-- Market Orders (per-shelter limit order books)
+--
+-- Agents post bids and asks for an item type at a shelter. Crossing orders
+-- are matched every tick with price-time priority; money settles through
+-- the ledger and ask quantities are held in escrow until filled or closed.
+
+CREATE TABLE IF NOT EXISTS market_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  shelter_id UUID NOT NULL REFERENCES shelters(id) ON DELETE CASCADE,
+  item_type VARCHAR(50) NOT NULL,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  side VARCHAR(4) NOT NULL,                    -- bid, ask
+  price INTEGER NOT NULL,
+  quantity INTEGER NOT NULL,
+  filled_quantity INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',  -- open, filled, cancelled, expired
+  created_at_tick BIGINT NOT NULL,
+  expires_at_tick BIGINT NOT NULL,
+  closed_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS market_orders_tenant_idx ON market_orders(tenant_id);
+CREATE INDEX IF NOT EXISTS market_orders_book_idx ON market_orders(shelter_id, item_type, status);
+CREATE INDEX IF NOT EXISTS market_orders_agent_idx ON market_orders(agent_id);
+CREATE INDEX IF NOT EXISTS market_orders_expires_idx ON market_orders(expires_at_tick);
+
+COMMENT ON TABLE market_orders IS 'Limit orders; fills are recorded as market_trade events';
+COMMENT ON COLUMN market_orders.price IS 'Limit price in CITY per unit (bids: max to pay, asks: min to accept)';
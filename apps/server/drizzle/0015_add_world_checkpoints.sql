@@ -0,0 +1,23 @@
+-- World Checkpoints (full world state for restore and fork)
+--
+-- Periodic dumps of every table that makes up a running world (agents,
+-- inventory, ledger, relationships, memories, claims, employments, puzzles,
+-- ...) plus the seeded RNG state. A checkpoint can rewind the world in place
+-- or seed a new tenant world that branches off at that tick.
+
+CREATE TABLE IF NOT EXISTS world_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  tick BIGINT NOT NULL,
+  tables JSONB NOT NULL,
+  rng_state JSONB,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS world_checkpoints_tenant_idx ON world_checkpoints(tenant_id);
+CREATE INDEX IF NOT EXISTS world_checkpoints_tick_idx ON world_checkpoints(tick);
+
+COMMENT ON TABLE world_checkpoints IS 'Full world state at the end of a tick; restored in place or forked into a new tenant';
+COMMENT ON COLUMN world_checkpoints.tables IS 'Rows keyed by table name, timestamps serialized as ISO strings';
@@ -0,0 +1,27 @@
+-- Agent Tick States (per-tick agent state projection for replay)
+--
+-- Append-only: the tick engine writes one row per agent alive at the end of
+-- each tick (agents that died in the tick get a final 'dead' row). The state of
+-- every agent at any tick is the latest row at or before it, so replay answers
+-- a tick with one query instead of reconstructing state from events.
+
+CREATE TABLE IF NOT EXISTS agent_tick_states (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  tick BIGINT NOT NULL,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  llm_type VARCHAR(20) NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  hunger REAL NOT NULL,
+  energy REAL NOT NULL,
+  health REAL NOT NULL,
+  balance REAL NOT NULL,
+  state VARCHAR(20) NOT NULL
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS agent_tick_states_tenant_tick_idx ON agent_tick_states(tenant_id, tick);
+CREATE UNIQUE INDEX IF NOT EXISTS agent_tick_states_agent_tick_idx ON agent_tick_states(agent_id, tick);
+
+COMMENT ON TABLE agent_tick_states IS 'Agent state at the end of each tick; the latest row at or before a tick is the state at that tick';
@@ -0,0 +1,7 @@
+-- Event payload schema version
+--
+-- Payloads are validated against the versioned schemas in @simagents/shared
+-- (EVENT_PAYLOAD_SCHEMAS) when appended. Rows logged before this migration are
+-- stamped version 1; readers upcast older payloads to the current version.
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "schema_version" integer DEFAULT 1 NOT NULL;
@@ -0,0 +1,40 @@
+-- Event retention, aggregates and archives
+--
+-- The retention job keeps full event detail for the last N ticks of each world
+-- (tenants.event_retention_ticks, or the EVENT_RETENTION_TICKS default) and
+-- trims the events table to tenants.max_events_stored. Older events are written
+-- to gzipped NDJSON files (event_archives) and deleted; infrastructure events
+-- also leave per-tick counts behind (event_tick_aggregates). Rehydrating an
+-- archive re-inserts its rows and removes the archive and its aggregates.
+
+ALTER TABLE "tenants" ADD COLUMN IF NOT EXISTS "event_retention_ticks" integer;
+
+CREATE TABLE IF NOT EXISTS event_archives (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  from_tick BIGINT NOT NULL,
+  to_tick BIGINT NOT NULL,
+  path TEXT NOT NULL,
+  event_count INTEGER NOT NULL,
+  bytes INTEGER NOT NULL,
+  reason VARCHAR(20) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS event_tick_aggregates (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  archive_id UUID NOT NULL REFERENCES event_archives(id) ON DELETE CASCADE,
+  tick BIGINT NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  event_count INTEGER NOT NULL,
+  agent_count INTEGER NOT NULL
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS event_archives_tenant_tick_idx ON event_archives(tenant_id, from_tick, to_tick);
+CREATE INDEX IF NOT EXISTS event_tick_aggregates_tenant_tick_idx ON event_tick_aggregates(tenant_id, tick);
+CREATE INDEX IF NOT EXISTS event_tick_aggregates_archive_idx ON event_tick_aggregates(archive_id);
+
+COMMENT ON TABLE event_archives IS 'Event tick ranges moved to compressed files by the retention job';
+COMMENT ON TABLE event_tick_aggregates IS 'Per-tick counts of archived infrastructure events';
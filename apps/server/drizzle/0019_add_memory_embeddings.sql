@@ -0,0 +1,9 @@
+-- Agent memory embeddings (semantic memory retrieval)
+--
+-- When MEMORY_SEMANTIC_RETRIEVAL is on, storeMemory embeds the memory content
+-- (llm/memory-embeddings.ts) and stores the vector with the embedder that
+-- produced it. Retrieval ranks an agent's memories by cosine similarity to a
+-- summary of its current situation; vectors from another embedder are ignored.
+
+ALTER TABLE "agent_memories" ADD COLUMN IF NOT EXISTS "embedding" real[];
+ALTER TABLE "agent_memories" ADD COLUMN IF NOT EXISTS "embedding_model" varchar(100);
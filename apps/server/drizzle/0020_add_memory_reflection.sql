@@ -0,0 +1,11 @@
+-- Agent memory reflection provenance
+--
+-- The reflection pass (llm/reflection.ts) summarises recent episodic memories
+-- into 'reflection' memories. A reflection lists the memories it summarises in
+-- source_memory_ids; each summarised episode gets consolidated_into set to the
+-- reflection and its importance decayed, so pruning removes it first.
+
+ALTER TABLE "agent_memories" ADD COLUMN IF NOT EXISTS "source_memory_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE "agent_memories" ADD COLUMN IF NOT EXISTS "consolidated_into" uuid;
+
+CREATE INDEX IF NOT EXISTS agent_memories_consolidated_into_idx ON agent_memories(consolidated_into);
@@ -0,0 +1,31 @@
+-- Agent Plans
+--
+-- A decision may carry set_goal / update_plan: the agent keeps one active plan
+-- (a goal with sub-steps and a deadline) across ticks. The plan is shown in the
+-- prompt, and routine steps (with a concrete action) run without an LLM call.
+
+CREATE TABLE IF NOT EXISTS agent_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  goal TEXT NOT NULL,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',  -- active, completed, abandoned
+  end_reason VARCHAR(200),
+  deadline_tick BIGINT NOT NULL,
+  created_at_tick BIGINT NOT NULL,
+  updated_at_tick BIGINT NOT NULL,
+  ended_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS agent_plans_tenant_idx ON agent_plans(tenant_id);
+CREATE INDEX IF NOT EXISTS agent_plans_agent_idx ON agent_plans(agent_id);
+CREATE INDEX IF NOT EXISTS agent_plans_status_idx ON agent_plans(status);
+
+COMMENT ON TABLE agent_plans IS 'Agent goals with sub-steps, kept across ticks (set_goal / update_plan)';
+COMMENT ON COLUMN agent_plans.steps IS 'Sub-steps [{description, action?, params?, done}]; steps with an action run without the LLM';
+COMMENT ON COLUMN agent_plans.end_reason IS 'Why the plan was abandoned (deadline_passed, replaced, or the agent''s reason)';
@@ -0,0 +1,34 @@
+-- Direct Agent Messages
+--
+-- send_message delivers free text to one agent in talking range, or to an
+-- agent the sender knows. Messages are threaded by conversation_id (replies
+-- inherit it via reply_to_id) and kept for linguistic analysis: content is
+-- the text as written, delivered_content what the recipient saw (synthetic
+-- vocabulary applied when enabled).
+
+CREATE TABLE IF NOT EXISTS agent_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL,
+  reply_to_id UUID,
+  sender_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  delivered_content TEXT NOT NULL,
+  vocabulary VARCHAR(20) NOT NULL DEFAULT 'natural',  -- natural, synthetic
+  channel VARCHAR(20) NOT NULL,  -- nearby, known
+  distance INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  sent_at_tick BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS agent_messages_tenant_idx ON agent_messages(tenant_id);
+CREATE INDEX IF NOT EXISTS agent_messages_conversation_idx ON agent_messages(conversation_id);
+CREATE INDEX IF NOT EXISTS agent_messages_sender_idx ON agent_messages(sender_id);
+CREATE INDEX IF NOT EXISTS agent_messages_recipient_tick_idx ON agent_messages(recipient_id, sent_at_tick);
+
+COMMENT ON TABLE agent_messages IS 'Direct agent-to-agent messages (send_message), threaded by conversation';
+COMMENT ON COLUMN agent_messages.channel IS 'How the recipient was reached: nearby (talking range) or known (agent the sender knows)';
@@ -0,0 +1,50 @@
+-- Organisations
+--
+-- General, persistent groups (alliances, guilds, firms) that outlive any
+-- puzzle game: found_org / join_org / leave_org / expel_member. Each
+-- organisation holds a treasury; entry fees and founding deposits move into
+-- it through the ledger (from_org_id / to_org_id). Membership rows are kept
+-- after leaving or expulsion so groups can be measured over whole runs.
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  founder_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  treasury REAL NOT NULL DEFAULT 0,
+  entry_fee REAL NOT NULL DEFAULT 0,
+  min_trust INTEGER,
+  max_members INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',  -- active, dissolved
+  founded_at_tick BIGINT NOT NULL,
+  dissolved_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member',  -- founder, member
+  status VARCHAR(20) NOT NULL DEFAULT 'active',  -- active, left, expelled
+  joined_at_tick BIGINT NOT NULL,
+  left_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Organisation treasury accounts in the ledger
+ALTER TABLE ledger ADD COLUMN IF NOT EXISTS from_org_id UUID REFERENCES organizations(id);
+ALTER TABLE ledger ADD COLUMN IF NOT EXISTS to_org_id UUID REFERENCES organizations(id);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS organizations_tenant_status_idx ON organizations(tenant_id, status);
+CREATE INDEX IF NOT EXISTS organizations_founder_idx ON organizations(founder_id);
+CREATE INDEX IF NOT EXISTS organization_members_tenant_idx ON organization_members(tenant_id);
+CREATE INDEX IF NOT EXISTS organization_members_org_status_idx ON organization_members(org_id, status);
+CREATE INDEX IF NOT EXISTS organization_members_agent_status_idx ON organization_members(agent_id, status);
+
+COMMENT ON TABLE organizations IS 'Agent-founded organisations with a treasury and membership rules';
+COMMENT ON COLUMN organizations.min_trust IS 'Minimum trust the founder must have in an applicant to join (null = anyone)';
+COMMENT ON TABLE organization_members IS 'Organisation membership history (founder / member roles)';
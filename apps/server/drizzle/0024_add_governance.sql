@@ -0,0 +1,80 @@
+-- Governance: propose / vote / tally
+--
+-- Collective decisions scoped to an organisation, a claim area or the whole
+-- world. Each proposal carries its decision rule (threshold, quorum, equal or
+-- stake weighting) and a binding outcome applied when it passes: a tax levied
+-- into an organisation treasury, banishment from an organisation or claim
+-- area, or a new shelter price multiplier. Proposals and votes are kept for
+-- governance analytics.
+
+CREATE TABLE IF NOT EXISTS proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  proposer_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+  title VARCHAR(120) NOT NULL,
+  scope_type VARCHAR(20) NOT NULL,  -- org, claim, world
+  scope_id UUID,
+  area_x INTEGER,
+  area_y INTEGER,
+  area_radius INTEGER,
+  outcome_type VARCHAR(20) NOT NULL,  -- tax, banish, shelter_price, resolution
+  outcome_params JSONB NOT NULL DEFAULT '{}',
+  threshold REAL NOT NULL DEFAULT 0.5,
+  quorum REAL NOT NULL DEFAULT 0,
+  weighting VARCHAR(20) NOT NULL DEFAULT 'equal',  -- equal, stake
+  status VARCHAR(20) NOT NULL DEFAULT 'open',  -- open, passed, rejected, no_quorum
+  created_at_tick BIGINT NOT NULL,
+  closes_at_tick BIGINT NOT NULL,
+  tallied_at_tick BIGINT,
+  tallied_by UUID REFERENCES agents(id) ON DELETE SET NULL,
+  electorate_size INTEGER,
+  yes_weight REAL,
+  no_weight REAL,
+  abstain_weight REAL,
+  outcome_applied BOOLEAN,
+  outcome_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS proposal_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  proposal_id UUID NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  choice VARCHAR(10) NOT NULL,  -- yes, no, abstain
+  weight REAL NOT NULL DEFAULT 1,
+  cast_at_tick BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS claim_banishments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  proposal_id UUID REFERENCES proposals(id) ON DELETE SET NULL,
+  claim_id UUID,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  radius INTEGER NOT NULL,
+  started_at_tick BIGINT NOT NULL,
+  expires_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Shelter prices set by governance
+ALTER TABLE shelters ADD COLUMN IF NOT EXISTS price_multiplier REAL NOT NULL DEFAULT 1;
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS proposals_tenant_status_idx ON proposals(tenant_id, status);
+CREATE INDEX IF NOT EXISTS proposals_scope_idx ON proposals(scope_type, scope_id);
+CREATE INDEX IF NOT EXISTS proposals_proposer_idx ON proposals(proposer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS proposal_votes_proposal_voter_idx ON proposal_votes(proposal_id, voter_id);
+CREATE INDEX IF NOT EXISTS proposal_votes_voter_idx ON proposal_votes(voter_id);
+CREATE INDEX IF NOT EXISTS claim_banishments_agent_idx ON claim_banishments(agent_id);
+CREATE INDEX IF NOT EXISTS claim_banishments_tenant_idx ON claim_banishments(tenant_id);
+
+COMMENT ON TABLE proposals IS 'Collective decisions with their rule, tally and binding outcome';
+COMMENT ON COLUMN proposals.threshold IS 'Share of yes+no weight the yes side must exceed to pass (0.5 = simple majority)';
+COMMENT ON COLUMN proposals.quorum IS 'Share of the electorate that must vote (abstentions count) for the result to stand';
+COMMENT ON TABLE proposal_votes IS 'One vote per agent per proposal, with the weight it carried';
+COMMENT ON TABLE claim_banishments IS 'Areas agents were voted out of; movement into them is refused';
@@ -0,0 +1,34 @@
+-- Fiscal policy: public treasury, taxes and public spending
+--
+-- One treasury per world holds tax revenue. Its policy sets a per-transaction
+-- tax on payments between agents, a wealth tax above a threshold, whether
+-- public work is paid with new money or from the treasury, and the share of
+-- the treasury redistributed to living agents each fiscal interval. The
+-- policy can be changed by governance (fiscal_policy proposals) or the
+-- scenarios API. Fiscal flows are recorded in the ledger under their own
+-- categories (transaction_tax, wealth_tax, public_spending, redistribution,
+-- money_issued, currency_decay).
+
+CREATE TABLE IF NOT EXISTS public_treasuries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+  balance REAL NOT NULL DEFAULT 0,
+  transaction_tax_rate REAL NOT NULL DEFAULT 0,
+  wealth_tax_rate REAL NOT NULL DEFAULT 0,
+  wealth_tax_threshold REAL NOT NULL DEFAULT 100,
+  public_work_funding VARCHAR(20) NOT NULL DEFAULT 'mint',  -- mint, treasury
+  redistribution_share REAL NOT NULL DEFAULT 0,
+  policy_source VARCHAR(20) NOT NULL DEFAULT 'config',  -- config, governance, scenario
+  policy_updated_at_tick BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE UNIQUE INDEX IF NOT EXISTS public_treasuries_tenant_idx ON public_treasuries(tenant_id);
+CREATE INDEX IF NOT EXISTS ledger_category_idx ON ledger(category);
+
+COMMENT ON TABLE public_treasuries IS 'Public treasury and fiscal policy of each world';
+COMMENT ON COLUMN public_treasuries.transaction_tax_rate IS 'Share of each payment between agents paid to the treasury by the recipient';
+COMMENT ON COLUMN public_treasuries.wealth_tax_rate IS 'Share of balance above wealth_tax_threshold collected every fiscal interval';
+COMMENT ON COLUMN public_treasuries.redistribution_share IS 'Share of the treasury paid out equally to living agents every fiscal interval';
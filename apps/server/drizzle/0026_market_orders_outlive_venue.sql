@@ -0,0 +1,14 @@
+-- Market orders outlive their venue
+--
+-- A shelter or market stall that collapses or is demolished first has its
+-- open orders cancelled, returning escrowed items to their owners. Closed
+-- orders keep their history with shelter_id set to NULL instead of being
+-- deleted along with the venue.
+
+ALTER TABLE market_orders ALTER COLUMN shelter_id DROP NOT NULL;
+ALTER TABLE market_orders DROP CONSTRAINT IF EXISTS market_orders_shelter_id_fkey;
+ALTER TABLE market_orders
+  ADD CONSTRAINT market_orders_shelter_id_fkey
+  FOREIGN KEY (shelter_id) REFERENCES shelters(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN market_orders.shelter_id IS 'Venue of the book (NULL once a closed order''s venue is gone)';
@@ -0,0 +1,425 @@
+/**
+ * Tests for Build and Demolish Action Handlers
+ *
+ * Tests cover:
+ * - Unknown structure type / missing materials / occupied cell → error
+ * - Starting a site, adding work, completion (shelter row, wall terrain)
+ * - Repairs on completed structures restore condition
+ * - Demolish: salvage, distance check, non-owner demolition remembered by owner
+ * - A venue that collapses or is demolished cancels its open orders and returns escrow
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Agent, AgentClaim, InventoryItem, MarketOrder, Structure } from '../../db/schema';
+import type { ActionIntent, BuildParams, DemolishParams } from '../../actions/types';
+import { CONFIG } from '../../config';
+
+const mockGetInventoryItem = mock(() => Promise.resolve(undefined as InventoryItem | undefined));
+const mockRemoveFromInventory = mock(() => Promise.resolve(0));
+const mockAddToInventory = mock(() => Promise.resolve());
+const mockCreateStructure = mock((s: Partial<Structure>) =>
+  Promise.resolve({ ...createStructure(), ...s, id: 'new-structure-id' } as Structure)
+);
+const mockGetActiveStructureAtPosition = mock(() => Promise.resolve(undefined as Structure | undefined));
+const mockGetStructureById = mock(() => Promise.resolve(undefined as Structure | undefined));
+const mockRecordStructureWork = mock(() => Promise.resolve());
+const mockCompleteStructure = mock(() => Promise.resolve());
+const mockEndStructure = mock(() => Promise.resolve(true));
+const mockDecayStructures = mock((_structureType: string, _amount: number) => Promise.resolve([] as Structure[]));
+const mockGetDominantClaim = mock(() => Promise.resolve(null as AgentClaim | null));
+const mockStoreMemory = mock((_memory: Record<string, unknown>) => Promise.resolve({ id: 'test-memory' }));
+const mockCreateShelter = mock(() => Promise.resolve({ id: 'new-shelter-id' }));
+const mockDeleteShelter = mock(() => Promise.resolve());
+const mockCancelShelterOrders = mock((_shelterId: string, _tick: number) => Promise.resolve([] as MarketOrder[]));
+
+mock.module('../../db/queries/inventory', () => ({
+  getInventoryItem: mockGetInventoryItem,
+  removeFromInventory: mockRemoveFromInventory,
+  addToInventory: mockAddToInventory,
+}));
+
+mock.module('../../db/queries/structures', () => ({
+  ACTIVE_STRUCTURE_STATUSES: ['under_construction', 'complete'],
+  createStructure: mockCreateStructure,
+  getActiveStructureAtPosition: mockGetActiveStructureAtPosition,
+  getStructureById: mockGetStructureById,
+  recordStructureWork: mockRecordStructureWork,
+  completeStructure: mockCompleteStructure,
+  endStructure: mockEndStructure,
+  decayStructures: mockDecayStructures,
+  getActiveStructures: mock(() => Promise.resolve([])),
+}));
+
+mock.module('../../db/queries/market', () => ({
+  createMarketOrder: mock(() => Promise.resolve(undefined)),
+  getMarketOrderById: mock(() => Promise.resolve(undefined)),
+  getOpenOrdersForAgent: mock(() => Promise.resolve([])),
+  getOpenOrders: mock(() => Promise.resolve([])),
+  getQuotesForShelters: mock(() => Promise.resolve([])),
+  recordOrderFill: mock(() => Promise.resolve()),
+  closeMarketOrder: mock(() => Promise.resolve(undefined)),
+  cancelShelterOrders: mockCancelShelterOrders,
+  expireMarketOrders: mock(() => Promise.resolve([])),
+}));
+
+mock.module('../../db/queries/claims', () => ({
+  getDominantClaim: mockGetDominantClaim,
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: mockStoreMemory,
+}));
+
+mock.module('../../db/queries/world', () => ({
+  createShelter: mockCreateShelter,
+  deleteShelter: mockDeleteShelter,
+}));
+
+afterAll(() => {
+  clearTerrain();
+  mock.restore();
+});
+
+// Import after mocking
+import { handleBuild } from '../../actions/handlers/build';
+import { handleDemolish } from '../../actions/handlers/demolish';
+import { processStructureDecay } from '../../simulation/structures';
+import { clearTerrain, getCell, setTerrain } from '../../world/terrain';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'builder-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createStructure(overrides: Partial<Structure> = {}): Structure {
+  return {
+    id: 'structure-id',
+    tenantId: null,
+    structureType: 'shelter',
+    x: 50,
+    y: 50,
+    ownerAgentId: 'builder-id',
+    status: 'under_construction',
+    buildProgress: 1,
+    buildTicksRequired: 4,
+    condition: 100,
+    materialsUsed: { material: 2 },
+    shelterId: null,
+    startedAtTick: 1,
+    completedAtTick: null,
+    lastMaintainedTick: 1,
+    endedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createBuildIntent(structureType: string): ActionIntent<BuildParams> {
+  return { agentId: 'builder-id', type: 'build', params: { structureType }, tick: 10, timestamp: Date.now() };
+}
+
+function createDemolishIntent(params: DemolishParams = {}): ActionIntent<DemolishParams> {
+  return { agentId: 'builder-id', type: 'demolish', params, tick: 10, timestamp: Date.now() };
+}
+
+function haveMaterial(quantity: number) {
+  mockGetInventoryItem.mockImplementation(() =>
+    Promise.resolve({ itemType: 'material', quantity } as InventoryItem)
+  );
+}
+
+beforeEach(() => {
+  for (const m of [
+    mockGetInventoryItem, mockRemoveFromInventory, mockAddToInventory, mockCreateStructure,
+    mockGetActiveStructureAtPosition, mockGetStructureById, mockRecordStructureWork,
+    mockCompleteStructure, mockEndStructure, mockGetDominantClaim, mockStoreMemory,
+    mockCreateShelter, mockDeleteShelter, mockDecayStructures, mockCancelShelterOrders,
+  ]) {
+    m.mockClear();
+  }
+  mockGetInventoryItem.mockImplementation(() => Promise.resolve(undefined));
+  mockGetActiveStructureAtPosition.mockImplementation(() => Promise.resolve(undefined));
+  mockGetStructureById.mockImplementation(() => Promise.resolve(undefined));
+  mockGetDominantClaim.mockImplementation(() => Promise.resolve(null));
+  mockEndStructure.mockImplementation(() => Promise.resolve(true));
+  mockDecayStructures.mockImplementation(() => Promise.resolve([]));
+  mockCancelShelterOrders.mockImplementation(() => Promise.resolve([]));
+  clearTerrain();
+});
+
+describe('handleBuild', () => {
+  describe('validation', () => {
+    test('rejects unknown structure types', async () => {
+      const result = await handleBuild(createBuildIntent('castle'), createMockAgent());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown structure type');
+    });
+
+    test('rejects without the materials for a tick of work', async () => {
+      haveMaterial(1);
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Missing material');
+      expect(mockRemoveFromInventory).not.toHaveBeenCalled();
+    });
+
+    test('rejects a different structure type on an occupied cell', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ structureType: 'wall' }))
+      );
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('already has a wall');
+    });
+  });
+
+  describe('construction', () => {
+    test('starts a site owned by the builder', async () => {
+      haveMaterial(5);
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent({ energy: 50 }));
+
+      expect(result.success).toBe(true);
+      expect(mockCreateStructure.mock.calls[0][0]).toMatchObject({
+        structureType: 'shelter',
+        ownerAgentId: 'builder-id',
+        buildProgress: 1,
+        buildTicksRequired: CONFIG.actions.build.structures.shelter.ticks,
+      });
+      expect(mockRemoveFromInventory).toHaveBeenCalledWith('builder-id', 'material', 2);
+      expect(result.changes?.energy).toBe(50 - CONFIG.actions.build.energyCostPerTick);
+      expect(result.events?.[0].type).toBe('structure_construction_started');
+    });
+
+    test("flags sites started on another agent's claim", async () => {
+      haveMaterial(5);
+      mockGetDominantClaim.mockImplementation(() =>
+        Promise.resolve({ agentId: 'claimer-id' } as AgentClaim)
+      );
+
+      const result = await handleBuild(createBuildIntent('storage'), createMockAgent());
+
+      expect(result.events?.[0].payload.claimOwnerId).toBe('claimer-id');
+    });
+
+    test('any agent can add work to a site; ownership stays with the founder', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ ownerAgentId: 'founder-id', buildProgress: 1 }))
+      );
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent());
+
+      expect(result.success).toBe(true);
+      expect(mockRecordStructureWork).toHaveBeenCalledTimes(1);
+      expect(result.events?.[0]).toMatchObject({
+        type: 'structure_build_progress',
+        payload: { ownerAgentId: 'founder-id', progress: 2 },
+      });
+    });
+
+    test('completing a shelter creates a shelter owned by the founder', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ ownerAgentId: 'founder-id', buildProgress: 3, buildTicksRequired: 4 }))
+      );
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent());
+
+      expect(mockCreateShelter.mock.calls[0]).toEqual([
+        expect.objectContaining({ x: 50, y: 50, ownerAgentId: 'founder-id', canSleep: true }),
+      ] as never);
+      expect(mockCompleteStructure).toHaveBeenCalledWith('structure-id', 10, 'new-shelter-id');
+      const completed = result.events?.find((e) => e.type === 'structure_completed');
+      expect(completed?.payload).toMatchObject({ shelterId: 'new-shelter-id', materialsUsed: { material: 4 } });
+    });
+
+    test('a completed market stall opens a venue for the order book', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ structureType: 'market_stall', ownerAgentId: 'founder-id', buildProgress: 1, buildTicksRequired: 2 }))
+      );
+
+      const result = await handleBuild(createBuildIntent('market_stall'), createMockAgent());
+
+      expect(mockCreateShelter.mock.calls[0]).toEqual([
+        expect.objectContaining({ x: 50, y: 50, ownerAgentId: 'founder-id', canSleep: false }),
+      ] as never);
+      const completed = result.events?.find((e) => e.type === 'structure_completed');
+      expect(completed?.payload).toMatchObject({ structureType: 'market_stall', shelterId: 'new-shelter-id' });
+    });
+
+    test('a completed wall blocks its cell', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ structureType: 'wall', buildProgress: 1, buildTicksRequired: 2 }))
+      );
+
+      await handleBuild(createBuildIntent('wall'), createMockAgent());
+
+      expect(getCell(50, 50).walkable).toBe(false);
+      expect(mockCreateShelter).not.toHaveBeenCalled();
+    });
+
+    test('working on a completed structure repairs it', async () => {
+      haveMaterial(5);
+      mockGetActiveStructureAtPosition.mockImplementation(() =>
+        Promise.resolve(createStructure({ status: 'complete', buildProgress: 4, condition: 30 }))
+      );
+
+      const result = await handleBuild(createBuildIntent('shelter'), createMockAgent());
+
+      expect(result.events?.[0]).toMatchObject({
+        type: 'structure_repaired',
+        payload: { conditionBefore: 30, conditionAfter: Math.min(100, 30 + CONFIG.actions.build.repairPerTick) },
+      });
+      expect(mockCompleteStructure).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('handleDemolish', () => {
+  test('rejects when there is nothing to demolish', async () => {
+    const result = await handleDemolish(createDemolishIntent(), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No structure');
+  });
+
+  test('rejects structures out of reach', async () => {
+    mockGetStructureById.mockImplementation(() => Promise.resolve(createStructure({ x: 55, y: 50 })));
+
+    const result = await handleDemolish(createDemolishIntent({ structureId: 'structure-id' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Too far');
+    expect(mockEndStructure).not.toHaveBeenCalled();
+  });
+
+  test('salvages materials and removes the shelter', async () => {
+    mockGetActiveStructureAtPosition.mockImplementation(() =>
+      Promise.resolve(createStructure({ status: 'complete', materialsUsed: { material: 8 }, shelterId: 'shelter-id' }))
+    );
+
+    const result = await handleDemolish(createDemolishIntent(), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(mockEndStructure).toHaveBeenCalledWith('structure-id', 'demolished', 10);
+    expect(mockDeleteShelter).toHaveBeenCalledWith('shelter-id');
+    expect(mockAddToInventory).toHaveBeenCalledWith(
+      'builder-id',
+      'material',
+      Math.floor(8 * CONFIG.actions.demolish.salvageRate)
+    );
+    expect(result.events?.[0].payload).toMatchObject({ byOwner: true, wasComplete: true });
+  });
+
+  test("tearing down someone else's structure is remembered by the owner", async () => {
+    mockGetActiveStructureAtPosition.mockImplementation(() =>
+      Promise.resolve(createStructure({ ownerAgentId: 'owner-id' }))
+    );
+
+    const result = await handleDemolish(createDemolishIntent(), createMockAgent());
+
+    expect(result.events?.[0].payload.byOwner).toBe(false);
+    const ownerMemory = mockStoreMemory.mock.calls.find(([m]) => m.agentId === 'owner-id');
+    expect(ownerMemory?.[0]).toMatchObject({ type: 'interaction', involvedAgentIds: ['builder-id'] });
+  });
+
+  test('demolishing a wall opens the cell again', async () => {
+    mockGetActiveStructureAtPosition.mockImplementation(() =>
+      Promise.resolve(createStructure({ structureType: 'wall', status: 'complete' }))
+    );
+
+    // Wall completed earlier (terrain is in-memory)
+    setTerrain(50, 50, 'building');
+
+    await handleDemolish(createDemolishIntent(), createMockAgent());
+
+    expect(getCell(50, 50).walkable).toBe(true);
+  });
+});
+
+describe('venue removal', () => {
+  function createAsk(overrides: Partial<MarketOrder> = {}): MarketOrder {
+    return {
+      id: 'ask-id',
+      tenantId: null,
+      shelterId: 'shelter-id',
+      itemType: 'food',
+      agentId: 'seller-id',
+      side: 'ask',
+      price: 5,
+      quantity: 4,
+      filledQuantity: 1,
+      status: 'cancelled',
+      createdAtTick: 5,
+      expiresAtTick: 50,
+      closedAtTick: 10,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+  }
+
+  test('a collapsing shelter cancels its open asks and returns their escrow', async () => {
+    mockDecayStructures.mockImplementation((structureType) =>
+      Promise.resolve(structureType === 'shelter'
+        ? [createStructure({ status: 'complete', condition: 0, shelterId: 'shelter-id' })]
+        : [])
+    );
+    mockCancelShelterOrders.mockImplementation(() =>
+      Promise.resolve([createAsk(), createAsk({ id: 'bid-id', side: 'bid', agentId: 'buyer-id', filledQuantity: 0 })])
+    );
+
+    const events = await processStructureDecay(10);
+
+    expect(mockCancelShelterOrders).toHaveBeenCalledWith('shelter-id', 10);
+    expect(mockDeleteShelter).toHaveBeenCalledWith('shelter-id');
+    expect(mockCancelShelterOrders.mock.invocationCallOrder[0]).toBeLessThan(mockDeleteShelter.mock.invocationCallOrder[0]);
+    expect(mockAddToInventory).toHaveBeenCalledTimes(1);
+    expect(mockAddToInventory).toHaveBeenCalledWith('seller-id', 'food', 3);
+    expect(events.map((e) => e.type)).toEqual(['structure_collapsed', 'market_order_cancelled', 'market_order_cancelled']);
+    expect(events[1]).toMatchObject({
+      agentId: 'seller-id',
+      payload: { orderId: 'ask-id', side: 'ask', unfilledQuantity: 3, reason: 'venue_removed' },
+    });
+    expect(events[2]).toMatchObject({ agentId: 'buyer-id', payload: { side: 'bid', reason: 'venue_removed' } });
+  });
+
+  test('demolishing a market stall reports its cancelled orders', async () => {
+    mockGetActiveStructureAtPosition.mockImplementation(() =>
+      Promise.resolve(createStructure({ structureType: 'market_stall', status: 'complete', shelterId: 'shelter-id' }))
+    );
+    mockCancelShelterOrders.mockImplementation(() => Promise.resolve([createAsk()]));
+
+    const result = await handleDemolish(createDemolishIntent(), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.map((e) => e.type)).toEqual(['structure_demolished', 'market_order_cancelled']);
+    expect(mockAddToInventory).toHaveBeenCalledWith('seller-id', 'food', 3);
+  });
+});
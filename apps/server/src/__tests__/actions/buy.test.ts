@@ -83,6 +83,7 @@ function createMockShelter(overrides: Partial<Shelter> = {}): Shelter {
     createdAt: new Date(),
     tenantId: null,
     ownerAgentId: null,
+    priceMultiplier: 1,
     ...overrides,
   };
 }
@@ -0,0 +1,491 @@
+/**
+ * Tests for Container Action Handlers
+ *
+ * Tests cover:
+ * - Access list evaluation (owner, agent, team, credential grants)
+ * - Deposit: own container created on first use, storage capacity, ACL, capacity limit
+ * - Withdraw: ACL, position, owner notified
+ * - Grant access: owner only, replace and revoke entries
+ * - Steal from containers: detection when the owner is nearby or by chance
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type {
+  Agent,
+  Container,
+  ContainerAccessEntry,
+  ContainerItem,
+  InventoryItem,
+  Structure,
+} from '../../db/schema';
+import type {
+  ActionIntent,
+  ActionParams,
+  DepositParams,
+  GrantAccessParams,
+  StealParams,
+  WithdrawParams,
+} from '../../actions/types';
+import type { AccessSubject } from '../../actions/utils/container-access';
+import { entryMatchesSubject, hasContainerPermission } from '../../actions/utils/container-access';
+import { CONFIG } from '../../config';
+
+const mockGetContainerById = mock(() => Promise.resolve(undefined as Container | undefined));
+const mockGetOwnedContainerAtPosition = mock(() => Promise.resolve(undefined as Container | undefined));
+const mockCreateContainer = mock((c: Partial<Container>) =>
+  Promise.resolve({ ...createContainer(), ...c, id: 'new-container-id' } as Container)
+);
+const mockGetContainerItems = mock(() => Promise.resolve([] as ContainerItem[]));
+const mockAddToContainer = mock(() => Promise.resolve());
+const mockRemoveFromContainer = mock(() => Promise.resolve(0));
+const mockGetContainerAccess = mock(() => Promise.resolve([] as ContainerAccessEntry[]));
+const mockAddContainerAccess = mock((entry: Partial<ContainerAccessEntry>) => Promise.resolve(entry));
+const mockRemoveContainerAccess = mock((_id: string) => Promise.resolve());
+const mockGetInventoryItem = mock(() => Promise.resolve(undefined as InventoryItem | undefined));
+const mockRemoveFromInventory = mock(() => Promise.resolve(0));
+const mockAddToInventory = mock(() => Promise.resolve());
+const mockGetActiveStructureAtPosition = mock(() => Promise.resolve(undefined as Structure | undefined));
+const mockGetSheltersAtPosition = mock(() => Promise.resolve([] as { id: string }[]));
+const mockGetAgentById = mock(() => Promise.resolve(undefined as Agent | undefined));
+const mockGetAliveAgents = mock(() => Promise.resolve([] as Agent[]));
+const mockStoreMemory = mock((_memory: Record<string, unknown>) => Promise.resolve({ id: 'test-memory' }));
+const mockUpdateRelationshipTrust = mock((_agentId: string, _otherId: string) => Promise.resolve());
+const mockCheckIsRetaliation = mock(() =>
+  Promise.resolve({ isRetaliation: false, existingChainId: null, depth: 0 })
+);
+const mockRecordRetaliationChain = mock(() => Promise.resolve());
+const mockLoadAccessSubject = mock((agentId: string) =>
+  Promise.resolve({ agentId, teamIds: [], credentials: [] } as AccessSubject)
+);
+
+mock.module('../../db/queries/containers', () => ({
+  getContainerById: mockGetContainerById,
+  getOwnedContainerAtPosition: mockGetOwnedContainerAtPosition,
+  createContainer: mockCreateContainer,
+  getContainerItems: mockGetContainerItems,
+  addToContainer: mockAddToContainer,
+  removeFromContainer: mockRemoveFromContainer,
+  getContainerAccess: mockGetContainerAccess,
+  addContainerAccess: mockAddContainerAccess,
+  removeContainerAccess: mockRemoveContainerAccess,
+  getContainersInArea: mock(() => Promise.resolve([])),
+  getItemsForContainers: mock(() => Promise.resolve([])),
+  getAccessForContainers: mock(() => Promise.resolve([])),
+}));
+
+mock.module('../../actions/utils/container-access', () => ({
+  entryMatchesSubject,
+  hasContainerPermission,
+  loadAccessSubject: mockLoadAccessSubject,
+}));
+
+mock.module('../../db/queries/inventory', () => ({
+  getInventoryItem: mockGetInventoryItem,
+  removeFromInventory: mockRemoveFromInventory,
+  addToInventory: mockAddToInventory,
+}));
+
+mock.module('../../db/queries/structures', () => ({
+  getActiveStructureAtPosition: mockGetActiveStructureAtPosition,
+}));
+
+mock.module('../../db/queries/world', () => ({
+  getSheltersAtPosition: mockGetSheltersAtPosition,
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: mockGetAgentById,
+  getAliveAgents: mockGetAliveAgents,
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: mockStoreMemory,
+  updateRelationshipTrust: mockUpdateRelationshipTrust,
+}));
+
+mock.module('../../db/queries/roles', () => ({
+  checkIsRetaliation: mockCheckIsRetaliation,
+  recordRetaliationChain: mockRecordRetaliationChain,
+}));
+
+// Detection tuning is overridden per test and restored afterwards
+const stealConfig = CONFIG.actions.steal as { containerDetectionChance: number; containerDetectionPerWitness: number };
+const originalDetection = {
+  containerDetectionChance: stealConfig.containerDetectionChance,
+  containerDetectionPerWitness: stealConfig.containerDetectionPerWitness,
+};
+
+afterAll(() => {
+  Object.assign(stealConfig, originalDetection);
+  mock.restore();
+});
+
+// Import after mocking
+import { handleDeposit } from '../../actions/handlers/deposit';
+import { handleWithdraw } from '../../actions/handlers/withdraw';
+import { handleGrantAccess } from '../../actions/handlers/grant-access';
+import { handleSteal } from '../../actions/handlers/steal';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'owner-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createContainer(overrides: Partial<Container> = {}): Container {
+  return {
+    id: 'container-id',
+    tenantId: null,
+    x: 50,
+    y: 50,
+    shelterId: null,
+    structureId: null,
+    ownerAgentId: 'owner-id',
+    capacity: 20,
+    createdAtTick: 1,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createEntry(overrides: Partial<ContainerAccessEntry> = {}): ContainerAccessEntry {
+  return {
+    id: 'entry-id',
+    containerId: 'container-id',
+    granteeType: 'agent',
+    granteeId: 'friend-id',
+    claimType: null,
+    permission: 'withdraw',
+    grantedBy: 'owner-id',
+    grantedAtTick: 1,
+    ...overrides,
+  };
+}
+
+function createInventoryItem(itemType: string, quantity: number): InventoryItem {
+  return { id: `${itemType}-id`, agentId: 'owner-id', itemType, quantity, properties: {}, createdAt: new Date() } as InventoryItem;
+}
+
+function intent<T extends ActionParams>(type: ActionIntent['type'], params: T, agentId = 'owner-id'): ActionIntent<T> {
+  return { agentId, type, params, tick: 10, timestamp: Date.now() };
+}
+
+beforeEach(() => {
+  for (const m of [
+    mockGetContainerById, mockGetOwnedContainerAtPosition, mockCreateContainer, mockGetContainerItems,
+    mockAddToContainer, mockRemoveFromContainer, mockGetContainerAccess, mockAddContainerAccess,
+    mockRemoveContainerAccess, mockGetInventoryItem, mockRemoveFromInventory, mockAddToInventory,
+    mockGetActiveStructureAtPosition, mockGetSheltersAtPosition, mockGetAgentById, mockGetAliveAgents,
+    mockStoreMemory, mockUpdateRelationshipTrust, mockRecordRetaliationChain, mockLoadAccessSubject,
+  ]) {
+    m.mockClear();
+  }
+  mockGetContainerById.mockImplementation(() => Promise.resolve(createContainer()));
+  mockGetOwnedContainerAtPosition.mockImplementation(() => Promise.resolve(undefined));
+  mockGetContainerItems.mockImplementation(() => Promise.resolve([]));
+  mockRemoveFromContainer.mockImplementation(() => Promise.resolve(0));
+  mockGetContainerAccess.mockImplementation(() => Promise.resolve([]));
+  mockGetInventoryItem.mockImplementation(() => Promise.resolve(createInventoryItem('food', 5)));
+  mockRemoveFromInventory.mockImplementation(() => Promise.resolve(0));
+  mockGetActiveStructureAtPosition.mockImplementation(() => Promise.resolve(undefined));
+  mockGetSheltersAtPosition.mockImplementation(() => Promise.resolve([]));
+  mockGetAgentById.mockImplementation(() => Promise.resolve(createMockAgent({ id: 'friend-id' })));
+  mockGetAliveAgents.mockImplementation(() => Promise.resolve([]));
+  mockLoadAccessSubject.mockImplementation((agentId: string) =>
+    Promise.resolve({ agentId, teamIds: [], credentials: [] })
+  );
+  Object.assign(stealConfig, originalDetection);
+});
+
+describe('hasContainerPermission', () => {
+  const container = { ownerAgentId: 'owner-id' };
+  const subject = (overrides: Partial<AccessSubject> = {}): AccessSubject => ({
+    agentId: 'friend-id',
+    teamIds: [],
+    credentials: [],
+    ...overrides,
+  });
+
+  test('owner always has access', () => {
+    expect(hasContainerPermission(container, [], subject({ agentId: 'owner-id' }), 'withdraw')).toBe(true);
+  });
+
+  test('no entry means no access', () => {
+    expect(hasContainerPermission(container, [], subject(), 'deposit')).toBe(false);
+  });
+
+  test('withdraw access includes deposit, deposit does not include withdraw', () => {
+    const withdraw = [createEntry({ permission: 'withdraw' })];
+    const deposit = [createEntry({ permission: 'deposit' })];
+    expect(hasContainerPermission(container, withdraw, subject(), 'deposit')).toBe(true);
+    expect(hasContainerPermission(container, deposit, subject(), 'deposit')).toBe(true);
+    expect(hasContainerPermission(container, deposit, subject(), 'withdraw')).toBe(false);
+  });
+
+  test('team grants match active team members', () => {
+    const entries = [createEntry({ granteeType: 'team', granteeId: 'team-1' })];
+    expect(hasContainerPermission(container, entries, subject({ teamIds: ['team-1'] }), 'withdraw')).toBe(true);
+    expect(hasContainerPermission(container, entries, subject({ teamIds: ['team-2'] }), 'withdraw')).toBe(false);
+  });
+
+  test('credential grants match claim type and optional issuer', () => {
+    const anyIssuer = [createEntry({ granteeType: 'credential', granteeId: null, claimType: 'membership' })];
+    const oneIssuer = [createEntry({ granteeType: 'credential', granteeId: 'issuer-1', claimType: 'membership' })];
+    const holder = subject({ credentials: [{ issuerId: 'issuer-2', claimType: 'membership' }] });
+
+    expect(hasContainerPermission(container, anyIssuer, holder, 'withdraw')).toBe(true);
+    expect(hasContainerPermission(container, oneIssuer, holder, 'withdraw')).toBe(false);
+    expect(
+      hasContainerPermission(container, anyIssuer, subject({ credentials: [{ issuerId: 'issuer-1', claimType: 'skill' }] }), 'withdraw')
+    ).toBe(false);
+  });
+});
+
+describe('handleDeposit', () => {
+  test('creates own container on first deposit and stores items', async () => {
+    const result = await handleDeposit(intent<DepositParams>('deposit', { itemType: 'food', quantity: 3 }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(mockCreateContainer).toHaveBeenCalledTimes(1);
+    expect(mockRemoveFromInventory).toHaveBeenCalledWith('owner-id', 'food', 3);
+    expect(mockAddToContainer).toHaveBeenCalledWith('new-container-id', 'food', 3);
+    expect(result.events?.map((e) => e.type)).toEqual(['container_created', 'container_deposit']);
+    expect(result.events?.[0].payload.capacity).toBe(CONFIG.actions.container.baseCapacity);
+  });
+
+  test('container in a completed storage structure gets storage capacity', async () => {
+    mockGetActiveStructureAtPosition.mockImplementation(() =>
+      Promise.resolve({ id: 'storage-id', structureType: 'storage', status: 'complete' } as Structure)
+    );
+
+    const result = await handleDeposit(intent<DepositParams>('deposit', { itemType: 'food', quantity: 1 }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload.capacity).toBe(CONFIG.actions.container.storageCapacity);
+    expect(result.events?.[0].payload.structureId).toBe('storage-id');
+  });
+
+  test('rejects deposit into someone else\'s container without access', async () => {
+    const result = await handleDeposit(
+      intent<DepositParams>('deposit', { itemType: 'food', quantity: 1, containerId: 'container-id' }, 'stranger-id'),
+      createMockAgent({ id: 'stranger-id' })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No deposit access');
+    expect(mockAddToContainer).not.toHaveBeenCalled();
+  });
+
+  test('rejects deposit beyond capacity', async () => {
+    mockGetOwnedContainerAtPosition.mockImplementation(() => Promise.resolve(createContainer({ capacity: 5 })));
+    mockGetContainerItems.mockImplementation(() =>
+      Promise.resolve([{ id: 'i', containerId: 'container-id', itemType: 'material', quantity: 4 }])
+    );
+
+    const result = await handleDeposit(intent<DepositParams>('deposit', { itemType: 'food', quantity: 2 }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('full');
+    expect(mockRemoveFromInventory).not.toHaveBeenCalled();
+  });
+
+  test('does not place a new container for a deposit that would not fit', async () => {
+    const quantity = CONFIG.actions.container.baseCapacity + 1;
+    mockGetInventoryItem.mockImplementation(() => Promise.resolve(createInventoryItem('food', quantity)));
+
+    const result = await handleDeposit(intent<DepositParams>('deposit', { itemType: 'food', quantity }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(mockCreateContainer).not.toHaveBeenCalled();
+    expect(result.events).toBeUndefined();
+    expect(mockRemoveFromInventory).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleWithdraw', () => {
+  test('grantee withdraws and the owner is told', async () => {
+    mockGetContainerAccess.mockImplementation(() => Promise.resolve([createEntry()]));
+
+    const result = await handleWithdraw(
+      intent<WithdrawParams>('withdraw', { containerId: 'container-id', itemType: 'food', quantity: 2 }, 'friend-id'),
+      createMockAgent({ id: 'friend-id' })
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockAddToInventory).toHaveBeenCalledWith('friend-id', 'food', 2);
+    expect(result.events?.[0].type).toBe('container_withdraw');
+    expect(result.events?.[0].payload.byOwner).toBe(false);
+    expect(mockStoreMemory.mock.calls[0][0].agentId).toBe('owner-id');
+  });
+
+  test('rejects withdraw without access', async () => {
+    mockGetContainerAccess.mockImplementation(() => Promise.resolve([createEntry({ permission: 'deposit' })]));
+
+    const result = await handleWithdraw(
+      intent<WithdrawParams>('withdraw', { containerId: 'container-id', itemType: 'food', quantity: 1 }, 'friend-id'),
+      createMockAgent({ id: 'friend-id' })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No withdraw access');
+    expect(mockRemoveFromContainer).not.toHaveBeenCalled();
+  });
+
+  test('rejects withdraw from another cell', async () => {
+    const result = await handleWithdraw(
+      intent<WithdrawParams>('withdraw', { containerId: 'container-id', itemType: 'food', quantity: 1 }),
+      createMockAgent({ x: 51 })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('must be on its cell');
+  });
+});
+
+describe('handleGrantAccess', () => {
+  test('only the owner can change access', async () => {
+    const result = await handleGrantAccess(
+      intent<GrantAccessParams>('grant_access', {
+        containerId: 'container-id',
+        granteeType: 'agent',
+        granteeId: 'stranger-id',
+        permission: 'withdraw',
+      }, 'friend-id'),
+      createMockAgent({ id: 'friend-id' })
+    );
+
+    expect(result.success).toBe(false);
+    expect(mockAddContainerAccess).not.toHaveBeenCalled();
+  });
+
+  test('granting again replaces the previous permission', async () => {
+    mockGetContainerAccess.mockImplementation(() => Promise.resolve([createEntry({ permission: 'deposit' })]));
+
+    const result = await handleGrantAccess(
+      intent<GrantAccessParams>('grant_access', {
+        containerId: 'container-id',
+        granteeType: 'agent',
+        granteeId: 'friend-id',
+        permission: 'withdraw',
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockRemoveContainerAccess).toHaveBeenCalledWith('entry-id');
+    expect(mockAddContainerAccess.mock.calls[0][0].permission).toBe('withdraw');
+    expect(result.events?.[0].type).toBe('container_access_granted');
+    expect(result.events?.[0].payload.previousPermission).toBe('deposit');
+  });
+
+  test('credential grants require a claim type', async () => {
+    const result = await handleGrantAccess(
+      intent<GrantAccessParams>('grant_access', {
+        containerId: 'container-id',
+        granteeType: 'credential',
+        permission: 'withdraw',
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('claimType');
+  });
+
+  test('permission none revokes the entry', async () => {
+    mockGetContainerAccess.mockImplementation(() =>
+      Promise.resolve([createEntry({ granteeType: 'credential', granteeId: null, claimType: 'membership' })])
+    );
+
+    const result = await handleGrantAccess(
+      intent<GrantAccessParams>('grant_access', {
+        containerId: 'container-id',
+        granteeType: 'credential',
+        claimType: 'membership',
+        permission: 'none',
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockRemoveContainerAccess).toHaveBeenCalledWith('entry-id');
+    expect(result.events?.[0].type).toBe('container_access_revoked');
+  });
+});
+
+describe('handleSteal - containers', () => {
+  const thief = () => createMockAgent({ id: 'thief-id' });
+  const stealIntent = () =>
+    intent<StealParams>('steal', { targetContainerId: 'container-id', targetItemType: 'food', quantity: 2 }, 'thief-id');
+
+  test('theft is always detected when the owner is nearby', async () => {
+    stealConfig.containerDetectionChance = 0;
+    mockGetAliveAgents.mockImplementation(() => Promise.resolve([thief(), createMockAgent({ x: 52 })]));
+
+    const result = await handleSteal(stealIntent(), thief());
+
+    expect(result.success).toBe(true);
+    expect(mockAddToInventory).toHaveBeenCalledWith('thief-id', 'food', 2);
+    expect(result.events?.[0].type).toBe('container_theft');
+    expect(result.events?.[0].payload.detected).toBe(true);
+    expect(mockUpdateRelationshipTrust.mock.calls[0][0]).toBe('owner-id');
+    expect(mockRecordRetaliationChain).toHaveBeenCalled();
+  });
+
+  test('undetected theft leaves the owner without a culprit', async () => {
+    stealConfig.containerDetectionChance = 0;
+
+    const result = await handleSteal(stealIntent(), thief());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload.detected).toBe(false);
+    expect(mockUpdateRelationshipTrust).not.toHaveBeenCalled();
+    const ownerMemory = mockStoreMemory.mock.calls.find((call) => call[0].agentId === 'owner-id');
+    expect(ownerMemory?.[0].involvedAgentIds).toEqual([]);
+  });
+
+  test('witnesses can expose the thief', async () => {
+    stealConfig.containerDetectionChance = 0;
+    stealConfig.containerDetectionPerWitness = 1;
+    mockGetAliveAgents.mockImplementation(() => Promise.resolve([createMockAgent({ id: 'witness-id', x: 51 })]));
+
+    const result = await handleSteal(stealIntent(), thief());
+
+    expect(result.events?.[0].payload.detected).toBe(true);
+    expect(result.events?.[0].payload.witnessIds).toEqual(['witness-id']);
+  });
+
+  test('agents with withdraw access are told to withdraw', async () => {
+    mockGetContainerAccess.mockImplementation(() => Promise.resolve([createEntry({ granteeId: 'thief-id' })]));
+
+    const result = await handleSteal(stealIntent(), thief());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('use withdraw');
+    expect(mockRemoveFromContainer).not.toHaveBeenCalled();
+  });
+
+  test('fails when the container lacks the items', async () => {
+    mockRemoveFromContainer.mockImplementation(() => Promise.resolve(-1));
+
+    const result = await handleSteal(stealIntent(), thief());
+
+    expect(result.success).toBe(false);
+    expect(mockAddToInventory).not.toHaveBeenCalled();
+  });
+});
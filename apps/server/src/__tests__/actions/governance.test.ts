@@ -0,0 +1,572 @@
+/**
+ * Tests for Governance Action Handlers (propose, vote, tally)
+ *
+ * Covers:
+ * - Decision rules: majority, threshold, quorum and stake weighting
+ * - Scope and outcome validation when proposing
+ * - Vote eligibility and stake-weighted votes
+ * - Tallying: early tallies, double tallies and binding outcomes
+ */
+
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
+import type { Agent, AgentClaim, OrganizationMember, Proposal, ProposalVote, Shelter } from '../../db/schema';
+import * as ledger from '../../ledger';
+import type {
+  ActionIntent,
+  ActionParams,
+  ActionType,
+  ProposeParams,
+  TallyParams,
+  VoteParams,
+} from '../../actions/types';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// Mock database calls BEFORE importing the handlers
+let proposal: Proposal | undefined;
+let votes: ProposalVote[] = [];
+let openProposalCount = 0;
+let members: OrganizationMember[] = [];
+let claim: AgentClaim | null = null;
+let shelter: Shelter | undefined;
+let aliveAgents: Agent[] = [];
+let tallyRecorded = true;
+const castVotes: Array<{ voterId: string; choice: string; weight: number }> = [];
+const banishments: Array<{ agentId: string; x: number; y: number; radius: number; expiresAtTick: number | null }> = [];
+const transfers: Array<{ orgId: string; agentId: string; amount: number }> = [];
+const endedMemberships: Array<{ id: string; status: string }> = [];
+const priceChanges: Array<{ id: string; priceMultiplier: number }> = [];
+const policyChanges: Array<{ policy: Record<string, unknown>; source: string }> = [];
+let outcome: { applied: boolean; note: string | null } | undefined;
+
+mock.module('../../db/queries/governance', () => ({
+  createProposal: async (values: Partial<Proposal>) => ({ ...createProposal(), ...values, id: 'proposal-id' }),
+  getProposalById: async (id: string) => (proposal?.id === id ? proposal : undefined),
+  countOpenProposalsByAgent: async () => openProposalCount,
+  getVote: async (_proposalId: string, voterId: string) => votes.find((v) => v.voterId === voterId),
+  getVotesForProposal: async () => votes,
+  castVote: async (vote: { voterId: string; choice: string; weight: number }) => {
+    castVotes.push({ voterId: vote.voterId, choice: vote.choice, weight: vote.weight });
+    return vote;
+  },
+  recordTally: async () => tallyRecorded,
+  recordOutcome: async (_id: string, applied: boolean, note: string | null) => {
+    outcome = { applied, note };
+  },
+  createBanishment: async (banishment: (typeof banishments)[number]) => {
+    banishments.push({
+      agentId: banishment.agentId,
+      x: banishment.x,
+      y: banishment.y,
+      radius: banishment.radius,
+      expiresAtTick: banishment.expiresAtTick,
+    });
+    return banishment;
+  },
+}));
+
+mock.module('../../db/queries/organizations', () => ({
+  getOrganizationById: async (id: string) => (id === 'org-id' ? { id, status: 'active' } : undefined),
+  getActiveMembers: async () => members,
+  getActiveMembership: async (_orgId: string, agentId: string) => members.find((m) => m.agentId === agentId),
+  endMembership: async (id: string, status: string) => {
+    endedMemberships.push({ id, status });
+    return true;
+  },
+  transferFounder: async () => undefined,
+  getActiveMembershipsForAgents: async () => [],
+  dissolveOrganization: async () => undefined,
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: async (id: string) => aliveAgents.find((a) => a.id === id),
+  getAliveAgents: async () => aliveAgents,
+}));
+
+mock.module('../../db/queries/claims', () => ({
+  getClaimById: async (id: string) => (claim?.id === id ? claim : null),
+}));
+
+mock.module('../../db/queries/world', () => ({
+  getShelterById: async (id: string) => (shelter?.id === id ? shelter : undefined),
+  setShelterPriceMultiplier: async (id: string, priceMultiplier: number) => {
+    priceChanges.push({ id, priceMultiplier });
+    return shelter ? { ...shelter, priceMultiplier } : undefined;
+  },
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: async () => undefined,
+}));
+
+mock.module('../../db/queries/fiscal', () => ({
+  getTreasury: async () => ({ balance: 0, transactionTaxRate: 0, wealthTaxRate: 0, redistributionShare: 0 }),
+  toFiscalPolicy: (treasury: Record<string, unknown>) => treasury,
+  updateFiscalPolicy: async (_tenantId: string | null, policy: Record<string, unknown>, source: string) => {
+    policyChanges.push({ policy, source });
+    return policy;
+  },
+}));
+
+// Spied rather than module-mocked, so mock.restore() gives the ledger tests the real one
+spyOn(ledger, 'transferWithOrg').mockImplementation(async (orgId, agentId, _direction, amount) => {
+  transfers.push({ orgId, agentId, amount });
+  return { success: true, txId: 'tx-id', entries: [], fromNewBalance: 100 - amount, toNewBalance: amount };
+});
+
+// Import after mocking
+import { handlePropose } from '../../actions/handlers/propose';
+import { handleVote } from '../../actions/handlers/vote';
+import { handleTally } from '../../actions/handlers/tally';
+import { tallyVotes } from '../../actions/utils/governance';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'agent-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 100,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createProposal(overrides: Partial<Proposal> = {}): Proposal {
+  return {
+    id: 'proposal-id',
+    tenantId: null,
+    proposerId: 'agent-id',
+    title: 'Dues',
+    scopeType: 'world',
+    scopeId: null,
+    areaX: null,
+    areaY: null,
+    areaRadius: null,
+    outcomeType: 'resolution',
+    outcomeParams: {},
+    threshold: 0.5,
+    quorum: 0,
+    weighting: 'equal',
+    status: 'open',
+    createdAtTick: 80,
+    closesAtTick: 120,
+    talliedAtTick: null,
+    talliedBy: null,
+    electorateSize: null,
+    yesWeight: null,
+    noWeight: null,
+    abstainWeight: null,
+    outcomeApplied: null,
+    outcomeNote: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createVote(voterId: string, choice: 'yes' | 'no' | 'abstain', weight = 1): ProposalVote {
+  return {
+    id: `vote-${voterId}`,
+    tenantId: null,
+    proposalId: 'proposal-id',
+    voterId,
+    choice,
+    weight,
+    castAtTick: 90,
+    createdAt: new Date(),
+  };
+}
+
+function createMember(agentId: string, role: 'founder' | 'member' = 'member'): OrganizationMember {
+  return {
+    id: `membership-${agentId}`,
+    tenantId: null,
+    orgId: 'org-id',
+    agentId,
+    role,
+    status: 'active',
+    joinedAtTick: 10,
+    leftAtTick: null,
+    createdAt: new Date(),
+  };
+}
+
+function createIntent<T extends ActionParams>(type: ActionType, params: T, tick = 100): ActionIntent<T> {
+  return {
+    agentId: 'agent-id',
+    type,
+    params,
+    tick,
+    timestamp: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  proposal = createProposal();
+  votes = [];
+  openProposalCount = 0;
+  members = [];
+  claim = null;
+  shelter = undefined;
+  aliveAgents = [createMockAgent()];
+  tallyRecorded = true;
+  castVotes.length = 0;
+  banishments.length = 0;
+  transfers.length = 0;
+  endedMemberships.length = 0;
+  priceChanges.length = 0;
+  policyChanges.length = 0;
+  outcome = undefined;
+});
+
+describe('tallyVotes', () => {
+  const majority = { threshold: 0.5, quorum: 0, weighting: 'equal' };
+
+  test('passes on a simple majority and ignores abstentions', () => {
+    const result = tallyVotes([createVote('a', 'yes'), createVote('b', 'no'), createVote('c', 'yes'), createVote('d', 'abstain')], 4, majority);
+
+    expect(result).toMatchObject({ status: 'passed', yesWeight: 2, noWeight: 1, abstainWeight: 1, turnout: 1 });
+  });
+
+  test('rejects a tie under a simple majority', () => {
+    expect(tallyVotes([createVote('a', 'yes'), createVote('b', 'no')], 2, majority).status).toBe('rejected');
+  });
+
+  test('requires the yes share to exceed a supermajority threshold', () => {
+    const twoThirds = { ...majority, threshold: 2 / 3 };
+    const ballots = [createVote('a', 'yes'), createVote('b', 'yes'), createVote('c', 'no')];
+
+    expect(tallyVotes(ballots, 3, twoThirds).status).toBe('rejected');
+    expect(tallyVotes([...ballots, createVote('d', 'yes')], 4, twoThirds).status).toBe('passed');
+  });
+
+  test('fails without quorum, counting abstentions toward it', () => {
+    const rule = { ...majority, quorum: 0.5 };
+
+    expect(tallyVotes([createVote('a', 'yes')], 4, rule).status).toBe('no_quorum');
+    expect(tallyVotes([createVote('a', 'yes'), createVote('b', 'abstain')], 4, rule).status).toBe('passed');
+    expect(tallyVotes([], 4, majority).status).toBe('no_quorum');
+  });
+
+  test('weights votes by stake only under stake weighting', () => {
+    const ballots = [createVote('rich', 'no', 300), createVote('a', 'yes', 50), createVote('b', 'yes', 40)];
+
+    expect(tallyVotes(ballots, 3, majority).status).toBe('passed');
+    const staked = tallyVotes(ballots, 3, { ...majority, weighting: 'stake' });
+    expect(staked).toMatchObject({ status: 'rejected', yesWeight: 90, noWeight: 300 });
+  });
+});
+
+describe('handlePropose', () => {
+  test('creates a world proposal with its rule', async () => {
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', {
+        scope: 'world',
+        title: '  Share the harvest ',
+        outcome: 'resolution',
+        threshold: 0.6,
+        quorum: 0.25,
+        votingTicks: 10,
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual({ energy: 97 });
+    expect(result.events?.[0].type).toBe('proposal_created');
+    expect(result.events?.[0].payload).toMatchObject({
+      title: 'Share the harvest',
+      scopeType: 'world',
+      threshold: 0.6,
+      quorum: 0.25,
+      weighting: 'equal',
+      closesAtTick: 110,
+      electorateSize: 1,
+    });
+  });
+
+  test('only lets members propose in an organisation', async () => {
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'org', scopeId: 'org-id', title: 'Dues', outcome: 'tax', amount: 5 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Only members');
+  });
+
+  test('restricts taxes to organisations', async () => {
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'world', title: 'Dues', outcome: 'tax', amount: 5 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('organisation treasury');
+  });
+
+  test('scopes a claim proposal to the claim area', async () => {
+    claim = {
+      id: 'claim-id',
+      tenantId: null,
+      agentId: 'other-id',
+      x: 52,
+      y: 50,
+      claimType: 'territory',
+      description: null,
+      strength: 1,
+      claimedAtTick: 10,
+      lastReinforcedTick: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const far = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'claim', scopeId: 'claim-id', title: 'Out', outcome: 'banish', targetAgentId: 'thief-id' }),
+      createMockAgent({ x: 80 })
+    );
+    expect(far.success).toBe(false);
+    expect(far.error).toContain('within');
+
+    const near = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'claim', scopeId: 'claim-id', title: 'Out', outcome: 'banish', targetAgentId: 'thief-id' }),
+      createMockAgent()
+    );
+    expect(near.success).toBe(true);
+    expect(near.events?.[0].payload).toMatchObject({ scopeId: 'claim-id', outcomeParams: { targetAgentId: 'thief-id' } });
+  });
+
+  test('rejects a shelter price multiplier outside the allowed range', async () => {
+    shelter = {
+      id: 'shelter-id',
+      x: 50,
+      y: 50,
+      canSleep: true,
+      createdAt: new Date(),
+      tenantId: null,
+      ownerAgentId: null,
+      priceMultiplier: 1,
+    };
+
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', {
+        scope: 'world',
+        title: 'Cheap beds',
+        outcome: 'shelter_price',
+        shelterId: 'shelter-id',
+        priceMultiplier: 0.1,
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('priceMultiplier');
+  });
+
+  test('puts fiscal policy to the whole world only', async () => {
+    members = [createMember('agent-id', 'founder')];
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', {
+        scope: 'org',
+        scopeId: 'org-id',
+        title: 'Tax the rich',
+        outcome: 'fiscal_policy',
+        wealthTaxRate: 0.1,
+      }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('scope "world"');
+  });
+
+  test('validates and stores a fiscal policy proposal', async () => {
+    const tooHigh = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'world', title: 'Take it all', outcome: 'fiscal_policy', wealthTaxRate: 0.9 }),
+      createMockAgent()
+    );
+    expect(tooHigh.success).toBe(false);
+    expect(tooHigh.error).toContain('wealthTaxRate');
+
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', {
+        scope: 'world',
+        title: 'Share the wealth',
+        outcome: 'fiscal_policy',
+        wealthTaxRate: 0.1,
+        redistributionShare: 0.5,
+      }),
+      createMockAgent()
+    );
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload).toMatchObject({
+      outcomeParams: { fiscalPolicy: { wealthTaxRate: 0.1, redistributionShare: 0.5 } },
+    });
+  });
+
+  test('limits open proposals per agent', async () => {
+    openProposalCount = 3;
+    const result = await handlePropose(
+      createIntent<ProposeParams>('propose', { scope: 'world', title: 'Again', outcome: 'resolution' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('open proposals');
+  });
+});
+
+describe('handleVote', () => {
+  test('records a stake-weighted vote and the previous choice', async () => {
+    proposal = createProposal({ weighting: 'stake' });
+    votes = [createVote('agent-id', 'no', 100)];
+
+    const result = await handleVote(
+      createIntent<VoteParams>('vote', { proposalId: 'proposal-id', choice: 'yes' }),
+      createMockAgent({ balance: 250 })
+    );
+
+    expect(result.success).toBe(true);
+    expect(castVotes).toEqual([{ voterId: 'agent-id', choice: 'yes', weight: 250 }]);
+    expect(result.events?.[0].payload).toMatchObject({ choice: 'yes', weight: 250, previousChoice: 'no' });
+  });
+
+  test('rejects voters outside the organisation', async () => {
+    proposal = createProposal({ scopeType: 'org', scopeId: 'org-id' });
+
+    const result = await handleVote(
+      createIntent<VoteParams>('vote', { proposalId: 'proposal-id', choice: 'yes' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Not eligible');
+  });
+
+  test('rejects votes after voting has closed', async () => {
+    const result = await handleVote(
+      createIntent<VoteParams>('vote', { proposalId: 'proposal-id', choice: 'yes' }, 120),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('closed');
+  });
+});
+
+describe('handleTally', () => {
+  test('refuses an early tally while eligible agents have not voted', async () => {
+    aliveAgents = [createMockAgent(), createMockAgent({ id: 'other-id' })];
+    votes = [createVote('agent-id', 'yes')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('open until tick 120');
+  });
+
+  test('allows an early tally once everyone has voted', async () => {
+    votes = [createVote('agent-id', 'yes')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload).toMatchObject({ status: 'passed', electorateSize: 1, outcomeApplied: true });
+  });
+
+  test('leaves dead members out of an organisation electorate', async () => {
+    proposal = createProposal({ scopeType: 'org', scopeId: 'org-id' });
+    members = [createMember('agent-id', 'founder'), createMember('dead-id')];
+    votes = [createVote('agent-id', 'yes')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload).toMatchObject({ status: 'passed', electorateSize: 1 });
+  });
+
+  test('does not apply an outcome twice', async () => {
+    tallyRecorded = false;
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }, 130), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already tallied');
+  });
+
+  test('levies a passed tax from every member into the treasury', async () => {
+    proposal = createProposal({ scopeType: 'org', scopeId: 'org-id', outcomeType: 'tax', outcomeParams: { amount: 10 } });
+    members = [createMember('agent-id', 'founder'), createMember('poor-id')];
+    aliveAgents = [createMockAgent(), createMockAgent({ id: 'poor-id', balance: 4 })];
+    votes = [createVote('agent-id', 'yes'), createVote('poor-id', 'no')];
+    proposal.threshold = 0.4;
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(transfers).toEqual([
+      { orgId: 'org-id', agentId: 'agent-id', amount: 10 },
+      { orgId: 'org-id', agentId: 'poor-id', amount: 4 },
+    ]);
+    expect(result.changes).toEqual({ balance: 90 });
+    expect(outcome).toEqual({ applied: true, note: 'Collected 14 CITY from 2 members' });
+  });
+
+  test('banishes the target from a claim area', async () => {
+    proposal = createProposal({
+      scopeType: 'claim',
+      scopeId: 'claim-id',
+      areaX: 52,
+      areaY: 50,
+      areaRadius: 5,
+      outcomeType: 'banish',
+      outcomeParams: { targetAgentId: 'thief-id' },
+    });
+    aliveAgents = [createMockAgent(), createMockAgent({ id: 'thief-id', x: 90 })];
+    votes = [createVote('agent-id', 'yes')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }, 130), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(banishments).toEqual([{ agentId: 'thief-id', x: 52, y: 50, radius: 5, expiresAtTick: 630 }]);
+  });
+
+  test('changes the fiscal policy when a fiscal proposal passes', async () => {
+    proposal = createProposal({
+      outcomeType: 'fiscal_policy',
+      outcomeParams: { fiscalPolicy: { transactionTaxRate: 0.05, publicWorkFunding: 'treasury' } },
+    });
+    votes = [createVote('agent-id', 'yes')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }, 130), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(policyChanges).toEqual([
+      { policy: { transactionTaxRate: 0.05, publicWorkFunding: 'treasury' }, source: 'governance' },
+    ]);
+    expect(outcome?.applied).toBe(true);
+    expect(outcome?.note).toContain('transaction tax 5%');
+  });
+
+  test('leaves rejected outcomes unapplied', async () => {
+    proposal = createProposal({ outcomeType: 'shelter_price', outcomeParams: { shelterId: 'shelter-id', priceMultiplier: 2 } });
+    votes = [createVote('agent-id', 'no')];
+
+    const result = await handleTally(createIntent<TallyParams>('tally', { proposalId: 'proposal-id' }, 130), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].payload).toMatchObject({ status: 'rejected', outcomeApplied: false });
+    expect(priceChanges).toHaveLength(0);
+    expect(outcome).toBeUndefined();
+  });
+});
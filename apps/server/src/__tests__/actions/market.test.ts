@@ -0,0 +1,367 @@
+/**
+ * Tests for the Shelter Market
+ *
+ * Tests cover:
+ * - Book ordering and price-time matching (pure functions)
+ * - Place order: shelter required, ask escrow, bid backed by balance, no self-matching
+ * - Cancel order: owner only, ask escrow returned
+ * - Tick clearing: fills settle through the ledger, unpaid bids are cancelled,
+ *   expired asks return their escrow
+ */
+
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
+import type { Agent, InventoryItem, MarketOrder } from '../../db/schema';
+import * as ledger from '../../ledger';
+import type { TransactionCategory, TransactionResult } from '../../ledger';
+import type {
+  ActionIntent,
+  ActionParams,
+  CancelOrderParams,
+  PlaceOrderParams,
+} from '../../actions/types';
+
+const mockCreateMarketOrder = mock((order: Partial<MarketOrder>) =>
+  Promise.resolve(createOrder({ ...order, id: 'new-order-id' }))
+);
+const mockGetMarketOrderById = mock(() => Promise.resolve(undefined as MarketOrder | undefined));
+const mockGetOpenOrdersForAgent = mock(() => Promise.resolve([] as MarketOrder[]));
+const mockGetOpenOrders = mock(() => Promise.resolve([] as MarketOrder[]));
+const mockRecordOrderFill = mock((_order: MarketOrder, _quantity: number, _tick: number) => Promise.resolve());
+const mockCloseMarketOrder = mock((_id: string, _status: string, _tick: number) =>
+  Promise.resolve(createOrder() as MarketOrder | undefined)
+);
+const mockExpireMarketOrders = mock(() => Promise.resolve([] as MarketOrder[]));
+const mockGetInventoryItem = mock(() => Promise.resolve(undefined as InventoryItem | undefined));
+const mockRemoveFromInventory = mock((_agentId: string, _itemType: string, _quantity: number) => Promise.resolve(0));
+const mockAddToInventory = mock((_agentId: string, _itemType: string, _quantity: number) => Promise.resolve());
+const mockGetSheltersAtPosition = mock(() => Promise.resolve([{ id: 'shelter-id' }] as { id: string }[]));
+const mockStoreMemory = mock((_memory: Record<string, unknown>) => Promise.resolve({ id: 'test-memory' }));
+const mockTransfer = mock(
+  (_from: string | null, _to: string | null, amount: number, _category: TransactionCategory, _description: string, _tick: number) =>
+    Promise.resolve({ success: true, txId: 'tx-id', entries: [], toNewBalance: amount } as TransactionResult)
+);
+
+mock.module('../../db/queries/market', () => ({
+  createMarketOrder: mockCreateMarketOrder,
+  getMarketOrderById: mockGetMarketOrderById,
+  getOpenOrdersForAgent: mockGetOpenOrdersForAgent,
+  getOpenOrders: mockGetOpenOrders,
+  getQuotesForShelters: mock(() => Promise.resolve([])),
+  recordOrderFill: mockRecordOrderFill,
+  closeMarketOrder: mockCloseMarketOrder,
+  cancelShelterOrders: mock(() => Promise.resolve([])),
+  expireMarketOrders: mockExpireMarketOrders,
+}));
+
+mock.module('../../db/queries/inventory', () => ({
+  getInventoryItem: mockGetInventoryItem,
+  removeFromInventory: mockRemoveFromInventory,
+  addToInventory: mockAddToInventory,
+}));
+
+mock.module('../../db/queries/world', () => ({
+  getSheltersAtPosition: mockGetSheltersAtPosition,
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: mockStoreMemory,
+}));
+
+// Spied rather than module-mocked, so mock.restore() gives the ledger tests the real one
+spyOn(ledger, 'transfer').mockImplementation(mockTransfer);
+
+afterAll(() => {
+  mock.restore();
+});
+
+// Import after mocking
+import { handlePlaceOrder } from '../../actions/handlers/place-order';
+import { handleCancelOrder } from '../../actions/handlers/cancel-order';
+import {
+  executionPrice,
+  findMatch,
+  processMarketTick,
+  sortBookSide,
+} from '../../simulation/market';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'trader-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createOrder(overrides: Partial<MarketOrder> = {}): MarketOrder {
+  return {
+    id: 'order-id',
+    tenantId: null,
+    shelterId: 'shelter-id',
+    itemType: 'food',
+    agentId: 'trader-id',
+    side: 'bid',
+    price: 10,
+    quantity: 1,
+    filledQuantity: 0,
+    status: 'open',
+    createdAtTick: 1,
+    expiresAtTick: 51,
+    closedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createInventoryItem(itemType: string, quantity: number): InventoryItem {
+  return { id: `${itemType}-id`, agentId: 'trader-id', itemType, quantity, properties: {}, createdAt: new Date() } as InventoryItem;
+}
+
+function intent<T extends ActionParams>(type: ActionIntent['type'], params: T): ActionIntent<T> {
+  return { agentId: 'trader-id', type, params, tick: 10, timestamp: Date.now() };
+}
+
+beforeEach(() => {
+  for (const m of [
+    mockCreateMarketOrder, mockGetMarketOrderById, mockGetOpenOrdersForAgent, mockGetOpenOrders,
+    mockRecordOrderFill, mockCloseMarketOrder, mockExpireMarketOrders, mockGetInventoryItem,
+    mockRemoveFromInventory, mockAddToInventory, mockGetSheltersAtPosition, mockStoreMemory, mockTransfer,
+  ]) {
+    m.mockClear();
+  }
+  mockGetOpenOrdersForAgent.mockImplementation(() => Promise.resolve([]));
+  mockGetOpenOrders.mockImplementation(() => Promise.resolve([]));
+  mockExpireMarketOrders.mockImplementation(() => Promise.resolve([]));
+  mockGetInventoryItem.mockImplementation(() => Promise.resolve(undefined));
+  mockGetSheltersAtPosition.mockImplementation(() => Promise.resolve([{ id: 'shelter-id' }]));
+  mockCloseMarketOrder.mockImplementation(() => Promise.resolve(createOrder()));
+  mockTransfer.mockImplementation((_from, _to, amount) =>
+    Promise.resolve({ success: true, txId: 'tx-id', entries: [], toNewBalance: amount })
+  );
+});
+
+describe('Order book matching', () => {
+  test('sorts bids highest first and asks lowest first, oldest first on ties', () => {
+    const orders = [
+      createOrder({ id: 'a', price: 5, createdAtTick: 3 }),
+      createOrder({ id: 'b', price: 8, createdAtTick: 4 }),
+      createOrder({ id: 'c', price: 5, createdAtTick: 1 }),
+    ];
+
+    expect(sortBookSide(orders, 'bid').map((o) => o.id)).toEqual(['b', 'c', 'a']);
+    expect(sortBookSide(orders, 'ask').map((o) => o.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  test('the resting order sets the price', () => {
+    const bid = createOrder({ side: 'bid', price: 12, createdAtTick: 5 });
+    const olderAsk = createOrder({ side: 'ask', price: 8, createdAtTick: 2 });
+    const newerAsk = createOrder({ side: 'ask', price: 8, createdAtTick: 7 });
+
+    expect(executionPrice(bid, olderAsk)).toBe(8);
+    expect(executionPrice(bid, newerAsk)).toBe(12);
+  });
+
+  test('same-tick crosses meet in the middle, rounded down', () => {
+    const bid = createOrder({ side: 'bid', price: 11, createdAtTick: 5 });
+    const ask = createOrder({ side: 'ask', price: 8, createdAtTick: 5 });
+
+    expect(executionPrice(bid, ask)).toBe(9);
+  });
+
+  test('matches only when the best bid reaches the best ask', () => {
+    const bid = createOrder({ side: 'bid', price: 9, quantity: 3 });
+    const ask = createOrder({ side: 'ask', price: 10, quantity: 5, filledQuantity: 3 });
+
+    expect(findMatch([bid], [ask])).toBeNull();
+
+    const match = findMatch([{ ...bid, price: 10 }], [ask]);
+    expect(match?.quantity).toBe(2);
+    expect(match?.price).toBe(10);
+  });
+});
+
+describe('handlePlaceOrder', () => {
+  test('requires standing at a shelter', async () => {
+    mockGetSheltersAtPosition.mockImplementation(() => Promise.resolve([]));
+
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'bid', itemType: 'food', quantity: 1, price: 10 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('shelter');
+    expect(mockCreateMarketOrder).not.toHaveBeenCalled();
+  });
+
+  test('rejects prices outside the allowed range', async () => {
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'ask', itemType: 'food', quantity: 1, price: 0 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Price');
+  });
+
+  test('ask moves the items into escrow', async () => {
+    mockGetInventoryItem.mockImplementation(() => Promise.resolve(createInventoryItem('food', 5)));
+
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'ask', itemType: 'food', quantity: 3, price: 7 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockRemoveFromInventory).toHaveBeenCalledWith('trader-id', 'food', 3);
+    expect(mockCreateMarketOrder.mock.calls[0][0]).toMatchObject({
+      shelterId: 'shelter-id',
+      side: 'ask',
+      price: 7,
+      quantity: 3,
+      expiresAtTick: 60,
+    });
+    expect(result.events?.[0].type).toBe('market_order_placed');
+  });
+
+  test('ask fails without the items', async () => {
+    mockGetInventoryItem.mockImplementation(() => Promise.resolve(createInventoryItem('food', 1)));
+
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'ask', itemType: 'food', quantity: 3, price: 7 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(mockRemoveFromInventory).not.toHaveBeenCalled();
+  });
+
+  test('bid must be covered by the balance together with open bids', async () => {
+    mockGetOpenOrdersForAgent.mockImplementation(() =>
+      Promise.resolve([createOrder({ side: 'bid', itemType: 'water', price: 20, quantity: 4 })])
+    );
+
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'bid', itemType: 'food', quantity: 3, price: 10 }),
+      createMockAgent({ balance: 100 })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('110');
+    expect(mockCreateMarketOrder).not.toHaveBeenCalled();
+  });
+
+  test('refuses an order that would match the agent\'s own order', async () => {
+    mockGetOpenOrdersForAgent.mockImplementation(() =>
+      Promise.resolve([createOrder({ side: 'ask', itemType: 'food', price: 8 })])
+    );
+
+    const result = await handlePlaceOrder(
+      intent<PlaceOrderParams>('place_order', { side: 'bid', itemType: 'food', quantity: 1, price: 9 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('your own ask');
+  });
+});
+
+describe('handleCancelOrder', () => {
+  test('only the owner can cancel', async () => {
+    mockGetMarketOrderById.mockImplementation(() => Promise.resolve(createOrder({ agentId: 'someone-else' })));
+
+    const result = await handleCancelOrder(
+      intent<CancelOrderParams>('cancel_order', { orderId: 'order-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(mockCloseMarketOrder).not.toHaveBeenCalled();
+  });
+
+  test('cancelling an ask returns the unfilled escrow', async () => {
+    const ask = createOrder({ side: 'ask', quantity: 5, filledQuantity: 2 });
+    mockGetMarketOrderById.mockImplementation(() => Promise.resolve(ask));
+    mockCloseMarketOrder.mockImplementation(() => Promise.resolve({ ...ask, status: 'cancelled' }));
+
+    const result = await handleCancelOrder(
+      intent<CancelOrderParams>('cancel_order', { orderId: 'order-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockAddToInventory).toHaveBeenCalledWith('trader-id', 'food', 3);
+    expect(result.events?.[0].type).toBe('market_order_cancelled');
+  });
+});
+
+describe('processMarketTick', () => {
+  test('fills crossing orders and settles through the ledger', async () => {
+    mockGetOpenOrders.mockImplementation(() =>
+      Promise.resolve([
+        createOrder({ id: 'ask-1', agentId: 'seller-id', side: 'ask', price: 8, quantity: 2, createdAtTick: 3 }),
+        createOrder({ id: 'bid-1', agentId: 'buyer-id', side: 'bid', price: 12, quantity: 5, createdAtTick: 9 }),
+      ])
+    );
+
+    const events = await processMarketTick(10);
+
+    expect(mockTransfer.mock.calls[0]).toEqual([
+      'buyer-id', 'seller-id', 16, 'market', expect.any(String), 10,
+    ]);
+    expect(mockAddToInventory).toHaveBeenCalledWith('buyer-id', 'food', 2);
+    expect(mockRecordOrderFill).toHaveBeenCalledTimes(2);
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('market_trade');
+    expect(events[0].payload).toMatchObject({ price: 8, quantity: 2, buyerId: 'buyer-id', sellerId: 'seller-id' });
+    expect(mockStoreMemory).toHaveBeenCalledTimes(2);
+  });
+
+  test('cancels a bid the buyer can no longer pay and tries the next one', async () => {
+    mockGetOpenOrders.mockImplementation(() =>
+      Promise.resolve([
+        createOrder({ id: 'ask-1', agentId: 'seller-id', side: 'ask', price: 8, createdAtTick: 3 }),
+        createOrder({ id: 'bid-broke', agentId: 'broke-id', side: 'bid', price: 15, createdAtTick: 4 }),
+        createOrder({ id: 'bid-2', agentId: 'buyer-id', side: 'bid', price: 10, createdAtTick: 5 }),
+      ])
+    );
+    mockTransfer.mockImplementation((from, _to, amount) =>
+      Promise.resolve(
+        from === 'broke-id'
+          ? { success: false, txId: '', entries: [], error: 'Insufficient balance' }
+          : { success: true, txId: 'tx-id', entries: [], toNewBalance: amount }
+      )
+    );
+
+    const events = await processMarketTick(10);
+
+    expect(mockCloseMarketOrder).toHaveBeenCalledWith('bid-broke', 'cancelled', 10);
+    expect(events.map((e) => e.type)).toEqual(['market_order_cancelled', 'market_trade']);
+    expect(events[0].payload).toMatchObject({ reason: 'insufficient_funds' });
+    expect(events[1].payload).toMatchObject({ buyerId: 'buyer-id', price: 8 });
+  });
+
+  test('expired asks return their escrow', async () => {
+    mockExpireMarketOrders.mockImplementation(() =>
+      Promise.resolve([createOrder({ agentId: 'seller-id', side: 'ask', quantity: 4, filledQuantity: 1, status: 'expired' })])
+    );
+
+    const events = await processMarketTick(60);
+
+    expect(mockAddToInventory).toHaveBeenCalledWith('seller-id', 'food', 3);
+    expect(events[0].type).toBe('market_order_expired');
+  });
+});
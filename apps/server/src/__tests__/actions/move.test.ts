@@ -8,10 +8,21 @@
  * - Path calculation for distant destinations
  */
 
-import { describe, expect, test } from 'bun:test';
-import { handleMove } from '../../actions/handlers/move';
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
 import type { ActionIntent, MoveParams } from '../../actions/types';
-import type { Agent } from '../../db/schema';
+import type { Agent, ClaimBanishment } from '../../db/schema';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+let banishments: ClaimBanishment[] = [];
+
+mock.module('../../db/queries/governance', () => ({
+  getActiveBanishments: async () => banishments,
+}));
+
+// Import after mocking
+import { handleMove } from '../../actions/handlers/move';
 
 // Helper to create mock agent
 function createMockAgent(overrides: Partial<Agent> = {}): Agent {
@@ -267,4 +278,42 @@ describe('handleMove', () => {
       expect(result.changes?.energy).toBe(99); // 100 - 1 (from global config)
     });
   });
+
+  describe('banishment', () => {
+    beforeEach(() => {
+      banishments = [];
+    });
+
+    function createBanishment(x: number, y: number, radius: number): ClaimBanishment {
+      return {
+        id: 'banishment-id',
+        tenantId: null,
+        agentId: 'test-agent-id',
+        proposalId: 'proposal-id',
+        claimId: 'claim-id',
+        x,
+        y,
+        radius,
+        startedAtTick: 0,
+        expiresAtTick: null,
+        createdAt: new Date(),
+      };
+    }
+
+    test('refuses a step into a banished area', async () => {
+      banishments = [createBanishment(55, 50, 3)];
+      const result = await handleMove(createMoveIntent(53, 50), createMockAgent({ x: 51, y: 50 }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Banished');
+    });
+
+    test('allows stepping out of a banished area', async () => {
+      banishments = [createBanishment(55, 50, 3)];
+      const result = await handleMove(createMoveIntent(50, 50), createMockAgent({ x: 53, y: 50 }));
+
+      expect(result.success).toBe(true);
+      expect(result.changes?.x).toBe(52);
+    });
+  });
 });
@@ -0,0 +1,329 @@
+/**
+ * Tests for Organisation Action Handlers (found_org, join_org, leave_org, expel_member)
+ *
+ * Covers:
+ * - Founding rules, name uniqueness and deposits into the treasury
+ * - Membership rules: proximity, membership cap, founder trust, entry fee
+ * - Founder succession and dissolution when the last member leaves
+ * - Founder-only expulsion
+ */
+
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
+import type { Agent, Organization, OrganizationMember } from '../../db/schema';
+import * as ledger from '../../ledger';
+import type {
+  ActionIntent,
+  ActionParams,
+  ActionType,
+  ExpelMemberParams,
+  FoundOrgParams,
+  JoinOrgParams,
+  LeaveOrgParams,
+} from '../../actions/types';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// Mock database calls BEFORE importing the handlers
+let org: Organization | undefined;
+let members: OrganizationMember[] = [];
+let agentMembershipCount = 0;
+let existingByName: Organization | undefined;
+let agentsById: Record<string, Agent> = {};
+let founderTrust: number | null = null;
+let transferSucceeds = true;
+const transfers: Array<{ orgId: string; agentId: string; direction: string; amount: number }> = [];
+const endedMemberships: Array<{ id: string; status: string }> = [];
+const addedMembers: string[] = [];
+let newFounder: OrganizationMember | undefined;
+let dissolved = false;
+
+mock.module('../../db/queries/organizations', () => ({
+  createOrganization: async (values: Partial<Organization>) => ({
+    ...createOrg(),
+    ...values,
+    id: 'org-id',
+  }),
+  getOrganizationById: async (id: string) => (org?.id === id ? org : undefined),
+  getActiveOrganizationByName: async () => existingByName,
+  getActiveMembers: async () => members,
+  getActiveMembershipsForAgents: async () =>
+    Array.from({ length: agentMembershipCount }, () => ({ membership: createMember('x', 'member'), org: createOrg() })),
+  addMember: async (_org: Organization, agentId: string) => {
+    addedMembers.push(agentId);
+    return createMember(agentId, 'member');
+  },
+  endMembership: async (id: string, status: string) => {
+    endedMemberships.push({ id, status });
+    return true;
+  },
+  transferFounder: async (_orgId: string, membership: OrganizationMember) => {
+    newFounder = membership;
+  },
+  dissolveOrganization: async () => {
+    dissolved = true;
+  },
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: async (id: string) => agentsById[id],
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: async () => undefined,
+  getRelationship: async () => (founderTrust === null ? null : { trustScore: founderTrust }),
+}));
+
+// Spied rather than module-mocked, so mock.restore() gives the ledger tests the real one
+spyOn(ledger, 'transferWithOrg').mockImplementation(async (orgId, agentId, direction, amount) => {
+  if (!transferSucceeds) return { success: false, txId: 'tx-id', entries: [], error: 'Insufficient balance' };
+  transfers.push({ orgId, agentId, direction, amount });
+  return direction === 'deposit'
+    ? { success: true, txId: 'tx-id', entries: [], fromNewBalance: 100 - amount, toNewBalance: amount }
+    : { success: true, txId: 'tx-id', entries: [], fromNewBalance: 0, toNewBalance: 100 + amount };
+});
+
+// Import after mocking
+import { handleFoundOrg } from '../../actions/handlers/found-org';
+import { handleJoinOrg } from '../../actions/handlers/join-org';
+import { handleLeaveOrg } from '../../actions/handlers/leave-org';
+import { handleExpelMember } from '../../actions/handlers/expel-member';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'agent-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 100,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createOrg(overrides: Partial<Organization> = {}): Organization {
+  return {
+    id: 'org-id',
+    tenantId: null,
+    name: 'River Guild',
+    founderId: 'founder-id',
+    treasury: 0,
+    entryFee: 0,
+    minTrust: null,
+    maxMembers: null,
+    status: 'active',
+    foundedAtTick: 10,
+    dissolvedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createMember(agentId: string, role: 'founder' | 'member', joinedAtTick = 10): OrganizationMember {
+  return {
+    id: `membership-${agentId}`,
+    tenantId: null,
+    orgId: 'org-id',
+    agentId,
+    role,
+    status: 'active',
+    joinedAtTick,
+    leftAtTick: null,
+    createdAt: new Date(),
+  };
+}
+
+function createIntent<T extends ActionParams>(type: ActionType, params: T): ActionIntent<T> {
+  return {
+    agentId: 'agent-id',
+    type,
+    params,
+    tick: 100,
+    timestamp: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  org = createOrg();
+  members = [createMember('founder-id', 'founder')];
+  agentMembershipCount = 0;
+  existingByName = undefined;
+  agentsById = { 'founder-id': createMockAgent({ id: 'founder-id', x: 52, y: 50 }) };
+  founderTrust = null;
+  transferSucceeds = true;
+  transfers.length = 0;
+  endedMemberships.length = 0;
+  addedMembers.length = 0;
+  newFounder = undefined;
+  dissolved = false;
+});
+
+describe('handleFoundOrg', () => {
+  test('founds an organisation and deposits into its treasury', async () => {
+    const result = await handleFoundOrg(
+      createIntent<FoundOrgParams>('found_org', { name: '  River Guild ', entryFee: 10, minTrust: 20, deposit: 30 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual({ energy: 95, balance: 70 });
+    expect(transfers).toEqual([{ orgId: 'org-id', agentId: 'agent-id', direction: 'deposit', amount: 30 }]);
+    expect(result.events?.[0].type).toBe('org_founded');
+    expect(result.events?.[0].payload).toMatchObject({ name: 'River Guild', entryFee: 10, minTrust: 20, deposit: 30 });
+  });
+
+  test('rejects a name already used by an active organisation', async () => {
+    existingByName = createOrg();
+    const result = await handleFoundOrg(createIntent<FoundOrgParams>('found_org', { name: 'river guild' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already exists');
+  });
+
+  test('rejects a deposit larger than the balance', async () => {
+    const result = await handleFoundOrg(
+      createIntent<FoundOrgParams>('found_org', { name: 'Guild', deposit: 500 }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(transfers).toHaveLength(0);
+  });
+
+  test('enforces the membership limit per agent', async () => {
+    agentMembershipCount = 3;
+    const result = await handleFoundOrg(createIntent<FoundOrgParams>('found_org', { name: 'Guild' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('max 3');
+  });
+});
+
+describe('handleJoinOrg', () => {
+  test('joins and pays the entry fee into the treasury', async () => {
+    org = createOrg({ entryFee: 15 });
+    const result = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual({ balance: 85 });
+    expect(transfers).toEqual([{ orgId: 'org-id', agentId: 'agent-id', direction: 'deposit', amount: 15 }]);
+    expect(addedMembers).toEqual(['agent-id']);
+    expect(result.events?.[0].payload).toMatchObject({ memberId: 'agent-id', memberCount: 2 });
+  });
+
+  test('requires a member within reach', async () => {
+    agentsById['founder-id'] = createMockAgent({ id: 'founder-id', x: 80, y: 80 });
+    const result = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No member');
+    expect(addedMembers).toHaveLength(0);
+  });
+
+  test("requires the founder's trust when minTrust is set", async () => {
+    org = createOrg({ minTrust: 20 });
+    founderTrust = 10;
+    const denied = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+    expect(denied.success).toBe(false);
+    expect(denied.error).toContain('does not trust you enough');
+
+    founderTrust = 25;
+    const accepted = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+    expect(accepted.success).toBe(true);
+  });
+
+  test('rejects when full or already a member', async () => {
+    org = createOrg({ maxMembers: 2 });
+    members = [createMember('founder-id', 'founder'), createMember('other-id', 'member')];
+    const full = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+    expect(full.success).toBe(false);
+    expect(full.error).toContain('full');
+
+    members = [createMember('founder-id', 'founder'), createMember('agent-id', 'member')];
+    const already = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+    expect(already.success).toBe(false);
+    expect(already.error).toContain('Already a member');
+  });
+
+  test('fails without joining when the entry fee cannot be paid', async () => {
+    org = createOrg({ entryFee: 15 });
+    transferSucceeds = false;
+    const result = await handleJoinOrg(createIntent<JoinOrgParams>('join_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(addedMembers).toHaveLength(0);
+  });
+});
+
+describe('handleLeaveOrg', () => {
+  test('passes the founder role to the longest-standing member', async () => {
+    members = [
+      createMember('agent-id', 'founder', 10),
+      createMember('veteran-id', 'member', 20),
+      createMember('newcomer-id', 'member', 50),
+    ];
+    org = createOrg({ founderId: 'agent-id' });
+    const result = await handleLeaveOrg(createIntent<LeaveOrgParams>('leave_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(endedMemberships).toEqual([{ id: 'membership-agent-id', status: 'left' }]);
+    expect(newFounder?.agentId).toBe('veteran-id');
+    expect(dissolved).toBe(false);
+    expect(result.events?.[0].payload).toMatchObject({ role: 'founder', newFounderId: 'veteran-id', memberCount: 2 });
+  });
+
+  test('dissolves the organisation and pays out the treasury to the last member', async () => {
+    members = [createMember('agent-id', 'founder')];
+    org = createOrg({ founderId: 'agent-id', treasury: 40 });
+    const result = await handleLeaveOrg(createIntent<LeaveOrgParams>('leave_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(dissolved).toBe(true);
+    expect(transfers).toEqual([{ orgId: 'org-id', agentId: 'agent-id', direction: 'payout', amount: 40 }]);
+    expect(result.changes).toEqual({ balance: 140 });
+    expect(result.events?.map((e) => e.type)).toEqual(['org_left', 'org_dissolved']);
+  });
+
+  test('rejects agents who are not members', async () => {
+    const result = await handleLeaveOrg(createIntent<LeaveOrgParams>('leave_org', { orgId: 'org-id' }), createMockAgent());
+
+    expect(result.success).toBe(false);
+    expect(endedMemberships).toHaveLength(0);
+  });
+});
+
+describe('handleExpelMember', () => {
+  test('lets the founder expel a member', async () => {
+    members = [createMember('founder-id', 'founder'), createMember('member-id', 'member')];
+    const result = await handleExpelMember(
+      createIntent<ExpelMemberParams>('expel_member', { orgId: 'org-id', memberId: 'member-id' }),
+      createMockAgent({ id: 'founder-id' })
+    );
+
+    expect(result.success).toBe(true);
+    expect(endedMemberships).toEqual([{ id: 'membership-member-id', status: 'expelled' }]);
+    expect(result.events?.[0].payload).toMatchObject({ memberId: 'member-id', memberCount: 1 });
+  });
+
+  test('only the founder can expel', async () => {
+    members = [createMember('founder-id', 'founder'), createMember('member-id', 'member'), createMember('agent-id', 'member')];
+    const result = await handleExpelMember(
+      createIntent<ExpelMemberParams>('expel_member', { orgId: 'org-id', memberId: 'member-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Only the founder');
+    expect(endedMemberships).toHaveLength(0);
+  });
+});
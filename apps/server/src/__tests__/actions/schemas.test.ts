@@ -0,0 +1,86 @@
+/**
+ * Tests for Action Params Schemas
+ *
+ * Ensures the external decide endpoint schema cannot drift from the
+ * action handler registry, and that per-action params are enforced.
+ */
+
+import { describe, expect, test, afterAll } from 'bun:test';
+import Fastify from 'fastify';
+import {
+  getRegisteredActionTypes,
+  ACTION_PARAMS_SCHEMAS,
+  buildDecisionBodySchema,
+} from '../../actions';
+
+describe('ACTION_PARAMS_SCHEMAS', () => {
+  test('every registered handler has a params schema', () => {
+    for (const type of getRegisteredActionTypes()) {
+      expect(ACTION_PARAMS_SCHEMAS[type]).toBeDefined();
+    }
+  });
+
+  test('every schema has a registered handler', () => {
+    const registered = new Set(getRegisteredActionTypes());
+    for (const type of Object.keys(ACTION_PARAMS_SCHEMAS)) {
+      expect(registered.has(type as never)).toBe(true);
+    }
+  });
+
+  test('required fields are declared as properties', () => {
+    for (const schema of Object.values(ACTION_PARAMS_SCHEMAS)) {
+      for (const field of schema.required ?? []) {
+        expect(schema.properties[field]).toBeDefined();
+      }
+    }
+  });
+});
+
+describe('buildDecisionBodySchema', () => {
+  const server = Fastify();
+  server.post('/decide', {
+    schema: { body: buildDecisionBodySchema(getRegisteredActionTypes()) },
+  }, async () => ({ ok: true }));
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const decide = (body: Record<string, unknown>) =>
+    server.inject({ method: 'POST', url: '/decide', payload: body });
+
+  test('action enum lists all registered actions', () => {
+    const schema = buildDecisionBodySchema(getRegisteredActionTypes()) as {
+      properties: { action: { enum: string[] } };
+    };
+    expect(schema.properties.action.enum).toEqual(getRegisteredActionTypes());
+    expect(schema.properties.action.enum).toContain('public_work');
+    expect(schema.properties.action.enum).toContain('submit_solution');
+  });
+
+  test('accepts valid params for actions beyond the original set', async () => {
+    const res = await decide({
+      action: 'offer_job',
+      params: { salary: 20, duration: 5, paymentType: 'on_completion' },
+    });
+    expect(res.statusCode).toBe(200);
+
+    const forage = await decide({ action: 'forage', params: {} });
+    expect(forage.statusCode).toBe(200);
+  });
+
+  test('rejects unknown actions', async () => {
+    const res = await decide({ action: 'teleport', params: {} });
+    expect(res.statusCode).toBe(400);
+  });
+
+  test('rejects params missing required fields for the chosen action', async () => {
+    const res = await decide({ action: 'harm', params: { targetAgentId: 'x' } });
+    expect(res.statusCode).toBe(400);
+  });
+
+  test('rejects params with invalid enum values', async () => {
+    const res = await decide({ action: 'offer_job', params: { salary: 20, duration: 5, paymentType: 'barter' } });
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for Send Message Action Handler (direct messages)
+ *
+ * Covers:
+ * - Content validation and self-messaging
+ * - Reachability: talking range, or a known agent further away
+ * - Threading: new conversation, replyTo, conversationId
+ * - Synthetic vocabulary applied to the delivered text
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Agent, AgentMessage, NewAgentMessage } from '../../db/schema';
+import type { ActionIntent, SendMessageParams } from '../../actions/types';
+import { CONFIG } from '../../config';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// Mock database calls BEFORE importing the handler
+let targetAgent: Agent | undefined;
+let knowsTarget = false;
+let storedMessage: AgentMessage | undefined;
+let isParticipant = false;
+const createdMessages: NewAgentMessage[] = [];
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: async () => targetAgent,
+}));
+
+mock.module('../../db/queries/knowledge', () => ({
+  getKnowledge: async () => (knowsTarget ? { id: 'knowledge-id' } : null),
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: async () => undefined,
+  updateRelationshipTrust: async () => undefined,
+}));
+
+mock.module('../../db/queries/messages', () => ({
+  createMessage: async (message: NewAgentMessage) => {
+    createdMessages.push(message);
+    return { ...message, id: 'message-id', createdAt: new Date(0) };
+  },
+  getMessageById: async (id: string) => (storedMessage?.id === id ? storedMessage : undefined),
+  isConversationParticipant: async () => isParticipant,
+}));
+
+// Import after mocking
+import { handleSendMessage } from '../../actions/handlers/send-message';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'sender-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 100,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createIntent(params: Partial<SendMessageParams> = {}): ActionIntent<SendMessageParams> {
+  return {
+    agentId: 'sender-id',
+    type: 'send_message',
+    params: { targetAgentId: 'recipient-id', content: 'Meet me at the river', ...params },
+    tick: 100,
+    timestamp: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  targetAgent = createMockAgent({ id: 'recipient-id', x: 52, y: 50 });
+  knowsTarget = false;
+  storedMessage = undefined;
+  isParticipant = false;
+  createdMessages.length = 0;
+});
+
+describe('handleSendMessage - validation', () => {
+  test('rejects empty and overlong content', async () => {
+    const empty = await handleSendMessage(createIntent({ content: '   ' }), createMockAgent());
+    expect(empty.error).toContain('empty');
+
+    const long = await handleSendMessage(
+      createIntent({ content: 'x'.repeat(CONFIG.actions.sendMessage.maxLength + 1) }),
+      createMockAgent()
+    );
+    expect(long.error).toContain('too long');
+  });
+
+  test('rejects messaging yourself, missing and dead agents', async () => {
+    expect((await handleSendMessage(createIntent({ targetAgentId: 'sender-id' }), createMockAgent())).error)
+      .toContain('yourself');
+
+    targetAgent = undefined;
+    expect((await handleSendMessage(createIntent(), createMockAgent())).error).toContain('not found');
+
+    targetAgent = createMockAgent({ id: 'recipient-id', state: 'dead' });
+    expect((await handleSendMessage(createIntent(), createMockAgent())).error).toContain('dead');
+  });
+
+  test('rejects when energy is too low', async () => {
+    const result = await handleSendMessage(createIntent(), createMockAgent({ energy: 0 }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Not enough energy');
+  });
+});
+
+describe('handleSendMessage - reachability', () => {
+  test('messages a nearby agent', async () => {
+    const result = await handleSendMessage(createIntent(), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.changes?.energy).toBe(100 - CONFIG.actions.sendMessage.energyCost);
+    expect(createdMessages[0]).toMatchObject({ channel: 'nearby', distance: 2, recipientId: 'recipient-id' });
+    expect(result.events?.[0]).toMatchObject({
+      type: 'agent_message_sent',
+      payload: { messageId: 'message-id', channel: 'nearby', wordCount: 5, replyToId: null },
+    });
+  });
+
+  test('reaches a distant agent only if the sender knows about them', async () => {
+    targetAgent = createMockAgent({ id: 'recipient-id', x: 90, y: 90 });
+
+    const unknown = await handleSendMessage(createIntent(), createMockAgent());
+    expect(unknown.error).toContain('not an agent you know');
+
+    knowsTarget = true;
+    const known = await handleSendMessage(createIntent(), createMockAgent());
+    expect(known.success).toBe(true);
+    expect(createdMessages[0].channel).toBe('known');
+  });
+});
+
+describe('handleSendMessage - threading', () => {
+  test('starts a new conversation by default', async () => {
+    await handleSendMessage(createIntent(), createMockAgent());
+    await handleSendMessage(createIntent(), createMockAgent());
+
+    expect(createdMessages[0].conversationId).not.toBe(createdMessages[1].conversationId);
+  });
+
+  test('a reply joins the conversation of the message it answers', async () => {
+    storedMessage = {
+      id: 'original-id',
+      tenantId: null,
+      conversationId: 'conversation-id',
+      replyToId: null,
+      senderId: 'recipient-id',
+      recipientId: 'sender-id',
+      content: 'Hello',
+      deliveredContent: 'Hello',
+      vocabulary: 'natural',
+      channel: 'nearby',
+      distance: 1,
+      x: 51,
+      y: 50,
+      sentAtTick: 90,
+      createdAt: new Date(0),
+    };
+
+    const result = await handleSendMessage(createIntent({ replyTo: 'original-id' }), createMockAgent());
+    expect(result.success).toBe(true);
+    expect(createdMessages[0]).toMatchObject({ conversationId: 'conversation-id', replyToId: 'original-id' });
+
+    // Only the sender and recipient of a message can answer it
+    const outsider = await handleSendMessage(createIntent({ replyTo: 'original-id' }), createMockAgent({ id: 'outsider-id' }));
+    expect(outsider.error).toContain('not found');
+  });
+
+  test('continues a conversation only for its participants', async () => {
+    const rejected = await handleSendMessage(createIntent({ conversationId: 'conversation-id' }), createMockAgent());
+    expect(rejected.error).toBe('Conversation not found');
+
+    isParticipant = true;
+    await handleSendMessage(createIntent({ conversationId: 'conversation-id' }), createMockAgent());
+    expect(createdMessages[0].conversationId).toBe('conversation-id');
+  });
+});
+
+describe('handleSendMessage - synthetic vocabulary', () => {
+  test('delivers the text with synthetic vocabulary and keeps the original', async () => {
+    const experiment = CONFIG.experiment as { useSyntheticVocabulary: boolean };
+    const original = experiment.useSyntheticVocabulary;
+    experiment.useSyntheticVocabulary = true;
+    try {
+      await handleSendMessage(createIntent({ content: 'I will trade money' }), createMockAgent());
+    } finally {
+      experiment.useSyntheticVocabulary = original;
+    }
+
+    expect(createdMessages[0].content).toBe('I will trade money');
+    expect(createdMessages[0].vocabulary).toBe('synthetic');
+    expect(createdMessages[0].deliveredContent).not.toBe('I will trade money');
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tests for Trade Proposal Handlers (two-phase trade)
+ *
+ * Covers:
+ * - Term validation shared by propose_trade and counter_trade
+ * - Proposal lifecycle guards (wrong recipient, resolved, expired)
+ * - Acceptance settles a proposal only once
+ * - Events emitted on reject/counter
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Agent, TradeProposal } from '../../db/schema';
+import type {
+  ActionIntent,
+  ProposeTradeParams,
+  AcceptTradeParams,
+  RejectTradeParams,
+  CounterTradeParams,
+} from '../../actions/types';
+import type { ItemExchange } from '../../actions/handlers/trade';
+import { CONFIG } from '../../config';
+
+// Mock database calls BEFORE importing handlers
+let storedProposal: TradeProposal | undefined;
+const mockGetTradeProposalById = mock(() => Promise.resolve(storedProposal));
+const mockUpdateTradeProposalStatus = mock(() => Promise.resolve(true));
+const mockCreateTradeProposal = mock((p: Partial<TradeProposal>) =>
+  Promise.resolve({ ...p, id: 'counter-proposal-id' } as TradeProposal)
+);
+const mockGetAgentById = mock((id: string) => Promise.resolve(createMockAgent({ id })));
+const mockGetInventoryItem = mock(() => Promise.resolve({ quantity: 10 }));
+const mockStoreMemory = mock(() => Promise.resolve());
+const mockUpdateRelationshipTrust = mock(() => Promise.resolve());
+const mockExecuteItemExchange = mock((_exchange: ItemExchange) => Promise.resolve(null as string | null));
+
+mock.module('../../db/queries/trade-proposals', () => ({
+  getTradeProposalById: mockGetTradeProposalById,
+  updateTradeProposalStatus: mockUpdateTradeProposalStatus,
+  createTradeProposal: mockCreateTradeProposal,
+  countOpenTradeProposalsBetween: mock(() => Promise.resolve(0)),
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: mockGetAgentById,
+}));
+
+mock.module('../../db/queries/inventory', () => ({
+  getInventoryItem: mockGetInventoryItem,
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: mockStoreMemory,
+  updateRelationshipTrust: mockUpdateRelationshipTrust,
+}));
+
+mock.module('../../actions/handlers/trade', () => ({
+  executeItemExchange: mockExecuteItemExchange,
+}));
+
+// Import after mocking
+import { handleProposeTrade, validateTradeTerms } from '../../actions/handlers/propose-trade';
+import { handleAcceptTrade } from '../../actions/handlers/accept-trade';
+import { handleRejectTrade } from '../../actions/handlers/reject-trade';
+import { handleCounterTrade } from '../../actions/handlers/counter-trade';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'agent-target-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 100,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createProposal(overrides: Partial<TradeProposal> = {}): TradeProposal {
+  return {
+    id: 'proposal-id',
+    tenantId: null,
+    proposerId: 'agent-proposer-id',
+    targetId: 'agent-target-id',
+    offeringItemType: 'food',
+    offeringQuantity: 2,
+    requestingItemType: 'material',
+    requestingQuantity: 3,
+    parentProposalId: null,
+    status: 'open',
+    x: 50,
+    y: 50,
+    createdAtTick: 95,
+    expiresAtTick: 105,
+    resolvedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createIntent<T extends ProposeTradeParams | AcceptTradeParams | RejectTradeParams | CounterTradeParams>(
+  type: ActionIntent['type'],
+  params: T,
+  agentId = 'agent-target-id'
+): ActionIntent<T> {
+  return { agentId, type, params, tick: 100, timestamp: Date.now() };
+}
+
+afterAll(() => {
+  mock.restore();
+});
+
+beforeEach(() => {
+  storedProposal = createProposal();
+  mockUpdateTradeProposalStatus.mockClear();
+  mockCreateTradeProposal.mockClear();
+  mockStoreMemory.mockClear();
+  mockExecuteItemExchange.mockClear();
+});
+
+describe('validateTradeTerms', () => {
+  test('accepts well-formed terms', () => {
+    expect(validateTradeTerms({
+      offeringItemType: 'food',
+      offeringQuantity: 1,
+      requestingItemType: 'water',
+      requestingQuantity: 2,
+    })).toBeNull();
+  });
+
+  test('rejects zero, negative and fractional quantities', () => {
+    for (const qty of [0, -1, 1.5]) {
+      expect(validateTradeTerms({
+        offeringItemType: 'food',
+        offeringQuantity: qty,
+        requestingItemType: 'water',
+        requestingQuantity: 1,
+      })).toContain('at least 1');
+    }
+  });
+
+  test('rejects missing item types', () => {
+    expect(validateTradeTerms({
+      offeringItemType: '',
+      offeringQuantity: 1,
+      requestingItemType: 'water',
+      requestingQuantity: 1,
+    })).not.toBeNull();
+  });
+});
+
+describe('handleProposeTrade', () => {
+  const baseParams: ProposeTradeParams = {
+    targetAgentId: 'agent-target-id',
+    offeringItemType: 'food',
+    offeringQuantity: 1,
+    requestingItemType: 'material',
+    requestingQuantity: 1,
+  };
+
+  test('prevents proposing to self', async () => {
+    const agent = createMockAgent({ id: 'agent-target-id' });
+    const result = await handleProposeTrade(createIntent('propose_trade', baseParams), agent);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Cannot trade with yourself');
+  });
+
+  test('rejects expiry beyond configured maximum', async () => {
+    const agent = createMockAgent({ id: 'agent-proposer-id' });
+    const params = { ...baseParams, expiresInTicks: CONFIG.actions.trade.maxProposalExpiryTicks + 1 };
+    const result = await handleProposeTrade(createIntent('propose_trade', params, agent.id), agent);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('expiresInTicks');
+  });
+
+  test('creates an open proposal with default expiry', async () => {
+    const agent = createMockAgent({ id: 'agent-proposer-id' });
+    const result = await handleProposeTrade(createIntent('propose_trade', baseParams, agent.id), agent);
+
+    expect(result.success).toBe(true);
+    expect(mockCreateTradeProposal).toHaveBeenCalledTimes(1);
+    expect(result.events?.[0].type).toBe('agent_trade_proposed');
+    expect(result.events?.[0].payload.expiresAtTick).toBe(100 + CONFIG.actions.trade.proposalExpiryTicks);
+  });
+});
+
+describe('handleAcceptTrade', () => {
+  test('only the target can accept', async () => {
+    const outsider = createMockAgent({ id: 'agent-outsider-id' });
+    const result = await handleAcceptTrade(
+      createIntent('accept_trade', { proposalId: 'proposal-id' }, outsider.id),
+      outsider
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not addressed to you');
+  });
+
+  test('cannot accept a resolved proposal', async () => {
+    storedProposal = createProposal({ status: 'rejected' });
+    const result = await handleAcceptTrade(
+      createIntent('accept_trade', { proposalId: 'proposal-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no longer open');
+  });
+
+  test('marks expired proposals and fails', async () => {
+    storedProposal = createProposal({ expiresAtTick: 99 });
+    const result = await handleAcceptTrade(
+      createIntent('accept_trade', { proposalId: 'proposal-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('expired');
+    expect(mockUpdateTradeProposalStatus).toHaveBeenCalledWith('proposal-id', 'expired', 100);
+  });
+
+  test('marks the proposal accepted in the exchange itself', async () => {
+    const result = await handleAcceptTrade(
+      createIntent('accept_trade', { proposalId: 'proposal-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockExecuteItemExchange).toHaveBeenCalledWith(expect.objectContaining({ proposalId: 'proposal-id', tick: 100 }));
+    expect(mockUpdateTradeProposalStatus).not.toHaveBeenCalled();
+  });
+
+  test('fails without events when another acceptance settled the proposal first', async () => {
+    mockExecuteItemExchange.mockImplementationOnce(() => Promise.resolve('Trade proposal is no longer open'));
+    const result = await handleAcceptTrade(
+      createIntent('accept_trade', { proposalId: 'proposal-id' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no longer open');
+    expect(result.events).toBeUndefined();
+    expect(mockStoreMemory).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleRejectTrade', () => {
+  test('rejects and notifies proposer', async () => {
+    const result = await handleRejectTrade(
+      createIntent('reject_trade', { proposalId: 'proposal-id', reason: 'too expensive' }),
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.events?.[0].type).toBe('agent_trade_rejected');
+    expect(mockUpdateTradeProposalStatus).toHaveBeenCalledWith('proposal-id', 'rejected', 100);
+    expect(mockStoreMemory).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('handleCounterTrade', () => {
+  test('creates a linked proposal in the opposite direction', async () => {
+    const params: CounterTradeParams = {
+      proposalId: 'proposal-id',
+      offeringItemType: 'material',
+      offeringQuantity: 2,
+      requestingItemType: 'food',
+      requestingQuantity: 2,
+    };
+    const result = await handleCounterTrade(createIntent('counter_trade', params), createMockAgent());
+
+    expect(result.success).toBe(true);
+    expect(mockUpdateTradeProposalStatus).toHaveBeenCalledWith('proposal-id', 'countered', 100);
+    const created = mockCreateTradeProposal.mock.calls[0][0];
+    expect(created.proposerId).toBe('agent-target-id');
+    expect(created.targetId).toBe('agent-proposer-id');
+    expect(created.parentProposalId).toBe('proposal-id');
+    expect(result.events?.[0].type).toBe('agent_trade_countered');
+  });
+});
@@ -1,6 +1,9 @@
 /**
  * Tests for Trade Action Handler - Phase 1
  *
+ * Trade is consent-based: these cover the propose_trade side, which every
+ * exchange starts with. Settlement is covered in trade-proposals.test.ts.
+ *
  * Integration tests covering:
  * - Valid trades between agents
  * - Validation errors (distance, quantities, inventory)
@@ -10,8 +13,8 @@
  */
 
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
-import { handleTrade, type TradeParams } from '../../actions/handlers/trade';
-import type { ActionIntent } from '../../actions/types';
+import { handleProposeTrade } from '../../actions/handlers/propose-trade';
+import type { ActionIntent, ProposeTradeParams } from '../../actions/types';
 import type { Agent } from '../../db/schema';
 import { CONFIG } from '../../config';
 
@@ -38,17 +41,17 @@ function createMockAgent(overrides: Partial<Agent> = {}): Agent {
 }
 
 // Helper to create trade intent
-function createTradeIntent(params: TradeParams, agentId = 'agent-initiator-id'): ActionIntent<TradeParams> {
+function createTradeIntent(params: ProposeTradeParams, agentId = 'agent-initiator-id'): ActionIntent<ProposeTradeParams> {
   return {
     agentId,
-    type: 'trade',
+    type: 'propose_trade',
     params,
     tick: 100,
     timestamp: Date.now(),
   };
 }
 
-describe('handleTrade - validation', () => {
+describe('handleProposeTrade - validation', () => {
   test('rejects trade with zero offering quantity', async () => {
     const agent = createMockAgent();
     const intent = createTradeIntent({
@@ -59,7 +62,7 @@ describe('handleTrade - validation', () => {
       requestingQuantity: 1,
     });
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('quantities must be at least 1');
@@ -75,7 +78,7 @@ describe('handleTrade - validation', () => {
       requestingQuantity: 0,
     });
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('quantities must be at least 1');
@@ -91,7 +94,7 @@ describe('handleTrade - validation', () => {
       requestingQuantity: 1,
     });
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('quantities must be at least 1');
@@ -107,7 +110,7 @@ describe('handleTrade - validation', () => {
       requestingQuantity: 1,
     }, 'same-agent-id');
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('Cannot trade with yourself');
@@ -124,14 +127,14 @@ describe('handleTrade - validation', () => {
       requestingQuantity: 1,
     });
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('Target agent not found');
   });
 });
 
-describe('handleTrade - config values', () => {
+describe('handleProposeTrade - config values', () => {
   test('max trade distance is configured', () => {
     expect(CONFIG.actions.trade.maxDistance).toBeDefined();
     expect(typeof CONFIG.actions.trade.maxDistance).toBe('number');
@@ -144,9 +147,9 @@ describe('handleTrade - config values', () => {
   });
 });
 
-describe('handleTrade - trade params interface', () => {
-  test('TradeParams has required fields', () => {
-    const params: TradeParams = {
+describe('handleProposeTrade - trade params interface', () => {
+  test('ProposeTradeParams has required fields', () => {
+    const params: ProposeTradeParams = {
       targetAgentId: 'target-id',
       offeringItemType: 'food',
       offeringQuantity: 2,
@@ -9,12 +9,14 @@
  * - Work fail (no active employment)
  * - Work fail (not enough energy)
  * - Work fail (employer cannot pay)
+ * - Wages paid through the ledger, net of transaction tax
  */
 
-import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
 import { v4 as uuid } from 'uuid';
 import type { Agent, Employment } from '../../db/schema';
 import type { ActionIntent, WorkParams } from '../../actions/types';
+import * as ledger from '../../ledger';
 
 // Mock IDs
 const WORKER_ID = '12345678-1234-1234-1234-1234567890ab';
@@ -44,6 +46,17 @@ mock.module('../../db/queries/memories', () => ({
   updateRelationshipTrust: mockUpdateRelationshipTrust,
 }));
 
+// Spied rather than module-mocked, so mock.restore() gives the ledger tests the real one
+const mockPayWage = spyOn(ledger, 'payWage').mockImplementation((_employerId, _workerId, amount) =>
+  Promise.resolve({
+    success: true,
+    txId: 'test-tx',
+    entries: [],
+    fromNewBalance: 1000 - amount,
+    toNewBalance: 100 + amount,
+  })
+);
+
 // Import after mocking
 import { handleWork } from '../../actions/handlers/work';
 
@@ -139,6 +152,7 @@ describe('handleWork', () => {
     mockUpdateAgentBalance.mockClear();
     mockStoreMemory.mockClear();
     mockUpdateRelationshipTrust.mockClear();
+    mockPayWage.mockClear();
 
     // Default setups
     mockGetOldestActiveEmployment.mockImplementation(() => Promise.resolve(createMockEmployment()));
@@ -215,8 +229,28 @@ describe('handleWork', () => {
 
       expect(result.success).toBe(true);
       expect(result.changes?.balance).toBe(110); // +10
-      expect(mockUpdateAgentBalance).toHaveBeenCalledWith(WORKER_ID, 110);
-      expect(mockUpdateAgentBalance).toHaveBeenCalledWith(EMPLOYER_ID, 990); // 1000 - 10
+      expect(mockPayWage).toHaveBeenCalledWith(EMPLOYER_ID, WORKER_ID, 10, 10, expect.any(String));
+      expect(mockUpdateAgentBalance).not.toHaveBeenCalled();
+    });
+
+    test('the worker receives the wage net of transaction tax', async () => {
+      mockPayWage.mockImplementationOnce((_employerId, _workerId, amount) =>
+        Promise.resolve({
+          success: true,
+          txId: 'test-tx',
+          entries: [],
+          fromNewBalance: 1000 - amount,
+          toNewBalance: 100 + amount - 1,
+          taxPaid: 1,
+        })
+      );
+      const agent = createMockAgent({ balance: 100 });
+
+      const result = await handleWork(createWorkIntent(), agent);
+
+      expect(result.changes?.balance).toBe(109);
+      expect(result.events?.find((e) => e.type === 'agent_worked')?.payload).toMatchObject({ paymentThisTick: 10, tax: 1 });
+      expect(result.events?.find((e) => e.type === 'balance_changed')?.payload).toMatchObject({ newBalance: 109, change: 9 });
     });
 
     test('terminates if employer cannot pay', async () => {
@@ -272,10 +306,10 @@ describe('handleWork', () => {
       const intent = createWorkIntent();
 
       // Pay last 10 this tick, then return 50 escrow
-      await handleWork(intent, agent);
+      const result = await handleWork(intent, agent);
 
       // Worker gets last payment (10) -> Balance 110
-      expect(mockUpdateAgentBalance).toHaveBeenCalledWith(WORKER_ID, 110);
+      expect(result.changes?.balance).toBe(110);
 
       // Employer pays 10, gets 50 back -> 1000 - 10 + 50 = 1040
       expect(mockUpdateAgentBalance).toHaveBeenCalledWith(EMPLOYER_ID, 1040);
@@ -1,5 +1,6 @@
 import { describe, expect, test, mock, beforeEach, beforeAll } from 'bun:test';
-import type { Agent, ResourceSpawn, Shelter } from '../../db/schema';
+import { getEventPayloadVersion, upcastEventPayload } from '@simagents/shared';
+import type { Agent, Event, ResourceSpawn, Shelter } from '../../db/schema';
 
 // Mock Redis BEFORE importing anything that uses it
 const mockRedisKeys = mock(() => Promise.resolve([] as string[]));
@@ -33,6 +34,14 @@ const mockGetRecentSignals = mock(() => Promise.resolve([] as unknown[]));
 mock.module('../../db/queries/events', () => ({
   getRecentEvents: mockGetRecentEvents,
   getRecentSignals: mockGetRecentSignals,
+  // Module mocks leak into later test files, so keep the real upcasting behaviour
+  upcastEvent: (event: Event) => event.schemaVersion >= getEventPayloadVersion(event.eventType)
+    ? event
+    : {
+      ...event,
+      payload: upcastEventPayload(event.eventType, event.payload as Record<string, unknown>, event.schemaVersion),
+      schemaVersion: getEventPayloadVersion(event.eventType),
+    },
 }));
 
 mock.module('../../db/queries/inventory', () => ({
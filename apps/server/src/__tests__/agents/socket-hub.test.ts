@@ -0,0 +1,219 @@
+/**
+ * Tests for the Agent Socket Hub (WebSocket transport for external agents)
+ *
+ * Tests cover:
+ * - Observation push and in-band decisions
+ * - Deadline handling and stale/invalid decisions and params
+ * - Reconnects (replacement, pending observation re-sent)
+ * - Heartbeat sweep
+ */
+
+import { describe, expect, test, beforeEach } from 'bun:test';
+import { AgentSocketHub, SOCKET_CLOSE_CODES, type AgentSocket } from '../../agents/socket-hub';
+import type { AgentObservation } from '../../llm/types';
+import { CONFIG } from '../../config';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+class FakeSocket implements AgentSocket {
+  readyState = 1;
+  sent: Array<Record<string, unknown>> = [];
+  closedWith: number | undefined;
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code?: number): void {
+    this.readyState = 3;
+    this.closedWith = code;
+  }
+
+  lastMessage(): Record<string, unknown> | undefined {
+    return this.sent[this.sent.length - 1];
+  }
+}
+
+const AGENT_ID = 'agent-1';
+const EXTERNAL_ID = 'external-1';
+
+function createObservation(tick: number): AgentObservation {
+  return {
+    tick,
+    timestamp: Date.now(),
+    self: { id: AGENT_ID, x: 5, y: 5, hunger: 80, energy: 80, health: 100, balance: 100, state: 'idle' },
+    nearbyAgents: [],
+    nearbyLocations: [],
+    availableActions: [],
+    recentEvents: [],
+    inventory: [],
+  };
+}
+
+let hub: AgentSocketHub;
+
+beforeEach(() => {
+  hub?.closeAll();
+  hub = new AgentSocketHub();
+});
+
+// =============================================================================
+// Decisions
+// =============================================================================
+
+describe('requestDecision', () => {
+  test('pushes the observation and resolves with the submitted decision', async () => {
+    const socket = new FakeSocket();
+    hub.attach(AGENT_ID, EXTERNAL_ID, socket);
+
+    const pending = hub.requestDecision(AGENT_ID, createObservation(7), 7, 1000);
+    expect(socket.lastMessage()).toMatchObject({ type: 'observation', tick: 7 });
+    expect(hub.getPendingTick(AGENT_ID)).toBe(7);
+
+    const result = hub.submitDecision(AGENT_ID, { type: 'decision', tick: 7, action: 'move', params: { toX: 6, toY: 5 } });
+    expect(result).toEqual({ accepted: true, tick: 7 });
+
+    const decision = await pending;
+    expect(decision).toEqual({ action: 'move', params: { toX: 6, toY: 5 }, reasoning: undefined });
+    expect(hub.getPendingTick(AGENT_ID)).toBeNull();
+  });
+
+  test('resolves null and notifies the agent when the deadline passes', async () => {
+    const socket = new FakeSocket();
+    hub.attach(AGENT_ID, EXTERNAL_ID, socket);
+
+    const decision = await hub.requestDecision(AGENT_ID, createObservation(3), 3, 10);
+
+    expect(decision).toBeNull();
+    expect(socket.lastMessage()).toMatchObject({ type: 'error', code: 'deadline_missed', tick: 3 });
+  });
+
+  test('rejects decisions for another tick', async () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    const pending = hub.requestDecision(AGENT_ID, createObservation(4), 4, 1000);
+
+    const result = hub.submitDecision(AGENT_ID, { action: 'sleep', params: { duration: 1 }, tick: 3 });
+    expect(result).toMatchObject({ accepted: false, code: 'stale_tick' });
+
+    hub.submitDecision(AGENT_ID, { action: 'sleep', params: { duration: 1 }, tick: 4 });
+    expect(await pending).toMatchObject({ action: 'sleep' });
+  });
+
+  test('rejects unregistered actions and malformed params', () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    hub.requestDecision(AGENT_ID, createObservation(1), 1, 1000);
+
+    expect(hub.submitDecision(AGENT_ID, { action: 'fly' })).toMatchObject({ accepted: false, code: 'invalid_decision' });
+    expect(hub.submitDecision(AGENT_ID, { action: 'move', params: [1, 2] })).toMatchObject({
+      accepted: false,
+      code: 'invalid_decision',
+    });
+    expect(hub.getPendingTick(AGENT_ID)).toBe(1);
+  });
+
+  test('rejects params that do not match the action schema, and waits for a valid decision', async () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    const pending = hub.requestDecision(AGENT_ID, createObservation(1), 1, 1000);
+
+    expect(hub.submitDecision(AGENT_ID, { action: 'sleep', params: { duration: 'long' } })).toMatchObject({
+      accepted: false,
+      code: 'invalid_params',
+      message: expect.stringContaining('params'),
+    });
+    expect(hub.getPendingTick(AGENT_ID)).toBe(1);
+
+    hub.submitDecision(AGENT_ID, { action: 'sleep', params: { duration: 2 } });
+    expect(await pending).toMatchObject({ action: 'sleep', params: { duration: 2 } });
+  });
+
+  test('rejects decisions when no observation is pending', () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    expect(hub.submitDecision(AGENT_ID, { action: 'sleep' })).toMatchObject({
+      accepted: false,
+      code: 'no_pending_observation',
+    });
+  });
+
+  test('a new tick supersedes an unanswered request', async () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    const first = hub.requestDecision(AGENT_ID, createObservation(1), 1, 1000);
+    const second = hub.requestDecision(AGENT_ID, createObservation(2), 2, 1000);
+
+    expect(await first).toBeNull();
+    hub.submitDecision(AGENT_ID, { action: 'sleep', params: { duration: 1 } });
+    expect(await second).toMatchObject({ action: 'sleep' });
+  });
+});
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+describe('connections', () => {
+  test('a new connection replaces the old one', () => {
+    const oldSocket = new FakeSocket();
+    const newSocket = new FakeSocket();
+    hub.attach(AGENT_ID, EXTERNAL_ID, oldSocket);
+    hub.attach(AGENT_ID, EXTERNAL_ID, newSocket);
+
+    expect(oldSocket.closedWith).toBe(SOCKET_CLOSE_CODES.replaced);
+    expect(hub.isConnected(AGENT_ID)).toBe(true);
+
+    // The late close event of the old socket must not drop the new connection
+    hub.detach(AGENT_ID, oldSocket);
+    expect(hub.isConnected(AGENT_ID)).toBe(true);
+  });
+
+  test('reconnecting mid-tick re-sends the pending observation', async () => {
+    hub.attach(AGENT_ID, EXTERNAL_ID, new FakeSocket());
+    const pending = hub.requestDecision(AGENT_ID, createObservation(9), 9, 1000);
+
+    const reconnected = new FakeSocket();
+    hub.attach(AGENT_ID, EXTERNAL_ID, reconnected);
+    expect(reconnected.lastMessage()).toMatchObject({ type: 'observation', tick: 9 });
+
+    hub.submitDecision(AGENT_ID, { action: 'gather', tick: 9 });
+    expect(await pending).toMatchObject({ action: 'gather' });
+  });
+
+  test('detached agents are not connected', () => {
+    const socket = new FakeSocket();
+    hub.attach(AGENT_ID, EXTERNAL_ID, socket);
+    hub.detach(AGENT_ID, socket);
+
+    expect(hub.isConnected(AGENT_ID)).toBe(false);
+    expect(hub.send(AGENT_ID, { type: 'ping', timestamp: 0 })).toBe(false);
+  });
+});
+
+// =============================================================================
+// Heartbeat
+// =============================================================================
+
+describe('sweepHeartbeats', () => {
+  test('pings live connections and closes silent ones', () => {
+    const live = new FakeSocket();
+    const silent = new FakeSocket();
+    hub.attach('live', EXTERNAL_ID, live);
+    hub.attach('silent', EXTERNAL_ID, silent);
+
+    const later = Date.now() + CONFIG.externalAgents.socket.heartbeatTimeoutMs + 1;
+    // Simulate the live agent having answered recently
+    const realNow = Date.now;
+    Date.now = () => later;
+    try {
+      hub.touch('live');
+    } finally {
+      Date.now = realNow;
+    }
+
+    hub.sweepHeartbeats(later);
+
+    expect(live.lastMessage()).toMatchObject({ type: 'ping', timestamp: later });
+    expect(silent.closedWith).toBe(SOCKET_CLOSE_CODES.heartbeatTimeout);
+    expect(hub.isConnected('silent')).toBe(false);
+    expect(hub.getConnectionCount()).toBe(1);
+  });
+});
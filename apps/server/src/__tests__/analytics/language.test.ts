@@ -0,0 +1,141 @@
+/**
+ * Tests for Emergent Language Analysis
+ *
+ * Tests covering:
+ * - Tokenization
+ * - Vocabulary growth and Heaps' law exponent
+ * - Term-to-referent mappings
+ * - Naming convergence over location_names
+ * - Dialect divergence and clustering
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  analyzeDialects,
+  analyzeLanguage,
+  analyzeNamingConvergence,
+  analyzeTermReferents,
+  analyzeVocabularyGrowth,
+  jensenShannonDivergence,
+  tokenize,
+  type Speaker,
+  type Utterance,
+} from '../../analysis/language';
+
+function say(speakerId: string, text: string, tick: number, at?: { x: number; y: number }): Utterance {
+  return { speakerId, text, tick, source: at ? 'message' : 'gossip', ...at };
+}
+
+describe('tokenize', () => {
+  test('lowercases, splits on punctuation and drops bare numbers', () => {
+    expect(tokenize('Zorp at 12, ZORP-field!')).toEqual(['zorp', 'at', 'zorp', 'field']);
+    expect(tokenize('über café')).toEqual(['über', 'café']);
+  });
+});
+
+describe('analyzeVocabularyGrowth', () => {
+  test('counts new terms per bucket and the cumulative vocabulary', () => {
+    const growth = analyzeVocabularyGrowth([
+      say('a', 'food here', 10),
+      say('b', 'food there', 20),
+      say('a', 'zorp food', 60),
+    ], 50);
+
+    expect(growth.totalTokens).toBe(6);
+    expect(growth.vocabularySize).toBe(4);
+    expect(growth.series).toEqual([
+      { tickStart: 0, utterances: 2, tokens: 4, vocabularySize: 3, newTerms: 3 },
+      { tickStart: 50, utterances: 1, tokens: 2, vocabularySize: 4, newTerms: 1 },
+    ]);
+    expect(growth.bySource.gossip).toEqual({ utterances: 3, tokens: 6 });
+  });
+
+  test('a repetitive corpus has a lower Heaps exponent than an ever-new one', () => {
+    const repetitive = Array.from({ length: 20 }, (_, i) => say('a', 'zorp blik', i));
+    const novel = Array.from({ length: 20 }, (_, i) => say('a', `word${i}a word${i}b`, i));
+
+    expect(analyzeVocabularyGrowth(repetitive).heapsExponent).toBeLessThan(0.1);
+    expect(analyzeVocabularyGrowth(novel).heapsExponent).toBeCloseTo(1, 5);
+  });
+});
+
+describe('analyzeTermReferents', () => {
+  test('maps a term to the referent it is used near', () => {
+    const referents = [
+      { label: 'resource:food', x: 0, y: 0 },
+      { label: 'shelter', x: 20, y: 20 },
+    ];
+    const utterances = [
+      ...Array.from({ length: 3 }, (_, i) => say('a', 'zorp', i, { x: 1, y: 0 })),
+      ...Array.from({ length: 3 }, (_, i) => say('b', 'blik', i, { x: 20, y: 21 })),
+      say('c', 'the', 1, { x: 1, y: 0 }),
+    ];
+
+    const mappings = analyzeTermReferents(utterances, referents, { radius: 2, minCount: 3 });
+
+    expect(mappings.map((m) => [m.term, m.referent, m.confidence])).toEqual([
+      ['blik', 'shelter', 1],
+      ['zorp', 'resource:food', 1],
+    ]);
+    expect(mappings[0].lift).toBe(2);
+  });
+});
+
+describe('analyzeNamingConvergence', () => {
+  test('measures agreement per location and reused names', () => {
+    const naming = analyzeNamingConvergence([
+      { x: 0, y: 0, name: 'Riverbend', usageCount: 3 },
+      { x: 0, y: 0, name: 'Wetland', usageCount: 1 },
+      { x: 5, y: 5, name: 'Hill', usageCount: 4 },
+      { x: 9, y: 9, name: 'riverbend', usageCount: 1 },
+    ]);
+
+    expect(naming.namedLocations).toBe(3);
+    expect(naming.settledLocations).toBe(2);
+    expect(naming.convergence).toBeCloseTo((0.75 * 4 + 1 * 4 + 1 * 1) / 9, 5);
+    expect(naming.reusedNames).toEqual([{ name: 'riverbend', locations: 2 }]);
+    expect(naming.mostContested[0]).toMatchObject({ dominantName: 'Riverbend', competingNames: 2, consensus: 0.75 });
+  });
+});
+
+describe('dialects', () => {
+  test('Jensen-Shannon divergence is 0 for equal and 1 for disjoint usage', () => {
+    const a = new Map([['zorp', 2], ['blik', 2]]);
+    expect(jensenShannonDivergence(a, new Map([['zorp', 1], ['blik', 1]]))).toBeCloseTo(0, 10);
+    expect(jensenShannonDivergence(a, new Map([['glim', 3]]))).toBeCloseTo(1, 10);
+  });
+
+  test('clusters groups that talk alike and finds distinctive terms', () => {
+    const speakers: Speaker[] = [
+      { id: 'c1', llmType: 'claude', lineageRootId: 'c1' },
+      { id: 'g1', llmType: 'gemini', lineageRootId: 'g1' },
+      { id: 'q1', llmType: 'qwen', lineageRootId: 'c1' },
+    ];
+    const utterances = [
+      say('c1', 'zorp zorp blik', 1),
+      say('g1', 'glim glim vor', 1),
+      say('q1', 'zorp zorp blik', 1),
+    ];
+
+    const byType = analyzeDialects(utterances, speakers, { threshold: 0.5 });
+    expect(byType.groups.map((g) => g.key)).toEqual(['claude', 'gemini', 'qwen']);
+    expect(byType.clusters).toEqual([['claude', 'qwen'], ['gemini']]);
+    expect(byType.groups[1].distinctiveTerms).toEqual(['glim']);
+
+    const byLineage = analyzeDialects(utterances, speakers, { groupBy: 'lineage' });
+    expect(byLineage.groups.map((g) => [g.key, g.speakers])).toEqual([['c1', 2], ['g1', 1]]);
+    expect(byLineage.meanDivergence).toBeCloseTo(1, 10);
+  });
+});
+
+describe('analyzeLanguage', () => {
+  test('handles an empty corpus', () => {
+    const report = analyzeLanguage({ utterances: [], speakers: [], referents: [], locationNames: [] });
+
+    expect(report.utterances).toBe(0);
+    expect(report.vocabulary.typeTokenRatio).toBe(0);
+    expect(report.termReferents).toEqual([]);
+    expect(report.naming.convergence).toBe(0);
+    expect(report.dialects).toMatchObject({ groups: [], clusters: [], meanDivergence: 0 });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit Tests for Agent Signing (verifiable credentials)
+ *
+ * Tests cover:
+ * - Ed25519 sign/verify round-trip and tampering detection
+ * - Canonical payloads (field changes break the signature)
+ * - AgentKeyService: encrypted key storage, signing as an agent
+ * - Credential verification (valid, forged, legacy, revoked, expired)
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { AgentCredential, AgentSigningKey, NewAgentSigningKey } from '../../db/schema';
+
+// In-memory key storage instead of the database
+const storedKeys = new Map<string, AgentSigningKey>();
+
+mock.module('../../db/queries/agent-keys', () => ({
+  createAgentSigningKey: mock((key: NewAgentSigningKey) => {
+    if (!storedKeys.has(key.agentId)) {
+      storedKeys.set(key.agentId, { tenantId: null, algorithm: 'ed25519', createdAt: new Date(), ...key } as AgentSigningKey);
+    }
+    return Promise.resolve(storedKeys.get(key.agentId));
+  }),
+  getAgentSigningKey: mock((agentId: string) => Promise.resolve(storedKeys.get(agentId))),
+}));
+
+mock.module('../../db/queries/credentials', () => ({
+  getCredentialById: mock(() => Promise.resolve(undefined)),
+  getRevokedCredentialsByIssuer: mock(() => Promise.resolve([])),
+}));
+
+afterAll(() => mock.restore());
+
+// Import after mocking
+import {
+  generateSigningKeyPair,
+  signPayload,
+  verifyPayload,
+  credentialSigningPayload,
+  revocationSigningPayload,
+  revocationListSigningPayload,
+} from '../../crypto/signing';
+import { AgentKeyService, isAgentSigningAvailable } from '../../services/agent-key-service';
+import { verifyCredentialRecord } from '../../services/credential-service';
+
+const TEST_MASTER_KEY = 'b'.repeat(64);
+const ISSUER_ID = '11111111-1111-4111-8111-111111111111';
+const SUBJECT_ID = '22222222-2222-4222-8222-222222222222';
+
+function createCredential(overrides: Partial<AgentCredential> = {}): AgentCredential {
+  return {
+    id: '33333333-3333-4333-8333-333333333333',
+    tenantId: null,
+    tick: 10,
+    issuerId: ISSUER_ID,
+    issuerSignature: '',
+    signatureAlgorithm: 'ed25519',
+    subjectId: SUBJECT_ID,
+    claimType: 'skill',
+    claimDescription: 'Skilled forager',
+    claimEvidence: null,
+    claimLevel: 7,
+    expiresAtTick: null,
+    revoked: false,
+    revokedAtTick: null,
+    revocationSignature: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  storedKeys.clear();
+});
+
+describe('Ed25519 signing', () => {
+  test('round-trips a signature', () => {
+    const { publicKey, privateKey } = generateSigningKeyPair();
+    const signature = signPayload(privateKey, 'hello');
+
+    expect(signature).toMatch(/^[0-9a-f]{128}$/);
+    expect(verifyPayload(publicKey, 'hello', signature)).toBe(true);
+  });
+
+  test('rejects tampered payloads and foreign keys', () => {
+    const alice = generateSigningKeyPair();
+    const mallory = generateSigningKeyPair();
+    const signature = signPayload(alice.privateKey, 'hello');
+
+    expect(verifyPayload(alice.publicKey, 'hello!', signature)).toBe(false);
+    expect(verifyPayload(mallory.publicKey, 'hello', signature)).toBe(false);
+  });
+
+  test('returns false for malformed keys or signatures', () => {
+    const { publicKey } = generateSigningKeyPair();
+    expect(verifyPayload(publicKey, 'hello', 'not-hex')).toBe(false);
+    expect(verifyPayload('garbage', 'hello', 'ab'.repeat(64))).toBe(false);
+  });
+
+  test('credential payload covers every claim field', () => {
+    const base = createCredential();
+    const payload = credentialSigningPayload(base);
+
+    expect(credentialSigningPayload({ ...base, claimLevel: 10 })).not.toBe(payload);
+    expect(credentialSigningPayload({ ...base, subjectId: ISSUER_ID })).not.toBe(payload);
+    expect(credentialSigningPayload({ ...base, claimEvidence: 'forged' })).not.toBe(payload);
+  });
+
+  test('revocation list payload does not depend on entry order', () => {
+    const a = { credentialId: 'a', revokedAtTick: 5 };
+    const b = { credentialId: 'b', revokedAtTick: 3 };
+    expect(revocationListSigningPayload(ISSUER_ID, 9, [a, b])).toBe(
+      revocationListSigningPayload(ISSUER_ID, 9, [b, a])
+    );
+  });
+});
+
+describe('AgentKeyService', () => {
+  test('requires a master key', () => {
+    const previous = process.env.ENCRYPTION_MASTER_KEY;
+    delete process.env.ENCRYPTION_MASTER_KEY;
+    try {
+      expect(() => new AgentKeyService()).toThrow('ENCRYPTION_MASTER_KEY');
+    } finally {
+      if (previous !== undefined) process.env.ENCRYPTION_MASTER_KEY = previous;
+    }
+  });
+
+  test('reports signing as unavailable without a master key', () => {
+    const previous = process.env.ENCRYPTION_MASTER_KEY;
+    delete process.env.ENCRYPTION_MASTER_KEY;
+    try {
+      expect(isAgentSigningAvailable()).toBe(false);
+    } finally {
+      if (previous !== undefined) process.env.ENCRYPTION_MASTER_KEY = previous;
+    }
+  });
+
+  test('stores the private key encrypted and keeps an existing key', async () => {
+    const service = new AgentKeyService(TEST_MASTER_KEY);
+    const first = await service.provisionKey(ISSUER_ID);
+    const second = await service.provisionKey(ISSUER_ID);
+
+    expect(second.publicKey).toBe(first.publicKey);
+    expect(JSON.stringify(first.encryptedPrivateKey)).not.toContain('PRIVATE');
+    expect(first.encryptedPrivateKey.ciphertext).toBeDefined();
+  });
+
+  test('signs as an agent and verifies with its public key', async () => {
+    const service = new AgentKeyService(TEST_MASTER_KEY);
+    const signature = await service.sign(ISSUER_ID, 'payload');
+
+    expect(await service.verify(ISSUER_ID, 'payload', signature)).toBe(true);
+    expect(await service.verify(SUBJECT_ID, 'payload', signature)).toBe(false);
+  });
+});
+
+describe('verifyCredentialRecord', () => {
+  const keys = generateSigningKeyPair();
+  const signed = (overrides: Partial<AgentCredential> = {}) => {
+    const credential = createCredential(overrides);
+    return { ...credential, issuerSignature: signPayload(keys.privateKey, credentialSigningPayload(credential)) };
+  };
+
+  test('accepts a correctly signed credential', () => {
+    const result = verifyCredentialRecord(signed(), keys.publicKey, 20);
+    expect(result.valid).toBe(true);
+    expect(result.status).toBe('valid');
+  });
+
+  test('rejects a credential with altered claims', () => {
+    const forged = { ...signed(), claimLevel: 10 };
+    const result = verifyCredentialRecord(forged, keys.publicKey, 20);
+    expect(result.valid).toBe(false);
+    expect(result.status).toBe('invalid_signature');
+  });
+
+  test('reports legacy HMAC credentials as unverifiable', () => {
+    const legacy = createCredential({ signatureAlgorithm: 'hmac-sha256', issuerSignature: 'ab'.repeat(32) });
+    const result = verifyCredentialRecord(legacy, keys.publicKey, 20);
+    expect(result.valid).toBe(false);
+    expect(result.status).toBe('unverifiable');
+  });
+
+  test('checks the revocation signature', () => {
+    const credential = signed();
+    const revocationSignature = signPayload(keys.privateKey, revocationSigningPayload(credential.id, ISSUER_ID, 15));
+
+    const genuine = verifyCredentialRecord(
+      { ...credential, revoked: true, revokedAtTick: 15, revocationSignature },
+      keys.publicKey,
+      20
+    );
+    expect(genuine.status).toBe('revoked');
+    expect(genuine.revocationSignatureValid).toBe(true);
+
+    const backdated = verifyCredentialRecord(
+      { ...credential, revoked: true, revokedAtTick: 12, revocationSignature },
+      keys.publicKey,
+      20
+    );
+    expect(backdated.revocationSignatureValid).toBe(false);
+  });
+
+  test('marks expired credentials', () => {
+    const result = verifyCredentialRecord(signed({ expiresAtTick: 20 }), keys.publicKey, 20);
+    expect(result.status).toBe('expired');
+    expect(result.signatureValid).toBe(true);
+  });
+});
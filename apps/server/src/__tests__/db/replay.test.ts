@@ -0,0 +1,71 @@
+/**
+ * Tests for Replay Range Windows
+ *
+ * Tests cover:
+ * - Folding agent_tick_states rows into per-tick agent states
+ * - Carrying forward agents without a row (dead agents keep their final state)
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { foldAgentTickStates } from '../../db/queries/replay';
+import type { AgentTickState } from '../../db/schema';
+
+let nextId = 1;
+
+function createRow(agentId: string, tick: number, overrides: Partial<AgentTickState> = {}): AgentTickState {
+  return {
+    id: nextId++,
+    tenantId: null,
+    tick,
+    agentId,
+    llmType: 'claude',
+    x: 0,
+    y: 0,
+    hunger: 100,
+    energy: 100,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    ...overrides,
+  };
+}
+
+describe('foldAgentTickStates', () => {
+  test('returns one entry per tick of the window', () => {
+    const ticks = foldAgentTickStates([createRow('a', 10)], [], 10, 13);
+
+    expect(ticks.map((t) => t.tick)).toEqual([10, 11, 12, 13]);
+    expect(ticks.every((t) => t.agents.length === 1)).toBe(true);
+  });
+
+  test('applies rows at their tick and stamps agents with the requested tick', () => {
+    const ticks = foldAgentTickStates(
+      [createRow('a', 10, { x: 1 })],
+      [createRow('a', 11, { x: 2 }), createRow('a', 12, { x: 3 })],
+      10,
+      12
+    );
+
+    expect(ticks.map((t) => t.agents[0].x)).toEqual([1, 2, 3]);
+    expect(ticks[2].agents[0]).toMatchObject({ id: 'a', tick: 12 });
+  });
+
+  test('agents born in the window appear from their first row', () => {
+    const ticks = foldAgentTickStates([createRow('a', 10)], [createRow('a', 11), createRow('b', 11)], 10, 11);
+
+    expect(ticks[0].agents.map((a) => a.id)).toEqual(['a']);
+    expect(ticks[1].agents.map((a) => a.id).sort()).toEqual(['a', 'b']);
+  });
+
+  test('dead agents keep their final row', () => {
+    const ticks = foldAgentTickStates(
+      [createRow('a', 10), createRow('b', 10)],
+      [createRow('a', 11, { state: 'dead', health: 0 }), createRow('b', 11), createRow('b', 12)],
+      10,
+      12
+    );
+
+    const deadAgent = ticks[2].agents.find((a) => a.id === 'a');
+    expect(deadAgent).toMatchObject({ state: 'dead', health: 0, tick: 12 });
+  });
+});
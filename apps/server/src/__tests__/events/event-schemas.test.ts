@@ -0,0 +1,115 @@
+/**
+ * Tests for Event Payload Schemas
+ *
+ * Tests cover:
+ * - Validation: current payloads pass, renamed fields fail, extra fields allowed
+ * - Upcasting: needs_updated v1 (flat) read back at v2, current rows untouched
+ * - Schema catalog: registry types, categories and JSON Schemas
+ * - Consumers: observer descriptions read the typed fields
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  EVENT_PAYLOAD_SCHEMAS,
+  getEventPayloadVersion,
+  upcastEventPayload,
+  validateEventPayload,
+} from '@simagents/shared';
+import { upcastEvent } from '../../db/queries/events';
+import type { Event } from '../../db/schema';
+import { EVENT_REGISTRY, buildEventSchemaCatalog } from '../../events/event-types';
+import { formatEvent } from '../../agents/observer';
+
+const workedPayload = {
+  employmentId: 'emp-1',
+  employerId: 'agent-2',
+  ticksWorked: 2,
+  ticksRequired: 5,
+  paymentThisTick: 4,
+  paymentType: 'per_tick',
+  isComplete: false,
+};
+
+function createStoredEvent(overrides: Partial<Event>): Event {
+  return {
+    id: 1,
+    tenantId: null,
+    tick: 10,
+    agentId: 'agent-1',
+    eventType: 'needs_updated',
+    payload: {},
+    category: 'infrastructure',
+    version: 1,
+    schemaVersion: 1,
+    createdAt: new Date(0),
+    ...overrides,
+  };
+}
+
+describe('validateEventPayload', () => {
+  test('accepts a current payload, including extra fields', () => {
+    expect(validateEventPayload('agent_worked', { ...workedPayload, bonus: 1 })).toEqual({ valid: true });
+  });
+
+  test('rejects a renamed field', () => {
+    const { paymentThisTick, ...rest } = workedPayload;
+    const result = validateEventPayload('agent_worked', { ...rest, salary: paymentThisTick });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues[0]).toContain('paymentThisTick');
+  });
+
+  test('untyped event types always pass', () => {
+    expect(validateEventPayload('some_future_event', { anything: true })).toEqual({ valid: true });
+    expect(getEventPayloadVersion('some_future_event')).toBe(1);
+  });
+});
+
+describe('upcasting', () => {
+  test('needs_updated v1 flat payloads are read at the current version', () => {
+    const payload = upcastEventPayload('needs_updated', { hunger: 40, energy: 50, health: 90 }, 1);
+
+    expect(getEventPayloadVersion('needs_updated')).toBe(2);
+    expect(validateEventPayload('needs_updated', payload)).toEqual({ valid: true });
+    expect(payload.newState).toEqual({ hunger: 40, energy: 50, health: 90 });
+  });
+
+  test('stored events are upcast and stamped with the current version', () => {
+    const event = upcastEvent(createStoredEvent({ payload: { hunger: 40, energy: 50, health: 90 } }));
+
+    expect(event.schemaVersion).toBe(2);
+    expect((event.payload as { newState: { hunger: number } }).newState.hunger).toBe(40);
+  });
+
+  test('rows already in the current shape are left alone', () => {
+    const nested = { previousState: { hunger: 1, energy: 1, health: 1 }, newState: { hunger: 2, energy: 2, health: 2 }, effects: [] };
+
+    expect(upcastEvent(createStoredEvent({ payload: nested })).payload).toEqual(nested);
+    const current = createStoredEvent({ schemaVersion: 2, payload: nested });
+    expect(upcastEvent(current)).toBe(current);
+  });
+});
+
+describe('buildEventSchemaCatalog', () => {
+  test('lists registry and typed event types with their schemas', () => {
+    const catalog = buildEventSchemaCatalog();
+    const types = catalog.map((entry) => entry.eventType);
+
+    for (const eventType of [...Object.keys(EVENT_REGISTRY), ...Object.keys(EVENT_PAYLOAD_SCHEMAS)]) {
+      expect(types).toContain(eventType);
+    }
+
+    const moved = catalog.find((entry) => entry.eventType === 'agent_moved')!;
+    expect(moved).toMatchObject({ category: 'emergent', version: 1 });
+    expect((moved.payload as { required: string[] }).required).toContain('to');
+    expect(catalog.find((entry) => entry.eventType === 'agent_signaled')!.payload).toBeNull();
+  });
+});
+
+describe('typed consumers', () => {
+  test('observer describes agent_worked from its schema fields', () => {
+    const { description } = formatEvent({ type: 'agent_worked', tick: 1, payload: workedPayload });
+
+    expect(description).toBe('Worked (2/5 ticks), earned 4 CITY');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for Event Sinks
+ *
+ * Tests cover:
+ * - Channel: batching, retries with backoff, dead-letter file, queue limit
+ * - File sink: NDJSON lines, rotation and retention
+ * - Webhook sink: body, HMAC signature, non-2xx failures
+ * - Kafka sink: messages keyed by agent against an in-memory broker stand-in
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { WorldEvent } from '../../cache/pubsub';
+import { SinkChannel, getRetryDelay, type EventSink, type SinkChannelOptions } from '../../events/sinks';
+import { createFileSink, rotatedFileName } from '../../events/sinks/file-sink';
+import { createWebhookSink, signWebhookBody, WEBHOOK_SIGNATURE_HEADER } from '../../events/sinks/webhook-sink';
+import { createKafkaSink, type KafkaProducerLike } from '../../events/sinks/kafka-sink';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'event-sinks-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function createEvent(tick: number, agentId?: string): WorldEvent {
+  return { id: `event-${tick}`, type: 'agent_moved', tick, timestamp: 1000 + tick, agentId, payload: { toX: tick } };
+}
+
+function channelOptions(overrides: Partial<SinkChannelOptions> = {}): SinkChannelOptions {
+  return {
+    batchSize: 2,
+    flushIntervalMs: 10_000,
+    maxQueueSize: 100,
+    maxRetries: 2,
+    retryBaseMs: 1,
+    retryMaxMs: 5,
+    deadLetterDir: join(dir, 'dead-letter'),
+    ...overrides,
+  };
+}
+
+function createRecordingSink(failures = 0): EventSink & { batches: WorldEvent[][] } {
+  let remaining = failures;
+  const batches: WorldEvent[][] = [];
+  return {
+    name: 'recording',
+    batches,
+    async send(events) {
+      if (remaining-- > 0) throw new Error('destination down');
+      batches.push(events);
+    },
+  };
+}
+
+describe('SinkChannel', () => {
+  test('delivers queued events in batches', async () => {
+    const sink = createRecordingSink();
+    const channel = new SinkChannel(sink, channelOptions());
+
+    for (let tick = 1; tick <= 5; tick++) channel.enqueue(createEvent(tick));
+    await channel.flush();
+
+    expect(sink.batches.map((batch) => batch.map((e) => e.tick))).toEqual([[1, 2], [3, 4], [5]]);
+    expect(channel.metrics).toMatchObject({ delivered: 5, queued: 0, retries: 0, deadLettered: 0 });
+  });
+
+  test('retries a failed batch until it succeeds', async () => {
+    const sink = createRecordingSink(2);
+    const channel = new SinkChannel(sink, channelOptions());
+
+    channel.enqueue(createEvent(1));
+    await channel.flush();
+
+    expect(sink.batches).toHaveLength(1);
+    expect(channel.metrics).toMatchObject({ delivered: 1, retries: 2, lastError: 'destination down' });
+  });
+
+  test('dead-letters a batch after the last retry fails', async () => {
+    const sink = createRecordingSink(10);
+    const channel = new SinkChannel(sink, channelOptions());
+
+    channel.enqueue(createEvent(1));
+    channel.enqueue(createEvent(2));
+    await channel.flush();
+
+    const lines = (await readFile(join(dir, 'dead-letter', 'recording.ndjson'), 'utf8')).trim().split('\n');
+    const entry = JSON.parse(lines[0]);
+    expect(lines).toHaveLength(1);
+    expect(entry).toMatchObject({ sink: 'recording', error: 'destination down', attempts: 3 });
+    expect(entry.events.map((e: WorldEvent) => e.tick)).toEqual([1, 2]);
+    expect(channel.metrics).toMatchObject({ delivered: 0, retries: 2, deadLettered: 2 });
+  });
+
+  test('drops events once the queue is full', async () => {
+    const sink = createRecordingSink();
+    const channel = new SinkChannel(sink, channelOptions({ batchSize: 10, maxQueueSize: 3 }));
+
+    for (let tick = 1; tick <= 5; tick++) channel.enqueue(createEvent(tick));
+    expect(channel.metrics).toMatchObject({ queued: 3, dropped: 2 });
+
+    await channel.flush();
+    expect(channel.metrics.delivered).toBe(3);
+  });
+
+  test('backoff doubles per retry up to the cap', () => {
+    expect([0, 1, 2, 3, 4].map((attempt) => getRetryDelay(attempt, 500, 5000))).toEqual([500, 1000, 2000, 4000, 5000]);
+  });
+});
+
+describe('file sink', () => {
+  test('appends one event per line', async () => {
+    const sink = createFileSink({ directory: dir, maxBytes: 1_000_000, maxFiles: 2 });
+
+    await sink.send([createEvent(1), createEvent(2)]);
+    await sink.send([createEvent(3)]);
+
+    const lines = (await readFile(join(dir, 'events.ndjson'), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).tick)).toEqual([1, 2, 3]);
+  });
+
+  test('rotates past maxBytes and keeps maxFiles rotated files', async () => {
+    const sink = createFileSink({ directory: dir, maxBytes: 10, maxFiles: 2 });
+
+    for (let tick = 1; tick <= 4; tick++) await sink.send([createEvent(tick)]);
+
+    const files = (await readdir(dir)).sort();
+    expect(files).toEqual(['events.1.ndjson', 'events.2.ndjson', 'events.ndjson']);
+    const tickIn = async (file: string) => JSON.parse(await readFile(join(dir, file), 'utf8')).tick;
+    expect(await tickIn('events.ndjson')).toBe(4);
+    expect(await tickIn(rotatedFileName(1))).toBe(3);
+    expect(await tickIn(rotatedFileName(2))).toBe(2);
+  });
+});
+
+describe('webhook sink', () => {
+  test('posts signed batches and fails on non-2xx', async () => {
+    const received: { body: string; signature: string | null }[] = [];
+    let status = 200;
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ body: await request.text(), signature: request.headers.get(WEBHOOK_SIGNATURE_HEADER) });
+        return new Response(null, { status });
+      },
+    });
+
+    try {
+      const sink = createWebhookSink({ url: `http://localhost:${server.port}/events`, secret: 'shh', timeoutMs: 2000 });
+
+      await sink.send([createEvent(1)]);
+      expect(JSON.parse(received[0].body).events[0].tick).toBe(1);
+      expect(received[0].signature).toBe(signWebhookBody(received[0].body, 'shh'));
+
+      status = 503;
+      await expect(sink.send([createEvent(2)])).rejects.toThrow('503');
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+describe('kafka sink', () => {
+  function createBrokerStandIn(failSends = 0) {
+    const topics = new Map<string, { key: string; value: string; headers: Record<string, string> }[]>();
+    const calls = { connect: 0, disconnect: 0 };
+    let remaining = failSends;
+    const producer: KafkaProducerLike = {
+      async connect() { calls.connect++; },
+      async disconnect() { calls.disconnect++; },
+      async send({ topic, messages }) {
+        if (remaining-- > 0) throw new Error('broker unavailable');
+        topics.set(topic, [...(topics.get(topic) ?? []), ...messages]);
+      },
+    };
+    return { producer, topics, calls };
+  }
+
+  test('produces events keyed by agent to the topic', async () => {
+    const broker = createBrokerStandIn();
+    const sink = createKafkaSink({ brokers: ['localhost:9092'], topic: 'events', clientId: 'test', producer: broker.producer });
+
+    await sink.send([createEvent(1, 'agent-1'), createEvent(2)]);
+    await sink.close!();
+
+    const messages = broker.topics.get('events')!;
+    expect(messages.map((m) => m.key)).toEqual(['agent-1', 'world']);
+    expect(JSON.parse(messages[0].value).tick).toBe(1);
+    expect(messages[0].headers['event-type']).toBe('agent_moved');
+    expect(broker.calls).toEqual({ connect: 1, disconnect: 1 });
+  });
+
+  test('reconnects after a failed send when driven by a channel', async () => {
+    const broker = createBrokerStandIn(1);
+    const sink = createKafkaSink({ brokers: ['localhost:9092'], topic: 'events', clientId: 'test', producer: broker.producer });
+    const channel = new SinkChannel(sink, channelOptions());
+
+    channel.enqueue(createEvent(1, 'agent-1'));
+    await channel.flush();
+
+    expect(broker.topics.get('events')).toHaveLength(1);
+    expect(broker.calls.connect).toBe(2);
+    expect(channel.metrics).toMatchObject({ delivered: 1, retries: 1 });
+  });
+});
@@ -132,7 +132,7 @@ describe('External Agent - Decision Structure', () => {
       'sleep',
       'work',
       'buy',
-      'trade',
+      'propose_trade',
       'share_info',
       'claim',
       'name_location',
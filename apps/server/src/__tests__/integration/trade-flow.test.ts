@@ -13,7 +13,7 @@ import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
 import type { Agent } from '../../db/schema';
 import { CONFIG } from '../../config';
 
-// Mock database calls BEFORE importing trade handler
+// Mock database calls BEFORE importing propose_trade handler
 const mockGetAgentById = mock((id: string) => Promise.resolve(null));
 const mockGetInventoryItem = mock(() => Promise.resolve(null));
 const mockAddToInventory = mock(() => Promise.resolve());
@@ -37,8 +37,8 @@ mock.module('../../db/queries/memories', () => ({
 }));
 
 // Import after mocking
-import { handleTrade, type TradeParams } from '../../actions/handlers/trade';
-import type { ActionIntent } from '../../actions/types';
+import { handleProposeTrade } from '../../actions/handlers/propose-trade';
+import type { ActionIntent, ProposeTradeParams } from '../../actions/types';
 
 // Mock agents for trading
 function createTraderAgent(id: string, position: { x: number; y: number } = { x: 50, y: 50 }): Agent {
@@ -63,12 +63,12 @@ function createTraderAgent(id: string, position: { x: number; y: number } = { x:
 
 function createTradeIntent(
   initiatorId: string,
-  params: TradeParams,
+  params: ProposeTradeParams,
   tick = 100
-): ActionIntent<TradeParams> {
+): ActionIntent<ProposeTradeParams> {
   return {
     agentId: initiatorId,
-    type: 'trade',
+    type: 'propose_trade',
     params,
     tick,
     timestamp: Date.now(),
@@ -101,7 +101,7 @@ describe('Trade Flow - Validation', () => {
     });
 
     // Since target agent doesn't exist in DB, it will fail with "Target agent not found"
-    const result = await handleTrade(intent, initiator);
+    const result = await handleProposeTrade(intent, initiator);
 
     expect(result.success).toBe(false);
   });
@@ -118,7 +118,7 @@ describe('Trade Flow - Validation', () => {
       requestingQuantity: 1,
     });
 
-    const result1 = await handleTrade(intent1, initiator);
+    const result1 = await handleProposeTrade(intent1, initiator);
     expect(result1.success).toBe(false);
     expect(result1.error).toContain('quantities must be at least 1');
 
@@ -131,7 +131,7 @@ describe('Trade Flow - Validation', () => {
       requestingQuantity: 1,
     });
 
-    const result2 = await handleTrade(intent2, initiator);
+    const result2 = await handleProposeTrade(intent2, initiator);
     expect(result2.success).toBe(false);
   });
 
@@ -146,7 +146,7 @@ describe('Trade Flow - Validation', () => {
       requestingQuantity: -5,
     });
 
-    const result = await handleTrade(intent, initiator);
+    const result = await handleProposeTrade(intent, initiator);
     expect(result.success).toBe(false);
     expect(result.error).toContain('quantities must be at least 1');
   });
@@ -162,7 +162,7 @@ describe('Trade Flow - Validation', () => {
       requestingQuantity: 1,
     });
 
-    const result = await handleTrade(intent, agent);
+    const result = await handleProposeTrade(intent, agent);
     expect(result.success).toBe(false);
     expect(result.error).toContain('Cannot trade with yourself');
   });
@@ -207,7 +207,7 @@ describe('Trade Flow - Item Types', () => {
     });
 
     // Will fail because target doesn't exist, but validates food is accepted
-    const result = await handleTrade(intent, initiator);
+    const result = await handleProposeTrade(intent, initiator);
     expect(result.error).not.toContain('Invalid item type');
   });
 
@@ -222,7 +222,7 @@ describe('Trade Flow - Item Types', () => {
       requestingQuantity: 3,
     });
 
-    const result = await handleTrade(intent, initiator);
+    const result = await handleProposeTrade(intent, initiator);
     expect(result.error).not.toContain('Invalid item type');
   });
 
@@ -237,14 +237,14 @@ describe('Trade Flow - Item Types', () => {
       requestingQuantity: 1,
     });
 
-    const result = await handleTrade(intent, initiator);
+    const result = await handleProposeTrade(intent, initiator);
     expect(result.error).not.toContain('Invalid item type');
   });
 });
 
 describe('Trade Flow - Event Structure', () => {
   test('trade params interface is complete', () => {
-    const params: TradeParams = {
+    const params: ProposeTradeParams = {
       targetAgentId: 'target-id',
       offeringItemType: 'food',
       offeringQuantity: 2,
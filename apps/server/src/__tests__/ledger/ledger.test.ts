@@ -0,0 +1,218 @@
+/**
+ * Tests for the Ledger
+ *
+ * Tests cover:
+ * - Transaction tax on payments between agents, wages included
+ * - No tax on money paid by the system
+ * - Escrow payouts credit only the worker and are taxed as wages
+ * - Public work paid from the public treasury
+ */
+
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
+import { Param, type SQL } from 'drizzle-orm';
+import { db, publicTreasuries } from '../../db';
+import type { Agent, PublicTreasury } from '../../db/schema';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// In-memory accounts behind the drizzle client
+let balances = new Map<string, number>();
+let ledgerRows: Array<Record<string, unknown>> = [];
+let treasury: PublicTreasury;
+
+function idOf(condition: SQL): string {
+  return (condition.queryChunks.find((chunk) => chunk instanceof Param) as Param).value as string;
+}
+
+// Spied rather than module-mocked, so mock.restore() hands the real client back to later test files
+spyOn(db, 'select').mockImplementation((() => ({
+  from: () => ({
+    where: (condition: SQL) => ({
+      limit: async () => {
+        const id = idOf(condition);
+        return balances.has(id) ? [{ balance: balances.get(id), tenantId: null }] : [];
+      },
+    }),
+  }),
+})) as unknown as typeof db.select);
+
+spyOn(db, 'insert').mockImplementation((() => ({
+  values: (rows: Record<string, unknown> | Array<Record<string, unknown>>) => ({
+    returning: async () => {
+      const inserted = Array.isArray(rows) ? rows : [rows];
+      ledgerRows.push(...inserted);
+      return inserted;
+    },
+  }),
+})) as unknown as typeof db.insert);
+
+spyOn(db, 'update').mockImplementation(((table: unknown) => ({
+  set: (values: { balance: number }) => ({
+    where: async (condition: SQL) => {
+      if (table === publicTreasuries) treasury.balance = values.balance;
+      else balances.set(idOf(condition), values.balance);
+    },
+  }),
+})) as unknown as typeof db.update);
+
+mock.module('../../db/queries/fiscal', () => ({
+  getTreasury: async () => treasury,
+}));
+
+mock.module('../../db/queries/world', () => ({
+  getSheltersAtPosition: async () => [{ id: 'shelter-id' }],
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAliveAgents: async () => [],
+}));
+
+mock.module('../../db/queries/memories', () => ({
+  storeMemory: async () => ({ id: 'test-memory' }),
+}));
+
+// Import after mocking. Other test files mock transfer, transferWithOrg and
+// transferWithTreasury for good, so these tests go through the other helpers.
+import { payFromEscrow, paySalary, payWage, transferBetweenAgents } from '../../ledger';
+import { handlePublicWork } from '../../actions/handlers/public-work';
+import { CONFIG } from '../../config';
+
+function createTreasury(overrides: Partial<PublicTreasury> = {}): PublicTreasury {
+  return {
+    id: 'treasury-id',
+    tenantId: null,
+    balance: 0,
+    transactionTaxRate: 0.1,
+    wealthTaxRate: 0,
+    wealthTaxThreshold: 100,
+    publicWorkFunding: 'mint',
+    redistributionShare: 0,
+    policySource: 'config',
+    policyUpdatedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'worker',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  balances = new Map([
+    ['employer', 1000],
+    ['worker', 100],
+  ]);
+  ledgerRows = [];
+  treasury = createTreasury();
+});
+
+describe('transaction tax', () => {
+  test('the recipient of a wage between agents pays the tax, rounded down', async () => {
+    const result = await payWage('employer', 'worker', 55, 10, 'Work payment');
+
+    expect(result).toMatchObject({ success: true, fromNewBalance: 945, toNewBalance: 150, taxPaid: 5 });
+    expect(balances.get('worker')).toBe(150);
+    expect(treasury.balance).toBe(5);
+    expect(ledgerRows.map((row) => row.category)).toEqual(['salary', 'salary', 'transaction_tax', 'transaction_tax']);
+  });
+
+  test('transfers between agents are taxed the same way', async () => {
+    const result = await transferBetweenAgents('employer', 'worker', 20, 10);
+
+    expect(result.taxPaid).toBe(2);
+    expect(balances.get('worker')).toBe(118);
+  });
+
+  test('money paid by the system is not taxed', async () => {
+    const result = await paySalary('worker', 50, 10);
+
+    expect(result.taxPaid).toBeUndefined();
+    expect(balances.get('worker')).toBe(150);
+    expect(treasury.balance).toBe(0);
+  });
+
+  test('nothing is charged when the rate rounds the tax down to zero', async () => {
+    treasury = createTreasury({ transactionTaxRate: 0.01 });
+
+    const result = await payWage('employer', 'worker', 50, 10, 'Work payment');
+
+    expect(result.taxPaid).toBeUndefined();
+    expect(balances.get('worker')).toBe(150);
+    expect(ledgerRows).toHaveLength(2);
+  });
+});
+
+describe('payFromEscrow', () => {
+  test('credits only the worker and taxes the payout as a wage', async () => {
+    const result = await payFromEscrow('employer', 'worker', 40, 10);
+
+    expect(result).toMatchObject({ success: true, toNewBalance: 136, taxPaid: 4 });
+    expect(balances.get('employer')).toBe(1000); // Escrow was already deducted at the offer
+    expect(treasury.balance).toBe(4);
+    expect(ledgerRows[0]).toMatchObject({ fromAgentId: 'employer', toAgentId: 'worker', category: 'salary' });
+  });
+
+  test('rejects a non-positive amount', async () => {
+    const result = await payFromEscrow('employer', 'worker', 0, 10);
+
+    expect(result.success).toBe(false);
+    expect(ledgerRows).toHaveLength(0);
+  });
+});
+
+describe('public work paid from the treasury', () => {
+  async function completeTask(agent: Agent) {
+    let result = await handlePublicWork({ agentId: agent.id, type: 'public_work', params: {}, tick: 10, timestamp: Date.now() }, agent);
+    for (let tick = 1; tick < CONFIG.publicWorks.ticksPerTask; tick++) {
+      result = await handlePublicWork({ agentId: agent.id, type: 'public_work', params: {}, tick: 10 + tick, timestamp: Date.now() }, agent);
+    }
+    return result;
+  }
+
+  test('the payment moves from the treasury to the worker', async () => {
+    treasury = createTreasury({ balance: 100, publicWorkFunding: 'treasury' });
+
+    const result = await completeTask(createMockAgent());
+    const payment = result.events?.[0].payload.payment as number;
+
+    expect(result.success).toBe(true);
+    expect(payment).toBeGreaterThan(0);
+    expect(treasury.balance).toBe(100 - payment);
+    expect(balances.get('worker')).toBe(100 + payment);
+    expect(result.changes?.balance).toBe(100 + payment);
+    expect(ledgerRows.map((row) => row.category)).toEqual(['public_spending', 'public_spending']);
+  });
+
+  test('public work stops when the treasury cannot cover a task', async () => {
+    treasury = createTreasury({ balance: 0, publicWorkFunding: 'treasury' });
+
+    const result = await handlePublicWork(
+      { agentId: 'worker', type: 'public_work', params: {}, tick: 10, timestamp: Date.now() },
+      createMockAgent()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('public treasury cannot fund');
+    expect(ledgerRows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for Semantic Memory Retrieval
+ *
+ * Tests cover:
+ * - Hashing embedder: deterministic, similar texts score higher
+ * - Ranking: other embedders skipped, similarity threshold and top-k
+ * - Situation summary: needs, trades and nearby agents as query text
+ * - Retrieval: old but relevant lessons surface next to recent memories
+ * - Prompt formatting: relevant section, token budget and total limit
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { AgentMemory } from '../../db/schema';
+import type { AgentObservation } from '../../llm/types';
+
+let mockMemories: AgentMemory[] = [];
+
+mock.module('../../db/queries/memories', () => ({
+  getRecentMemories: async (_agentId: string, limit: number) =>
+    [...mockMemories].sort((a, b) => b.tick - a.tick).slice(0, limit),
+  getMemoriesAtLocation: async () => [],
+  getMostImportantMemories: async () => [],
+  getMemoriesAboutAgents: async () => new Map(),
+  getMemoriesByType: async () => [],
+  getEmbeddedMemories: async (_agentId: string, embeddingModel: string) =>
+    mockMemories.filter((m) => m.embeddingModel === embeddingModel),
+}));
+
+import { CONFIG } from '../../config';
+import {
+  buildSituationSummary,
+  cosineSimilarity,
+  createHashingEmbedder,
+  rankMemoriesBySimilarity,
+  setMemoryEmbedder,
+} from '../../llm/memory-embeddings';
+import {
+  estimatePromptTokens,
+  formatMemoriesForPrompt,
+  retrieveContextualMemories,
+  type RetrievedMemories,
+} from '../../llm/memory-retriever';
+
+const memoryConfig = CONFIG.memory as { semanticRetrieval: boolean };
+const originalSemanticRetrieval = memoryConfig.semanticRetrieval;
+const embedder = createHashingEmbedder(256);
+
+beforeEach(() => {
+  mockMemories = [];
+  memoryConfig.semanticRetrieval = true;
+  setMemoryEmbedder(embedder);
+});
+
+afterAll(() => {
+  memoryConfig.semanticRetrieval = originalSemanticRetrieval;
+  setMemoryEmbedder(null);
+  mock.restore();
+});
+
+async function createMemory(id: string, tick: number, content: string, overrides: Partial<AgentMemory> = {}): Promise<AgentMemory> {
+  const [embedding] = await embedder.embed([content]);
+  return {
+    id,
+    tenantId: null,
+    agentId: 'agent-1',
+    type: 'action',
+    content,
+    importance: 5,
+    emotionalValence: 0,
+    involvedAgentIds: [],
+    x: null,
+    y: null,
+    embedding,
+    embeddingModel: embedder.name,
+    sourceMemoryIds: [],
+    consolidatedInto: null,
+    tick,
+    createdAt: new Date(0),
+    ...overrides,
+  };
+}
+
+function createObservation(overrides: Partial<AgentObservation> = {}): AgentObservation {
+  return {
+    tick: 100,
+    timestamp: 0,
+    self: { id: 'agent-1', x: 5, y: 5, hunger: 80, energy: 80, health: 100, balance: 100, state: 'idle' },
+    nearbyAgents: [],
+    nearbyLocations: [],
+    availableActions: [],
+    recentEvents: [],
+    inventory: [],
+    ...overrides,
+  };
+}
+
+function createRetrieved(overrides: Partial<RetrievedMemories>): RetrievedMemories {
+  return { recent: [], reflections: [], relevant: [], aboutNearbyAgents: [], locationRelevant: [], important: [], ...overrides };
+}
+
+describe('hashing embedder', () => {
+  test('is deterministic and ranks related text closer', async () => {
+    const [a, again, related, unrelated] = await embedder.embed([
+      'Bought 2x food at shelter, hungry',
+      'Bought 2x food at shelter, hungry',
+      'hungry, need food, eat',
+      'Fired worker 1a2b3c4d after contract dispute',
+    ]);
+
+    expect(again).toEqual(a);
+    expect(a).toHaveLength(256);
+    expect(cosineSimilarity(a, related)).toBeGreaterThan(cosineSimilarity(a, unrelated));
+  });
+});
+
+describe('rankMemoriesBySimilarity', () => {
+  test('returns top-k above the threshold from the same embedder only', async () => {
+    const [query] = await embedder.embed(['trade food for energy']);
+    const memories = [
+      await createMemory('m1', 1, 'Accepted trade: gave 1x food, received 1x energy'),
+      await createMemory('m2', 2, 'Slept at shelter'),
+      await createMemory('m3', 3, 'Accepted trade: gave 1x food, received 1x energy', { embeddingModel: 'other' }),
+    ];
+
+    const ranked = rankMemoriesBySimilarity(memories, query, embedder.name, 5, 0.2);
+
+    expect(ranked.map((r) => r.memory.id)).toEqual(['m1']);
+  });
+});
+
+describe('buildSituationSummary', () => {
+  test('describes needs, nearby agents and incoming trades', () => {
+    const summary = buildSituationSummary(createObservation({
+      self: { id: 'agent-1', x: 5, y: 5, hunger: 20, energy: 80, health: 100, balance: 100, state: 'idle' },
+      nearbyAgents: [{ id: 'abcdef1234567890', x: 6, y: 5, state: 'idle' }],
+      incomingTradeProposals: [{
+        id: 'p1', proposerId: 'abcdef1234567890', targetId: 'agent-1', offeringItemType: 'food', offeringQuantity: 1,
+        requestingItemType: 'material', requestingQuantity: 2, expiresAtTick: 110, isCounterOffer: false,
+      }],
+    }));
+
+    expect(summary).toContain('hungry');
+    expect(summary).toContain('near abcdef12');
+    expect(summary).toContain('trade from abcdef12: 1x food for 2x material');
+  });
+});
+
+describe('retrieveContextualMemories', () => {
+  test('surfaces an old relevant lesson alongside recent memories', async () => {
+    mockMemories = [
+      await createMemory('lesson', 10, 'Was hungry with no food, bought food at shelter and ate', { importance: 8 }),
+      await createMemory('r1', 97, 'Moved to (5, 4)'),
+      await createMemory('r2', 98, 'Moved to (5, 5)'),
+      await createMemory('r3', 99, 'Named location Rockfield'),
+    ];
+    const observation = createObservation({
+      self: { id: 'agent-1', x: 5, y: 5, hunger: 15, energy: 80, health: 100, balance: 100, state: 'idle' },
+      nearbyShelters: [{ id: 's1', x: 6, y: 5, canSleep: true }],
+    });
+
+    const retrieved = await retrieveContextualMemories('agent-1', observation, { recentLimit: 3, semanticLimit: 1 });
+
+    expect(retrieved.recent.map((m) => m.id)).toEqual(['r3', 'r2', 'r1']);
+    expect(retrieved.relevant.map((m) => m.id)).toEqual(['lesson']);
+  });
+
+  test('skips semantic retrieval when disabled', async () => {
+    memoryConfig.semanticRetrieval = false;
+    mockMemories = [await createMemory('lesson', 10, 'hungry, bought food')];
+
+    const retrieved = await retrieveContextualMemories('agent-1', createObservation());
+
+    expect(retrieved.relevant).toEqual([]);
+  });
+});
+
+describe('formatMemoriesForPrompt', () => {
+  test('adds relevant memories after recent ones without repeating them', async () => {
+    const recent = await createMemory('r1', 99, 'Moved north');
+    const lesson = await createMemory('lesson', 10, 'Ate food when hungry');
+
+    const text = formatMemoriesForPrompt(createRetrieved({ recent: [recent], relevant: [lesson, recent] }), []);
+
+    expect(text).toBe('### Recent Memories\n- [Tick 99] Moved north \n\n### Relevant Past Experiences\n- [Tick 10] Ate food when hungry ');
+  });
+
+  test('stays within the token budget', async () => {
+    const memories = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => createMemory(`m${i}`, i, `Memory number ${i} `.repeat(10)))
+    );
+
+    const text = formatMemoriesForPrompt(createRetrieved({ recent: memories }), [], { maxTokens: 100 });
+
+    expect(estimatePromptTokens(text)).toBeLessThanOrEqual(100);
+    expect(text.split('\n').length).toBeGreaterThan(1);
+    expect(formatMemoriesForPrompt(createRetrieved({ recent: memories }), [], { maxTokens: 5 })).toBe('');
+  });
+});
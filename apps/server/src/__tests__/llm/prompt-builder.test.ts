@@ -830,7 +830,7 @@ describe('buildAvailableActions', () => {
         inventory: [{ type: 'food', quantity: 1 }],
       });
       const actions = buildAvailableActions(obs);
-      const tradeAction = actions.find((a) => a.type === 'trade');
+      const tradeAction = actions.find((a) => a.type === 'propose_trade');
 
       expect(tradeAction).toBeDefined();
       expect(tradeAction?.description).toContain('agent-12');
@@ -843,7 +843,7 @@ describe('buildAvailableActions', () => {
         inventory: [],
       });
       const actions = buildAvailableActions(obs);
-      const tradeAction = actions.find((a) => a.type === 'trade');
+      const tradeAction = actions.find((a) => a.type === 'propose_trade');
 
       expect(tradeAction).toBeUndefined();
     });
@@ -855,7 +855,7 @@ describe('buildAvailableActions', () => {
         inventory: [{ type: 'food', quantity: 1 }],
       });
       const actions = buildAvailableActions(obs);
-      const tradeAction = actions.find((a) => a.type === 'trade');
+      const tradeAction = actions.find((a) => a.type === 'propose_trade');
 
       expect(tradeAction).toBeUndefined();
     });
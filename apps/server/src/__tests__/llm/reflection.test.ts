@@ -0,0 +1,184 @@
+/**
+ * Tests for Reflection
+ *
+ * Tests cover:
+ * - Triggers: interval, importance threshold, minimum episodes
+ * - Prompt: episodes numbered newest first, cut at the input token budget
+ * - Parsing: memory numbers mapped to ids, invalid beliefs dropped
+ * - Reflection pass: provenance stored, episodes consolidated, budget applied
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { AgentMemory, TokenBudget } from '../../db/schema';
+import type { CreateMemoryInput } from '../../db/queries/memories';
+
+let mockEpisodes: AgentMemory[] = [];
+let mockBudget: Partial<TokenBudget> | null = null;
+const storedMemories: CreateMemoryInput[] = [];
+const consolidations: { memoryIds: string[]; reflectionId: string; factor: number }[] = [];
+
+mock.module('../../db/queries/memories', () => ({
+  getLastReflectionTick: async () => null,
+  getUnreflectedMemories: async () => mockEpisodes,
+  storeMemory: async (input: CreateMemoryInput) => {
+    storedMemories.push(input);
+    return { ...input, id: `reflection-${storedMemories.length}` };
+  },
+  consolidateMemories: async (memoryIds: string[], reflectionId: string, factor: number) => {
+    consolidations.push({ memoryIds, reflectionId, factor });
+    return memoryIds.length;
+  },
+}));
+
+mock.module('../../db/queries/llm-metrics', () => ({
+  getTokenBudget: async () => mockBudget,
+  recordLLMMetric: async () => ({}),
+}));
+
+import { CONFIG } from '../../config';
+import {
+  buildReflectionPrompt,
+  parseReflections,
+  reflectForAgent,
+  shouldReflect,
+  type ReflectionInvoker,
+} from '../../llm/reflection';
+
+beforeEach(() => {
+  mockEpisodes = [];
+  mockBudget = null;
+  storedMemories.length = 0;
+  consolidations.length = 0;
+});
+
+afterAll(() => {
+  mock.restore();
+});
+
+function createEpisode(id: string, tick: number, content: string, overrides: Partial<AgentMemory> = {}): AgentMemory {
+  return {
+    id,
+    tenantId: null,
+    agentId: 'agent-1',
+    type: 'interaction',
+    content,
+    importance: 5,
+    emotionalValence: 0,
+    involvedAgentIds: [],
+    x: null,
+    y: null,
+    embedding: null,
+    embeddingModel: null,
+    sourceMemoryIds: [],
+    consolidatedInto: null,
+    tick,
+    createdAt: new Date(0),
+    ...overrides,
+  };
+}
+
+function createEpisodes(count: number, importance = 5): AgentMemory[] {
+  return Array.from({ length: count }, (_, i) => createEpisode(`m${i + 1}`, 100 - i, `Episode ${i + 1}`, { importance }));
+}
+
+describe('shouldReflect', () => {
+  const { intervalTicks, importanceThreshold, minEpisodes } = CONFIG.memory.reflection;
+
+  test('waits for enough new episodes', () => {
+    expect(shouldReflect(1000, null, createEpisodes(minEpisodes - 1, 10))).toBe(false);
+  });
+
+  test('reflects once the interval has passed', () => {
+    expect(shouldReflect(100 + intervalTicks, 100, createEpisodes(minEpisodes, 1))).toBe(true);
+    expect(shouldReflect(100 + intervalTicks - 1, 100, createEpisodes(minEpisodes, 1))).toBe(false);
+  });
+
+  test('reflects early when new episodes are important enough', () => {
+    const importance = Math.ceil(importanceThreshold / minEpisodes);
+    expect(shouldReflect(101, 100, createEpisodes(minEpisodes, importance))).toBe(true);
+  });
+});
+
+describe('buildReflectionPrompt', () => {
+  test('numbers episodes and stops at the input token budget', () => {
+    const episodes = Array.from({ length: 50 }, (_, i) => createEpisode(`m${i}`, 100 - i, 'x'.repeat(200)));
+
+    const { prompt, episodes: included } = buildReflectionPrompt(episodes, 500, 3);
+
+    expect(included.length).toBeGreaterThan(0);
+    expect(included.length).toBeLessThan(50);
+    expect(included[0].id).toBe('m0');
+    expect(prompt).toContain('at most 3 higher-level beliefs');
+    expect(prompt).toContain('[1] (tick 100) ');
+    expect(Math.ceil(prompt.length / 4)).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('parseReflections', () => {
+  const episodes = [createEpisode('a', 3, 'one'), createEpisode('b', 2, 'two'), createEpisode('c', 1, 'three')];
+
+  test('maps memory numbers to ids and clamps importance', () => {
+    const response = 'Sure:\n{"reflections": [{"belief": "1a2b3c4d cheats in trades", "importance": 14, "sources": [1, 3, 3]}]}';
+
+    expect(parseReflections(response, episodes)).toEqual([
+      { belief: '1a2b3c4d cheats in trades', importance: 10, sourceMemoryIds: ['a', 'c'] },
+    ]);
+  });
+
+  test('drops beliefs without valid sources and bad responses', () => {
+    const response = '{"reflections": [{"belief": "no sources", "sources": [9]}, {"belief": "", "sources": [1]}]}';
+
+    expect(parseReflections(response, episodes)).toEqual([]);
+    expect(parseReflections('not json', episodes)).toEqual([]);
+  });
+});
+
+describe('reflectForAgent', () => {
+  test('stores beliefs with provenance and consolidates their episodes', async () => {
+    mockEpisodes = [
+      createEpisode('m1', 90, '1a2b3c4d rejected my trade', { involvedAgentIds: ['1a2b3c4d-full'], emotionalValence: -0.5 }),
+      createEpisode('m2', 80, '1a2b3c4d never paid escrow', { involvedAgentIds: ['1a2b3c4d-full'], emotionalValence: -1 }),
+      ...createEpisodes(CONFIG.memory.reflection.minEpisodes).map((e) => ({ ...e, id: `other-${e.id}`, tick: 50 })),
+    ];
+    mockBudget = { maxInputTokens: 1500, maxOutputTokens: 120 };
+    const calls: { prompt: string; maxTokens?: number }[] = [];
+    const invoke: ReflectionInvoker = async (_llmType, prompt, options) => {
+      calls.push({ prompt, maxTokens: options.maxTokens });
+      return { response: '{"reflections": [{"belief": "1a2b3c4d cannot be trusted", "importance": 8, "sources": [1, 2]}]}' };
+    };
+
+    const result = await reflectForAgent({ id: 'agent-reflect', tenantId: null, llmType: 'claude' }, 1000, invoke);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].maxTokens).toBe(120);
+    expect(storedMemories[0]).toMatchObject({
+      type: 'reflection',
+      content: '1a2b3c4d cannot be trusted',
+      importance: 8,
+      emotionalValence: -0.75,
+      involvedAgentIds: ['1a2b3c4d-full'],
+      sourceMemoryIds: ['m1', 'm2'],
+      tick: 1000,
+    });
+    expect(consolidations).toEqual([
+      { memoryIds: ['m1', 'm2'], reflectionId: 'reflection-1', factor: CONFIG.memory.reflection.episodeDecay },
+    ]);
+    expect(result).toMatchObject({ consolidated: 2, episodesConsidered: mockEpisodes.length });
+  });
+
+  test('does not call the LLM again until the next trigger', async () => {
+    mockEpisodes = createEpisodes(CONFIG.memory.reflection.minEpisodes);
+    let calls = 0;
+    const invoke: ReflectionInvoker = async () => {
+      calls++;
+      return { response: '{"reflections": []}' };
+    };
+
+    await reflectForAgent({ id: 'agent-retry', tenantId: null, llmType: 'claude' }, 1000, invoke);
+    const again = await reflectForAgent({ id: 'agent-retry', tenantId: null, llmType: 'claude' }, 1001, invoke);
+
+    expect(calls).toBe(1);
+    expect(again).toBeNull();
+    expect(storedMemories).toHaveLength(0);
+  });
+});
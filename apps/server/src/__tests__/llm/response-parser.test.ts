@@ -77,6 +77,15 @@ describe('parseResponse', () => {
       expect(result?.params).toEqual({ resourceType: 'food', quantity: 3 });
     });
 
+    test('maps the retired trade action to propose_trade', () => {
+      const response =
+        '{"action": "trade", "params": {"targetAgentId": "other", "offeringItemType": "food", "offeringQuantity": 1, "requestingItemType": "material", "requestingQuantity": 2}}';
+      const result = parseResponse(response);
+
+      expect(result).not.toBeNull();
+      expect(result?.action).toBe('propose_trade');
+    });
+
     test('parses gather action with no params', () => {
       const response = '{"action": "gather", "params": {}}';
       const result = parseResponse(response);
@@ -238,6 +247,45 @@ describe('parseResponse', () => {
       expect(result?.reasoning).toBeUndefined();
     });
   });
+
+  describe('plan fields', () => {
+    test('parses set_goal with routine and free-form steps', () => {
+      const response = JSON.stringify({
+        action: 'move',
+        params: { toX: 5, toY: 5 },
+        set_goal: {
+          goal: 'Build a storage',
+          steps: [
+            { description: 'Go to the site', action: 'travel_to', params: { toX: 9, toY: 9 } },
+            'Collect material',
+            { description: 'Bad step', action: 'build', params: {} },
+          ],
+          deadlineInTicks: 40,
+        },
+      });
+      const result = parseResponse(response);
+
+      expect(result?.plan).toEqual({
+        type: 'set_goal',
+        goal: 'Build a storage',
+        steps: [
+          { description: 'Go to the site', action: 'travel_to', params: { toX: 9, toY: 9 } },
+          { description: 'Collect material' },
+          { description: 'Bad step' },
+        ],
+        deadlineInTicks: 40,
+      });
+    });
+
+    test('parses update_plan and drops empty plan fields', () => {
+      const update = parseResponse('{"action": "work", "params": {}, "update_plan": {"status": "abandoned", "reason": "too far"}}');
+      const empty = parseResponse('{"action": "work", "params": {}, "set_goal": {"goal": ""}, "update_plan": {}}');
+
+      expect(update?.plan).toMatchObject({ type: 'update_plan', status: 'abandoned', reason: 'too far' });
+      expect(empty).not.toBeNull();
+      expect(empty?.plan).toBeUndefined();
+    });
+  });
 });
 
 describe('getFallbackDecision', () => {
@@ -0,0 +1,199 @@
+/**
+ * Tests for the MCP Server
+ *
+ * Tests cover:
+ * - API key authentication (shared with the REST A2A API)
+ * - One tool per registered action, typed input schemas
+ * - Tool calls: unknown tools, invalid params, dead agents, rate limiting
+ * - Observation resource scoped to the authenticated agent
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Agent, ExternalAgent } from '../../db/schema';
+
+const mockGetExternalAgentByKeyHash = mock((_keyHash: string) => Promise.resolve(null as ExternalAgent | null));
+const mockGetAgentById = mock(() => Promise.resolve(undefined as Agent | undefined));
+const mockRecordAndCheckRateLimit = mock(() =>
+  Promise.resolve({ allowed: true, remaining: 0, limit: 1, resetAt: 0 })
+);
+
+mock.module('../../db/queries/external-agents', () => ({
+  getExternalAgentByKeyHash: mockGetExternalAgentByKeyHash,
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAgentById: mockGetAgentById,
+  getAllAgents: mock(() => Promise.resolve([])),
+  updateAgent: mock(() => Promise.resolve()),
+}));
+
+mock.module('../../db/queries/crafting', () => ({
+  getRecipeCraftCounts: mock(() => Promise.resolve({ byAgent: 0, total: 0 })),
+  getBusyCrafters: mock(() => Promise.resolve(new Map())),
+}));
+
+mock.module('../../middleware/rate-limit', () => ({
+  recordAndCheckRateLimit: mockRecordAndCheckRateLimit,
+}));
+
+afterAll(() => mock.restore());
+
+// Import after mocking
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  authenticateMcpApiKey,
+  buildActionTools,
+  createMcpServer,
+  observationUri,
+} from '../../mcp/server';
+import { getRegisteredActionTypes } from '../../actions';
+
+const AGENT_ID = '44444444-4444-4444-8444-444444444444';
+
+function createExternalAgent(overrides: Partial<ExternalAgent> = {}): ExternalAgent {
+  return {
+    id: '55555555-5555-4555-8555-555555555555',
+    agentId: AGENT_ID,
+    isActive: true,
+    ...overrides,
+  } as ExternalAgent;
+}
+
+async function connectClient(externalAgent = createExternalAgent()): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer(externalAgent).connect(serverTransport);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+beforeEach(() => {
+  mockGetExternalAgentByKeyHash.mockClear();
+  mockGetAgentById.mockReset();
+  mockRecordAndCheckRateLimit.mockReset();
+  mockRecordAndCheckRateLimit.mockImplementation(() =>
+    Promise.resolve({ allowed: true, remaining: 0, limit: 1, resetAt: 0 })
+  );
+});
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+describe('authenticateMcpApiKey', () => {
+  test('rejects missing or malformed keys without a lookup', async () => {
+    expect(await authenticateMcpApiKey(undefined)).toBeNull();
+    expect(await authenticateMcpApiKey('not-a-key')).toBeNull();
+    expect(mockGetExternalAgentByKeyHash).not.toHaveBeenCalled();
+  });
+
+  test('looks the key up by hash and rejects inactive agents', async () => {
+    mockGetExternalAgentByKeyHash.mockImplementationOnce(() => Promise.resolve(createExternalAgent()));
+    expect(await authenticateMcpApiKey('ac_valid')).toMatchObject({ agentId: AGENT_ID });
+    expect(mockGetExternalAgentByKeyHash.mock.calls[0][0]).not.toBe('ac_valid');
+
+    mockGetExternalAgentByKeyHash.mockImplementationOnce(() =>
+      Promise.resolve(createExternalAgent({ isActive: false }))
+    );
+    expect(await authenticateMcpApiKey('ac_revoked')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+describe('tools', () => {
+  test('exposes one tool per registered action', () => {
+    const tools = buildActionTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([...getRegisteredActionTypes()].sort());
+  });
+
+  test('tool input schemas come from the action params schemas', () => {
+    const move = buildActionTools(['move'])[0];
+    expect(move.inputSchema).toMatchObject({
+      type: 'object',
+      properties: { toX: { type: 'integer' }, toY: { type: 'integer' } },
+      required: ['toX', 'toY'],
+    });
+  });
+
+  test('lists tools over the protocol', async () => {
+    const client = await connectClient();
+    const { tools } = await client.listTools();
+    expect(tools.length).toBe(getRegisteredActionTypes().length);
+    await client.close();
+  });
+
+  test('rejects unknown tools', async () => {
+    const client = await connectClient();
+    await expect(client.callTool({ name: 'teleport', arguments: {} })).rejects.toThrow('Unknown tool');
+    await client.close();
+  });
+
+  test('rejects params that do not match the action schema', async () => {
+    mockGetAgentById.mockImplementation(() => Promise.resolve({ id: AGENT_ID, state: 'idle' } as Agent));
+    const client = await connectClient();
+
+    const missing = await client.callTool({ name: 'sleep', arguments: {} });
+    expect(missing.isError).toBe(true);
+    expect((missing.structuredContent as { error: string }).error).toBe(
+      "Invalid params: params must have required property 'duration'"
+    );
+
+    const outOfRange = await client.callTool({ name: 'sleep', arguments: { duration: 99 } });
+    expect(outOfRange.isError).toBe(true);
+    expect((outOfRange.structuredContent as { error: string }).error).toContain('params/duration');
+
+    expect(mockGetAgentById).not.toHaveBeenCalled();
+    expect(mockRecordAndCheckRateLimit).not.toHaveBeenCalled();
+    await client.close();
+  });
+
+  test('returns a tool error for dead agents', async () => {
+    mockGetAgentById.mockImplementation(() => Promise.resolve({ id: AGENT_ID, state: 'dead' } as Agent));
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'sleep', arguments: { duration: 1 } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ success: false, error: 'Agent is dead' });
+    expect(mockRecordAndCheckRateLimit).not.toHaveBeenCalled();
+    await client.close();
+  });
+
+  test('enforces the external agent rate limit', async () => {
+    mockGetAgentById.mockImplementation(() => Promise.resolve({ id: AGENT_ID, state: 'idle' } as Agent));
+    mockRecordAndCheckRateLimit.mockImplementation(() =>
+      Promise.resolve({ allowed: false, remaining: 0, limit: 1, resetAt: 0 })
+    );
+    const client = await connectClient();
+
+    const result = await client.callTool({ name: 'sleep', arguments: { duration: 1 } });
+    expect(result.isError).toBe(true);
+    expect(String((result.structuredContent as { error: string }).error)).toContain('Rate limit exceeded');
+    await client.close();
+  });
+});
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+describe('resources', () => {
+  test('lists the authenticated agent observation', async () => {
+    const client = await connectClient();
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([expect.objectContaining({ uri: observationUri(AGENT_ID) })]);
+    await client.close();
+  });
+
+  test("refuses other agents' observations", async () => {
+    const client = await connectClient();
+    await expect(
+      client.readResource({ uri: observationUri('66666666-6666-4666-8666-666666666666') })
+    ).rejects.toThrow('forbidden');
+    await client.close();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for Data Export
+ *
+ * Tests cover:
+ * - Schema manifest: every dataset documented, event types split by category with payload schemas
+ * - NDJSON rows: snake_case columns, ISO timestamps, payloads upcast to the current version
+ * - Arrow IPC: batches stitched into one readable stream, empty datasets
+ * - Events datasets filter by the category split in events/event-types.ts
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import { tableFromIPC } from 'apache-arrow';
+
+let mockBatches: Record<string, unknown>[][] = [];
+const mockReadExportBatches = mock((_source: string, _range: unknown, _options: { where?: unknown }) =>
+  (async function* () {
+    for (const batch of mockBatches) yield batch;
+  })()
+);
+const mockEventTypeFilter = mock((eventTypes: string[], exclude = false) => ({ eventTypes, exclude }));
+
+mock.module('../../db/queries/export', () => ({
+  readExportBatches: mockReadExportBatches,
+  eventTypeFilter: mockEventTypeFilter,
+}));
+
+import {
+  EXPORT_DATASETS,
+  buildExportSchema,
+  getExportDataset,
+  streamExportDataset,
+  toExportRow,
+  type ExportStats,
+} from '../../services/data-export';
+import { getEventTypesByCategory } from '../../events/event-types';
+
+afterAll(() => {
+  mock.restore();
+});
+
+beforeEach(() => {
+  mockBatches = [];
+  mockReadExportBatches.mockClear();
+  mockEventTypeFilter.mockClear();
+});
+
+function createEventRow(id: number) {
+  return {
+    id,
+    tick: 10 + id,
+    agentId: id % 2 ? 'agent-1' : null,
+    eventType: 'agent_moved',
+    version: id,
+    payload: { toX: id, toY: 2 },
+    schemaVersion: 1,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+const range = { fromTick: 0, toTick: 100 };
+
+describe('buildExportSchema', () => {
+  test('documents every dataset with its columns', () => {
+    const schema = buildExportSchema();
+
+    expect(schema.datasets.map((d) => d.name)).toEqual(EXPORT_DATASETS.map((d) => d.name));
+    expect(schema.datasets.every((d) => d.columns.length > 0)).toBe(true);
+  });
+
+  test('events datasets list the event types of their category', () => {
+    const schema = buildExportSchema();
+    const infrastructure = schema.datasets.find((d) => d.name === 'events_infrastructure')!;
+
+    expect(infrastructure.eventTypes!.map((e) => e.eventType)).toEqual(getEventTypesByCategory('infrastructure'));
+    expect(schema.datasets.find((d) => d.name === 'ledger')!.eventTypes).toBeUndefined();
+  });
+
+  test('event types carry the version and JSON Schema of their payload', () => {
+    const schema = buildExportSchema();
+    const emergent = schema.datasets.find((d) => d.name === 'events_emergent')!;
+    const moved = emergent.eventTypes!.find((e) => e.eventType === 'agent_moved')!;
+
+    expect(moved.payloadVersion).toBe(1);
+    expect(moved.payloadSchema).toMatchObject({ type: 'object', required: expect.arrayContaining(['from', 'to']) });
+  });
+});
+
+describe('NDJSON export', () => {
+  test('writes one snake_case row per line', async () => {
+    mockBatches = [[createEventRow(1), createEventRow(2)], [createEventRow(3)]];
+    const stats: ExportStats = { rows: 0, bytes: 0 };
+
+    const bytes = await collect(streamExportDataset(getExportDataset('events_emergent')!, 'ndjson', range, stats));
+    const lines = new TextDecoder().decode(bytes).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual({
+      id: 1,
+      tick: 11,
+      agent_id: 'agent-1',
+      event_type: 'agent_moved',
+      version: 1,
+      payload: { toX: 1, toY: 2 },
+      schema_version: 1,
+      created_at: '2026-01-01T00:00:00.000Z',
+    });
+    expect(stats).toEqual({ rows: 3, bytes: bytes.byteLength });
+  });
+
+  test('exports older event payloads at the current version', async () => {
+    const vitals = { hunger: 50, energy: 40, health: 90 };
+    mockBatches = [[{ ...createEventRow(1), eventType: 'needs_updated', payload: vitals, schemaVersion: 1 }]];
+
+    const bytes = await collect(streamExportDataset(getExportDataset('events_infrastructure')!, 'ndjson', range));
+    const [line] = new TextDecoder().decode(bytes).trim().split('\n').map((l) => JSON.parse(l));
+
+    expect(line.schema_version).toBe(2);
+    expect(line.payload).toEqual({ previousState: vitals, newState: vitals, effects: [] });
+  });
+
+  test('missing fields become null', () => {
+    const row = toExportRow(getExportDataset('ledger')!, { id: 'l1', tick: 5, amount: 3 });
+
+    expect(row.from_agent_id).toBeNull();
+    expect(row.description).toBeNull();
+  });
+});
+
+describe('Arrow export', () => {
+  test('stitches batches into a single IPC stream', async () => {
+    mockBatches = [[createEventRow(1), createEventRow(2)], [createEventRow(3)]];
+
+    const table = tableFromIPC(await collect(streamExportDataset(getExportDataset('events_emergent')!, 'arrow', range)));
+
+    expect(table.numRows).toBe(3);
+    expect(table.schema.fields.map((f) => f.name)).toEqual(EXPORT_DATASETS[0].columns.map((c) => c.name));
+    expect(Number(table.get(2)!.tick)).toBe(13);
+    expect(table.get(1)!.agent_id).toBeNull();
+    expect(JSON.parse(table.get(0)!.payload)).toEqual({ toX: 1, toY: 2 });
+  });
+
+  test('an empty dataset is a valid stream with the schema', async () => {
+    const table = tableFromIPC(await collect(streamExportDataset(getExportDataset('llm_metrics')!, 'arrow', range)));
+
+    expect(table.numRows).toBe(0);
+    expect(table.schema.fields.map((f) => f.name)).toContain('latency_ms');
+  });
+});
+
+describe('event category split', () => {
+  test('non-emergent datasets select their registered types', async () => {
+    await collect(streamExportDataset(getExportDataset('events_infrastructure')!, 'ndjson', range));
+
+    expect(mockEventTypeFilter.mock.calls[0]).toEqual([getEventTypesByCategory('infrastructure')]);
+    expect(mockReadExportBatches.mock.calls[0][0]).toBe('events');
+  });
+
+  test('emergent excludes every other category so unregistered types land there', async () => {
+    await collect(streamExportDataset(getExportDataset('events_emergent')!, 'ndjson', range));
+
+    const [excluded, exclude] = mockEventTypeFilter.mock.calls[0];
+    expect(exclude).toBe(true);
+    expect(excluded).toContain('tick_start');
+    expect(excluded).not.toContain('agent_moved');
+  });
+
+  test('other datasets are not filtered by event type', async () => {
+    await collect(streamExportDataset(getExportDataset('agent_tick_states')!, 'ndjson', range));
+
+    expect(mockEventTypeFilter).not.toHaveBeenCalled();
+    expect(mockReadExportBatches.mock.calls[0][0]).toBe('agentTickStates');
+  });
+});
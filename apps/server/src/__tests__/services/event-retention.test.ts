@@ -0,0 +1,184 @@
+/**
+ * Tests for Event Retention
+ *
+ * Tests cover:
+ * - Policy: tenant overrides, retention cutoff
+ * - Aggregates: per-tick infrastructure counts with distinct agents
+ * - Enforcement: full-detail window and maxEventsStored archive whole old ticks
+ * - Archives: gzipped NDJSON round-trip and rehydration of the original rows
+ */
+
+import { describe, expect, test, mock, beforeEach, afterEach, afterAll } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Event, EventArchive, NewEventArchive } from '../../db/schema';
+
+// In-memory events table and archive records for the main world
+let storedEvents: Event[] = [];
+let storedArchives: (EventArchive & { aggregates: unknown[] })[] = [];
+
+mock.module('../../db/queries/export', () => ({
+  readExportBatches: (_source: string, range: { fromTick: number; toTick: number }, options: { batchSize?: number }) =>
+    (async function* () {
+      const rows = storedEvents.filter((e) => e.tick >= range.fromTick && e.tick <= range.toTick);
+      const batchSize = options.batchSize ?? 5000;
+      for (let i = 0; i < rows.length; i += batchSize) yield rows.slice(i, i + batchSize);
+    })(),
+}));
+
+mock.module('../../db/queries/events-cleanup', () => ({
+  countStoredEvents: async () => storedEvents.length,
+  getOldestEventTick: async () => (storedEvents.length > 0 ? Math.min(...storedEvents.map((e) => e.tick)) : null),
+  getEventTickAtOffset: async (_tenantId: string | null, offset: number) =>
+    [...storedEvents].sort((a, b) => a.tick - b.tick || a.id - b.id)[offset]?.tick ?? null,
+  recordEventArchive: async (archive: NewEventArchive, aggregates: unknown[], maxEventId: number) => {
+    const created = {
+      ...archive,
+      id: `archive-${storedArchives.length + 1}`,
+      tenantId: archive.tenantId ?? null,
+      createdAt: new Date(),
+      aggregates,
+    } as EventArchive & { aggregates: unknown[] };
+    storedArchives.push(created);
+    storedEvents = storedEvents.filter((e) => e.tick > archive.toTick || e.id > maxEventId);
+    return created;
+  },
+  listEventArchives: async (_tenantId: string | null, range: { fromTick: number; toTick: number }) =>
+    storedArchives.filter((a) => a.fromTick <= range.toTick && a.toTick >= range.fromTick),
+  restoreArchivedEvents: async (rows: Event[]) => {
+    storedEvents.push(...rows);
+    return rows.length;
+  },
+  deleteEventArchive: async (id: string) => {
+    storedArchives = storedArchives.filter((a) => a.id !== id);
+  },
+}));
+
+import { CONFIG } from '../../config';
+import {
+  applyEventRetention,
+  createTickAggregator,
+  getRetentionCutoff,
+  getRetentionPolicy,
+  rehydrateArchivedEvents,
+} from '../../services/event-retention';
+
+const retentionConfig = CONFIG.eventRetention as { archiveDir: string };
+const originalArchiveDir = retentionConfig.archiveDir;
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'event-retention-'));
+  retentionConfig.archiveDir = dir;
+  storedEvents = [];
+  storedArchives = [];
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  retentionConfig.archiveDir = originalArchiveDir;
+  mock.restore();
+});
+
+function createEvent(id: number, tick: number, overrides: Partial<Event> = {}): Event {
+  return {
+    id,
+    tenantId: null,
+    tick,
+    agentId: `agent-${id % 2}`,
+    eventType: 'needs_updated',
+    payload: { tick },
+    category: 'infrastructure',
+    version: id,
+    schemaVersion: 2,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+/** Three events per tick: two infrastructure, one emergent */
+function seedTicks(ticks: number): void {
+  let id = 1;
+  for (let tick = 0; tick < ticks; tick++) {
+    storedEvents.push(createEvent(id++, tick), createEvent(id++, tick));
+    storedEvents.push(createEvent(id++, tick, { eventType: 'agent_moved', category: 'emergent' }));
+  }
+}
+
+describe('policy', () => {
+  test('tenants fall back to the configured full-detail window', () => {
+    expect(getRetentionPolicy({ eventRetentionTicks: 50, maxEventsStored: 1000 })).toEqual({
+      fullDetailTicks: 50,
+      maxEventsStored: 1000,
+    });
+    expect(getRetentionPolicy({ eventRetentionTicks: null, maxEventsStored: 1000 }).fullDetailTicks)
+      .toBe(CONFIG.eventRetention.fullDetailTicks);
+  });
+
+  test('cutoff keeps the last N ticks and is disabled at 0', () => {
+    expect(getRetentionCutoff(100, 10)).toBe(90);
+    expect(getRetentionCutoff(5, 10)).toBeNull();
+    expect(getRetentionCutoff(100, 0)).toBeNull();
+  });
+});
+
+describe('createTickAggregator', () => {
+  test('counts infrastructure events per tick and type across batches', () => {
+    const aggregator = createTickAggregator();
+    aggregator.add([createEvent(1, 0), createEvent(2, 0)]);
+    aggregator.add([createEvent(3, 0), createEvent(4, 1, { category: 'emergent' })]);
+
+    expect(aggregator.result()).toEqual([{ tick: 0, eventType: 'needs_updated', eventCount: 3, agentCount: 2 }]);
+  });
+});
+
+describe('applyEventRetention', () => {
+  test('archives ticks older than the full-detail window', async () => {
+    seedTicks(10);
+
+    const report = await applyEventRetention(null, 10, { fullDetailTicks: 4, maxEventsStored: 0 });
+
+    expect(report).toMatchObject({ prunedEvents: 21, archivedTicks: 7, remainingEvents: 9 });
+    expect(report.archives[0]).toMatchObject({ fromTick: 0, toTick: 6, eventCount: 21, reason: 'retention' });
+    expect(Math.min(...storedEvents.map((e) => e.tick))).toBe(7);
+    expect(storedArchives[0].aggregates).toHaveLength(7);
+    expect(await readdir(join(dir, 'world'))).toHaveLength(1);
+  });
+
+  test('archives whole oldest ticks to get under maxEventsStored', async () => {
+    seedTicks(10);
+
+    const report = await applyEventRetention(null, 10, { fullDetailTicks: 0, maxEventsStored: 20 });
+
+    // 30 events, 10 over: the 10th oldest is in tick 3, so ticks 0-3 go
+    expect(report.archives[0]).toMatchObject({ fromTick: 0, toTick: 3, reason: 'max_events' });
+    expect(report.remainingEvents).toBe(18);
+  });
+
+  test('does nothing inside the policy', async () => {
+    seedTicks(3);
+
+    const report = await applyEventRetention(null, 3, { fullDetailTicks: 10, maxEventsStored: 100 });
+
+    expect(report).toMatchObject({ archives: [], prunedEvents: 0, remainingEvents: 9 });
+  });
+});
+
+describe('rehydrateArchivedEvents', () => {
+  test('restores the original rows and removes the archive', async () => {
+    seedTicks(10);
+    const original = storedEvents.filter((e) => e.tick <= 6);
+    await applyEventRetention(null, 10, { fullDetailTicks: 4, maxEventsStored: 0 });
+
+    const restored = await rehydrateArchivedEvents(2, 3);
+
+    expect(restored).toEqual({ archives: 1, events: 21, fromTick: 0, toTick: 6 });
+    expect(storedEvents.filter((e) => e.tick <= 6)).toEqual(original);
+    expect(storedArchives).toHaveLength(0);
+    expect(await readdir(join(dir, 'world'))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for World Checkpoints
+ *
+ * Tests cover:
+ * - Checkpoint cadence (CONFIG.simulation.checkpointIntervalTicks)
+ * - Fork remapping: fresh ids, references and JSON columns follow, tenant set
+ * - World scope of rows written without a tenantId follows their agent
+ * - RNG state capture/restore continues the exact sequence
+ */
+
+import { describe, expect, test, afterEach } from 'bun:test';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  UNCHECKPOINTED_TABLES,
+  agentWorldScope,
+  remapCheckpointTables,
+  remapIds,
+  type CheckpointTables,
+} from '../../db/queries/checkpoints';
+import { db, inventory } from '../../db';
+import { isCheckpointTick } from '../../simulation/checkpoints';
+import { getRNGState, initializeRNG, random, resetRNG, restoreRNGState } from '../../utils/random';
+import { CONFIG } from '../../config';
+
+// Interval is overridden per test and restored afterwards
+const simulationConfig = CONFIG.simulation as { checkpointIntervalTicks: number };
+const originalInterval = simulationConfig.checkpointIntervalTicks;
+
+afterEach(() => {
+  simulationConfig.checkpointIntervalTicks = originalInterval;
+  resetRNG();
+});
+
+function createTables(): CheckpointTables {
+  return {
+    agents: [
+      { id: 'agent-a', tenantId: null, x: 1, y: 2, createdAt: '2026-01-01T00:00:00.000Z' },
+      { id: 'agent-b', tenantId: null, x: 3, y: 4, createdAt: '2026-01-01T00:00:00.000Z' },
+    ],
+    agentMemories: [
+      { id: 'memory-1', tenantId: null, agentId: 'agent-a', involvedAgentIds: ['agent-b'], content: 'Met agent-b' },
+    ],
+    puzzleGames: [{ id: 'game-1', tenantId: null, winnerId: null }],
+    puzzleFragments: [{ id: 'fragment-1', gameId: 'game-1', ownerId: 'agent-a', sharedWith: ['agent-b'] }],
+  };
+}
+
+function renderScope(tenantId: string | null) {
+  return new PgDialect().sqlToQuery(agentWorldScope(db, inventory.tenantId, inventory.agentId, tenantId));
+}
+
+describe('agentWorldScope', () => {
+  test('the default world leaves unstamped rows of tenant agents alone', () => {
+    const { sql, params } = renderScope(null);
+
+    expect(sql).toContain('"inventory"."tenant_id" is null');
+    expect(sql).toContain('"inventory"."agent_id" not in (select "id" from "agents" where "agents"."tenant_id" is not null)');
+    expect(params).toEqual([]);
+  });
+
+  test('a tenant world also takes unstamped rows of its own agents', () => {
+    const { sql, params } = renderScope('tenant-1');
+
+    expect(sql).toContain('"inventory"."tenant_id" = $1');
+    expect(sql).toContain('"inventory"."agent_id" in (select "id" from "agents" where "agents"."tenant_id" = $2)');
+    expect(params).toEqual(['tenant-1', 'tenant-1']);
+  });
+});
+
+describe('isCheckpointTick', () => {
+  test('checkpoints on multiples of the interval', () => {
+    simulationConfig.checkpointIntervalTicks = 25;
+
+    expect(isCheckpointTick(0)).toBe(false);
+    expect(isCheckpointTick(25)).toBe(true);
+    expect(isCheckpointTick(26)).toBe(false);
+    expect(isCheckpointTick(100)).toBe(true);
+  });
+
+  test('an interval of 0 disables checkpoints', () => {
+    simulationConfig.checkpointIntervalTicks = 0;
+
+    expect(isCheckpointTick(50)).toBe(false);
+  });
+});
+
+describe('remapCheckpointTables', () => {
+  test('gives every row a fresh id and moves it to the fork tenant', () => {
+    const { tables, idMap } = remapCheckpointTables(createTables(), 'fork-tenant');
+
+    expect(idMap.size).toBe(5);
+    expect(tables.agents.map((a) => a.id)).toEqual([idMap.get('agent-a'), idMap.get('agent-b')]);
+    expect(tables.agents.every((a) => a.tenantId === 'fork-tenant')).toBe(true);
+    expect(tables.agents[0].id).not.toBe('agent-a');
+  });
+
+  test('references, including ids inside JSON columns, follow the new ids', () => {
+    const { tables, idMap } = remapCheckpointTables(createTables(), 'fork-tenant');
+
+    const [memory] = tables.agentMemories;
+    expect(memory.agentId).toBe(idMap.get('agent-a'));
+    expect(memory.involvedAgentIds).toEqual([idMap.get('agent-b')]);
+    // Free text is left alone
+    expect(memory.content).toBe('Met agent-b');
+
+    const [fragment] = tables.puzzleFragments;
+    expect(fragment.gameId).toBe(idMap.get('game-1'));
+    expect(fragment.sharedWith).toEqual([idMap.get('agent-b')]);
+  });
+
+  test('checkpoints hold location names, roles, retaliation chains and beliefs', () => {
+    const tables = Object.keys(remapCheckpointTables({}, 'fork-tenant').tables);
+
+    expect(tables).toEqual(expect.arrayContaining(['locationNames', 'agentRoles', 'retaliationChains', 'informationBeliefs']));
+    expect(tables.filter((name) => UNCHECKPOINTED_TABLES.includes(name))).toEqual([]);
+  });
+
+  test('tables without a tenant column keep no tenant id', () => {
+    const { tables } = remapCheckpointTables(createTables(), 'fork-tenant');
+
+    expect(tables.puzzleFragments[0].tenantId).toBeUndefined();
+  });
+
+  test('leaves the source checkpoint untouched', () => {
+    const source = createTables();
+    remapCheckpointTables(source, 'fork-tenant');
+
+    expect(source.agents[0].id).toBe('agent-a');
+    expect(source.agentMemories[0].involvedAgentIds).toEqual(['agent-b']);
+  });
+
+  test('remapIds walks nested objects and keeps other values', () => {
+    const idMap = new Map([['old', 'new']]);
+
+    expect(remapIds({ a: ['old', 1, null], b: { c: 'old', d: 'other' } }, idMap)).toEqual({
+      a: ['new', 1, null],
+      b: { c: 'new', d: 'other' },
+    });
+  });
+});
+
+describe('RNG state', () => {
+  test('a restored state continues the exact sequence', () => {
+    initializeRNG('checkpoint-seed');
+    random();
+    const state = JSON.parse(JSON.stringify(getRNGState()));
+    const expected = [random(), random(), random()];
+
+    restoreRNGState(state);
+
+    expect([random(), random(), random()]).toEqual(expected);
+  });
+
+  test('unseeded RNG has no state to capture', () => {
+    expect(getRNGState()).toBeNull();
+  });
+});
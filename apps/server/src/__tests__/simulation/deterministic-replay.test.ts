@@ -0,0 +1,159 @@
+/**
+ * Tests for Deterministic Replay
+ *
+ * Tests cover:
+ * - Decision extraction from the events log, prompt_logs fallback, plan directives
+ * - Event comparison: volatile fields ignored, minted ids learned, first difference reported
+ * - Agent state comparison at recorded checkpoints
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  compareTickEvents,
+  diffAgentStates,
+  extractRecordedDecisions,
+  findDifference,
+  normalizeEvent,
+} from '../../simulation/deterministic-replay';
+import type { ReplayEvent } from '../../db/queries/replay';
+import type { PlanDirective } from '../../llm/types';
+import { AgentDecisionPayload, validateEventPayload } from '@simagents/shared';
+
+const AGENT_A = '11111111-1111-4111-8111-111111111111';
+const AGENT_B = '22222222-2222-4222-8222-222222222222';
+const ORDER_RECORDED = '33333333-3333-4333-8333-333333333333';
+const ORDER_REPLAYED = '44444444-4444-4444-8444-444444444444';
+
+let nextEventId = 1;
+
+function createEvent(overrides: Partial<ReplayEvent> = {}): ReplayEvent {
+  return {
+    id: nextEventId++,
+    eventType: 'agent_move',
+    tick: 10,
+    agentId: AGENT_A,
+    payload: { action: 'move', params: { toX: 3, toY: 4 }, processingTimeMs: 120, usedFallback: false },
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('extractRecordedDecisions', () => {
+  test('reads successful and failed decisions from events', () => {
+    const decisions = extractRecordedDecisions([
+      createEvent(),
+      createEvent({ eventType: 'agent_moved', payload: { toX: 3, toY: 4 } }),
+      createEvent({
+        eventType: 'action_failed',
+        agentId: AGENT_B,
+        payload: { action: 'gather', params: { resourceType: 'food' }, error: 'Nothing here' },
+      }),
+    ], []);
+
+    expect(decisions.get(10)?.get(AGENT_A)).toEqual({ action: 'move', params: { toX: 3, toY: 4 }, reasoning: undefined });
+    expect(decisions.get(10)?.get(AGENT_B)?.action).toBe('gather');
+    expect(decisions.get(10)?.size).toBe(2);
+  });
+
+  test('prompt_logs only fill ticks without decision events', () => {
+    const decisions = extractRecordedDecisions([createEvent()], [
+      { tick: 10, agentId: AGENT_B, decision: { action: 'sleep' } },
+      { tick: 11, agentId: AGENT_A, decision: { action: 'work', params: { duration: 1 } } },
+      { tick: 12, agentId: AGENT_A, decision: null },
+    ]);
+
+    expect(decisions.get(10)?.has(AGENT_B)).toBe(false);
+    expect(decisions.get(11)?.get(AGENT_A)).toEqual({ action: 'work', params: { duration: 1 }, reasoning: undefined });
+    expect(decisions.has(12)).toBe(false);
+  });
+
+  test('decisions carry their plan directive through the events log and prompt_logs', () => {
+    const setGoal: PlanDirective = {
+      type: 'set_goal',
+      goal: 'Stock up on food',
+      steps: [{ description: 'Gather food', action: 'gather', params: { resourceType: 'food' } }],
+      deadlineInTicks: 50,
+    };
+    const updatePlan: PlanDirective = { type: 'update_plan', stepDone: true };
+    const recorded = createEvent({ payload: { action: 'move', params: { toX: 3, toY: 4 }, plan: setGoal } });
+    const failed = createEvent({
+      eventType: 'action_failed',
+      agentId: AGENT_B,
+      payload: { action: 'gather', params: { resourceType: 'food' }, plan: updatePlan, error: 'Nothing here' },
+    });
+
+    expect(AgentDecisionPayload.safeParse(recorded.payload).success).toBe(true);
+    expect(validateEventPayload('action_failed', failed.payload)).toEqual({ valid: true });
+
+    const decisions = extractRecordedDecisions([recorded, failed], [
+      { tick: 11, agentId: AGENT_A, decision: { action: 'sleep', params: {}, plan: updatePlan } },
+    ]);
+
+    expect(decisions.get(10)?.get(AGENT_A)?.plan).toEqual(setGoal);
+    expect(decisions.get(10)?.get(AGENT_B)?.plan).toEqual(updatePlan);
+    expect(decisions.get(11)?.get(AGENT_A)?.plan).toEqual(updatePlan);
+  });
+});
+
+describe('compareTickEvents', () => {
+  test('ignores timing and decision-source fields', () => {
+    const recorded = [createEvent()];
+    const replayed = [createEvent({ payload: { action: 'move', params: { toX: 3, toY: 4 }, processingTimeMs: 0, usedFallback: true } })];
+
+    expect(compareTickEvents(10, recorded, replayed, new Map())).toBeNull();
+    expect(normalizeEvent(recorded[0]).payload).toEqual({ action: 'move', params: { toX: 3, toY: 4 } });
+  });
+
+  test('reports the first differing value', () => {
+    const recorded = [createEvent(), createEvent({ eventType: 'agent_gathered', payload: { amount: 3 } })];
+    const replayed = [createEvent(), createEvent({ eventType: 'agent_gathered', payload: { amount: 2 } })];
+
+    const divergence = compareTickEvents(10, recorded, replayed, new Map());
+
+    expect(divergence).toMatchObject({
+      tick: 10,
+      kind: 'event',
+      path: 'events[1].payload.amount',
+      expected: 3,
+      actual: 2,
+    });
+  });
+
+  test('reports missing or extra events', () => {
+    const divergence = compareTickEvents(10, [createEvent()], [], new Map());
+
+    expect(divergence?.path).toBe('events.length');
+  });
+
+  test('learns ids minted during the replay', () => {
+    const idMap = new Map<string, string>();
+    const placed = (orderId: string) => createEvent({ eventType: 'order_placed', payload: { orderId } });
+
+    expect(compareTickEvents(10, [placed(ORDER_RECORDED)], [placed(ORDER_REPLAYED)], idMap)).toBeNull();
+    expect(idMap.get(ORDER_RECORDED)).toBe(ORDER_REPLAYED);
+
+    // The same recorded id must keep mapping to the same replayed id
+    expect(findDifference(ORDER_RECORDED, AGENT_B, idMap)).toEqual({ path: '', expected: ORDER_RECORDED, actual: AGENT_B });
+  });
+});
+
+describe('diffAgentStates', () => {
+  const agent = { id: AGENT_A, x: 1, y: 2, hunger: 80, energy: 70, health: 100, balance: 50, state: 'idle' };
+
+  test('matching agents do not diverge', () => {
+    expect(diffAgentStates(50, [agent], [{ ...agent, updatedAt: new Date() }], new Map())).toBeNull();
+  });
+
+  test('reports the first differing field', () => {
+    const divergence = diffAgentStates(50, [agent], [{ ...agent, balance: 45 }], new Map());
+
+    expect(divergence).toMatchObject({ kind: 'state', path: `agents.${AGENT_A}.balance`, expected: 50, actual: 45 });
+  });
+
+  test('follows learned ids and reports missing agents', () => {
+    const idMap = new Map([[AGENT_A, AGENT_B]]);
+
+    expect(diffAgentStates(50, [agent], [{ ...agent, id: AGENT_B }], idMap)).toBeNull();
+    expect(diffAgentStates(50, [agent], [], new Map())?.message).toContain('missing');
+  });
+});
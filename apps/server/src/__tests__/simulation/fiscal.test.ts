@@ -0,0 +1,181 @@
+/**
+ * Tests for Fiscal Policy
+ *
+ * Tests cover:
+ * - Policy validation against the configured limits
+ * - Wealth tax above the threshold, rounded down
+ * - Redistribution shares
+ * - The fiscal cycle: collection, payout and its interval
+ */
+
+import { describe, expect, test, mock, spyOn, beforeEach, afterAll } from 'bun:test';
+import type { Agent, PublicTreasury } from '../../db/schema';
+import * as ledger from '../../ledger';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// Mock database calls before importing the module
+let treasury: PublicTreasury;
+let aliveAgents: Agent[] = [];
+const treasuryTransfers: Array<{ agentId: string; direction: string; amount: number; category: string }> = [];
+
+mock.module('../../db/queries/fiscal', () => ({
+  getTreasury: async () => treasury,
+  toFiscalPolicy: (t: PublicTreasury) => ({
+    transactionTaxRate: t.transactionTaxRate,
+    wealthTaxRate: t.wealthTaxRate,
+    wealthTaxThreshold: t.wealthTaxThreshold,
+    publicWorkFunding: t.publicWorkFunding,
+    redistributionShare: t.redistributionShare,
+  }),
+}));
+
+mock.module('../../db/queries/agents', () => ({
+  getAliveAgents: async () => aliveAgents,
+}));
+
+// Spied rather than module-mocked, so mock.restore() gives the ledger tests the real one
+spyOn(ledger, 'transferWithTreasury').mockImplementation(async (_tenantId, agentId, direction, amount, category) => {
+  treasuryTransfers.push({ agentId, direction, amount, category });
+  treasury.balance += direction === 'deposit' ? amount : -amount;
+  return direction === 'deposit'
+    ? { success: true, txId: 'tx-id', entries: [], toNewBalance: treasury.balance }
+    : { success: true, txId: 'tx-id', entries: [], fromNewBalance: treasury.balance };
+});
+
+// Import after mocking
+import {
+  calculateRedistribution,
+  calculateWealthTax,
+  processFiscalTick,
+  validateFiscalPolicy,
+} from '../../simulation/fiscal';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'test-agent-id',
+    llmType: 'claude',
+    x: 50,
+    y: 50,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'idle',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createTreasury(overrides: Partial<PublicTreasury> = {}): PublicTreasury {
+  return {
+    id: 'treasury-id',
+    tenantId: null,
+    balance: 0,
+    transactionTaxRate: 0,
+    wealthTaxRate: 0,
+    wealthTaxThreshold: 100,
+    publicWorkFunding: 'mint',
+    redistributionShare: 0,
+    policySource: 'config',
+    policyUpdatedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  treasury = createTreasury();
+  aliveAgents = [];
+  treasuryTransfers.length = 0;
+});
+
+describe('validateFiscalPolicy', () => {
+  test('accepts a policy within the limits', () => {
+    expect(validateFiscalPolicy({ transactionTaxRate: 0.05, wealthTaxRate: 0.1, publicWorkFunding: 'treasury' })).toBeNull();
+  });
+
+  test('requires at least one change', () => {
+    expect(validateFiscalPolicy({})).toContain('No fiscal policy change');
+  });
+
+  test('rejects rates outside the configured limits', () => {
+    expect(validateFiscalPolicy({ transactionTaxRate: 0.9 })).toContain('transactionTaxRate');
+    expect(validateFiscalPolicy({ wealthTaxRate: -0.1 })).toContain('wealthTaxRate');
+    expect(validateFiscalPolicy({ redistributionShare: 1.5 })).toContain('redistributionShare');
+    expect(validateFiscalPolicy({ wealthTaxThreshold: -1 })).toContain('wealthTaxThreshold');
+  });
+
+  test('rejects unknown public work funding', () => {
+    expect(validateFiscalPolicy({ publicWorkFunding: 'loans' as 'mint' })).toContain('publicWorkFunding');
+  });
+});
+
+describe('calculateWealthTax', () => {
+  test('taxes only the balance above the threshold, rounded down', () => {
+    expect(calculateWealthTax(250, { wealthTaxRate: 0.1, wealthTaxThreshold: 100 })).toBe(15);
+    expect(calculateWealthTax(109, { wealthTaxRate: 0.1, wealthTaxThreshold: 100 })).toBe(0);
+  });
+
+  test('charges nothing at or below the threshold or without a rate', () => {
+    expect(calculateWealthTax(100, { wealthTaxRate: 0.1, wealthTaxThreshold: 100 })).toBe(0);
+    expect(calculateWealthTax(500, { wealthTaxRate: 0, wealthTaxThreshold: 100 })).toBe(0);
+  });
+});
+
+describe('calculateRedistribution', () => {
+  test('splits the share of the treasury equally, rounded down', () => {
+    expect(calculateRedistribution(100, 0.5, 3)).toBe(16);
+  });
+
+  test('pays nothing without a share, recipients or money', () => {
+    expect(calculateRedistribution(100, 0, 3)).toBe(0);
+    expect(calculateRedistribution(100, 0.5, 0)).toBe(0);
+    expect(calculateRedistribution(0, 0.5, 3)).toBe(0);
+  });
+});
+
+describe('processFiscalTick', () => {
+  test('only runs at the fiscal interval', async () => {
+    treasury = createTreasury({ wealthTaxRate: 0.1 });
+    aliveAgents = [createMockAgent({ balance: 500 })];
+
+    expect(await processFiscalTick(11)).toEqual([]);
+    expect(treasuryTransfers).toHaveLength(0);
+  });
+
+  test('collects the wealth tax, then redistributes the treasury', async () => {
+    treasury = createTreasury({ wealthTaxRate: 0.1, redistributionShare: 0.5 });
+    aliveAgents = [createMockAgent({ id: 'rich-id', balance: 300 }), createMockAgent({ id: 'poor-id', balance: 20 })];
+
+    const events = await processFiscalTick(10);
+
+    expect(treasuryTransfers).toEqual([
+      { agentId: 'rich-id', direction: 'deposit', amount: 20, category: 'wealth_tax' },
+      { agentId: 'rich-id', direction: 'payout', amount: 5, category: 'redistribution' },
+      { agentId: 'poor-id', direction: 'payout', amount: 5, category: 'redistribution' },
+    ]);
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('fiscal_cycle');
+    expect(events[0].payload).toMatchObject({
+      wealthTaxCollected: 20,
+      taxpayers: 1,
+      redistributed: 10,
+      recipients: 2,
+      treasuryBalance: 10,
+    });
+  });
+
+  test('emits nothing when no money moved', async () => {
+    aliveAgents = [createMockAgent()];
+
+    expect(await processFiscalTick(10)).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for Organisation Memberships of Dead Agents
+ *
+ * Tests cover:
+ * - A dead member leaves the organisation
+ * - The founder role passes on, also when several members die in one tick
+ * - An organisation whose last member died is dissolved
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Organization, OrganizationMember } from '../../db/schema';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+let org: Organization;
+let members: OrganizationMember[] = [];
+let dissolved: string[] = [];
+
+function createOrg(): Organization {
+  return {
+    id: 'org-id',
+    tenantId: null,
+    name: 'Builders',
+    founderId: 'founder',
+    treasury: 40,
+    entryFee: 0,
+    minTrust: null,
+    maxMembers: null,
+    status: 'active',
+    foundedAtTick: 10,
+    dissolvedAtTick: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+function createMember(agentId: string, role: 'founder' | 'member', joinedAtTick: number): OrganizationMember {
+  return {
+    id: `m-${agentId}`,
+    tenantId: null,
+    orgId: 'org-id',
+    agentId,
+    role,
+    status: 'active',
+    joinedAtTick,
+    leftAtTick: null,
+    createdAt: new Date(0),
+  };
+}
+
+mock.module('../../db/queries/organizations', () => ({
+  getOrganizationById: async (id: string) => (org.id === id ? org : undefined),
+  getActiveOrganizationByName: async () => undefined,
+  listOrganizations: async () => [org],
+  getActiveMembership: async (_orgId: string, agentId: string) => members.find((m) => m.agentId === agentId),
+  getActiveMembers: async () => members.filter((m) => m.status === 'active'),
+  getMembersForOrganizations: async () => members,
+  getActiveMembershipsForAgents: async (agentIds: string[]) =>
+    members.filter((m) => m.status === 'active' && agentIds.includes(m.agentId)).map((membership) => ({ membership: { ...membership }, org })),
+  countActiveMembers: async () => new Map([[org.id, members.filter((m) => m.status === 'active').length]]),
+  createOrganization: async () => org,
+  addMember: async (_org: Organization, agentId: string) => createMember(agentId, 'member', 0),
+  endMembership: async (id: string, status: string, tick: number) => {
+    const membership = members.find((m) => m.id === id && m.status === 'active');
+    if (!membership) return false;
+    membership.status = status;
+    membership.leftAtTick = tick;
+    return true;
+  },
+  transferFounder: async (_orgId: string, membership: OrganizationMember) => {
+    members.find((m) => m.id === membership.id)!.role = 'founder';
+    org.founderId = membership.agentId;
+  },
+  dissolveOrganization: async (orgId: string) => {
+    dissolved.push(orgId);
+  },
+}));
+
+import { endMembershipsOfDeadAgents } from '../../simulation/organizations';
+
+beforeEach(() => {
+  org = createOrg();
+  members = [
+    createMember('founder', 'founder', 10),
+    createMember('elder', 'member', 12),
+    createMember('newcomer', 'member', 30),
+  ];
+  dissolved = [];
+});
+
+describe('endMembershipsOfDeadAgents', () => {
+  test('a dead member leaves the organisation', async () => {
+    const events = await endMembershipsOfDeadAgents(['newcomer'], 50);
+
+    expect(members.find((m) => m.agentId === 'newcomer')).toMatchObject({ status: 'died', leftAtTick: 50 });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'org_left',
+      agentId: 'newcomer',
+      payload: { memberId: 'newcomer', role: 'member', newFounderId: null, memberCount: 2, ticksAsMember: 20, reason: 'died' },
+    });
+    expect(dissolved).toEqual([]);
+  });
+
+  test('the founder role passes to the longest-standing living member', async () => {
+    const events = await endMembershipsOfDeadAgents(['founder', 'elder'], 50);
+
+    expect(org.founderId).toBe('newcomer');
+    expect(events.map((e) => e.payload.newFounderId)).toEqual(['elder', 'newcomer']);
+    expect(dissolved).toEqual([]);
+  });
+
+  test('an organisation whose last member died is dissolved', async () => {
+    const events = await endMembershipsOfDeadAgents(['founder', 'elder', 'newcomer'], 50);
+
+    expect(events.map((e) => e.type)).toEqual(['org_left', 'org_left', 'org_left', 'org_dissolved']);
+    expect(events[3].payload).toMatchObject({ orgId: 'org-id', ticksActive: 40, treasuryPayout: 0 });
+    expect(dissolved).toEqual(['org-id']);
+  });
+});
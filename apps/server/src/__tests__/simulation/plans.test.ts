@@ -0,0 +1,213 @@
+/**
+ * Tests for Agent Plans (set_goal / update_plan)
+ *
+ * Tests cover:
+ * - set_goal replaces the active plan and clamps the deadline
+ * - update_plan: step done, replaced steps, completion and abandonment
+ * - Progress: a successful action matching the current step completes it
+ * - Deadlines: overdue plans of the loop's agents are abandoned
+ * - Lizard brain: routine steps run without the LLM unless attention is needed
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { AgentPlan, NewAgentPlan } from '../../db/schema';
+import type { AgentObservation } from '../../llm/types';
+import { CONFIG } from '../../config';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+let activePlan: AgentPlan | undefined;
+let overduePlans: AgentPlan[] = [];
+const createdPlans: NewAgentPlan[] = [];
+const endedPlans: { id: string; status: string; reason: string | null }[] = [];
+const savedSteps: { id: string; currentStep: number }[] = [];
+
+// Mock database calls before importing the module
+mock.module('../../db/queries/plans', () => ({
+  getActivePlan: async () => activePlan,
+  getOverduePlans: async () => overduePlans,
+  createAgentPlan: async (plan: NewAgentPlan) => {
+    createdPlans.push(plan);
+    return { ...createPlan(), ...plan, id: 'new-plan' };
+  },
+  endAgentPlan: async (id: string, status: string, _tick: number, reason: string | null = null) => {
+    endedPlans.push({ id, status, reason });
+    return true;
+  },
+  updatePlanSteps: async (id: string, _steps: unknown, currentStep: number) => {
+    savedSteps.push({ id, currentStep });
+  },
+}));
+
+// Import after mocking
+import { applyPlanDirective, expireOverduePlans, recordPlanProgress, toCurrentPlan } from '../../simulation/plans';
+import { tryLizardBrain, tryPlanStep } from '../../llm/lizard-brain';
+
+const agent = { id: 'agent-1', tenantId: null };
+
+function createPlan(overrides: Partial<AgentPlan> = {}): AgentPlan {
+  return {
+    id: 'plan-1',
+    tenantId: null,
+    agentId: 'agent-1',
+    goal: 'Build a storage',
+    steps: [
+      { description: 'Go to the site', action: 'travel_to', params: { toX: 9, toY: 9 }, done: false },
+      { description: 'Collect material', done: false },
+    ],
+    currentStep: 0,
+    status: 'active',
+    endReason: null,
+    deadlineTick: 200,
+    createdAtTick: 100,
+    updatedAtTick: 100,
+    endedAtTick: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+function createObservation(overrides: Partial<AgentObservation> = {}): AgentObservation {
+  return {
+    tick: 120,
+    timestamp: 0,
+    self: { id: 'agent-1', x: 5, y: 5, hunger: 80, energy: 80, health: 100, balance: 100, state: 'idle' },
+    nearbyAgents: [{ id: 'agent-2', x: 6, y: 5, state: 'idle' }],
+    nearbyLocations: [],
+    availableActions: [],
+    recentEvents: [],
+    inventory: [],
+    currentPlan: toCurrentPlan(createPlan()),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  activePlan = undefined;
+  overduePlans = [];
+  createdPlans.length = 0;
+  endedPlans.length = 0;
+  savedSteps.length = 0;
+});
+
+describe('applyPlanDirective', () => {
+  test('set_goal replaces the active plan and clamps the deadline', async () => {
+    activePlan = createPlan();
+
+    const result = await applyPlanDirective(agent, {
+      type: 'set_goal',
+      goal: 'Stock up on food',
+      steps: [{ description: 'Gather food', action: 'gather', params: { resourceType: 'food', quantity: 3 } }],
+      deadlineInTicks: 10_000,
+    }, 150);
+
+    expect(endedPlans).toEqual([{ id: 'plan-1', status: 'abandoned', reason: 'replaced' }]);
+    expect(result.events.map((e) => [e.type, e.payload.reason])).toEqual([['plan_abandoned', 'replaced']]);
+    expect(createdPlans[0]).toMatchObject({
+      goal: 'Stock up on food',
+      deadlineTick: 150 + CONFIG.plans.maxDeadlineTicks,
+      steps: [{ description: 'Gather food', action: 'gather', done: false }],
+    });
+    expect(result.plan?.id).toBe('new-plan');
+  });
+
+  test('update_plan marks steps done and completes the plan after the last one', async () => {
+    activePlan = createPlan({ currentStep: 1, steps: createPlan().steps.map((s, i) => ({ ...s, done: i === 0 })) });
+
+    const result = await applyPlanDirective(agent, { type: 'update_plan', stepDone: true }, 130);
+
+    expect(endedPlans).toEqual([{ id: 'plan-1', status: 'completed', reason: null }]);
+    expect(result.plan).toBeNull();
+    expect(result.events[0]).toMatchObject({
+      type: 'plan_completed',
+      payload: { planId: 'plan-1', stepsCompleted: 2, totalSteps: 2, ticksActive: 30 },
+    });
+  });
+
+  test('update_plan replaces the remaining steps and keeps the plan active', async () => {
+    activePlan = createPlan();
+
+    const result = await applyPlanDirective(agent, {
+      type: 'update_plan',
+      stepDone: true,
+      steps: [{ description: 'Trade for material' }],
+    }, 130);
+
+    expect(result.events).toEqual([]);
+    expect(result.plan?.steps.map((s) => [s.description, s.done])).toEqual([
+      ['Go to the site', true],
+      ['Trade for material', false],
+    ]);
+    expect(savedSteps).toEqual([{ id: 'plan-1', currentStep: 1 }]);
+  });
+
+  test('update_plan abandons with the agent reason and ignores agents without a plan', async () => {
+    expect(await applyPlanDirective(agent, { type: 'update_plan', status: 'abandoned' }, 130)).toEqual({ plan: null, events: [] });
+
+    activePlan = createPlan();
+    const result = await applyPlanDirective(agent, { type: 'update_plan', status: 'abandoned', reason: 'site taken' }, 130);
+
+    expect(endedPlans).toEqual([{ id: 'plan-1', status: 'abandoned', reason: 'site taken' }]);
+    expect(result.events[0].payload).toMatchObject({ reason: 'site taken', stepsCompleted: 0 });
+  });
+});
+
+describe('recordPlanProgress', () => {
+  test('completes the current step when its action succeeds', async () => {
+    const plan = createPlan();
+
+    expect(await recordPlanProgress(plan, 'agent-1', 'move', true, 110)).toBeNull();
+    expect(await recordPlanProgress(plan, 'agent-1', 'travel_to', false, 110)).toBeNull();
+    expect(savedSteps).toEqual([]);
+
+    expect(await recordPlanProgress(plan, 'agent-1', 'travel_to', true, 110)).toBeNull();
+    expect(savedSteps).toEqual([{ id: 'plan-1', currentStep: 1 }]);
+  });
+});
+
+describe('expireOverduePlans', () => {
+  test('abandons overdue plans of this loop only', async () => {
+    overduePlans = [createPlan(), createPlan({ id: 'plan-2', agentId: 'other-world-agent' })];
+
+    const events = await expireOverduePlans(201, [{ id: 'agent-1' }]);
+
+    expect(endedPlans).toEqual([{ id: 'plan-1', status: 'abandoned', reason: 'deadline_passed' }]);
+    expect(events.map((e) => e.type)).toEqual(['plan_abandoned']);
+  });
+});
+
+describe('lizard brain plan steps', () => {
+  test('runs a routine step without the LLM', () => {
+    const result = tryPlanStep(createObservation());
+
+    expect(result.handled).toBe(true);
+    expect(result.reason).toBe('plan_step');
+    expect(result.decision).toMatchObject({ action: 'travel_to', params: { toX: 9, toY: 9 } });
+    expect(tryLizardBrain(createObservation()).reason).toBe('plan_step');
+  });
+
+  test('leaves free-form steps, danger and waiting trades to the agent', () => {
+    const freeForm = toCurrentPlan(createPlan({ currentStep: 1 }));
+    const hungry = { id: 'agent-1', x: 5, y: 5, hunger: 10, energy: 80, health: 100, balance: 100, state: 'idle' };
+
+    expect(tryPlanStep(createObservation({ currentPlan: freeForm })).handled).toBe(false);
+    expect(tryPlanStep(createObservation({ self: hungry })).handled).toBe(false);
+    expect(tryPlanStep(createObservation({
+      incomingTradeProposals: [{
+        id: 'p1', proposerId: 'agent-2', targetId: 'agent-1', offeringItemType: 'food', offeringQuantity: 1,
+        requestingItemType: 'material', requestingQuantity: 1, expiresAtTick: 130, isCounterOffer: false,
+      }],
+    })).handled).toBe(false);
+  });
+
+  test('hands a step back to the agent after it failed', () => {
+    const failed = { type: 'action_failed', tick: 119, description: 'ACTION FAILED: travel_to - Blocked' };
+    const earlier = { ...failed, tick: 110 };
+
+    expect(tryPlanStep(createObservation({ recentEvents: [failed] })).handled).toBe(false);
+    expect(tryLizardBrain(createObservation({ recentEvents: [failed] })).reason).not.toBe('plan_step');
+    expect(tryPlanStep(createObservation({ recentEvents: [earlier] })).handled).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for Travel (travel_to journeys)
+ *
+ * Tests cover:
+ * - Next step follows the A* path
+ * - Arrival detection
+ * - Interruptions: critical needs, damage, blocked path, timeout
+ * - Step bookkeeping after the orchestrator executes the move
+ */
+
+import { describe, expect, test, mock, beforeEach, afterAll } from 'bun:test';
+import type { Agent, TravelPlan } from '../../db/schema';
+import type { GridCell } from '../../world/grid';
+import { CONFIG } from '../../config';
+
+// Restore mocks after all tests to not affect other test files
+afterAll(() => mock.restore());
+
+// Mock database calls before importing the module
+const mockEndTravelPlan = mock(() => Promise.resolve(true));
+const mockRecordTravelStep = mock(() => Promise.resolve());
+
+mock.module('../../db/queries/travel', () => ({
+  getActiveTravelPlans: mock(() => Promise.resolve([])),
+  endTravelPlan: mockEndTravelPlan,
+  recordTravelStep: mockRecordTravelStep,
+}));
+
+// Import after mocking
+import { planTravelStep, completeTravelStep } from '../../simulation/travel';
+
+function createMockAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'test-agent-id',
+    llmType: 'claude',
+    x: 10,
+    y: 10,
+    hunger: 80,
+    energy: 80,
+    health: 100,
+    balance: 100,
+    state: 'walking',
+    color: '#ff0000',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    diedAt: null,
+    tenantId: null,
+    personality: null,
+    ...overrides,
+  };
+}
+
+function createPlan(overrides: Partial<TravelPlan> = {}): TravelPlan {
+  return {
+    id: 'plan-id',
+    tenantId: null,
+    agentId: 'test-agent-id',
+    fromX: 5,
+    fromY: 10,
+    toX: 15,
+    toY: 10,
+    status: 'active',
+    endReason: null,
+    stepsTaken: 5,
+    healthAtLastStep: 100,
+    startedAtTick: 100,
+    lastStepTick: 104,
+    endedAtTick: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const openGround = (x: number, y: number): GridCell => ({ x, y, terrain: 'ground', walkable: true });
+
+beforeEach(() => {
+  mockEndTravelPlan.mockClear();
+  mockRecordTravelStep.mockClear();
+});
+
+describe('planTravelStep', () => {
+  test('steps along the path towards the destination', () => {
+    const step = planTravelStep(createPlan(), createMockAgent(), 105, openGround);
+    expect(step).toEqual({ kind: 'step', next: { x: 11, y: 10 }, remainingTiles: 5 });
+  });
+
+  test('detects arrival', () => {
+    const step = planTravelStep(createPlan(), createMockAgent({ x: 15, y: 10 }), 105, openGround);
+    expect(step.kind).toBe('arrived');
+  });
+
+  test('interrupts on critical hunger', () => {
+    const agent = createMockAgent({ hunger: CONFIG.needs.criticalHungerThreshold - 1 });
+    expect(planTravelStep(createPlan(), agent, 105, openGround)).toEqual({
+      kind: 'interrupted',
+      reason: 'critical_hunger',
+    });
+  });
+
+  test('interrupts on critical energy', () => {
+    const agent = createMockAgent({ energy: CONFIG.needs.criticalEnergyThreshold - 1 });
+    expect(planTravelStep(createPlan(), agent, 105, openGround)).toEqual({
+      kind: 'interrupted',
+      reason: 'critical_energy',
+    });
+  });
+
+  test('interrupts when health dropped since the last step', () => {
+    const agent = createMockAgent({ health: 90 });
+    expect(planTravelStep(createPlan(), agent, 105, openGround)).toEqual({
+      kind: 'interrupted',
+      reason: 'took_damage',
+    });
+  });
+
+  test('interrupts when the destination becomes unreachable', () => {
+    const blocked = (x: number, y: number): GridCell =>
+      x === 15 && y === 10 ? { x, y, terrain: 'building', walkable: false } : openGround(x, y);
+    expect(planTravelStep(createPlan(), createMockAgent(), 105, blocked)).toEqual({
+      kind: 'interrupted',
+      reason: 'path_blocked',
+    });
+  });
+
+  test('interrupts after the maximum travel time', () => {
+    const tick = 100 + CONFIG.actions.travel.maxTicks;
+    expect(planTravelStep(createPlan(), createMockAgent(), tick, openGround)).toEqual({
+      kind: 'interrupted',
+      reason: 'timeout',
+    });
+  });
+});
+
+describe('completeTravelStep', () => {
+  test('records progress while still travelling', async () => {
+    const event = await completeTravelStep(createPlan(), createMockAgent({ x: 11, health: 99 }), 105, true);
+    expect(event).toBeNull();
+    expect(mockRecordTravelStep).toHaveBeenCalledWith('plan-id', 105, 99, 6);
+  });
+
+  test('ends the plan on arrival', async () => {
+    const event = await completeTravelStep(createPlan(), createMockAgent({ x: 15 }), 105, true);
+    expect(event?.type).toBe('agent_travel_arrived');
+    expect(event?.payload.stepsTaken).toBe(6);
+    expect(mockEndTravelPlan).toHaveBeenCalledWith('plan-id', 'arrived', 105);
+  });
+
+  test('interrupts the plan when the step fails', async () => {
+    const event = await completeTravelStep(createPlan(), createMockAgent(), 105, false);
+    expect(event?.type).toBe('agent_travel_interrupted');
+    expect(event?.payload.reason).toBe('step_failed');
+    expect(mockEndTravelPlan).toHaveBeenCalledWith('plan-id', 'interrupted', 105, 'step_failed');
+  });
+});
@@ -4,7 +4,7 @@
  * Tests pure functions for grid operations:
  * - Position validation
  * - Distance calculations
- * - Path finding
+ * - Path finding (A* with terrain costs)
  * - Visibility calculations
  */
 
@@ -18,9 +18,16 @@ import {
   getMovementCost,
   isValidMove,
   getPath,
+  findPath,
+  getPathCost,
+  getStepCost,
+  TERRAIN_MOVE_COST,
+  type CellLookup,
   getAgentsAtPosition,
   getVisibleAgents,
 } from '../../world/grid';
+import { setTerrain, clearTerrain, resetTerrain, getCell, WATER_BODIES } from '../../world/terrain';
+import type { GridCell } from '../../world/grid';
 import type { Agent } from '../../db/schema';
 
 describe('isValidPosition', () => {
@@ -213,6 +220,89 @@ describe('getPath', () => {
   });
 });
 
+describe('findPath', () => {
+  // Build a lookup from a sparse map of "x,y" -> terrain
+  const terrainLookup = (cells: Record<string, GridCell['terrain']>): CellLookup => (x, y) => {
+    const terrain = cells[`${x},${y}`] ?? 'ground';
+    return { x, y, terrain, walkable: terrain !== 'building' };
+  };
+
+  test('routes around a wall of buildings', () => {
+    // Vertical wall at x=5 from y=0..8, gap at y=9
+    const wall: Record<string, GridCell['terrain']> = {};
+    for (let y = 0; y <= 8; y++) wall[`5,${y}`] = 'building';
+
+    const path = findPath({ x: 3, y: 0 }, { x: 7, y: 0 }, terrainLookup(wall));
+    expect(path[path.length - 1]).toEqual({ x: 7, y: 0 });
+    expect(path.some((p) => wall[`${p.x},${p.y}`])).toBe(false);
+    expect(path).toContainEqual({ x: 5, y: 9 });
+    expect(path).toHaveLength(4 + 2 * 9);
+  });
+
+  test('prefers a ground detour over expensive water', () => {
+    // Three water tiles straight ahead (cost 9), one-row ground bypass (cost 6)
+    const lake: Record<string, GridCell['terrain']> = { '11,10': 'water', '12,10': 'water', '13,10': 'water' };
+    const lookup = terrainLookup(lake);
+
+    const path = findPath({ x: 10, y: 10 }, { x: 14, y: 10 }, lookup);
+    expect(path.some((p) => lake[`${p.x},${p.y}`])).toBe(false);
+    expect(getPathCost(path, lookup)).toBe(6);
+  });
+
+  test('crosses water when the detour is more expensive', () => {
+    const lake: Record<string, GridCell['terrain']> = {
+      '11,10': 'water',
+      '11,9': 'building',
+      '11,11': 'building',
+    };
+    const lookup = terrainLookup(lake);
+
+    const path = findPath({ x: 10, y: 10 }, { x: 12, y: 10 }, lookup);
+    expect(path).toEqual([{ x: 11, y: 10 }, { x: 12, y: 10 }]);
+    expect(getPathCost(path, lookup)).toBe(4);
+  });
+
+  test('returns empty when destination is blocked', () => {
+    const path = findPath({ x: 0, y: 0 }, { x: 3, y: 0 }, terrainLookup({ '3,0': 'building' }));
+    expect(path).toHaveLength(0);
+  });
+
+  test('returns empty when destination is enclosed', () => {
+    const walls = terrainLookup({ '9,10': 'building', '11,10': 'building', '10,9': 'building', '10,11': 'building' });
+    expect(findPath({ x: 0, y: 0 }, { x: 10, y: 10 }, walls)).toHaveLength(0);
+  });
+
+  test('returns empty for out-of-bounds destination', () => {
+    expect(findPath({ x: 0, y: 0 }, { x: -1, y: 0 })).toHaveLength(0);
+  });
+
+  test('getPath uses the shared terrain map', () => {
+    try {
+      setTerrain(1, 0, 'building');
+      const path = getPath({ x: 0, y: 0 }, { x: 2, y: 0 });
+      expect(path).not.toContainEqual({ x: 1, y: 0 });
+      expect(path[path.length - 1]).toEqual({ x: 2, y: 0 });
+    } finally {
+      clearTerrain();
+    }
+  });
+
+  test('the shared map holds natural water that survives a reset', () => {
+    const [river] = WATER_BODIES;
+    const cell = { x: river.x[0], y: river.y[0] };
+    try {
+      setTerrain(cell.x, cell.y, 'building');
+      expect(getCell(cell.x, cell.y).terrain).toBe('building');
+      resetTerrain(cell.x, cell.y);
+      expect(getCell(cell.x, cell.y).terrain).toBe('water');
+      clearTerrain();
+      expect(getStepCost(getCell(cell.x, cell.y))).toBe(TERRAIN_MOVE_COST.water);
+    } finally {
+      clearTerrain();
+    }
+  });
+});
+
 describe('getAgentsAtPosition', () => {
   const createMockAgent = (id: string, x: number, y: number, state = 'idle'): Agent => ({
     id,
@@ -20,8 +20,9 @@ import {
   updateJobOfferStatus,
   createEmployment,
 } from '../../db/queries/employment';
-import { getAgentById, updateAgentBalance } from '../../db/queries/agents';
+import { getAgentById } from '../../db/queries/agents';
 import { storeMemory, updateRelationshipTrust } from '../../db/queries/memories';
+import { payFromEscrow } from '../../ledger';
 
 export async function handleAcceptJob(
   intent: ActionIntent<AcceptJobParams>,
@@ -93,11 +94,21 @@ export async function handleAcceptJob(
 
   // Handle payment based on type
   let workerBalanceChange = 0;
+  let tax = 0;
   if (jobOffer.paymentType === 'upfront') {
     // Transfer full salary to worker immediately
     // The escrow (full salary) was already deducted from employer when offer was created
-    workerBalanceChange = jobOffer.salary;
-    await updateAgentBalance(agent.id, agent.balance + workerBalanceChange);
+    const payment = await payFromEscrow(
+      employer.id,
+      agent.id,
+      jobOffer.salary,
+      intent.tick,
+      `Upfront payment from ${employer.id.slice(0, 8)}`
+    );
+    if (payment.success) {
+      workerBalanceChange = (payment.toNewBalance ?? agent.balance + jobOffer.salary) - agent.balance;
+      tax = payment.taxPaid ?? 0;
+    }
   }
 
   // Store memories for both parties
@@ -154,7 +165,8 @@ export async function handleAcceptJob(
           duration: jobOffer.duration,
           paymentType: jobOffer.paymentType,
           escrowAmount: jobOffer.escrowAmount,
-          upfrontPayment: workerBalanceChange > 0 ? workerBalanceChange : undefined,
+          upfrontPayment: workerBalanceChange > 0 ? jobOffer.salary : undefined,
+          tax: tax > 0 ? tax : undefined, // Transaction tax the worker paid on the upfront payment
         },
       },
     ],
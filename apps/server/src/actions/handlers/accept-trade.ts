@@ -0,0 +1,163 @@
+/**
+ * Accept Trade Action Handler
+ *
+ * Second phase of a consent-based trade. Only the target of an open proposal
+ * can accept it; the exchange executes on the exact agreed terms.
+ *
+ * Flow:
+ * 1. Validate proposal exists, is open, unexpired and addressed to this agent
+ * 2. Validate proposer is alive and still nearby
+ * 3. Mark proposal accepted and swap items in one transaction
+ * 4. Update trust and memories for both parties
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, AcceptTradeParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { getAgentById } from '../../db/queries/agents';
+import {
+  getTradeProposalById,
+  updateTradeProposalStatus,
+} from '../../db/queries/trade-proposals';
+import { updateRelationshipTrust, storeMemory } from '../../db/queries/memories';
+import { getDistance } from '../../world/grid';
+import { CONFIG } from '../../config';
+import { executeItemExchange } from './trade';
+
+export async function handleAcceptTrade(
+  intent: ActionIntent<AcceptTradeParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { proposalId } = intent.params;
+
+  const proposal = await getTradeProposalById(proposalId);
+  if (!proposal) {
+    return { success: false, error: `Trade proposal not found: ${proposalId}` };
+  }
+
+  if (proposal.targetId !== agent.id) {
+    return { success: false, error: 'This trade proposal is not addressed to you' };
+  }
+
+  if (proposal.status !== 'open') {
+    return {
+      success: false,
+      error: `Trade proposal is no longer open (status: ${proposal.status})`,
+    };
+  }
+
+  if (intent.tick > proposal.expiresAtTick) {
+    await updateTradeProposalStatus(proposalId, 'expired', intent.tick);
+    return { success: false, error: 'Trade proposal has expired' };
+  }
+
+  const proposer = await getAgentById(proposal.proposerId);
+  if (!proposer || proposer.state === 'dead') {
+    await updateTradeProposalStatus(proposalId, 'expired', intent.tick);
+    return { success: false, error: 'Proposer is no longer available' };
+  }
+
+  const distance = getDistance(
+    { x: agent.x, y: agent.y },
+    { x: proposer.x, y: proposer.y }
+  );
+  if (distance > CONFIG.actions.trade.maxDistance) {
+    return {
+      success: false,
+      error: `Proposer is too far (distance: ${distance}, max: ${CONFIG.actions.trade.maxDistance})`,
+    };
+  }
+
+  // Proposer is the initiator: their offered items move to us, our items move to them
+  const tradeError = await executeItemExchange({
+    initiatorId: proposer.id,
+    targetId: agent.id,
+    offeringItemType: proposal.offeringItemType,
+    offeringQuantity: proposal.offeringQuantity,
+    requestingItemType: proposal.requestingItemType,
+    requestingQuantity: proposal.requestingQuantity,
+    proposalId,
+    tick: intent.tick,
+  });
+
+  if (tradeError) {
+    // Proposal stays open - either side may still acquire the items before expiry
+    return { success: false, error: tradeError };
+  }
+
+  const summary = `${proposal.offeringQuantity}x ${proposal.offeringItemType} for ${proposal.requestingQuantity}x ${proposal.requestingItemType}`;
+
+  await updateRelationshipTrust(
+    agent.id,
+    proposer.id,
+    CONFIG.actions.trade.trustGainOnSuccess,
+    intent.tick,
+    `Accepted trade proposal: ${summary}`
+  );
+  await updateRelationshipTrust(
+    proposer.id,
+    agent.id,
+    CONFIG.actions.trade.trustGainOnSuccess,
+    intent.tick,
+    `Trade proposal accepted: ${summary}`
+  );
+
+  await storeMemory({
+    agentId: agent.id,
+    type: 'interaction',
+    content: `Accepted ${proposer.id.slice(0, 8)}'s trade: received ${proposal.offeringQuantity}x ${proposal.offeringItemType}, gave ${proposal.requestingQuantity}x ${proposal.requestingItemType}.`,
+    importance: 6,
+    emotionalValence: 0.5,
+    involvedAgentIds: [proposer.id],
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  await storeMemory({
+    agentId: proposer.id,
+    type: 'interaction',
+    content: `${agent.id.slice(0, 8)} accepted my trade: gave ${proposal.offeringQuantity}x ${proposal.offeringItemType}, received ${proposal.requestingQuantity}x ${proposal.requestingItemType}.`,
+    importance: 6,
+    emotionalValence: 0.5,
+    involvedAgentIds: [agent.id],
+    x: proposer.x,
+    y: proposer.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'agent_trade_accepted',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId,
+          proposerId: proposer.id,
+          targetId: agent.id,
+          parentProposalId: proposal.parentProposalId,
+        },
+      },
+      // Completed exchange (same shape as direct trade, for analytics and UI)
+      {
+        id: uuid(),
+        type: 'agent_traded',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: proposer.id,
+        payload: {
+          initiatorId: proposer.id,
+          targetId: agent.id,
+          proposalId,
+          position: { x: agent.x, y: agent.y },
+          offered: { itemType: proposal.offeringItemType, quantity: proposal.offeringQuantity },
+          received: { itemType: proposal.requestingItemType, quantity: proposal.requestingQuantity },
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Build Action Handler
+ *
+ * One tick of work on a structure at the agent's position (blueprints in
+ * CONFIG.actions.build.structures). Each tick consumes the blueprint's
+ * materialsPerTick and energyCostPerTick:
+ * - empty cell: starts a construction site owned by the builder
+ * - site of the same type: adds progress (anyone can help; ownership stays)
+ * - completed structure of the same type: repairs it (restores condition)
+ *
+ * Completion effects and decay live in simulation/structures.ts.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, BuildParams } from '../types';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { Agent, Structure } from '../../db/schema';
+import { getInventoryItem, removeFromInventory } from '../../db/queries/inventory';
+import {
+  createStructure,
+  getActiveStructureAtPosition,
+  recordStructureWork,
+} from '../../db/queries/structures';
+import { getDominantClaim } from '../../db/queries/claims';
+import { storeMemory } from '../../db/queries/memories';
+import { finishConstruction } from '../../simulation/structures';
+import { CONFIG } from '../../config';
+
+function addMaterials(used: Record<string, number>, added: Record<string, number>): Record<string, number> {
+  const total = { ...used };
+  for (const [itemType, quantity] of Object.entries(added)) {
+    total[itemType] = (total[itemType] ?? 0) + quantity;
+  }
+  return total;
+}
+
+export async function handleBuild(
+  intent: ActionIntent<BuildParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { structureType } = intent.params;
+  const { structures: blueprints, energyCostPerTick, repairPerTick } = CONFIG.actions.build;
+
+  // Validate structure type
+  const blueprint = blueprints[structureType];
+  if (!blueprint) {
+    return {
+      success: false,
+      error: `Unknown structure type: ${structureType}. Buildable: ${Object.keys(blueprints).join(', ')}`,
+    };
+  }
+
+  // Check energy
+  if (agent.energy < energyCostPerTick) {
+    return {
+      success: false,
+      error: `Not enough energy to build: need ${energyCostPerTick}, have ${agent.energy}`,
+    };
+  }
+
+  // One active structure per cell
+  const existing = await getActiveStructureAtPosition(agent.x, agent.y);
+  if (existing && existing.structureType !== structureType) {
+    return {
+      success: false,
+      error: `(${agent.x}, ${agent.y}) already has a ${existing.structureType} - demolish it first`,
+    };
+  }
+
+  // Check materials for this tick of work
+  for (const [itemType, quantity] of Object.entries(blueprint.materialsPerTick)) {
+    const item = await getInventoryItem(agent.id, itemType);
+    const have = item?.quantity ?? 0;
+    if (have < quantity) {
+      return {
+        success: false,
+        error: `Missing ${itemType} to build ${structureType}: need ${quantity} per tick, have ${have}`,
+      };
+    }
+  }
+
+  for (const [itemType, quantity] of Object.entries(blueprint.materialsPerTick)) {
+    await removeFromInventory(agent.id, itemType, quantity);
+  }
+
+  const changes = { energy: agent.energy - energyCostPerTick };
+  const events: WorldEvent[] = [];
+  const basePayload = {
+    structureType,
+    x: agent.x,
+    y: agent.y,
+    materials: blueprint.materialsPerTick,
+    energyCost: energyCostPerTick,
+  };
+
+  // Start a new construction site
+  let structure: Structure;
+  if (!existing) {
+    const claim = await getDominantClaim(agent.x, agent.y);
+    const claimOwnerId = claim && claim.agentId !== agent.id ? claim.agentId : null;
+
+    structure = await createStructure({
+      tenantId: agent.tenantId,
+      structureType,
+      x: agent.x,
+      y: agent.y,
+      ownerAgentId: agent.id,
+      buildProgress: 1,
+      buildTicksRequired: blueprint.ticks,
+      materialsUsed: blueprint.materialsPerTick,
+      startedAtTick: intent.tick,
+      lastMaintainedTick: intent.tick,
+    });
+
+    events.push({
+      id: uuid(),
+      type: 'structure_construction_started',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        ...basePayload,
+        structureId: structure.id,
+        progress: 1,
+        ticksRequired: blueprint.ticks,
+        claimOwnerId,
+      },
+    });
+
+    await storeMemory({
+      agentId: agent.id,
+      type: 'action',
+      content: claimOwnerId
+        ? `Started building a ${structureType} at (${agent.x}, ${agent.y}), on ground someone else has claimed.`
+        : `Started building a ${structureType} at (${agent.x}, ${agent.y}).`,
+      importance: 5,
+      emotionalValence: 0.3,
+      x: agent.x,
+      y: agent.y,
+      tick: intent.tick,
+    });
+  } else if (existing.status === 'under_construction') {
+    // Add a tick of work to the site (helping someone else build is allowed)
+    structure = {
+      ...existing,
+      buildProgress: existing.buildProgress + 1,
+      condition: Math.min(100, existing.condition + repairPerTick),
+      materialsUsed: addMaterials(existing.materialsUsed, blueprint.materialsPerTick),
+    };
+    await recordStructureWork(structure.id, { ...structure, tick: intent.tick });
+
+    events.push({
+      id: uuid(),
+      type: 'structure_build_progress',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        ...basePayload,
+        structureId: structure.id,
+        ownerAgentId: structure.ownerAgentId,
+        progress: structure.buildProgress,
+        ticksRequired: structure.buildTicksRequired,
+      },
+    });
+  } else {
+    // Maintain a completed structure
+    const conditionBefore = existing.condition;
+    structure = {
+      ...existing,
+      condition: Math.min(100, existing.condition + repairPerTick),
+      materialsUsed: addMaterials(existing.materialsUsed, blueprint.materialsPerTick),
+    };
+    await recordStructureWork(structure.id, { ...structure, tick: intent.tick });
+
+    events.push({
+      id: uuid(),
+      type: 'structure_repaired',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        ...basePayload,
+        structureId: structure.id,
+        ownerAgentId: structure.ownerAgentId,
+        conditionBefore,
+        conditionAfter: structure.condition,
+      },
+    });
+
+    return { success: true, changes, events };
+  }
+
+  // Complete the structure once enough work is done
+  if (structure.buildProgress >= structure.buildTicksRequired) {
+    const { shelterId } = await finishConstruction(structure, intent.tick);
+
+    events.push({
+      id: uuid(),
+      type: 'structure_completed',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        structureId: structure.id,
+        structureType,
+        x: structure.x,
+        y: structure.y,
+        ownerAgentId: structure.ownerAgentId,
+        materialsUsed: structure.materialsUsed,
+        startedAtTick: structure.startedAtTick,
+        shelterId,
+      },
+    });
+
+    await storeMemory({
+      agentId: agent.id,
+      type: 'action',
+      content: structure.ownerAgentId === agent.id
+        ? `Finished building my ${structureType} at (${structure.x}, ${structure.y}). It needs upkeep or it will fall apart.`
+        : `Helped finish a ${structureType} at (${structure.x}, ${structure.y}) that belongs to someone else.`,
+      importance: 7,
+      emotionalValence: 0.6,
+      x: agent.x,
+      y: agent.y,
+      tick: intent.tick,
+    });
+  }
+
+  return { success: true, changes, events };
+}
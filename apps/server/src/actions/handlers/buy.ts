@@ -2,7 +2,8 @@
  * Buy Action Handler
  *
  * Purchase items using CITY currency.
- * Requires being at a shelter (trading post).
+ * Requires being at a shelter (trading post). Prices are scaled by the
+ * shelter's priceMultiplier, which shelter_price proposals can change.
  *
  * Cost: CITY currency
  */
@@ -14,6 +15,7 @@ import { addToInventory } from '../../db/queries/inventory';
 import { getSheltersAtPosition } from '../../db/queries/world';
 import { storeMemory, getAgentRelationships } from '../../db/queries/memories';
 import { CONFIG } from '../../config';
+import { random } from '../../utils/random';
 
 // Item prices (MVP: simple fixed prices)
 const ITEM_PRICES: Record<string, number> = {
@@ -28,6 +30,7 @@ export const ITEM_EFFECTS: Record<string, { hunger?: number; energy?: number; he
   food: { hunger: 30 },
   water: { energy: 10 },
   medicine: { health: 30 },
+  ration: { hunger: 40, energy: 20 }, // Crafted only (see craft.ts)
 };
 
 export async function handleBuy(
@@ -71,24 +74,25 @@ export async function handleBuy(
     }
   }
 
-  // Calculate total cost with trust modifier
-  const price = Math.round(basePrice * trustMultiplier);
-  const totalCost = price * quantity;
-
-  // Check if agent has enough money
-  if (agent.balance < totalCost) {
+  // Check if agent is at a shelter (required for buying - shelters are trading posts)
+  const sheltersHere = await getSheltersAtPosition(agent.x, agent.y);
+  if (sheltersHere.length === 0) {
     return {
       success: false,
-      error: `Not enough money: need ${totalCost} CITY, have ${agent.balance}`,
+      error: `Must be at a shelter to buy items. Current position: (${agent.x}, ${agent.y})`,
     };
   }
 
-  // Check if agent is at a shelter (required for buying - shelters are trading posts)
-  const sheltersHere = await getSheltersAtPosition(agent.x, agent.y);
-  if (sheltersHere.length === 0) {
+  // Calculate total cost with trust modifier and the shelter's price multiplier (set by governance)
+  const shelterMultiplier = sheltersHere[0].priceMultiplier ?? 1;
+  const price = Math.round(basePrice * trustMultiplier * shelterMultiplier);
+  const totalCost = price * quantity;
+
+  // Check if agent has enough money
+  if (agent.balance < totalCost) {
     return {
       success: false,
-      error: `Must be at a shelter to buy items. Current position: (${agent.x}, ${agent.y})`,
+      error: `Not enough money: need ${totalCost} CITY, have ${agent.balance}`,
     };
   }
 
@@ -105,7 +109,7 @@ export async function handleBuy(
   }
 
   // Check for transaction failure (simulates market instability)
-  if (Math.random() < shelterFailureRate) {
+  if (random() < shelterFailureRate) {
     // Transaction failed - still costs energy
     const newEnergy = agent.energy - shelterEnergyCost;
 
@@ -163,6 +167,7 @@ export async function handleBuy(
           quantity,
           basePrice,
           unitPrice: price,
+          shelterPriceMultiplier: shelterMultiplier,
           totalCost,
           newBalance: agent.balance - totalCost,
           trustDiscount: Math.round((1 - trustMultiplier) * 100),
@@ -0,0 +1,57 @@
+/**
+ * Cancel Order Action Handler
+ *
+ * Withdraw one of the agent's open market orders. The unfilled part of an
+ * ask comes back out of escrow. Can be done from anywhere.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, CancelOrderParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { closeMarketOrder, getMarketOrderById } from '../../db/queries/market';
+import { addToInventory } from '../../db/queries/inventory';
+import { remainingQuantity } from '../../simulation/market';
+
+export async function handleCancelOrder(
+  intent: ActionIntent<CancelOrderParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { orderId } = intent.params;
+
+  const order = await getMarketOrderById(orderId);
+  if (!order || order.agentId !== agent.id) {
+    return { success: false, error: `Order not found: ${orderId}` };
+  }
+
+  const closed = await closeMarketOrder(order.id, 'cancelled', intent.tick);
+  if (!closed) {
+    return { success: false, error: `Order is no longer open (${order.status})` };
+  }
+
+  const unfilled = remainingQuantity(closed);
+  if (closed.side === 'ask' && unfilled > 0) {
+    await addToInventory(agent.id, closed.itemType, unfilled);
+  }
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'market_order_cancelled',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          orderId: closed.id,
+          shelterId: closed.shelterId,
+          itemType: closed.itemType,
+          side: closed.side,
+          price: closed.price,
+          unfilledQuantity: unfilled,
+          reason: 'by_agent',
+        },
+      },
+    ],
+  };
+}
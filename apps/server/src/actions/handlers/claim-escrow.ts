@@ -20,8 +20,9 @@ import {
   getEmploymentById,
   updateEmploymentStatus,
 } from '../../db/queries/employment';
-import { getAgentById, updateAgentBalance } from '../../db/queries/agents';
+import { getAgentById } from '../../db/queries/agents';
 import { storeMemory, updateRelationshipTrust } from '../../db/queries/memories';
+import { payFromEscrow } from '../../ledger';
 import { db } from '../../db';
 import { sql } from 'drizzle-orm';
 
@@ -97,10 +98,19 @@ export async function handleClaimEscrow(
   // Get employer for trust update
   const employer = await getAgentById(employment.employerId);
 
-  // Transfer escrow to worker
+  // Transfer escrow to worker (taxed like any wage between agents)
   const escrowAmount = employment.escrowAmount;
-  const newWorkerBalance = agent.balance + escrowAmount;
-  await updateAgentBalance(agent.id, newWorkerBalance);
+  const payment = await payFromEscrow(
+    employment.employerId,
+    agent.id,
+    escrowAmount,
+    intent.tick,
+    `Escrow claim from ${employment.employerId.slice(0, 8)} (non-payment)`
+  );
+  if (!payment.success) {
+    return { success: false, error: payment.error ?? 'Escrow claim failed' };
+  }
+  const newWorkerBalance = payment.toNewBalance ?? agent.balance + escrowAmount;
 
   // Mark employment as unpaid
   await db.execute(sql`
@@ -158,6 +168,7 @@ export async function handleClaimEscrow(
           workerId: agent.id,
           employerId: employment.employerId,
           escrowAmount,
+          tax: payment.taxPaid ?? 0, // Transaction tax the worker paid to the public treasury
           salaryOwed: employment.salary,
           salaryReceived: employment.amountPaid + escrowAmount,
           salaryLost: employment.salary - employment.amountPaid - escrowAmount,
@@ -172,7 +183,7 @@ export async function handleClaimEscrow(
         payload: {
           previousBalance: agent.balance,
           newBalance: newWorkerBalance,
-          change: escrowAmount,
+          change: newWorkerBalance - agent.balance,
           reason: `Escrow claim from ${employer?.id.slice(0, 8) || 'unknown'} (non-payment)`,
         },
       },
@@ -0,0 +1,140 @@
+/**
+ * Counter Trade Action Handler
+ *
+ * Answers an open trade proposal with different terms. The original proposal
+ * is marked 'countered' and a new proposal is created in the opposite
+ * direction, linked through parentProposalId so negotiation chains can be
+ * reconstructed.
+ *
+ * Terms are from the countering agent's point of view (what I offer / what I want).
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, CounterTradeParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { getAgentById } from '../../db/queries/agents';
+import { getInventoryItem } from '../../db/queries/inventory';
+import {
+  getTradeProposalById,
+  updateTradeProposalStatus,
+  createTradeProposal,
+} from '../../db/queries/trade-proposals';
+import { storeMemory } from '../../db/queries/memories';
+import { CONFIG } from '../../config';
+import { validateTradeTerms } from './propose-trade';
+
+export async function handleCounterTrade(
+  intent: ActionIntent<CounterTradeParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const {
+    proposalId,
+    offeringItemType,
+    offeringQuantity,
+    requestingItemType,
+    requestingQuantity,
+  } = intent.params;
+
+  const termsError = validateTradeTerms(intent.params);
+  if (termsError) {
+    return { success: false, error: termsError };
+  }
+
+  const proposal = await getTradeProposalById(proposalId);
+  if (!proposal) {
+    return { success: false, error: `Trade proposal not found: ${proposalId}` };
+  }
+
+  if (proposal.targetId !== agent.id) {
+    return { success: false, error: 'This trade proposal is not addressed to you' };
+  }
+
+  if (proposal.status !== 'open') {
+    return {
+      success: false,
+      error: `Trade proposal is no longer open (status: ${proposal.status})`,
+    };
+  }
+
+  if (intent.tick > proposal.expiresAtTick) {
+    await updateTradeProposalStatus(proposalId, 'expired', intent.tick);
+    return { success: false, error: 'Trade proposal has expired' };
+  }
+
+  const proposer = await getAgentById(proposal.proposerId);
+  if (!proposer || proposer.state === 'dead') {
+    await updateTradeProposalStatus(proposalId, 'expired', intent.tick);
+    return { success: false, error: 'Proposer is no longer available' };
+  }
+
+  // Counter-offers must also be backed by what we hold right now
+  const offeredItem = await getInventoryItem(agent.id, offeringItemType);
+  const have = offeredItem?.quantity ?? 0;
+  if (have < offeringQuantity) {
+    return {
+      success: false,
+      error: `Not enough ${offeringItemType} to offer (have: ${have}, need: ${offeringQuantity})`,
+    };
+  }
+
+  const updated = await updateTradeProposalStatus(proposalId, 'countered', intent.tick);
+  if (!updated) {
+    return { success: false, error: 'Trade proposal is no longer open' };
+  }
+
+  const expiresAtTick = intent.tick + CONFIG.actions.trade.proposalExpiryTicks;
+  const counter = await createTradeProposal({
+    tenantId: agent.tenantId,
+    proposerId: agent.id,
+    targetId: proposer.id,
+    offeringItemType,
+    offeringQuantity,
+    requestingItemType,
+    requestingQuantity,
+    parentProposalId: proposal.id,
+    status: 'open',
+    x: agent.x,
+    y: agent.y,
+    createdAtTick: intent.tick,
+    expiresAtTick,
+  });
+
+  await storeMemory({
+    agentId: proposer.id,
+    type: 'interaction',
+    content: `${agent.id.slice(0, 8)} countered my trade offer: they offer ${offeringQuantity}x ${offeringItemType} for my ${requestingQuantity}x ${requestingItemType}.`,
+    importance: 5,
+    emotionalValence: 0,
+    involvedAgentIds: [agent.id],
+    x: proposer.x,
+    y: proposer.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'agent_trade_countered',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId: counter.id,
+          parentProposalId: proposal.id,
+          proposerId: agent.id,
+          targetId: proposer.id,
+          position: { x: agent.x, y: agent.y },
+          offered: { itemType: offeringItemType, quantity: offeringQuantity },
+          requested: { itemType: requestingItemType, quantity: requestingQuantity },
+          previousTerms: {
+            offered: { itemType: proposal.offeringItemType, quantity: proposal.offeringQuantity },
+            requested: { itemType: proposal.requestingItemType, quantity: proposal.requestingQuantity },
+          },
+          expiresAtTick,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Craft Action Handler
+ *
+ * Transform items into new item types using recipes from CONFIG.actions.craft.
+ * Inputs are consumed, tools lose durability (tracked in inventory.properties).
+ * Crafting time is charged as energy up front, and the agent stays busy for
+ * recipe.ticks ticks (see getBusyCrafters); the output arrives immediately.
+ *
+ * A craft that fails its roll still took place: the result is a success whose
+ * event is agent_craft_failed, so the energy spent and the event are kept.
+ *
+ * The first successful craft of a recipe by an agent emits recipe_discovered,
+ * flagged firstInWorld when nobody has crafted it before.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, CraftParams } from '../types';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { Agent } from '../../db/schema';
+import {
+  getAgentInventory,
+  getInventoryItem,
+  addToInventory,
+  removeFromInventory,
+  setInventoryItemProperties,
+} from '../../db/queries/inventory';
+import { getRecipeCraftCounts } from '../../db/queries/crafting';
+import { storeMemory } from '../../db/queries/memories';
+import { CONFIG } from '../../config';
+import { random } from '../../utils/random';
+import { findMissingRequirement } from '../utils/recipes';
+
+export interface ToolWear {
+  itemType: string;
+  durabilityBefore: number;
+  durabilityAfter: number;
+  broke: boolean;
+}
+
+/**
+ * Wear down the tool in use; a tool at 0 durability breaks and the next one in the stack is used
+ */
+async function wearTool(agentId: string, itemType: string, wear: number): Promise<ToolWear> {
+  const maxDurability = CONFIG.actions.craft.toolDurability[itemType] ?? 1;
+  const item = await getInventoryItem(agentId, itemType);
+  const properties = (item?.properties ?? {}) as Record<string, unknown>;
+  const durabilityBefore = typeof properties.durability === 'number' ? properties.durability : maxDurability;
+  const remaining = durabilityBefore - wear;
+
+  if (remaining > 0) {
+    await setInventoryItemProperties(agentId, itemType, { ...properties, durability: remaining });
+    return { itemType, durabilityBefore, durabilityAfter: remaining, broke: false };
+  }
+
+  const left = await removeFromInventory(agentId, itemType, 1);
+  if (left > 0) {
+    await setInventoryItemProperties(agentId, itemType, { ...properties, durability: maxDurability });
+  }
+  return { itemType, durabilityBefore, durabilityAfter: 0, broke: true };
+}
+
+function describeItems(items: Record<string, number>): string {
+  return Object.entries(items).map(([type, qty]) => `${qty}x ${type}`).join(' + ');
+}
+
+export async function handleCraft(
+  intent: ActionIntent<CraftParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { recipeId } = intent.params;
+  const { recipes, energyCostPerTick } = CONFIG.actions.craft;
+
+  // Validate recipe
+  const recipe = recipes[recipeId];
+  if (!recipe) {
+    return {
+      success: false,
+      error: `Unknown recipe: ${recipeId}. Known recipes: ${Object.keys(recipes).join(', ')}`,
+    };
+  }
+
+  // Crafting time costs energy
+  const energyCost = recipe.ticks * energyCostPerTick;
+  if (agent.energy < energyCost) {
+    return {
+      success: false,
+      error: `Not enough energy to craft ${recipeId}: need ${energyCost}, have ${agent.energy}`,
+    };
+  }
+
+  // Check inputs and tools before touching the inventory
+  const inventory = await getAgentInventory(agent.id);
+  const missing = findMissingRequirement(
+    recipe,
+    inventory.map((i) => ({ type: i.itemType, quantity: i.quantity }))
+  );
+  if (missing) {
+    return {
+      success: false,
+      error: `Missing ${missing.itemType} for ${recipeId}: need ${missing.need}, have ${missing.have}`,
+    };
+  }
+
+  // Inputs are used up and tools wear whether or not the craft succeeds
+  for (const [itemType, quantity] of Object.entries(recipe.inputs)) {
+    await removeFromInventory(agent.id, itemType, quantity);
+  }
+  const toolWear: ToolWear[] = [];
+  for (const [toolType, wear] of Object.entries(recipe.tools ?? {})) {
+    toolWear.push(await wearTool(agent.id, toolType, wear));
+  }
+  const brokenTools = toolWear.filter((t) => t.broke).map((t) => t.itemType);
+  const brokeNote = brokenTools.length > 0 ? ` My ${brokenTools.join(', ')} broke.` : '';
+
+  const newEnergy = agent.energy - energyCost;
+  const basePayload = {
+    recipeId,
+    inputs: recipe.inputs,
+    tools: toolWear,
+    ticks: recipe.ticks,
+    energyCost,
+  };
+
+  if (random() < recipe.failureChance) {
+    await storeMemory({
+      agentId: agent.id,
+      type: 'action',
+      content: `Tried to craft ${recipeId} from ${describeItems(recipe.inputs)} but failed and lost the materials.${brokeNote}`,
+      importance: 4,
+      emotionalValence: -0.4,
+      x: agent.x,
+      y: agent.y,
+      tick: intent.tick,
+    });
+
+    return {
+      success: true,
+      changes: { energy: newEnergy },
+      events: [
+        {
+          id: uuid(),
+          type: 'agent_craft_failed',
+          tick: intent.tick,
+          timestamp: Date.now(),
+          agentId: agent.id,
+          payload: { ...basePayload, success: false },
+        },
+      ],
+    };
+  }
+
+  // Discovery is checked before this craft is recorded
+  const history = await getRecipeCraftCounts(agent.id, recipeId);
+  await addToInventory(agent.id, recipe.output.itemType, recipe.output.quantity);
+
+  const discovered = history.byAgent === 0;
+  const firstInWorld = history.total === 0;
+
+  await storeMemory({
+    agentId: agent.id,
+    type: 'action',
+    content: discovered
+      ? `Discovered how to craft ${recipe.output.itemType}: ${describeItems(recipe.inputs)} -> ${recipe.output.quantity}x ${recipe.output.itemType}.${brokeNote}`
+      : `Crafted ${recipe.output.quantity}x ${recipe.output.itemType} from ${describeItems(recipe.inputs)}.${brokeNote}`,
+    importance: discovered ? 7 : 4,
+    emotionalValence: discovered ? 0.6 : 0.3,
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  const events: WorldEvent[] = [
+    {
+      id: uuid(),
+      type: 'agent_crafted',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: { ...basePayload, output: recipe.output, success: true },
+    },
+  ];
+
+  if (discovered) {
+    events.push({
+      id: uuid(),
+      type: 'recipe_discovered',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        recipeId,
+        inputs: recipe.inputs,
+        tools: Object.keys(recipe.tools ?? {}),
+        output: recipe.output,
+        firstInWorld,
+        priorCrafts: history.total,
+      },
+    });
+  }
+
+  return {
+    success: true,
+    changes: { energy: newEnergy },
+    events,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Demolish Action Handler
+ *
+ * Tear down a structure (or an unfinished site) at or next to the agent.
+ * Part of the materials used is salvaged by the demolisher. Anyone can
+ * demolish anything - whether owners' property is respected is up to the
+ * agents; tearing down someone else's structure is recorded as such and
+ * remembered by the owner.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, DemolishParams } from '../types';
+import type { Agent } from '../../db/schema';
+import {
+  endStructure,
+  getActiveStructureAtPosition,
+  getStructureById,
+  ACTIVE_STRUCTURE_STATUSES,
+} from '../../db/queries/structures';
+import { addToInventory } from '../../db/queries/inventory';
+import { storeMemory } from '../../db/queries/memories';
+import { calculateSalvage, removeStructureFromWorld } from '../../simulation/structures';
+import { getDistance } from '../../world/grid';
+import { CONFIG } from '../../config';
+
+export async function handleDemolish(
+  intent: ActionIntent<DemolishParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { structureId } = intent.params;
+  const { energyCost, maxDistance, salvageRate } = CONFIG.actions.demolish;
+
+  const structure = structureId
+    ? await getStructureById(structureId)
+    : await getActiveStructureAtPosition(agent.x, agent.y);
+
+  if (!structure || !ACTIVE_STRUCTURE_STATUSES.includes(structure.status as never)) {
+    return {
+      success: false,
+      error: structureId
+        ? `Structure not found or already gone: ${structureId}`
+        : `No structure at (${agent.x}, ${agent.y})`,
+    };
+  }
+
+  const distance = getDistance({ x: agent.x, y: agent.y }, { x: structure.x, y: structure.y });
+  if (distance > maxDistance) {
+    return {
+      success: false,
+      error: `Too far from the ${structure.structureType} at (${structure.x}, ${structure.y}): distance ${distance}, max ${maxDistance}`,
+    };
+  }
+
+  if (agent.energy < energyCost) {
+    return {
+      success: false,
+      error: `Not enough energy to demolish: need ${energyCost}, have ${agent.energy}`,
+    };
+  }
+
+  if (!(await endStructure(structure.id, 'demolished', intent.tick))) {
+    return {
+      success: false,
+      error: `Structure already gone: ${structure.id}`,
+    };
+  }
+
+  const orderEvents = await removeStructureFromWorld(structure, intent.tick);
+
+  const salvage = calculateSalvage(structure.materialsUsed, salvageRate);
+  for (const [itemType, quantity] of Object.entries(salvage)) {
+    await addToInventory(agent.id, itemType, quantity);
+  }
+
+  const byOwner = structure.ownerAgentId === agent.id;
+  const where = `(${structure.x}, ${structure.y})`;
+
+  await storeMemory({
+    agentId: agent.id,
+    type: 'action',
+    content: byOwner
+      ? `Tore down my own ${structure.structureType} at ${where}.`
+      : `Tore down a ${structure.structureType} at ${where} that someone else built.`,
+    importance: byOwner ? 4 : 6,
+    emotionalValence: byOwner ? 0 : -0.1,
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  if (structure.ownerAgentId && !byOwner) {
+    await storeMemory({
+      agentId: structure.ownerAgentId,
+      type: 'interaction',
+      content: `Agent ${agent.id.slice(0, 8)} destroyed my ${structure.structureType} at ${where}.`,
+      importance: 8,
+      emotionalValence: -0.7,
+      involvedAgentIds: [agent.id],
+      x: structure.x,
+      y: structure.y,
+      tick: intent.tick,
+    });
+  }
+
+  return {
+    success: true,
+    changes: { energy: agent.energy - energyCost },
+    events: [
+      {
+        id: uuid(),
+        type: 'structure_demolished',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          structureId: structure.id,
+          structureType: structure.structureType,
+          x: structure.x,
+          y: structure.y,
+          ownerAgentId: structure.ownerAgentId,
+          byOwner,
+          wasComplete: structure.status === 'complete',
+          salvage,
+        },
+      },
+      ...orderEvents,
+    ],
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Deposit Action Handler
+ *
+ * Put items from the agent's inventory into a container at its position.
+ * Without a containerId the agent's own container on the cell is used,
+ * and created on first deposit (bigger inside a completed storage
+ * structure) once the deposit is known to fit. Depositing into someone
+ * else's container needs deposit access on its access list.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, DepositParams } from '../types';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { Agent, Container } from '../../db/schema';
+import {
+  addToContainer,
+  createContainer,
+  getContainerAccess,
+  getContainerById,
+  getContainerItems,
+  getOwnedContainerAtPosition,
+} from '../../db/queries/containers';
+import { getInventoryItem, removeFromInventory } from '../../db/queries/inventory';
+import { getActiveStructureAtPosition } from '../../db/queries/structures';
+import { getSheltersAtPosition } from '../../db/queries/world';
+import { hasContainerPermission, loadAccessSubject } from '../utils/container-access';
+import { CONFIG } from '../../config';
+
+export async function handleDeposit(
+  intent: ActionIntent<DepositParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { itemType, quantity, containerId } = intent.params;
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { success: false, error: 'Quantity must be a positive integer' };
+  }
+
+  const item = await getInventoryItem(agent.id, itemType);
+  if (!item || item.quantity < quantity) {
+    return {
+      success: false,
+      error: `Not enough ${itemType} to deposit (have: ${item?.quantity ?? 0}, need: ${quantity})`,
+    };
+  }
+
+  const events: WorldEvent[] = [];
+  let container: Container | undefined;
+
+  if (containerId) {
+    container = await getContainerById(containerId);
+    if (!container) {
+      return { success: false, error: `Container not found: ${containerId}` };
+    }
+  } else {
+    container = await getOwnedContainerAtPosition(agent.id, agent.x, agent.y);
+  }
+
+  if (container) {
+    if (container.x !== agent.x || container.y !== agent.y) {
+      return {
+        success: false,
+        error: `Container is at (${container.x}, ${container.y}) - you must be on its cell`,
+      };
+    }
+
+    if (container.ownerAgentId !== agent.id) {
+      const entries = await getContainerAccess(container.id);
+      const subject = await loadAccessSubject(agent.id, intent.tick);
+      if (!hasContainerPermission(container, entries, subject, 'deposit')) {
+        return { success: false, error: 'No deposit access to this container' };
+      }
+    }
+
+    const stored = (await getContainerItems(container.id)).reduce((sum, i) => sum + i.quantity, 0);
+    if (stored + quantity > container.capacity) {
+      return {
+        success: false,
+        error: `Container is full (holds ${stored}/${container.capacity})`,
+      };
+    }
+  } else {
+    // First deposit here - place a new container owned by the agent, if the deposit fits
+    const structure = await getActiveStructureAtPosition(agent.x, agent.y);
+    const inStorage = structure?.structureType === 'storage' && structure.status === 'complete';
+    const capacity = inStorage ? CONFIG.actions.container.storageCapacity : CONFIG.actions.container.baseCapacity;
+    if (quantity > capacity) {
+      return {
+        success: false,
+        error: `A new container holds at most ${capacity} items`,
+      };
+    }
+
+    const [shelter] = await getSheltersAtPosition(agent.x, agent.y);
+    container = await createContainer({
+      tenantId: agent.tenantId,
+      x: agent.x,
+      y: agent.y,
+      shelterId: shelter?.id ?? null,
+      structureId: inStorage ? structure.id : null,
+      ownerAgentId: agent.id,
+      capacity,
+      createdAtTick: intent.tick,
+    });
+
+    events.push({
+      id: uuid(),
+      type: 'container_created',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        containerId: container.id,
+        x: container.x,
+        y: container.y,
+        capacity: container.capacity,
+        shelterId: container.shelterId,
+        structureId: container.structureId,
+      },
+    });
+  }
+
+  const remaining = await removeFromInventory(agent.id, itemType, quantity);
+  if (remaining < 0) {
+    return { success: false, error: `Not enough ${itemType} to deposit` };
+  }
+  await addToContainer(container.id, itemType, quantity);
+
+  events.push({
+    id: uuid(),
+    type: 'container_deposit',
+    tick: intent.tick,
+    timestamp: Date.now(),
+    agentId: agent.id,
+    payload: {
+      containerId: container.id,
+      ownerAgentId: container.ownerAgentId,
+      itemType,
+      quantity,
+      byOwner: container.ownerAgentId === agent.id,
+      x: container.x,
+      y: container.y,
+    },
+  });
+
+  return { success: true, events };
+}
@@ -0,0 +1,69 @@
+/**
+ * Expel Member Action Handler - Organisations
+ *
+ * The founder removes a member from the organisation. Entry fees are not
+ * refunded; the expelled agent remembers who did it.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, ExpelMemberParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { endMembership, getActiveMembers, getOrganizationById } from '../../db/queries/organizations';
+import { storeMemory } from '../../db/queries/memories';
+
+export async function handleExpelMember(
+  intent: ActionIntent<ExpelMemberParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { orgId, memberId } = intent.params;
+
+  const org = await getOrganizationById(orgId);
+  if (!org || org.status !== 'active') {
+    return { success: false, error: `Organisation not found: ${orgId}` };
+  }
+  if (org.founderId !== agent.id) {
+    return { success: false, error: `Only the founder of "${org.name}" can expel members` };
+  }
+  if (memberId === agent.id) {
+    return { success: false, error: 'Cannot expel yourself (use leave_org)' };
+  }
+
+  const members = await getActiveMembers(org.id);
+  const membership = members.find((m) => m.agentId === memberId);
+  if (!membership || !(await endMembership(membership.id, 'expelled', intent.tick))) {
+    return { success: false, error: `Agent ${memberId} is not a member of "${org.name}"` };
+  }
+
+  await storeMemory({
+    agentId: memberId,
+    type: 'interaction',
+    content: `Was expelled from the organisation "${org.name}" by its founder`,
+    importance: 7,
+    emotionalValence: -0.5,
+    involvedAgentIds: [agent.id],
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'org_member_expelled',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          orgId: org.id,
+          name: org.name,
+          founderId: agent.id,
+          memberId,
+          memberCount: members.length - 1,
+          ticksAsMember: intent.tick - membership.joinedAtTick,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Found Org Action Handler - Organisations
+ *
+ * Creates a persistent organisation (alliance, guild, firm...) with the
+ * agent as founder. The founder sets the membership rules:
+ * - entryFee: CITY each new member pays into the treasury
+ * - minTrust: how much the founder must trust an applicant
+ * - maxMembers: membership cap
+ * and may put a deposit into the treasury (recorded in the ledger).
+ *
+ * EMERGENT: Alliances, guilds, firms, clubs - and what they are used for.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, FoundOrgParams } from '../types';
+import type { Agent } from '../../db/schema';
+import {
+  createOrganization,
+  getActiveMembershipsForAgents,
+  getActiveOrganizationByName,
+} from '../../db/queries/organizations';
+import { storeMemory } from '../../db/queries/memories';
+import { transferWithOrg } from '../../ledger';
+import { CONFIG } from '../../config';
+
+export async function handleFoundOrg(
+  intent: ActionIntent<FoundOrgParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { entryFee = 0, minTrust, maxMembers, deposit = 0 } = intent.params;
+  const config = CONFIG.organizations;
+  const name = intent.params.name?.trim() ?? '';
+
+  // Validate rules
+  if (!name || name.length > config.maxNameLength) {
+    return { success: false, error: `Organisation name must be 1-${config.maxNameLength} characters` };
+  }
+  if (entryFee < 0 || entryFee > config.maxEntryFee) {
+    return { success: false, error: `Entry fee must be between 0 and ${config.maxEntryFee}` };
+  }
+  if (minTrust !== undefined && (minTrust < -100 || minTrust > 100)) {
+    return { success: false, error: 'minTrust must be between -100 and 100' };
+  }
+  if (maxMembers !== undefined && (!Number.isInteger(maxMembers) || maxMembers < 2)) {
+    return { success: false, error: 'maxMembers must be a whole number of at least 2' };
+  }
+  if (deposit < 0) {
+    return { success: false, error: 'Deposit cannot be negative' };
+  }
+
+  // Check resources
+  if (agent.energy < config.foundingEnergyCost) {
+    return {
+      success: false,
+      error: `Not enough energy (have: ${agent.energy}, need: ${config.foundingEnergyCost})`,
+    };
+  }
+  if (agent.balance < deposit) {
+    return {
+      success: false,
+      error: `Not enough CITY for the deposit (have: ${agent.balance}, need: ${deposit})`,
+    };
+  }
+
+  const memberships = await getActiveMembershipsForAgents([agent.id]);
+  if (memberships.length >= config.maxMembershipsPerAgent) {
+    return {
+      success: false,
+      error: `Already in ${memberships.length} organisations (max ${config.maxMembershipsPerAgent})`,
+    };
+  }
+
+  if (await getActiveOrganizationByName(agent.tenantId, name)) {
+    return { success: false, error: `An organisation named "${name}" already exists` };
+  }
+
+  const org = await createOrganization({
+    tenantId: agent.tenantId,
+    name,
+    founderId: agent.id,
+    entryFee,
+    minTrust: minTrust === undefined ? null : Math.round(minTrust),
+    maxMembers: maxMembers ?? null,
+    foundedAtTick: intent.tick,
+  });
+
+  let balance = agent.balance;
+  if (deposit > 0) {
+    const result = await transferWithOrg(org.id, agent.id, 'deposit', deposit, `Founding deposit: ${name}`, intent.tick);
+    if (result.success) balance = result.fromNewBalance!;
+  }
+
+  await storeMemory({
+    agentId: agent.id,
+    type: 'action',
+    content: `Founded the organisation "${name}"${entryFee > 0 ? ` (entry fee ${entryFee} CITY)` : ''}`,
+    importance: 7,
+    emotionalValence: 0.4,
+    involvedAgentIds: [],
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    changes: { energy: agent.energy - config.foundingEnergyCost, balance },
+    events: [
+      {
+        id: uuid(),
+        type: 'org_founded',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          orgId: org.id,
+          name,
+          founderId: agent.id,
+          entryFee,
+          minTrust: org.minTrust,
+          maxMembers: org.maxMembers,
+          deposit: balance === agent.balance ? 0 : deposit,
+          position: { x: agent.x, y: agent.y },
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Grant Access Action Handler
+ *
+ * The owner of a container edits its access list: grant deposit or withdraw
+ * rights to an agent, a puzzle team, or holders of a credential claim type
+ * (optionally only from a given issuer), or revoke them with 'none'.
+ * Granting again replaces the grantee's previous permission.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, GrantAccessParams } from '../types';
+import type { Agent, ContainerAccessEntry } from '../../db/schema';
+import {
+  addContainerAccess,
+  getContainerAccess,
+  getContainerById,
+  removeContainerAccess,
+} from '../../db/queries/containers';
+import { getAgentById } from '../../db/queries/agents';
+import { getPuzzleTeamById } from '../../db/queries/puzzles';
+import { storeMemory } from '../../db/queries/memories';
+import { CONFIG } from '../../config';
+
+function sameGrantee(entry: ContainerAccessEntry, params: GrantAccessParams): boolean {
+  return (
+    entry.granteeType === params.granteeType &&
+    entry.granteeId === (params.granteeId ?? null) &&
+    entry.claimType === (params.granteeType === 'credential' ? params.claimType ?? null : null)
+  );
+}
+
+export async function handleGrantAccess(
+  intent: ActionIntent<GrantAccessParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { containerId, granteeType, granteeId, claimType, permission } = intent.params;
+
+  const container = await getContainerById(containerId);
+  if (!container) {
+    return { success: false, error: `Container not found: ${containerId}` };
+  }
+
+  if (container.ownerAgentId !== agent.id) {
+    return { success: false, error: 'Only the owner can change who may use a container' };
+  }
+
+  // Validate grantee
+  if (granteeType === 'agent') {
+    if (!granteeId) return { success: false, error: 'Agent grants require granteeId' };
+    if (granteeId === agent.id) return { success: false, error: 'You already own this container' };
+    if (permission !== 'none' && !(await getAgentById(granteeId))) {
+      return { success: false, error: `Agent not found: ${granteeId}` };
+    }
+  } else if (granteeType === 'team') {
+    if (!granteeId) return { success: false, error: 'Team grants require granteeId' };
+    if (permission !== 'none' && !(await getPuzzleTeamById(granteeId))) {
+      return { success: false, error: `Team not found: ${granteeId}` };
+    }
+  } else if (granteeType === 'credential') {
+    if (!claimType) return { success: false, error: 'Credential grants require claimType' };
+  } else {
+    return { success: false, error: `Unknown grantee type: ${granteeType}` };
+  }
+
+  const entries = await getContainerAccess(container.id);
+  const previous = entries.find((entry) => sameGrantee(entry, intent.params));
+  const basePayload = {
+    containerId: container.id,
+    granteeType,
+    granteeId: granteeId ?? null,
+    claimType: granteeType === 'credential' ? claimType : null,
+    x: container.x,
+    y: container.y,
+  };
+
+  if (permission === 'none') {
+    if (!previous) {
+      return { success: false, error: 'That grantee has no access to revoke' };
+    }
+    await removeContainerAccess(previous.id);
+
+    return {
+      success: true,
+      events: [
+        {
+          id: uuid(),
+          type: 'container_access_revoked',
+          tick: intent.tick,
+          timestamp: Date.now(),
+          agentId: agent.id,
+          payload: { ...basePayload, previousPermission: previous.permission },
+        },
+      ],
+    };
+  }
+
+  if (!previous && entries.length >= CONFIG.actions.container.maxAccessEntries) {
+    return {
+      success: false,
+      error: `Access list is full (max ${CONFIG.actions.container.maxAccessEntries} entries) - revoke someone first`,
+    };
+  }
+
+  if (previous) {
+    await removeContainerAccess(previous.id);
+  }
+  await addContainerAccess({
+    containerId: container.id,
+    granteeType,
+    granteeId: granteeId ?? null,
+    claimType: granteeType === 'credential' ? claimType : null,
+    permission,
+    grantedBy: agent.id,
+    grantedAtTick: intent.tick,
+  });
+
+  if (granteeType === 'agent' && granteeId) {
+    await storeMemory({
+      agentId: granteeId,
+      type: 'interaction',
+      content: `Agent ${agent.id.slice(0, 8)} gave me ${permission} access to their container ${container.id} at (${container.x}, ${container.y}).`,
+      importance: 5,
+      emotionalValence: 0.4,
+      involvedAgentIds: [agent.id],
+      x: container.x,
+      y: container.y,
+      tick: intent.tick,
+    });
+  }
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'container_access_granted',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: { ...basePayload, permission, previousPermission: previous?.permission ?? null },
+      },
+    ],
+  };
+}
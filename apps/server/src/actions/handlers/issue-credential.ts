@@ -6,7 +6,7 @@
  * or membership without any central authority.
  *
  * System imposes:
- * - Cryptographic signature (HMAC-SHA256)
+ * - Cryptographic signature (Ed25519, issuer's own keypair)
  * - Energy cost
  * - Proximity requirement
  *
@@ -14,7 +14,6 @@
  */
 
 import { v4 as uuid } from 'uuid';
-import { createHmac } from 'crypto';
 import type { ActionIntent, ActionResult, IssueCredentialParams } from '../types';
 import type { Agent } from '../../db/schema';
 import { getAgentById } from '../../db/queries/agents';
@@ -22,17 +21,11 @@ import { storeMemory, updateRelationshipTrust } from '../../db/queries/memories'
 import { createCredential } from '../../db/queries/credentials';
 import { getDistance } from '../../world/grid';
 import { CONFIG } from '../../config';
+import { credentialSigningPayload, SIGNATURE_ALGORITHM } from '../../crypto/signing';
+import { getAgentKeyService } from '../../services/agent-key-service';
 
 const VALID_CLAIM_TYPES = ['skill', 'experience', 'membership', 'character', 'custom'];
 
-/**
- * Generate cryptographic signature for a credential
- */
-function generateSignature(issuerId: string, subjectId: string, claimDescription: string, tick: number): string {
-  const payload = `${issuerId}:${subjectId}:${claimDescription}:${tick}`;
-  return createHmac('sha256', issuerId).update(payload).digest('hex');
-}
-
 export async function handleIssueCredential(
   intent: ActionIntent<IssueCredentialParams>,
   agent: Agent
@@ -110,16 +103,40 @@ export async function handleIssueCredential(
 
   const newEnergy = Math.max(0, agent.energy - energyCost);
 
-  // Generate cryptographic signature
-  const signature = generateSignature(agent.id, subjectAgentId, description, intent.tick);
+  // Sign the claim with the issuer's private key
+  const credentialId = uuid();
+  let signature: string;
+  try {
+    signature = await getAgentKeyService().sign(
+      agent.id,
+      credentialSigningPayload({
+        id: credentialId,
+        issuerId: agent.id,
+        subjectId: subjectAgentId,
+        claimType,
+        claimDescription: description,
+        claimEvidence: evidence ?? null,
+        claimLevel: level ?? null,
+        tick: intent.tick,
+        expiresAtTick: expiresAtTick ?? null,
+      }),
+      agent.tenantId
+    );
+  } catch (error) {
+    console.error(`[IssueCredential] Signing failed for ${agent.id}:`, error);
+    return {
+      success: false,
+      error: 'Credential signing is unavailable',
+    };
+  }
 
   // Create the credential
-  const credentialId = uuid();
   await createCredential({
     id: credentialId,
     tick: intent.tick,
     issuerId: agent.id,
     issuerSignature: signature,
+    signatureAlgorithm: SIGNATURE_ALGORITHM,
     subjectId: subjectAgentId,
     claimType,
     claimDescription: description,
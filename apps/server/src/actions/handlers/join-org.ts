@@ -0,0 +1,131 @@
+/**
+ * Join Org Action Handler - Organisations
+ *
+ * Joins an organisation whose rules the agent meets:
+ * - a current member is within reach (CONFIG.organizations.joinMaxDistance)
+ * - the membership cap is not reached
+ * - the founder trusts the agent at least minTrust (no relationship = 0)
+ * - the agent can pay the entry fee, which goes into the treasury
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, JoinOrgParams } from '../types';
+import type { Agent } from '../../db/schema';
+import {
+  addMember,
+  getActiveMembers,
+  getActiveMembershipsForAgents,
+  getOrganizationById,
+} from '../../db/queries/organizations';
+import { getAgentById } from '../../db/queries/agents';
+import { getRelationship, storeMemory } from '../../db/queries/memories';
+import { transferWithOrg } from '../../ledger';
+import { getDistance } from '../../world/grid';
+import { CONFIG } from '../../config';
+
+export async function handleJoinOrg(
+  intent: ActionIntent<JoinOrgParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const config = CONFIG.organizations;
+
+  const org = await getOrganizationById(intent.params.orgId);
+  if (!org || org.status !== 'active' || org.tenantId !== agent.tenantId) {
+    return { success: false, error: `Organisation not found: ${intent.params.orgId}` };
+  }
+
+  const members = await getActiveMembers(org.id);
+  if (members.some((m) => m.agentId === agent.id)) {
+    return { success: false, error: `Already a member of "${org.name}"` };
+  }
+  if (org.maxMembers !== null && members.length >= org.maxMembers) {
+    return { success: false, error: `"${org.name}" is full (${org.maxMembers} members)` };
+  }
+
+  const memberships = await getActiveMembershipsForAgents([agent.id]);
+  if (memberships.length >= config.maxMembershipsPerAgent) {
+    return {
+      success: false,
+      error: `Already in ${memberships.length} organisations (max ${config.maxMembershipsPerAgent})`,
+    };
+  }
+
+  // A member must be within reach
+  let reachable = false;
+  for (const member of members) {
+    const memberAgent = await getAgentById(member.agentId);
+    if (
+      memberAgent &&
+      memberAgent.state !== 'dead' &&
+      getDistance({ x: agent.x, y: agent.y }, { x: memberAgent.x, y: memberAgent.y }) <= config.joinMaxDistance
+    ) {
+      reachable = true;
+      break;
+    }
+  }
+  if (!reachable) {
+    return {
+      success: false,
+      error: `No member of "${org.name}" within ${config.joinMaxDistance} tiles`,
+    };
+  }
+
+  // Founder's trust in the applicant
+  if (org.minTrust !== null && org.founderId) {
+    const trust = (await getRelationship(org.founderId, agent.id))?.trustScore ?? 0;
+    if (trust < org.minTrust) {
+      return {
+        success: false,
+        error: `The founder of "${org.name}" does not trust you enough (trust: ${trust}, required: ${org.minTrust})`,
+      };
+    }
+  }
+
+  // Entry fee into the treasury
+  let balance = agent.balance;
+  if (org.entryFee > 0) {
+    const result = await transferWithOrg(org.id, agent.id, 'deposit', org.entryFee, `Entry fee: ${org.name}`, intent.tick);
+    if (!result.success) {
+      return { success: false, error: `Cannot pay the entry fee of ${org.entryFee} CITY: ${result.error}` };
+    }
+    balance = result.fromNewBalance!;
+  }
+
+  await addMember(org, agent.id, intent.tick);
+
+  if (org.founderId) {
+    await storeMemory({
+      agentId: org.founderId,
+      type: 'interaction',
+      content: `An agent joined your organisation "${org.name}"`,
+      importance: 5,
+      emotionalValence: 0.3,
+      involvedAgentIds: [agent.id],
+      x: agent.x,
+      y: agent.y,
+      tick: intent.tick,
+    });
+  }
+
+  return {
+    success: true,
+    changes: { balance },
+    events: [
+      {
+        id: uuid(),
+        type: 'org_joined',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          orgId: org.id,
+          name: org.name,
+          memberId: agent.id,
+          entryFee: org.entryFee,
+          memberCount: members.length + 1,
+          position: { x: agent.x, y: agent.y },
+        },
+      },
+    ],
+  };
+}
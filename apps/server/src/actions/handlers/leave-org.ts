@@ -0,0 +1,93 @@
+/**
+ * Leave Org Action Handler - Organisations
+ *
+ * Leaves an organisation. When the founder leaves, the founder role passes
+ * to the longest-standing member. When the last member leaves, the
+ * organisation is dissolved and they take what is left in the treasury.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, LeaveOrgParams } from '../types';
+import type { Agent } from '../../db/schema';
+import type { WorldEvent } from '../../cache/pubsub';
+import {
+  dissolveOrganization,
+  endMembership,
+  getActiveMembers,
+  getOrganizationById,
+  transferFounder,
+} from '../../db/queries/organizations';
+import { transferWithOrg } from '../../ledger';
+
+export async function handleLeaveOrg(
+  intent: ActionIntent<LeaveOrgParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const org = await getOrganizationById(intent.params.orgId);
+  if (!org || org.status !== 'active') {
+    return { success: false, error: `Organisation not found: ${intent.params.orgId}` };
+  }
+
+  const members = await getActiveMembers(org.id);
+  const membership = members.find((m) => m.agentId === agent.id);
+  if (!membership || !(await endMembership(membership.id, 'left', intent.tick))) {
+    return { success: false, error: `Not a member of "${org.name}"` };
+  }
+
+  const remaining = members.filter((m) => m.id !== membership.id);
+  let newFounderId: string | null = null;
+  let balance = agent.balance;
+  let treasuryPayout = 0;
+  const events: WorldEvent[] = [];
+
+  if (remaining.length === 0) {
+    // Last member: dissolve and take the treasury
+    if (org.treasury > 0) {
+      const result = await transferWithOrg(org.id, agent.id, 'payout', org.treasury, `Dissolved: ${org.name}`, intent.tick);
+      if (result.success) {
+        balance = result.toNewBalance!;
+        treasuryPayout = org.treasury;
+      }
+    }
+    await dissolveOrganization(org.id, intent.tick);
+    events.push({
+      id: uuid(),
+      type: 'org_dissolved',
+      tick: intent.tick,
+      timestamp: Date.now(),
+      agentId: agent.id,
+      payload: {
+        orgId: org.id,
+        name: org.name,
+        ticksActive: intent.tick - org.foundedAtTick,
+        treasuryPayout,
+      },
+    });
+  } else if (membership.role === 'founder') {
+    await transferFounder(org.id, remaining[0]);
+    newFounderId = remaining[0].agentId;
+  }
+
+  events.unshift({
+    id: uuid(),
+    type: 'org_left',
+    tick: intent.tick,
+    timestamp: Date.now(),
+    agentId: agent.id,
+    payload: {
+      orgId: org.id,
+      name: org.name,
+      memberId: agent.id,
+      role: membership.role,
+      newFounderId,
+      memberCount: remaining.length,
+      ticksAsMember: intent.tick - membership.joinedAtTick,
+    },
+  });
+
+  return {
+    success: true,
+    changes: { balance },
+    events,
+  };
+}
@@ -1,20 +1,24 @@
 /**
  * Move Action Handler
  *
- * Moves agent to adjacent position.
+ * Moves agent one step along the A* path towards the target.
  * Costs are configurable via CONFIG.actions.move:
  * - energyCost: base energy per tile (default: 2)
  * - hungerCost: hunger per tile (default: 0.5)
  * - consecutivePenalty: extra multiplier if last action was also move (default: 0.5 = +50%)
+ * Energy is further multiplied by the terrain cost of the tile entered (water: 3x).
+ * Steps into (or deeper into) a claim area the agent was banished from by vote are refused.
  */
 
 import { v4 as uuid } from 'uuid';
 import type { ActionIntent, ActionResult, MoveParams } from '../types';
 import type { Agent } from '../../db/schema';
-import { isValidPosition, getPath, getDistance } from '../../world/grid';
+import { isValidPosition, getPath, getDistance, getStepCost } from '../../world/grid';
+import { getCell } from '../../world/terrain';
 import { getVitalsPenalty } from '../utils/vitals-penalty';
 import { getRuntimeConfig } from '../../config';
 import { leaveScent } from '../../world/scent';
+import { getActiveBanishments } from '../../db/queries/governance';
 
 export async function handleMove(
   intent: ActionIntent<MoveParams>,
@@ -52,6 +56,20 @@ export async function handleMove(
 
   // Take only the first step
   const nextStep = path[0];
+  const terrainCost = getStepCost(getCell(nextStep.x, nextStep.y));
+
+  // Banishment: no step into an area the agent was voted out of (leaving is allowed)
+  const banishments = await getActiveBanishments(agent.id, intent.tick);
+  const barred = banishments.find((b) => {
+    const centre = { x: b.x, y: b.y };
+    return getDistance(nextStep, centre) <= b.radius && getDistance(nextStep, centre) <= getDistance(from, centre);
+  });
+  if (barred) {
+    return {
+      success: false,
+      error: `Banished from the area around (${barred.x}, ${barred.y}) - cannot move to (${nextStep.x}, ${nextStep.y})`,
+    };
+  }
 
   // Get base costs from runtime config (allows live updates via API)
   const config = getRuntimeConfig();
@@ -63,7 +81,7 @@ export async function handleMove(
 
   // Apply vitals penalty to energy cost
   const penalty = getVitalsPenalty(agent);
-  const energyCost = Math.ceil(baseEnergyCost * penalty.multiplier * consecutiveMultiplier);
+  const energyCost = Math.ceil(baseEnergyCost * penalty.multiplier * consecutiveMultiplier * terrainCost);
 
   // Check if agent has enough energy (with all penalties applied)
   if (agent.energy < energyCost) {
@@ -74,6 +92,9 @@ export async function handleMove(
     if (isConsecutiveMove) {
       penaltyDetails.push(`+${Math.round(consecutivePenalty * 100)}% consecutive move`);
     }
+    if (terrainCost > 1) {
+      penaltyDetails.push(`${terrainCost}x terrain`);
+    }
     const penaltyInfo = penaltyDetails.length > 0
       ? ` (base: ${baseEnergyCost}, ${penaltyDetails.join(', ')})`
       : '';
@@ -116,6 +137,7 @@ export async function handleMove(
           remainingDistance,
           energyCost,
           hungerCost,
+          terrainCost,
           // Include penalty info for analytics
           vitalsPenalty: penalty.hasPenalty
             ? {
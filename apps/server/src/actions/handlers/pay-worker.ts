@@ -22,6 +22,7 @@ import {
 } from '../../db/queries/employment';
 import { getAgentById, updateAgentBalance } from '../../db/queries/agents';
 import { storeMemory, updateRelationshipTrust } from '../../db/queries/memories';
+import { payWage } from '../../ledger';
 import { db } from '../../db';
 import { sql } from 'drizzle-orm';
 
@@ -92,12 +93,25 @@ export async function handlePayWorker(
     };
   }
 
-  // Transfer payment to worker
-  const newEmployerBalance = agent.balance - remainingPayment;
-  const newWorkerBalance = worker.balance + remainingPayment;
-
-  await updateAgentBalance(agent.id, newEmployerBalance);
-  await updateAgentBalance(worker.id, newWorkerBalance);
+  // Transfer payment to worker through the ledger (taxed like any wage between agents)
+  let newEmployerBalance = agent.balance;
+  let newWorkerBalance = worker.balance;
+  let tax = 0;
+  if (remainingPayment > 0) {
+    const payment = await payWage(
+      agent.id,
+      worker.id,
+      remainingPayment,
+      intent.tick,
+      `Payment from ${agent.id.slice(0, 8)} for completed work`
+    );
+    if (!payment.success) {
+      return { success: false, error: payment.error ?? 'Payment failed' };
+    }
+    newEmployerBalance = payment.fromNewBalance ?? newEmployerBalance - remainingPayment;
+    newWorkerBalance = payment.toNewBalance ?? newWorkerBalance + remainingPayment;
+    tax = payment.taxPaid ?? 0;
+  }
 
   // Return escrow to employer
   const escrowReturn = employment.escrowAmount;
@@ -161,6 +175,7 @@ export async function handlePayWorker(
           workerId: worker.id,
           employerId: agent.id,
           amountPaid: remainingPayment,
+          tax, // Transaction tax the worker paid to the public treasury
           totalPaid: employment.salary,
           escrowReturned: escrowReturn,
         },
@@ -174,7 +189,7 @@ export async function handlePayWorker(
         payload: {
           previousBalance: worker.balance,
           newBalance: newWorkerBalance,
-          change: remainingPayment,
+          change: newWorkerBalance - worker.balance,
           reason: `Payment from ${agent.id.slice(0, 8)} for completed work`,
         },
       },
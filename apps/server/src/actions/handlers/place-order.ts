@@ -0,0 +1,132 @@
+/**
+ * Place Order Action Handler
+ *
+ * Post a limit order in the order book of the shelter (or built market stall)
+ * the agent stands at.
+ * - ask (sell): the items move from inventory into escrow until filled,
+ *   cancelled or expired
+ * - bid (buy): the balance must cover all the agent's open bids; payment
+ *   happens when the order is matched
+ *
+ * Matching runs at the end of every tick (simulation/market.ts).
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, PlaceOrderParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { createMarketOrder, getOpenOrdersForAgent } from '../../db/queries/market';
+import { getInventoryItem, removeFromInventory } from '../../db/queries/inventory';
+import { getSheltersAtPosition } from '../../db/queries/world';
+import { remainingQuantity } from '../../simulation/market';
+import { CONFIG } from '../../config';
+
+export async function handlePlaceOrder(
+  intent: ActionIntent<PlaceOrderParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { side, itemType, quantity, price, expiresInTicks } = intent.params;
+  const { energyCost, maxOpenOrders, orderTtlTicks, maxOrderTtlTicks, maxPrice } = CONFIG.actions.market;
+
+  if (side !== 'bid' && side !== 'ask') {
+    return { success: false, error: `Invalid side: ${side} (use bid to buy, ask to sell)` };
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { success: false, error: 'Quantity must be a positive integer' };
+  }
+  if (!Number.isInteger(price) || price < 1 || price > maxPrice) {
+    return { success: false, error: `Price must be a whole number between 1 and ${maxPrice} CITY` };
+  }
+
+  const [shelter] = await getSheltersAtPosition(agent.x, agent.y);
+  if (!shelter) {
+    return {
+      success: false,
+      error: `Must be at a shelter or market stall to trade on its market. Current position: (${agent.x}, ${agent.y})`,
+    };
+  }
+
+  if (agent.energy < energyCost) {
+    return {
+      success: false,
+      error: `Not enough energy to place an order: need ${energyCost}, have ${agent.energy}`,
+    };
+  }
+
+  const openOrders = await getOpenOrdersForAgent(agent.id);
+  if (openOrders.length >= maxOpenOrders) {
+    return {
+      success: false,
+      error: `Too many open orders (max ${maxOpenOrders}) - cancel one first`,
+    };
+  }
+
+  // No trading with yourself
+  const crossesOwn = openOrders.some(
+    (o) =>
+      o.shelterId === shelter.id &&
+      o.itemType === itemType &&
+      o.side !== side &&
+      (side === 'bid' ? o.price <= price : o.price >= price)
+  );
+  if (crossesOwn) {
+    return { success: false, error: `Order would match your own ${side === 'bid' ? 'ask' : 'bid'} for ${itemType}` };
+  }
+
+  if (side === 'ask') {
+    const item = await getInventoryItem(agent.id, itemType);
+    if (!item || item.quantity < quantity) {
+      return {
+        success: false,
+        error: `Not enough ${itemType} to sell (have: ${item?.quantity ?? 0}, need: ${quantity})`,
+      };
+    }
+    await removeFromInventory(agent.id, itemType, quantity);
+  } else {
+    const committed = openOrders
+      .filter((o) => o.side === 'bid')
+      .reduce((sum, o) => sum + o.price * remainingQuantity(o), 0);
+    const needed = committed + price * quantity;
+    if (agent.balance < needed) {
+      return {
+        success: false,
+        error: `Not enough money to back this bid: open bids need ${needed} CITY, have ${agent.balance}`,
+      };
+    }
+  }
+
+  const ttl = Math.min(Math.max(1, expiresInTicks ?? orderTtlTicks), maxOrderTtlTicks);
+  const order = await createMarketOrder({
+    tenantId: agent.tenantId,
+    shelterId: shelter.id,
+    itemType,
+    agentId: agent.id,
+    side,
+    price,
+    quantity,
+    createdAtTick: intent.tick,
+    expiresAtTick: intent.tick + ttl,
+  });
+
+  return {
+    success: true,
+    changes: { energy: agent.energy - energyCost },
+    events: [
+      {
+        id: uuid(),
+        type: 'market_order_placed',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          orderId: order.id,
+          shelterId: shelter.id,
+          itemType,
+          side,
+          price,
+          quantity,
+          expiresAtTick: order.expiresAtTick,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Propose Trade Action Handler
+ *
+ * First phase of a consent-based trade. The proposer states what they offer
+ * and what they want; nothing moves until the target accepts.
+ *
+ * Flow:
+ * 1. Validate terms, target and distance
+ * 2. Check the proposer currently holds the offered items
+ * 3. Persist an open proposal with an expiry tick
+ * 4. Target sees it in their observation and may accept, reject or counter
+ *
+ * Cost: None
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, ProposeTradeParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { getAgentById } from '../../db/queries/agents';
+import { getInventoryItem } from '../../db/queries/inventory';
+import {
+  createTradeProposal,
+  countOpenTradeProposalsBetween,
+} from '../../db/queries/trade-proposals';
+import { storeMemory } from '../../db/queries/memories';
+import { getDistance } from '../../world/grid';
+import { CONFIG } from '../../config';
+
+interface TradeTerms {
+  offeringItemType: string;
+  offeringQuantity: number;
+  requestingItemType: string;
+  requestingQuantity: number;
+}
+
+/**
+ * Validate the item terms of a proposal or counter-offer.
+ * Returns an error message, or null when the terms are well-formed.
+ */
+export function validateTradeTerms(terms: TradeTerms): string | null {
+  const { offeringItemType, offeringQuantity, requestingItemType, requestingQuantity } = terms;
+
+  if (!offeringItemType || !requestingItemType) {
+    return 'Trade must name both an offered and a requested item type';
+  }
+
+  if (
+    !Number.isInteger(offeringQuantity) ||
+    !Number.isInteger(requestingQuantity) ||
+    offeringQuantity < 1 ||
+    requestingQuantity < 1
+  ) {
+    return 'Trade quantities must be at least 1';
+  }
+
+  return null;
+}
+
+export async function handleProposeTrade(
+  intent: ActionIntent<ProposeTradeParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const {
+    targetAgentId,
+    offeringItemType,
+    offeringQuantity,
+    requestingItemType,
+    requestingQuantity,
+    expiresInTicks = CONFIG.actions.trade.proposalExpiryTicks,
+  } = intent.params;
+
+  const termsError = validateTradeTerms(intent.params);
+  if (termsError) {
+    return { success: false, error: termsError };
+  }
+
+  if (
+    !Number.isInteger(expiresInTicks) ||
+    expiresInTicks < 1 ||
+    expiresInTicks > CONFIG.actions.trade.maxProposalExpiryTicks
+  ) {
+    return {
+      success: false,
+      error: `expiresInTicks must be between 1 and ${CONFIG.actions.trade.maxProposalExpiryTicks}`,
+    };
+  }
+
+  // Cannot trade with self
+  if (targetAgentId === agent.id) {
+    return { success: false, error: 'Cannot trade with yourself' };
+  }
+
+  // Get target agent
+  const targetAgent = await getAgentById(targetAgentId);
+  if (!targetAgent) {
+    return { success: false, error: 'Target agent not found' };
+  }
+
+  if (targetAgent.state === 'dead') {
+    return { success: false, error: 'Cannot trade with a dead agent' };
+  }
+
+  // Proposals are made face to face (same range as direct trade)
+  const distance = getDistance(
+    { x: agent.x, y: agent.y },
+    { x: targetAgent.x, y: targetAgent.y }
+  );
+  if (distance > CONFIG.actions.trade.maxDistance) {
+    return {
+      success: false,
+      error: `Target agent is too far (distance: ${distance}, max: ${CONFIG.actions.trade.maxDistance})`,
+    };
+  }
+
+  // Proposer must hold what they offer now (checked again atomically on accept)
+  const offeredItem = await getInventoryItem(agent.id, offeringItemType);
+  const have = offeredItem?.quantity ?? 0;
+  if (have < offeringQuantity) {
+    return {
+      success: false,
+      error: `Not enough ${offeringItemType} to offer (have: ${have}, need: ${offeringQuantity})`,
+    };
+  }
+
+  // Limit open proposals per pair (prevents spamming a neighbour)
+  const openBetween = await countOpenTradeProposalsBetween(agent.id, targetAgentId);
+  if (openBetween >= CONFIG.actions.trade.maxOpenProposalsPerPair) {
+    return {
+      success: false,
+      error: `Too many open proposals with this agent (max: ${CONFIG.actions.trade.maxOpenProposalsPerPair})`,
+    };
+  }
+
+  const expiresAtTick = intent.tick + expiresInTicks;
+  const proposal = await createTradeProposal({
+    tenantId: agent.tenantId,
+    proposerId: agent.id,
+    targetId: targetAgentId,
+    offeringItemType,
+    offeringQuantity,
+    requestingItemType,
+    requestingQuantity,
+    status: 'open',
+    x: agent.x,
+    y: agent.y,
+    createdAtTick: intent.tick,
+    expiresAtTick,
+  });
+
+  await storeMemory({
+    agentId: targetAgentId,
+    type: 'interaction',
+    content: `${agent.id.slice(0, 8)} proposed a trade: their ${offeringQuantity}x ${offeringItemType} for my ${requestingQuantity}x ${requestingItemType}.`,
+    importance: 4,
+    emotionalValence: 0.1,
+    involvedAgentIds: [agent.id],
+    x: targetAgent.x,
+    y: targetAgent.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'agent_trade_proposed',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId: proposal.id,
+          proposerId: agent.id,
+          targetId: targetAgentId,
+          position: { x: agent.x, y: agent.y },
+          offered: { itemType: offeringItemType, quantity: offeringQuantity },
+          requested: { itemType: requestingItemType, quantity: requestingQuantity },
+          expiresAtTick,
+        },
+      },
+    ],
+  };
+}
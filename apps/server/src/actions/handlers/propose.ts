@@ -0,0 +1,234 @@
+/**
+ * Propose Action Handler - Governance
+ *
+ * Puts a decision to a vote. The scope sets the electorate:
+ * - org: members of an organisation the proposer belongs to
+ * - claim: agents within CONFIG.governance.claimAreaRadius of a claim (proposer must be there)
+ * - world: every living agent
+ *
+ * The proposer chooses the rule (threshold, quorum, equal or stake weighting)
+ * and the outcome applied if it passes:
+ * - tax: levy `amount` CITY from every member into the org treasury (org only)
+ * - banish: expel from the org, or bar from entering the claim area
+ * - shelter_price: set a shelter's price multiplier (claim area or world)
+ * - fiscal_policy: change the public treasury's taxes and spending rules (world only)
+ * - resolution: non-binding statement
+ *
+ * EMERGENT: What gets decided collectively, by whom, and under which rules.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, ProposeParams } from '../types';
+import type { Agent, ProposalOutcomeParams } from '../../db/schema';
+import { countOpenProposalsByAgent, createProposal } from '../../db/queries/governance';
+import { getOrganizationById } from '../../db/queries/organizations';
+import { getClaimById } from '../../db/queries/claims';
+import { getShelterById } from '../../db/queries/world';
+import { getElectorate, isEligibleVoter, isInProposalArea, type ProposalScopeFields } from '../utils/governance';
+import { validateFiscalPolicy } from '../../simulation/fiscal';
+import { CONFIG } from '../../config';
+
+const SCOPES = ['org', 'claim', 'world'] as const;
+const OUTCOMES = ['tax', 'banish', 'shelter_price', 'fiscal_policy', 'resolution'] as const;
+
+export async function handlePropose(
+  intent: ActionIntent<ProposeParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const params = intent.params;
+  const config = CONFIG.governance;
+  const title = params.title?.trim() ?? '';
+  const threshold = params.threshold ?? 0.5;
+  const quorum = params.quorum ?? 0;
+  const weighting = params.weighting ?? 'equal';
+  const votingTicks = params.votingTicks ?? config.defaultVotingTicks;
+
+  // Validate the rule
+  if (!SCOPES.includes(params.scope)) {
+    return { success: false, error: `Invalid scope: ${params.scope}` };
+  }
+  if (!OUTCOMES.includes(params.outcome)) {
+    return { success: false, error: `Invalid outcome: ${params.outcome}` };
+  }
+  if (!title || title.length > config.maxTitleLength) {
+    return { success: false, error: `Title must be 1-${config.maxTitleLength} characters` };
+  }
+  if (threshold < 0 || threshold >= 1) {
+    return { success: false, error: 'threshold must be at least 0 and below 1' };
+  }
+  if (quorum < 0 || quorum > 1) {
+    return { success: false, error: 'quorum must be between 0 and 1' };
+  }
+  if (weighting !== 'equal' && weighting !== 'stake') {
+    return { success: false, error: 'weighting must be "equal" or "stake"' };
+  }
+  if (votingTicks < config.minVotingTicks || votingTicks > config.maxVotingTicks) {
+    return {
+      success: false,
+      error: `votingTicks must be between ${config.minVotingTicks} and ${config.maxVotingTicks}`,
+    };
+  }
+
+  // Check resources
+  if (agent.energy < config.proposalEnergyCost) {
+    return {
+      success: false,
+      error: `Not enough energy (have: ${agent.energy}, need: ${config.proposalEnergyCost})`,
+    };
+  }
+  if ((await countOpenProposalsByAgent(agent.id)) >= config.maxOpenProposalsPerAgent) {
+    return {
+      success: false,
+      error: `Already have ${config.maxOpenProposalsPerAgent} open proposals`,
+    };
+  }
+
+  // Resolve the scope
+  const scope: ProposalScopeFields = {
+    tenantId: agent.tenantId,
+    scopeType: params.scope,
+    scopeId: null,
+    areaX: null,
+    areaY: null,
+    areaRadius: null,
+  };
+  if (params.scope === 'org') {
+    const org = params.scopeId ? await getOrganizationById(params.scopeId) : undefined;
+    if (!org || org.status !== 'active') {
+      return { success: false, error: `Organisation not found: ${params.scopeId}` };
+    }
+    scope.scopeId = org.id;
+  } else if (params.scope === 'claim') {
+    const claim = params.scopeId ? await getClaimById(params.scopeId) : null;
+    if (!claim || claim.tenantId !== agent.tenantId) {
+      return { success: false, error: `Claim not found: ${params.scopeId}` };
+    }
+    scope.scopeId = claim.id;
+    scope.areaX = claim.x;
+    scope.areaY = claim.y;
+    scope.areaRadius = config.claimAreaRadius;
+  }
+  if (!(await isEligibleVoter(scope, agent))) {
+    return {
+      success: false,
+      error: params.scope === 'org'
+        ? 'Only members can make proposals in an organisation'
+        : `Must be within ${config.claimAreaRadius} tiles of the claim to make a proposal there`,
+    };
+  }
+
+  // Validate the outcome for this scope
+  const outcomeParams: ProposalOutcomeParams = {};
+  switch (params.outcome) {
+    case 'tax': {
+      if (params.scope !== 'org') {
+        return {
+          success: false,
+          error: 'Tax proposals need an organisation treasury (scope "org"); use fiscal_policy for public taxes',
+        };
+      }
+      const amount = params.amount ?? 0;
+      if (amount <= 0 || amount > config.maxTaxAmount) {
+        return { success: false, error: `Tax amount must be above 0 and at most ${config.maxTaxAmount}` };
+      }
+      outcomeParams.amount = amount;
+      break;
+    }
+    case 'banish': {
+      if (params.scope === 'world') {
+        return { success: false, error: 'Banishment applies to an organisation or a claim area' };
+      }
+      if (!params.targetAgentId) {
+        return { success: false, error: 'Banishment requires targetAgentId' };
+      }
+      if (params.targetAgentId === agent.id) {
+        return { success: false, error: 'Cannot propose banishing yourself' };
+      }
+      outcomeParams.targetAgentId = params.targetAgentId;
+      break;
+    }
+    case 'shelter_price': {
+      if (params.scope === 'org') {
+        return { success: false, error: 'Shelter prices are decided by a claim area or the world' };
+      }
+      const shelter = params.shelterId ? await getShelterById(params.shelterId) : undefined;
+      if (!shelter || shelter.tenantId !== agent.tenantId) {
+        return { success: false, error: `Shelter not found: ${params.shelterId}` };
+      }
+      if (params.scope === 'claim' && !isInProposalArea(scope, shelter)) {
+        return { success: false, error: 'Shelter is outside the claim area' };
+      }
+      const multiplier = params.priceMultiplier ?? 1;
+      if (multiplier < config.minShelterPriceMultiplier || multiplier > config.maxShelterPriceMultiplier) {
+        return {
+          success: false,
+          error: `priceMultiplier must be between ${config.minShelterPriceMultiplier} and ${config.maxShelterPriceMultiplier}`,
+        };
+      }
+      outcomeParams.shelterId = shelter.id;
+      outcomeParams.priceMultiplier = multiplier;
+      break;
+    }
+    case 'fiscal_policy': {
+      if (params.scope !== 'world') {
+        return { success: false, error: 'Fiscal policy is decided by the whole world (scope "world")' };
+      }
+      const fiscalPolicy: NonNullable<ProposalOutcomeParams['fiscalPolicy']> = {};
+      for (const field of ['transactionTaxRate', 'wealthTaxRate', 'wealthTaxThreshold', 'redistributionShare'] as const) {
+        if (params[field] !== undefined) fiscalPolicy[field] = params[field];
+      }
+      if (params.publicWorkFunding !== undefined) fiscalPolicy.publicWorkFunding = params.publicWorkFunding;
+      const policyError = validateFiscalPolicy(fiscalPolicy);
+      if (policyError) {
+        return { success: false, error: policyError };
+      }
+      outcomeParams.fiscalPolicy = fiscalPolicy;
+      break;
+    }
+    case 'resolution':
+      outcomeParams.text = title;
+      break;
+  }
+
+  const electorate = await getElectorate(scope);
+  const proposal = await createProposal({
+    ...scope,
+    proposerId: agent.id,
+    title,
+    outcomeType: params.outcome,
+    outcomeParams,
+    threshold,
+    quorum,
+    weighting,
+    createdAtTick: intent.tick,
+    closesAtTick: intent.tick + votingTicks,
+  });
+
+  return {
+    success: true,
+    changes: { energy: agent.energy - config.proposalEnergyCost },
+    events: [
+      {
+        id: uuid(),
+        type: 'proposal_created',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId: proposal.id,
+          title,
+          scopeType: scope.scopeType,
+          scopeId: scope.scopeId,
+          outcomeType: params.outcome,
+          outcomeParams,
+          threshold,
+          quorum,
+          weighting,
+          closesAtTick: proposal.closesAtTick,
+          electorateSize: electorate.length,
+          position: { x: agent.x, y: agent.y },
+        },
+      },
+    ],
+  };
+}
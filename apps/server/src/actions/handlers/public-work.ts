@@ -7,6 +7,10 @@
  *
  * Available at any shelter.
  * Lower pay than private employment, but always available.
+ *
+ * Pay is new money ('mint' funding) or comes out of the public treasury
+ * ('treasury' funding), as set by the world's fiscal policy. Under treasury
+ * funding public work stops when the treasury cannot cover a task.
  */
 
 import { v4 as uuid } from 'uuid';
@@ -15,6 +19,8 @@ import type { Agent } from '../../db/schema';
 import { getSheltersAtPosition } from '../../db/queries/world';
 import { storeMemory } from '../../db/queries/memories';
 import { getAliveAgents } from '../../db/queries/agents';
+import { getTreasury } from '../../db/queries/fiscal';
+import { transfer, transferWithTreasury } from '../../ledger';
 import { CONFIG } from '../../config';
 
 /**
@@ -97,6 +103,16 @@ export async function handlePublicWork(
     };
   }
 
+  // Check the public treasury can pay (treasury funding)
+  const treasury = await getTreasury(agent.tenantId);
+  const fromTreasury = treasury.publicWorkFunding === 'treasury';
+  if (fromTreasury && treasury.balance < config.paymentPerTask) {
+    return {
+      success: false,
+      error: `The public treasury cannot fund public works right now (has ${treasury.balance}, a task pays ${config.paymentPerTask}).`,
+    };
+  }
+
   // Check energy
   if (agent.energy < config.energyCostPerTick) {
     return {
@@ -153,7 +169,15 @@ export async function handlePublicWork(
     }
 
     payment = Math.floor(config.paymentPerTask * paymentModifier);
-    newBalance = agent.balance + payment;
+    if (fromTreasury) payment = Math.min(payment, Math.floor(treasury.balance));
+
+    // Record the payment: public spending from the treasury, or newly issued money
+    const description = `Public works: ${taskType}`;
+    const paid = fromTreasury
+      ? await transferWithTreasury(agent.tenantId, agent.id, 'payout', payment, 'public_spending', description, intent.tick)
+      : await transfer(null, agent.id, payment, 'money_issued', description, intent.tick);
+    if (!paid.success) payment = 0;
+    newBalance = paid.success ? paid.toNewBalance ?? agent.balance + payment : agent.balance;
     activeSessions.delete(agent.id);
 
     await storeMemory({
@@ -198,6 +222,7 @@ export async function handlePublicWork(
           ticksRequired: config.ticksPerTask,
           isComplete,
           payment,
+          funding: treasury.publicWorkFunding,
           energyCost: config.energyCostPerTick,
           newEnergy,
           newBalance: isComplete ? newBalance : agent.balance,
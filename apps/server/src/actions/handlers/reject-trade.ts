@@ -0,0 +1,81 @@
+/**
+ * Reject Trade Action Handler
+ *
+ * Declines an open trade proposal addressed to this agent.
+ * Nothing moves; the proposer remembers the refusal and loses a little trust.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, RejectTradeParams } from '../types';
+import type { Agent } from '../../db/schema';
+import {
+  getTradeProposalById,
+  updateTradeProposalStatus,
+} from '../../db/queries/trade-proposals';
+import { updateRelationshipTrust, storeMemory } from '../../db/queries/memories';
+import { CONFIG } from '../../config';
+
+export async function handleRejectTrade(
+  intent: ActionIntent<RejectTradeParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { proposalId, reason } = intent.params;
+
+  const proposal = await getTradeProposalById(proposalId);
+  if (!proposal) {
+    return { success: false, error: `Trade proposal not found: ${proposalId}` };
+  }
+
+  if (proposal.targetId !== agent.id) {
+    return { success: false, error: 'This trade proposal is not addressed to you' };
+  }
+
+  const updated = await updateTradeProposalStatus(proposalId, 'rejected', intent.tick);
+  if (!updated) {
+    return {
+      success: false,
+      error: `Trade proposal is no longer open (status: ${proposal.status})`,
+    };
+  }
+
+  const summary = `${proposal.offeringQuantity}x ${proposal.offeringItemType} for ${proposal.requestingQuantity}x ${proposal.requestingItemType}`;
+
+  await updateRelationshipTrust(
+    proposal.proposerId,
+    agent.id,
+    CONFIG.actions.trade.trustLossOnFailure,
+    intent.tick,
+    `Trade proposal rejected: ${summary}`
+  );
+
+  await storeMemory({
+    agentId: proposal.proposerId,
+    type: 'interaction',
+    content: `${agent.id.slice(0, 8)} rejected my trade offer of ${summary}.${reason ? ` They said: "${reason}"` : ''}`,
+    importance: 4,
+    emotionalValence: -0.2,
+    involvedAgentIds: [agent.id],
+    x: proposal.x,
+    y: proposal.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'agent_trade_rejected',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId,
+          proposerId: proposal.proposerId,
+          targetId: agent.id,
+          reason,
+        },
+      },
+    ],
+  };
+}
@@ -2,7 +2,8 @@
  * Revoke Credential Action Handler - Phase 4: Verifiable Credentials (§34)
  *
  * Allows issuers to revoke previously issued credentials.
- * Only the original issuer can revoke a credential.
+ * Only the original issuer can revoke a credential, and the revocation is
+ * signed with the issuer's key so revocation lists can be verified.
  */
 
 import { v4 as uuid } from 'uuid';
@@ -10,6 +11,8 @@ import type { ActionIntent, ActionResult, RevokeCredentialParams } from '../type
 import type { Agent } from '../../db/schema';
 import { revokeCredential, getCredentialById } from '../../db/queries/credentials';
 import { storeMemory } from '../../db/queries/memories';
+import { revocationSigningPayload } from '../../crypto/signing';
+import { getAgentKeyService } from '../../services/agent-key-service';
 
 export async function handleRevokeCredential(
   intent: ActionIntent<RevokeCredentialParams>,
@@ -42,8 +45,24 @@ export async function handleRevokeCredential(
     };
   }
 
+  // Sign the revocation with the issuer's private key
+  let revocationSignature: string;
+  try {
+    revocationSignature = await getAgentKeyService().sign(
+      agent.id,
+      revocationSigningPayload(credentialId, agent.id, intent.tick),
+      agent.tenantId
+    );
+  } catch (error) {
+    console.error(`[RevokeCredential] Signing failed for ${agent.id}:`, error);
+    return {
+      success: false,
+      error: 'Credential signing is unavailable',
+    };
+  }
+
   // Attempt to revoke
-  const result = await revokeCredential(credentialId, agent.id, intent.tick);
+  const result = await revokeCredential(credentialId, agent.id, intent.tick, revocationSignature);
 
   if (!result.success) {
     return {
@@ -0,0 +1,172 @@
+/**
+ * Send Message Action Handler - Direct agent-to-agent messaging
+ *
+ * Sends free text to one agent. The recipient reads it in their inbox
+ * (AgentObservation.inbox) on the next ticks.
+ *
+ * Reachability:
+ * - nearby: any living agent within talking range
+ * - known: an agent you know about (direct contact or referral), further away
+ *
+ * Threading: a message starts a new conversation unless it replies to a
+ * message (replyTo) or continues a conversation the sender is part of.
+ *
+ * When synthetic vocabulary is enabled, the recipient gets the text with
+ * loaded terms replaced. Both versions are stored for linguistic analysis.
+ *
+ * EMERGENT: Private coordination, negotiation, shared language.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, SendMessageParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { getAgentById } from '../../db/queries/agents';
+import { getKnowledge } from '../../db/queries/knowledge';
+import { storeMemory } from '../../db/queries/memories';
+import { createMessage, getMessageById, isConversationParticipant } from '../../db/queries/messages';
+import { applySyntheticVocabulary, isSyntheticVocabularyEnabled } from '../../llm/prompts/synthetic-vocabulary';
+import { getDistance } from '../../world/grid';
+import { CONFIG } from '../../config';
+
+export async function handleSendMessage(
+  intent: ActionIntent<SendMessageParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { targetAgentId, replyTo } = intent.params;
+  const config = CONFIG.actions.sendMessage;
+  const content = intent.params.content?.trim() ?? '';
+
+  // Validate content
+  if (!content) {
+    return { success: false, error: 'Message content is empty' };
+  }
+  if (content.length > config.maxLength) {
+    return {
+      success: false,
+      error: `Message too long (${content.length} chars, max ${config.maxLength})`,
+    };
+  }
+
+  // Cannot message self
+  if (targetAgentId === agent.id) {
+    return { success: false, error: 'Cannot send a message to yourself' };
+  }
+
+  // Get target agent
+  const targetAgent = await getAgentById(targetAgentId);
+  if (!targetAgent) {
+    return { success: false, error: 'Target agent not found' };
+  }
+  if (targetAgent.state === 'dead') {
+    return { success: false, error: 'Cannot communicate with dead agent' };
+  }
+
+  // Check reachability: talking range, or an agent we know about
+  const distance = getDistance({ x: agent.x, y: agent.y }, { x: targetAgent.x, y: targetAgent.y });
+  let channel: 'nearby' | 'known' = 'nearby';
+  if (distance > config.maxDistance) {
+    const knowsTarget = !!(await getKnowledge(agent.id, targetAgentId));
+    const inKnownRange = config.knownAgentMaxDistance === 0 || distance <= config.knownAgentMaxDistance;
+    if (!knowsTarget || !inKnownRange) {
+      return {
+        success: false,
+        error: knowsTarget
+          ? `Target too far to message (distance: ${distance}, max: ${config.knownAgentMaxDistance})`
+          : `Target too far to message (distance: ${distance}, max: ${config.maxDistance}) and not an agent you know`,
+      };
+    }
+    channel = 'known';
+  }
+
+  // Check energy
+  if (agent.energy < config.energyCost) {
+    return {
+      success: false,
+      error: `Not enough energy (have: ${agent.energy}, need: ${config.energyCost})`,
+    };
+  }
+
+  // Resolve the conversation
+  let conversationId = uuid();
+  let replyToId: string | null = null;
+  if (replyTo) {
+    const original = await getMessageById(replyTo);
+    if (!original || (original.senderId !== agent.id && original.recipientId !== agent.id)) {
+      return { success: false, error: 'Message to reply to not found' };
+    }
+    conversationId = original.conversationId;
+    replyToId = original.id;
+  } else if (intent.params.conversationId) {
+    if (!(await isConversationParticipant(intent.params.conversationId, agent.id))) {
+      return { success: false, error: 'Conversation not found' };
+    }
+    conversationId = intent.params.conversationId;
+  }
+
+  const synthetic = isSyntheticVocabularyEnabled();
+  const deliveredContent = applySyntheticVocabulary(content, synthetic);
+
+  const message = await createMessage({
+    tenantId: agent.tenantId,
+    conversationId,
+    replyToId,
+    senderId: agent.id,
+    recipientId: targetAgentId,
+    content,
+    deliveredContent,
+    vocabulary: synthetic ? 'synthetic' : 'natural',
+    channel,
+    distance,
+    x: agent.x,
+    y: agent.y,
+    sentAtTick: intent.tick,
+  });
+
+  // Store in the recipient's memory
+  await storeMemory({
+    agentId: targetAgentId,
+    type: 'interaction',
+    content: `Received a message from another agent: "${truncate(deliveredContent, 80)}"`,
+    importance: 4,
+    emotionalValence: 0.1,
+    involvedAgentIds: [agent.id],
+    x: targetAgent.x,
+    y: targetAgent.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    changes: { energy: Math.max(0, agent.energy - config.energyCost) },
+    events: [
+      {
+        id: uuid(),
+        type: 'agent_message_sent',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          messageId: message.id,
+          conversationId,
+          replyToId,
+          senderId: agent.id,
+          recipientId: targetAgentId,
+          content,
+          deliveredContent,
+          vocabulary: message.vocabulary,
+          channel,
+          distance,
+          wordCount: content.split(/\s+/).length,
+          position: { x: agent.x, y: agent.y },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Truncate string for storage
+ */
+function truncate(str: string, maxLen: number): string {
+  return str.length > maxLen ? str.slice(0, maxLen) + '...' : str;
+}
@@ -1,12 +1,14 @@
 /**
  * Steal Action Handler - Phase 2: Conflict Actions
  *
- * Take items from another agent's inventory without consent.
+ * Take items from another agent's inventory, or from a container, without consent.
  * System imposes:
  * - Adjacency requirement
  * - Energy cost
  * - Success probability
  * - Item transfer
+ * - Container theft: always succeeds, but may be discovered (certain if the
+ *   owner is nearby, otherwise a chance that grows with witnesses)
  *
  * EMERGENT: Property rights, punishment, guards, locks - all emerge from agent behavior.
  */
@@ -16,10 +18,12 @@ import type { ActionIntent, ActionResult, StealParams } from '../types';
 import type { Agent } from '../../db/schema';
 import { getAgentById } from '../../db/queries/agents';
 import { getInventoryItem, addToInventory, removeFromInventory } from '../../db/queries/inventory';
+import { getContainerAccess, getContainerById, removeFromContainer } from '../../db/queries/containers';
 import { updateRelationshipTrust, storeMemory } from '../../db/queries/memories';
 import { checkIsRetaliation, recordRetaliationChain } from '../../db/queries/roles';
 import { getDistance } from '../../world/grid';
 import { findWitnesses } from '../utils/witnesses';
+import { hasContainerPermission, loadAccessSubject } from '../utils/container-access';
 import { CONFIG } from '../../config';
 import { random } from '../../utils/random';
 
@@ -30,7 +34,7 @@ export async function handleSteal(
   intent: ActionIntent<StealParams>,
   agent: Agent
 ): Promise<ActionResult> {
-  const { targetAgentId, targetItemType, quantity } = intent.params;
+  const { targetAgentId, targetContainerId, targetItemType, quantity } = intent.params;
 
   // Validate quantity
   if (quantity < 1) {
@@ -44,6 +48,14 @@ export async function handleSteal(
     };
   }
 
+  if (targetContainerId) {
+    return stealFromContainer(intent, agent, targetContainerId);
+  }
+
+  if (!targetAgentId) {
+    return { success: false, error: 'Steal requires targetAgentId or targetContainerId' };
+  }
+
   // Cannot steal from self
   if (targetAgentId === agent.id) {
     return { success: false, error: 'Cannot steal from yourself' };
@@ -268,3 +280,170 @@ export async function handleSteal(
     };
   }
 }
+
+/**
+ * Take items from a container without withdraw access
+ */
+async function stealFromContainer(
+  intent: ActionIntent<StealParams>,
+  agent: Agent,
+  containerId: string
+): Promise<ActionResult> {
+  const { targetItemType, quantity } = intent.params;
+  const { energyCost, maxDistance, witnessRadius } = CONFIG.actions.steal;
+
+  const container = await getContainerById(containerId);
+  if (!container) {
+    return { success: false, error: 'Target container not found' };
+  }
+
+  const distance = getDistance({ x: agent.x, y: agent.y }, { x: container.x, y: container.y });
+  if (distance > maxDistance) {
+    return {
+      success: false,
+      error: `Container too far (distance: ${distance}, max: ${maxDistance})`,
+    };
+  }
+
+  // Agents allowed to take from the container should just withdraw
+  const entries = await getContainerAccess(container.id);
+  const subject = await loadAccessSubject(agent.id, intent.tick);
+  if (hasContainerPermission(container, entries, subject, 'withdraw')) {
+    return { success: false, error: 'You have withdraw access to this container - use withdraw' };
+  }
+
+  if (agent.energy < energyCost) {
+    return {
+      success: false,
+      error: `Not enough energy (have: ${agent.energy}, need: ${energyCost})`,
+    };
+  }
+
+  const remaining = await removeFromContainer(container.id, targetItemType, quantity);
+  if (remaining < 0) {
+    return {
+      success: false,
+      error: `Container doesn't hold ${quantity}x ${targetItemType}`,
+    };
+  }
+  await addToInventory(agent.id, targetItemType, quantity);
+
+  const newEnergy = Math.max(0, agent.energy - energyCost);
+  const newHunger = Math.max(0, agent.hunger - HUNGER_COST);
+  const ownerId = container.ownerAgentId;
+  const where = `(${container.x}, ${container.y})`;
+
+  // Discovery: certain if the owner is watching, otherwise up to chance
+  const nearby = await findWitnesses(agent.id, '', { x: container.x, y: container.y }, witnessRadius);
+  const ownerPresent = nearby.some((a) => a.id === ownerId);
+  const witnesses = nearby.filter((a) => a.id !== ownerId);
+  const detectionChance = ownerPresent
+    ? 1
+    : Math.min(
+        1,
+        CONFIG.actions.steal.containerDetectionChance +
+          witnesses.length * CONFIG.actions.steal.containerDetectionPerWitness
+      );
+  const detected = ownerPresent || random() < detectionChance;
+
+  if (ownerId) {
+    if (detected) {
+      const retaliationCheck = await checkIsRetaliation(agent.id, ownerId);
+      await recordRetaliationChain(
+        agent.id,
+        ownerId,
+        'steal',
+        intent.tick,
+        retaliationCheck.isRetaliation ? retaliationCheck.existingChainId : null,
+        retaliationCheck.isRetaliation ? retaliationCheck.depth : 0
+      );
+
+      await updateRelationshipTrust(
+        ownerId,
+        agent.id,
+        CONFIG.actions.steal.trustImpactVictim,
+        intent.tick,
+        `Stole ${quantity}x ${targetItemType} from my container`
+      );
+    }
+
+    await storeMemory({
+      agentId: ownerId,
+      type: 'interaction',
+      content: detected
+        ? `Agent ${agent.id.slice(0, 8)} stole ${quantity}x ${targetItemType} from my container at ${where}.`
+        : `${quantity}x ${targetItemType} went missing from my container at ${where}. I don't know who took it.`,
+      importance: 8,
+      emotionalValence: detected ? -0.9 : -0.6,
+      involvedAgentIds: detected ? [agent.id] : [],
+      x: container.x,
+      y: container.y,
+      tick: intent.tick,
+    });
+  }
+
+  if (detected) {
+    for (const witness of witnesses) {
+      await updateRelationshipTrust(
+        witness.id,
+        agent.id,
+        CONFIG.actions.steal.trustImpactWitness,
+        intent.tick,
+        `Witnessed stealing from a container`
+      );
+
+      await storeMemory({
+        agentId: witness.id,
+        type: 'observation',
+        content: `Witnessed an agent steal items from a container at ${where}.`,
+        importance: 5,
+        emotionalValence: -0.5,
+        involvedAgentIds: ownerId ? [agent.id, ownerId] : [agent.id],
+        x: witness.x,
+        y: witness.y,
+        tick: intent.tick,
+      });
+    }
+  }
+
+  await storeMemory({
+    agentId: agent.id,
+    type: 'action',
+    content: detected
+      ? `Stole ${quantity}x ${targetItemType} from a container at ${where}, but I was seen.`
+      : `Stole ${quantity}x ${targetItemType} from a container at ${where} without being noticed.`,
+    importance: 6,
+    emotionalValence: detected ? -0.1 : 0.2,
+    involvedAgentIds: ownerId ? [ownerId] : [],
+    x: agent.x,
+    y: agent.y,
+    tick: intent.tick,
+  });
+
+  return {
+    success: true,
+    changes: { energy: newEnergy, hunger: newHunger },
+    events: [
+      {
+        id: uuid(),
+        type: 'container_theft',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          thiefId: agent.id,
+          containerId: container.id,
+          ownerAgentId: ownerId,
+          itemType: targetItemType,
+          quantity,
+          detected,
+          detectionChance,
+          witnessIds: detected ? witnesses.map((w) => w.id) : [],
+          position: { x: container.x, y: container.y },
+          energyCost,
+          hungerCost: HUNGER_COST,
+        },
+      },
+    ],
+  };
+}
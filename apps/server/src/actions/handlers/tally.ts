@@ -0,0 +1,204 @@
+/**
+ * Tally Action Handler - Governance
+ *
+ * Counts the votes on a proposal once voting has closed (or everyone in the
+ * electorate has voted) and applies its outcome if it passed. Any agent of
+ * the world can call the tally; the result is stored for analytics.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, TallyParams } from '../types';
+import type { Agent, Proposal } from '../../db/schema';
+import {
+  createBanishment,
+  getProposalById,
+  getVotesForProposal,
+  recordOutcome,
+  recordTally,
+} from '../../db/queries/governance';
+import {
+  endMembership,
+  getActiveMembers,
+  getActiveMembership,
+  transferFounder,
+} from '../../db/queries/organizations';
+import { getAgentById } from '../../db/queries/agents';
+import { setShelterPriceMultiplier } from '../../db/queries/world';
+import { updateFiscalPolicy } from '../../db/queries/fiscal';
+import { storeMemory } from '../../db/queries/memories';
+import { transferWithOrg } from '../../ledger';
+import { describeProposalOutcome, getElectorate, tallyVotes } from '../utils/governance';
+import { CONFIG } from '../../config';
+
+interface OutcomeResult {
+  applied: boolean;
+  note: string | null;
+  tallierBalance?: number; // Set when the tallying agent paid a tax
+}
+
+export async function handleTally(
+  intent: ActionIntent<TallyParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const proposal = await getProposalById(intent.params.proposalId);
+  if (!proposal || proposal.tenantId !== agent.tenantId) {
+    return { success: false, error: `Proposal not found: ${intent.params.proposalId}` };
+  }
+  if (proposal.status !== 'open') {
+    return { success: false, error: `"${proposal.title}" was already tallied (${proposal.status})` };
+  }
+
+  const [electorate, votes] = await Promise.all([getElectorate(proposal), getVotesForProposal(proposal.id)]);
+  const voterIds = new Set(votes.map((v) => v.voterId));
+  const electorateSize = new Set([...electorate, ...voterIds]).size;
+
+  // Early tally only once everyone eligible has voted
+  if (intent.tick < proposal.closesAtTick && electorate.some((id) => !voterIds.has(id))) {
+    return {
+      success: false,
+      error: `Voting on "${proposal.title}" is open until tick ${proposal.closesAtTick}`,
+    };
+  }
+
+  const result = tallyVotes(votes, electorateSize, proposal);
+  const recorded = await recordTally(proposal.id, {
+    status: result.status,
+    talliedAtTick: intent.tick,
+    talliedBy: agent.id,
+    electorateSize,
+    yesWeight: result.yesWeight,
+    noWeight: result.noWeight,
+    abstainWeight: result.abstainWeight,
+  });
+  if (!recorded) {
+    return { success: false, error: `"${proposal.title}" was already tallied` };
+  }
+
+  let outcome: OutcomeResult | undefined;
+  if (result.status === 'passed') {
+    outcome = await applyOutcome(proposal, agent, intent.tick);
+    await recordOutcome(proposal.id, outcome.applied, outcome.note);
+  }
+
+  return {
+    success: true,
+    changes: outcome?.tallierBalance !== undefined ? { balance: outcome.tallierBalance } : undefined,
+    events: [
+      {
+        id: uuid(),
+        type: 'proposal_tallied',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId: proposal.id,
+          title: proposal.title,
+          proposerId: proposal.proposerId,
+          scopeType: proposal.scopeType,
+          scopeId: proposal.scopeId,
+          status: result.status,
+          yesWeight: result.yesWeight,
+          noWeight: result.noWeight,
+          abstainWeight: result.abstainWeight,
+          turnout: Math.round(result.turnout * 1000) / 1000,
+          electorateSize,
+          outcomeType: proposal.outcomeType,
+          outcomeApplied: outcome?.applied ?? false,
+          outcomeNote: outcome?.note ?? null,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Apply the binding outcome of a passed proposal
+ */
+async function applyOutcome(proposal: Proposal, tallier: Agent, tick: number): Promise<OutcomeResult> {
+  const params = proposal.outcomeParams;
+
+  switch (proposal.outcomeType) {
+    case 'tax': {
+      if (!proposal.scopeId || !params.amount) return { applied: false, note: 'No organisation or amount' };
+      let collected = 0;
+      let payers = 0;
+      let tallierBalance: number | undefined;
+      for (const member of await getActiveMembers(proposal.scopeId)) {
+        const payer = member.agentId === tallier.id ? tallier : await getAgentById(member.agentId);
+        const due = Math.min(params.amount, Math.max(0, payer?.balance ?? 0));
+        if (!payer || due <= 0) continue;
+        const transfer = await transferWithOrg(proposal.scopeId, payer.id, 'deposit', due, `Tax: ${proposal.title}`, tick);
+        if (!transfer.success) continue;
+        collected += due;
+        payers++;
+        if (payer.id === tallier.id) tallierBalance = transfer.fromNewBalance;
+      }
+      return { applied: payers > 0, note: `Collected ${collected} CITY from ${payers} members`, tallierBalance };
+    }
+
+    case 'banish': {
+      const targetId = params.targetAgentId;
+      if (!targetId) return { applied: false, note: 'No target agent' };
+
+      if (proposal.scopeType === 'org' && proposal.scopeId) {
+        const membership = await getActiveMembership(proposal.scopeId, targetId);
+        if (!membership || !(await endMembership(membership.id, 'expelled', tick))) {
+          return { applied: false, note: 'Target is no longer a member' };
+        }
+        if (membership.role === 'founder') {
+          const [successor] = await getActiveMembers(proposal.scopeId);
+          if (successor) await transferFounder(proposal.scopeId, successor);
+        }
+      } else if (proposal.areaX !== null && proposal.areaY !== null && proposal.areaRadius !== null) {
+        if (!(await getAgentById(targetId))) return { applied: false, note: 'Target agent not found' };
+        const duration = CONFIG.governance.banishmentTicks;
+        await createBanishment({
+          tenantId: proposal.tenantId,
+          agentId: targetId,
+          proposalId: proposal.id,
+          claimId: proposal.scopeId,
+          x: proposal.areaX,
+          y: proposal.areaY,
+          radius: proposal.areaRadius,
+          startedAtTick: tick,
+          expiresAtTick: duration > 0 ? tick + duration : null,
+        });
+      } else {
+        return { applied: false, note: 'Banishment needs an organisation or claim area' };
+      }
+
+      await storeMemory({
+        agentId: targetId,
+        type: 'interaction',
+        content: `Was banished by vote: "${proposal.title}"`,
+        importance: 8,
+        emotionalValence: -0.6,
+        involvedAgentIds: proposal.proposerId ? [proposal.proposerId] : [],
+        x: proposal.areaX ?? tallier.x,
+        y: proposal.areaY ?? tallier.y,
+        tick,
+      });
+      return { applied: true, note: null };
+    }
+
+    case 'shelter_price': {
+      if (!params.shelterId || params.priceMultiplier === undefined) {
+        return { applied: false, note: 'No shelter or multiplier' };
+      }
+      const shelter = await setShelterPriceMultiplier(params.shelterId, params.priceMultiplier);
+      return shelter
+        ? { applied: true, note: `Prices at (${shelter.x}, ${shelter.y}) now x${params.priceMultiplier}` }
+        : { applied: false, note: 'Shelter no longer exists' };
+    }
+
+    case 'fiscal_policy': {
+      if (!params.fiscalPolicy) return { applied: false, note: 'No fiscal policy' };
+      await updateFiscalPolicy(proposal.tenantId, params.fiscalPolicy, 'governance', tick);
+      return { applied: true, note: `Fiscal policy now ${describeProposalOutcome(proposal.outcomeType, params)}` };
+    }
+
+    default:
+      // Resolutions are non-binding
+      return { applied: true, note: null };
+  }
+}
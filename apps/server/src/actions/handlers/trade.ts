@@ -1,128 +1,73 @@
 /**
- * Trade Action Handler - Phase 1: Emergence Observation
+ * Item Exchange - the settlement step of consent-based trade
  *
- * Direct agent-to-agent item exchange.
- * Trade is immediate (synchronous) - if both parties have the items, trade executes.
- *
- * This implementation represents a "direct barter" system.
- * More complex systems (proposals, negotiations) can emerge from agent behavior.
- *
- * Cost: None (just item exchange)
- * Effect: Items transferred between inventories, trust updated
+ * Trades are offered with propose_trade and only settle when the target
+ * answers with accept_trade. There is no direct barter: items never move
+ * without the target's consent.
  */
 
 import { v4 as uuid } from 'uuid';
 import { eq, and, sql } from 'drizzle-orm';
-import type { ActionIntent, ActionResult } from '../types';
-import type { Agent } from '../../db/schema';
-import { db, inventory } from '../../db';
-import { getAgentById } from '../../db/queries/agents';
-import { getInventoryItem } from '../../db/queries/inventory';
-import { updateRelationshipTrust, storeMemory } from '../../db/queries/memories';
-import { getDistance } from '../../world/grid';
-import { CONFIG } from '../../config';
-import { getAgentRelationships } from '../../db/queries/memories';
+import { db, inventory, tradeProposals } from '../../db';
 
-export interface TradeParams {
-  targetAgentId: string;
-  offeringItemType: string;
+// =============================================================================
+// Atomic Item Exchange
+// =============================================================================
+
+export interface ItemExchange {
+  initiatorId: string;
+  targetId: string;
+  offeringItemType: string; // Moves from initiator to target
   offeringQuantity: number;
-  requestingItemType: string;
+  requestingItemType: string; // Moves from target to initiator
   requestingQuantity: number;
+  proposalId: string; // Open proposal this exchange settles
+  tick: number;
 }
 
-export async function handleTrade(
-  intent: ActionIntent<TradeParams>,
-  agent: Agent
-): Promise<ActionResult> {
+/**
+ * Swap items between two inventories in a single transaction.
+ * ALL inventory checks are done INSIDE the transaction to prevent TOCTOU race conditions.
+ *
+ * Called by accept_trade once the target has agreed to a proposal. The proposal
+ * is marked accepted in the same transaction, before any items move, so it can
+ * only be settled once; a failed swap leaves it open.
+ * Returns an error message, or null when the exchange succeeded.
+ */
+export async function executeItemExchange(exchange: ItemExchange): Promise<string | null> {
   const {
-    targetAgentId,
+    initiatorId,
+    targetId,
     offeringItemType,
     offeringQuantity,
     requestingItemType,
     requestingQuantity,
-  } = intent.params;
-
-  // Validate quantities
-  if (offeringQuantity < 1 || requestingQuantity < 1) {
-    return {
-      success: false,
-      error: 'Trade quantities must be at least 1',
-    };
-  }
-
-  // Cannot trade with self
-  if (targetAgentId === agent.id) {
-    return {
-      success: false,
-      error: 'Cannot trade with yourself',
-    };
-  }
-
-  // Get target agent
-  const targetAgent = await getAgentById(targetAgentId);
-  if (!targetAgent) {
-    return {
-      success: false,
-      error: 'Target agent not found',
-    };
-  }
-
-  // Check target agent is alive
-  if (targetAgent.state === 'dead') {
-    return {
-      success: false,
-      error: 'Cannot trade with a dead agent',
-    };
-  }
-
-  // Check distance (agents must be nearby to trade)
-  const distance = getDistance(
-    { x: agent.x, y: agent.y },
-    { x: targetAgent.x, y: targetAgent.y }
-  );
-  if (distance > CONFIG.actions.trade.maxDistance) {
-    return {
-      success: false,
-      error: `Target agent is too far (distance: ${distance}, max: ${CONFIG.actions.trade.maxDistance})`,
-    };
-  }
-
-  // Phase 6: Calculate trade bonuses based on trust and loyalty
-  // Fetch relationships before transaction for bonus calculation
-  const relationships = await getAgentRelationships(agent.id);
-  const relationship = relationships.find(r => r.otherAgentId === targetAgentId);
-  const trustLevel = relationship?.trustScore ?? 0;
-  const interactionCount = relationship?.interactionCount ?? 0;
-
-  // Trust bonus: +20% items received when trading with trusted partner (trust > 20)
-  const trustBonus = trustLevel > 20 ? 0.2 : 0;
-
-  // Loyalty bonus: +5% per successful interaction, capped at +25%
-  const loyaltyBonus = Math.min(interactionCount * 0.05, 0.25);
-
-  // Total quantity bonus for received items
-  const quantityBonusMultiplier = 1 + trustBonus + loyaltyBonus;
-
-  // Phase 6: Calculate actual received quantity with trust/loyalty bonus
-  const bonusQuantityReceived = Math.floor(requestingQuantity * quantityBonusMultiplier);
-  const bonusNote = quantityBonusMultiplier > 1
-    ? ` (BONUS: +${Math.round((quantityBonusMultiplier - 1) * 100)}% from trust/loyalty)`
-    : '';
-
-  // Execute trade atomically using a database transaction
-  // ALL inventory checks are done INSIDE the transaction to prevent TOCTOU race conditions
+    proposalId,
+    tick,
+  } = exchange;
   let tradeError: string | null = null;
 
   try {
     await db.transaction(async (tx) => {
+      // Claim the proposal: only one acceptance can move it out of 'open'
+      const [claimed] = await tx
+        .update(tradeProposals)
+        .set({ status: 'accepted', resolvedAtTick: tick, updatedAt: new Date() })
+        .where(and(eq(tradeProposals.id, proposalId), eq(tradeProposals.status, 'open')))
+        .returning({ id: tradeProposals.id });
+
+      if (!claimed) {
+        tradeError = 'Trade proposal is no longer open';
+        throw new Error(tradeError);
+      }
+
       // Check initiator's inventory within the transaction
       const [initiatorItem] = await tx
         .select()
         .from(inventory)
         .where(
           and(
-            eq(inventory.agentId, agent.id),
+            eq(inventory.agentId, initiatorId),
             eq(inventory.itemType, offeringItemType)
           )
         );
@@ -139,7 +84,7 @@ export async function handleTrade(
         .from(inventory)
         .where(
           and(
-            eq(inventory.agentId, targetAgentId),
+            eq(inventory.agentId, targetId),
             eq(inventory.itemType, requestingItemType)
           )
         );
@@ -156,7 +101,7 @@ export async function handleTrade(
         .set({ quantity: sql`${inventory.quantity} - ${offeringQuantity}` })
         .where(
           and(
-            eq(inventory.agentId, agent.id),
+            eq(inventory.agentId, initiatorId),
             eq(inventory.itemType, offeringItemType),
             sql`${inventory.quantity} >= ${offeringQuantity}`
           )
@@ -179,7 +124,7 @@ export async function handleTrade(
         .set({ quantity: sql`${inventory.quantity} - ${requestingQuantity}` })
         .where(
           and(
-            eq(inventory.agentId, targetAgentId),
+            eq(inventory.agentId, targetId),
             eq(inventory.itemType, requestingItemType),
             sql`${inventory.quantity} >= ${requestingQuantity}`
           )
@@ -196,18 +141,18 @@ export async function handleTrade(
         await tx.delete(inventory).where(eq(inventory.id, targetUpdate[0].id));
       }
 
-      // Add items to initiator (upsert) with bonus applied
+      // Add items to initiator (upsert)
       await tx
         .insert(inventory)
         .values({
           id: uuid(),
-          agentId: agent.id,
+          agentId: initiatorId,
           itemType: requestingItemType,
-          quantity: bonusQuantityReceived,
+          quantity: requestingQuantity,
         })
         .onConflictDoUpdate({
           target: [inventory.agentId, inventory.itemType],
-          set: { quantity: sql`${inventory.quantity} + ${bonusQuantityReceived}` },
+          set: { quantity: sql`${inventory.quantity} + ${requestingQuantity}` },
         });
 
       // Add items to target (upsert)
@@ -215,7 +160,7 @@ export async function handleTrade(
         .insert(inventory)
         .values({
           id: uuid(),
-          agentId: targetAgentId,
+          agentId: targetId,
           itemType: offeringItemType,
           quantity: offeringQuantity,
         })
@@ -225,111 +170,8 @@ export async function handleTrade(
         });
     });
   } catch (error) {
-    const errorMessage = tradeError || (error instanceof Error ? error.message : 'Trade transaction failed');
-
-    // If target didn't have items, store memory about failed attempt
-    if (errorMessage.includes("Target agent doesn't have enough")) {
-      await storeMemory({
-        agentId: agent.id,
-        type: 'interaction',
-        content: `Attempted to trade ${offeringQuantity}x ${offeringItemType} for ${requestingQuantity}x ${requestingItemType} with another agent, but they didn't have enough items.`,
-        importance: 3,
-        emotionalValence: -0.2,
-        involvedAgentIds: [targetAgentId],
-        x: agent.x,
-        y: agent.y,
-        tick: intent.tick,
-      });
-    }
-
-    return {
-      success: false,
-      error: errorMessage,
-    };
+    return tradeError || (error instanceof Error ? error.message : 'Trade transaction failed');
   }
 
-  // Trust-based bonus: higher trust = more trust gain from successful trade (relationships already queried above)
-  const trustMultiplier = trustLevel > 20 ? 1.5 : trustLevel > 0 ? 1.2 : 1.0;
-  const bonusTrustGain = Math.floor(CONFIG.actions.trade.trustGainOnSuccess * trustMultiplier);
-
-  // Update trust for both agents (symmetric positive relationship with trust bonus)
-  await updateRelationshipTrust(
-    agent.id,
-    targetAgentId,
-    bonusTrustGain,
-    intent.tick,
-    `Traded ${offeringQuantity}x ${offeringItemType} for ${requestingQuantity}x ${requestingItemType}${trustMultiplier > 1 ? ` (trust bonus: +${bonusTrustGain})` : ''}`
-  );
-  await updateRelationshipTrust(
-    targetAgentId,
-    agent.id,
-    bonusTrustGain,
-    intent.tick,
-    `Traded ${requestingQuantity}x ${requestingItemType} for ${offeringQuantity}x ${offeringItemType}${trustMultiplier > 1 ? ` (trust bonus: +${bonusTrustGain})` : ''}`
-  );
-
-  // Store memories for both agents
-  await storeMemory({
-    agentId: agent.id,
-    type: 'interaction',
-    content: `Successfully traded ${offeringQuantity}x ${offeringItemType} for ${bonusQuantityReceived}x ${requestingItemType} with another agent${bonusNote}.`,
-    importance: 6,
-    emotionalValence: 0.5,
-    involvedAgentIds: [targetAgentId],
-    x: agent.x,
-    y: agent.y,
-    tick: intent.tick,
-  });
-
-  await storeMemory({
-    agentId: targetAgentId,
-    type: 'interaction',
-    content: `Another agent traded ${requestingQuantity}x ${requestingItemType} for ${offeringQuantity}x ${offeringItemType} with me.`,
-    importance: 5,
-    emotionalValence: 0.4,
-    involvedAgentIds: [agent.id],
-    x: targetAgent.x,
-    y: targetAgent.y,
-    tick: intent.tick,
-  });
-
-  // Success
-  return {
-    success: true,
-    events: [
-      {
-        id: uuid(),
-        type: 'agent_traded',
-        tick: intent.tick,
-        timestamp: Date.now(),
-        agentId: agent.id,
-        payload: {
-          initiatorId: agent.id,
-          targetId: targetAgentId,
-          position: { x: agent.x, y: agent.y },
-          offered: { itemType: offeringItemType, quantity: offeringQuantity },
-          received: { itemType: requestingItemType, quantity: bonusQuantityReceived },
-          baseQuantityRequested: requestingQuantity,
-          quantityBonusMultiplier,
-          trustBonus,
-          loyaltyBonus,
-        },
-      },
-      // Also emit event for the target (for UI tracking)
-      {
-        id: uuid(),
-        type: 'agent_received_trade',
-        tick: intent.tick,
-        timestamp: Date.now(),
-        agentId: targetAgentId,
-        payload: {
-          initiatorId: agent.id,
-          targetId: targetAgentId,
-          position: { x: targetAgent.x, y: targetAgent.y },
-          offered: { itemType: requestingItemType, quantity: requestingQuantity },
-          received: { itemType: offeringItemType, quantity: offeringQuantity },
-        },
-      },
-    ],
-  };
+  return null;
 }
@@ -0,0 +1,105 @@
+/**
+ * Travel To Action Handler
+ *
+ * Starts a multi-tick journey to a destination. The first step is taken
+ * immediately (same costs as move); afterwards the orchestrator advances the
+ * agent one A* step per tick without asking the LLM, until arrival or an
+ * interruption (see simulation/travel.ts).
+ *
+ * Starting a new journey replaces any active one.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, TravelToParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { isValidPosition, findPath, getPathCost } from '../../world/grid';
+import { createTravelPlan, cancelActiveTravelPlans } from '../../db/queries/travel';
+import { CONFIG } from '../../config';
+import { handleMove } from './move';
+
+export async function handleTravelTo(
+  intent: ActionIntent<TravelToParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { toX, toY } = intent.params;
+
+  if (!Number.isInteger(toX) || !Number.isInteger(toY) || !isValidPosition(toX, toY)) {
+    return {
+      success: false,
+      error: `Invalid position: (${toX}, ${toY}) is outside world bounds`,
+    };
+  }
+
+  if (agent.x === toX && agent.y === toY) {
+    return {
+      success: false,
+      error: `Already at destination (${toX}, ${toY})`,
+    };
+  }
+
+  const from = { x: agent.x, y: agent.y };
+  const path = findPath(from, { x: toX, y: toY });
+  if (path.length === 0) {
+    return {
+      success: false,
+      error: `No path to destination (${toX}, ${toY})`,
+    };
+  }
+
+  const { maxPathLength } = CONFIG.actions.travel;
+  if (path.length > maxPathLength) {
+    return {
+      success: false,
+      error: `Destination too far: path is ${path.length} tiles (max: ${maxPathLength})`,
+    };
+  }
+
+  // First step uses the regular move rules (energy, penalties, scent)
+  const moveResult = await handleMove({ ...intent, type: 'move', params: { toX, toY } }, agent);
+  if (!moveResult.success) {
+    return moveResult;
+  }
+
+  const nextPosition = { x: moveResult.changes?.x ?? agent.x, y: moveResult.changes?.y ?? agent.y };
+  const arrived = nextPosition.x === toX && nextPosition.y === toY;
+
+  await cancelActiveTravelPlans(agent.id, intent.tick, 'replaced');
+
+  const plan = arrived
+    ? null
+    : await createTravelPlan({
+        tenantId: agent.tenantId,
+        agentId: agent.id,
+        fromX: from.x,
+        fromY: from.y,
+        toX,
+        toY,
+        status: 'active',
+        stepsTaken: 1,
+        healthAtLastStep: agent.health,
+        startedAtTick: intent.tick,
+        lastStepTick: intent.tick,
+      });
+
+  return {
+    ...moveResult,
+    events: [
+      ...(moveResult.events ?? []),
+      {
+        id: uuid(),
+        type: 'agent_travel_started',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          planId: plan?.id ?? null,
+          from,
+          destination: { x: toX, y: toY },
+          pathLength: path.length,
+          pathCost: getPathCost(path),
+          arrived,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Vote Action Handler - Governance
+ *
+ * Casts (or changes) a vote on an open proposal the agent is eligible for.
+ * Under stake weighting the vote carries the voter's balance at the time
+ * of voting.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, VoteParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { castVote, getProposalById, getVote } from '../../db/queries/governance';
+import { isEligibleVoter } from '../utils/governance';
+import { CONFIG } from '../../config';
+
+const CHOICES = ['yes', 'no', 'abstain'] as const;
+
+export async function handleVote(
+  intent: ActionIntent<VoteParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { proposalId, choice } = intent.params;
+  const energyCost = CONFIG.governance.voteEnergyCost;
+
+  if (!CHOICES.includes(choice)) {
+    return { success: false, error: 'choice must be "yes", "no" or "abstain"' };
+  }
+
+  const proposal = await getProposalById(proposalId);
+  if (!proposal || proposal.tenantId !== agent.tenantId) {
+    return { success: false, error: `Proposal not found: ${proposalId}` };
+  }
+  if (proposal.status !== 'open' || intent.tick >= proposal.closesAtTick) {
+    return { success: false, error: `Voting on "${proposal.title}" has closed` };
+  }
+  if (!(await isEligibleVoter(proposal, agent))) {
+    return { success: false, error: `Not eligible to vote on "${proposal.title}"` };
+  }
+  if (agent.energy < energyCost) {
+    return { success: false, error: `Not enough energy (have: ${agent.energy}, need: ${energyCost})` };
+  }
+
+  const previous = await getVote(proposal.id, agent.id);
+  const weight = proposal.weighting === 'stake' ? Math.max(0, agent.balance) : 1;
+  await castVote({
+    tenantId: agent.tenantId,
+    proposalId: proposal.id,
+    voterId: agent.id,
+    choice,
+    weight,
+    castAtTick: intent.tick,
+  });
+
+  return {
+    success: true,
+    changes: { energy: agent.energy - energyCost },
+    events: [
+      {
+        id: uuid(),
+        type: 'proposal_voted',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          proposalId: proposal.id,
+          title: proposal.title,
+          voterId: agent.id,
+          choice,
+          weight,
+          previousChoice: previous?.choice ?? null,
+        },
+      },
+    ],
+  };
+}
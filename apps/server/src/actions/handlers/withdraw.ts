@@ -0,0 +1,90 @@
+/**
+ * Withdraw Action Handler
+ *
+ * Take items out of a container at the agent's position. Needs withdraw
+ * access (the owner always has it). Taking without access is theft - that
+ * goes through steal with targetContainerId.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { ActionIntent, ActionResult, WithdrawParams } from '../types';
+import type { Agent } from '../../db/schema';
+import { getContainerAccess, getContainerById, removeFromContainer } from '../../db/queries/containers';
+import { addToInventory } from '../../db/queries/inventory';
+import { storeMemory } from '../../db/queries/memories';
+import { hasContainerPermission, loadAccessSubject } from '../utils/container-access';
+
+export async function handleWithdraw(
+  intent: ActionIntent<WithdrawParams>,
+  agent: Agent
+): Promise<ActionResult> {
+  const { containerId, itemType, quantity } = intent.params;
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { success: false, error: 'Quantity must be a positive integer' };
+  }
+
+  const container = await getContainerById(containerId);
+  if (!container) {
+    return { success: false, error: `Container not found: ${containerId}` };
+  }
+
+  if (container.x !== agent.x || container.y !== agent.y) {
+    return {
+      success: false,
+      error: `Container is at (${container.x}, ${container.y}) - you must be on its cell`,
+    };
+  }
+
+  const byOwner = container.ownerAgentId === agent.id;
+  if (!byOwner) {
+    const entries = await getContainerAccess(container.id);
+    const subject = await loadAccessSubject(agent.id, intent.tick);
+    if (!hasContainerPermission(container, entries, subject, 'withdraw')) {
+      return { success: false, error: 'No withdraw access to this container' };
+    }
+  }
+
+  const remaining = await removeFromContainer(container.id, itemType, quantity);
+  if (remaining < 0) {
+    return { success: false, error: `Container doesn't hold ${quantity}x ${itemType}` };
+  }
+  await addToInventory(agent.id, itemType, quantity);
+
+  if (!byOwner && container.ownerAgentId) {
+    await storeMemory({
+      agentId: container.ownerAgentId,
+      type: 'observation',
+      content: `Agent ${agent.id.slice(0, 8)} took ${quantity}x ${itemType} from my container at (${container.x}, ${container.y}).`,
+      importance: 4,
+      emotionalValence: 0,
+      involvedAgentIds: [agent.id],
+      x: container.x,
+      y: container.y,
+      tick: intent.tick,
+    });
+  }
+
+  return {
+    success: true,
+    events: [
+      {
+        id: uuid(),
+        type: 'container_withdraw',
+        tick: intent.tick,
+        timestamp: Date.now(),
+        agentId: agent.id,
+        payload: {
+          containerId: container.id,
+          ownerAgentId: container.ownerAgentId,
+          itemType,
+          quantity,
+          remaining,
+          byOwner,
+          x: container.x,
+          y: container.y,
+        },
+      },
+    ],
+  };
+}
@@ -25,6 +25,7 @@ import {
   updateEmploymentStatus,
 } from '../../db/queries/employment';
 import { getAgentById, updateAgentBalance } from '../../db/queries/agents';
+import { payWage } from '../../ledger';
 import { db } from '../../db';
 import { sql } from 'drizzle-orm';
 
@@ -82,6 +83,9 @@ export async function handleWork(
 
   // Calculate payment for this tick (if per_tick)
   let paymentThisTick = 0;
+  let employerBalance = employer.balance;
+  let newWorkerBalance = agent.balance;
+  let tax = 0;
   if (employment.paymentType === 'per_tick') {
     paymentThisTick = employment.salary / employment.ticksRequired;
 
@@ -97,8 +101,20 @@ export async function handleWork(
       };
     }
 
-    // Deduct from employer, add to worker
-    await updateAgentBalance(employer.id, employer.balance - paymentThisTick);
+    // Pay the worker through the ledger (taxed like any wage between agents)
+    const payment = await payWage(
+      employer.id,
+      agent.id,
+      paymentThisTick,
+      intent.tick,
+      `Work payment from ${employer.id.slice(0, 8)}`
+    );
+    if (!payment.success) {
+      return { success: false, error: payment.error ?? 'Work payment failed' };
+    }
+    employerBalance = payment.fromNewBalance ?? employerBalance - paymentThisTick;
+    newWorkerBalance = payment.toNewBalance ?? newWorkerBalance + paymentThisTick;
+    tax = payment.taxPaid ?? 0;
   }
 
   // Increment ticks_worked on employment
@@ -115,7 +131,6 @@ export async function handleWork(
 
   // Check if contract is now complete
   const isComplete = newTicksWorked >= employment.ticksRequired;
-  let newWorkerBalance = agent.balance + paymentThisTick;
 
   if (isComplete) {
     // Mark contract as completed
@@ -128,15 +143,10 @@ export async function handleWork(
     // Return escrow to employer (minus any owed payment)
     if (employment.paymentType !== 'upfront' && employment.escrowAmount > 0) {
       const escrowReturn = employment.escrowAmount;
-      await updateAgentBalance(employer.id, employer.balance - paymentThisTick + escrowReturn);
+      await updateAgentBalance(employer.id, employerBalance + escrowReturn);
     }
   }
 
-  // Update worker balance (for per_tick payments)
-  if (paymentThisTick > 0) {
-    await updateAgentBalance(agent.id, newWorkerBalance);
-  }
-
   // Store memory
   const statusMsg = isComplete
     ? `Completed contract with ${employer.id.slice(0, 8)}!`
@@ -187,6 +197,7 @@ export async function handleWork(
           ticksWorked: newTicksWorked,
           ticksRequired: employment.ticksRequired,
           paymentThisTick,
+          tax, // Transaction tax the worker paid to the public treasury
           paymentType: employment.paymentType,
           isComplete,
           energyCost,
@@ -207,7 +218,7 @@ export async function handleWork(
               payload: {
                 previousBalance: agent.balance,
                 newBalance: newWorkerBalance,
-                change: paymentThisTick,
+                change: newWorkerBalance - agent.balance,
                 reason: `Work payment from ${employer.id.slice(0, 8)}`,
               },
             },
@@ -12,7 +12,6 @@ import { handleWork } from './handlers/work';
 import { handleGather } from './handlers/gather';
 import { handleForage } from './handlers/forage';
 import { handlePublicWork } from './handlers/public-work';
-import { handleTrade } from './handlers/trade';
 // Phase 1: Emergence Observation
 import { handleClaim } from './handlers/claim';
 import { handleNameLocation } from './handlers/name-location';
@@ -28,6 +27,16 @@ import { handleRevokeCredential } from './handlers/revoke-credential';
 import { handleSpreadGossip } from './handlers/spread-gossip';
 import { handleSpawnOffspring } from './handlers/spawn-offspring';
 import { handleSignal } from './handlers/signal';
+import { handleSendMessage } from './handlers/send-message';
+// Organisations
+import { handleFoundOrg } from './handlers/found-org';
+import { handleJoinOrg } from './handlers/join-org';
+import { handleLeaveOrg } from './handlers/leave-org';
+import { handleExpelMember } from './handlers/expel-member';
+// Governance
+import { handlePropose } from './handlers/propose';
+import { handleVote } from './handlers/vote';
+import { handleTally } from './handlers/tally';
 // Employment System
 import { handleOfferJob } from './handlers/offer-job';
 import { handleAcceptJob } from './handlers/accept-job';
@@ -36,6 +45,20 @@ import { handleClaimEscrow } from './handlers/claim-escrow';
 import { handleQuitJob } from './handlers/quit-job';
 import { handleFireWorker } from './handlers/fire-worker';
 import { handleCancelJobOffer } from './handlers/cancel-job-offer';
+// Trade Proposals (two-phase trade)
+import { handleProposeTrade } from './handlers/propose-trade';
+import { handleAcceptTrade } from './handlers/accept-trade';
+import { handleRejectTrade } from './handlers/reject-trade';
+import { handleCounterTrade } from './handlers/counter-trade';
+import { handleTravelTo } from './handlers/travel-to';
+import { handleCraft } from './handlers/craft';
+import { handleBuild } from './handlers/build';
+import { handleDemolish } from './handlers/demolish';
+import { handleDeposit } from './handlers/deposit';
+import { handleWithdraw } from './handlers/withdraw';
+import { handleGrantAccess } from './handlers/grant-access';
+import { handlePlaceOrder } from './handlers/place-order';
+import { handleCancelOrder } from './handlers/cancel-order';
 // Puzzle Game System (Fragment Chase)
 import { handleJoinPuzzle } from './handlers/join-puzzle';
 import { handleLeavePuzzle } from './handlers/leave-puzzle';
@@ -56,7 +79,6 @@ handlers.set('work', handleWork as ActionHandler);
 handlers.set('gather', handleGather as ActionHandler);
 handlers.set('forage', handleForage as ActionHandler);
 handlers.set('public_work', handlePublicWork as ActionHandler);
-handlers.set('trade', handleTrade as ActionHandler);
 // Phase 1: Emergence Observation
 handlers.set('claim', handleClaim as ActionHandler);
 handlers.set('name_location', handleNameLocation as ActionHandler);
@@ -74,6 +96,17 @@ handlers.set('spread_gossip', handleSpreadGossip as ActionHandler);
 // Phase 4: Reproduction (§36)
 handlers.set('spawn_offspring', handleSpawnOffspring as ActionHandler);
 handlers.set('signal', handleSignal as ActionHandler);
+// Direct messages (inbox / conversation threads)
+handlers.set('send_message', handleSendMessage as ActionHandler);
+// Organisations (founder-set membership rules, treasury in the ledger)
+handlers.set('found_org', handleFoundOrg as ActionHandler);
+handlers.set('join_org', handleJoinOrg as ActionHandler);
+handlers.set('leave_org', handleLeaveOrg as ActionHandler);
+handlers.set('expel_member', handleExpelMember as ActionHandler);
+// Governance (proposals scoped to an organisation, claim area or world)
+handlers.set('propose', handlePropose as ActionHandler);
+handlers.set('vote', handleVote as ActionHandler);
+handlers.set('tally', handleTally as ActionHandler);
 // Employment System
 handlers.set('offer_job', handleOfferJob as ActionHandler);
 handlers.set('accept_job', handleAcceptJob as ActionHandler);
@@ -82,6 +115,25 @@ handlers.set('claim_escrow', handleClaimEscrow as ActionHandler);
 handlers.set('quit_job', handleQuitJob as ActionHandler);
 handlers.set('fire_worker', handleFireWorker as ActionHandler);
 handlers.set('cancel_job_offer', handleCancelJobOffer as ActionHandler);
+// Trade Proposals (two-phase trade)
+handlers.set('propose_trade', handleProposeTrade as ActionHandler);
+handlers.set('accept_trade', handleAcceptTrade as ActionHandler);
+handlers.set('reject_trade', handleRejectTrade as ActionHandler);
+handlers.set('counter_trade', handleCounterTrade as ActionHandler);
+// Multi-tick travel (A* pathfinding)
+handlers.set('travel_to', handleTravelTo as ActionHandler);
+// Crafting (recipe registry in config)
+handlers.set('craft', handleCraft as ActionHandler);
+// Structures (blueprints in config)
+handlers.set('build', handleBuild as ActionHandler);
+handlers.set('demolish', handleDemolish as ActionHandler);
+// Shared storage containers (owner-defined access lists)
+handlers.set('deposit', handleDeposit as ActionHandler);
+handlers.set('withdraw', handleWithdraw as ActionHandler);
+handlers.set('grant_access', handleGrantAccess as ActionHandler);
+// Market (per-shelter order books, matched each tick)
+handlers.set('place_order', handlePlaceOrder as ActionHandler);
+handlers.set('cancel_order', handleCancelOrder as ActionHandler);
 // Puzzle Game System (Fragment Chase)
 handlers.set('join_puzzle', handleJoinPuzzle as ActionHandler);
 handlers.set('leave_puzzle', handleLeavePuzzle as ActionHandler);
@@ -104,6 +156,13 @@ export function getHandler(actionType: ActionType): ActionHandler | undefined {
   return handlers.get(actionType);
 }
 
+/**
+ * Get all action types that currently have a registered handler
+ */
+export function getRegisteredActionTypes(): ActionType[] {
+  return Array.from(handlers.keys());
+}
+
 /**
  * Execute an action
  */
@@ -159,3 +218,4 @@ export function createIntent<T extends ActionParams>(
 
 // Export types
 export * from './types';
+export { ACTION_PARAMS_SCHEMAS, buildDecisionBodySchema, validateActionParams, type ActionParamsSchema } from './schemas';
@@ -0,0 +1,626 @@
+/**
+ * Action Parameter Schemas
+ *
+ * JSON Schema for the params of every action type. Keyed by ActionType so the
+ * compiler flags any action added to types.ts without a schema here.
+ *
+ * Used by the external agent API (/api/v1/agents/:id/decide) to build its
+ * request schema from the handler registry instead of a hand-maintained list,
+ * and by the transports without a body schema (MCP tools, agent sockets) to
+ * check params before executing.
+ */
+
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation';
+import type { ActionType } from './types';
+
+// =============================================================================
+// Schema Types
+// =============================================================================
+
+export interface ActionParamsSchema {
+  type: 'object';
+  description: string;
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
+// Reusable property fragments
+const agentId = (description: string) => ({ type: 'string', description });
+const positiveInt = (description: string) => ({ type: 'integer', minimum: 1, description });
+const itemType = (description: string) => ({ type: 'string', minLength: 1, description });
+const sentiment = { type: 'number', minimum: -100, maximum: 100, description: 'Opinion of the subject (-100 to 100)' };
+
+// =============================================================================
+// Per-Action Params Schemas
+// =============================================================================
+
+export const ACTION_PARAMS_SCHEMAS: Record<ActionType, ActionParamsSchema> = {
+  move: {
+    type: 'object',
+    description: 'Move to an adjacent cell',
+    properties: {
+      toX: { type: 'integer', description: 'Target X coordinate' },
+      toY: { type: 'integer', description: 'Target Y coordinate' },
+    },
+    required: ['toX', 'toY'],
+  },
+  buy: {
+    type: 'object',
+    description: 'Purchase items with CITY at a shelter',
+    properties: {
+      itemType: itemType('Item to buy (food, water, medicine)'),
+      quantity: positiveInt('Units to buy (default: 1)'),
+      locationId: { type: 'string', description: 'Optional shelter ID' },
+    },
+    required: ['itemType'],
+  },
+  consume: {
+    type: 'object',
+    description: 'Use an item from inventory',
+    properties: {
+      itemType: itemType('Item to consume'),
+      quantity: positiveInt('Units to consume (default: 1)'),
+    },
+    required: ['itemType'],
+  },
+  sleep: {
+    type: 'object',
+    description: 'Rest to restore energy',
+    properties: {
+      duration: { type: 'integer', minimum: 1, maximum: 10, description: 'Ticks to sleep' },
+    },
+    required: ['duration'],
+  },
+  work: {
+    type: 'object',
+    description: 'Work on the oldest active employment contract',
+    properties: {
+      locationId: { type: 'string', description: 'Optional location ID' },
+      duration: { type: 'integer', minimum: 1, maximum: 5, description: 'Ticks to work' },
+    },
+  },
+  gather: {
+    type: 'object',
+    description: 'Collect resources at a spawn point',
+    properties: {
+      resourceType: { type: 'string', enum: ['food', 'energy', 'material'], description: 'Resource to gather' },
+      quantity: { type: 'integer', minimum: 1, maximum: 5, description: 'Units to gather' },
+    },
+  },
+  forage: {
+    type: 'object',
+    description: 'Search for scraps anywhere (no params)',
+    properties: {},
+  },
+  public_work: {
+    type: 'object',
+    description: 'Basic labor at a shelter for modest pay',
+    properties: {
+      taskType: { type: 'string', enum: ['road_maintenance', 'resource_survey', 'shelter_cleanup'] },
+    },
+  },
+
+  // Phase 1: Emergence Observation
+  claim: {
+    type: 'object',
+    description: 'Mark a location as significant',
+    properties: {
+      claimType: { type: 'string', enum: ['territory', 'home', 'resource', 'danger', 'meeting_point'] },
+      description: { type: 'string', description: 'Optional reason for the claim' },
+      x: { type: 'integer', description: 'Position to claim (default: current)' },
+      y: { type: 'integer', description: 'Position to claim (default: current)' },
+    },
+    required: ['claimType'],
+  },
+  name_location: {
+    type: 'object',
+    description: 'Propose a name for a location',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 50 },
+      x: { type: 'integer', description: 'Position to name (default: current)' },
+      y: { type: 'integer', description: 'Position to name (default: current)' },
+    },
+    required: ['name'],
+  },
+
+  // Phase 2: Conflict Actions
+  harm: {
+    type: 'object',
+    description: 'Attack an adjacent agent',
+    properties: {
+      targetAgentId: agentId('Agent to attack'),
+      intensity: { type: 'string', enum: ['light', 'moderate', 'severe'] },
+    },
+    required: ['targetAgentId', 'intensity'],
+  },
+  steal: {
+    type: 'object',
+    description: 'Take items from an adjacent agent or a container at your position (give one target)',
+    properties: {
+      targetAgentId: agentId('Agent to steal from'),
+      targetContainerId: { type: 'string', description: 'Container to steal from' },
+      targetItemType: itemType('Item to steal'),
+      quantity: positiveInt('Units to steal'),
+    },
+    required: ['targetItemType', 'quantity'],
+  },
+  deceive: {
+    type: 'object',
+    description: 'Tell false information to a nearby agent',
+    properties: {
+      targetAgentId: agentId('Agent to deceive'),
+      claim: { type: 'string', minLength: 5, maxLength: 500 },
+      claimType: { type: 'string', enum: ['resource_location', 'agent_reputation', 'danger_warning', 'trade_offer', 'other'] },
+    },
+    required: ['targetAgentId', 'claim', 'claimType'],
+  },
+
+  // Phase 2: Social Discovery
+  share_info: {
+    type: 'object',
+    description: 'Share information about a third agent',
+    properties: {
+      targetAgentId: agentId('Agent being told'),
+      subjectAgentId: agentId('Agent being talked about'),
+      infoType: { type: 'string', enum: ['location', 'reputation', 'warning', 'recommendation'] },
+      claim: { type: 'string' },
+      sentiment,
+      position: {
+        type: 'object',
+        properties: { x: { type: 'integer' }, y: { type: 'integer' } },
+        required: ['x', 'y'],
+      },
+    },
+    required: ['targetAgentId', 'subjectAgentId', 'infoType'],
+  },
+  signal: {
+    type: 'object',
+    description: 'Broadcast a long-range signal',
+    properties: {
+      message: { type: 'string', minLength: 1, maxLength: 200 },
+      intensity: { type: 'integer', minimum: 1, maximum: 5, description: 'Affects range' },
+    },
+    required: ['message', 'intensity'],
+  },
+  send_message: {
+    type: 'object',
+    description: 'Send a direct message to one agent (nearby, or one you know)',
+    properties: {
+      targetAgentId: agentId('Recipient'),
+      content: { type: 'string', minLength: 1, description: 'Free text' },
+      conversationId: { type: 'string', description: 'Continue a conversation you are part of' },
+      replyTo: { type: 'string', description: 'ID of the message being answered' },
+    },
+    required: ['targetAgentId', 'content'],
+  },
+
+  // Organisations
+  found_org: {
+    type: 'object',
+    description: 'Found an organisation (alliance, guild, firm) and set its membership rules',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      entryFee: { type: 'number', minimum: 0, description: 'CITY each new member pays into the treasury' },
+      minTrust: { type: 'integer', minimum: -100, maximum: 100, description: 'Trust the founder must have in an applicant' },
+      maxMembers: { type: 'integer', minimum: 2 },
+      deposit: { type: 'number', minimum: 0, description: 'CITY put into the treasury at founding' },
+    },
+    required: ['name'],
+  },
+  join_org: {
+    type: 'object',
+    description: 'Join an organisation (a member must be nearby; pays the entry fee)',
+    properties: {
+      orgId: { type: 'string' },
+    },
+    required: ['orgId'],
+  },
+  leave_org: {
+    type: 'object',
+    description: 'Leave an organisation',
+    properties: {
+      orgId: { type: 'string' },
+    },
+    required: ['orgId'],
+  },
+  expel_member: {
+    type: 'object',
+    description: 'Expel a member from an organisation you founded',
+    properties: {
+      orgId: { type: 'string' },
+      memberId: agentId('Member to expel'),
+    },
+    required: ['orgId', 'memberId'],
+  },
+
+  // Governance
+  propose: {
+    type: 'object',
+    description: 'Put a decision to a vote of an organisation, a claim area or the whole world',
+    properties: {
+      scope: { type: 'string', enum: ['org', 'claim', 'world'] },
+      scopeId: { type: 'string', description: 'Organisation ID (org) or claim ID (claim)' },
+      title: { type: 'string', minLength: 1 },
+      outcome: { type: 'string', enum: ['tax', 'banish', 'shelter_price', 'fiscal_policy', 'resolution'], description: 'Applied if it passes' },
+      amount: { type: 'number', exclusiveMinimum: 0, description: 'tax: CITY levied from each member' },
+      targetAgentId: agentId('banish: agent to remove'),
+      shelterId: { type: 'string', description: 'shelter_price: shelter whose prices change' },
+      priceMultiplier: { type: 'number', exclusiveMinimum: 0, description: 'shelter_price: multiplier on base prices' },
+      transactionTaxRate: { type: 'number', minimum: 0, maximum: 1, description: 'fiscal_policy: share of payments between agents taxed' },
+      wealthTaxRate: { type: 'number', minimum: 0, maximum: 1, description: 'fiscal_policy: share of wealth above the threshold taxed' },
+      wealthTaxThreshold: { type: 'number', minimum: 0, description: 'fiscal_policy: balance exempt from the wealth tax' },
+      publicWorkFunding: { type: 'string', enum: ['mint', 'treasury'], description: 'fiscal_policy: how public work is paid' },
+      redistributionShare: { type: 'number', minimum: 0, maximum: 1, description: 'fiscal_policy: share of the treasury paid out' },
+      threshold: { type: 'number', minimum: 0, maximum: 1, description: 'Yes share to exceed (default 0.5)' },
+      quorum: { type: 'number', minimum: 0, maximum: 1, description: 'Share of the electorate that must vote' },
+      weighting: { type: 'string', enum: ['equal', 'stake'] },
+      votingTicks: { type: 'integer', minimum: 1 },
+    },
+    required: ['scope', 'title', 'outcome'],
+  },
+  vote: {
+    type: 'object',
+    description: 'Vote on an open proposal',
+    properties: {
+      proposalId: { type: 'string' },
+      choice: { type: 'string', enum: ['yes', 'no', 'abstain'] },
+    },
+    required: ['proposalId', 'choice'],
+  },
+  tally: {
+    type: 'object',
+    description: 'Count the votes on a closed proposal and apply its outcome',
+    properties: {
+      proposalId: { type: 'string' },
+    },
+    required: ['proposalId'],
+  },
+
+  // Phase 4: Verifiable Credentials (§34)
+  issue_credential: {
+    type: 'object',
+    description: 'Vouch for another agent',
+    properties: {
+      subjectAgentId: agentId('Agent receiving the credential'),
+      claimType: { type: 'string', enum: ['skill', 'experience', 'membership', 'character', 'custom'] },
+      description: { type: 'string', minLength: 1 },
+      evidence: { type: 'string' },
+      level: { type: 'integer', minimum: 1, maximum: 10 },
+      expiresAtTick: { type: 'integer', minimum: 0 },
+    },
+    required: ['subjectAgentId', 'claimType', 'description'],
+  },
+  revoke_credential: {
+    type: 'object',
+    description: 'Withdraw a credential you issued',
+    properties: {
+      credentialId: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['credentialId'],
+  },
+
+  // Phase 4: Gossip Protocol (§35)
+  spread_gossip: {
+    type: 'object',
+    description: 'Share reputation information about a third agent',
+    properties: {
+      targetAgentId: agentId('Agent being told'),
+      subjectAgentId: agentId('Agent the gossip is about'),
+      topic: { type: 'string', enum: ['skill', 'behavior', 'transaction', 'warning', 'recommendation'] },
+      claim: { type: 'string' },
+      sentiment,
+      evidenceEventId: { type: 'integer', description: 'Optional event backing the claim' },
+    },
+    required: ['targetAgentId', 'subjectAgentId', 'topic', 'claim', 'sentiment'],
+  },
+
+  // Phase 4: Reproduction (§36)
+  spawn_offspring: {
+    type: 'object',
+    description: 'Create a new agent (requires substantial resources)',
+    properties: {
+      partnerId: agentId('Optional second parent'),
+      inheritSystemPrompt: { type: 'boolean' },
+      mutationIntensity: { type: 'number', minimum: 0, maximum: 1 },
+    },
+  },
+
+  // Employment System
+  offer_job: {
+    type: 'object',
+    description: 'Post a job offer',
+    properties: {
+      salary: { type: 'number', minimum: 1, description: 'Total CITY offered' },
+      duration: positiveInt('Ticks of work required'),
+      paymentType: { type: 'string', enum: ['upfront', 'on_completion', 'per_tick'] },
+      escrowPercent: { type: 'number', minimum: 0, maximum: 100 },
+      expiresInTicks: positiveInt('Ticks before the offer expires'),
+      description: { type: 'string' },
+    },
+    required: ['salary', 'duration', 'paymentType'],
+  },
+  accept_job: {
+    type: 'object',
+    description: 'Accept an open job offer',
+    properties: { jobOfferId: { type: 'string' } },
+    required: ['jobOfferId'],
+  },
+  pay_worker: {
+    type: 'object',
+    description: 'Pay a worker for a completed contract',
+    properties: { employmentId: { type: 'string' } },
+    required: ['employmentId'],
+  },
+  claim_escrow: {
+    type: 'object',
+    description: 'Claim escrow from an employer who did not pay',
+    properties: { employmentId: { type: 'string' } },
+    required: ['employmentId'],
+  },
+  quit_job: {
+    type: 'object',
+    description: 'Quit an active employment',
+    properties: { employmentId: { type: 'string' } },
+    required: ['employmentId'],
+  },
+  fire_worker: {
+    type: 'object',
+    description: 'Terminate a worker',
+    properties: { employmentId: { type: 'string' } },
+    required: ['employmentId'],
+  },
+  cancel_job_offer: {
+    type: 'object',
+    description: 'Cancel an open job offer you posted',
+    properties: { jobOfferId: { type: 'string' } },
+    required: ['jobOfferId'],
+  },
+
+  // Trade Proposals (two-phase trade)
+  propose_trade: {
+    type: 'object',
+    description: 'Offer a trade; items move only if the target accepts',
+    properties: {
+      targetAgentId: agentId('Agent to propose to'),
+      offeringItemType: itemType('Item offered'),
+      offeringQuantity: positiveInt('Units offered'),
+      requestingItemType: itemType('Item requested'),
+      requestingQuantity: positiveInt('Units requested'),
+      expiresInTicks: positiveInt('Ticks the proposal stays open'),
+    },
+    required: ['targetAgentId', 'offeringItemType', 'offeringQuantity', 'requestingItemType', 'requestingQuantity'],
+  },
+  accept_trade: {
+    type: 'object',
+    description: 'Accept a trade proposal addressed to you',
+    properties: { proposalId: { type: 'string' } },
+    required: ['proposalId'],
+  },
+  reject_trade: {
+    type: 'object',
+    description: 'Decline a trade proposal addressed to you',
+    properties: {
+      proposalId: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['proposalId'],
+  },
+  counter_trade: {
+    type: 'object',
+    description: 'Answer a trade proposal with new terms',
+    properties: {
+      proposalId: { type: 'string' },
+      offeringItemType: itemType('Item you offer instead'),
+      offeringQuantity: positiveInt('Units offered'),
+      requestingItemType: itemType('Item you want instead'),
+      requestingQuantity: positiveInt('Units requested'),
+    },
+    required: ['proposalId', 'offeringItemType', 'offeringQuantity', 'requestingItemType', 'requestingQuantity'],
+  },
+
+  // Multi-tick travel
+  travel_to: {
+    type: 'object',
+    description: 'Travel to a destination along the cheapest path, one step per tick until arrival or interruption',
+    properties: {
+      toX: { type: 'integer', minimum: 0, description: 'Destination X coordinate' },
+      toY: { type: 'integer', minimum: 0, description: 'Destination Y coordinate' },
+    },
+    required: ['toX', 'toY'],
+  },
+
+  // Crafting
+  craft: {
+    type: 'object',
+    description: 'Craft an item from a recipe, consuming its inputs and wearing its tools',
+    properties: {
+      recipeId: { type: 'string', minLength: 1, description: 'Recipe to craft (e.g. shelter_kit, ration, tool)' },
+    },
+    required: ['recipeId'],
+  },
+
+  // Structures
+  build: {
+    type: 'object',
+    description: 'Do one tick of work on a structure at your position: start, continue or repair it',
+    properties: {
+      structureType: {
+        type: 'string',
+        enum: ['shelter', 'storage', 'market_stall', 'wall'],
+        description: 'Structure to build',
+      },
+    },
+    required: ['structureType'],
+  },
+  demolish: {
+    type: 'object',
+    description: 'Tear down a structure at or next to your position and salvage part of its materials',
+    properties: {
+      structureId: { type: 'string', description: 'Structure to demolish (defaults to the one at your position)' },
+    },
+  },
+
+  // Shared storage containers
+  deposit: {
+    type: 'object',
+    description: 'Put items into a container at your position (your own container here if none is given)',
+    properties: {
+      itemType: itemType('Item to store'),
+      quantity: positiveInt('Units to store'),
+      containerId: { type: 'string', description: 'Container to deposit into (defaults to your own container here)' },
+    },
+    required: ['itemType', 'quantity'],
+  },
+  withdraw: {
+    type: 'object',
+    description: 'Take items out of a container at your position that you have withdraw access to',
+    properties: {
+      containerId: { type: 'string', description: 'Container to withdraw from' },
+      itemType: itemType('Item to take'),
+      quantity: positiveInt('Units to take'),
+    },
+    required: ['containerId', 'itemType', 'quantity'],
+  },
+  place_order: {
+    type: 'object',
+    description: 'Post a limit order in the market of the shelter or market stall you are at (matched at the end of the tick)',
+    properties: {
+      side: { type: 'string', enum: ['bid', 'ask'], description: 'bid = buy, ask = sell (items go into escrow)' },
+      itemType: itemType('Item to trade'),
+      quantity: positiveInt('Units to trade'),
+      price: positiveInt('Limit price in CITY per unit'),
+      expiresInTicks: positiveInt('Ticks before the order expires'),
+    },
+    required: ['side', 'itemType', 'quantity', 'price'],
+  },
+  cancel_order: {
+    type: 'object',
+    description: 'Cancel one of your open market orders (unsold items come back)',
+    properties: {
+      orderId: { type: 'string', description: 'Order to cancel' },
+    },
+    required: ['orderId'],
+  },
+  grant_access: {
+    type: 'object',
+    description: 'Change the access list of a container you own',
+    properties: {
+      containerId: { type: 'string', description: 'Container you own' },
+      granteeType: { type: 'string', enum: ['agent', 'team', 'credential'] },
+      granteeId: { type: 'string', description: 'Agent ID, team ID, or credential issuer (omit for any issuer)' },
+      claimType: { type: 'string', description: 'Credential claim type (credential grants only)' },
+      permission: {
+        type: 'string',
+        enum: ['deposit', 'withdraw', 'none'],
+        description: 'withdraw includes deposit; none removes the grantee',
+      },
+    },
+    required: ['containerId', 'granteeType', 'permission'],
+  },
+
+  // Puzzle Game System (Fragment Chase)
+  join_puzzle: {
+    type: 'object',
+    description: 'Join a puzzle game (requires stake)',
+    properties: {
+      gameId: { type: 'string' },
+      stakeAmount: { type: 'number', minimum: 0 },
+    },
+    required: ['gameId'],
+  },
+  leave_puzzle: {
+    type: 'object',
+    description: 'Leave a puzzle game (forfeits part of stake)',
+    properties: { gameId: { type: 'string' } },
+    required: ['gameId'],
+  },
+  share_fragment: {
+    type: 'object',
+    description: 'Share a puzzle fragment with another player',
+    properties: {
+      fragmentId: { type: 'string' },
+      targetAgentId: agentId('Player to share with'),
+    },
+    required: ['fragmentId', 'targetAgentId'],
+  },
+  form_team: {
+    type: 'object',
+    description: 'Create a team in a puzzle game',
+    properties: {
+      gameId: { type: 'string' },
+      teamName: { type: 'string' },
+    },
+    required: ['gameId'],
+  },
+  join_team: {
+    type: 'object',
+    description: 'Join an existing puzzle team',
+    properties: { teamId: { type: 'string' } },
+    required: ['teamId'],
+  },
+  submit_solution: {
+    type: 'object',
+    description: 'Submit a puzzle solution',
+    properties: {
+      gameId: { type: 'string' },
+      solution: { type: 'string', minLength: 1 },
+    },
+    required: ['gameId', 'solution'],
+  },
+};
+
+// =============================================================================
+// Decision Body Schema
+// =============================================================================
+
+/**
+ * Build the request body schema for an action decision.
+ *
+ * The action enum comes from the registered handlers; params are validated
+ * against the matching per-action schema via if/then branches.
+ */
+export function buildDecisionBodySchema(actionTypes: ActionType[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    required: ['action', 'params'],
+    properties: {
+      action: {
+        type: 'string',
+        enum: actionTypes,
+        description: 'Action type to execute',
+      },
+      params: { type: 'object', description: 'Action parameters (shape depends on action)' },
+      reasoning: { type: 'string', description: 'Optional reasoning for logging' },
+    },
+    allOf: actionTypes.map((type) => ({
+      if: { properties: { action: { const: type } } },
+      then: { properties: { params: ACTION_PARAMS_SCHEMAS[type] } },
+    })),
+  };
+}
+
+// =============================================================================
+// Params Validation
+// =============================================================================
+
+const schemaValidator = new AjvJsonSchemaValidator();
+const paramsValidators = new Map<ActionType, JsonSchemaValidator<Record<string, unknown>>>();
+
+/**
+ * Check params against the action's params schema (POST /decide gets the
+ * same check from its body schema). Returns the error message, if any.
+ */
+export function validateActionParams(action: ActionType, params: unknown): string | undefined {
+  let validate = paramsValidators.get(action);
+  if (!validate) {
+    validate = schemaValidator.getValidator<Record<string, unknown>>(
+      ACTION_PARAMS_SCHEMAS[action] as JsonSchemaType
+    );
+    paramsValidators.set(action, validate);
+  }
+
+  const result = validate(params);
+  return result.valid ? undefined : result.errorMessage.replace(/(^|, )data/g, '$1params');
+}
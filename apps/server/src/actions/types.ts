@@ -18,7 +18,6 @@ export type ActionType =
   | 'gather'
   | 'forage'
   | 'public_work'
-  | 'trade'
   // Phase 1: Emergence Observation
   | 'claim'
   | 'name_location'
@@ -29,6 +28,7 @@ export type ActionType =
   // Phase 2: Social Discovery
   | 'share_info'
   | 'signal' // Long-range communication
+  | 'send_message' // Direct message to one agent
   // Phase 4: Verifiable Credentials (§34)
   | 'issue_credential'
   | 'revoke_credential'
@@ -44,6 +44,34 @@ export type ActionType =
   | 'quit_job'
   | 'fire_worker'
   | 'cancel_job_offer'
+  // Trade Proposals (two-phase trade)
+  | 'propose_trade'
+  | 'accept_trade'
+  | 'reject_trade'
+  | 'counter_trade'
+  // Multi-tick travel (A* pathfinding)
+  | 'travel_to'
+  // Crafting (recipes in CONFIG.actions.craft)
+  | 'craft'
+  // Structures (blueprints in CONFIG.actions.build)
+  | 'build'
+  | 'demolish'
+  // Shared storage containers (owner-defined access lists)
+  | 'deposit'
+  | 'withdraw'
+  | 'grant_access'
+  // Market (per-shelter order books)
+  | 'place_order'
+  | 'cancel_order'
+  // Organisations (alliances, guilds, firms)
+  | 'found_org'
+  | 'join_org'
+  | 'leave_org'
+  | 'expel_member'
+  // Governance (collective decisions)
+  | 'propose'
+  | 'vote'
+  | 'tally'
   // Puzzle Game System (Fragment Chase)
   | 'join_puzzle'
   | 'leave_puzzle'
@@ -61,12 +89,52 @@ export interface MoveParams {
   toY: number;
 }
 
+export interface TravelToParams {
+  toX: number; // Destination (advanced one step per tick until arrival)
+  toY: number;
+}
+
 export interface BuyParams {
   itemType: string;
   quantity?: number;
   locationId?: string;
 }
 
+export interface CraftParams {
+  recipeId: string; // Key of CONFIG.actions.craft.recipes
+}
+
+export interface BuildParams {
+  structureType: string; // Key of CONFIG.actions.build.structures
+}
+
+export interface DemolishParams {
+  structureId?: string; // Defaults to the structure at the agent's position
+}
+
+export interface DepositParams {
+  itemType: string;
+  quantity: number;
+  containerId?: string; // Defaults to the agent's own container here (created if missing)
+}
+
+export interface WithdrawParams {
+  containerId: string;
+  itemType: string;
+  quantity: number;
+}
+
+export type ContainerGranteeType = 'agent' | 'team' | 'credential';
+export type ContainerPermission = 'deposit' | 'withdraw'; // withdraw includes deposit
+
+export interface GrantAccessParams {
+  containerId: string;
+  granteeType: ContainerGranteeType;
+  granteeId?: string; // Agent ID, team ID, or credential issuer (omit = any issuer)
+  claimType?: string; // Required for credential grants
+  permission: ContainerPermission | 'none'; // 'none' revokes
+}
+
 export interface ConsumeParams {
   itemType: string;
   quantity?: number;
@@ -94,14 +162,6 @@ export interface PublicWorkParams {
   taskType?: 'road_maintenance' | 'resource_survey' | 'shelter_cleanup';
 }
 
-export interface TradeParams {
-  targetAgentId: string; // Agent to trade with
-  offeringItemType: string; // What we're offering
-  offeringQuantity: number; // How much we're offering
-  requestingItemType: string; // What we want in return
-  requestingQuantity: number; // How much we want
-}
-
 // Phase 2: Conflict Action Parameters
 
 export interface HarmParams {
@@ -109,8 +169,75 @@ export interface HarmParams {
   intensity: 'light' | 'moderate' | 'severe'; // Damage level
 }
 
+export interface PlaceOrderParams {
+  side: 'bid' | 'ask'; // bid = buy, ask = sell
+  itemType: string;
+  quantity: number;
+  price: number; // Limit price in CITY per unit
+  expiresInTicks?: number; // Defaults to CONFIG.actions.market.orderTtlTicks
+}
+
+export interface CancelOrderParams {
+  orderId: string;
+}
+
+// Organisation Parameters
+
+export interface FoundOrgParams {
+  name: string;
+  entryFee?: number; // CITY paid into the treasury by each new member (default 0)
+  minTrust?: number; // Founder's trust in an applicant required to join (-100 to 100)
+  maxMembers?: number; // Membership cap (default unlimited)
+  deposit?: number; // CITY the founder puts into the treasury
+}
+
+export interface JoinOrgParams {
+  orgId: string;
+}
+
+export interface LeaveOrgParams {
+  orgId: string;
+}
+
+export interface ExpelMemberParams {
+  orgId: string;
+  memberId: string; // Agent to expel
+}
+
+// Governance Parameters
+
+export interface ProposeParams {
+  scope: 'org' | 'claim' | 'world'; // Who votes: members, agents in the claim area, everyone
+  scopeId?: string; // Organisation ID (org) or claim ID (claim)
+  title: string;
+  outcome: 'tax' | 'banish' | 'shelter_price' | 'fiscal_policy' | 'resolution'; // Applied if the proposal passes
+  amount?: number; // tax: CITY levied from each member into the treasury
+  targetAgentId?: string; // banish: agent to remove
+  shelterId?: string; // shelter_price: shelter whose prices change
+  priceMultiplier?: number; // shelter_price: multiplier on base prices
+  transactionTaxRate?: number; // fiscal_policy: share of payments between agents taxed
+  wealthTaxRate?: number; // fiscal_policy: share of wealth above the threshold taxed per interval
+  wealthTaxThreshold?: number; // fiscal_policy: balance exempt from the wealth tax
+  publicWorkFunding?: 'mint' | 'treasury'; // fiscal_policy: how public work is paid
+  redistributionShare?: number; // fiscal_policy: share of the treasury paid out per interval
+  threshold?: number; // Yes share of yes+no weight to exceed (default 0.5 = majority)
+  quorum?: number; // Share of the electorate that must vote (default 0)
+  weighting?: 'equal' | 'stake'; // One agent one vote, or weighted by balance
+  votingTicks?: number; // Voting period
+}
+
+export interface VoteParams {
+  proposalId: string;
+  choice: 'yes' | 'no' | 'abstain';
+}
+
+export interface TallyParams {
+  proposalId: string;
+}
+
 export interface StealParams {
-  targetAgentId: string; // Agent to steal from
+  targetAgentId?: string; // Agent to steal from
+  targetContainerId?: string; // Or a container to steal from (one of the two is required)
   targetItemType: string; // What to steal
   quantity: number; // How much to steal
 }
@@ -188,6 +315,15 @@ export interface SignalParams {
   intensity: number; // 1-5, affects range
 }
 
+// Direct Message Parameters
+
+export interface SendMessageParams {
+  targetAgentId: string; // Recipient (in talking range, or an agent you know)
+  content: string; // Free text
+  conversationId?: string; // Continue a conversation you are part of
+  replyTo?: string; // ID of the message being answered (sets the conversation)
+}
+
 // Employment System Parameters
 
 export interface OfferJobParams {
@@ -223,6 +359,34 @@ export interface CancelJobOfferParams {
   jobOfferId: string; // ID of the job offer to cancel
 }
 
+// Trade Proposal Parameters
+
+export interface ProposeTradeParams {
+  targetAgentId: string; // Agent to propose the trade to
+  offeringItemType: string; // What we're offering
+  offeringQuantity: number; // How much we're offering
+  requestingItemType: string; // What we want in return
+  requestingQuantity: number; // How much we want
+  expiresInTicks?: number; // Default: CONFIG.actions.trade.proposalExpiryTicks
+}
+
+export interface AcceptTradeParams {
+  proposalId: string; // ID of the proposal addressed to us
+}
+
+export interface RejectTradeParams {
+  proposalId: string; // ID of the proposal addressed to us
+  reason?: string; // Optional explanation (stored in memory)
+}
+
+export interface CounterTradeParams {
+  proposalId: string; // ID of the proposal being countered
+  offeringItemType: string; // What we offer instead
+  offeringQuantity: number;
+  requestingItemType: string; // What we want instead
+  requestingQuantity: number;
+}
+
 // Puzzle Game System Parameters (Fragment Chase)
 
 export interface JoinPuzzleParams {
@@ -255,14 +419,29 @@ export interface SubmitSolutionParams {
 
 export type ActionParams =
   | MoveParams
+  | TravelToParams
   | BuyParams
+  | CraftParams
+  | BuildParams
+  | DemolishParams
+  | DepositParams
+  | WithdrawParams
+  | GrantAccessParams
+  | PlaceOrderParams
+  | CancelOrderParams
+  | FoundOrgParams
+  | JoinOrgParams
+  | LeaveOrgParams
+  | ExpelMemberParams
+  | ProposeParams
+  | VoteParams
+  | TallyParams
   | ConsumeParams
   | SleepParams
   | WorkParams
   | GatherParams
   | ForageParams
   | PublicWorkParams
-  | TradeParams
   | ClaimParams
   | NameLocationParams
   | HarmParams
@@ -270,6 +449,7 @@ export type ActionParams =
   | DeceiveParams
   | ShareInfoParams
   | SignalParams
+  | SendMessageParams
   // Phase 4
   | IssueCredentialParams
   | RevokeCredentialParams
@@ -283,6 +463,11 @@ export type ActionParams =
   | QuitJobParams
   | FireWorkerParams
   | CancelJobOfferParams
+  // Trade Proposals
+  | ProposeTradeParams
+  | AcceptTradeParams
+  | RejectTradeParams
+  | CounterTradeParams
   // Puzzle Game System
   | JoinPuzzleParams
   | LeavePuzzleParams
@@ -0,0 +1,73 @@
+/**
+ * Container Access Utilities
+ *
+ * Access list evaluation for shared storage containers. The owner always has
+ * full access; everyone else needs a matching entry (agent, puzzle team, or
+ * credential claim type - optionally from a specific issuer). Withdraw
+ * access includes deposit.
+ *
+ * Shared by the container handlers, steal and the observer.
+ */
+
+import type { Container, ContainerAccessEntry } from '../../db/schema';
+import type { ContainerPermission } from '../types';
+import { getActiveTeamIdsForAgent } from '../../db/queries/puzzles';
+import { getActiveCredentials } from '../../db/queries/credentials';
+
+export interface AccessSubject {
+  agentId: string;
+  teamIds: string[];
+  credentials: { issuerId: string; claimType: string }[];
+}
+
+/**
+ * Whether an access list entry applies to a subject
+ */
+export function entryMatchesSubject(entry: ContainerAccessEntry, subject: AccessSubject): boolean {
+  switch (entry.granteeType) {
+    case 'agent':
+      return entry.granteeId === subject.agentId;
+    case 'team':
+      return entry.granteeId !== null && subject.teamIds.includes(entry.granteeId);
+    case 'credential':
+      return subject.credentials.some(
+        (c) => c.claimType === entry.claimType && (entry.granteeId === null || c.issuerId === entry.granteeId)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a subject holds a permission on a container
+ */
+export function hasContainerPermission(
+  container: Pick<Container, 'ownerAgentId'>,
+  entries: ContainerAccessEntry[],
+  subject: AccessSubject,
+  permission: ContainerPermission
+): boolean {
+  if (container.ownerAgentId === subject.agentId) return true;
+
+  return entries.some(
+    (entry) =>
+      entryMatchesSubject(entry, subject) &&
+      (entry.permission === 'withdraw' || entry.permission === permission)
+  );
+}
+
+/**
+ * Load what an agent's access is checked against (teams and live credentials)
+ */
+export async function loadAccessSubject(agentId: string, tick: number): Promise<AccessSubject> {
+  const [teamIds, credentials] = await Promise.all([
+    getActiveTeamIdsForAgent(agentId),
+    getActiveCredentials(agentId, tick),
+  ]);
+
+  return {
+    agentId,
+    teamIds,
+    credentials: credentials.map((c) => ({ issuerId: c.issuerId, claimType: c.claimType })),
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Governance Utilities
+ *
+ * Electorates and vote counting for proposals. The electorate of a proposal
+ * depends on its scope:
+ * - org: living active members of the organisation
+ * - claim: living agents within the claim area
+ * - world: every living agent of the world
+ *
+ * Shared by the propose / vote / tally handlers and the observer.
+ */
+
+import type { Agent, Proposal, ProposalOutcomeParams, ProposalVote } from '../../db/schema';
+import type { ProposalStatus } from '../../db/queries/governance';
+import { getActiveMembers, getActiveMembership } from '../../db/queries/organizations';
+import { getAliveAgents } from '../../db/queries/agents';
+import { getDistance } from '../../world/grid';
+
+export type ProposalScopeFields = Pick<
+  Proposal,
+  'tenantId' | 'scopeType' | 'scopeId' | 'areaX' | 'areaY' | 'areaRadius'
+>;
+
+export type DecisionRule = Pick<Proposal, 'threshold' | 'quorum' | 'weighting'>;
+
+export interface TallyResult {
+  status: Exclude<ProposalStatus, 'open'>;
+  yesWeight: number;
+  noWeight: number;
+  abstainWeight: number;
+  turnout: number; // Share of the electorate that voted (abstentions included)
+  quorumMet: boolean;
+}
+
+/**
+ * Whether a position lies in a proposal's claim area
+ */
+export function isInProposalArea(scope: ProposalScopeFields, position: { x: number; y: number }): boolean {
+  if (scope.areaX === null || scope.areaY === null || scope.areaRadius === null) return false;
+  return getDistance(position, { x: scope.areaX, y: scope.areaY }) <= scope.areaRadius;
+}
+
+/**
+ * Whether an agent may vote on (or propose within) a scope
+ */
+export async function isEligibleVoter(scope: ProposalScopeFields, agent: Agent): Promise<boolean> {
+  if (agent.state === 'dead' || agent.tenantId !== scope.tenantId) return false;
+  switch (scope.scopeType) {
+    case 'org':
+      return scope.scopeId !== null && (await getActiveMembership(scope.scopeId, agent.id)) !== undefined;
+    case 'claim':
+      return isInProposalArea(scope, agent);
+    case 'world':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Agent IDs currently in a scope's electorate
+ */
+export async function getElectorate(scope: ProposalScopeFields): Promise<string[]> {
+  const living = (await getAliveAgents()).filter((a) => a.tenantId === scope.tenantId);
+  if (scope.scopeType === 'org') {
+    if (!scope.scopeId) return [];
+    // Members who died before their membership was ended do not count
+    const livingIds = new Set(living.map((a) => a.id));
+    return (await getActiveMembers(scope.scopeId)).map((m) => m.agentId).filter((id) => livingIds.has(id));
+  }
+  if (scope.scopeType === 'claim') {
+    return living.filter((a) => isInProposalArea(scope, a)).map((a) => a.id);
+  }
+  return living.map((a) => a.id);
+}
+
+/**
+ * One-line description of what a proposal does if it passes
+ */
+export function describeProposalOutcome(outcomeType: string, params: ProposalOutcomeParams): string {
+  switch (outcomeType) {
+    case 'tax':
+      return `each member pays ${params.amount} CITY into the treasury`;
+    case 'banish':
+      return `${params.targetAgentId?.slice(0, 8) ?? 'an agent'} is banished`;
+    case 'shelter_price':
+      return `prices at shelter ${params.shelterId?.slice(0, 8) ?? '?'} become x${params.priceMultiplier}`;
+    case 'fiscal_policy': {
+      const policy = params.fiscalPolicy ?? {};
+      const changes = [
+        policy.transactionTaxRate !== undefined && `transaction tax ${formatShare(policy.transactionTaxRate)}`,
+        policy.wealthTaxRate !== undefined && `wealth tax ${formatShare(policy.wealthTaxRate)}`,
+        policy.wealthTaxThreshold !== undefined && `wealth tax above ${policy.wealthTaxThreshold} CITY`,
+        policy.publicWorkFunding !== undefined &&
+          `public work paid ${policy.publicWorkFunding === 'treasury' ? 'from the treasury' : 'with new money'}`,
+        policy.redistributionShare !== undefined && `redistribute ${formatShare(policy.redistributionShare)} of the treasury`,
+      ].filter(Boolean);
+      return changes.join(', ') || 'fiscal policy unchanged';
+    }
+    default:
+      return 'non-binding resolution';
+  }
+}
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+/**
+ * Count votes under a decision rule (pure)
+ *
+ * The electorate is everyone eligible now plus everyone who voted while
+ * eligible. The quorum is a share of that electorate by head count; the
+ * threshold is the share of yes+no weight the yes side must exceed.
+ */
+export function tallyVotes(
+  votes: Pick<ProposalVote, 'voterId' | 'choice' | 'weight'>[],
+  electorateSize: number,
+  rule: DecisionRule
+): TallyResult {
+  let yesWeight = 0;
+  let noWeight = 0;
+  let abstainWeight = 0;
+  for (const vote of votes) {
+    const weight = rule.weighting === 'stake' ? vote.weight : 1;
+    if (vote.choice === 'yes') yesWeight += weight;
+    else if (vote.choice === 'no') noWeight += weight;
+    else abstainWeight += weight;
+  }
+
+  const turnout = electorateSize > 0 ? votes.length / electorateSize : 0;
+  const quorumMet = votes.length > 0 && turnout >= rule.quorum;
+  const decisive = yesWeight + noWeight;
+
+  let status: TallyResult['status'];
+  if (!quorumMet) {
+    status = 'no_quorum';
+  } else if (decisive > 0 && yesWeight > rule.threshold * decisive) {
+    status = 'passed';
+  } else {
+    status = 'rejected';
+  }
+
+  return { status, yesWeight, noWeight, abstainWeight, turnout, quorumMet };
+}
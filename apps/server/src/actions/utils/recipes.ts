@@ -0,0 +1,64 @@
+/**
+ * Recipe Utilities
+ *
+ * Pure helpers over the recipe registry in CONFIG.actions.craft.recipes.
+ * Shared by the craft handler and the prompt builder.
+ */
+
+import { CONFIG, type CraftRecipe } from '../../config';
+
+export interface InventoryCount {
+  type: string;
+  quantity: number;
+}
+
+/**
+ * Items (inputs and tools) an agent must hold to craft a recipe
+ */
+export function getRecipeRequirements(recipe: CraftRecipe): Record<string, number> {
+  const required = { ...recipe.inputs };
+  for (const toolType of Object.keys(recipe.tools ?? {})) {
+    required[toolType] = Math.max(required[toolType] ?? 0, 1);
+  }
+  return required;
+}
+
+/**
+ * Find the first requirement the inventory cannot cover (null if craftable)
+ */
+export function findMissingRequirement(
+  recipe: CraftRecipe,
+  inventory: InventoryCount[]
+): { itemType: string; need: number; have: number } | null {
+  for (const [itemType, need] of Object.entries(getRecipeRequirements(recipe))) {
+    const have = inventory
+      .filter((i) => i.type === itemType)
+      .reduce((sum, i) => sum + i.quantity, 0);
+    if (have < need) {
+      return { itemType, need, have };
+    }
+  }
+  return null;
+}
+
+/**
+ * Recipe IDs the inventory can currently craft
+ */
+export function getCraftableRecipes(
+  inventory: InventoryCount[],
+  recipes: Record<string, CraftRecipe> = CONFIG.actions.craft.recipes
+): string[] {
+  return Object.entries(recipes)
+    .filter(([, recipe]) => findMissingRequirement(recipe, inventory) === null)
+    .map(([recipeId]) => recipeId);
+}
+
+/**
+ * One-line recipe summary, e.g. "3x material (+tool) -> 1x shelter_kit"
+ */
+export function formatRecipe(recipe: CraftRecipe): string {
+  const inputs = Object.entries(recipe.inputs).map(([type, qty]) => `${qty}x ${type}`).join(' + ');
+  const tools = Object.keys(recipe.tools ?? {});
+  const toolNote = tools.length > 0 ? ` (+${tools.join(', ')})` : '';
+  return `${inputs}${toolNote} -> ${recipe.output.quantity}x ${recipe.output.itemType}`;
+}
@@ -43,7 +43,7 @@ const SOLO_ACTIONS: ActionType[] = [
  * Social actions that require nearby agents.
  */
 const SOCIAL_ACTIONS: ActionType[] = [
-  'trade',
+  'propose_trade',
   'harm',
   'steal',
   'share_info',
@@ -167,7 +167,7 @@ export class RandomAgent implements BaselineAgent {
     if (nearbyForSocial.length > 0) {
       // Trade requires having items to trade
       if (inventory.some((i) => i.quantity > 0)) {
-        validActions.push('trade');
+        validActions.push('propose_trade');
       }
 
       // Harm is always valid with nearby agent
@@ -265,14 +265,14 @@ export class RandomAgent implements BaselineAgent {
         };
       }
 
-      case 'trade': {
+      case 'propose_trade': {
         // Pick random nearby agent and random items
         const targetAgent = this.getRandomNearbyAgent(observation, 3);
         const offerItem = randomChoice(inventory.filter((i) => i.quantity > 0));
         const requestTypes = ['food', 'energy', 'material', 'money'];
         const requestType = randomChoice(requestTypes) ?? 'food';
         return {
-          action: 'trade',
+          action: 'propose_trade',
           params: {
             targetAgentId: targetAgent?.id ?? '',
             offeringItemType: offerItem?.type ?? 'food',
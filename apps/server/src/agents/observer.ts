@@ -6,6 +6,7 @@
  * Phase 5: includes personality trait in self observation
  */
 
+import type { EventPayload } from '@simagents/shared';
 import type { Agent, Shelter, ResourceSpawn } from '../db/schema';
 import type {
   AgentObservation,
@@ -14,6 +15,9 @@ import type {
   NearbyResourceSpawn,
   NearbyShelter,
   NearbyClaim,
+  NearbyStructure,
+  NearbyContainer,
+  MyMarketOrder,
   LocationNameEntry,
   AvailableAction,
   RecentEvent,
@@ -26,6 +30,13 @@ import type {
   NearbyJobOffer,
   ActiveEmployment,
   OpenJobOffer,
+  TradeProposalEntry,
+  InboxMessage,
+  OrganizationEntry,
+  NearbyOrganization,
+  OpenProposalEntry,
+  BanishedArea,
+  PublicTreasuryInfo,
   // Puzzle System
   ActivePuzzleGame,
   MyPuzzleFragment,
@@ -48,6 +59,27 @@ import {
   getActiveEmploymentsForEmployer,
   getOpenJobOffersByEmployer,
 } from '../db/queries/employment';
+import {
+  getIncomingTradeProposals,
+  getOutgoingTradeProposals,
+} from '../db/queries/trade-proposals';
+import { getInbox } from '../db/queries/messages';
+import {
+  countActiveMembers,
+  getActiveMembers,
+  getActiveMembershipsForAgents,
+} from '../db/queries/organizations';
+import { getActiveBanishments, getOpenProposals, getVotesByVoter } from '../db/queries/governance';
+import { describeProposalOutcome, isInProposalArea } from '../actions/utils/governance';
+import { getTreasury, toFiscalPolicy } from '../db/queries/fiscal';
+import { getActiveStructuresInArea } from '../db/queries/structures';
+import {
+  getAccessForContainers,
+  getContainersInArea,
+  getItemsForContainers,
+} from '../db/queries/containers';
+import { hasContainerPermission, loadAccessSubject } from '../actions/utils/container-access';
+import { getOpenOrdersForAgent, getQuotesForShelters } from '../db/queries/market';
 import {
   getAgentPuzzleContext,
   isAgentInActivePuzzle,
@@ -58,6 +90,8 @@ import {
 } from '../db/queries/puzzles';
 import { CONFIG } from '../config';
 import { isBlackoutActive } from '../simulation/shocks';
+import { getActivePlan } from '../db/queries/plans';
+import { toCurrentPlan } from '../simulation/plans';
 import { isPersonalityEnabled, isValidPersonality, type PersonalityTrait } from './personalities';
 
 const VISIBILITY_RADIUS = CONFIG.simulation.visibilityRadius;
@@ -373,6 +407,210 @@ export async function buildObservation(
     expiresAtTick: o.expiresAtTick ?? undefined,
   }));
 
+  // Trade Proposals: offers addressed to me and offers I'm waiting on
+  const [rawIncomingProposals, rawOutgoingProposals] = isValidUuid
+    ? await Promise.all([
+        getIncomingTradeProposals(agent.id, tick),
+        getOutgoingTradeProposals(agent.id, tick),
+      ])
+    : [[], []];
+
+  const toTradeProposalEntry = (p: (typeof rawIncomingProposals)[number]): TradeProposalEntry => ({
+    id: p.id,
+    proposerId: p.proposerId,
+    targetId: p.targetId,
+    offeringItemType: p.offeringItemType,
+    offeringQuantity: p.offeringQuantity,
+    requestingItemType: p.requestingItemType,
+    requestingQuantity: p.requestingQuantity,
+    expiresAtTick: p.expiresAtTick,
+    isCounterOffer: p.parentProposalId !== null,
+  });
+  const incomingTradeProposals = rawIncomingProposals.map(toTradeProposalEntry);
+  const myTradeProposals = rawOutgoingProposals.map(toTradeProposalEntry);
+
+  // Direct messages: recent messages addressed to me
+  const inboxConfig = CONFIG.actions.sendMessage;
+  const rawInbox = isValidUuid
+    ? await getInbox(agent.id, tick - inboxConfig.inboxTicks, inboxConfig.inboxSize)
+    : [];
+  const inbox: InboxMessage[] = rawInbox.map((m) => ({
+    id: m.id,
+    conversationId: m.conversationId,
+    fromId: m.senderId,
+    content: m.deliveredContent,
+    sentAtTick: m.sentAtTick,
+    replyToId: m.replyToId ?? undefined,
+  }));
+
+  // Organisations: mine, and those of visible agents I could join
+  const rawMemberships = isValidUuid
+    ? await getActiveMembershipsForAgents([agent.id, ...nearbyAgents.map((a) => a.id)])
+    : [];
+  const myOrganizations: OrganizationEntry[] = await Promise.all(
+    rawMemberships
+      .filter((m) => m.membership.agentId === agent.id)
+      .map(async ({ membership, org }) => ({
+        id: org.id,
+        name: org.name,
+        role: membership.role as OrganizationEntry['role'],
+        founderId: org.founderId,
+        memberIds: (await getActiveMembers(org.id)).map((m) => m.agentId),
+        treasury: org.treasury,
+        entryFee: org.entryFee,
+        minTrust: org.minTrust ?? undefined,
+        maxMembers: org.maxMembers ?? undefined,
+      }))
+  );
+  const myOrgIds = new Set(myOrganizations.map((o) => o.id));
+  const nearbyOrgMap = new Map<string, NearbyOrganization>();
+  for (const { membership, org } of rawMemberships) {
+    if (myOrgIds.has(org.id)) continue;
+    const entry = nearbyOrgMap.get(org.id) ?? {
+      id: org.id,
+      name: org.name,
+      entryFee: org.entryFee,
+      minTrust: org.minTrust ?? undefined,
+      maxMembers: org.maxMembers ?? undefined,
+      memberCount: 0,
+      nearbyMemberIds: [],
+    };
+    entry.nearbyMemberIds.push(membership.agentId);
+    nearbyOrgMap.set(org.id, entry);
+  }
+  const memberCounts = await countActiveMembers([...nearbyOrgMap.keys()]);
+  const nearbyOrganizations = [...nearbyOrgMap.values()].map((o) => ({
+    ...o,
+    memberCount: memberCounts.get(o.id) ?? o.nearbyMemberIds.length,
+  }));
+
+  // Governance: proposals I can vote on (or tally), and areas I'm banished from
+  const [rawProposals, rawBanishments] = isValidUuid
+    ? await Promise.all([getOpenProposals(agent.tenantId), getActiveBanishments(agent.id, tick)])
+    : [[], []];
+  const relevantProposals = rawProposals
+    .filter((p) =>
+      p.scopeType === 'world' ||
+      (p.scopeType === 'org' && p.scopeId !== null && myOrgIds.has(p.scopeId)) ||
+      (p.scopeType === 'claim' && isInProposalArea(p, agent))
+    )
+    .slice(0, CONFIG.governance.observedProposals);
+  const myVotes = new Map(
+    (await getVotesByVoter(agent.id, relevantProposals.map((p) => p.id))).map((v) => [v.proposalId, v.choice])
+  );
+  const openProposals: OpenProposalEntry[] = relevantProposals.map((p) => ({
+    id: p.id,
+    title: p.title,
+    proposerId: p.proposerId,
+    scope: p.scopeType as OpenProposalEntry['scope'],
+    scopeId: p.scopeId ?? undefined,
+    outcome: p.outcomeType as OpenProposalEntry['outcome'],
+    outcomeSummary: describeProposalOutcome(p.outcomeType, p.outcomeParams),
+    threshold: p.threshold,
+    quorum: p.quorum,
+    weighting: p.weighting as OpenProposalEntry['weighting'],
+    closesAtTick: p.closesAtTick,
+    myVote: myVotes.get(p.id) as OpenProposalEntry['myVote'],
+    readyToTally: tick >= p.closesAtTick,
+  }));
+  const banishedFrom: BanishedArea[] = rawBanishments.map((b) => ({
+    x: b.x,
+    y: b.y,
+    radius: b.radius,
+    expiresAtTick: b.expiresAtTick ?? undefined,
+  }));
+
+  // Fiscal policy: only shown once the treasury holds money or a policy is in force
+  const treasury = isValidUuid ? await getTreasury(agent.tenantId) : undefined;
+  const fiscalPolicy = treasury ? toFiscalPolicy(treasury) : undefined;
+  const publicTreasury: PublicTreasuryInfo | undefined =
+    treasury && fiscalPolicy &&
+    (treasury.balance > 0 ||
+      fiscalPolicy.transactionTaxRate > 0 ||
+      fiscalPolicy.wealthTaxRate > 0 ||
+      fiscalPolicy.redistributionShare > 0 ||
+      fiscalPolicy.publicWorkFunding === 'treasury')
+      ? { balance: treasury.balance, ...fiscalPolicy }
+      : undefined;
+
+  // Structures: agent-built shelters, storage, market stalls, walls and sites
+  const rawStructures = isValidUuid
+    ? await getActiveStructuresInArea(agent.x, agent.y, VISIBILITY_RADIUS)
+    : [];
+  const nearbyStructures: NearbyStructure[] = rawStructures.map((s) => ({
+    id: s.id,
+    structureType: s.structureType,
+    x: s.x,
+    y: s.y,
+    ownerId: s.ownerAgentId ?? undefined,
+    status: s.status as NearbyStructure['status'],
+    buildProgress: s.buildProgress,
+    buildTicksRequired: s.buildTicksRequired,
+    condition: Math.round(s.condition),
+  }));
+
+  // Containers: contents and what this agent may do with each
+  const rawContainers = isValidUuid
+    ? await getContainersInArea(agent.x, agent.y, VISIBILITY_RADIUS)
+    : [];
+  let nearbyContainers: NearbyContainer[] = [];
+  if (rawContainers.length > 0) {
+    const containerIds = rawContainers.map((c) => c.id);
+    const [items, accessEntries, subject] = await Promise.all([
+      getItemsForContainers(containerIds),
+      getAccessForContainers(containerIds),
+      loadAccessSubject(agent.id, tick),
+    ]);
+    nearbyContainers = rawContainers.map((c) => {
+      const entries = accessEntries.filter((e) => e.containerId === c.id);
+      return {
+        id: c.id,
+        x: c.x,
+        y: c.y,
+        ownerId: c.ownerAgentId ?? undefined,
+        capacity: c.capacity,
+        contents: items
+          .filter((i) => i.containerId === c.id && i.quantity > 0)
+          .map((i) => ({ type: i.itemType, quantity: i.quantity })),
+        canDeposit: hasContainerPermission(c, entries, subject, 'deposit'),
+        canWithdraw: hasContainerPermission(c, entries, subject, 'withdraw'),
+      };
+    });
+  }
+
+  // Market: order book tops at visible shelters and the agent's own orders
+  let myMarketOrders: MyMarketOrder[] = [];
+  if (isValidUuid) {
+    const [quotes, rawMyOrders] = await Promise.all([
+      getQuotesForShelters(nearbyShelters.map((s) => s.id)),
+      getOpenOrdersForAgent(agent.id),
+    ]);
+    for (const shelter of nearbyShelters) {
+      const shelterQuotes = quotes.filter((q) => q.shelterId === shelter.id);
+      if (shelterQuotes.length > 0) {
+        shelter.market = shelterQuotes.map((q) => ({
+          itemType: q.itemType,
+          bestBid: q.bestBid ?? undefined,
+          bestAsk: q.bestAsk ?? undefined,
+          bidQuantity: q.bidQuantity,
+          askQuantity: q.askQuantity,
+        }));
+      }
+    }
+    myMarketOrders = rawMyOrders.map((o) => ({
+      id: o.id,
+      shelterId: o.shelterId,
+      itemType: o.itemType,
+      side: o.side as MyMarketOrder['side'],
+      price: o.price,
+      remaining: o.quantity - o.filledQuantity,
+      expiresAtTick: o.expiresAtTick,
+    }));
+  }
+
+  // Agent Plans: the goal the agent set itself on an earlier tick
+  const activePlan = isValidUuid && CONFIG.plans.enabled ? await getActivePlan(agent.id) : undefined;
+
   // Puzzle Game System
   let activePuzzleGames: ActivePuzzleGame[] = [];
   let myPuzzleFragments: MyPuzzleFragment[] = [];
@@ -497,6 +735,27 @@ export async function buildObservation(
     nearbyJobOffers,
     activeEmployments,
     myJobOffers,
+    // Trade Proposals
+    incomingTradeProposals: incomingTradeProposals.length > 0 ? incomingTradeProposals : undefined,
+    myTradeProposals: myTradeProposals.length > 0 ? myTradeProposals : undefined,
+    // Direct messages
+    inbox: inbox.length > 0 ? inbox : undefined,
+    // Organisations
+    myOrganizations: myOrganizations.length > 0 ? myOrganizations : undefined,
+    nearbyOrganizations: nearbyOrganizations.length > 0 ? nearbyOrganizations : undefined,
+    // Governance
+    openProposals: openProposals.length > 0 ? openProposals : undefined,
+    banishedFrom: banishedFrom.length > 0 ? banishedFrom : undefined,
+    // Fiscal policy
+    publicTreasury,
+    // Structures
+    nearbyStructures: nearbyStructures.length > 0 ? nearbyStructures : undefined,
+    // Containers
+    nearbyContainers: nearbyContainers.length > 0 ? nearbyContainers : undefined,
+    // Market
+    myMarketOrders: myMarketOrders.length > 0 ? myMarketOrders : undefined,
+    // Agent Plans
+    currentPlan: activePlan ? toCurrentPlan(activePlan) : undefined,
     // Puzzle Game System
     activePuzzleGames: activePuzzleGames.length > 0 ? activePuzzleGames : undefined,
     myPuzzleFragments: myPuzzleFragments.length > 0 ? myPuzzleFragments : undefined,
@@ -521,47 +780,254 @@ export function formatEvent(event: { type: string; tick: number; payload: Record
 
   switch (event.type) {
     case 'agent_moved': {
-      const to = payload.to as { x?: number; y?: number } | undefined;
-      description = `Moved to (${to?.x}, ${to?.y})`;
+      const { to } = payload as EventPayload<'agent_moved'>;
+      description = `Moved to (${to.x}, ${to.y})`;
       break;
     }
-    case 'agent_bought':
-      description = `Bought ${event.payload.quantity}x ${event.payload.itemType}`;
+    case 'agent_travel_started': {
+      const p = payload as EventPayload<'agent_travel_started'>;
+      description = `Started travelling to (${p.destination.x}, ${p.destination.y}) - ${p.pathLength} tiles`;
       break;
-    case 'agent_consumed':
-      description = `Consumed ${event.payload.itemType}`;
+    }
+    case 'agent_travel_arrived': {
+      const p = payload as EventPayload<'agent_travel_arrived'>;
+      description = `Arrived at (${p.destination.x}, ${p.destination.y}) after ${p.ticksTravelled} ticks`;
       break;
-    case 'agent_worked':
-      description = `Worked for ${event.payload.duration} tick(s), earned ${event.payload.salary} CITY`;
+    }
+    case 'agent_travel_interrupted': {
+      const p = payload as EventPayload<'agent_travel_interrupted'>;
+      description = `Travel to (${p.destination.x}, ${p.destination.y}) interrupted: ${String(p.reason).replace(/_/g, ' ')}`;
+      break;
+    }
+    case 'plan_completed': {
+      const p = payload as EventPayload<'plan_completed'>;
+      description = `Completed plan "${p.goal}" after ${p.ticksActive} ticks`;
       break;
-    case 'agent_gathered':
-      description = `Gathered ${event.payload.amountGathered}x ${event.payload.resourceType}`;
+    }
+    case 'agent_message_sent': {
+      const p = payload as EventPayload<'agent_message_sent'>;
+      description = `Sent a message to ${p.recipientId.slice(0, 8)}: "${p.deliveredContent}"`;
       break;
+    }
+    case 'org_founded': {
+      const p = payload as EventPayload<'org_founded'>;
+      description = `Founded the organisation "${p.name}"`;
+      break;
+    }
+    case 'org_joined': {
+      const p = payload as EventPayload<'org_joined'>;
+      description = `Joined the organisation "${p.name}"${p.entryFee > 0 ? ` (paid ${p.entryFee} CITY)` : ''}`;
+      break;
+    }
+    case 'org_left': {
+      const p = payload as EventPayload<'org_left'>;
+      description = `Left the organisation "${p.name}"`;
+      break;
+    }
+    case 'org_member_expelled': {
+      const p = payload as EventPayload<'org_member_expelled'>;
+      description = `Expelled ${p.memberId.slice(0, 8)} from "${p.name}"`;
+      break;
+    }
+    case 'proposal_created': {
+      const p = payload as EventPayload<'proposal_created'>;
+      description = `Proposed "${p.title}" (${p.scopeType} vote, closes tick ${p.closesAtTick})`;
+      break;
+    }
+    case 'proposal_voted': {
+      const p = payload as EventPayload<'proposal_voted'>;
+      description = `Voted ${p.choice} on "${p.title}"`;
+      break;
+    }
+    case 'proposal_tallied': {
+      const p = payload as EventPayload<'proposal_tallied'>;
+      description = `Tallied "${p.title}": ${p.status.replace(/_/g, ' ')} (${p.yesWeight} yes / ${p.noWeight} no)`;
+      break;
+    }
+    case 'plan_abandoned': {
+      const p = payload as EventPayload<'plan_abandoned'>;
+      description = `Abandoned plan "${p.goal}" (${p.stepsCompleted}/${p.totalSteps} steps done): ${p.reason.replace(/_/g, ' ')}`;
+      break;
+    }
+    case 'agent_bought': {
+      const p = payload as EventPayload<'agent_bought'>;
+      description = `Bought ${p.quantity}x ${p.itemType}`;
+      break;
+    }
+    case 'agent_consumed': {
+      const p = payload as EventPayload<'agent_consumed'>;
+      description = `Consumed ${p.itemType}`;
+      break;
+    }
+    case 'structure_construction_started': {
+      const p = payload as EventPayload<'structure_construction_started'>;
+      description = `Started building a ${p.structureType} at (${p.x}, ${p.y})`;
+      break;
+    }
+    case 'structure_build_progress': {
+      const p = payload as EventPayload<'structure_build_progress'>;
+      description = `Worked on a ${p.structureType} (${p.progress}/${p.ticksRequired})`;
+      break;
+    }
+    case 'structure_completed': {
+      const p = payload as EventPayload<'structure_completed'>;
+      description = `Finished building a ${p.structureType} at (${p.x}, ${p.y})`;
+      break;
+    }
+    case 'structure_repaired': {
+      const p = payload as EventPayload<'structure_repaired'>;
+      description = `Repaired a ${p.structureType} (condition ${Math.round(p.conditionAfter)})`;
+      break;
+    }
+    case 'structure_demolished': {
+      const p = payload as EventPayload<'structure_demolished'>;
+      description = p.byOwner
+        ? `Tore down own ${p.structureType} at (${p.x}, ${p.y})`
+        : `Tore down someone else's ${p.structureType} at (${p.x}, ${p.y})`;
+      break;
+    }
+    case 'structure_collapsed': {
+      const p = payload as EventPayload<'structure_collapsed'>;
+      description = `A ${p.structureType} at (${p.x}, ${p.y}) collapsed from neglect`;
+      break;
+    }
+    case 'market_order_placed': {
+      const p = payload as EventPayload<'market_order_placed'>;
+      description = `Placed a ${p.side} for ${p.quantity}x ${p.itemType} at ${p.price} CITY`;
+      break;
+    }
+    case 'market_order_cancelled': {
+      const p = payload as EventPayload<'market_order_cancelled'>;
+      description = p.reason === 'insufficient_funds'
+        ? `Market ${p.side} for ${p.itemType} cancelled - not enough money`
+        : p.reason === 'venue_removed'
+          ? `Market ${p.side} for ${p.itemType} cancelled - the venue is gone`
+          : `Cancelled market ${p.side} for ${p.itemType}`;
+      break;
+    }
+    case 'market_order_expired': {
+      const p = payload as EventPayload<'market_order_expired'>;
+      description = `Market ${p.side} for ${p.itemType} expired`;
+      break;
+    }
+    case 'market_trade': {
+      const p = payload as EventPayload<'market_trade'>;
+      description = `Bought ${p.quantity}x ${p.itemType} at the market for ${p.price} CITY each`;
+      break;
+    }
+    case 'container_created': {
+      const p = payload as EventPayload<'container_created'>;
+      description = `Placed a storage container at (${p.x}, ${p.y})`;
+      break;
+    }
+    case 'container_deposit': {
+      const p = payload as EventPayload<'container_deposit'>;
+      description = p.byOwner
+        ? `Stored ${p.quantity}x ${p.itemType} in own container`
+        : `Stored ${p.quantity}x ${p.itemType} in someone else's container`;
+      break;
+    }
+    case 'container_withdraw': {
+      const p = payload as EventPayload<'container_withdraw'>;
+      description = p.byOwner
+        ? `Took ${p.quantity}x ${p.itemType} from own container`
+        : `Took ${p.quantity}x ${p.itemType} from a shared container`;
+      break;
+    }
+    case 'container_access_granted': {
+      const p = payload as EventPayload<'container_access_granted'>;
+      description = `Gave ${p.permission} access to a container (${p.granteeType})`;
+      break;
+    }
+    case 'container_access_revoked': {
+      const p = payload as EventPayload<'container_access_revoked'>;
+      description = `Removed ${p.granteeType} access to a container`;
+      break;
+    }
+    case 'container_theft': {
+      const p = payload as EventPayload<'container_theft'>;
+      description = p.detected
+        ? `Stole ${p.quantity}x ${p.itemType} from a container (seen)`
+        : `Stole ${p.quantity}x ${p.itemType} from a container unnoticed`;
+      break;
+    }
+    case 'agent_crafted': {
+      const { output } = payload as EventPayload<'agent_crafted'>;
+      description = `Crafted ${output.quantity}x ${output.itemType}`;
+      break;
+    }
+    case 'agent_craft_failed': {
+      const p = payload as EventPayload<'agent_craft_failed'>;
+      description = `Failed to craft ${p.recipeId} (materials lost)`;
+      break;
+    }
+    case 'recipe_discovered': {
+      const p = payload as EventPayload<'recipe_discovered'>;
+      description = p.firstInWorld
+        ? `Discovered the ${p.recipeId} recipe - first in the world!`
+        : `Learned the ${p.recipeId} recipe`;
+      break;
+    }
+    case 'agent_worked': {
+      const p = payload as EventPayload<'agent_worked'>;
+      description = `Worked (${p.ticksWorked}/${p.ticksRequired} ticks), earned ${p.paymentThisTick} CITY`;
+      break;
+    }
+    case 'agent_gathered': {
+      const p = payload as EventPayload<'agent_gathered'>;
+      description = `Gathered ${p.amountGathered}x ${p.resourceType}`;
+      break;
+    }
     case 'agent_sleeping':
       description = `Started sleeping`;
       break;
     case 'agent_woke':
       description = `Woke up`;
       break;
-    case 'needs_warning':
-      description = `Warning: ${event.payload.need} is ${event.payload.level}`;
+    case 'needs_warning': {
+      const p = payload as EventPayload<'needs_warning'>;
+      description = `Warning: ${p.need} is ${p.level}`;
       break;
-    case 'balance_changed':
-      const change = event.payload.change as number;
+    }
+    case 'balance_changed': {
+      const { change } = payload as EventPayload<'balance_changed'>;
       description = `Balance ${change >= 0 ? '+' : ''}${change} CITY`;
       break;
+    }
     case 'agent_traded': {
-      const offered = payload.offered as { itemType: string; quantity: number };
-      const received = payload.received as { itemType: string; quantity: number };
+      const { offered, received } = payload as EventPayload<'agent_traded'>;
       description = `Traded ${offered.quantity}x ${offered.itemType} for ${received.quantity}x ${received.itemType}`;
       break;
     }
     case 'agent_received_trade': {
-      const off = payload.offered as { itemType: string; quantity: number };
-      const rec = payload.received as { itemType: string; quantity: number };
-      description = `Received trade: gave ${off.quantity}x ${off.itemType}, got ${rec.quantity}x ${rec.itemType}`;
+      const { offered, received } = payload as EventPayload<'agent_received_trade'>;
+      description = `Received trade: gave ${offered.quantity}x ${offered.itemType}, got ${received.quantity}x ${received.itemType}`;
+      break;
+    }
+    // Trade Proposals
+    case 'agent_trade_proposed': {
+      const { offered, requested } = payload as EventPayload<'agent_trade_proposed'>;
+      description = `Trade proposed: ${offered.quantity}x ${offered.itemType} for ${requested.quantity}x ${requested.itemType}`;
       break;
     }
+    case 'agent_trade_countered': {
+      const { offered, requested } = payload as EventPayload<'agent_trade_countered'>;
+      description = `Trade countered: ${offered.quantity}x ${offered.itemType} for ${requested.quantity}x ${requested.itemType}`;
+      break;
+    }
+    case 'agent_trade_accepted': {
+      const { proposalId } = payload as EventPayload<'agent_trade_accepted'>;
+      description = `Trade proposal ${proposalId.slice(0, 8)} accepted`;
+      break;
+    }
+    case 'agent_trade_rejected': {
+      const { proposalId } = payload as EventPayload<'agent_trade_rejected'>;
+      description = `Trade proposal ${proposalId.slice(0, 8)} rejected`;
+      break;
+    }
+    case 'trade_proposal_expired':
+      description = `Trade proposal ${String(payload.proposalId).slice(0, 8)} expired unanswered`;
+      break;
     case 'action_failed':
       description = `ACTION FAILED: ${event.payload.action} - ${event.payload.error}`;
       break;
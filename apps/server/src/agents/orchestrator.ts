@@ -3,18 +3,24 @@
  *
  * Scientific Model: uses resource spawns and shelters instead of typed locations
  * Phase 3: External agents with webhooks are handled directly, not through BullMQ
+ * Phase 3: External agents connected over WebSocket get observations pushed in-band
+ * Plans: set_goal / update_plan are applied with the decision; routine plan
+ * steps run without an LLM call
  */
 
 import { getAliveAgents, updateAgent } from '../db/queries/agents';
 import { getAllResourceSpawns, getAllShelters } from '../db/queries/world';
 import { getEventsByAgent, appendEvent } from '../db/queries/events';
 import { getExternalAgentByAgentId } from '../db/queries/external-agents';
+import { getBusyCrafters } from '../db/queries/crafting';
 import type { Agent } from '../db/schema';
 import type { LLMType, AgentDecision, AgentObservation } from '../llm/types';
 import {
   createExternalAgentAdapter,
   getFallbackDecision,
   getRandomWalkDecision,
+  tryPlanStep,
+  recordLizardBrain,
 } from '../llm';
 import {
   isBaselineAgent,
@@ -26,6 +32,16 @@ import { tickEngine } from '../simulation/tick-engine';
 import { buildObservation, formatEvent } from './observer';
 import { executeAction, createIntent } from '../actions';
 import type { ActionResult } from '../actions/types';
+import { advanceTravelPlans, completeTravelStep } from '../simulation/travel';
+import {
+  applyPlanDirective,
+  expireOverduePlans,
+  recordPlanProgress,
+  type PlanState,
+} from '../simulation/plans';
+import type { WorldEvent } from '../cache/pubsub';
+import { CONFIG } from '../config';
+import { agentSocketHub } from './socket-hub';
 
 export interface AgentTickResult {
   agentId: string;
@@ -108,49 +124,100 @@ async function processExternalAgents(
 }
 
 /**
- * Process all agents for a tick
+ * Push observations to socket-connected external agents and collect their decisions
+ *
+ * Agents that miss the deadline simply skip the tick, same as poll-mode agents.
  */
-export async function processAgentsTick(tick: number): Promise<AgentTickResult[]> {
-  // Get alive agents and world state
-  const [agents, resourceSpawns, shelters] = await Promise.all([
-    getAliveAgents(),
-    getAllResourceSpawns(),
-    getAllShelters(),
-  ]);
-
-  if (agents.length === 0) {
-    console.log('[Orchestrator] No alive agents');
-    return [];
-  }
+async function processSocketAgents(
+  socketAgents: Array<{ agent: Agent; observation: AgentObservation }>,
+  tick: number
+): Promise<DecisionJobResult[]> {
+  if (socketAgents.length === 0) return [];
 
-  console.log(`[Orchestrator] Processing ${agents.length} agents for tick ${tick}`);
+  console.log(`[Orchestrator] Pushing observations to ${socketAgents.length} socket-connected external agents`);
 
-  // Build observations for all agents
-  const agentObservations = await Promise.all(
-    agents.map(async (agent) => {
-      // Get recent events for this agent
-      const recentDbEvents = await getEventsByAgent(agent.id, 10);
-      const recentEvents = recentDbEvents.map((e) =>
-        formatEvent({
-          type: e.eventType,
-          tick: e.tick,
-          payload: e.payload as Record<string, unknown>,
-        })
-      );
+  const results = await Promise.all(
+    socketAgents.map(async ({ agent, observation }) => {
+      const startTime = Date.now();
+      const decision = await agentSocketHub.requestDecision(agent.id, observation, tick);
 
-      const observation = await buildObservation(agent, tick, agents, resourceSpawns, shelters, recentEvents);
+      if (!decision) {
+        console.log(`[Orchestrator] Socket agent ${agent.id} sent no decision for tick ${tick}, skipping`);
+        return null;
+      }
 
-      return { agent, observation };
+      return {
+        agentId: agent.id,
+        tick,
+        decision,
+        processingTimeMs: Date.now() - startTime,
+        usedFallback: false,
+      };
     })
   );
 
-  // Separate agents into categories: external with webhooks, baseline, and regular LLM
+  return results.filter((r): r is DecisionJobResult => r !== null);
+}
+
+/**
+ * Replay mode (simulation/deterministic-replay.ts): decisions come from a
+ * recorded run instead of LLMs, baselines or external agents
+ */
+export type RecordedDecisionSource = (tick: number) => Map<string, AgentDecision>;
+
+let recordedDecisionSource: RecordedDecisionSource | null = null;
+
+/**
+ * Set (or clear with null) the recorded decisions used instead of live ones
+ */
+export function setRecordedDecisionSource(source: RecordedDecisionSource | null): void {
+  recordedDecisionSource = source;
+}
+
+/**
+ * Whether decisions currently come from a recorded run
+ */
+export function isReplayingRecordedDecisions(): boolean {
+  return recordedDecisionSource !== null;
+}
+
+/**
+ * Recorded decisions for this tick, in alive-agent order
+ */
+function getRecordedDecisions(
+  recorded: Map<string, AgentDecision>,
+  agents: Agent[],
+  tick: number
+): DecisionJobResult[] {
+  return agents
+    .filter((agent) => recorded.has(agent.id))
+    .map((agent) => ({
+      agentId: agent.id,
+      tick,
+      decision: recorded.get(agent.id)!,
+      processingTimeMs: 0,
+      usedFallback: false,
+    }));
+}
+
+/**
+ * Decide for agents live: external agents, baselines and LLMs
+ */
+async function decideLive(
+  agentObservations: Array<{ agent: Agent; observation: AgentObservation }>,
+  tick: number
+): Promise<DecisionJobResult[]> {
+  // Separate agents into categories: external (socket or webhook), baseline, and regular LLM
+  const externalWithSockets: Array<{ agent: Agent; observation: AgentObservation }> = [];
   const externalWithWebhooks: Array<{ agent: Agent; observation: AgentObservation; endpoint: string }> = [];
   const baselineAgents: Array<{ agent: Agent; observation: AgentObservation }> = [];
   const regularAgents: Array<{ agent: Agent; observation: AgentObservation }> = [];
 
   for (const { agent, observation } of agentObservations) {
-    if (agent.llmType === 'external') {
+    if (agent.llmType === 'external' && agentSocketHub.isConnected(agent.id)) {
+      // A live socket takes precedence over webhook and poll mode
+      externalWithSockets.push({ agent, observation });
+    } else if (agent.llmType === 'external') {
       // Check if this external agent has a webhook endpoint
       const externalAgent = await getExternalAgentByAgentId(agent.id);
       if (externalAgent?.endpoint && externalAgent.isActive) {
@@ -167,6 +234,9 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
     }
   }
 
+  // Socket agents think while the rest of the tick is decided; collected below
+  const socketDecisionsPromise = processSocketAgents(externalWithSockets, tick);
+
   // Process external agents with webhooks directly (parallel)
   const externalDecisions = await processExternalAgents(externalWithWebhooks, tick);
 
@@ -233,8 +303,27 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
     }));
   } else {
     // NORMAL MODE: All agents use LLM for decisions (Radical Emergence)
-    // Decision caching in the queue worker still provides performance optimization
-    const jobs = regularAgents.map(({ agent, observation }) => ({
+    // Decision caching in the queue worker still provides performance optimization.
+    // Routine steps of an agent's own plan run without an LLM call.
+    const planStepDecisions: DecisionJobResult[] = [];
+    const thinkingAgents: typeof regularAgents = [];
+    for (const { agent, observation } of regularAgents) {
+      const planStep = tryPlanStep(observation);
+      if (planStep.handled && planStep.decision) {
+        recordLizardBrain();
+        planStepDecisions.push({
+          agentId: agent.id,
+          tick,
+          decision: planStep.decision,
+          processingTimeMs: 0,
+          usedFallback: false,
+        });
+      } else {
+        thinkingAgents.push({ agent, observation });
+      }
+    }
+
+    const jobs = thinkingAgents.map(({ agent, observation }) => ({
       agentId: agent.id,
       llmType: agent.llmType as LLMType,
       tick,
@@ -242,11 +331,109 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
     }));
 
     const queuedJobs = await queueDecisions(jobs);
-    queuedDecisionResults = await waitForDecisions(queuedJobs, 30000);
+    queuedDecisionResults = [...planStepDecisions, ...await waitForDecisions(queuedJobs, 30000)];
   }
 
-  // Combine all decision results (external, baseline, and regular LLM)
-  const decisionResults = [...externalDecisions, ...baselineDecisions, ...queuedDecisionResults];
+  const socketDecisions = await socketDecisionsPromise;
+
+  // Combine all decision results (external, baseline and regular LLM)
+  return [
+    ...externalDecisions,
+    ...socketDecisions,
+    ...baselineDecisions,
+    ...queuedDecisionResults,
+  ];
+}
+
+/**
+ * Process all agents for a tick
+ */
+export async function processAgentsTick(tick: number): Promise<AgentTickResult[]> {
+  // Get alive agents and world state
+  const [agents, resourceSpawns, shelters] = await Promise.all([
+    getAliveAgents(),
+    getAllResourceSpawns(),
+    getAllShelters(),
+  ]);
+
+  if (agents.length === 0) {
+    console.log('[Orchestrator] No alive agents');
+    return [];
+  }
+
+  console.log(`[Orchestrator] Processing ${agents.length} agents for tick ${tick}`);
+
+  // Advance travel_to journeys first: travelling agents skip the LLM this tick,
+  // and arrival/interruption events are stored so the agent sees them when it decides
+  const travel = await advanceTravelPlans(tick, agents);
+  for (const event of travel.events) {
+    await appendEvent({
+      eventType: event.type,
+      tick,
+      agentId: event.agentId,
+      payload: event.payload,
+    });
+  }
+
+  // Abandon plans whose deadline passed, before the agent sees them again
+  if (CONFIG.plans.enabled) {
+    for (const event of await expireOverduePlans(tick, agents)) {
+      await appendEvent({
+        eventType: event.type,
+        tick,
+        agentId: event.agentId,
+        payload: event.payload,
+      });
+    }
+  }
+
+  // Agents still crafting sit this tick out (crafting takes recipe.ticks ticks)
+  const busyCrafters = await getBusyCrafters(tick, agents.map((a) => a.id));
+  if (busyCrafters.size > 0) {
+    console.log(`[Orchestrator] ${busyCrafters.size} agent(s) busy crafting`);
+  }
+
+  // Build observations for all agents that need to decide
+  const decidingAgents = agents.filter((a) => !travel.steps.has(a.id) && !busyCrafters.has(a.id));
+  const agentObservations = await Promise.all(
+    decidingAgents.map(async (agent) => {
+      // Get recent events for this agent
+      const recentDbEvents = await getEventsByAgent(agent.id, 10);
+      const recentEvents = recentDbEvents.map((e) =>
+        formatEvent({
+          type: e.eventType,
+          tick: e.tick,
+          payload: e.payload as Record<string, unknown>,
+        })
+      );
+
+      const observation = await buildObservation(agent, tick, agents, resourceSpawns, shelters, recentEvents);
+
+      return { agent, observation };
+    })
+  );
+
+  // Replay mode takes recorded decisions; otherwise agents decide live
+  const decided = recordedDecisionSource
+    ? getRecordedDecisions(recordedDecisionSource(tick), decidingAgents, tick)
+    : await decideLive(agentObservations, tick);
+
+  // Travelling agents follow their plan (no LLM call)
+  const travelDecisions: DecisionJobResult[] = Array.from(travel.steps, ([agentId, { decision }]) => ({
+    agentId,
+    tick,
+    decision,
+    processingTimeMs: 0,
+    usedFallback: false,
+  }));
+
+  const decisionResults = [...decided, ...travelDecisions];
+
+  // Active plans as the agents saw them (travelling agents are not on a plan step)
+  const plans = new Map<string, PlanState>();
+  for (const { agent, observation } of agentObservations) {
+    if (observation.currentPlan) plans.set(agent.id, observation.currentPlan);
+  }
 
   // Execute actions for each decision
   const results: AgentTickResult[] = [];
@@ -265,6 +452,15 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
     let error: string | undefined;
 
     try {
+      // Apply set_goal / update_plan first, so this action can count as a step of the new plan
+      let plan = plans.get(result.agentId) ?? null;
+      const planEvents: WorldEvent[] = [];
+      if (result.decision.plan && CONFIG.plans.enabled) {
+        const planUpdate = await applyPlanDirective(agent, result.decision.plan, tick);
+        plan = planUpdate.plan;
+        planEvents.push(...planUpdate.events);
+      }
+
       // Create action intent
       const intent = createIntent(
         result.agentId,
@@ -288,6 +484,7 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
           payload: {
             action: result.decision.action,
             params: result.decision.params,
+            plan: result.decision.plan,
             error: actionResult.error,
           },
         });
@@ -297,11 +494,67 @@ export async function processAgentsTick(tick: number): Promise<AgentTickResult[]
       if (actionResult.success && actionResult.changes) {
         await updateAgent(result.agentId, actionResult.changes);
       }
+
+      // Record plan progress (completion is reported with this tick's events)
+      if (plan) {
+        const planEvent = await recordPlanProgress(plan, agent.id, result.decision.action, actionResult.success, tick);
+        if (planEvent) planEvents.push(planEvent);
+      }
+      if (planEvents.length > 0) {
+        if (actionResult.success) {
+          actionResult.events = [...(actionResult.events ?? []), ...planEvents];
+        } else {
+          for (const planEvent of planEvents) {
+            await appendEvent({
+              eventType: planEvent.type,
+              tick,
+              agentId: agent.id,
+              payload: planEvent.payload,
+            });
+          }
+        }
+      }
+
+      // Record travel progress (arrival/interruption is reported with this tick's events)
+      const travelStep = travel.steps.get(result.agentId);
+      if (travelStep) {
+        const travelEvent = await completeTravelStep(
+          travelStep.plan,
+          { ...agent, ...actionResult.changes },
+          tick,
+          actionResult.success
+        );
+        if (travelEvent) {
+          actionResult.events = [...(actionResult.events ?? []), travelEvent];
+          if (!actionResult.success) {
+            await appendEvent({
+              eventType: travelEvent.type,
+              tick,
+              agentId: agent.id,
+              payload: travelEvent.payload,
+            });
+          }
+        }
+      }
     } catch (e) {
       error = e instanceof Error ? e.message : 'Unknown error';
       console.error(`[Orchestrator] Error executing action for ${result.agentId}:`, error);
     }
 
+    // Socket agents get the outcome in-band (HTTP agents get it from /decide)
+    if (agentSocketHub.isConnected(result.agentId) && agent.llmType === 'external') {
+      agentSocketHub.send(result.agentId, {
+        type: 'action_result',
+        tick,
+        success: actionResult?.success ?? false,
+        result: {
+          changes: actionResult?.changes,
+          events: actionResult?.events,
+          error: actionResult?.error ?? error,
+        },
+      });
+    }
+
     results.push({
       agentId: result.agentId,
       llmType: agent.llmType,
@@ -0,0 +1,310 @@
+/**
+ * Agent Socket Hub - WebSocket transport for external agents (Phase 3: A2A Protocol)
+ *
+ * Keeps one live connection per external agent. At tick start the orchestrator
+ * pushes the agent's observation and waits (up to the decision deadline) for a
+ * decision sent back on the same connection.
+ *
+ * Protocol (JSON text frames):
+ *   server → client: welcome, observation, decision_ack, action_result, resume, ping, pong, error
+ *   client → server: decision, ping, pong
+ *
+ * Transport-agnostic: the route in routes/agent-socket.ts adapts `ws` sockets.
+ */
+
+import type { AgentDecision, AgentObservation } from '../llm/types';
+import type { ActionResult, ActionType } from '../actions/types';
+import { getRegisteredActionTypes, validateActionParams } from '../actions';
+import { parsePlanDirective } from '../llm/response-parser';
+import { CONFIG } from '../config';
+
+/**
+ * Minimal socket surface used by the hub (satisfied by `ws` WebSocket)
+ */
+export interface AgentSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+const SOCKET_OPEN = 1;
+
+/** Close codes (4000-4999 are reserved for applications) */
+export const SOCKET_CLOSE_CODES = {
+  replaced: 4000,
+  heartbeatTimeout: 4001,
+  unauthorized: 4401,
+  agentDead: 4410,
+} as const;
+
+export type ServerMessage =
+  | { type: 'welcome'; agentId: string; tick: number; heartbeatIntervalMs: number; decisionTimeoutMs: number }
+  | { type: 'observation'; tick: number; deadline: number; observation: AgentObservation }
+  | { type: 'decision_ack'; tick: number }
+  | { type: 'action_result'; tick: number; success: boolean; result: Pick<ActionResult, 'changes' | 'events' | 'error'> }
+  | { type: 'resume'; fromTick: number; toTick: number; events: unknown[]; truncated: boolean }
+  | { type: 'ping'; timestamp: number }
+  | { type: 'pong'; timestamp: number }
+  | { type: 'error'; code: string; message: string; tick?: number };
+
+interface Connection {
+  socket: AgentSocket;
+  externalAgentId: string;
+  lastSeenAt: number;
+}
+
+interface PendingDecision {
+  tick: number;
+  observationMessage: ServerMessage;
+  resolve: (decision: AgentDecision | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export type DecisionSubmitResult =
+  | { accepted: true; tick: number }
+  | { accepted: false; code: string; message: string };
+
+// =============================================================================
+// Agent Socket Hub
+// =============================================================================
+
+export class AgentSocketHub {
+  private connections = new Map<string, Connection>();
+  private pending = new Map<string, PendingDecision>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Register a connection for an agent (replaces any previous connection)
+   */
+  attach(agentId: string, externalAgentId: string, socket: AgentSocket): void {
+    const existing = this.connections.get(agentId);
+    if (existing && existing.socket !== socket) {
+      existing.socket.close(SOCKET_CLOSE_CODES.replaced, 'Replaced by a newer connection');
+    }
+
+    this.connections.set(agentId, { socket, externalAgentId, lastSeenAt: Date.now() });
+    this.startHeartbeat();
+
+    // Connected mid-tick: hand over the observation still waiting for a decision
+    const pending = this.pending.get(agentId);
+    if (pending) {
+      this.send(agentId, pending.observationMessage);
+    }
+  }
+
+  /**
+   * Remove a connection (ignored if the agent has since reconnected on another socket)
+   */
+  detach(agentId: string, socket: AgentSocket): void {
+    const connection = this.connections.get(agentId);
+    if (connection?.socket !== socket) return;
+
+    this.connections.delete(agentId);
+    if (this.connections.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  isConnected(agentId: string): boolean {
+    return this.connections.get(agentId)?.socket.readyState === SOCKET_OPEN;
+  }
+
+  getExternalAgentId(agentId: string): string | undefined {
+    return this.connections.get(agentId)?.externalAgentId;
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Mark a connection alive (any inbound frame counts as a heartbeat)
+   */
+  touch(agentId: string): void {
+    const connection = this.connections.get(agentId);
+    if (connection) connection.lastSeenAt = Date.now();
+  }
+
+  /**
+   * Send a message to an agent; returns false if it is not connected
+   */
+  send(agentId: string, message: ServerMessage): boolean {
+    const connection = this.connections.get(agentId);
+    if (!connection || connection.socket.readyState !== SOCKET_OPEN) return false;
+
+    try {
+      connection.socket.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.warn(`[AgentSocket] Send to ${agentId} failed:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Push an observation and wait for the agent's decision
+   *
+   * Resolves null if no valid decision arrives before the deadline.
+   * The pending request survives reconnects within the deadline.
+   */
+  requestDecision(
+    agentId: string,
+    observation: AgentObservation,
+    tick: number,
+    timeoutMs = CONFIG.externalAgents.socket.decisionTimeoutMs
+  ): Promise<AgentDecision | null> {
+    // A newer tick supersedes an unanswered request
+    this.settle(agentId, null);
+
+    return new Promise((resolve) => {
+      const observationMessage: ServerMessage = {
+        type: 'observation',
+        tick,
+        deadline: Date.now() + timeoutMs,
+        observation,
+      };
+
+      const timer = setTimeout(() => {
+        if (this.settle(agentId, null)) {
+          this.send(agentId, {
+            type: 'error',
+            code: 'deadline_missed',
+            message: `No decision received within ${timeoutMs}ms`,
+            tick,
+          });
+        }
+      }, timeoutMs);
+
+      this.pending.set(agentId, { tick, observationMessage, resolve, timer });
+      this.send(agentId, observationMessage);
+    });
+  }
+
+  /**
+   * Get the tick an agent currently owes a decision for
+   */
+  getPendingTick(agentId: string): number | null {
+    return this.pending.get(agentId)?.tick ?? null;
+  }
+
+  /**
+   * Handle a decision frame from an agent
+   */
+  submitDecision(agentId: string, message: Record<string, unknown>): DecisionSubmitResult {
+    const pending = this.pending.get(agentId);
+    if (!pending) {
+      return { accepted: false, code: 'no_pending_observation', message: 'No observation is waiting for a decision' };
+    }
+
+    if (message.tick !== undefined && message.tick !== pending.tick) {
+      return {
+        accepted: false,
+        code: 'stale_tick',
+        message: `Decision is for tick ${message.tick}, current decision is for tick ${pending.tick}`,
+      };
+    }
+
+    const decision = parseSocketDecision(message);
+    if (!decision) {
+      return {
+        accepted: false,
+        code: 'invalid_decision',
+        message: `Decision must include a registered action and a params object`,
+      };
+    }
+
+    // Same params check as POST /decide and the MCP tools; the agent may resend before the deadline
+    const paramsError = validateActionParams(decision.action, decision.params);
+    if (paramsError) {
+      return { accepted: false, code: 'invalid_params', message: `Invalid params: ${paramsError}` };
+    }
+
+    this.settle(agentId, decision);
+    return { accepted: true, tick: pending.tick };
+  }
+
+  /**
+   * Close all connections and drop pending requests (shutdown, tests)
+   */
+  closeAll(): void {
+    for (const agentId of [...this.pending.keys()]) {
+      this.settle(agentId, null);
+    }
+    for (const [agentId, connection] of this.connections) {
+      connection.socket.close();
+      this.connections.delete(agentId);
+    }
+    this.stopHeartbeat();
+  }
+
+  /**
+   * Ping live connections and close silent ones
+   */
+  sweepHeartbeats(now = Date.now()): void {
+    const { heartbeatTimeoutMs } = CONFIG.externalAgents.socket;
+
+    for (const [agentId, connection] of this.connections) {
+      if (now - connection.lastSeenAt > heartbeatTimeoutMs) {
+        connection.socket.close(SOCKET_CLOSE_CODES.heartbeatTimeout, 'Heartbeat timeout');
+        this.connections.delete(agentId);
+        continue;
+      }
+      this.send(agentId, { type: 'ping', timestamp: now });
+    }
+
+    if (this.connections.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  private settle(agentId: string, decision: AgentDecision | null): boolean {
+    const pending = this.pending.get(agentId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(agentId);
+    pending.resolve(decision);
+    return true;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(
+      () => this.sweepHeartbeats(),
+      CONFIG.externalAgents.socket.heartbeatIntervalMs
+    );
+    // Never keep the process alive just for heartbeats
+    this.heartbeatTimer.unref?.();
+  }
+
+  private stopHeartbeat(): void {
+    if (!this.heartbeatTimer) return;
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+}
+
+/**
+ * Validate a decision frame against the action registry
+ */
+export function parseSocketDecision(message: Record<string, unknown>): AgentDecision | null {
+  const { action, params, reasoning } = message;
+
+  if (typeof action !== 'string' || !(getRegisteredActionTypes() as string[]).includes(action)) {
+    return null;
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+    return null;
+  }
+
+  const plan = parsePlanDirective(message);
+
+  return {
+    action: action as ActionType,
+    params: (params ?? {}) as AgentDecision['params'],
+    reasoning: typeof reasoning === 'string' ? reasoning : undefined,
+    ...(plan && { plan }),
+  };
+}
+
+export const agentSocketHub = new AgentSocketHub();
@@ -47,6 +47,7 @@ import {
   type LLMInvoker,
 } from './genesis';
 import { createProductionInvoker, createDiverseMockInvoker } from './genesis-llm-invoker';
+import { provisionAgentSigningKey } from '../services/agent-key-service';
 
 // =============================================================================
 // Agent Configurations
@@ -413,6 +414,7 @@ export async function spawnInitialAgents(): Promise<void> {
     };
 
     await createAgent(agent);
+    await provisionAgentSigningKey(agent.id);
 
     // Give starting inventory (reduced for scarcity)
     await addToInventory(agent.id, 'food', startingFood);
@@ -643,6 +645,7 @@ export async function spawnWorldWithConfig(config?: SpawnConfiguration): Promise
     };
 
     await createAgent(agent);
+    await provisionAgentSigningKey(agent.id);
     await addToInventory(agent.id, 'food', startingFood);
 
     const isBaseline = agentConfig.llmType.startsWith('baseline_');
@@ -0,0 +1,565 @@
+/**
+ * Emergent Language Analysis
+ *
+ * Treats what agents say to each other as a corpus and measures whether a
+ * shared language is forming:
+ * 1. Vocabulary growth - distinct terms over time (Heaps' law exponent)
+ * 2. Term-to-referent mappings - which terms are used near which resource,
+ *    shelter or named place
+ * 3. Naming convergence - whether agents settle on one name per location
+ *    (location_names)
+ * 4. Dialects - how differently lineages or LLM types talk, clustered by
+ *    Jensen-Shannon divergence of their term distributions
+ *
+ * Utterances come from signals, gossip claims and direct messages
+ * (the text as written, before synthetic vocabulary).
+ *
+ * @module language
+ */
+
+import { entropy, mean } from './experiment-analysis';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type UtteranceSource = 'signal' | 'gossip' | 'message';
+
+export interface Utterance {
+  speakerId: string;
+  tick: number;
+  text: string;
+  source: UtteranceSource;
+  /** Where it was said (unknown for gossip) */
+  x?: number;
+  y?: number;
+}
+
+export interface Speaker {
+  id: string;
+  llmType: string;
+  /** Founding ancestor of the agent's lineage (the agent itself for generation 0) */
+  lineageRootId: string;
+}
+
+/** Something in the world a term may refer to */
+export interface Referent {
+  /** Label, e.g. 'resource:food', 'shelter', 'place:Riverbend' */
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface LocationNameUse {
+  x: number;
+  y: number;
+  name: string;
+  usageCount: number;
+}
+
+export interface LanguageCorpus {
+  utterances: Utterance[];
+  speakers: Speaker[];
+  referents: Referent[];
+  locationNames: LocationNameUse[];
+}
+
+export type DialectGrouping = 'llmType' | 'lineage';
+
+export interface LanguageAnalysisOptions {
+  /** Ticks per vocabulary growth bucket (default 50) */
+  bucketSize?: number;
+  /** Max distance between an utterance and a referent (default 3) */
+  referentRadius?: number;
+  /** Min co-occurrences for a term-to-referent mapping (default 3) */
+  minMappingCount?: number;
+  /** Group speakers by LLM type or lineage (default llmType) */
+  groupBy?: DialectGrouping;
+  /** Max Jensen-Shannon divergence for two groups to share a dialect (default 0.5) */
+  dialectThreshold?: number;
+  /** Max entries per list (default 20) */
+  topN?: number;
+}
+
+export interface VocabularyPoint {
+  tickStart: number;
+  utterances: number;
+  tokens: number;
+  /** Distinct terms so far */
+  vocabularySize: number;
+  /** Terms first used in this bucket */
+  newTerms: number;
+}
+
+export interface VocabularyGrowth {
+  totalTokens: number;
+  vocabularySize: number;
+  typeTokenRatio: number;
+  /** Exponent of vocabulary ~ tokens^beta (0.4-0.6 is typical for natural language) */
+  heapsExponent: number;
+  series: VocabularyPoint[];
+  bySource: Record<UtteranceSource, { utterances: number; tokens: number }>;
+}
+
+export interface TermReferentMapping {
+  term: string;
+  referent: string;
+  count: number;
+  /** Share of the term's located uses near this referent */
+  confidence: number;
+  /** confidence / base rate of the referent (>1 = the term points at it) */
+  lift: number;
+}
+
+export interface LocationNaming {
+  x: number;
+  y: number;
+  dominantName: string;
+  competingNames: number;
+  totalUses: number;
+  /** Share of uses of the dominant name (1 = full agreement) */
+  consensus: number;
+}
+
+export interface NamingConvergence {
+  namedLocations: number;
+  /** Use-weighted mean consensus over locations */
+  convergence: number;
+  /** Locations with one name only */
+  settledLocations: number;
+  /** Names given to more than one location */
+  reusedNames: { name: string; locations: number }[];
+  mostContested: LocationNaming[];
+}
+
+export interface DialectGroup {
+  key: string;
+  speakers: number;
+  tokens: number;
+  vocabularySize: number;
+  /** Terms used far more in this group than elsewhere */
+  distinctiveTerms: string[];
+}
+
+export interface DialectAnalysis {
+  groupBy: DialectGrouping;
+  groups: DialectGroup[];
+  /** Pairwise Jensen-Shannon divergence (0 = same usage, 1 = disjoint) */
+  distances: { a: string; b: string; divergence: number }[];
+  /** Groups joined while their average divergence stays under the threshold */
+  clusters: string[][];
+  /** Mean pairwise divergence (0 when fewer than two groups) */
+  meanDivergence: number;
+}
+
+export interface LanguageReport {
+  utterances: number;
+  speakers: number;
+  vocabulary: VocabularyGrowth;
+  termReferents: TermReferentMapping[];
+  naming: NamingConvergence;
+  dialects: DialectAnalysis;
+}
+
+// =============================================================================
+// Tokenization
+// =============================================================================
+
+/** Function words left out of referent mappings and distinctive terms */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'go', 'have',
+  'he', 'here', 'i', 'if', 'in', 'is', 'it', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she',
+  'so', 'that', 'the', 'there', 'they', 'this', 'to', 'us', 'was', 'we', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase terms (letters and digits, any script)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !/^\d+$/.test(token));
+}
+
+function contentTerms(tokens: string[]): string[] {
+  return tokens.filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// =============================================================================
+// Vocabulary Growth
+// =============================================================================
+
+/**
+ * Distinct terms over time, bucketed by tick
+ */
+export function analyzeVocabularyGrowth(utterances: Utterance[], bucketSize = 50): VocabularyGrowth {
+  const sorted = [...utterances].sort((a, b) => a.tick - b.tick);
+  const seen = new Set<string>();
+  const series: VocabularyPoint[] = [];
+  const bySource: VocabularyGrowth['bySource'] = {
+    signal: { utterances: 0, tokens: 0 },
+    gossip: { utterances: 0, tokens: 0 },
+    message: { utterances: 0, tokens: 0 },
+  };
+  // (log tokens, log vocabulary) after each utterance, for the Heaps' law fit
+  const heapsPoints: [number, number][] = [];
+  let totalTokens = 0;
+
+  for (const utterance of sorted) {
+    const tokens = tokenize(utterance.text);
+    const tickStart = Math.floor(utterance.tick / bucketSize) * bucketSize;
+    let point = series[series.length - 1];
+    if (!point || point.tickStart !== tickStart) {
+      point = { tickStart, utterances: 0, tokens: 0, vocabularySize: seen.size, newTerms: 0 };
+      series.push(point);
+    }
+
+    for (const token of tokens) {
+      if (!seen.has(token)) {
+        seen.add(token);
+        point.newTerms++;
+      }
+    }
+    point.utterances++;
+    point.tokens += tokens.length;
+    point.vocabularySize = seen.size;
+    bySource[utterance.source].utterances++;
+    bySource[utterance.source].tokens += tokens.length;
+
+    totalTokens += tokens.length;
+    if (tokens.length > 0) heapsPoints.push([Math.log(totalTokens), Math.log(seen.size)]);
+  }
+
+  return {
+    totalTokens,
+    vocabularySize: seen.size,
+    typeTokenRatio: totalTokens > 0 ? seen.size / totalTokens : 0,
+    heapsExponent: slope(heapsPoints),
+    series,
+    bySource,
+  };
+}
+
+/**
+ * Least-squares slope (0 when undefined)
+ */
+function slope(points: [number, number][]): number {
+  if (points.length < 2) return 0;
+  const mx = mean(points.map(([x]) => x));
+  const my = mean(points.map(([, y]) => y));
+  let num = 0;
+  let den = 0;
+  for (const [x, y] of points) {
+    num += (x - mx) * (y - my);
+    den += (x - mx) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+// =============================================================================
+// Term-to-Referent Mappings
+// =============================================================================
+
+/**
+ * Which terms are used near which referent
+ *
+ * Each located utterance is linked to the referents within `radius`
+ * (Manhattan distance). A term maps to a referent when it is used near it
+ * more often than chance: lift = P(referent | term) / P(referent).
+ */
+export function analyzeTermReferents(
+  utterances: Utterance[],
+  referents: Referent[],
+  options: { radius?: number; minCount?: number; topN?: number } = {}
+): TermReferentMapping[] {
+  const { radius = 3, minCount = 3, topN = 20 } = options;
+
+  const termUses = new Map<string, number>();
+  const pairCounts = new Map<string, Map<string, number>>();
+  const referentUses = new Map<string, number>();
+  let locatedUtterances = 0;
+
+  for (const utterance of utterances) {
+    if (utterance.x === undefined || utterance.y === undefined) continue;
+    const nearby = new Set(
+      referents
+        .filter((r) => Math.abs(r.x - utterance.x!) + Math.abs(r.y - utterance.y!) <= radius)
+        .map((r) => r.label)
+    );
+    const terms = new Set(contentTerms(tokenize(utterance.text)));
+    if (terms.size === 0) continue;
+
+    locatedUtterances++;
+    for (const label of nearby) {
+      referentUses.set(label, (referentUses.get(label) ?? 0) + 1);
+    }
+    for (const term of terms) {
+      termUses.set(term, (termUses.get(term) ?? 0) + 1);
+      let counts = pairCounts.get(term);
+      if (!counts) {
+        counts = new Map();
+        pairCounts.set(term, counts);
+      }
+      for (const label of nearby) {
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+      }
+    }
+  }
+
+  const mappings: TermReferentMapping[] = [];
+  for (const [term, counts] of pairCounts) {
+    // The referent the term is most often used near
+    let best: [string, number] | undefined;
+    for (const entry of counts) {
+      if (!best || entry[1] > best[1]) best = entry;
+    }
+    if (!best || best[1] < minCount) continue;
+
+    const [referent, count] = best;
+    const confidence = count / termUses.get(term)!;
+    const baseRate = referentUses.get(referent)! / locatedUtterances;
+    mappings.push({ term, referent, count, confidence, lift: confidence / baseRate });
+  }
+
+  return mappings
+    .filter((m) => m.lift > 1)
+    .sort((a, b) => b.lift * b.count - a.lift * a.count || a.term.localeCompare(b.term))
+    .slice(0, topN);
+}
+
+// =============================================================================
+// Naming Convergence
+// =============================================================================
+
+/**
+ * Agreement on location names
+ */
+export function analyzeNamingConvergence(names: LocationNameUse[], topN = 20): NamingConvergence {
+  const byLocation = new Map<string, LocationNameUse[]>();
+  const locationsByName = new Map<string, Set<string>>();
+
+  for (const use of names) {
+    const key = `${use.x},${use.y}`;
+    const list = byLocation.get(key) ?? [];
+    list.push(use);
+    byLocation.set(key, list);
+
+    const normalized = use.name.trim().toLowerCase();
+    const locations = locationsByName.get(normalized) ?? new Set();
+    locations.add(key);
+    locationsByName.set(normalized, locations);
+  }
+
+  const locations: LocationNaming[] = [];
+  for (const uses of byLocation.values()) {
+    const dominant = uses.reduce((a, b) => (b.usageCount > a.usageCount ? b : a));
+    const totalUses = uses.reduce((sum, u) => sum + u.usageCount, 0);
+    locations.push({
+      x: dominant.x,
+      y: dominant.y,
+      dominantName: dominant.name,
+      competingNames: uses.length,
+      totalUses,
+      consensus: totalUses > 0 ? dominant.usageCount / totalUses : 0,
+    });
+  }
+
+  const totalUses = locations.reduce((sum, l) => sum + l.totalUses, 0);
+  const convergence = totalUses > 0
+    ? locations.reduce((sum, l) => sum + l.consensus * l.totalUses, 0) / totalUses
+    : 0;
+
+  return {
+    namedLocations: locations.length,
+    convergence,
+    settledLocations: locations.filter((l) => l.competingNames === 1).length,
+    reusedNames: [...locationsByName]
+      .filter(([, keys]) => keys.size > 1)
+      .map(([name, keys]) => ({ name, locations: keys.size }))
+      .sort((a, b) => b.locations - a.locations)
+      .slice(0, topN),
+    mostContested: locations
+      .filter((l) => l.competingNames > 1)
+      .sort((a, b) => a.consensus - b.consensus || b.totalUses - a.totalUses)
+      .slice(0, topN),
+  };
+}
+
+// =============================================================================
+// Dialects
+// =============================================================================
+
+/**
+ * Jensen-Shannon divergence of two term frequency tables (base 2, 0-1)
+ */
+export function jensenShannonDivergence(a: Map<string, number>, b: Map<string, number>): number {
+  const totalA = sum(a.values());
+  const totalB = sum(b.values());
+  if (totalA === 0 || totalB === 0) return totalA === totalB ? 0 : 1;
+
+  const terms = new Set([...a.keys(), ...b.keys()]);
+  const p: number[] = [];
+  const q: number[] = [];
+  const m: number[] = [];
+  for (const term of terms) {
+    const pi = (a.get(term) ?? 0) / totalA;
+    const qi = (b.get(term) ?? 0) / totalB;
+    p.push(pi);
+    q.push(qi);
+    m.push((pi + qi) / 2);
+  }
+
+  // JSD = H(M) - (H(P) + H(Q)) / 2
+  return Math.max(0, Math.min(1, entropy(m) - (entropy(p) + entropy(q)) / 2));
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+/**
+ * Compare how groups of speakers talk
+ */
+export function analyzeDialects(
+  utterances: Utterance[],
+  speakers: Speaker[],
+  options: { groupBy?: DialectGrouping; threshold?: number; topN?: number } = {}
+): DialectAnalysis {
+  const { groupBy = 'llmType', threshold = 0.5, topN = 20 } = options;
+  const speakerById = new Map(speakers.map((s) => [s.id, s]));
+
+  const frequencies = new Map<string, Map<string, number>>();
+  const groupSpeakers = new Map<string, Set<string>>();
+  for (const utterance of utterances) {
+    const speaker = speakerById.get(utterance.speakerId);
+    if (!speaker) continue;
+    const key = groupBy === 'lineage' ? speaker.lineageRootId : speaker.llmType;
+
+    const freq = frequencies.get(key) ?? new Map<string, number>();
+    for (const term of contentTerms(tokenize(utterance.text))) {
+      freq.set(term, (freq.get(term) ?? 0) + 1);
+    }
+    frequencies.set(key, freq);
+    groupSpeakers.set(key, (groupSpeakers.get(key) ?? new Set()).add(speaker.id));
+  }
+
+  const keys = [...frequencies.keys()].sort();
+  const overall = new Map<string, number>();
+  for (const freq of frequencies.values()) {
+    for (const [term, count] of freq) overall.set(term, (overall.get(term) ?? 0) + count);
+  }
+  const overallTotal = sum(overall.values());
+
+  const groups: DialectGroup[] = keys.map((key) => {
+    const freq = frequencies.get(key)!;
+    const total = sum(freq.values());
+    return {
+      key,
+      speakers: groupSpeakers.get(key)!.size,
+      tokens: total,
+      vocabularySize: freq.size,
+      distinctiveTerms: distinctiveTerms(freq, total, overall, overallTotal, topN),
+    };
+  });
+
+  const distances: DialectAnalysis['distances'] = [];
+  const divergence = new Map<string, number>();
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      const d = jensenShannonDivergence(frequencies.get(keys[i])!, frequencies.get(keys[j])!);
+      distances.push({ a: keys[i], b: keys[j], divergence: d });
+      divergence.set(`${keys[i]}|${keys[j]}`, d);
+      divergence.set(`${keys[j]}|${keys[i]}`, d);
+    }
+  }
+
+  return {
+    groupBy,
+    groups,
+    distances,
+    clusters: clusterGroups(keys, divergence, threshold),
+    meanDivergence: mean(distances.map((d) => d.divergence)),
+  };
+}
+
+/**
+ * Terms over-represented in a group, by smoothed log-odds against all groups
+ */
+function distinctiveTerms(
+  freq: Map<string, number>,
+  total: number,
+  overall: Map<string, number>,
+  overallTotal: number,
+  topN: number
+): string[] {
+  const restTotal = overallTotal - total;
+  const vocabulary = overall.size;
+
+  return [...freq]
+    .map(([term, count]) => {
+      const rest = overall.get(term)! - count;
+      const inGroup = (count + 1) / (total + vocabulary);
+      const inRest = (rest + 1) / (restTotal + vocabulary);
+      return { term, score: Math.log(inGroup / inRest), count };
+    })
+    .filter((t) => t.score > 0 && t.count > 1)
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+    .slice(0, topN)
+    .map((t) => t.term);
+}
+
+/**
+ * Average-linkage agglomerative clustering, merging while the closest pair
+ * of clusters is under the threshold
+ */
+function clusterGroups(keys: string[], divergence: Map<string, number>, threshold: number): string[][] {
+  const clusters = keys.map((key) => [key]);
+  const linkage = (a: string[], b: string[]) =>
+    mean(a.flatMap((x) => b.map((y) => divergence.get(`${x}|${y}`) ?? 1)));
+
+  while (clusters.length > 1) {
+    let best: { i: number; j: number; d: number } | undefined;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const d = linkage(clusters[i], clusters[j]);
+        if (!best || d < best.d) best = { i, j, d };
+      }
+    }
+    if (!best || best.d >= threshold) break;
+    clusters[best.i] = [...clusters[best.i], ...clusters[best.j]];
+    clusters.splice(best.j, 1);
+  }
+
+  return clusters;
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+/**
+ * Full language report for a corpus
+ */
+export function analyzeLanguage(corpus: LanguageCorpus, options: LanguageAnalysisOptions = {}): LanguageReport {
+  const topN = options.topN ?? 20;
+
+  return {
+    utterances: corpus.utterances.length,
+    speakers: new Set(corpus.utterances.map((u) => u.speakerId)).size,
+    vocabulary: analyzeVocabularyGrowth(corpus.utterances, options.bucketSize),
+    termReferents: analyzeTermReferents(corpus.utterances, corpus.referents, {
+      radius: options.referentRadius,
+      minCount: options.minMappingCount,
+      topN,
+    }),
+    naming: analyzeNamingConvergence(corpus.locationNames, topN),
+    dialects: analyzeDialects(corpus.utterances, corpus.speakers, {
+      groupBy: options.groupBy,
+      threshold: options.dialectThreshold,
+      topN,
+    }),
+  };
+}
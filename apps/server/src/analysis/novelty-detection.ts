@@ -12,6 +12,7 @@
  * - Event -> Enrichment -> Fingerprint -> Clustering -> Labeling
  */
 
+import type { EventPayload } from '@simagents/shared';
 import { mean, stdDev, entropy } from './experiment-analysis';
 
 // =============================================================================
@@ -21,7 +22,7 @@ import { mean, stdDev, entropy } from './experiment-analysis';
 export interface EnrichedEvent {
   /** Original event ID */
   eventId: string;
-  /** Event type (e.g., 'agent_trade', 'agent_harm') */
+  /** Event type (e.g., 'agent_traded', 'agent_harmed') */
   type: string;
   /** Tick when event occurred */
   tick: number;
@@ -41,6 +42,7 @@ export interface EnrichedEvent {
     quantity?: number;
     success?: boolean;
     witnesses?: number;
+    firstInWorld?: boolean;
   };
   /** Action fingerprint (hash of action pattern) */
   fingerprint: string;
@@ -122,39 +124,47 @@ export function enrichEvent(
   };
 
   switch (type) {
-    case 'agent_move':
-      description = `Agent moved from (${payload.fromX}, ${payload.fromY}) to (${payload.toX}, ${payload.toY})`;
+    case 'agent_moved': {
+      const p = payload as EventPayload<'agent_moved'>;
+      description = `Agent moved from (${p.from.x}, ${p.from.y}) to (${p.to.x}, ${p.to.y})`;
       break;
+    }
 
-    case 'agent_gather':
-      description = `Agent gathered ${payload.quantity || 1} ${payload.resourceType || 'resources'}`;
-      metadata.resourceType = payload.resourceType as string;
-      metadata.quantity = payload.quantity as number;
+    case 'agent_gathered': {
+      const p = payload as EventPayload<'agent_gathered'>;
+      description = `Agent gathered ${p.amountGathered} ${p.resourceType}`;
+      metadata.resourceType = p.resourceType;
+      metadata.quantity = p.amountGathered;
       break;
+    }
 
-    case 'agent_trade':
-      description = `Agent traded ${payload.offeringQuantity} ${payload.offeringItemType} for ${payload.requestingQuantity} ${payload.requestingItemType} with another agent`;
-      metadata.targetAgentId = payload.targetAgentId as string;
-      metadata.quantity = payload.offeringQuantity as number;
+    case 'agent_traded': {
+      const p = payload as EventPayload<'agent_traded'>;
+      description = `Agent traded ${p.offered.quantity} ${p.offered.itemType} for ${p.received.quantity} ${p.received.itemType} with another agent`;
+      metadata.targetAgentId = p.targetId;
+      metadata.quantity = p.offered.quantity;
       break;
+    }
 
-    case 'agent_harm':
-    case 'agent_harmed':
-      description = `Agent attacked another agent with ${payload.intensity || 'unknown'} intensity, dealing ${payload.damage || 0} damage`;
-      if (payload.victimDied) {
+    case 'agent_harmed': {
+      const p = payload as EventPayload<'agent_harmed'>;
+      description = `Agent attacked another agent with ${p.intensity} intensity, dealing ${p.damage} damage`;
+      if (p.victimDied) {
         description += ' (fatal attack)';
       }
-      metadata.targetAgentId = payload.victimId as string;
-      metadata.witnesses = (payload.witnessIds as string[])?.length || 0;
+      metadata.targetAgentId = p.victimId;
+      metadata.witnesses = p.witnessIds.length;
       break;
+    }
 
-    case 'agent_steal':
-    case 'agent_stole':
-      description = `Agent stole ${payload.quantity || 1} ${payload.itemType || 'items'} from another agent`;
-      metadata.targetAgentId = payload.victimId as string;
+    case 'agent_stole': {
+      const p = payload as EventPayload<'agent_stole'>;
+      description = `Agent stole ${p.quantity} ${p.itemType} from another agent`;
+      metadata.targetAgentId = p.victimId;
       metadata.success = true;
-      metadata.witnesses = (payload.witnessIds as string[])?.length || 0;
+      metadata.witnesses = p.witnessIds.length;
       break;
+    }
 
     case 'agent_steal_failed':
       description = `Agent attempted to steal from another agent but failed`;
@@ -162,35 +172,89 @@ export function enrichEvent(
       metadata.success = false;
       break;
 
-    case 'agent_deceive':
-      description = `Agent spread ${payload.claimType || 'false'} information: "${(payload.claim as string)?.slice(0, 100)}"`;
-      metadata.targetAgentId = payload.targetAgentId as string;
+    case 'agent_deceived': {
+      const p = payload as EventPayload<'agent_deceived'>;
+      description = `Agent spread ${p.claimType} information (credibility ${p.credibilityScore.toFixed(2)})`;
+      metadata.targetAgentId = p.targetId;
       break;
+    }
 
-    case 'agent_share_info':
-      description = `Agent shared ${payload.infoType || 'information'} about another agent with sentiment ${payload.sentiment || 0}`;
-      metadata.targetAgentId = payload.targetAgentId as string;
+    case 'agent_shared_info': {
+      const p = payload as EventPayload<'agent_shared_info'>;
+      description = `Agent shared ${p.infoType} about another agent with sentiment ${p.sentiment}`;
+      metadata.targetAgentId = p.targetId;
       break;
+    }
 
-    case 'agent_work':
-      description = `Agent worked for ${payload.duration || 1} ticks, earning ${payload.earned || 0} CITY`;
+    case 'agent_worked': {
+      const p = payload as EventPayload<'agent_worked'>;
+      description = `Agent worked (${p.ticksWorked}/${p.ticksRequired} ticks), earning ${p.paymentThisTick} CITY`;
       break;
+    }
 
-    case 'agent_consume':
-      description = `Agent consumed ${payload.itemType || 'item'}`;
+    case 'agent_consumed': {
+      const p = payload as EventPayload<'agent_consumed'>;
+      description = `Agent consumed ${p.itemType}`;
       break;
+    }
 
-    case 'agent_sleep':
-      description = `Agent rested for ${payload.duration || 1} ticks`;
+    case 'agent_sleeping':
+      description = `Agent went to sleep`;
       break;
 
+    case 'agent_crafted': {
+      const { output, recipeId } = payload as EventPayload<'agent_crafted'>;
+      description = `Agent crafted ${output.quantity} ${output.itemType} using the ${recipeId} recipe`;
+      metadata.resourceType = output.itemType;
+      metadata.quantity = output.quantity;
+      metadata.success = true;
+      break;
+    }
+
+    case 'agent_craft_failed': {
+      const p = payload as EventPayload<'agent_craft_failed'>;
+      description = `Agent tried to craft ${p.recipeId} but failed and lost the materials`;
+      metadata.success = false;
+      break;
+    }
+
+    case 'recipe_discovered': {
+      const p = payload as EventPayload<'recipe_discovered'>;
+      description = p.firstInWorld
+        ? `Agent invented the ${p.recipeId} recipe (first in the world)`
+        : `Agent learned the ${p.recipeId} recipe (${p.priorCrafts} prior crafts by others)`;
+      metadata.firstInWorld = p.firstInWorld;
+      break;
+    }
+
+    case 'structure_completed': {
+      const p = payload as EventPayload<'structure_completed'>;
+      description = `Agent finished building a ${p.structureType} at (${p.x}, ${p.y})`;
+      metadata.resourceType = p.structureType;
+      break;
+    }
+
+    case 'structure_demolished': {
+      const p = payload as EventPayload<'structure_demolished'>;
+      description = p.byOwner
+        ? `Agent tore down its own ${p.structureType}`
+        : `Agent tore down a ${p.structureType} owned by another agent`;
+      metadata.resourceType = p.structureType;
+      if (!p.byOwner && typeof p.ownerAgentId === 'string') {
+        metadata.targetAgentId = p.ownerAgentId;
+      }
+      break;
+    }
+
     case 'agent_died':
-      description = `Agent died from ${payload.cause || 'unknown causes'}`;
+      description = `Agent died from ${(payload as EventPayload<'agent_died'>).cause ?? 'unknown causes'}`;
       break;
 
-    case 'agent_born':
-      description = `New agent born (generation ${payload.generation || 1}) at (${payload.x}, ${payload.y})`;
+    case 'agent_born': {
+      const p = payload as EventPayload<'agent_born'>;
+      description = `New agent born (generation ${p.generation}) at (${p.x}, ${p.y})`;
       break;
+    }
 
     default:
       description = `Agent performed ${type.replace('agent_', '')} action`;
@@ -246,6 +310,10 @@ function generateFingerprint(type: string, payload: Record<string, unknown>): st
   if (payload.itemType) parts.push(`item:${payload.itemType}`);
   if (payload.claimType) parts.push(`claim:${payload.claimType}`);
   if (payload.infoType) parts.push(`info:${payload.infoType}`);
+  if (payload.recipeId) parts.push(`recipe:${payload.recipeId}`);
+  if (payload.structureType) parts.push(`struct:${payload.structureType}`);
+  if (payload.byOwner === false) parts.push('not-owner');
+  if (payload.firstInWorld) parts.push('first');
   if (payload.victimDied) parts.push('fatal');
   if (payload.success === false) parts.push('failed');
 
@@ -401,7 +469,7 @@ export function calculateNoveltyScores(
     // 5. Context-dependent novelty (unusual state-action combinations)
     if (event.metadata.agentWealth !== undefined && event.metadata.agentWealth < 10) {
       // Poor agent doing non-survival actions
-      if (!['agent_gather', 'agent_work', 'agent_consume', 'agent_sleep'].includes(event.type)) {
+      if (!['agent_gathered', 'agent_worked', 'agent_consumed', 'agent_sleeping'].includes(event.type)) {
         score += 0.15;
         reason = reason ? `${reason}; poor agent not prioritizing survival` : 'Non-survival behavior while poor';
         category = 'outcome';
@@ -410,7 +478,7 @@ export function calculateNoveltyScores(
 
     if (event.metadata.agentHealth !== undefined && event.metadata.agentHealth < 20) {
       // Injured agent being aggressive
-      if (['agent_harm', 'agent_steal'].includes(event.type)) {
+      if (['agent_harmed', 'agent_stole'].includes(event.type)) {
         score += 0.2;
         reason = reason ? `${reason}; injured agent being aggressive` : 'Aggressive behavior while injured';
         category = 'outcome';
@@ -418,6 +486,16 @@ export function calculateNoveltyScores(
       }
     }
 
+    // 6. Recipe discovery (inventions outrank re-discoveries of known recipes)
+    if (event.type === 'recipe_discovered') {
+      score += event.metadata.firstInWorld ? 0.5 : 0.2;
+      reason = event.metadata.firstInWorld
+        ? (reason ? `${reason}; new recipe invented` : 'New recipe invented')
+        : (reason ? `${reason}; recipe spread to another agent` : 'Recipe spread to another agent');
+      category = 'action';
+      confidence = Math.max(confidence, 0.9);
+    }
+
     // Normalize score
     score = Math.min(score, 1);
 
@@ -466,8 +544,8 @@ export function detectEmergentBehaviors(
   }
 
   // 1. Detect Altruism (giving without receiving)
-  const trades = eventsByType.get('agent_trade') || [];
-  const shareInfos = eventsByType.get('agent_share_info') || [];
+  const trades = eventsByType.get('agent_traded') || [];
+  const shareInfos = eventsByType.get('agent_shared_info') || [];
   if (shareInfos.length > trades.length * 0.5 && shareInfos.length > 10) {
     behaviors.push({
       label: 'Information Sharing',
@@ -478,7 +556,7 @@ export function detectEmergentBehaviors(
   }
 
   // 2. Detect Revenge Patterns (harm following harm)
-  const harms = eventsByType.get('agent_harm') || eventsByType.get('agent_harmed') || [];
+  const harms = eventsByType.get('agent_harmed') || [];
   const revengePatterns = sequences.filter((s) =>
     s.fingerprint.includes('agent_harm') &&
     s.fingerprint.split('->').filter((a) => a.includes('harm')).length >= 2
@@ -493,8 +571,8 @@ export function detectEmergentBehaviors(
   }
 
   // 3. Detect Resource Hoarding
-  const gathers = eventsByType.get('agent_gather') || [];
-  const consumes = eventsByType.get('agent_consume') || [];
+  const gathers = eventsByType.get('agent_gathered') || [];
+  const consumes = eventsByType.get('agent_consumed') || [];
   if (gathers.length > consumes.length * 3 && gathers.length > 50) {
     behaviors.push({
       label: 'Resource Hoarding',
@@ -553,6 +631,19 @@ export function detectEmergentBehaviors(
     });
   }
 
+  // 6. Detect Technology Diffusion (recipes invented by one agent, then learned by others)
+  const discoveries = eventsByType.get('recipe_discovered') || [];
+  const inventions = discoveries.filter((e) => e.metadata.firstInWorld);
+  const adoptions = discoveries.length - inventions.length;
+  if (inventions.length > 0 && adoptions >= 3) {
+    behaviors.push({
+      label: 'Technology Diffusion',
+      description: 'Crafting recipes spread from their inventors to other agents',
+      frequency: adoptions,
+      examples: discoveries.slice(0, 3).map((e) => e.description),
+    });
+  }
+
   return behaviors;
 }
 
@@ -3,6 +3,7 @@
  */
 
 import Redis from 'ioredis';
+import { dispatchToSinks } from '../events/sinks';
 
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 
@@ -42,6 +43,9 @@ subscriber.on('message', (channel: string, message: string) => {
 export async function publishEvent(event: WorldEvent): Promise<void> {
   const message = JSON.stringify(event);
 
+  // Fan out to configured external sinks (queued, never blocks)
+  dispatchToSinks(event);
+
   // Publish to world events channel
   await publisher.publish(CHANNELS.WORLD_EVENTS, message);
 
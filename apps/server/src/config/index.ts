@@ -42,6 +42,44 @@ function validateProductionEnv(): void {
 // Validate on module load
 validateProductionEnv();
 
+// =============================================================================
+// Crafting Recipes
+// =============================================================================
+
+export interface CraftRecipe {
+  /** Short description shown to agents */
+  description: string;
+  /** Items consumed per craft (itemType -> quantity) */
+  inputs: Record<string, number>;
+  /** Items needed but not consumed (itemType -> durability used per craft) */
+  tools?: Record<string, number>;
+  /** Item produced on success */
+  output: { itemType: string; quantity: number };
+  /** Crafting time in ticks (charged as energy: ticks x energyCostPerTick) */
+  ticks: number;
+  /** Chance (0-1) that the craft fails; inputs are lost, tools still wear */
+  failureChance: number;
+}
+
+// =============================================================================
+// Structure Blueprints
+// =============================================================================
+
+export interface StructureBlueprint {
+  /** Short description shown to agents */
+  description: string;
+  /** Items consumed by each tick of construction or repair work */
+  materialsPerTick: Record<string, number>;
+  /** Ticks of work needed to complete */
+  ticks: number;
+  /** Condition (0-100) lost per tick; the structure collapses at 0 */
+  decayPerTick: number;
+  /** Completed structure blocks movement through its cell */
+  blocksMovement?: boolean;
+  /** Completed structure opens a shelters row (a trading post with its own order book) */
+  venue?: { canSleep: boolean };
+}
+
 // =============================================================================
 // Configuration Object
 // =============================================================================
@@ -63,6 +101,10 @@ export const CONFIG = {
     testMode: envString('TEST_MODE', 'false') === 'true',
     /** Random seed for reproducible experiments (default: current timestamp) */
     randomSeed: env('RANDOM_SEED', Date.now()),
+    /** Full world checkpoint every N ticks (0 = disabled) */
+    checkpointIntervalTicks: env('CHECKPOINT_INTERVAL_TICKS', 50),
+    /** Number of checkpoints kept per world (oldest are pruned) */
+    checkpointsKept: env('CHECKPOINTS_KEPT', 20),
   },
 
   // ---------------------------------------------------------------------------
@@ -80,6 +122,13 @@ export const CONFIG = {
       scentDurationTicks: env('SCENT_DURATION_TICKS', 20),
     },
 
+    travel: {
+      /** Maximum ticks a travel_to journey may take before it is interrupted */
+      maxTicks: env('TRAVEL_MAX_TICKS', 60),
+      /** Maximum path length (tiles) accepted when starting a journey */
+      maxPathLength: env('TRAVEL_MAX_PATH_LENGTH', 80),
+    },
+
     signal: {
       /** Base energy cost for signaling */
       energyCost: env('SIGNAL_ENERGY_COST', 5),
@@ -148,9 +197,112 @@ export const CONFIG = {
         water: { energy: 15 },
         medicine: { health: 40 },
         battery: { energy: 30 },
+        ration: { hunger: 40, energy: 20 },
       } as Record<string, { hunger?: number; energy?: number; health?: number }>,
     },
 
+    craft: {
+      /** Energy spent per tick of crafting time */
+      energyCostPerTick: env('CRAFT_ENERGY_PER_TICK', 2),
+      /** Durability of a fresh tool (worn down by recipes that use it) */
+      toolDurability: {
+        tool: env('TOOL_DURABILITY', 10),
+      } as Record<string, number>,
+      /** Recipe registry (recipe ID -> recipe) */
+      recipes: {
+        shelter_kit: {
+          description: 'Assemble a portable shelter kit from materials',
+          inputs: { material: 3 },
+          tools: { tool: 2 },
+          output: { itemType: 'shelter_kit', quantity: 1 },
+          ticks: 3,
+          failureChance: 0.1,
+        },
+        ration: {
+          description: 'Preserve food with energy into a long-lasting ration',
+          inputs: { food: 2, battery: 1 },
+          output: { itemType: 'ration', quantity: 1 },
+          ticks: 1,
+          failureChance: 0.05,
+        },
+        tool: {
+          description: 'Shape materials into a tool',
+          inputs: { material: 2 },
+          output: { itemType: 'tool', quantity: 1 },
+          ticks: 2,
+          failureChance: 0.25,
+        },
+      } as Record<string, CraftRecipe>,
+    },
+
+    build: {
+      /** Energy spent per tick of construction or repair work */
+      energyCostPerTick: env('BUILD_ENERGY_PER_TICK', 3),
+      /** Condition restored by a tick of work on a structure */
+      repairPerTick: env('BUILD_REPAIR_PER_TICK', 50),
+      /** Blueprint registry (structure type -> blueprint) */
+      structures: {
+        shelter: {
+          description: 'A place to rest; works like any other shelter once complete',
+          materialsPerTick: { material: 2 },
+          ticks: 4,
+          decayPerTick: env('SHELTER_DECAY_PER_TICK', 0.5),
+          venue: { canSleep: true },
+        },
+        storage: {
+          description: 'A storehouse for keeping goods in one place',
+          materialsPerTick: { material: 1 },
+          ticks: 3,
+          decayPerTick: env('STORAGE_DECAY_PER_TICK', 0.4),
+        },
+        market_stall: {
+          description: 'A stall with its own order book: place market orders here (no beds)',
+          materialsPerTick: { material: 1 },
+          ticks: 2,
+          decayPerTick: env('MARKET_STALL_DECAY_PER_TICK', 0.8),
+          venue: { canSleep: false },
+        },
+        wall: {
+          description: 'A barrier nobody can walk through',
+          materialsPerTick: { material: 1 },
+          ticks: 2,
+          decayPerTick: env('WALL_DECAY_PER_TICK', 0.25),
+          blocksMovement: true,
+        },
+      } as Record<string, StructureBlueprint>,
+    },
+
+    demolish: {
+      /** Energy cost to tear down a structure */
+      energyCost: env('DEMOLISH_ENERGY_COST', 5),
+      /** Maximum distance to the structure (walls can't be stood on by others) */
+      maxDistance: env('DEMOLISH_MAX_DISTANCE', 1),
+      /** Share of the materials used that is recovered */
+      salvageRate: env('DEMOLISH_SALVAGE_RATE', 0.5),
+    },
+
+    market: {
+      /** Energy cost to place an order */
+      energyCost: env('MARKET_ENERGY_COST', 1),
+      /** Maximum open orders per agent (all shelters) */
+      maxOpenOrders: env('MARKET_MAX_OPEN_ORDERS', 5),
+      /** Default order lifetime in ticks */
+      orderTtlTicks: env('MARKET_ORDER_TTL_TICKS', 50),
+      /** Longest lifetime an agent may ask for */
+      maxOrderTtlTicks: env('MARKET_MAX_ORDER_TTL_TICKS', 200),
+      /** Highest limit price (CITY per unit) */
+      maxPrice: env('MARKET_MAX_PRICE', 1000),
+    },
+
+    container: {
+      /** Items a container holds (open ground or inside a shelter) */
+      baseCapacity: env('CONTAINER_BASE_CAPACITY', 20),
+      /** Items a container holds when placed in a completed storage structure */
+      storageCapacity: env('CONTAINER_STORAGE_CAPACITY', 60),
+      /** Maximum access list entries per container */
+      maxAccessEntries: env('CONTAINER_MAX_ACCESS_ENTRIES', 10),
+    },
+
     trade: {
       /** Maximum distance for trade */
       maxDistance: env('TRADE_MAX_DISTANCE', 3),
@@ -158,6 +310,12 @@ export const CONFIG = {
       trustGainOnSuccess: env('TRADE_TRUST_GAIN', 15),
       /** Trust score change on failed/rejected trade */
       trustLossOnFailure: env('TRADE_TRUST_LOSS', -2),
+      /** Ticks a trade proposal stays open before it expires */
+      proposalExpiryTicks: env('TRADE_PROPOSAL_EXPIRY_TICKS', 5),
+      /** Maximum ticks an agent may request for a proposal's expiry */
+      maxProposalExpiryTicks: env('TRADE_PROPOSAL_MAX_EXPIRY_TICKS', 20),
+      /** Maximum open proposals between the same two agents */
+      maxOpenProposalsPerPair: env('TRADE_MAX_OPEN_PROPOSALS_PER_PAIR', 3),
     },
 
     // Phase 2: Conflict Actions
@@ -201,6 +359,10 @@ export const CONFIG = {
       witnessRadius: env('STEAL_WITNESS_RADIUS', 5),
       /** Maximum items that can be stolen per action */
       maxItemsPerAction: env('STEAL_MAX_ITEMS', 3),
+      /** Chance a container theft is discovered when the owner is not nearby */
+      containerDetectionChance: env('STEAL_CONTAINER_DETECTION', 0.2),
+      /** Added detection chance per witness near the container */
+      containerDetectionPerWitness: env('STEAL_CONTAINER_DETECTION_PER_WITNESS', 0.25),
     },
 
     deceive: {
@@ -246,6 +408,22 @@ export const CONFIG = {
       trustPenaltyNegative: env('SPREAD_GOSSIP_TRUST_NEGATIVE', -2),
     },
 
+    // Direct messages (send_message)
+    sendMessage: {
+      /** Maximum distance to message any agent (talking range) */
+      maxDistance: env('SEND_MESSAGE_MAX_DISTANCE', 5),
+      /** Maximum distance to message an agent you know (0 = anywhere) */
+      knownAgentMaxDistance: env('SEND_MESSAGE_KNOWN_MAX_DISTANCE', 0),
+      /** Energy cost per message */
+      energyCost: env('SEND_MESSAGE_ENERGY_COST', 0.5),
+      /** Maximum message length (characters) */
+      maxLength: env('SEND_MESSAGE_MAX_LENGTH', 280),
+      /** Messages shown in the recipient's inbox */
+      inboxSize: env('SEND_MESSAGE_INBOX_SIZE', 5),
+      /** Messages older than this many ticks drop out of the inbox */
+      inboxTicks: env('SEND_MESSAGE_INBOX_TICKS', 20),
+    },
+
     // Phase 4: Reproduction (§36)
     spawnOffspring: {
       /** Minimum balance required for reproduction */
@@ -285,6 +463,30 @@ export const CONFIG = {
     currencyDecayThreshold: env('CURRENCY_DECAY_THRESHOLD', 20),
   },
 
+  // ---------------------------------------------------------------------------
+  // Fiscal Policy (Public Treasury)
+  // ---------------------------------------------------------------------------
+  // Defaults for a world's treasury when it is first created. Each world's
+  // policy can then be changed by governance (fiscal_policy proposals) or
+  // the scenarios API.
+  fiscal: {
+    /** Share of each payment between agents (market trades, transfers) taken as tax */
+    transactionTaxRate: env('FISCAL_TRANSACTION_TAX_RATE', 0),
+    /** Share of wealth above the threshold collected every interval */
+    wealthTaxRate: env('FISCAL_WEALTH_TAX_RATE', 0),
+    /** Balance exempt from the wealth tax */
+    wealthTaxThreshold: env('FISCAL_WEALTH_TAX_THRESHOLD', 100),
+    /** How public work is paid: 'mint' (new money) or 'treasury' (tax revenue) */
+    publicWorkFunding: envString('FISCAL_PUBLIC_WORK_FUNDING', 'mint') as 'mint' | 'treasury',
+    /** Share of the treasury paid out equally to living agents every interval */
+    redistributionShare: env('FISCAL_REDISTRIBUTION_SHARE', 0),
+    /** Ticks between wealth tax collection and redistribution */
+    interval: env('FISCAL_INTERVAL', 10),
+    /** Upper limits for policies set by governance or the scenarios API */
+    maxTransactionTaxRate: env('FISCAL_MAX_TRANSACTION_TAX_RATE', 0.5),
+    maxWealthTaxRate: env('FISCAL_MAX_WEALTH_TAX_RATE', 0.25),
+  },
+
   // ---------------------------------------------------------------------------
   // Public Works (Economy Bootstrap)
   // ---------------------------------------------------------------------------
@@ -416,6 +618,8 @@ export const CONFIG = {
       battery: env('SPOILAGE_RATE_BATTERY', 0.002),   // -0.2% per tick (very stable)
       material: env('SPOILAGE_RATE_MATERIAL', 0),     // No decay
       tool: env('SPOILAGE_RATE_TOOL', 0),             // No decay
+      ration: env('SPOILAGE_RATE_RATION', 0.002),     // -0.2% per tick (preserved food)
+      shelter_kit: env('SPOILAGE_RATE_SHELTER_KIT', 0), // No decay
     } as Record<string, number>,
     /** Minimum quantity before item is removed (prevents fractional items) */
     removalThreshold: env('SPOILAGE_REMOVAL_THRESHOLD', 0.5),
@@ -470,6 +674,23 @@ export const CONFIG = {
     },
   },
 
+  // ---------------------------------------------------------------------------
+  // External Agents (A2A Protocol)
+  // ---------------------------------------------------------------------------
+  externalAgents: {
+    /** WebSocket transport (push observations, in-band decisions) */
+    socket: {
+      /** Time an agent has to answer a pushed observation (same budget as webhooks) */
+      decisionTimeoutMs: env('AGENT_SOCKET_DECISION_TIMEOUT_MS', 25000),
+      /** Interval between server pings */
+      heartbeatIntervalMs: env('AGENT_SOCKET_HEARTBEAT_MS', 15000),
+      /** Close connections silent for longer than this */
+      heartbeatTimeoutMs: env('AGENT_SOCKET_HEARTBEAT_TIMEOUT_MS', 45000),
+      /** Maximum events replayed when a client resumes from a tick */
+      maxResumeEvents: env('AGENT_SOCKET_MAX_RESUME_EVENTS', 200),
+    },
+  },
+
   // ---------------------------------------------------------------------------
   // Agent Spawning (Scarcity Mode)
   // ---------------------------------------------------------------------------
@@ -517,6 +738,117 @@ export const CONFIG = {
     ragTotalLimit: env('RAG_TOTAL_LIMIT', 12),
     /** Radius for location-based memory search */
     ragLocationRadius: env('RAG_LOCATION_RADIUS', 3),
+    /** Estimated token budget for the memories section of the prompt */
+    ragMaxTokens: env('RAG_MAX_TOKENS', 600),
+
+    // Semantic memory retrieval (embeddings)
+    /**
+     * Embed memories when stored and, with RAG retrieval on, add the memories
+     * most similar to the agent's current situation.
+     * Default: false for backward compatibility
+     */
+    semanticRetrieval: envBool('MEMORY_SEMANTIC_RETRIEVAL', false),
+    /** hash: deterministic feature hashing (no model); local: OpenAI-compatible embeddings endpoint */
+    embedder: envString('MEMORY_EMBEDDER', 'hash') as 'hash' | 'local',
+    /** Vector size of the hashing embedder */
+    hashDimensions: env('MEMORY_HASH_DIMENSIONS', 256),
+    /** Embeddings endpoint of a local model server (Ollama, llama.cpp, LM Studio) */
+    embeddingUrl: envString('MEMORY_EMBEDDING_URL', 'http://localhost:11434/v1/embeddings'),
+    embeddingModel: envString('MEMORY_EMBEDDING_MODEL', 'nomic-embed-text'),
+    embeddingTimeoutMs: env('MEMORY_EMBEDDING_TIMEOUT_MS', 5000),
+    /** Maximum semantically relevant memories in RAG retrieval */
+    ragSemanticLimit: env('RAG_SEMANTIC_LIMIT', 4),
+    /** Minimum cosine similarity for a memory to count as relevant */
+    ragSemanticMinSimilarity: env('RAG_SEMANTIC_MIN_SIMILARITY', 0.2),
+    /** Maximum reflections (beliefs) in RAG retrieval */
+    ragReflectionLimit: env('RAG_REFLECTION_LIMIT', 3),
+
+    // Reflection (consolidating episodes into beliefs)
+    reflection: {
+      /**
+       * Periodically summarise recent episodic memories into reflections with an LLM call.
+       * Default: false for backward compatibility
+       */
+      enabled: envBool('MEMORY_REFLECTION_ENABLED', false),
+      /** Reflect at least this often (ticks since the last reflection) */
+      intervalTicks: env('MEMORY_REFLECTION_INTERVAL_TICKS', 50),
+      /** ...or as soon as new episodes add up to this much importance */
+      importanceThreshold: env('MEMORY_REFLECTION_IMPORTANCE_THRESHOLD', 60),
+      /** New episodes needed before reflecting at all */
+      minEpisodes: env('MEMORY_REFLECTION_MIN_EPISODES', 5),
+      /** Reflections kept from one pass */
+      maxReflections: env('MEMORY_REFLECTION_MAX', 3),
+      /** Agents reflecting per tick (bounds LLM calls) */
+      maxAgentsPerTick: env('MEMORY_REFLECTION_MAX_AGENTS_PER_TICK', 3),
+      /** Importance multiplier applied to episodes a reflection summarises */
+      episodeDecay: env('MEMORY_REFLECTION_EPISODE_DECAY', 0.5),
+      /** Token limits when the agent has no token budget (token_budgets) */
+      defaultMaxInputTokens: env('MEMORY_REFLECTION_MAX_INPUT_TOKENS', 2000),
+      defaultMaxOutputTokens: env('MEMORY_REFLECTION_MAX_OUTPUT_TOKENS', 256),
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Agent Plans (set_goal / update_plan)
+  // ---------------------------------------------------------------------------
+  plans: {
+    /** Accept plan fields in decisions and run routine steps without the LLM */
+    enabled: envBool('AGENT_PLANS_ENABLED', true),
+    /** Maximum sub-steps kept per plan */
+    maxSteps: env('AGENT_PLAN_MAX_STEPS', 8),
+    /** Maximum goal / step description length (characters) */
+    maxTextLength: env('AGENT_PLAN_MAX_TEXT_LENGTH', 200),
+    /** Deadline when a plan does not set one (ticks from creation) */
+    defaultDeadlineTicks: env('AGENT_PLAN_DEFAULT_DEADLINE_TICKS', 100),
+    /** Longest deadline an agent may set (ticks from creation) */
+    maxDeadlineTicks: env('AGENT_PLAN_MAX_DEADLINE_TICKS', 500),
+  },
+
+  // ---------------------------------------------------------------------------
+  // Organisations (found_org / join_org / leave_org / expel_member)
+  // ---------------------------------------------------------------------------
+  organizations: {
+    /** Energy cost of founding an organisation */
+    foundingEnergyCost: env('ORG_FOUNDING_ENERGY_COST', 5),
+    /** Maximum organisation name length (characters) */
+    maxNameLength: env('ORG_MAX_NAME_LENGTH', 50),
+    /** Maximum entry fee a founder may set (CITY) */
+    maxEntryFee: env('ORG_MAX_ENTRY_FEE', 500),
+    /** Maximum distance to a member when joining */
+    joinMaxDistance: env('ORG_JOIN_MAX_DISTANCE', 5),
+    /** Maximum organisations an agent can belong to at once */
+    maxMembershipsPerAgent: env('ORG_MAX_MEMBERSHIPS_PER_AGENT', 3),
+  },
+
+  // ---------------------------------------------------------------------------
+  // Governance (propose / vote / tally)
+  // ---------------------------------------------------------------------------
+  governance: {
+    /** Energy cost of making a proposal */
+    proposalEnergyCost: env('GOVERNANCE_PROPOSAL_ENERGY_COST', 3),
+    /** Energy cost of casting a vote */
+    voteEnergyCost: env('GOVERNANCE_VOTE_ENERGY_COST', 0.5),
+    /** Voting period when a proposal does not set one (ticks) */
+    defaultVotingTicks: env('GOVERNANCE_DEFAULT_VOTING_TICKS', 20),
+    /** Shortest voting period (ticks) */
+    minVotingTicks: env('GOVERNANCE_MIN_VOTING_TICKS', 3),
+    /** Longest voting period (ticks) */
+    maxVotingTicks: env('GOVERNANCE_MAX_VOTING_TICKS', 200),
+    /** Radius around a claim whose occupants form its electorate */
+    claimAreaRadius: env('GOVERNANCE_CLAIM_AREA_RADIUS', 5),
+    /** Maximum proposal title length (characters) */
+    maxTitleLength: env('GOVERNANCE_MAX_TITLE_LENGTH', 120),
+    /** Open proposals an agent may have at once */
+    maxOpenProposalsPerAgent: env('GOVERNANCE_MAX_OPEN_PROPOSALS', 3),
+    /** Largest tax per member a proposal may levy (CITY) */
+    maxTaxAmount: env('GOVERNANCE_MAX_TAX_AMOUNT', 100),
+    /** Allowed range of shelter price multipliers */
+    minShelterPriceMultiplier: env('GOVERNANCE_MIN_SHELTER_PRICE_MULTIPLIER', 0.25),
+    maxShelterPriceMultiplier: env('GOVERNANCE_MAX_SHELTER_PRICE_MULTIPLIER', 4),
+    /** How long a claim banishment lasts (ticks, 0 = permanent) */
+    banishmentTicks: env('GOVERNANCE_BANISHMENT_TICKS', 500),
+    /** Open proposals shown in an agent's observation */
+    observedProposals: env('GOVERNANCE_OBSERVED_PROPOSALS', 5),
   },
 
   // ---------------------------------------------------------------------------
@@ -543,6 +875,71 @@ export const CONFIG = {
     url: envString('REDIS_URL', 'redis://localhost:6379'),
   },
 
+  // ---------------------------------------------------------------------------
+  // Event Schemas (payload validation on append, see @simagents/shared)
+  // ---------------------------------------------------------------------------
+  eventSchema: {
+    /** off: skip, warn: log invalid payloads and store them, strict: reject them */
+    validation: envString('EVENT_SCHEMA_VALIDATION', 'warn') as 'off' | 'warn' | 'strict',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Event Sinks (fan-out of world events beyond Redis pub/sub)
+  // ---------------------------------------------------------------------------
+  eventSinks: {
+    /** Comma-separated sinks to enable: file, webhook, kafka (empty = none) */
+    enabled: envString('EVENT_SINKS', ''),
+    /** Events per delivery */
+    batchSize: env('EVENT_SINK_BATCH_SIZE', 100),
+    /** Deliver a partial batch after this long */
+    flushIntervalMs: env('EVENT_SINK_FLUSH_MS', 1000),
+    /** Events buffered per sink before new ones are dropped (slow destination) */
+    maxQueueSize: env('EVENT_SINK_MAX_QUEUE', 10000),
+    /** Retries per batch before it goes to the dead-letter file */
+    maxRetries: env('EVENT_SINK_MAX_RETRIES', 5),
+    /** Exponential backoff: base delay, doubled per retry up to the max */
+    retryBaseMs: env('EVENT_SINK_RETRY_BASE_MS', 500),
+    retryMaxMs: env('EVENT_SINK_RETRY_MAX_MS', 30000),
+    /** Undeliverable batches, one NDJSON file per sink */
+    deadLetterDir: envString('EVENT_SINK_DEAD_LETTER_DIR', './data/event-sinks/dead-letter'),
+    file: {
+      directory: envString('EVENT_SINK_FILE_DIR', './data/event-sinks'),
+      /** Rotate to a new file past this size */
+      maxBytes: env('EVENT_SINK_FILE_MAX_BYTES', 100 * 1024 * 1024),
+      /** Rotated files kept (oldest deleted) */
+      maxFiles: env('EVENT_SINK_FILE_MAX_FILES', 10),
+    },
+    webhook: {
+      url: envString('EVENT_SINK_WEBHOOK_URL', ''),
+      /** Signs bodies with HMAC-SHA256 (X-SimAgents-Signature) when set */
+      secret: envString('EVENT_SINK_WEBHOOK_SECRET', ''),
+      timeoutMs: env('EVENT_SINK_WEBHOOK_TIMEOUT_MS', 5000),
+    },
+    kafka: {
+      /** Comma-separated host:port list */
+      brokers: envString('EVENT_SINK_KAFKA_BROKERS', 'localhost:9092'),
+      topic: envString('EVENT_SINK_KAFKA_TOPIC', 'simagents.events'),
+      clientId: envString('EVENT_SINK_KAFKA_CLIENT_ID', 'simagents-server'),
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Event Retention (aggregation and archival of old events)
+  // ---------------------------------------------------------------------------
+  eventRetention: {
+    enabled: envBool('EVENT_RETENTION_ENABLED', true),
+    /** How often the retention job runs */
+    intervalMs: env('EVENT_RETENTION_INTERVAL_MS', 10 * 60 * 1000),
+    /** Ticks of full event detail kept (0 = keep everything); tenants can override */
+    fullDetailTicks: env('EVENT_RETENTION_TICKS', 0),
+    /** Event row limit for the main world (0 = unlimited); tenants use maxEventsStored */
+    maxEventsStored: env('EVENT_RETENTION_MAX_EVENTS', 0),
+    /** Gzipped NDJSON archives, one directory per world */
+    archiveDir: envString('EVENT_ARCHIVE_DIR', './data/event-archives'),
+    /** Rows read per batch while archiving */
+    batchSize: env('EVENT_RETENTION_BATCH_SIZE', 5000),
+  },
+
   // ---------------------------------------------------------------------------
   // Server
   // ---------------------------------------------------------------------------
@@ -0,0 +1,135 @@
+/**
+ * Agent Signing Module
+ *
+ * Ed25519 signatures for agent-issued artifacts (credentials, revocations).
+ * Each agent owns a keypair; the public key is published, the private key is
+ * stored encrypted (see services/agent-key-service.ts).
+ *
+ * Payloads are serialized canonically (fixed field order, JSON-encoded values)
+ * so a signature can be re-verified from the stored record alone.
+ */
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from 'crypto';
+
+export const SIGNATURE_ALGORITHM = 'ed25519' as const;
+
+/**
+ * Signing keypair, DER-encoded as base64 (SPKI public key, PKCS#8 private key)
+ */
+export interface SigningKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Generate a new Ed25519 keypair
+ */
+export function generateSigningKeyPair(): SigningKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64'),
+  };
+}
+
+/**
+ * Sign a payload with a base64 PKCS#8 private key
+ *
+ * @returns Hex-encoded signature (128 chars)
+ */
+export function signPayload(privateKey: string, payload: string): string {
+  const key = createPrivateKey({ key: Buffer.from(privateKey, 'base64'), format: 'der', type: 'pkcs8' });
+  return sign(null, Buffer.from(payload, 'utf8'), key).toString('hex');
+}
+
+/**
+ * Verify a hex signature against a base64 SPKI public key
+ *
+ * Returns false (never throws) for malformed keys or signatures.
+ */
+export function verifyPayload(publicKey: string, payload: string, signature: string): boolean {
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    if (!/^[0-9a-f]+$/i.test(signature)) return false;
+    return verify(null, Buffer.from(payload, 'utf8'), key, Buffer.from(signature, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Canonical Payloads
+// =============================================================================
+
+/**
+ * Fields of a credential covered by the issuer's signature
+ */
+export interface CredentialClaim {
+  id: string;
+  issuerId: string;
+  subjectId: string;
+  claimType: string;
+  claimDescription: string;
+  claimEvidence: string | null;
+  claimLevel: number | null;
+  tick: number;
+  expiresAtTick: number | null;
+}
+
+/**
+ * Canonical payload signed when a credential is issued
+ */
+export function credentialSigningPayload(claim: CredentialClaim): string {
+  return JSON.stringify([
+    'credential:v1',
+    claim.id,
+    claim.issuerId,
+    claim.subjectId,
+    claim.claimType,
+    claim.claimDescription,
+    claim.claimEvidence ?? null,
+    claim.claimLevel ?? null,
+    claim.tick,
+    claim.expiresAtTick ?? null,
+  ]);
+}
+
+/**
+ * Canonical payload signed when an issuer revokes a credential
+ */
+export function revocationSigningPayload(credentialId: string, issuerId: string, revokedAtTick: number): string {
+  return JSON.stringify(['revocation:v1', credentialId, issuerId, revokedAtTick]);
+}
+
+/**
+ * Entry of a signed revocation list
+ */
+export interface RevocationEntry {
+  credentialId: string;
+  revokedAtTick: number;
+}
+
+/**
+ * Canonical payload for an issuer's full revocation list at a tick
+ */
+export function revocationListSigningPayload(
+  issuerId: string,
+  issuedAtTick: number,
+  entries: RevocationEntry[]
+): string {
+  const sorted = [...entries].sort((a, b) =>
+    a.revokedAtTick - b.revokedAtTick || a.credentialId.localeCompare(b.credentialId)
+  );
+  return JSON.stringify([
+    'revocation-list:v1',
+    issuerId,
+    issuedAtTick,
+    sorted.map((e) => [e.credentialId, e.revokedAtTick]),
+  ]);
+}
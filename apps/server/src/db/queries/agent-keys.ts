@@ -0,0 +1,35 @@
+/**
+ * Agent Signing Key Queries
+ *
+ * Storage for per-agent Ed25519 keypairs. Private keys are stored encrypted;
+ * encryption and signing live in services/agent-key-service.ts.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../index';
+import { agentSigningKeys, type AgentSigningKey, type NewAgentSigningKey } from '../schema';
+
+/**
+ * Store a keypair for an agent (no-op if the agent already has one)
+ *
+ * Returns the stored key, which may be a pre-existing one if two callers raced.
+ */
+export async function createAgentSigningKey(key: NewAgentSigningKey): Promise<AgentSigningKey> {
+  await db.insert(agentSigningKeys).values(key).onConflictDoNothing();
+  const [stored] = await db
+    .select()
+    .from(agentSigningKeys)
+    .where(eq(agentSigningKeys.agentId, key.agentId));
+  return stored;
+}
+
+/**
+ * Get an agent's signing key record
+ */
+export async function getAgentSigningKey(agentId: string): Promise<AgentSigningKey | undefined> {
+  const [key] = await db
+    .select()
+    .from(agentSigningKeys)
+    .where(eq(agentSigningKeys.agentId, agentId));
+  return key;
+}
@@ -0,0 +1,96 @@
+/**
+ * Agent Tick State Queries
+ *
+ * The agent_tick_states projection: one row per agent alive at the end of a
+ * tick, appended by the tick engine. The state of every agent at any tick is
+ * its latest row at or before that tick (dead agents keep their final row).
+ * Replay reads (db/queries/replay.ts) are built on these.
+ */
+
+import { and, asc, desc, eq, gt, gte, isNull, lte, type SQL } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  agentTickStates,
+  type Agent,
+  type AgentTickState,
+  type NewAgentTickState,
+} from '../schema';
+
+// Rows per INSERT statement
+const BATCH_SIZE = 500;
+
+function tenantScope(tenantId: string | null): SQL {
+  return tenantId ? eq(agentTickStates.tenantId, tenantId) : isNull(agentTickStates.tenantId);
+}
+
+/**
+ * Append the state of agents at the end of a tick
+ */
+export async function recordAgentTickStates(
+  tick: number,
+  agents: Agent[],
+  tenantId: string | null = null
+): Promise<number> {
+  const rows: NewAgentTickState[] = agents.map((agent) => ({
+    tenantId,
+    tick,
+    agentId: agent.id,
+    llmType: agent.llmType,
+    x: agent.x,
+    y: agent.y,
+    hunger: agent.hunger,
+    energy: agent.energy,
+    health: agent.health,
+    balance: agent.balance,
+    state: agent.state,
+  }));
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await db.insert(agentTickStates).values(rows.slice(i, i + BATCH_SIZE)).onConflictDoNothing();
+  }
+  return rows.length;
+}
+
+/**
+ * Latest state of every agent at or before a tick (one query)
+ */
+export async function getAgentTickStatesAt(
+  tick: number,
+  tenantId: string | null = null
+): Promise<AgentTickState[]> {
+  return db
+    .selectDistinctOn([agentTickStates.agentId])
+    .from(agentTickStates)
+    .where(and(tenantScope(tenantId), lte(agentTickStates.tick, tick)))
+    .orderBy(agentTickStates.agentId, desc(agentTickStates.tick));
+}
+
+/**
+ * Rows written after fromTick up to and including toTick, oldest first
+ */
+export async function getAgentTickStatesBetween(
+  fromTick: number,
+  toTick: number,
+  tenantId: string | null = null
+): Promise<AgentTickState[]> {
+  return db
+    .select()
+    .from(agentTickStates)
+    .where(and(tenantScope(tenantId), gt(agentTickStates.tick, fromTick), lte(agentTickStates.tick, toTick)))
+    .orderBy(asc(agentTickStates.tick), asc(agentTickStates.id));
+}
+
+/**
+ * One agent's rows in a tick range, oldest first
+ */
+export async function getAgentTickStatesForAgent(
+  agentId: string,
+  fromTick: number,
+  toTick: number
+): Promise<AgentTickState[]> {
+  return db
+    .select()
+    .from(agentTickStates)
+    .where(and(eq(agentTickStates.agentId, agentId), gte(agentTickStates.tick, fromTick), lte(agentTickStates.tick, toTick)))
+    .orderBy(asc(agentTickStates.tick));
+}
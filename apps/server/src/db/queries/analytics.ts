@@ -4,7 +4,19 @@
 
 import { eq, sql, desc, and, gte } from 'drizzle-orm';
 import { db, agents, events, ledger, agentRelationships, agentKnowledge, inventory } from '../index';
-import { agentCredentials, gossipEvents, agentLineages, reproductionStates, llmMetrics } from '../schema';
+import {
+  agentCredentials,
+  gossipEvents,
+  agentLineages,
+  reproductionStates,
+  llmMetrics,
+  agentMessages,
+  locationNames,
+  resourceSpawns,
+  shelters,
+  publicTreasuries,
+} from '../schema';
+import type { LanguageCorpus, Speaker, Utterance } from '../../analysis/language';
 
 // =============================================================================
 // Types
@@ -45,6 +57,13 @@ export interface EconomyMetrics {
     totalBalance: number;
     avgBalance: number;
   }[];
+  fiscal: {
+    treasuryBalance: number; // Held by public treasuries, outside moneySupply
+    revenue: { transactionTax: number; wealthTax: number; total: number };
+    spending: { publicWorks: number; redistribution: number; total: number };
+    moneyIssued: number; // New money paid for public work
+    currencyDecay: number; // Money burned by currency decay
+  };
 }
 
 export interface BehaviorMetrics {
@@ -362,12 +381,33 @@ export async function getEconomyMetrics(): Promise<EconomyMetrics> {
     .where(sql`${agents.state} != 'dead'`)
     .groupBy(agents.llmType);
 
+  // Fiscal flows: one positive ledger entry per transfer
+  const fiscalFlows = await db
+    .select({
+      category: ledger.category,
+      total: sql<number>`SUM(${ledger.amount})`,
+    })
+    .from(ledger)
+    .where(
+      sql`${ledger.amount} > 0 AND ${ledger.category} IN ('transaction_tax', 'wealth_tax', 'public_spending', 'redistribution', 'money_issued', 'currency_decay')`
+    )
+    .groupBy(ledger.category);
+  const flow = new Map(fiscalFlows.map((row) => [row.category, Number(row.total) || 0]));
+  const treasuryResult = await db
+    .select({ balance: sql<number>`SUM(${publicTreasuries.balance})` })
+    .from(publicTreasuries);
+
   const dist = distribution[0];
 
   // Handle Drizzle execute result - it returns array directly or object with rows
   const giniRows = Array.isArray(giniResult) ? giniResult : (giniResult as any).rows || [];
   const giniValue = giniRows[0]?.gini;
 
+  const transactionTax = flow.get('transaction_tax') ?? 0;
+  const wealthTax = flow.get('wealth_tax') ?? 0;
+  const publicWorks = flow.get('public_spending') ?? 0;
+  const redistribution = flow.get('redistribution') ?? 0;
+
   return {
     moneySupply: Number(dist?.moneySupply) || 0,
     giniCoefficient: Number(giniValue) || 0,
@@ -382,6 +422,13 @@ export async function getEconomyMetrics(): Promise<EconomyMetrics> {
       totalBalance: Number(row.totalBalance) || 0,
       avgBalance: Number(row.avgBalance) || 0,
     })),
+    fiscal: {
+      treasuryBalance: Number(treasuryResult[0]?.balance) || 0,
+      revenue: { transactionTax, wealthTax, total: transactionTax + wealthTax },
+      spending: { publicWorks, redistribution, total: publicWorks + redistribution },
+      moneyIssued: flow.get('money_issued') ?? 0,
+      currencyDecay: flow.get('currency_decay') ?? 0,
+    },
   };
 }
 
@@ -2026,6 +2073,15 @@ export interface MarketEfficiencyMetrics {
     uniqueTradersPerTick: number;
     volumePerTick: number;
   };
+  orderBook: {
+    openBids: number; // Open bid orders across all shelter books
+    openAsks: number;
+    bidDepth: number; // Unfilled units on the bid side
+    askDepth: number;
+    twoSidedBooks: number; // Books (shelter + item) with both bids and asks
+    marketTradesPerTick: number; // Order book fills over the last 20 ticks
+    marketVolumePerTick: number;
+  };
   marketMaturity: 'nascent' | 'developing' | 'mature' | 'efficient';
 }
 
@@ -2042,6 +2098,7 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
 
   // --- Price Convergence ---
   // Calculate variance of prices for same resource type over time
+  // (direct trades plus order book fills)
   const priceVarianceData = await db.execute<{
     current_variance: number;
     historical_variance: number;
@@ -2054,6 +2111,13 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
       FROM events
       WHERE event_type = 'agent_traded'
         AND payload->>'price' IS NOT NULL
+      UNION ALL
+      SELECT
+        tick,
+        (payload->>'itemType') as resource_type,
+        (payload->>'price')::numeric as price
+      FROM events
+      WHERE event_type = 'market_trade'
     ),
     recent_prices AS (
       SELECT resource_type, VARIANCE(price) as variance
@@ -2084,7 +2148,35 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
     : 0;
 
   // --- Spread Percentage (Bid-Ask) ---
-  // Approximate from buy vs trade events
+  // Real spread from open order books (best bid vs best ask per shelter book)
+  const bookSpreadData = await db.execute<{
+    resource_type: string;
+    avg_best_bid: number;
+    avg_best_ask: number;
+  }>(sql`
+    WITH book_tops AS (
+      SELECT
+        shelter_id,
+        item_type,
+        MAX(CASE WHEN side = 'bid' THEN price END) as best_bid,
+        MIN(CASE WHEN side = 'ask' THEN price END) as best_ask
+      FROM market_orders
+      WHERE status = 'open'
+      GROUP BY shelter_id, item_type
+    )
+    SELECT
+      item_type as resource_type,
+      AVG(best_bid) as avg_best_bid,
+      AVG(best_ask) as avg_best_ask
+    FROM book_tops
+    WHERE best_bid IS NOT NULL AND best_ask IS NOT NULL
+    GROUP BY item_type
+  `);
+
+  const bookSpreadRows: { resource_type: string; avg_best_bid: number; avg_best_ask: number }[] =
+    Array.isArray(bookSpreadData) ? bookSpreadData : (bookSpreadData as any).rows || [];
+
+  // Without two-sided books, approximate from buy vs trade events
   const spreadData = await db.execute<{
     resource_type: string;
     avg_buy_price: number;
@@ -2119,7 +2211,20 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
   const spreadRows: { resource_type: string; avg_buy_price: number; avg_sell_price: number }[] =
     Array.isArray(spreadData) ? spreadData : (spreadData as any).rows || [];
 
-  const spreadByResourceType = spreadRows.map((row) => {
+  const bookSpreads = bookSpreadRows.map((row) => {
+    const bestBid = Number(row.avg_best_bid) || 0;
+    const bestAsk = Number(row.avg_best_ask) || 0;
+    const midPrice = (bestBid + bestAsk) / 2;
+
+    return {
+      resourceType: row.resource_type,
+      avgBuyPrice: bestAsk, // Price a buyer pays right now
+      avgSellPrice: bestBid, // Price a seller gets right now
+      spread: midPrice > 0 ? Math.max(0, bestAsk - bestBid) / midPrice : 0,
+    };
+  });
+
+  const eventSpreads = spreadRows.map((row) => {
     const avgBuy = Number(row.avg_buy_price) || 0;
     const avgSell = Number(row.avg_sell_price) || 0;
     const midPrice = (avgBuy + avgSell) / 2;
@@ -2133,6 +2238,8 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
     };
   });
 
+  const spreadByResourceType = bookSpreads.length > 0 ? bookSpreads : eventSpreads;
+
   const avgBidAskSpread = spreadByResourceType.length > 0
     ? spreadByResourceType.reduce((sum, s) => sum + s.spread, 0) / spreadByResourceType.length
     : 0;
@@ -2154,7 +2261,7 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
         SUM(COALESCE((payload->>'quantity')::numeric, 1))::float /
           GREATEST(1, (SELECT end_tick - start_tick FROM tick_range)) as volume_per_tick
       FROM events
-      WHERE event_type = 'agent_traded'
+      WHERE event_type IN ('agent_traded', 'market_trade')
         AND tick >= (SELECT start_tick FROM tick_range)
     )
     SELECT * FROM trade_stats
@@ -2162,6 +2269,51 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
 
   const liquidityRows = Array.isArray(liquidityData) ? liquidityData : (liquidityData as any).rows || [];
 
+  // --- Order Book Depth ---
+  const depthData = await db.execute<{
+    open_bids: number;
+    open_asks: number;
+    bid_depth: number;
+    ask_depth: number;
+    two_sided_books: number;
+  }>(sql`
+    WITH books AS (
+      SELECT
+        shelter_id,
+        item_type,
+        COUNT(*) FILTER (WHERE side = 'bid') as bids,
+        COUNT(*) FILTER (WHERE side = 'ask') as asks,
+        COALESCE(SUM(quantity - filled_quantity) FILTER (WHERE side = 'bid'), 0) as bid_depth,
+        COALESCE(SUM(quantity - filled_quantity) FILTER (WHERE side = 'ask'), 0) as ask_depth
+      FROM market_orders
+      WHERE status = 'open'
+      GROUP BY shelter_id, item_type
+    )
+    SELECT
+      COALESCE(SUM(bids), 0) as open_bids,
+      COALESCE(SUM(asks), 0) as open_asks,
+      COALESCE(SUM(bid_depth), 0) as bid_depth,
+      COALESCE(SUM(ask_depth), 0) as ask_depth,
+      COUNT(*) FILTER (WHERE bids > 0 AND asks > 0) as two_sided_books
+    FROM books
+  `);
+
+  const depthRows = Array.isArray(depthData) ? depthData : (depthData as any).rows || [];
+
+  const marketVolumeData = await db.execute<{
+    trades_per_tick: number;
+    volume_per_tick: number;
+  }>(sql`
+    SELECT
+      COUNT(*)::float / 20 as trades_per_tick,
+      COALESCE(SUM((payload->>'quantity')::numeric), 0)::float / 20 as volume_per_tick
+    FROM events
+    WHERE event_type = 'market_trade'
+      AND tick >= ${currentTick} - 20
+  `);
+
+  const marketVolumeRows = Array.isArray(marketVolumeData) ? marketVolumeData : (marketVolumeData as any).rows || [];
+
   // --- Market Maturity Classification ---
   const tradesPerTick = Number(liquidityRows[0]?.trades_per_tick) || 0;
   let marketMaturity: MarketEfficiencyMetrics['marketMaturity'] = 'nascent';
@@ -2190,6 +2342,15 @@ export async function getMarketEfficiencyMetrics(): Promise<MarketEfficiencyMetr
       uniqueTradersPerTick: Number(liquidityRows[0]?.unique_traders) || 0,
       volumePerTick: Math.round(Number(liquidityRows[0]?.volume_per_tick) * 100) / 100 || 0,
     },
+    orderBook: {
+      openBids: Number(depthRows[0]?.open_bids) || 0,
+      openAsks: Number(depthRows[0]?.open_asks) || 0,
+      bidDepth: Number(depthRows[0]?.bid_depth) || 0,
+      askDepth: Number(depthRows[0]?.ask_depth) || 0,
+      twoSidedBooks: Number(depthRows[0]?.two_sided_books) || 0,
+      marketTradesPerTick: Math.round(Number(marketVolumeRows[0]?.trades_per_tick) * 100) / 100 || 0,
+      marketVolumePerTick: Math.round(Number(marketVolumeRows[0]?.volume_per_tick) * 100) / 100 || 0,
+    },
     marketMaturity,
   };
 }
@@ -2218,6 +2379,23 @@ export interface GovernanceMetrics {
     punishmentOfDeviants: number; // Negative responses to outliers
     normStrength: number; // 0-1, how strong emergent norms are
   };
+  formalInstitutions: {
+    // Observed directly from propose / vote / tally rather than inferred
+    proposalsTotal: number;
+    openProposals: number;
+    byScope: Record<string, number>; // org, claim, world
+    byOutcome: Record<string, number>; // tax, banish, shelter_price, resolution
+    passed: number;
+    rejected: number;
+    noQuorum: number;
+    passRate: number; // passed / tallied
+    averageTurnout: number; // votes / electorate, over tallied proposals
+    votesCast: number;
+    uniqueVoters: number;
+    stakeWeightedShare: number; // Share of proposals weighted by stake
+    bindingOutcomesApplied: number;
+    activeOrganizations: number;
+  };
   dominantStructure:
     | 'anarchic' // No coordination
     | 'egalitarian' // Equal distribution of influence
@@ -2395,7 +2573,77 @@ export async function getGovernanceMetrics(): Promise<GovernanceMetrics> {
   // Norm strength: combination of consistency and enforcement
   const normStrength = Math.min(1, (behaviorConsistency + Math.min(1, punishmentEvents / 10)) / 2);
 
-  // --- Classify Dominant Structure ---
+  // --- Formal Institutions ---
+  // Proposals, votes and organisations agents actually created
+  const proposalData = await db.execute<{
+    scope_type: string;
+    outcome_type: string;
+    status: string;
+    weighting: string;
+    proposals: number;
+    applied: number;
+    turnout_sum: number;
+    turnout_count: number;
+  }>(sql`
+    SELECT
+      p.scope_type,
+      p.outcome_type,
+      p.status,
+      p.weighting,
+      COUNT(*) as proposals,
+      COUNT(*) FILTER (WHERE p.outcome_applied) as applied,
+      SUM(v.votes::float / NULLIF(p.electorate_size, 0)) FILTER (WHERE p.status != 'open') as turnout_sum,
+      COUNT(p.electorate_size) FILTER (WHERE p.status != 'open' AND p.electorate_size > 0) as turnout_count
+    FROM proposals p
+    LEFT JOIN (
+      SELECT proposal_id, COUNT(*) as votes FROM proposal_votes GROUP BY proposal_id
+    ) v ON v.proposal_id = p.id
+    GROUP BY p.scope_type, p.outcome_type, p.status, p.weighting
+  `);
+  const proposalRows: {
+    scope_type: string;
+    outcome_type: string;
+    status: string;
+    weighting: string;
+    proposals: number;
+    applied: number;
+    turnout_sum: number | null;
+    turnout_count: number;
+  }[] = Array.isArray(proposalData) ? proposalData : (proposalData as any).rows || [];
+
+  const voteData = await db.execute<{ votes: number; voters: number; organizations: number }>(sql`
+    SELECT
+      (SELECT COUNT(*) FROM proposal_votes) as votes,
+      (SELECT COUNT(DISTINCT voter_id) FROM proposal_votes) as voters,
+      (SELECT COUNT(*) FROM organizations WHERE status = 'active') as organizations
+  `);
+  const voteRows = Array.isArray(voteData) ? voteData : (voteData as any).rows || [];
+
+  const byScope: Record<string, number> = {};
+  const byOutcome: Record<string, number> = {};
+  const byStatus: Record<string, number> = {};
+  let proposalsTotal = 0;
+  let stakeWeighted = 0;
+  let bindingOutcomesApplied = 0;
+  let turnoutSum = 0;
+  let turnoutCount = 0;
+  for (const row of proposalRows) {
+    const count = Number(row.proposals) || 0;
+    proposalsTotal += count;
+    byScope[row.scope_type] = (byScope[row.scope_type] ?? 0) + count;
+    byOutcome[row.outcome_type] = (byOutcome[row.outcome_type] ?? 0) + count;
+    byStatus[row.status] = (byStatus[row.status] ?? 0) + count;
+    if (row.weighting === 'stake') stakeWeighted += count;
+    if (row.outcome_type !== 'resolution') bindingOutcomesApplied += Number(row.applied) || 0;
+    turnoutSum += Number(row.turnout_sum) || 0;
+    turnoutCount += Number(row.turnout_count) || 0;
+  }
+  const passed = byStatus.passed ?? 0;
+  const rejected = byStatus.rejected ?? 0;
+  const noQuorum = byStatus.no_quorum ?? 0;
+  const tallied = passed + rejected + noQuorum;
+
+    // --- Classify Dominant Structure ---
   const totalAgents = await db
     .select({ count: sql<number>`COUNT(*)` })
     .from(agents)
@@ -2438,6 +2686,22 @@ export async function getGovernanceMetrics(): Promise<GovernanceMetrics> {
       punishmentOfDeviants: punishmentEvents,
       normStrength: Math.round(normStrength * 1000) / 1000,
     },
+    formalInstitutions: {
+      proposalsTotal,
+      openProposals: byStatus.open ?? 0,
+      byScope,
+      byOutcome,
+      passed,
+      rejected,
+      noQuorum,
+      passRate: tallied > 0 ? Math.round((passed / tallied) * 1000) / 1000 : 0,
+      averageTurnout: turnoutCount > 0 ? Math.round((turnoutSum / turnoutCount) * 1000) / 1000 : 0,
+      votesCast: Number(voteRows[0]?.votes) || 0,
+      uniqueVoters: Number(voteRows[0]?.voters) || 0,
+      stakeWeightedShare: proposalsTotal > 0 ? Math.round((stakeWeighted / proposalsTotal) * 1000) / 1000 : 0,
+      bindingOutcomesApplied,
+      activeOrganizations: Number(voteRows[0]?.organizations) || 0,
+    },
     dominantStructure,
   };
 }
@@ -2671,6 +2935,95 @@ export async function getPhase4Metrics(): Promise<Phase4Metrics> {
   };
 }
 
+// =============================================================================
+// Emergent Language Corpus
+// =============================================================================
+
+/**
+ * Load what agents said (signals, gossip claims, direct messages) with the
+ * speakers and the world features their words may refer to
+ *
+ * Each source is capped at the newest `limit` entries.
+ */
+export async function getLanguageCorpus(limit = 5000): Promise<LanguageCorpus> {
+  const [signalRows, gossipRows, messageRows, agentRows, lineageRows, spawnRows, shelterRows, nameRows] =
+    await Promise.all([
+      db
+        .select({ agentId: events.agentId, tick: events.tick, payload: events.payload })
+        .from(events)
+        .where(eq(events.eventType, 'agent_signaled'))
+        .orderBy(desc(events.id))
+        .limit(limit),
+      db
+        .select({ speakerId: gossipEvents.sourceAgentId, tick: gossipEvents.tick, text: gossipEvents.claim })
+        .from(gossipEvents)
+        .orderBy(desc(gossipEvents.tick))
+        .limit(limit),
+      db
+        .select({
+          speakerId: agentMessages.senderId,
+          tick: agentMessages.sentAtTick,
+          text: agentMessages.content,
+          x: agentMessages.x,
+          y: agentMessages.y,
+        })
+        .from(agentMessages)
+        .orderBy(desc(agentMessages.sentAtTick))
+        .limit(limit),
+      db.select({ id: agents.id, llmType: agents.llmType }).from(agents),
+      db.select({ agentId: agentLineages.agentId, parentId: agentLineages.spawnedByParentId }).from(agentLineages),
+      db.select({ x: resourceSpawns.x, y: resourceSpawns.y, resourceType: resourceSpawns.resourceType }).from(resourceSpawns),
+      db.select({ x: shelters.x, y: shelters.y }).from(shelters),
+      db
+        .select({ x: locationNames.x, y: locationNames.y, name: locationNames.name, usageCount: locationNames.usageCount })
+        .from(locationNames),
+    ]);
+
+  const utterances: Utterance[] = [];
+  for (const row of signalRows) {
+    const payload = row.payload as { message?: unknown; x?: unknown; y?: unknown };
+    if (!row.agentId || typeof payload.message !== 'string') continue;
+    utterances.push({
+      speakerId: row.agentId,
+      tick: row.tick,
+      text: payload.message,
+      source: 'signal',
+      x: typeof payload.x === 'number' ? payload.x : undefined,
+      y: typeof payload.y === 'number' ? payload.y : undefined,
+    });
+  }
+  for (const row of gossipRows) {
+    utterances.push({ ...row, source: 'gossip' });
+  }
+  for (const row of messageRows) {
+    utterances.push({ ...row, source: 'message' });
+  }
+
+  // Lineage root: follow spawnedByParentId up to a founder
+  const parentOf = new Map(lineageRows.map((r) => [r.agentId, r.parentId]));
+  const rootOf = (agentId: string): string => {
+    let current = agentId;
+    const visited = new Set<string>();
+    while (parentOf.get(current) && !visited.has(current)) {
+      visited.add(current);
+      current = parentOf.get(current)!;
+    }
+    return current;
+  };
+  const speakers: Speaker[] = agentRows.map((a) => ({ id: a.id, llmType: a.llmType, lineageRootId: rootOf(a.id) }));
+
+  return {
+    utterances,
+    speakers,
+    referents: [
+      ...spawnRows.map((r) => ({ label: `resource:${r.resourceType}`, x: r.x, y: r.y })),
+      ...shelterRows.map((r) => ({ label: 'shelter', x: r.x, y: r.y })),
+      ...nameRows.map((r) => ({ label: `place:${r.name}`, x: r.x, y: r.y })),
+    ],
+    locationNames: nameRows,
+  };
+}
+
 // =============================================================================
 // Combined Snapshot
 // =============================================================================
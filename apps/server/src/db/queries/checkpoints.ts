@@ -0,0 +1,472 @@
+/**
+ * World Checkpoint Queries
+ *
+ * Full dumps of the tables that make up a running world, used to rewind the
+ * world to an earlier tick or to fork it into a new tenant world.
+ *
+ * - capture: rows of every checkpoint table in the world's scope, stored as
+ *   JSON (timestamps become ISO strings and are revived on the way back);
+ *   rows without a tenantId are scoped through the agent they belong to
+ * - restore: rows created after the checkpoint are removed, checkpointed rows
+ *   are upserted, later events and checkpoints are dropped
+ * - fork: rows are copied under another tenant with fresh ids, references
+ *   (including ids inside JSON columns) follow the new ids
+ *
+ * Signing keys, credentials and external agent registrations are identities,
+ * not world state, and are not part of checkpoints. Logs that a restore leaves
+ * as they are (UNCHECKPOINTED_TABLES) are listed in its result.
+ */
+
+import { v4 as uuid } from 'uuid';
+import { and, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lte, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import {
+  db,
+  worldCheckpoints,
+  worldState,
+  tenantWorldState,
+  events,
+  agentTickStates,
+  agents,
+  agentLineages,
+  reproductionStates,
+  shelters,
+  resourceSpawns,
+  inventory,
+  ledger,
+  agentRelationships,
+  agentKnowledge,
+  agentMemories,
+  agentClaims,
+  locationNames,
+  agentRoles,
+  retaliationChains,
+  informationBeliefs,
+  jobOffers,
+  employments,
+  tradeProposals,
+  agentMessages,
+  organizations,
+  organizationMembers,
+  proposals,
+  proposalVotes,
+  claimBanishments,
+  publicTreasuries,
+  travelPlans,
+  agentPlans,
+  structures,
+  containers,
+  containerItems,
+  containerAccess,
+  marketOrders,
+  puzzleGames,
+  puzzleTeams,
+  puzzleFragments,
+  puzzleParticipants,
+  puzzleAttempts,
+  type WorldCheckpoint,
+} from '../index';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type CheckpointRow = Record<string, unknown>;
+export type CheckpointTables = Record<string, CheckpointRow[]>;
+
+export type WorldCheckpointSummary = Pick<WorldCheckpoint, 'id' | 'tenantId' | 'tick' | 'rowCount' | 'createdAt'>;
+
+export interface RestoreResult {
+  tick: number;
+  rowsRestored: number;
+  rowsRemoved: number;
+  eventsRemoved: number;
+  /** World tables a restore does not rewind (see UNCHECKPOINTED_TABLES) */
+  notRestored: string[];
+}
+
+export interface ForkResult {
+  tenantId: string;
+  tick: number;
+  rowsCopied: number;
+  /** Old agent id -> agent id in the forked world */
+  agentIds: Record<string, string>;
+}
+
+interface CheckpointTableSpec {
+  name: string;
+  table: PgTable;
+  id: PgColumn;
+  /** World scope column; tables without one are scoped through their parent */
+  tenantId?: PgColumn;
+  /** Agent the row belongs to; rows written without a tenantId follow this agent's world */
+  agentId?: PgColumn | SQL;
+  parent?: { name: string; column: PgColumn };
+}
+
+// Ledger rows are about the paying agent, or the paid one for money from the system
+const ledgerAgent = sql`COALESCE(${ledger.fromAgentId}, ${ledger.toAgentId})`;
+
+/**
+ * Tables in a checkpoint, in insert order (parents before children)
+ */
+const CHECKPOINT_TABLES: CheckpointTableSpec[] = [
+  { name: 'agents', table: agents, id: agents.id, tenantId: agents.tenantId },
+  { name: 'agentLineages', table: agentLineages, id: agentLineages.id, tenantId: agentLineages.tenantId, agentId: agentLineages.agentId },
+  { name: 'reproductionStates', table: reproductionStates, id: reproductionStates.id, tenantId: reproductionStates.tenantId, agentId: reproductionStates.parentAgentId },
+  { name: 'shelters', table: shelters, id: shelters.id, tenantId: shelters.tenantId, agentId: shelters.ownerAgentId },
+  { name: 'resourceSpawns', table: resourceSpawns, id: resourceSpawns.id, tenantId: resourceSpawns.tenantId },
+  { name: 'inventory', table: inventory, id: inventory.id, tenantId: inventory.tenantId, agentId: inventory.agentId },
+  { name: 'organizations', table: organizations, id: organizations.id, tenantId: organizations.tenantId, agentId: organizations.founderId },
+  { name: 'organizationMembers', table: organizationMembers, id: organizationMembers.id, tenantId: organizationMembers.tenantId, agentId: organizationMembers.agentId },
+  { name: 'proposals', table: proposals, id: proposals.id, tenantId: proposals.tenantId, agentId: proposals.proposerId },
+  { name: 'proposalVotes', table: proposalVotes, id: proposalVotes.id, tenantId: proposalVotes.tenantId, agentId: proposalVotes.voterId },
+  { name: 'claimBanishments', table: claimBanishments, id: claimBanishments.id, tenantId: claimBanishments.tenantId, agentId: claimBanishments.agentId },
+  { name: 'publicTreasuries', table: publicTreasuries, id: publicTreasuries.id, tenantId: publicTreasuries.tenantId },
+  { name: 'ledger', table: ledger, id: ledger.id, tenantId: ledger.tenantId, agentId: ledgerAgent },
+  { name: 'agentRelationships', table: agentRelationships, id: agentRelationships.id, tenantId: agentRelationships.tenantId, agentId: agentRelationships.agentId },
+  { name: 'agentKnowledge', table: agentKnowledge, id: agentKnowledge.id, tenantId: agentKnowledge.tenantId, agentId: agentKnowledge.agentId },
+  { name: 'agentMemories', table: agentMemories, id: agentMemories.id, tenantId: agentMemories.tenantId, agentId: agentMemories.agentId },
+  { name: 'agentClaims', table: agentClaims, id: agentClaims.id, tenantId: agentClaims.tenantId, agentId: agentClaims.agentId },
+  { name: 'locationNames', table: locationNames, id: locationNames.id, tenantId: locationNames.tenantId, agentId: locationNames.namedByAgentId },
+  { name: 'agentRoles', table: agentRoles, id: agentRoles.id, tenantId: agentRoles.tenantId, agentId: agentRoles.agentId },
+  { name: 'retaliationChains', table: retaliationChains, id: retaliationChains.id, tenantId: retaliationChains.tenantId, agentId: retaliationChains.attackerId },
+  { name: 'informationBeliefs', table: informationBeliefs, id: informationBeliefs.id, tenantId: informationBeliefs.tenantId, agentId: informationBeliefs.agentId },
+  { name: 'jobOffers', table: jobOffers, id: jobOffers.id, tenantId: jobOffers.tenantId, agentId: jobOffers.employerId },
+  { name: 'employments', table: employments, id: employments.id, tenantId: employments.tenantId, agentId: employments.workerId },
+  { name: 'tradeProposals', table: tradeProposals, id: tradeProposals.id, tenantId: tradeProposals.tenantId, agentId: tradeProposals.proposerId },
+  { name: 'agentMessages', table: agentMessages, id: agentMessages.id, tenantId: agentMessages.tenantId, agentId: agentMessages.senderId },
+  { name: 'travelPlans', table: travelPlans, id: travelPlans.id, tenantId: travelPlans.tenantId, agentId: travelPlans.agentId },
+  { name: 'agentPlans', table: agentPlans, id: agentPlans.id, tenantId: agentPlans.tenantId, agentId: agentPlans.agentId },
+  { name: 'structures', table: structures, id: structures.id, tenantId: structures.tenantId, agentId: structures.ownerAgentId },
+  { name: 'containers', table: containers, id: containers.id, tenantId: containers.tenantId, agentId: containers.ownerAgentId },
+  { name: 'containerItems', table: containerItems, id: containerItems.id, parent: { name: 'containers', column: containerItems.containerId } },
+  { name: 'containerAccess', table: containerAccess, id: containerAccess.id, parent: { name: 'containers', column: containerAccess.containerId } },
+  { name: 'marketOrders', table: marketOrders, id: marketOrders.id, tenantId: marketOrders.tenantId, agentId: marketOrders.agentId },
+  { name: 'puzzleGames', table: puzzleGames, id: puzzleGames.id, tenantId: puzzleGames.tenantId },
+  { name: 'puzzleTeams', table: puzzleTeams, id: puzzleTeams.id, parent: { name: 'puzzleGames', column: puzzleTeams.gameId } },
+  { name: 'puzzleFragments', table: puzzleFragments, id: puzzleFragments.id, parent: { name: 'puzzleGames', column: puzzleFragments.gameId } },
+  { name: 'puzzleParticipants', table: puzzleParticipants, id: puzzleParticipants.id, parent: { name: 'puzzleGames', column: puzzleParticipants.gameId } },
+  { name: 'puzzleAttempts', table: puzzleAttempts, id: puzzleAttempts.id, parent: { name: 'puzzleGames', column: puzzleAttempts.gameId } },
+];
+
+/**
+ * World tables left out of checkpoints: append-only logs keyed by generated
+ * ids (gossip, archives, per-tick aggregates, LLM metrics and prompts).
+ * A restore keeps their rows as they are.
+ */
+export const UNCHECKPOINTED_TABLES = [
+  'gossipEvents',
+  'eventArchives',
+  'eventTickAggregates',
+  'llmMetrics',
+  'promptLogs',
+];
+
+const SPECS_BY_NAME = new Map(CHECKPOINT_TABLES.map((spec) => [spec.name, spec]));
+
+// Rows per INSERT / ids per DELETE statement
+const BATCH_SIZE = 500;
+
+// =============================================================================
+// Scope helpers
+// =============================================================================
+
+function tenantScope(column: PgColumn, tenantId: string | null): SQL {
+  return tenantId ? eq(column, tenantId) : isNull(column);
+}
+
+/**
+ * Rows of a world by tenant column and owning agent
+ *
+ * Many inserts (inventory, ledger, events, memories, ...) leave tenantId unset,
+ * so a row without one belongs to the world of its agent: a tenant world also
+ * takes them for its agents, and the default world leaves those rows alone.
+ */
+export function agentWorldScope(
+  executor: Tx | typeof db,
+  tenantColumn: PgColumn,
+  agentId: PgColumn | SQL | undefined,
+  tenantId: string | null
+): SQL {
+  const stamped = tenantScope(tenantColumn, tenantId);
+  if (!agentId) return stamped;
+  const agent = sql`${agentId}`;
+
+  if (tenantId) {
+    const worldAgents = executor.select({ id: agents.id }).from(agents).where(eq(agents.tenantId, tenantId));
+    return or(stamped, and(isNull(tenantColumn), inArray(agent, worldAgents)))!;
+  }
+
+  const tenantAgents = executor.select({ id: agents.id }).from(agents).where(isNotNull(agents.tenantId));
+  return and(stamped, or(isNull(agent), notInArray(agent, tenantAgents)))!;
+}
+
+/**
+ * WHERE clause selecting the rows of a table that belong to a world
+ */
+function worldScope(executor: Tx | typeof db, spec: CheckpointTableSpec, tenantId: string | null): SQL {
+  if (spec.tenantId) return agentWorldScope(executor, spec.tenantId, spec.agentId, tenantId);
+
+  const parent = SPECS_BY_NAME.get(spec.parent!.name)!;
+  return inArray(
+    spec.parent!.column,
+    executor.select({ id: parent.id }).from(parent.table).where(worldScope(executor, parent, tenantId))
+  );
+}
+
+/**
+ * Turn a row read back from JSON into insertable values (revive timestamps)
+ */
+function reviveRow(spec: CheckpointTableSpec, row: CheckpointRow): CheckpointRow {
+  const revived: CheckpointRow = { ...row };
+  for (const [key, column] of Object.entries(getTableColumns(spec.table))) {
+    const value = revived[key];
+    if (column.dataType === 'date' && typeof value === 'string') {
+      revived[key] = new Date(value);
+    }
+  }
+  return revived;
+}
+
+/**
+ * Replace every known id in a value, including inside arrays and objects
+ */
+export function remapIds(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') return idMap.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((v) => remapIds(v, idMap));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, remapIds(v, idMap)]));
+  }
+  return value;
+}
+
+/**
+ * Copy checkpoint tables into another world: fresh ids, references follow (pure)
+ */
+export function remapCheckpointTables(
+  tables: CheckpointTables,
+  tenantId: string
+): { tables: CheckpointTables; idMap: Map<string, string> } {
+  const idMap = new Map<string, string>();
+  for (const rows of Object.values(tables)) {
+    for (const row of rows) {
+      if (typeof row.id === 'string') idMap.set(row.id, uuid());
+    }
+  }
+
+  const remapped: CheckpointTables = {};
+  for (const spec of CHECKPOINT_TABLES) {
+    remapped[spec.name] = (tables[spec.name] ?? []).map((row) => {
+      const copy = remapIds(row, idMap) as CheckpointRow;
+      if (spec.tenantId) copy.tenantId = tenantId;
+      return copy;
+    });
+  }
+
+  return { tables: remapped, idMap };
+}
+
+async function insertRows(tx: Tx, spec: CheckpointTableSpec, rows: CheckpointRow[], upsert: boolean): Promise<void> {
+  const values = rows.map((row) => reviveRow(spec, row));
+  const excluded = Object.fromEntries(
+    Object.entries(getTableColumns(spec.table)).map(([key, column]) => [key, sql.raw(`excluded."${column.name}"`)])
+  );
+
+  for (let i = 0; i < values.length; i += BATCH_SIZE) {
+    const insert = tx.insert(spec.table).values(values.slice(i, i + BATCH_SIZE) as never);
+    if (upsert) {
+      await insert.onConflictDoUpdate({ target: spec.id, set: excluded as never });
+    } else {
+      await insert;
+    }
+  }
+}
+
+// =============================================================================
+// Capture
+// =============================================================================
+
+/**
+ * Dump every checkpoint table of a world and store it for this tick
+ */
+export async function captureWorldCheckpoint(
+  tick: number,
+  tenantId: string | null,
+  rngState: unknown
+): Promise<WorldCheckpointSummary> {
+  const tables: CheckpointTables = {};
+  let rowCount = 0;
+
+  for (const spec of CHECKPOINT_TABLES) {
+    const rows = await db.select().from(spec.table).where(worldScope(db, spec, tenantId));
+    tables[spec.name] = rows as CheckpointRow[];
+    rowCount += rows.length;
+  }
+
+  const result = await db
+    .insert(worldCheckpoints)
+    .values({ tenantId, tick, tables, rngState, rowCount })
+    .returning({
+      id: worldCheckpoints.id,
+      tenantId: worldCheckpoints.tenantId,
+      tick: worldCheckpoints.tick,
+      rowCount: worldCheckpoints.rowCount,
+      createdAt: worldCheckpoints.createdAt,
+    });
+  return result[0];
+}
+
+/**
+ * List a world's checkpoints (without their contents), newest first
+ */
+export async function listWorldCheckpoints(tenantId: string | null = null): Promise<WorldCheckpointSummary[]> {
+  return db
+    .select({
+      id: worldCheckpoints.id,
+      tenantId: worldCheckpoints.tenantId,
+      tick: worldCheckpoints.tick,
+      rowCount: worldCheckpoints.rowCount,
+      createdAt: worldCheckpoints.createdAt,
+    })
+    .from(worldCheckpoints)
+    .where(tenantScope(worldCheckpoints.tenantId, tenantId))
+    .orderBy(desc(worldCheckpoints.tick));
+}
+
+/**
+ * Latest checkpoint taken at or before a tick
+ */
+export async function getCheckpointAtOrBefore(
+  tick: number,
+  tenantId: string | null = null
+): Promise<WorldCheckpoint | undefined> {
+  const result = await db
+    .select()
+    .from(worldCheckpoints)
+    .where(and(tenantScope(worldCheckpoints.tenantId, tenantId), lte(worldCheckpoints.tick, tick)))
+    .orderBy(desc(worldCheckpoints.tick), desc(worldCheckpoints.createdAt))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Checkpoints taken in a tick range, oldest first
+ */
+export async function getCheckpointsInRange(
+  fromTick: number,
+  toTick: number,
+  tenantId: string | null = null
+): Promise<WorldCheckpoint[]> {
+  return db
+    .select()
+    .from(worldCheckpoints)
+    .where(and(
+      tenantScope(worldCheckpoints.tenantId, tenantId),
+      gte(worldCheckpoints.tick, fromTick),
+      lte(worldCheckpoints.tick, toTick)
+    ))
+    .orderBy(worldCheckpoints.tick);
+}
+
+/**
+ * Keep only the newest checkpoints of a world
+ */
+export async function pruneWorldCheckpoints(keep: number, tenantId: string | null = null): Promise<number> {
+  const stale = (await listWorldCheckpoints(tenantId)).slice(keep).map((c) => c.id);
+  if (stale.length === 0) return 0;
+
+  await db.delete(worldCheckpoints).where(inArray(worldCheckpoints.id, stale));
+  return stale.length;
+}
+
+// =============================================================================
+// Restore
+// =============================================================================
+
+/**
+ * Rewind a world to a checkpoint
+ *
+ * Everything happens in one transaction: rows that did not exist at the
+ * checkpoint are removed (children first), checkpointed rows are upserted
+ * (parents first), and events, checkpoints and agent tick states after the
+ * tick are dropped since that timeline no longer exists.
+ */
+export async function restoreWorldCheckpoint(checkpoint: WorldCheckpoint): Promise<RestoreResult> {
+  const tables = checkpoint.tables as CheckpointTables;
+  const { tenantId, tick } = checkpoint;
+
+  return db.transaction(async (tx) => {
+    const removedEvents = await tx
+      .delete(events)
+      .where(and(agentWorldScope(tx, events.tenantId, events.agentId, tenantId), gt(events.tick, tick)))
+      .returning({ id: events.id });
+
+    await tx
+      .delete(worldCheckpoints)
+      .where(and(tenantScope(worldCheckpoints.tenantId, tenantId), gt(worldCheckpoints.tick, tick)));
+
+    await tx
+      .delete(agentTickStates)
+      .where(and(agentWorldScope(tx, agentTickStates.tenantId, agentTickStates.agentId, tenantId), gt(agentTickStates.tick, tick)));
+
+    let rowsRemoved = 0;
+    for (const spec of [...CHECKPOINT_TABLES].reverse()) {
+      const keep = new Set((tables[spec.name] ?? []).map((row) => row.id as string));
+      const current = await tx.select({ id: spec.id }).from(spec.table).where(worldScope(tx, spec, tenantId));
+      const stale = current.map((row) => row.id as string).filter((id) => !keep.has(id));
+
+      for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+        await tx.delete(spec.table).where(inArray(spec.id, stale.slice(i, i + BATCH_SIZE)));
+      }
+      rowsRemoved += stale.length;
+    }
+
+    let rowsRestored = 0;
+    for (const spec of CHECKPOINT_TABLES) {
+      const rows = tables[spec.name] ?? [];
+      await insertRows(tx, spec, rows, true);
+      rowsRestored += rows.length;
+    }
+
+    if (tenantId) {
+      await tx
+        .update(tenantWorldState)
+        .set({ currentTick: tick, lastTickAt: new Date() })
+        .where(eq(tenantWorldState.tenantId, tenantId));
+    } else {
+      await tx.update(worldState).set({ currentTick: tick, lastTickAt: new Date() });
+    }
+
+    return { tick, rowsRestored, rowsRemoved, eventsRemoved: removedEvents.length, notRestored: UNCHECKPOINTED_TABLES };
+  });
+}
+
+// =============================================================================
+// Fork
+// =============================================================================
+
+/**
+ * Copy a checkpoint into another (empty) tenant world and set its tick
+ */
+export async function forkWorldCheckpoint(checkpoint: WorldCheckpoint, tenantId: string): Promise<ForkResult> {
+  const { tables, idMap } = remapCheckpointTables(checkpoint.tables as CheckpointTables, tenantId);
+
+  return db.transaction(async (tx) => {
+    let rowsCopied = 0;
+    for (const spec of CHECKPOINT_TABLES) {
+      const rows = tables[spec.name];
+      await insertRows(tx, spec, rows, false);
+      rowsCopied += rows.length;
+    }
+
+    await tx
+      .update(tenantWorldState)
+      .set({ currentTick: checkpoint.tick, lastTickAt: new Date() })
+      .where(eq(tenantWorldState.tenantId, tenantId));
+
+    const agentIds = Object.fromEntries(
+      (checkpoint.tables as CheckpointTables).agents?.map((row) => [row.id as string, idMap.get(row.id as string)!]) ?? []
+    );
+
+    return { tenantId, tick: checkpoint.tick, rowsCopied, agentIds };
+  });
+}
@@ -132,6 +132,14 @@ export async function getClaimByAgentAndPosition(
   return claim ?? null;
 }
 
+/**
+ * Get a claim by ID
+ */
+export async function getClaimById(id: string): Promise<AgentClaim | null> {
+  const [claim] = await db.select().from(agentClaims).where(eq(agentClaims.id, id)).limit(1);
+  return claim ?? null;
+}
+
 /**
  * Get all claims at a specific position
  */
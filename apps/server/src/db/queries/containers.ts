@@ -0,0 +1,176 @@
+/**
+ * Container Queries
+ *
+ * CRUD operations for shared storage containers, their contents and
+ * their access control lists.
+ */
+
+import { eq, and, gte, lte, sql, inArray } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  containers,
+  containerItems,
+  containerAccess,
+  type Container,
+  type NewContainer,
+  type ContainerItem,
+  type ContainerAccessEntry,
+  type NewContainerAccessEntry,
+} from '../schema';
+
+// =============================================================================
+// CONTAINERS
+// =============================================================================
+
+/**
+ * Create a new container
+ */
+export async function createContainer(container: NewContainer): Promise<Container> {
+  const [created] = await db.insert(containers).values(container).returning();
+  return created;
+}
+
+/**
+ * Get a container by ID
+ */
+export async function getContainerById(id: string): Promise<Container | undefined> {
+  const [container] = await db.select().from(containers).where(eq(containers.id, id));
+  return container;
+}
+
+/**
+ * Get the container an agent owns at a position
+ */
+export async function getOwnedContainerAtPosition(
+  ownerAgentId: string,
+  x: number,
+  y: number
+): Promise<Container | undefined> {
+  const [container] = await db
+    .select()
+    .from(containers)
+    .where(and(
+      eq(containers.ownerAgentId, ownerAgentId),
+      eq(containers.x, x),
+      eq(containers.y, y)
+    ))
+    .limit(1);
+  return container;
+}
+
+/**
+ * Get containers within a square radius of a position
+ */
+export async function getContainersInArea(x: number, y: number, radius: number): Promise<Container[]> {
+  return db
+    .select()
+    .from(containers)
+    .where(and(
+      gte(containers.x, x - radius),
+      lte(containers.x, x + radius),
+      gte(containers.y, y - radius),
+      lte(containers.y, y + radius)
+    ));
+}
+
+// =============================================================================
+// CONTENTS
+// =============================================================================
+
+/**
+ * Get the contents of a container
+ */
+export async function getContainerItems(containerId: string): Promise<ContainerItem[]> {
+  return db.select().from(containerItems).where(eq(containerItems.containerId, containerId));
+}
+
+/**
+ * Get the contents of several containers at once
+ */
+export async function getItemsForContainers(containerIds: string[]): Promise<ContainerItem[]> {
+  if (containerIds.length === 0) return [];
+  return db.select().from(containerItems).where(inArray(containerItems.containerId, containerIds));
+}
+
+/**
+ * Add items to a container (upsert - insert or increment quantity)
+ */
+export async function addToContainer(
+  containerId: string,
+  itemType: string,
+  quantity: number
+): Promise<ContainerItem> {
+  const [item] = await db
+    .insert(containerItems)
+    .values({ containerId, itemType, quantity })
+    .onConflictDoUpdate({
+      target: [containerItems.containerId, containerItems.itemType],
+      set: { quantity: sql`${containerItems.quantity} + ${quantity}` },
+    })
+    .returning();
+  return item;
+}
+
+/**
+ * Remove items from a container
+ *
+ * Only decrements when enough is stored (so concurrent withdrawals cannot
+ * overdraw). Returns the remaining quantity, or -1 if there was not enough.
+ */
+export async function removeFromContainer(
+  containerId: string,
+  itemType: string,
+  quantity: number
+): Promise<number> {
+  const [item] = await db
+    .update(containerItems)
+    .set({ quantity: sql`${containerItems.quantity} - ${quantity}` })
+    .where(and(
+      eq(containerItems.containerId, containerId),
+      eq(containerItems.itemType, itemType),
+      gte(containerItems.quantity, quantity)
+    ))
+    .returning();
+
+  if (!item) return -1;
+
+  if (item.quantity <= 0) {
+    await db.delete(containerItems).where(eq(containerItems.id, item.id));
+    return 0;
+  }
+  return item.quantity;
+}
+
+// =============================================================================
+// ACCESS CONTROL
+// =============================================================================
+
+/**
+ * Get the access list of a container
+ */
+export async function getContainerAccess(containerId: string): Promise<ContainerAccessEntry[]> {
+  return db.select().from(containerAccess).where(eq(containerAccess.containerId, containerId));
+}
+
+/**
+ * Get the access lists of several containers at once
+ */
+export async function getAccessForContainers(containerIds: string[]): Promise<ContainerAccessEntry[]> {
+  if (containerIds.length === 0) return [];
+  return db.select().from(containerAccess).where(inArray(containerAccess.containerId, containerIds));
+}
+
+/**
+ * Add an access list entry
+ */
+export async function addContainerAccess(entry: NewContainerAccessEntry): Promise<ContainerAccessEntry> {
+  const [created] = await db.insert(containerAccess).values(entry).returning();
+  return created;
+}
+
+/**
+ * Remove an access list entry
+ */
+export async function removeContainerAccess(id: string): Promise<void> {
+  await db.delete(containerAccess).where(eq(containerAccess.id, id));
+}
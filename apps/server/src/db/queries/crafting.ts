@@ -0,0 +1,67 @@
+/**
+ * Crafting queries
+ *
+ * Recipe knowledge is derived from the event store: an agent "knows" a recipe
+ * once it has crafted it successfully (agent_crafted events). Crafting time is
+ * derived the same way, from the ticks recorded on the craft events.
+ */
+
+import { eq, and, gt, inArray, sql } from 'drizzle-orm';
+import { db, events } from '../index';
+import { CONFIG } from '../../config';
+
+export interface RecipeCraftCounts {
+  /** Successful crafts of the recipe by this agent */
+  byAgent: number;
+  /** Successful crafts of the recipe by anyone */
+  total: number;
+}
+
+/**
+ * Count past successful crafts of a recipe (for discovery detection)
+ */
+export async function getRecipeCraftCounts(agentId: string, recipeId: string): Promise<RecipeCraftCounts> {
+  const result = await db
+    .select({
+      byAgent: sql<number>`COUNT(*) FILTER (WHERE ${events.agentId} = ${agentId})`,
+      total: sql<number>`COUNT(*)`,
+    })
+    .from(events)
+    .where(and(
+      eq(events.eventType, 'agent_crafted'),
+      sql`${events.payload}->>'recipeId' = ${recipeId}`
+    ));
+
+  return {
+    byAgent: Number(result[0]?.byAgent ?? 0),
+    total: Number(result[0]?.total ?? 0),
+  };
+}
+
+/**
+ * Agents still busy with a craft at this tick, mapped to the first tick they are free.
+ * A craft started at tick T with a recipe of N ticks occupies ticks T..T+N-1.
+ */
+export async function getBusyCrafters(tick: number, agentIds: string[]): Promise<Map<string, number>> {
+  if (agentIds.length === 0) return new Map();
+
+  const longestRecipe = Math.max(1, ...Object.values(CONFIG.actions.craft.recipes).map((r) => r.ticks));
+  const freeAt = sql<number>`MAX(${events.tick} + (${events.payload}->>'ticks')::int)`;
+
+  const rows = await db
+    .select({ agentId: events.agentId, freeAt })
+    .from(events)
+    .where(and(
+      inArray(events.eventType, ['agent_crafted', 'agent_craft_failed']),
+      inArray(events.agentId, agentIds),
+      gt(events.tick, tick - longestRecipe)
+    ))
+    .groupBy(events.agentId)
+    .having(sql`${freeAt} > ${tick}`);
+
+  const busy = new Map<string, number>();
+  for (const row of rows) {
+    if (row.agentId) busy.set(row.agentId, Number(row.freeAt));
+  }
+  return busy;
+}
@@ -4,7 +4,7 @@
 
 import { db } from '../index';
 import { agentCredentials, type NewAgentCredential, type AgentCredential } from '../schema';
-import { eq, and, desc, isNull, or, gt } from 'drizzle-orm';
+import { eq, and, asc, desc, isNull, or, gt } from 'drizzle-orm';
 
 /**
  * Create a new credential
@@ -89,12 +89,13 @@ export async function getCredentialsByType(
 }
 
 /**
- * Revoke a credential
+ * Revoke a credential (stores the issuer's signature over the revocation)
  */
 export async function revokeCredential(
   credentialId: string,
   issuerId: string,
-  currentTick: number
+  currentTick: number,
+  revocationSignature: string
 ): Promise<{ success: boolean; error?: string }> {
   // First verify the issuer owns this credential
   const [credential] = await db
@@ -121,6 +122,7 @@ export async function revokeCredential(
     .set({
       revoked: true,
       revokedAtTick: currentTick,
+      revocationSignature,
       updatedAt: new Date(),
     })
     .where(eq(agentCredentials.id, credentialId));
@@ -129,13 +131,19 @@ export async function revokeCredential(
 }
 
 /**
- * Verify a credential signature
+ * Get credentials revoked by an issuer (oldest revocation first)
  */
-export function verifyCredentialSignature(
-  credential: AgentCredential,
-  computedSignature: string
-): boolean {
-  return credential.issuerSignature === computedSignature;
+export async function getRevokedCredentialsByIssuer(issuerId: string): Promise<AgentCredential[]> {
+  return db
+    .select()
+    .from(agentCredentials)
+    .where(
+      and(
+        eq(agentCredentials.issuerId, issuerId),
+        eq(agentCredentials.revoked, true)
+      )
+    )
+    .orderBy(asc(agentCredentials.revokedAtTick), asc(agentCredentials.id));
 }
 
 /**
@@ -1,8 +1,21 @@
 /**
- * Event cleanup queries for experiment resets
+ * Event cleanup queries for experiment resets and retention
+ * (services/event-retention.ts)
  */
 
-import { db, events } from '../index';
+import { and, asc, desc, eq, gte, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import {
+  db,
+  events,
+  eventArchives,
+  eventTickAggregates,
+  type Event,
+  type EventArchive,
+  type EventTickAggregate,
+  type NewEventArchive,
+  type NewEventTickAggregate,
+} from '../index';
 
 /**
  * Delete all events (for experiment reset)
@@ -10,3 +23,148 @@ import { db, events } from '../index';
 export async function deleteAllEvents(): Promise<void> {
   await db.delete(events);
 }
+
+function scopeOf(column: PgColumn, tenantId: string | null): SQL {
+  return tenantId ? eq(column, tenantId) : isNull(column);
+}
+
+/**
+ * Count stored events of a world (null = main world)
+ */
+export async function countStoredEvents(tenantId: string | null): Promise<number> {
+  const result = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(events)
+    .where(scopeOf(events.tenantId, tenantId));
+  return result[0]?.count ?? 0;
+}
+
+/**
+ * Tick of the oldest stored event of a world, or null if it has none
+ */
+export async function getOldestEventTick(tenantId: string | null): Promise<number | null> {
+  const result = await db
+    .select({ tick: events.tick })
+    .from(events)
+    .where(scopeOf(events.tenantId, tenantId))
+    .orderBy(asc(events.tick))
+    .limit(1);
+  return result[0]?.tick ?? null;
+}
+
+/**
+ * Tick of the event at a 0-based position in (tick, id) order, oldest first
+ */
+export async function getEventTickAtOffset(tenantId: string | null, offset: number): Promise<number | null> {
+  const result = await db
+    .select({ tick: events.tick })
+    .from(events)
+    .where(scopeOf(events.tenantId, tenantId))
+    .orderBy(asc(events.tick), asc(events.id))
+    .offset(offset)
+    .limit(1);
+  return result[0]?.tick ?? null;
+}
+
+/**
+ * Record an archive and its aggregates, then delete the archived events.
+ * Only rows up to maxEventId are deleted, so events written to the range
+ * after the archive file was read stay in place for the next run.
+ */
+export async function recordEventArchive(
+  archive: NewEventArchive,
+  aggregates: Omit<NewEventTickAggregate, 'archiveId' | 'tenantId'>[],
+  maxEventId: number
+): Promise<EventArchive> {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(eventArchives).values(archive).returning();
+
+    for (let i = 0; i < aggregates.length; i += 1000) {
+      await tx.insert(eventTickAggregates).values(
+        aggregates.slice(i, i + 1000).map((aggregate) => ({
+          ...aggregate,
+          tenantId: archive.tenantId ?? null,
+          archiveId: created.id,
+        }))
+      );
+    }
+
+    await tx.delete(events).where(and(
+      scopeOf(events.tenantId, archive.tenantId ?? null),
+      lte(events.tick, archive.toTick),
+      lte(events.id, maxEventId)
+    ));
+
+    return created;
+  });
+}
+
+/**
+ * List archives of a world, oldest first, optionally only those overlapping a tick range
+ */
+export async function listEventArchives(
+  tenantId: string | null,
+  range?: { fromTick: number; toTick: number }
+): Promise<EventArchive[]> {
+  return db
+    .select()
+    .from(eventArchives)
+    .where(and(
+      scopeOf(eventArchives.tenantId, tenantId),
+      range ? lte(eventArchives.fromTick, range.toTick) : undefined,
+      range ? gte(eventArchives.toTick, range.fromTick) : undefined
+    ))
+    .orderBy(asc(eventArchives.fromTick), asc(eventArchives.createdAt));
+}
+
+/**
+ * Per-tick aggregates of archived infrastructure events in a tick range
+ */
+export async function getEventTickAggregates(
+  tenantId: string | null,
+  fromTick: number,
+  toTick: number
+): Promise<EventTickAggregate[]> {
+  return db
+    .select()
+    .from(eventTickAggregates)
+    .where(and(
+      scopeOf(eventTickAggregates.tenantId, tenantId),
+      gte(eventTickAggregates.tick, fromTick),
+      lte(eventTickAggregates.tick, toTick)
+    ))
+    .orderBy(asc(eventTickAggregates.tick), desc(eventTickAggregates.eventCount));
+}
+
+/**
+ * Re-insert archived events with their original ids and versions.
+ * Rows already present are skipped, so a partial restore can be retried.
+ */
+export async function restoreArchivedEvents(rows: Event[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const values = rows.map((row) => sql`(
+    ${row.id}, ${row.tenantId}, ${row.tick}, ${row.agentId}, ${row.eventType},
+    ${JSON.stringify(row.payload)}::jsonb, ${row.category}::event_category,
+    ${row.version}, ${row.schemaVersion}, ${row.createdAt.toISOString()}
+  )`);
+
+  const result = await db.execute(sql`
+    INSERT INTO events (
+      id, tenant_id, tick, agent_id, event_type, payload, category, version, schema_version, created_at
+    )
+    OVERRIDING SYSTEM VALUE
+    VALUES ${sql.join(values, sql`, `)}
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  `) as unknown as { count?: number; length?: number };
+
+  return Number(result.count ?? result.length ?? 0);
+}
+
+/**
+ * Delete an archive record (its aggregates cascade)
+ */
+export async function deleteEventArchive(id: string): Promise<void> {
+  await db.delete(eventArchives).where(eq(eventArchives.id, id));
+}
@@ -9,11 +9,52 @@
  * - emergent: Agent-created events (trade, harm, signal)
  * - puzzle: Puzzle game system events
  * - observation: Metric snapshots
+ *
+ * Payloads are validated against the versioned schemas in @simagents/shared on
+ * append, and upcast to the current version when read back.
  */
 
-import { eq, desc, and, gte, lte, sql, inArray } from 'drizzle-orm';
+import { eq, desc, and, gt, gte, lte, sql, inArray } from 'drizzle-orm';
+import { getEventPayloadVersion, upcastEventPayload, validateEventPayload } from '@simagents/shared';
 import { db, events, type Event, type NewEvent } from '../index';
 import { getEventCategory, type EventCategory } from '../../events/event-types';
+import { CONFIG } from '../../config';
+
+/**
+ * Check a payload against its event type's current schema (CONFIG.eventSchema).
+ * Throws in strict mode so a renamed field fails loudly in tests and dev.
+ */
+function checkEventPayload(eventType: string, payload: unknown): void {
+  const mode = CONFIG.eventSchema.validation;
+  if (mode === 'off') return;
+
+  const result = validateEventPayload(eventType, payload);
+  if (result.valid) return;
+
+  const message = `[Events] Invalid ${eventType} payload: ${result.issues.join('; ')}`;
+  if (mode === 'strict') {
+    throw new Error(message);
+  }
+  console.warn(message);
+}
+
+/**
+ * Bring a stored event's payload up to the current schema version
+ */
+export function upcastEvent(event: Event): Event {
+  const current = getEventPayloadVersion(event.eventType);
+  if (event.schemaVersion >= current) return event;
+
+  return {
+    ...event,
+    payload: upcastEventPayload(event.eventType, event.payload as Record<string, unknown>, event.schemaVersion),
+    schemaVersion: current,
+  };
+}
+
+function upcastEvents(rows: Event[]): Event[] {
+  return rows.map(upcastEvent);
+}
 
 /**
  * Append an event with atomic version numbering.
@@ -21,15 +62,18 @@ import { getEventCategory, type EventCategory } from '../../events/event-types';
  * Automatically determines the event category based on the event type.
  */
 export async function appendEvent(event: Omit<NewEvent, 'version'>): Promise<Event | null> {
+  checkEventPayload(event.eventType, event.payload ?? {});
+
   try {
     // Determine event category from registry
     const category = getEventCategory(event.eventType);
+    const schemaVersion = getEventPayloadVersion(event.eventType);
 
     // Use a raw SQL query to atomically get next version and insert
     // This prevents race conditions that could occur with a separate SELECT + INSERT
     const result = await db.execute(sql`
       INSERT INTO events (
-        event_type, tick, agent_id, payload, category, version
+        event_type, tick, agent_id, payload, category, schema_version, version
       )
       SELECT
         ${event.eventType},
@@ -37,6 +81,7 @@ export async function appendEvent(event: Omit<NewEvent, 'version'>): Promise<Eve
         ${event.agentId ?? null},
         ${JSON.stringify(event.payload ?? {})},
         ${category}::event_category,
+        ${schemaVersion},
         COALESCE((SELECT MAX(version) FROM events), 0) + 1
       RETURNING *
     `) as unknown as { rows: Record<string, unknown>[] };
@@ -53,6 +98,7 @@ export async function appendEvent(event: Omit<NewEvent, 'version'>): Promise<Eve
         payload: row.payload as Record<string, unknown>,
         category: row.category as EventCategory,
         version: Number(row.version),
+        schemaVersion: Number(row.schema_version),
         createdAt: new Date(row.created_at as string),
       };
     }
@@ -73,7 +119,18 @@ export async function getEventsByAgent(agentId: string, limit = 100): Promise<Ev
     .from(events)
     .where(eq(events.agentId, agentId))
     .orderBy(desc(events.id))
-    .limit(limit);
+    .limit(limit)
+    .then(upcastEvents);
+}
+
+export async function getAgentEventsSinceTick(agentId: string, afterTick: number, limit = 200): Promise<Event[]> {
+  return db
+    .select()
+    .from(events)
+    .where(and(eq(events.agentId, agentId), gt(events.tick, afterTick)))
+    .orderBy(events.tick, events.id)
+    .limit(limit)
+    .then(upcastEvents);
 }
 
 export async function getEventsByTick(tick: number): Promise<Event[]> {
@@ -81,7 +138,8 @@ export async function getEventsByTick(tick: number): Promise<Event[]> {
     .select()
     .from(events)
     .where(eq(events.tick, tick))
-    .orderBy(events.id);
+    .orderBy(events.id)
+    .then(upcastEvents);
 }
 
 export async function getEventsByTickRange(fromTick: number, toTick: number): Promise<Event[]> {
@@ -89,7 +147,8 @@ export async function getEventsByTickRange(fromTick: number, toTick: number): Pr
     .select()
     .from(events)
     .where(and(gte(events.tick, fromTick), lte(events.tick, toTick)))
-    .orderBy(events.tick, events.id);
+    .orderBy(events.tick, events.id)
+    .then(upcastEvents);
 }
 
 export async function getEventsByType(eventType: string, limit = 100): Promise<Event[]> {
@@ -98,7 +157,8 @@ export async function getEventsByType(eventType: string, limit = 100): Promise<E
     .from(events)
     .where(eq(events.eventType, eventType))
     .orderBy(desc(events.id))
-    .limit(limit);
+    .limit(limit)
+    .then(upcastEvents);
 }
 
 export async function getRecentSignals(tick: number): Promise<Event[]> {
@@ -109,7 +169,8 @@ export async function getRecentSignals(tick: number): Promise<Event[]> {
     .where(and(
       eq(events.eventType, 'agent_signaled'),
       gte(events.tick, tick - 1)
-    ));
+    ))
+    .then(upcastEvents);
 }
 
 export async function getRecentEvents(limit = 50): Promise<Event[]> {
@@ -117,7 +178,8 @@ export async function getRecentEvents(limit = 50): Promise<Event[]> {
     .select()
     .from(events)
     .orderBy(desc(events.id))
-    .limit(limit);
+    .limit(limit)
+    .then(upcastEvents);
 }
 
 export async function getEventCount(): Promise<number> {
@@ -150,7 +212,8 @@ export async function getInfrastructureEvents(tick: number): Promise<Event[]> {
       eq(events.tick, tick),
       eq(events.category, 'infrastructure')
     ))
-    .orderBy(events.id);
+    .orderBy(events.id)
+    .then(upcastEvents);
 }
 
 /**
@@ -166,7 +229,8 @@ export async function getEmergentEvents(tick: number): Promise<Event[]> {
       eq(events.tick, tick),
       eq(events.category, 'emergent')
     ))
-    .orderBy(events.id);
+    .orderBy(events.id)
+    .then(upcastEvents);
 }
 
 /**
@@ -180,7 +244,8 @@ export async function getPuzzleEvents(tick: number): Promise<Event[]> {
       eq(events.tick, tick),
       eq(events.category, 'puzzle')
     ))
-    .orderBy(events.id);
+    .orderBy(events.id)
+    .then(upcastEvents);
 }
 
 /**
@@ -199,7 +264,8 @@ export async function getEventsByCategoryRange(
       gte(events.tick, fromTick),
       lte(events.tick, toTick)
     ))
-    .orderBy(events.tick, events.id);
+    .orderBy(events.tick, events.id)
+    .then(upcastEvents);
 }
 
 /**
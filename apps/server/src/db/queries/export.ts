@@ -0,0 +1,82 @@
+/**
+ * Export Queries
+ *
+ * Batched reads for bulk data export (services/data-export.ts). Rows are
+ * paged by (tick, id) keyset instead of OFFSET so every batch is an index
+ * range scan, however far into the run the export is.
+ */
+
+import { and, asc, eq, gte, inArray, isNull, lte, notInArray, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../index';
+import {
+  events,
+  ledger,
+  agentTickStates,
+  llmMetrics,
+} from '../schema';
+
+export interface ExportTickRange {
+  fromTick: number;
+  toTick: number;
+}
+
+interface KeysetSource {
+  table: PgTable;
+  tick: PgColumn;
+  id: PgColumn;
+  tenantId: PgColumn;
+}
+
+const SOURCES = {
+  events: { table: events, tick: events.tick, id: events.id, tenantId: events.tenantId },
+  ledger: { table: ledger, tick: ledger.tick, id: ledger.id, tenantId: ledger.tenantId },
+  agentTickStates: { table: agentTickStates, tick: agentTickStates.tick, id: agentTickStates.id, tenantId: agentTickStates.tenantId },
+  llmMetrics: { table: llmMetrics, tick: llmMetrics.tick, id: llmMetrics.id, tenantId: llmMetrics.tenantId },
+} satisfies Record<string, KeysetSource>;
+
+export type ExportSource = keyof typeof SOURCES;
+
+/**
+ * Read rows of a source in a tick range, batch by batch, oldest first
+ */
+export async function* readExportBatches(
+  source: ExportSource,
+  range: ExportTickRange,
+  options: { batchSize?: number; tenantId?: string | null; where?: SQL } = {}
+): AsyncGenerator<Record<string, unknown>[]> {
+  const { table, tick, id, tenantId } = SOURCES[source] as KeysetSource;
+  const batchSize = options.batchSize ?? 5000;
+  const scope = options.tenantId ? eq(tenantId, options.tenantId) : isNull(tenantId);
+
+  let after: { tick: unknown; id: unknown } | null = null;
+  while (true) {
+    const batch: Record<string, unknown>[] = await db
+      .select()
+      .from(table)
+      .where(and(
+        scope,
+        gte(tick, range.fromTick),
+        lte(tick, range.toTick),
+        options.where,
+        after ? sql`(${tick}, ${id}) > (${after.tick}, ${after.id})` : undefined
+      ))
+      .orderBy(asc(tick), asc(id))
+      .limit(batchSize);
+
+    if (batch.length === 0) return;
+    yield batch;
+    if (batch.length < batchSize) return;
+
+    const last = batch[batch.length - 1];
+    after = { tick: last.tick, id: last.id };
+  }
+}
+
+/**
+ * Filter events to the given event types, or (exclude) to every other type
+ */
+export function eventTypeFilter(eventTypes: string[], exclude = false): SQL | undefined {
+  if (eventTypes.length === 0) return exclude ? undefined : sql`false`;
+  return exclude ? notInArray(events.eventType, eventTypes) : inArray(events.eventType, eventTypes);
+}
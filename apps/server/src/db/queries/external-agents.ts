@@ -10,6 +10,7 @@ import { db, externalAgents, agents, apiUsage } from '../index';
 import { generateApiKey, hashApiKey } from '../../middleware/auth';
 import type { ExternalAgent, NewExternalAgent, Agent } from '../schema';
 import { randomBelow, randomColor } from '../../utils/random';
+import { provisionAgentSigningKey } from '../../services/agent-key-service';
 
 // =============================================================================
 // Registration
@@ -61,6 +62,9 @@ export async function registerExternalAgent(
 
   const agent = agentResult[0];
 
+  // Give the agent its credential signing key
+  await provisionAgentSigningKey(agent.id);
+
   // Generate API key
   const apiKey = generateApiKey();
   const apiKeyHash = hashApiKey(apiKey);
@@ -0,0 +1,93 @@
+/**
+ * Fiscal Queries
+ *
+ * The public treasury and fiscal policy of each world (public_treasuries).
+ * A world's treasury is created with the CONFIG.fiscal defaults the first
+ * time it is needed. Its balance changes only through the ledger
+ * (transferWithTreasury).
+ */
+
+import { eq, isNull } from 'drizzle-orm';
+import { db } from '../index';
+import { publicTreasuries, type PublicTreasury } from '../schema';
+import { CONFIG } from '../../config';
+
+export type PublicWorkFunding = 'mint' | 'treasury';
+export type FiscalPolicySource = 'config' | 'governance' | 'scenario';
+
+export interface FiscalPolicy {
+  transactionTaxRate: number;
+  wealthTaxRate: number;
+  wealthTaxThreshold: number;
+  publicWorkFunding: PublicWorkFunding;
+  redistributionShare: number;
+}
+
+function treasuryOf(tenantId: string | null) {
+  return tenantId ? eq(publicTreasuries.tenantId, tenantId) : isNull(publicTreasuries.tenantId);
+}
+
+/**
+ * Get a world's treasury, creating it with the configured policy if needed
+ */
+export async function getTreasury(tenantId: string | null): Promise<PublicTreasury> {
+  const [existing] = await db.select().from(publicTreasuries).where(treasuryOf(tenantId));
+  if (existing) return existing;
+
+  const defaults = CONFIG.fiscal;
+  const [created] = await db
+    .insert(publicTreasuries)
+    .values({
+      tenantId,
+      transactionTaxRate: defaults.transactionTaxRate,
+      wealthTaxRate: defaults.wealthTaxRate,
+      wealthTaxThreshold: defaults.wealthTaxThreshold,
+      publicWorkFunding: defaults.publicWorkFunding,
+      redistributionShare: defaults.redistributionShare,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (created) return created;
+
+  // Created concurrently by another caller
+  const [treasury] = await db.select().from(publicTreasuries).where(treasuryOf(tenantId));
+  return treasury;
+}
+
+/**
+ * Get every world's treasury
+ */
+export async function getAllTreasuries(): Promise<PublicTreasury[]> {
+  return db.select().from(publicTreasuries);
+}
+
+/**
+ * Change part of a world's fiscal policy
+ */
+export async function updateFiscalPolicy(
+  tenantId: string | null,
+  policy: Partial<FiscalPolicy>,
+  source: FiscalPolicySource,
+  tick: number
+): Promise<PublicTreasury> {
+  const treasury = await getTreasury(tenantId);
+  const [updated] = await db
+    .update(publicTreasuries)
+    .set({ ...policy, policySource: source, policyUpdatedAtTick: tick, updatedAt: new Date() })
+    .where(eq(publicTreasuries.id, treasury.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * The policy fields of a treasury
+ */
+export function toFiscalPolicy(treasury: PublicTreasury): FiscalPolicy {
+  return {
+    transactionTaxRate: treasury.transactionTaxRate,
+    wealthTaxRate: treasury.wealthTaxRate,
+    wealthTaxThreshold: treasury.wealthTaxThreshold,
+    publicWorkFunding: treasury.publicWorkFunding as PublicWorkFunding,
+    redistributionShare: treasury.redistributionShare,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Governance Queries
+ *
+ * Proposals, votes and claim banishments (propose / vote / tally).
+ * Everything is kept after tallying for governance analytics.
+ */
+
+import { eq, and, asc, desc, inArray, isNull, or, gt, sql } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  proposals,
+  proposalVotes,
+  claimBanishments,
+  type Proposal,
+  type NewProposal,
+  type ProposalVote,
+  type NewProposalVote,
+  type ClaimBanishment,
+  type NewClaimBanishment,
+} from '../schema';
+
+export type ProposalScope = 'org' | 'claim' | 'world';
+export type ProposalOutcome = 'tax' | 'banish' | 'shelter_price' | 'fiscal_policy' | 'resolution';
+export type ProposalStatus = 'open' | 'passed' | 'rejected' | 'no_quorum';
+export type VoteChoice = 'yes' | 'no' | 'abstain';
+export type VoteWeighting = 'equal' | 'stake';
+
+export interface TallyRecord {
+  status: Exclude<ProposalStatus, 'open'>;
+  talliedAtTick: number;
+  talliedBy: string;
+  electorateSize: number;
+  yesWeight: number;
+  noWeight: number;
+  abstainWeight: number;
+}
+
+export interface ListProposalsOptions {
+  tenantId?: string;
+  status?: ProposalStatus;
+  scopeType?: ProposalScope;
+  limit: number;
+}
+
+// =============================================================================
+// Proposals
+// =============================================================================
+
+export async function createProposal(proposal: NewProposal): Promise<Proposal> {
+  const [created] = await db.insert(proposals).values(proposal).returning();
+  return created;
+}
+
+export async function getProposalById(id: string): Promise<Proposal | undefined> {
+  const [proposal] = await db.select().from(proposals).where(eq(proposals.id, id));
+  return proposal;
+}
+
+/**
+ * Open proposals of a world, closing soonest first
+ */
+export async function getOpenProposals(tenantId: string | null): Promise<Proposal[]> {
+  return db
+    .select()
+    .from(proposals)
+    .where(
+      and(
+        tenantId ? eq(proposals.tenantId, tenantId) : isNull(proposals.tenantId),
+        eq(proposals.status, 'open')
+      )
+    )
+    .orderBy(asc(proposals.closesAtTick));
+}
+
+export async function countOpenProposalsByAgent(agentId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(proposals)
+    .where(and(eq(proposals.proposerId, agentId), eq(proposals.status, 'open')));
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Proposal log, newest first
+ */
+export async function listProposals(options: ListProposalsOptions): Promise<Proposal[]> {
+  return db
+    .select()
+    .from(proposals)
+    .where(
+      and(
+        options.tenantId ? eq(proposals.tenantId, options.tenantId) : undefined,
+        options.status ? eq(proposals.status, options.status) : undefined,
+        options.scopeType ? eq(proposals.scopeType, options.scopeType) : undefined
+      )
+    )
+    .orderBy(desc(proposals.createdAtTick))
+    .limit(options.limit);
+}
+
+/**
+ * Store the tally of an open proposal
+ *
+ * Returns false if the proposal was already tallied.
+ */
+export async function recordTally(proposalId: string, tally: TallyRecord): Promise<boolean> {
+  const updated = await db
+    .update(proposals)
+    .set(tally)
+    .where(and(eq(proposals.id, proposalId), eq(proposals.status, 'open')))
+    .returning({ id: proposals.id });
+  return updated.length > 0;
+}
+
+/**
+ * Store whether a passed proposal's outcome could be applied
+ */
+export async function recordOutcome(proposalId: string, outcomeApplied: boolean, outcomeNote: string | null): Promise<void> {
+  await db.update(proposals).set({ outcomeApplied, outcomeNote }).where(eq(proposals.id, proposalId));
+}
+
+// =============================================================================
+// Votes
+// =============================================================================
+
+/**
+ * Cast or change a vote (one per agent per proposal)
+ */
+export async function castVote(vote: NewProposalVote): Promise<ProposalVote> {
+  const [stored] = await db
+    .insert(proposalVotes)
+    .values(vote)
+    .onConflictDoUpdate({
+      target: [proposalVotes.proposalId, proposalVotes.voterId],
+      set: { choice: vote.choice, weight: vote.weight, castAtTick: vote.castAtTick },
+    })
+    .returning();
+  return stored;
+}
+
+export async function getVote(proposalId: string, voterId: string): Promise<ProposalVote | undefined> {
+  const [vote] = await db
+    .select()
+    .from(proposalVotes)
+    .where(and(eq(proposalVotes.proposalId, proposalId), eq(proposalVotes.voterId, voterId)))
+    .limit(1);
+  return vote;
+}
+
+export async function getVotesForProposal(proposalId: string): Promise<ProposalVote[]> {
+  return db
+    .select()
+    .from(proposalVotes)
+    .where(eq(proposalVotes.proposalId, proposalId))
+    .orderBy(asc(proposalVotes.castAtTick));
+}
+
+/**
+ * Votes of one agent on the given proposals
+ */
+export async function getVotesByVoter(voterId: string, proposalIds: string[]): Promise<ProposalVote[]> {
+  if (proposalIds.length === 0) return [];
+  return db
+    .select()
+    .from(proposalVotes)
+    .where(and(eq(proposalVotes.voterId, voterId), inArray(proposalVotes.proposalId, proposalIds)));
+}
+
+// =============================================================================
+// Claim banishments
+// =============================================================================
+
+export async function createBanishment(banishment: NewClaimBanishment): Promise<ClaimBanishment> {
+  const [created] = await db.insert(claimBanishments).values(banishment).returning();
+  return created;
+}
+
+/**
+ * Banishments of an agent still in force at a tick
+ */
+export async function getActiveBanishments(agentId: string, tick: number): Promise<ClaimBanishment[]> {
+  return db
+    .select()
+    .from(claimBanishments)
+    .where(
+      and(
+        eq(claimBanishments.agentId, agentId),
+        or(isNull(claimBanishments.expiresAtTick), gt(claimBanishments.expiresAtTick, tick))
+      )
+    );
+}
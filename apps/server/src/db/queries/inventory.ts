@@ -124,6 +124,20 @@ export async function updateInventoryQuantity(
   }
 }
 
+/**
+ * Replace the properties of an inventory item (e.g. tool durability)
+ */
+export async function setInventoryItemProperties(
+  agentId: string,
+  itemType: string,
+  properties: Record<string, unknown>
+): Promise<void> {
+  await db
+    .update(inventory)
+    .set({ properties })
+    .where(and(eq(inventory.agentId, agentId), eq(inventory.itemType, itemType)));
+}
+
 /**
  * Delete all inventory items (for world reset)
  */
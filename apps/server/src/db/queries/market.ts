@@ -0,0 +1,157 @@
+/**
+ * Market Order Queries
+ *
+ * CRUD operations for the market_orders table (per-shelter limit order books).
+ * Matching and settlement live in simulation/market.ts.
+ */
+
+import { eq, and, lt, asc, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  marketOrders,
+  type MarketOrder,
+  type NewMarketOrder,
+} from '../schema';
+
+export type MarketOrderSide = 'bid' | 'ask';
+export type MarketOrderStatus = 'open' | 'filled' | 'cancelled' | 'expired';
+
+/** Open orders always rest at a venue (they are cancelled before it is removed) */
+export type OpenMarketOrder = MarketOrder & { shelterId: string };
+
+export interface ShelterQuote {
+  shelterId: string;
+  itemType: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+  bidQuantity: number;
+  askQuantity: number;
+}
+
+/**
+ * Create a new market order
+ */
+export async function createMarketOrder(order: NewMarketOrder): Promise<MarketOrder> {
+  const [created] = await db.insert(marketOrders).values(order).returning();
+  return created;
+}
+
+/**
+ * Get market order by ID
+ */
+export async function getMarketOrderById(id: string): Promise<MarketOrder | undefined> {
+  const [order] = await db.select().from(marketOrders).where(eq(marketOrders.id, id));
+  return order;
+}
+
+/**
+ * Get an agent's open orders (oldest first)
+ */
+export async function getOpenOrdersForAgent(agentId: string): Promise<OpenMarketOrder[]> {
+  const rows = await db
+    .select()
+    .from(marketOrders)
+    .where(and(eq(marketOrders.agentId, agentId), eq(marketOrders.status, 'open'), isNotNull(marketOrders.shelterId)))
+    .orderBy(asc(marketOrders.createdAtTick));
+  return rows as OpenMarketOrder[];
+}
+
+/**
+ * Get every open order (all books), oldest first
+ */
+export async function getOpenOrders(): Promise<OpenMarketOrder[]> {
+  const rows = await db
+    .select()
+    .from(marketOrders)
+    .where(and(eq(marketOrders.status, 'open'), isNotNull(marketOrders.shelterId)))
+    .orderBy(asc(marketOrders.createdAtTick), asc(marketOrders.createdAt));
+  return rows as OpenMarketOrder[];
+}
+
+/**
+ * Best bid/ask and resting quantity per item type at the given shelters
+ */
+export async function getQuotesForShelters(shelterIds: string[]): Promise<ShelterQuote[]> {
+  if (shelterIds.length === 0) return [];
+
+  const remaining = sql<number>`${marketOrders.quantity} - ${marketOrders.filledQuantity}`;
+  const rows = await db
+    .select({
+      shelterId: marketOrders.shelterId,
+      itemType: marketOrders.itemType,
+      bestBid: sql<number | null>`MAX(CASE WHEN ${marketOrders.side} = 'bid' THEN ${marketOrders.price} END)`,
+      bestAsk: sql<number | null>`MIN(CASE WHEN ${marketOrders.side} = 'ask' THEN ${marketOrders.price} END)`,
+      bidQuantity: sql<number>`COALESCE(SUM(CASE WHEN ${marketOrders.side} = 'bid' THEN ${remaining} END), 0)`,
+      askQuantity: sql<number>`COALESCE(SUM(CASE WHEN ${marketOrders.side} = 'ask' THEN ${remaining} END), 0)`,
+    })
+    .from(marketOrders)
+    .where(and(inArray(marketOrders.shelterId, shelterIds), eq(marketOrders.status, 'open')))
+    .groupBy(marketOrders.shelterId, marketOrders.itemType);
+
+  return rows.map((row) => ({
+    shelterId: row.shelterId as string, // Filtered by shelter above
+    itemType: row.itemType,
+    bestBid: row.bestBid === null ? null : Number(row.bestBid),
+    bestAsk: row.bestAsk === null ? null : Number(row.bestAsk),
+    bidQuantity: Number(row.bidQuantity),
+    askQuantity: Number(row.askQuantity),
+  }));
+}
+
+/**
+ * Record a (partial) fill - closes the order once fully filled
+ */
+export async function recordOrderFill(order: MarketOrder, quantity: number, tick: number): Promise<void> {
+  const filledQuantity = order.filledQuantity + quantity;
+  const filled = filledQuantity >= order.quantity;
+  await db
+    .update(marketOrders)
+    .set({
+      filledQuantity,
+      status: filled ? 'filled' : 'open',
+      closedAtTick: filled ? tick : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(marketOrders.id, order.id));
+}
+
+/**
+ * Close an open order (cancelled by its owner or by settlement)
+ *
+ * Only transitions from 'open' - returns the closed order, or undefined if it
+ * was no longer open.
+ */
+export async function closeMarketOrder(
+  id: string,
+  status: Extract<MarketOrderStatus, 'cancelled' | 'expired'>,
+  tick: number
+): Promise<MarketOrder | undefined> {
+  const [closed] = await db
+    .update(marketOrders)
+    .set({ status, closedAtTick: tick, updatedAt: new Date() })
+    .where(and(eq(marketOrders.id, id), eq(marketOrders.status, 'open')))
+    .returning();
+  return closed;
+}
+
+/**
+ * Cancel every open order at a shelter (its venue is being removed)
+ */
+export async function cancelShelterOrders(shelterId: string, tick: number): Promise<MarketOrder[]> {
+  return db
+    .update(marketOrders)
+    .set({ status: 'cancelled', closedAtTick: tick, updatedAt: new Date() })
+    .where(and(eq(marketOrders.shelterId, shelterId), eq(marketOrders.status, 'open')))
+    .returning();
+}
+
+/**
+ * Expire open orders past their expiry tick
+ */
+export async function expireMarketOrders(currentTick: number): Promise<MarketOrder[]> {
+  return db
+    .update(marketOrders)
+    .set({ status: 'expired', closedAtTick: currentTick, updatedAt: new Date() })
+    .where(and(eq(marketOrders.status, 'open'), lt(marketOrders.expiresAtTick, currentTick)))
+    .returning();
+}
@@ -14,6 +14,7 @@ import { eq, and, desc, sql, gte, lte, or } from 'drizzle-orm';
 import { db, agentMemories, agentRelationships } from '../index';
 import type { AgentMemory, NewAgentMemory, AgentRelationship } from '../schema';
 import { CONFIG } from '../../config';
+import { getMemoryEmbedder, isSemanticMemoryEnabled } from '../../llm/memory-embeddings';
 
 // =============================================================================
 // Memory Types
@@ -31,6 +32,8 @@ export interface CreateMemoryInput {
   x?: number;
   y?: number;
   tick: number;
+  /** Episodes a reflection summarises */
+  sourceMemoryIds?: string[];
 }
 
 // =============================================================================
@@ -52,12 +55,44 @@ export async function storeMemory(input: CreateMemoryInput): Promise<AgentMemory
     x: input.x,
     y: input.y,
     tick: input.tick,
+    sourceMemoryIds: input.sourceMemoryIds ?? [],
   };
 
+  if (isSemanticMemoryEnabled()) {
+    // Stored without a vector if the embedder fails; retrieval skips it
+    const embedder = getMemoryEmbedder();
+    try {
+      [memory.embedding] = await embedder.embed([input.content]);
+      memory.embeddingModel = embedder.name;
+    } catch (error) {
+      console.warn('[Memories] Failed to embed memory:', error instanceof Error ? error.message : error);
+    }
+  }
+
   const [inserted] = await db.insert(agentMemories).values(memory).returning();
   return inserted;
 }
 
+/**
+ * Get an agent's memories embedded by the given embedder, most recent first
+ * (candidates for semantic retrieval)
+ */
+export async function getEmbeddedMemories(
+  agentId: string,
+  embeddingModel: string,
+  limit: number = CONFIG.memory.maxPerAgent
+): Promise<AgentMemory[]> {
+  return db
+    .select()
+    .from(agentMemories)
+    .where(and(
+      eq(agentMemories.agentId, agentId),
+      eq(agentMemories.embeddingModel, embeddingModel)
+    ))
+    .orderBy(desc(agentMemories.tick))
+    .limit(limit);
+}
+
 /**
  * Get recent memories for an agent, ordered by recency and importance
  */
@@ -115,6 +150,69 @@ export async function getMemoriesByType(
     .limit(limit);
 }
 
+/**
+ * Get episodic (non-reflection) memories after a tick that no reflection
+ * has summarised yet, most recent first
+ */
+export async function getUnreflectedMemories(
+  agentId: string,
+  afterTick: number,
+  limit: number = CONFIG.memory.maxPerAgent
+): Promise<AgentMemory[]> {
+  return db
+    .select()
+    .from(agentMemories)
+    .where(
+      and(
+        eq(agentMemories.agentId, agentId),
+        sql`${agentMemories.type} <> 'reflection'`,
+        sql`${agentMemories.consolidatedInto} IS NULL`,
+        sql`${agentMemories.tick} > ${afterTick}`
+      )
+    )
+    .orderBy(desc(agentMemories.tick), desc(agentMemories.importance))
+    .limit(limit);
+}
+
+/**
+ * Get the tick of an agent's latest reflection, or null if it has none
+ */
+export async function getLastReflectionTick(agentId: string): Promise<number | null> {
+  const [latest] = await db
+    .select({ tick: agentMemories.tick })
+    .from(agentMemories)
+    .where(and(eq(agentMemories.agentId, agentId), eq(agentMemories.type, 'reflection')))
+    .orderBy(desc(agentMemories.tick))
+    .limit(1);
+  return latest?.tick ?? null;
+}
+
+/**
+ * Link episodes to the reflection that summarises them and decay their
+ * importance, so they are pruned before the reflection
+ */
+export async function consolidateMemories(
+  memoryIds: string[],
+  reflectionId: string,
+  importanceFactor: number
+): Promise<number> {
+  if (memoryIds.length === 0) return 0;
+
+  const updated = await db
+    .update(agentMemories)
+    .set({
+      consolidatedInto: reflectionId,
+      importance: sql`GREATEST(1, ${agentMemories.importance} * ${importanceFactor})`,
+    })
+    .where(and(
+      sql`${agentMemories.id} = ANY(${memoryIds})`,
+      sql`${agentMemories.consolidatedInto} IS NULL`
+    ))
+    .returning({ id: agentMemories.id });
+
+  return updated.length;
+}
+
 /**
  * Delete old memories to keep within limit
  */
@@ -0,0 +1,94 @@
+/**
+ * Agent Message Queries
+ *
+ * CRUD operations for the agent_messages table (send_message).
+ * Messages are immutable; a conversation is every message sharing a conversation_id.
+ */
+
+import { eq, and, or, gte, desc, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  agentMessages,
+  type AgentMessage,
+  type NewAgentMessage,
+} from '../schema';
+
+/**
+ * Store a sent message
+ */
+export async function createMessage(message: NewAgentMessage): Promise<AgentMessage> {
+  const [created] = await db.insert(agentMessages).values(message).returning();
+  return created;
+}
+
+/**
+ * Get message by ID
+ */
+export async function getMessageById(id: string): Promise<AgentMessage | undefined> {
+  const [message] = await db.select().from(agentMessages).where(eq(agentMessages.id, id));
+  return message;
+}
+
+/**
+ * Messages received by an agent since a tick, newest first
+ */
+export async function getInbox(
+  recipientId: string,
+  sinceTick: number,
+  limit: number
+): Promise<AgentMessage[]> {
+  return db
+    .select()
+    .from(agentMessages)
+    .where(and(eq(agentMessages.recipientId, recipientId), gte(agentMessages.sentAtTick, sinceTick)))
+    .orderBy(desc(agentMessages.sentAtTick), desc(agentMessages.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Check whether an agent sent or received a message of a conversation
+ */
+export async function isConversationParticipant(conversationId: string, agentId: string): Promise<boolean> {
+  const [message] = await db
+    .select({ id: agentMessages.id })
+    .from(agentMessages)
+    .where(
+      and(
+        eq(agentMessages.conversationId, conversationId),
+        or(eq(agentMessages.senderId, agentId), eq(agentMessages.recipientId, agentId))
+      )
+    )
+    .limit(1);
+  return !!message;
+}
+
+/**
+ * List messages for analysis, newest first
+ *
+ * Filters combine: a conversation, an agent (as sender or recipient) and a
+ * world (tenantId null = main world).
+ */
+export async function listMessages(filter: {
+  tenantId?: string | null;
+  conversationId?: string;
+  agentId?: string;
+  limit: number;
+}): Promise<AgentMessage[]> {
+  const conditions: SQL[] = [];
+  if (filter.tenantId !== undefined) {
+    conditions.push(filter.tenantId ? eq(agentMessages.tenantId, filter.tenantId) : isNull(agentMessages.tenantId));
+  }
+  if (filter.conversationId) {
+    conditions.push(eq(agentMessages.conversationId, filter.conversationId));
+  }
+  if (filter.agentId) {
+    conditions.push(or(eq(agentMessages.senderId, filter.agentId), eq(agentMessages.recipientId, filter.agentId))!);
+  }
+
+  return db
+    .select()
+    .from(agentMessages)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(agentMessages.sentAtTick), desc(agentMessages.createdAt))
+    .limit(filter.limit);
+}
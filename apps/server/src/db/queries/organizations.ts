@@ -0,0 +1,226 @@
+/**
+ * Organisation Queries
+ *
+ * CRUD operations for organizations and organization_members
+ * (found_org / join_org / leave_org / expel_member).
+ * Treasury balances change only through the ledger (transferWithOrg).
+ */
+
+import { eq, and, asc, desc, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  organizations,
+  organizationMembers,
+  type Organization,
+  type NewOrganization,
+  type OrganizationMember,
+} from '../schema';
+
+export type OrganizationRole = 'founder' | 'member';
+export type MembershipEndStatus = 'left' | 'expelled' | 'died';
+
+export interface MembershipWithOrg {
+  membership: OrganizationMember;
+  org: Organization;
+}
+
+/**
+ * Create an organisation with its founder as the first member
+ */
+export async function createOrganization(org: NewOrganization & { founderId: string }): Promise<Organization> {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(organizations).values(org).returning();
+    await tx.insert(organizationMembers).values({
+      tenantId: created.tenantId,
+      orgId: created.id,
+      agentId: org.founderId,
+      role: 'founder',
+      joinedAtTick: created.foundedAtTick,
+    });
+    return created;
+  });
+}
+
+/**
+ * Get organisation by ID
+ */
+export async function getOrganizationById(id: string): Promise<Organization | undefined> {
+  const [org] = await db.select().from(organizations).where(eq(organizations.id, id));
+  return org;
+}
+
+/**
+ * Find an active organisation of a world by name (case-insensitive)
+ */
+export async function getActiveOrganizationByName(
+  tenantId: string | null,
+  name: string
+): Promise<Organization | undefined> {
+  const [org] = await db
+    .select()
+    .from(organizations)
+    .where(
+      and(
+        tenantId ? eq(organizations.tenantId, tenantId) : isNull(organizations.tenantId),
+        eq(organizations.status, 'active'),
+        sql`lower(${organizations.name}) = lower(${name})`
+      )
+    )
+    .limit(1);
+  return org;
+}
+
+/**
+ * List organisations of a world, newest first
+ */
+export async function listOrganizations(
+  tenantId: string | null,
+  includeDissolved = false
+): Promise<Organization[]> {
+  return db
+    .select()
+    .from(organizations)
+    .where(
+      and(
+        tenantId ? eq(organizations.tenantId, tenantId) : isNull(organizations.tenantId),
+        includeDissolved ? undefined : eq(organizations.status, 'active')
+      )
+    )
+    .orderBy(desc(organizations.foundedAtTick));
+}
+
+/**
+ * Active membership of an agent in an organisation
+ */
+export async function getActiveMembership(
+  orgId: string,
+  agentId: string
+): Promise<OrganizationMember | undefined> {
+  const [membership] = await db
+    .select()
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.orgId, orgId),
+        eq(organizationMembers.agentId, agentId),
+        eq(organizationMembers.status, 'active')
+      )
+    )
+    .limit(1);
+  return membership;
+}
+
+/**
+ * Active members of an organisation, longest-standing first
+ */
+export async function getActiveMembers(orgId: string): Promise<OrganizationMember[]> {
+  return db
+    .select()
+    .from(organizationMembers)
+    .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.status, 'active')))
+    .orderBy(asc(organizationMembers.joinedAtTick), asc(organizationMembers.createdAt));
+}
+
+/**
+ * Every membership of the given organisations (history included)
+ */
+export async function getMembersForOrganizations(orgIds: string[]): Promise<OrganizationMember[]> {
+  if (orgIds.length === 0) return [];
+  return db
+    .select()
+    .from(organizationMembers)
+    .where(inArray(organizationMembers.orgId, orgIds))
+    .orderBy(asc(organizationMembers.joinedAtTick));
+}
+
+/**
+ * Active memberships of agents, with their organisations
+ */
+export async function getActiveMembershipsForAgents(agentIds: string[]): Promise<MembershipWithOrg[]> {
+  if (agentIds.length === 0) return [];
+  const rows = await db
+    .select({ membership: organizationMembers, org: organizations })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.orgId, organizations.id))
+    .where(
+      and(
+        inArray(organizationMembers.agentId, agentIds),
+        eq(organizationMembers.status, 'active'),
+        eq(organizations.status, 'active')
+      )
+    );
+  return rows;
+}
+
+/**
+ * Count active members per organisation
+ */
+export async function countActiveMembers(orgIds: string[]): Promise<Map<string, number>> {
+  if (orgIds.length === 0) return new Map();
+  const rows = await db
+    .select({ orgId: organizationMembers.orgId, count: sql<number>`count(*)::int` })
+    .from(organizationMembers)
+    .where(and(inArray(organizationMembers.orgId, orgIds), eq(organizationMembers.status, 'active')))
+    .groupBy(organizationMembers.orgId);
+  return new Map(rows.map((r) => [r.orgId, Number(r.count)]));
+}
+
+/**
+ * Add a member
+ */
+export async function addMember(
+  org: Pick<Organization, 'id' | 'tenantId'>,
+  agentId: string,
+  tick: number,
+  role: OrganizationRole = 'member'
+): Promise<OrganizationMember> {
+  const [membership] = await db
+    .insert(organizationMembers)
+    .values({ tenantId: org.tenantId, orgId: org.id, agentId, role, joinedAtTick: tick })
+    .returning();
+  return membership;
+}
+
+/**
+ * End an active membership (left, expelled or died)
+ *
+ * Returns false if the membership was no longer active.
+ */
+export async function endMembership(
+  membershipId: string,
+  status: MembershipEndStatus,
+  tick: number
+): Promise<boolean> {
+  const updated = await db
+    .update(organizationMembers)
+    .set({ status, leftAtTick: tick })
+    .where(and(eq(organizationMembers.id, membershipId), eq(organizationMembers.status, 'active')))
+    .returning({ id: organizationMembers.id });
+  return updated.length > 0;
+}
+
+/**
+ * Hand the founder role to another active member
+ */
+export async function transferFounder(orgId: string, membership: OrganizationMember): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(organizationMembers)
+      .set({ role: 'founder' })
+      .where(eq(organizationMembers.id, membership.id));
+    await tx
+      .update(organizations)
+      .set({ founderId: membership.agentId, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId));
+  });
+}
+
+/**
+ * Dissolve an organisation (its last member left)
+ */
+export async function dissolveOrganization(orgId: string, tick: number): Promise<void> {
+  await db
+    .update(organizations)
+    .set({ status: 'dissolved', founderId: null, dissolvedAtTick: tick, updatedAt: new Date() })
+    .where(eq(organizations.id, orgId));
+}
@@ -0,0 +1,91 @@
+/**
+ * Agent Plan Queries
+ *
+ * CRUD operations for the agent_plans table.
+ * An agent has at most one active plan; setting a new goal abandons the old one.
+ */
+
+import { eq, and, inArray, lt } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  agentPlans,
+  type AgentPlan,
+  type AgentPlanStep,
+  type NewAgentPlan,
+} from '../schema';
+
+export type AgentPlanStatus = 'active' | 'completed' | 'abandoned';
+
+/**
+ * Create a new plan
+ */
+export async function createAgentPlan(plan: NewAgentPlan): Promise<AgentPlan> {
+  const [created] = await db.insert(agentPlans).values(plan).returning();
+  return created;
+}
+
+/**
+ * Get the active plan for an agent
+ */
+export async function getActivePlan(agentId: string): Promise<AgentPlan | undefined> {
+  const [plan] = await db
+    .select()
+    .from(agentPlans)
+    .where(and(eq(agentPlans.agentId, agentId), eq(agentPlans.status, 'active')));
+  return plan;
+}
+
+/**
+ * Get the active plans of several agents
+ */
+export async function getActivePlansForAgents(agentIds: string[]): Promise<AgentPlan[]> {
+  if (agentIds.length === 0) return [];
+  return db
+    .select()
+    .from(agentPlans)
+    .where(and(inArray(agentPlans.agentId, agentIds), eq(agentPlans.status, 'active')));
+}
+
+/**
+ * Get active plans whose deadline is before a tick
+ */
+export async function getOverduePlans(tick: number): Promise<AgentPlan[]> {
+  return db
+    .select()
+    .from(agentPlans)
+    .where(and(eq(agentPlans.status, 'active'), lt(agentPlans.deadlineTick, tick)));
+}
+
+/**
+ * Save step progress of an active plan
+ */
+export async function updatePlanSteps(
+  id: string,
+  steps: AgentPlanStep[],
+  currentStep: number,
+  tick: number
+): Promise<void> {
+  await db
+    .update(agentPlans)
+    .set({ steps, currentStep, updatedAtTick: tick, updatedAt: new Date() })
+    .where(and(eq(agentPlans.id, id), eq(agentPlans.status, 'active')));
+}
+
+/**
+ * End an active plan
+ *
+ * Only transitions from 'active' - returns false if the plan had already ended.
+ */
+export async function endAgentPlan(
+  id: string,
+  status: Exclude<AgentPlanStatus, 'active'>,
+  endedAtTick: number,
+  endReason: string | null = null
+): Promise<boolean> {
+  const updated = await db
+    .update(agentPlans)
+    .set({ status, endReason, endedAtTick, updatedAtTick: endedAtTick, updatedAt: new Date() })
+    .where(and(eq(agentPlans.id, id), eq(agentPlans.status, 'active')))
+    .returning({ id: agentPlans.id });
+  return updated.length > 0;
+}
@@ -480,6 +480,16 @@ export async function getAgentActivePuzzleParticipations(
     );
 }
 
+/**
+ * Get the IDs of teams an agent is an active member of
+ */
+export async function getActiveTeamIdsForAgent(agentId: string): Promise<string[]> {
+  const participations = await getAgentActivePuzzleParticipations(agentId);
+  return participations
+    .map((p) => p.teamId)
+    .filter((teamId): teamId is string => teamId !== null);
+}
+
 /**
  * Check if agent is participating in any active puzzle
  */
@@ -2,12 +2,21 @@
  * Replay Queries (Phase 3: Time Travel)
  *
  * Provides queries for reconstructing world state at any tick.
- * Uses event sourcing to replay agent actions and state changes.
+ * Agent state comes from the agent_tick_states projection written by the tick
+ * engine (db/queries/agent-tick-states.ts); ticks recorded before the
+ * projection existed are reconstructed from events.
  */
 
 import { eq, sql, desc, and, gte, lte, asc } from 'drizzle-orm';
+import type { EventPayload } from '@simagents/shared';
 import { db, events, agents, resourceSpawns, shelters, worldState } from '../index';
-import type { Agent, ResourceSpawn, Shelter, Event } from '../schema';
+import type { Agent, AgentTickState, ResourceSpawn, Shelter, Event } from '../schema';
+import { upcastEvent } from './events';
+import {
+  getAgentTickStatesAt,
+  getAgentTickStatesBetween,
+  getAgentTickStatesForAgent,
+} from './agent-tick-states';
 
 // =============================================================================
 // Tick Range
@@ -111,11 +120,38 @@ export interface AgentStateAtTick {
   tick: number;
 }
 
+function toAgentStateAtTick(row: AgentTickState, tick: number): AgentStateAtTick {
+  return {
+    id: row.agentId,
+    llmType: row.llmType,
+    x: row.x,
+    y: row.y,
+    hunger: row.hunger,
+    energy: row.energy,
+    health: row.health,
+    balance: row.balance,
+    state: row.state,
+    tick,
+  };
+}
+
 /**
  * Get all agents' state at a specific tick
- * Reconstructs state by finding the last state change before or at the tick
  */
 export async function getAgentStatesAtTick(tick: number): Promise<AgentStateAtTick[]> {
+  const rows = await getAgentTickStatesAt(tick);
+  if (rows.length > 0) {
+    return rows.map((row) => toAgentStateAtTick(row, tick));
+  }
+
+  return reconstructAgentStatesAtTick(tick);
+}
+
+/**
+ * Agents' state at a tick recorded before the agent_tick_states projection
+ * Reconstructs state by finding the last state change before or at the tick
+ */
+async function reconstructAgentStatesAtTick(tick: number): Promise<AgentStateAtTick[]> {
   // Get all agents (including dead ones for historical replay)
   const allAgents = await db.select().from(agents);
 
@@ -168,13 +204,11 @@ export async function getAgentStatesAtTick(tick: number): Promise<AgentStateAtTi
     }
 
     if (lastNeedsEvent[0]) {
-      const payload = lastNeedsEvent[0].payload as Record<string, unknown>;
-      // Handle both direct values and nested newState format
-      const newState = payload.newState as Record<string, unknown> | undefined;
-      hunger = Number(newState?.hunger ?? payload.hunger ?? hunger);
-      energy = Number(newState?.energy ?? payload.energy ?? energy);
-      health = Number(newState?.health ?? payload.health ?? health);
-      balance = Number(newState?.balance ?? payload.balance ?? balance);
+      const { newState } = upcastEvent(lastNeedsEvent[0]).payload as EventPayload<'needs_updated'>;
+      hunger = Number(newState.hunger ?? hunger);
+      energy = Number(newState.energy ?? energy);
+      health = Number(newState.health ?? health);
+      balance = Number(newState.balance ?? balance);
     }
 
     // Only include agents that existed at this tick (check if they were born before)
@@ -204,6 +238,11 @@ export async function getAgentHistory(
   fromTick: number,
   toTick: number
 ): Promise<AgentStateAtTick[]> {
+  const rows = await getAgentTickStatesForAgent(agentId, fromTick, toTick);
+  if (rows.length > 0) {
+    return rows.map((row) => toAgentStateAtTick(row, row.tick));
+  }
+
   // Get all events for this agent in the range
   const agentEvents = await db
     .select()
@@ -250,12 +289,11 @@ export async function getAgentHistory(
       currentState.x = Number(params?.toX ?? payload.toX ?? currentState.x);
       currentState.y = Number(params?.toY ?? payload.toY ?? currentState.y);
     } else if (event.eventType === 'needs_updated') {
-      // Handle both direct values and nested newState format
-      const newState = payload.newState as Record<string, unknown> | undefined;
-      currentState.hunger = Number(newState?.hunger ?? payload.hunger ?? currentState.hunger);
-      currentState.energy = Number(newState?.energy ?? payload.energy ?? currentState.energy);
-      currentState.health = Number(newState?.health ?? payload.health ?? currentState.health);
-      currentState.balance = Number(newState?.balance ?? payload.balance ?? currentState.balance);
+      const { newState } = upcastEvent(event).payload as EventPayload<'needs_updated'>;
+      currentState.hunger = Number(newState.hunger ?? currentState.hunger);
+      currentState.energy = Number(newState.energy ?? currentState.energy);
+      currentState.health = Number(newState.health ?? currentState.health);
+      currentState.balance = Number(newState.balance ?? currentState.balance);
     }
 
     // Add state snapshot for this tick if not already added
@@ -309,6 +347,105 @@ export async function getWorldSnapshotAtTick(tick: number): Promise<WorldSnapsho
   };
 }
 
+// =============================================================================
+// Tick Range Window (scrubber prefetch)
+// =============================================================================
+
+/** Widest window served by one range request */
+export const REPLAY_RANGE_MAX_TICKS = 200;
+
+export interface ReplayRangeTick {
+  tick: number;
+  agents: AgentStateAtTick[];
+  events: ReplayEvent[];
+}
+
+export interface ReplayRange {
+  fromTick: number;
+  toTick: number;
+  ticks: ReplayRangeTick[];
+  resourceSpawns: ResourceSpawn[];
+  shelters: Shelter[];
+}
+
+/**
+ * Agent states for every tick of a window (pure)
+ *
+ * `base` is the state at fromTick, `rows` the projection rows written after
+ * it; each tick carries forward the latest row of every agent.
+ */
+export function foldAgentTickStates(
+  base: AgentTickState[],
+  rows: AgentTickState[],
+  fromTick: number,
+  toTick: number
+): Array<{ tick: number; agents: AgentStateAtTick[] }> {
+  const latest = new Map(base.map((row) => [row.agentId, row]));
+  const ticks: Array<{ tick: number; agents: AgentStateAtTick[] }> = [];
+
+  let next = 0;
+  for (let tick = fromTick; tick <= toTick; tick++) {
+    while (next < rows.length && rows[next].tick <= tick) {
+      latest.set(rows[next].agentId, rows[next]);
+      next++;
+    }
+    ticks.push({
+      tick,
+      agents: [...latest.values()].map((row) => toAgentStateAtTick(row, tick)),
+    });
+  }
+
+  return ticks;
+}
+
+/**
+ * World snapshots for a window of ticks: two projection queries plus one
+ * events query for the whole window
+ */
+export async function getReplayRange(
+  fromTick: number,
+  toTick: number,
+  eventLimit = 5000
+): Promise<ReplayRange> {
+  const [base, rows, rangeEvents, spawns, allShelters] = await Promise.all([
+    getAgentTickStatesAt(fromTick),
+    getAgentTickStatesBetween(fromTick, toTick),
+    getEventsInRange(fromTick, toTick, eventLimit),
+    db.select().from(resourceSpawns),
+    db.select().from(shelters),
+  ]);
+
+  let agentTicks: Array<{ tick: number; agents: AgentStateAtTick[] }>;
+  if (base.length > 0 || rows.length > 0) {
+    agentTicks = foldAgentTickStates(base, rows, fromTick, toTick);
+  } else {
+    // Recorded before the projection existed
+    agentTicks = [];
+    for (let tick = fromTick; tick <= toTick; tick++) {
+      agentTicks.push({ tick, agents: await reconstructAgentStatesAtTick(tick) });
+    }
+  }
+
+  const eventsByTick = new Map<number, ReplayEvent[]>();
+  for (const event of rangeEvents) {
+    const tickEvents = eventsByTick.get(event.tick) ?? [];
+    tickEvents.push(event);
+    eventsByTick.set(event.tick, tickEvents);
+  }
+
+  return {
+    fromTick,
+    toTick,
+    ticks: agentTicks.map(({ tick, agents: tickAgents }) => ({
+      tick,
+      agents: tickAgents,
+      events: eventsByTick.get(tick) ?? [],
+    })),
+    resourceSpawns: spawns,
+    shelters: allShelters,
+  };
+}
+
 // =============================================================================
 // Tick Summary
 // =============================================================================
@@ -418,9 +555,11 @@ export async function getAgentTimeline(
         description = `Consumed ${payload.itemType}, restored ${payload.restored}`;
         success = true;
         break;
-      case 'needs_updated':
-        description = `Needs: H${payload.hunger} E${payload.energy} HP${payload.health}`;
+      case 'needs_updated': {
+        const { newState } = upcastEvent(event).payload as EventPayload<'needs_updated'>;
+        description = `Needs: H${newState.hunger} E${newState.energy} HP${newState.health}`;
         break;
+      }
       case 'action_failed':
         action = String(payload.action);
         description = `Failed: ${payload.error}`;
@@ -0,0 +1,149 @@
+/**
+ * Structure Queries
+ *
+ * CRUD operations for the structures table.
+ * A cell holds at most one active (under construction or complete) structure.
+ */
+
+import { eq, and, inArray, gte, lte, sql } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  structures,
+  type Structure,
+  type NewStructure,
+} from '../schema';
+
+export type StructureStatus = 'under_construction' | 'complete' | 'collapsed' | 'demolished';
+
+export const ACTIVE_STRUCTURE_STATUSES: StructureStatus[] = ['under_construction', 'complete'];
+
+/**
+ * Create a new structure (construction site)
+ */
+export async function createStructure(structure: NewStructure): Promise<Structure> {
+  const [created] = await db.insert(structures).values(structure).returning();
+  return created;
+}
+
+/**
+ * Get a structure by ID
+ */
+export async function getStructureById(id: string): Promise<Structure | undefined> {
+  const [structure] = await db.select().from(structures).where(eq(structures.id, id));
+  return structure;
+}
+
+/**
+ * Get the active structure at a position
+ */
+export async function getActiveStructureAtPosition(x: number, y: number): Promise<Structure | undefined> {
+  const [structure] = await db
+    .select()
+    .from(structures)
+    .where(and(
+      eq(structures.x, x),
+      eq(structures.y, y),
+      inArray(structures.status, ACTIVE_STRUCTURE_STATUSES)
+    ))
+    .limit(1);
+  return structure;
+}
+
+/**
+ * Get all active structures
+ */
+export async function getActiveStructures(): Promise<Structure[]> {
+  return db.select().from(structures).where(inArray(structures.status, ACTIVE_STRUCTURE_STATUSES));
+}
+
+/**
+ * Get active structures within a square radius of a position
+ */
+export async function getActiveStructuresInArea(x: number, y: number, radius: number): Promise<Structure[]> {
+  return db
+    .select()
+    .from(structures)
+    .where(and(
+      inArray(structures.status, ACTIVE_STRUCTURE_STATUSES),
+      gte(structures.x, x - radius),
+      lte(structures.x, x + radius),
+      gte(structures.y, y - radius),
+      lte(structures.y, y + radius)
+    ));
+}
+
+/**
+ * Record a tick of construction or repair work
+ */
+export async function recordStructureWork(
+  id: string,
+  work: {
+    buildProgress: number;
+    condition: number;
+    materialsUsed: Record<string, number>;
+    tick: number;
+  }
+): Promise<void> {
+  await db
+    .update(structures)
+    .set({
+      buildProgress: work.buildProgress,
+      condition: work.condition,
+      materialsUsed: work.materialsUsed,
+      lastMaintainedTick: work.tick,
+      updatedAt: new Date(),
+    })
+    .where(eq(structures.id, id));
+}
+
+/**
+ * Mark a construction site as complete
+ */
+export async function completeStructure(id: string, tick: number, shelterId: string | null = null): Promise<void> {
+  await db
+    .update(structures)
+    .set({ status: 'complete', completedAtTick: tick, shelterId, updatedAt: new Date() })
+    .where(and(eq(structures.id, id), eq(structures.status, 'under_construction')));
+}
+
+/**
+ * End an active structure
+ *
+ * Only transitions from an active status - returns false if it had already ended.
+ */
+export async function endStructure(
+  id: string,
+  status: Extract<StructureStatus, 'collapsed' | 'demolished'>,
+  endedAtTick: number
+): Promise<boolean> {
+  const updated = await db
+    .update(structures)
+    .set({ status, endedAtTick, condition: status === 'collapsed' ? 0 : undefined, updatedAt: new Date() })
+    .where(and(eq(structures.id, id), inArray(structures.status, ACTIVE_STRUCTURE_STATUSES)))
+    .returning({ id: structures.id });
+  return updated.length > 0;
+}
+
+/**
+ * Apply one tick of decay to every active structure of a type
+ *
+ * Returns structures whose condition reached 0 (still active - the caller collapses them).
+ */
+export async function decayStructures(structureType: string, amount: number): Promise<Structure[]> {
+  await db
+    .update(structures)
+    .set({ condition: sql`GREATEST(${structures.condition} - ${amount}, 0)` })
+    .where(and(
+      eq(structures.structureType, structureType),
+      inArray(structures.status, ACTIVE_STRUCTURE_STATUSES)
+    ));
+
+  return db
+    .select()
+    .from(structures)
+    .where(and(
+      eq(structures.structureType, structureType),
+      inArray(structures.status, ACTIVE_STRUCTURE_STATUSES),
+      lte(structures.condition, 0)
+    ));
+}
@@ -80,6 +80,7 @@ export interface CreateTenantInput {
   maxAgents?: number;
   maxTicksPerDay?: number;
   maxEventsStored?: number;
+  eventRetentionTicks?: number | null;
   tickIntervalMs?: number;
   gridWidth?: number;
   gridHeight?: number;
@@ -108,6 +109,7 @@ export async function createTenant(input: CreateTenantInput): Promise<CreateTena
       maxAgents: input.maxAgents ?? 20,
       maxTicksPerDay: input.maxTicksPerDay ?? 1000,
       maxEventsStored: input.maxEventsStored ?? 100000,
+      eventRetentionTicks: input.eventRetentionTicks ?? null,
       tickIntervalMs: input.tickIntervalMs ?? 60000,
       gridWidth: input.gridWidth ?? 100,
       gridHeight: input.gridHeight ?? 100,
@@ -192,7 +194,7 @@ export async function updateTenant(
   id: string,
   updates: Partial<Pick<Tenant,
     'name' | 'description' | 'ownerEmail' | 'maxAgents' | 'maxTicksPerDay' |
-    'maxEventsStored' | 'tickIntervalMs' | 'gridWidth' | 'gridHeight' |
+    'maxEventsStored' | 'eventRetentionTicks' | 'tickIntervalMs' | 'gridWidth' | 'gridHeight' |
     'isActive' | 'isPaused'
   >>
 ): Promise<Tenant | null> {
@@ -434,6 +436,7 @@ export interface TenantStats {
     maxAgents: number;
     maxTicksPerDay: number;
     maxEventsStored: number;
+    eventRetentionTicks: number | null;
   };
   createdAt: Date;
   lastActiveAt: Date | null;
@@ -466,6 +469,7 @@ export async function getTenantStats(tenantId: string): Promise<TenantStats | nu
       maxAgents: tenant.maxAgents,
       maxTicksPerDay: tenant.maxTicksPerDay,
       maxEventsStored: tenant.maxEventsStored,
+      eventRetentionTicks: tenant.eventRetentionTicks,
     },
     createdAt: tenant.createdAt,
     lastActiveAt: tenant.lastActiveAt,
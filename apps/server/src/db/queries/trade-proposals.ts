@@ -0,0 +1,137 @@
+/**
+ * Trade Proposal Queries
+ *
+ * CRUD operations for the trade_proposals table.
+ * Supports the two-phase trade lifecycle (propose → accept/reject/counter).
+ */
+
+import { eq, and, or, lt, gte, desc, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  tradeProposals,
+  type TradeProposal,
+  type NewTradeProposal,
+} from '../schema';
+
+export type TradeProposalStatus = 'open' | 'accepted' | 'rejected' | 'countered' | 'expired';
+
+function tenantScope(tenantId: string | null): SQL {
+  return tenantId ? eq(tradeProposals.tenantId, tenantId) : isNull(tradeProposals.tenantId);
+}
+
+/**
+ * Create a new trade proposal
+ */
+export async function createTradeProposal(proposal: NewTradeProposal): Promise<TradeProposal> {
+  const [created] = await db.insert(tradeProposals).values(proposal).returning();
+  return created;
+}
+
+/**
+ * Get trade proposal by ID
+ */
+export async function getTradeProposalById(id: string): Promise<TradeProposal | undefined> {
+  const [proposal] = await db.select().from(tradeProposals).where(eq(tradeProposals.id, id));
+  return proposal;
+}
+
+/**
+ * Get open proposals addressed to an agent (not yet expired)
+ */
+export async function getIncomingTradeProposals(
+  targetId: string,
+  currentTick: number
+): Promise<TradeProposal[]> {
+  return db
+    .select()
+    .from(tradeProposals)
+    .where(
+      and(
+        eq(tradeProposals.targetId, targetId),
+        eq(tradeProposals.status, 'open'),
+        gte(tradeProposals.expiresAtTick, currentTick)
+      )
+    )
+    .orderBy(desc(tradeProposals.createdAtTick));
+}
+
+/**
+ * Get open proposals made by an agent (not yet expired)
+ */
+export async function getOutgoingTradeProposals(
+  proposerId: string,
+  currentTick: number
+): Promise<TradeProposal[]> {
+  return db
+    .select()
+    .from(tradeProposals)
+    .where(
+      and(
+        eq(tradeProposals.proposerId, proposerId),
+        eq(tradeProposals.status, 'open'),
+        gte(tradeProposals.expiresAtTick, currentTick)
+      )
+    )
+    .orderBy(desc(tradeProposals.createdAtTick));
+}
+
+/**
+ * Count open proposals between two agents (either direction)
+ */
+export async function countOpenTradeProposalsBetween(
+  agentA: string,
+  agentB: string
+): Promise<number> {
+  const rows = await db
+    .select({ id: tradeProposals.id })
+    .from(tradeProposals)
+    .where(
+      and(
+        eq(tradeProposals.status, 'open'),
+        or(
+          and(eq(tradeProposals.proposerId, agentA), eq(tradeProposals.targetId, agentB)),
+          and(eq(tradeProposals.proposerId, agentB), eq(tradeProposals.targetId, agentA))
+        )
+      )
+    );
+  return rows.length;
+}
+
+/**
+ * Update trade proposal status
+ *
+ * Only transitions from 'open' - returns false if the proposal was already resolved
+ * (prevents a proposal from being accepted and countered in the same tick).
+ */
+export async function updateTradeProposalStatus(
+  id: string,
+  status: TradeProposalStatus,
+  resolvedAtTick: number
+): Promise<boolean> {
+  const updated = await db
+    .update(tradeProposals)
+    .set({ status, resolvedAtTick, updatedAt: new Date() })
+    .where(and(eq(tradeProposals.id, id), eq(tradeProposals.status, 'open')))
+    .returning({ id: tradeProposals.id });
+  return updated.length > 0;
+}
+
+/**
+ * Expire a world's open proposals past their expiration tick
+ */
+export async function expireTradeProposals(
+  currentTick: number,
+  tenantId: string | null = null
+): Promise<TradeProposal[]> {
+  return db
+    .update(tradeProposals)
+    .set({ status: 'expired', resolvedAtTick: currentTick, updatedAt: new Date() })
+    .where(
+      and(
+        tenantScope(tenantId),
+        eq(tradeProposals.status, 'open'),
+        lt(tradeProposals.expiresAtTick, currentTick)
+      )
+    )
+    .returning();
+}
@@ -0,0 +1,88 @@
+/**
+ * Travel Plan Queries
+ *
+ * CRUD operations for the travel_plans table.
+ * An agent has at most one active plan; starting a new journey ends the old one.
+ */
+
+import { eq, and } from 'drizzle-orm';
+import { db } from '../index';
+import {
+  travelPlans,
+  type TravelPlan,
+  type NewTravelPlan,
+} from '../schema';
+
+export type TravelPlanStatus = 'active' | 'arrived' | 'interrupted' | 'cancelled';
+
+/**
+ * Create a new travel plan
+ */
+export async function createTravelPlan(plan: NewTravelPlan): Promise<TravelPlan> {
+  const [created] = await db.insert(travelPlans).values(plan).returning();
+  return created;
+}
+
+/**
+ * Get the active travel plan for an agent
+ */
+export async function getActiveTravelPlan(agentId: string): Promise<TravelPlan | undefined> {
+  const [plan] = await db
+    .select()
+    .from(travelPlans)
+    .where(and(eq(travelPlans.agentId, agentId), eq(travelPlans.status, 'active')));
+  return plan;
+}
+
+/**
+ * Get all active travel plans
+ */
+export async function getActiveTravelPlans(): Promise<TravelPlan[]> {
+  return db.select().from(travelPlans).where(eq(travelPlans.status, 'active'));
+}
+
+/**
+ * Record a completed step of an active plan
+ */
+export async function recordTravelStep(
+  id: string,
+  tick: number,
+  healthAfterStep: number,
+  stepsTaken: number
+): Promise<void> {
+  await db
+    .update(travelPlans)
+    .set({ lastStepTick: tick, healthAtLastStep: healthAfterStep, stepsTaken, updatedAt: new Date() })
+    .where(and(eq(travelPlans.id, id), eq(travelPlans.status, 'active')));
+}
+
+/**
+ * End an active travel plan
+ *
+ * Only transitions from 'active' - returns false if the plan had already ended.
+ */
+export async function endTravelPlan(
+  id: string,
+  status: Exclude<TravelPlanStatus, 'active'>,
+  endedAtTick: number,
+  endReason: string | null = null
+): Promise<boolean> {
+  const updated = await db
+    .update(travelPlans)
+    .set({ status, endReason, endedAtTick, updatedAt: new Date() })
+    .where(and(eq(travelPlans.id, id), eq(travelPlans.status, 'active')))
+    .returning({ id: travelPlans.id });
+  return updated.length > 0;
+}
+
+/**
+ * Cancel any active plan for an agent (a new journey replaces the old one)
+ */
+export async function cancelActiveTravelPlans(agentId: string, tick: number, reason: string): Promise<number> {
+  const cancelled = await db
+    .update(travelPlans)
+    .set({ status: 'cancelled', endReason: reason, endedAtTick: tick, updatedAt: new Date() })
+    .where(and(eq(travelPlans.agentId, agentId), eq(travelPlans.status, 'active')))
+    .returning({ id: travelPlans.id });
+  return cancelled.length;
+}
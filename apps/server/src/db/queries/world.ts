@@ -7,11 +7,16 @@ import {
   db,
   worldState,
   shelters,
+  structures,
+  containers,
   resourceSpawns,
   agents,
   events,
   inventory,
   ledger,
+  worldCheckpoints,
+  agentTickStates,
+  eventArchives,
   type WorldState,
   type Shelter,
   type NewShelter,
@@ -84,6 +89,15 @@ export async function createShelter(shelter: NewShelter): Promise<Shelter> {
   return result[0];
 }
 
+export async function setShelterPriceMultiplier(id: string, priceMultiplier: number): Promise<Shelter | undefined> {
+  const result = await db.update(shelters).set({ priceMultiplier }).where(eq(shelters.id, id)).returning();
+  return result[0];
+}
+
+export async function deleteShelter(id: string): Promise<void> {
+  await db.delete(shelters).where(eq(shelters.id, id));
+}
+
 // Backwards compatibility aliases
 export const getAllLocations = getAllShelters;
 export const getLocationById = getShelterById;
@@ -187,9 +201,14 @@ export async function resetTickCounter(): Promise<void> {
  */
 export async function resetWorldData(): Promise<void> {
   // Delete in order to respect foreign key constraints
+  await db.delete(worldCheckpoints);
+  await db.delete(agentTickStates);
   await db.delete(inventory);
   await db.delete(events);
+  await db.delete(eventArchives);
   await db.delete(ledger);
+  await db.delete(containers);
+  await db.delete(structures);
   await db.delete(agents);
   await db.delete(shelters);
   await db.delete(resourceSpawns);
@@ -56,6 +56,8 @@ export const tenants = pgTable('tenants', {
   maxAgents: integer('max_agents').notNull().default(20),
   maxTicksPerDay: integer('max_ticks_per_day').notNull().default(1000),
   maxEventsStored: integer('max_events_stored').notNull().default(100000),
+  /** Ticks of full event detail kept before archival (null = CONFIG.eventRetention default) */
+  eventRetentionTicks: integer('event_retention_ticks'),
 
   // Simulation settings
   tickIntervalMs: integer('tick_interval_ms').notNull().default(60000),
@@ -195,6 +197,9 @@ export const shelters = pgTable('shelters', {
   // Owner (optional - emergent property rights)
   ownerAgentId: uuid('owner_agent_id').references(() => agents.id),
 
+  // Price multiplier on purchases here (set by governance proposals)
+  priceMultiplier: real('price_multiplier').notNull().default(1),
+
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
   index('shelters_tenant_idx').on(table.tenantId),
@@ -277,11 +282,15 @@ export const ledger = pgTable('ledger', {
   fromAgentId: uuid('from_agent_id').references(() => agents.id),
   toAgentId: uuid('to_agent_id').references(() => agents.id),
 
+  // Organisation treasury accounts (set instead of the agent on that side)
+  fromOrgId: uuid('from_org_id').references(() => organizations.id),
+  toOrgId: uuid('to_org_id').references(() => organizations.id),
+
   // Amount
   amount: real('amount').notNull(),
 
   // Classification
-  category: varchar('category', { length: 20 }).notNull(), // salary, purchase, consumption, tax, welfare
+  category: varchar('category', { length: 20 }).notNull(), // salary, purchase, market, org, transaction_tax, wealth_tax, ...
   description: text('description'),
 
   // Metadata
@@ -292,6 +301,39 @@ export const ledger = pgTable('ledger', {
   index('ledger_from_idx').on(table.fromAgentId),
   index('ledger_to_idx').on(table.toAgentId),
   index('ledger_tx_idx').on(table.txId),
+  index('ledger_category_idx').on(table.category),
+]);
+
+// =============================================================================
+// PUBLIC TREASURY (fiscal policy)
+// =============================================================================
+
+export const publicTreasuries = pgTable('public_treasuries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy (one treasury per world; null = default world)
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // CITY held by the treasury (movements are in the ledger with a null account)
+  balance: real('balance').notNull().default(0),
+
+  // Revenue rules
+  transactionTaxRate: real('transaction_tax_rate').notNull().default(0), // Share of payments between agents
+  wealthTaxRate: real('wealth_tax_rate').notNull().default(0), // Share of wealth above the threshold, per interval
+  wealthTaxThreshold: real('wealth_tax_threshold').notNull().default(100),
+
+  // Spending rules
+  publicWorkFunding: varchar('public_work_funding', { length: 20 }).notNull().default('mint'), // mint, treasury
+  redistributionShare: real('redistribution_share').notNull().default(0), // Share of the treasury paid out per interval
+
+  // Who last changed the policy
+  policySource: varchar('policy_source', { length: 20 }).notNull().default('config'), // config, governance, scenario
+  policyUpdatedAtTick: bigint('policy_updated_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('public_treasuries_tenant_idx').on(table.tenantId),
 ]);
 
 // =============================================================================
@@ -381,6 +423,467 @@ export const employments = pgTable('employments', {
   index('employments_status_idx').on(table.status),
 ]);
 
+// =============================================================================
+// TRADE PROPOSALS (Two-phase trades with counter-offers)
+// =============================================================================
+
+export const tradeProposals = pgTable('trade_proposals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Parties
+  proposerId: uuid('proposer_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  targetId: uuid('target_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+
+  // Terms (from the proposer's point of view)
+  offeringItemType: varchar('offering_item_type', { length: 50 }).notNull(),
+  offeringQuantity: integer('offering_quantity').notNull(),
+  requestingItemType: varchar('requesting_item_type', { length: 50 }).notNull(),
+  requestingQuantity: integer('requesting_quantity').notNull(),
+
+  // Negotiation chain (set when this proposal is a counter-offer)
+  parentProposalId: uuid('parent_proposal_id'),
+
+  // Status
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open, accepted, rejected, countered, expired
+
+  // Position where proposal was made
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+
+  // Timing
+  createdAtTick: bigint('created_at_tick', { mode: 'number' }).notNull(),
+  expiresAtTick: bigint('expires_at_tick', { mode: 'number' }).notNull(),
+  resolvedAtTick: bigint('resolved_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('trade_proposals_tenant_idx').on(table.tenantId),
+  index('trade_proposals_proposer_idx').on(table.proposerId),
+  index('trade_proposals_target_idx').on(table.targetId),
+  index('trade_proposals_status_idx').on(table.status),
+  index('trade_proposals_expires_idx').on(table.expiresAtTick),
+]);
+
+// =============================================================================
+// MARKET ORDERS (per-shelter limit order books)
+// =============================================================================
+
+export const marketOrders = pgTable('market_orders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Book: one per shelter and item type (null once a closed order's venue is gone;
+  // open orders are cancelled before their venue is removed)
+  shelterId: uuid('shelter_id').references(() => shelters.id, { onDelete: 'set null' }),
+  itemType: varchar('item_type', { length: 50 }).notNull(),
+
+  // Order
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  side: varchar('side', { length: 4 }).notNull(), // bid (buy), ask (sell - items held in escrow)
+  price: integer('price').notNull(), // Limit price in CITY per unit
+  quantity: integer('quantity').notNull(),
+  filledQuantity: integer('filled_quantity').notNull().default(0),
+
+  // Status
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open, filled, cancelled, expired
+
+  // Timing
+  createdAtTick: bigint('created_at_tick', { mode: 'number' }).notNull(),
+  expiresAtTick: bigint('expires_at_tick', { mode: 'number' }).notNull(),
+  closedAtTick: bigint('closed_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('market_orders_tenant_idx').on(table.tenantId),
+  index('market_orders_book_idx').on(table.shelterId, table.itemType, table.status),
+  index('market_orders_agent_idx').on(table.agentId),
+  index('market_orders_expires_idx').on(table.expiresAtTick),
+]);
+
+// =============================================================================
+// AGENT MESSAGES (send_message, threaded by conversation)
+// =============================================================================
+
+export const agentMessages = pgTable('agent_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Thread (the first message's conversation id is new; replies inherit it)
+  conversationId: uuid('conversation_id').notNull(),
+  replyToId: uuid('reply_to_id'),
+
+  // Parties
+  senderId: uuid('sender_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  recipientId: uuid('recipient_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+
+  // Text as written, and as delivered (synthetic vocabulary applied when enabled)
+  content: text('content').notNull(),
+  deliveredContent: text('delivered_content').notNull(),
+  vocabulary: varchar('vocabulary', { length: 20 }).notNull().default('natural'), // natural, synthetic
+
+  // Reachability
+  channel: varchar('channel', { length: 20 }).notNull(), // nearby, known
+  distance: integer('distance').notNull(),
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+
+  sentAtTick: bigint('sent_at_tick', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('agent_messages_tenant_idx').on(table.tenantId),
+  index('agent_messages_conversation_idx').on(table.conversationId),
+  index('agent_messages_sender_idx').on(table.senderId),
+  index('agent_messages_recipient_tick_idx').on(table.recipientId, table.sentAtTick),
+]);
+
+// =============================================================================
+// ORGANISATIONS (alliances, guilds, firms - found_org / join_org)
+// =============================================================================
+
+export const organizations = pgTable('organizations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  name: varchar('name', { length: 50 }).notNull(),
+  founderId: uuid('founder_id').references(() => agents.id, { onDelete: 'set null' }), // Current founder (passes on when they leave)
+
+  // Treasury (CITY held by the organisation; movements are in the ledger)
+  treasury: real('treasury').notNull().default(0),
+
+  // Membership rules
+  entryFee: real('entry_fee').notNull().default(0), // Paid into the treasury on joining
+  minTrust: integer('min_trust'), // Founder's trust in the applicant (-100 to 100), null = anyone
+  maxMembers: integer('max_members'), // null = unlimited
+
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, dissolved
+  foundedAtTick: bigint('founded_at_tick', { mode: 'number' }).notNull(),
+  dissolvedAtTick: bigint('dissolved_at_tick', { mode: 'number' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('organizations_tenant_status_idx').on(table.tenantId, table.status),
+  index('organizations_founder_idx').on(table.founderId),
+]);
+
+export const organizationMembers = pgTable('organization_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  orgId: uuid('org_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 20 }).notNull().default('member'), // founder, member
+
+  // Membership history is kept: rows end as left or expelled
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, left, expelled, died
+  joinedAtTick: bigint('joined_at_tick', { mode: 'number' }).notNull(),
+  leftAtTick: bigint('left_at_tick', { mode: 'number' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('organization_members_tenant_idx').on(table.tenantId),
+  index('organization_members_org_status_idx').on(table.orgId, table.status),
+  index('organization_members_agent_status_idx').on(table.agentId, table.status),
+]);
+
+// =============================================================================
+// GOVERNANCE (propose / vote / tally)
+// =============================================================================
+
+/** Parameters of a proposal's binding outcome (which fields apply depends on outcomeType) */
+export interface ProposalOutcomeParams {
+  amount?: number; // tax: CITY levied from each member
+  targetAgentId?: string; // banish: agent removed from the org or claim area
+  shelterId?: string; // shelter_price: shelter whose prices change
+  priceMultiplier?: number; // shelter_price: new multiplier on base prices
+  fiscalPolicy?: { // fiscal_policy: changes to the world's public treasury policy
+    transactionTaxRate?: number;
+    wealthTaxRate?: number;
+    wealthTaxThreshold?: number;
+    publicWorkFunding?: 'mint' | 'treasury';
+    redistributionShare?: number;
+  };
+  text?: string; // resolution: non-binding statement
+}
+
+export const proposals = pgTable('proposals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  proposerId: uuid('proposer_id').references(() => agents.id, { onDelete: 'set null' }),
+  title: varchar('title', { length: 120 }).notNull(),
+
+  // Scope: who may vote
+  scopeType: varchar('scope_type', { length: 20 }).notNull(), // org, claim, world
+  scopeId: uuid('scope_id'), // Organisation or claim ID (null for world)
+  areaX: integer('area_x'), // Claim area centre (claim scope)
+  areaY: integer('area_y'),
+  areaRadius: integer('area_radius'),
+
+  // Binding outcome if passed
+  outcomeType: varchar('outcome_type', { length: 20 }).notNull(), // tax, banish, shelter_price, resolution
+  outcomeParams: jsonb('outcome_params').$type<ProposalOutcomeParams>().notNull().default({}),
+
+  // Decision rule
+  threshold: real('threshold').notNull().default(0.5), // Yes share of yes+no weight that must be exceeded
+  quorum: real('quorum').notNull().default(0), // Share of the electorate that must vote
+  weighting: varchar('weighting', { length: 20 }).notNull().default('equal'), // equal, stake
+
+  // Lifecycle
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open, passed, rejected, no_quorum
+  createdAtTick: bigint('created_at_tick', { mode: 'number' }).notNull(),
+  closesAtTick: bigint('closes_at_tick', { mode: 'number' }).notNull(),
+
+  // Tally results
+  talliedAtTick: bigint('tallied_at_tick', { mode: 'number' }),
+  talliedBy: uuid('tallied_by').references(() => agents.id, { onDelete: 'set null' }),
+  electorateSize: integer('electorate_size'),
+  yesWeight: real('yes_weight'),
+  noWeight: real('no_weight'),
+  abstainWeight: real('abstain_weight'),
+  outcomeApplied: boolean('outcome_applied'),
+  outcomeNote: text('outcome_note'),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('proposals_tenant_status_idx').on(table.tenantId, table.status),
+  index('proposals_scope_idx').on(table.scopeType, table.scopeId),
+  index('proposals_proposer_idx').on(table.proposerId),
+]);
+
+export const proposalVotes = pgTable('proposal_votes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  proposalId: uuid('proposal_id').notNull().references(() => proposals.id, { onDelete: 'cascade' }),
+  voterId: uuid('voter_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  choice: varchar('choice', { length: 10 }).notNull(), // yes, no, abstain
+  weight: real('weight').notNull().default(1), // 1, or the voter's balance under stake weighting
+  castAtTick: bigint('cast_at_tick', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('proposal_votes_proposal_voter_idx').on(table.proposalId, table.voterId),
+  index('proposal_votes_voter_idx').on(table.voterId),
+]);
+
+export const claimBanishments = pgTable('claim_banishments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  proposalId: uuid('proposal_id').references(() => proposals.id, { onDelete: 'set null' }),
+  claimId: uuid('claim_id'), // Claims can be pruned; the area is kept below
+
+  // Area the agent may not enter
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+  radius: integer('radius').notNull(),
+
+  startedAtTick: bigint('started_at_tick', { mode: 'number' }).notNull(),
+  expiresAtTick: bigint('expires_at_tick', { mode: 'number' }), // null = permanent
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('claim_banishments_agent_idx').on(table.agentId),
+  index('claim_banishments_tenant_idx').on(table.tenantId),
+]);
+
+// =============================================================================
+// TRAVEL PLANS (multi-tick travel_to journeys)
+// =============================================================================
+
+export const travelPlans = pgTable('travel_plans', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+
+  // Journey
+  fromX: integer('from_x').notNull(),
+  fromY: integer('from_y').notNull(),
+  toX: integer('to_x').notNull(),
+  toY: integer('to_y').notNull(),
+
+  // Status
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, arrived, interrupted, cancelled
+  endReason: varchar('end_reason', { length: 50 }), // e.g. critical_hunger, took_damage, path_blocked, timeout
+
+  // Progress (health snapshot detects damage taken between steps)
+  stepsTaken: integer('steps_taken').notNull().default(0),
+  healthAtLastStep: real('health_at_last_step').notNull(),
+
+  // Timing
+  startedAtTick: bigint('started_at_tick', { mode: 'number' }).notNull(),
+  lastStepTick: bigint('last_step_tick', { mode: 'number' }).notNull(),
+  endedAtTick: bigint('ended_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('travel_plans_tenant_idx').on(table.tenantId),
+  index('travel_plans_agent_idx').on(table.agentId),
+  index('travel_plans_status_idx').on(table.status),
+]);
+
+// =============================================================================
+// AGENT PLANS (goals with sub-steps, set_goal / update_plan)
+// =============================================================================
+
+/**
+ * One sub-step of a plan. Steps with an action are routine: the lizard brain
+ * runs them without an LLM call. The others are done when the agent says so.
+ */
+export interface AgentPlanStep {
+  description: string;
+  action?: string;
+  params?: Record<string, unknown>;
+  done: boolean;
+}
+
+export const agentPlans = pgTable('agent_plans', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+
+  // Intent
+  goal: text('goal').notNull(),
+  steps: jsonb('steps').$type<AgentPlanStep[]>().notNull().default([]),
+  currentStep: integer('current_step').notNull().default(0),
+
+  // Status
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, completed, abandoned
+  endReason: varchar('end_reason', { length: 200 }), // e.g. deadline_passed, replaced, or the agent's own reason
+
+  // Timing
+  deadlineTick: bigint('deadline_tick', { mode: 'number' }).notNull(),
+  createdAtTick: bigint('created_at_tick', { mode: 'number' }).notNull(),
+  updatedAtTick: bigint('updated_at_tick', { mode: 'number' }).notNull(),
+  endedAtTick: bigint('ended_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('agent_plans_tenant_idx').on(table.tenantId),
+  index('agent_plans_agent_idx').on(table.agentId),
+  index('agent_plans_status_idx').on(table.status),
+]);
+
+// =============================================================================
+// STRUCTURES (agent-built shelters, storage, market stalls, walls)
+// =============================================================================
+
+export const structures = pgTable('structures', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  structureType: varchar('structure_type', { length: 30 }).notNull(), // shelter, storage, market_stall, wall
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+
+  // Ownership (the agent who started construction; null once the owner is gone)
+  ownerAgentId: uuid('owner_agent_id').references(() => agents.id, { onDelete: 'set null' }),
+
+  // Lifecycle
+  status: varchar('status', { length: 20 }).notNull().default('under_construction'), // under_construction, complete, collapsed, demolished
+  buildProgress: integer('build_progress').notNull().default(0), // Ticks of work done
+  buildTicksRequired: integer('build_ticks_required').notNull(),
+  condition: real('condition').notNull().default(100), // 0-100, decays without maintenance
+  materialsUsed: jsonb('materials_used').$type<Record<string, number>>().notNull().default({}),
+
+  // Completed shelters get a shelters row so rest/buy/work keep working unchanged
+  shelterId: uuid('shelter_id').references(() => shelters.id, { onDelete: 'set null' }),
+
+  // Timing
+  startedAtTick: bigint('started_at_tick', { mode: 'number' }).notNull(),
+  completedAtTick: bigint('completed_at_tick', { mode: 'number' }),
+  lastMaintainedTick: bigint('last_maintained_tick', { mode: 'number' }).notNull(),
+  endedAtTick: bigint('ended_at_tick', { mode: 'number' }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('structures_tenant_idx').on(table.tenantId),
+  index('structures_position_idx').on(table.x, table.y),
+  index('structures_owner_idx').on(table.ownerAgentId),
+  index('structures_status_idx').on(table.status),
+]);
+
+// =============================================================================
+// CONTAINERS (shared storage with access control lists)
+// =============================================================================
+
+export const containers = pgTable('containers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Placement (a cell, optionally inside a shelter or storage structure)
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+  shelterId: uuid('shelter_id').references(() => shelters.id, { onDelete: 'set null' }),
+  structureId: uuid('structure_id').references(() => structures.id, { onDelete: 'set null' }),
+
+  // Owner defines the ACL (null once the owner is gone - the ACL stays as it was)
+  ownerAgentId: uuid('owner_agent_id').references(() => agents.id, { onDelete: 'set null' }),
+
+  capacity: integer('capacity').notNull(), // Max total items stored
+  createdAtTick: bigint('created_at_tick', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('containers_tenant_idx').on(table.tenantId),
+  index('containers_position_idx').on(table.x, table.y),
+  index('containers_owner_idx').on(table.ownerAgentId),
+]);
+
+export const containerItems = pgTable('container_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  containerId: uuid('container_id').notNull().references(() => containers.id, { onDelete: 'cascade' }),
+  itemType: varchar('item_type', { length: 50 }).notNull(),
+  quantity: integer('quantity').notNull().default(0),
+}, (table) => [
+  uniqueIndex('container_items_container_item_idx').on(table.containerId, table.itemType),
+]);
+
+export const containerAccess = pgTable('container_access', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  containerId: uuid('container_id').notNull().references(() => containers.id, { onDelete: 'cascade' }),
+
+  // Who: an agent, a team (puzzle team members), or holders of a credential
+  granteeType: varchar('grantee_type', { length: 20 }).notNull(), // agent, team, credential
+  granteeId: uuid('grantee_id'), // agent ID, team ID, or credential issuer (null = any issuer)
+  claimType: varchar('claim_type', { length: 50 }), // credential claim type (credential grants only)
+
+  permission: varchar('permission', { length: 20 }).notNull(), // deposit, withdraw (withdraw includes deposit)
+  grantedBy: uuid('granted_by').references(() => agents.id, { onDelete: 'set null' }),
+  grantedAtTick: bigint('granted_at_tick', { mode: 'number' }).notNull(),
+}, (table) => [
+  index('container_access_container_idx').on(table.containerId),
+]);
+
 // =============================================================================
 // EVENTS (Event Store - append-only)
 // =============================================================================
@@ -415,6 +918,9 @@ export const events = pgTable('events', {
   // Ordering
   version: bigint('version', { mode: 'number' }).notNull(),
 
+  /** Payload schema version (@simagents/shared EVENT_PAYLOAD_SCHEMAS) */
+  schemaVersion: integer('schema_version').notNull().default(1),
+
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
   index('events_tenant_idx').on(table.tenantId),
@@ -430,6 +936,51 @@ export const events = pgTable('events', {
   index('events_category_tick_idx').on(table.category, table.tick),
 ]);
 
+// =============================================================================
+// EVENT ARCHIVES (events moved out of the events table by retention)
+// =============================================================================
+
+export const eventArchives = pgTable('event_archives', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy: null = default/legacy world
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Archived tick range (inclusive) and gzipped NDJSON file holding the rows
+  fromTick: bigint('from_tick', { mode: 'number' }).notNull(),
+  toTick: bigint('to_tick', { mode: 'number' }).notNull(),
+  path: text('path').notNull(),
+  eventCount: integer('event_count').notNull(),
+  bytes: integer('bytes').notNull(),
+  reason: varchar('reason', { length: 20 }).notNull(), // 'retention' | 'max_events'
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('event_archives_tenant_tick_idx').on(table.tenantId, table.fromTick, table.toTick),
+]);
+
+// =============================================================================
+// EVENT TICK AGGREGATES (per-tick counts of archived infrastructure events)
+// =============================================================================
+
+export const eventTickAggregates = pgTable('event_tick_aggregates', {
+  id: bigint('id', { mode: 'number' }).primaryKey().generatedAlwaysAsIdentity(),
+
+  // Multi-tenancy: null = default/legacy world
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // Removed with its archive when the archive is rehydrated
+  archiveId: uuid('archive_id').notNull().references(() => eventArchives.id, { onDelete: 'cascade' }),
+
+  tick: bigint('tick', { mode: 'number' }).notNull(),
+  eventType: varchar('event_type', { length: 50 }).notNull(),
+  eventCount: integer('event_count').notNull(),
+  agentCount: integer('agent_count').notNull(),
+}, (table) => [
+  index('event_tick_aggregates_tenant_tick_idx').on(table.tenantId, table.tick),
+  index('event_tick_aggregates_archive_idx').on(table.archiveId),
+]);
+
 // =============================================================================
 // AGENT MEMORIES (Phase 1: Emergence Observation)
 // =============================================================================
@@ -461,6 +1012,15 @@ export const agentMemories = pgTable('agent_memories', {
   x: integer('x'),
   y: integer('y'),
 
+  // Semantic retrieval: content embedding and the embedder that produced it
+  embedding: real('embedding').array(),
+  embeddingModel: varchar('embedding_model', { length: 100 }),
+
+  // Reflection provenance: a reflection lists the episodes it summarises,
+  // and each summarised episode points at its reflection
+  sourceMemoryIds: jsonb('source_memory_ids').notNull().default([]),
+  consolidatedInto: uuid('consolidated_into'),
+
   // Timing
   tick: bigint('tick', { mode: 'number' }).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -470,6 +1030,7 @@ export const agentMemories = pgTable('agent_memories', {
   index('agent_memories_tick_idx').on(table.tick),
   index('agent_memories_type_idx').on(table.type),
   index('agent_memories_importance_idx').on(table.importance),
+  index('agent_memories_consolidated_into_idx').on(table.consolidatedInto),
 ]);
 
 // =============================================================================
@@ -633,6 +1194,54 @@ export const snapshots = pgTable('snapshots', {
   uniqueIndex('snapshots_agent_version_idx').on(table.agentId, table.eventVersion),
 ]);
 
+// =============================================================================
+// AGENT TICK STATES (per-tick agent state projection for replay)
+// =============================================================================
+
+export const agentTickStates = pgTable('agent_tick_states', {
+  id: bigint('id', { mode: 'number' }).primaryKey().generatedAlwaysAsIdentity(),
+
+  // Multi-tenancy: null = default/legacy world
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // State at the end of this tick
+  tick: bigint('tick', { mode: 'number' }).notNull(),
+  agentId: uuid('agent_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
+  llmType: varchar('llm_type', { length: 20 }).notNull(),
+  x: integer('x').notNull(),
+  y: integer('y').notNull(),
+  hunger: real('hunger').notNull(),
+  energy: real('energy').notNull(),
+  health: real('health').notNull(),
+  balance: real('balance').notNull(),
+  state: varchar('state', { length: 20 }).notNull(),
+}, (table) => [
+  index('agent_tick_states_tenant_tick_idx').on(table.tenantId, table.tick),
+  uniqueIndex('agent_tick_states_agent_tick_idx').on(table.agentId, table.tick),
+]);
+
+// =============================================================================
+// WORLD CHECKPOINTS (full world state for restore and fork)
+// =============================================================================
+
+export const worldCheckpoints = pgTable('world_checkpoints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  // Multi-tenancy: null = default/legacy world
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  // State at the end of this tick
+  tick: bigint('tick', { mode: 'number' }).notNull(),
+  tables: jsonb('tables').notNull(), // Rows per table (see db/queries/checkpoints.ts)
+  rngState: jsonb('rng_state'), // Seeded RNG seed + internal state, null when unseeded
+  rowCount: integer('row_count').notNull().default(0),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('world_checkpoints_tenant_idx').on(table.tenantId),
+  index('world_checkpoints_tick_idx').on(table.tick),
+]);
+
 // =============================================================================
 // EXPERIMENTS (A/B Testing Framework)
 // =============================================================================
@@ -812,6 +1421,7 @@ export const agentCredentials = pgTable('agent_credentials', {
   // Parties
   issuerId: uuid('issuer_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
   issuerSignature: varchar('issuer_signature', { length: 256 }).notNull(),
+  signatureAlgorithm: varchar('signature_algorithm', { length: 20 }).notNull().default('hmac-sha256'), // ed25519 (hmac-sha256 = legacy, unverifiable)
 
   subjectId: uuid('subject_id').notNull().references(() => agents.id, { onDelete: 'cascade' }),
 
@@ -825,6 +1435,7 @@ export const agentCredentials = pgTable('agent_credentials', {
   expiresAtTick: bigint('expires_at_tick', { mode: 'number' }),
   revoked: boolean('revoked').notNull().default(false),
   revokedAtTick: bigint('revoked_at_tick', { mode: 'number' }),
+  revocationSignature: varchar('revocation_signature', { length: 256 }), // Issuer's signature over the revocation
 
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -837,6 +1448,25 @@ export const agentCredentials = pgTable('agent_credentials', {
   index('agent_credentials_tick_idx').on(table.tick),
 ]);
 
+// =============================================================================
+// AGENT SIGNING KEYS (Ed25519 keypairs for credentials)
+// =============================================================================
+
+export const agentSigningKeys = pgTable('agent_signing_keys', {
+  agentId: uuid('agent_id').primaryKey().references(() => agents.id, { onDelete: 'cascade' }),
+
+  // Multi-tenancy
+  tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }),
+
+  algorithm: varchar('algorithm', { length: 20 }).notNull().default('ed25519'),
+  publicKey: text('public_key').notNull(), // Base64 SPKI DER (published)
+  encryptedPrivateKey: jsonb('encrypted_private_key').notNull().$type<EncryptedKeyData>(), // AES-256-GCM
+
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('agent_signing_keys_tenant_idx').on(table.tenantId),
+]);
+
 // =============================================================================
 // GOSSIP EVENTS (Phase 4: §35 - Analytics only)
 // =============================================================================
@@ -1008,6 +1638,7 @@ export const promptLogs = pgTable('prompt_logs', {
     action: string;
     params?: Record<string, unknown>;
     reasoning?: string;
+    plan?: Record<string, unknown>; // set_goal / update_plan directive
   }>(),
   rawResponse: text('raw_response'),
 
@@ -1054,9 +1685,19 @@ export type ResourceSpawn = typeof resourceSpawns.$inferSelect;
 export type NewResourceSpawn = typeof resourceSpawns.$inferInsert;
 export type InventoryItem = typeof inventory.$inferSelect;
 export type LedgerEntry = typeof ledger.$inferSelect;
+export type PublicTreasury = typeof publicTreasuries.$inferSelect;
+export type NewPublicTreasury = typeof publicTreasuries.$inferInsert;
 export type Event = typeof events.$inferSelect;
 export type NewEvent = typeof events.$inferInsert;
 export type Snapshot = typeof snapshots.$inferSelect;
+export type AgentTickState = typeof agentTickStates.$inferSelect;
+export type NewAgentTickState = typeof agentTickStates.$inferInsert;
+export type EventArchive = typeof eventArchives.$inferSelect;
+export type NewEventArchive = typeof eventArchives.$inferInsert;
+export type EventTickAggregate = typeof eventTickAggregates.$inferSelect;
+export type NewEventTickAggregate = typeof eventTickAggregates.$inferInsert;
+export type WorldCheckpoint = typeof worldCheckpoints.$inferSelect;
+export type NewWorldCheckpoint = typeof worldCheckpoints.$inferInsert;
 
 // Phase 1: Memory types
 export type AgentMemory = typeof agentMemories.$inferSelect;
@@ -1097,6 +1738,8 @@ export type NewApiUsage = typeof apiUsage.$inferInsert;
 // Phase 4: Verifiable Credentials types (§34)
 export type AgentCredential = typeof agentCredentials.$inferSelect;
 export type NewAgentCredential = typeof agentCredentials.$inferInsert;
+export type AgentSigningKey = typeof agentSigningKeys.$inferSelect;
+export type NewAgentSigningKey = typeof agentSigningKeys.$inferInsert;
 
 // Phase 4: Gossip Events types (§35)
 export type GossipEvent = typeof gossipEvents.$inferSelect;
@@ -1120,6 +1763,45 @@ export type NewJobOffer = typeof jobOffers.$inferInsert;
 export type Employment = typeof employments.$inferSelect;
 export type NewEmployment = typeof employments.$inferInsert;
 
+// Trade Proposal types
+export type TradeProposal = typeof tradeProposals.$inferSelect;
+export type NewTradeProposal = typeof tradeProposals.$inferInsert;
+export type MarketOrder = typeof marketOrders.$inferSelect;
+export type NewMarketOrder = typeof marketOrders.$inferInsert;
+
+// Agent Message types
+export type AgentMessage = typeof agentMessages.$inferSelect;
+export type NewAgentMessage = typeof agentMessages.$inferInsert;
+
+// Organisation types
+export type Organization = typeof organizations.$inferSelect;
+export type NewOrganization = typeof organizations.$inferInsert;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type NewOrganizationMember = typeof organizationMembers.$inferInsert;
+
+// Governance types
+export type Proposal = typeof proposals.$inferSelect;
+export type NewProposal = typeof proposals.$inferInsert;
+export type ProposalVote = typeof proposalVotes.$inferSelect;
+export type NewProposalVote = typeof proposalVotes.$inferInsert;
+export type ClaimBanishment = typeof claimBanishments.$inferSelect;
+export type NewClaimBanishment = typeof claimBanishments.$inferInsert;
+
+// Travel Plan types
+export type TravelPlan = typeof travelPlans.$inferSelect;
+export type NewTravelPlan = typeof travelPlans.$inferInsert;
+
+// Agent Plan types
+export type AgentPlan = typeof agentPlans.$inferSelect;
+export type NewAgentPlan = typeof agentPlans.$inferInsert;
+export type Structure = typeof structures.$inferSelect;
+export type NewStructure = typeof structures.$inferInsert;
+export type Container = typeof containers.$inferSelect;
+export type NewContainer = typeof containers.$inferInsert;
+export type ContainerItem = typeof containerItems.$inferSelect;
+export type ContainerAccessEntry = typeof containerAccess.$inferSelect;
+export type NewContainerAccessEntry = typeof containerAccess.$inferInsert;
+
 // Backwards compatibility alias (for migration period)
 export type Location = Shelter;
 export type NewLocation = NewShelter;
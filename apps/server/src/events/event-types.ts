@@ -10,8 +10,13 @@
  *
  * Only emergent events should be counted when measuring emergence metrics,
  * cooperation indices, and other agent behavior statistics.
+ *
+ * Payload shapes and versions live in @simagents/shared (EVENT_PAYLOAD_SCHEMAS).
  */
 
+import { EVENT_PAYLOAD_SCHEMAS, getEventPayloadDefinition } from '@simagents/shared';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
 // =============================================================================
 // Event Categories
 // =============================================================================
@@ -58,6 +63,9 @@ export const EVENT_REGISTRY: Record<string, EventTypeDefinition> = {
   energy_decay: { category: 'infrastructure', description: 'Agent energy decreased (system decay)' },
   health_decay: { category: 'infrastructure', description: 'Agent health decreased (starvation/exhaustion)' },
 
+  // Trade proposal lifecycle (automatic expiry)
+  trade_proposal_expired: { category: 'infrastructure', description: 'Unanswered trade proposal expired' },
+
   // Resource regeneration
   resource_regenerated: { category: 'infrastructure', description: 'Resource spawn point regenerated' },
 
@@ -65,6 +73,9 @@ export const EVENT_REGISTRY: Record<string, EventTypeDefinition> = {
   shock_resource: { category: 'infrastructure', description: 'Resource shock event' },
   shock_health: { category: 'infrastructure', description: 'Health shock event (disease, disaster)' },
 
+  // Fiscal policy (scheduled collection and payouts)
+  fiscal_cycle: { category: 'infrastructure', description: 'Wealth tax collected and redistribution paid by a public treasury' },
+
   // -------------------------------------------------------------------------
   // Emergent Events (AGENT-CREATED decisions)
   // -------------------------------------------------------------------------
@@ -72,12 +83,46 @@ export const EVENT_REGISTRY: Record<string, EventTypeDefinition> = {
   // Movement
   agent_moved: { category: 'emergent', description: 'Agent moved to a new position' },
   agent_idle: { category: 'emergent', description: 'Agent chose to stay idle' },
+  agent_travel_started: { category: 'emergent', description: 'Agent started a multi-tick journey' },
+  agent_travel_arrived: { category: 'emergent', description: 'Agent arrived at its travel destination' },
+  agent_travel_interrupted: { category: 'emergent', description: 'Agent journey ended early (needs, damage, blocked path)' },
+
+  // Plans (set_goal / update_plan)
+  plan_completed: { category: 'emergent', description: 'Agent finished every step of its plan or declared it done' },
+  plan_abandoned: { category: 'emergent', description: 'Agent plan ended unfinished (given up, replaced, deadline passed)' },
 
   // Resource gathering and consumption
   agent_gathered: { category: 'emergent', description: 'Agent gathered resources' },
   agent_consumed: { category: 'emergent', description: 'Agent consumed food/energy' },
   agent_bought: { category: 'emergent', description: 'Agent purchased items' },
 
+  // Crafting
+  agent_crafted: { category: 'emergent', description: 'Agent crafted an item from a recipe' },
+  agent_craft_failed: { category: 'emergent', description: 'Agent attempted a recipe and wasted the inputs' },
+  recipe_discovered: { category: 'emergent', description: 'Agent crafted a recipe for the first time' },
+
+  // Structures
+  structure_construction_started: { category: 'emergent', description: 'Agent started a construction site' },
+  structure_build_progress: { category: 'emergent', description: 'Agent added a tick of work to a construction site' },
+  structure_completed: { category: 'emergent', description: 'Construction of a structure finished' },
+  structure_repaired: { category: 'emergent', description: 'Agent maintained a completed structure' },
+  structure_demolished: { category: 'emergent', description: 'Agent tore down a structure' },
+  structure_collapsed: { category: 'emergent', description: 'Structure decayed to nothing without maintenance' },
+
+  // Shared storage containers
+  container_created: { category: 'emergent', description: 'Agent placed a new storage container' },
+  container_deposit: { category: 'emergent', description: 'Agent put items into a container' },
+  container_withdraw: { category: 'emergent', description: 'Agent took items out of a container with access' },
+  container_access_granted: { category: 'emergent', description: 'Container owner granted deposit/withdraw access' },
+  container_access_revoked: { category: 'emergent', description: 'Container owner removed an access list entry' },
+  container_theft: { category: 'emergent', description: 'Agent stole from a container (may go undetected)' },
+
+  // Market (order books)
+  market_order_placed: { category: 'emergent', description: 'Agent posted a bid or ask at a shelter market' },
+  market_order_cancelled: { category: 'emergent', description: 'Market order withdrawn (by the agent or for lack of funds)' },
+  market_order_expired: { category: 'infrastructure', description: 'Market order reached its expiry tick' },
+  market_trade: { category: 'emergent', description: 'Bid and ask matched in a shelter order book' },
+
   // Work and employment
   agent_worked: { category: 'emergent', description: 'Agent performed work' },
   agent_rested: { category: 'emergent', description: 'Agent rested/slept' },
@@ -94,11 +139,25 @@ export const EVENT_REGISTRY: Record<string, EventTypeDefinition> = {
   agent_trade_proposed: { category: 'emergent', description: 'Agent proposed a trade' },
   agent_trade_accepted: { category: 'emergent', description: 'Agent accepted a trade proposal' },
   agent_trade_rejected: { category: 'emergent', description: 'Agent rejected a trade proposal' },
+  agent_trade_countered: { category: 'emergent', description: 'Agent countered a trade proposal with new terms' },
 
   // Social interactions
   agent_shared_info: { category: 'emergent', description: 'Agent shared information with another' },
   agent_spread_gossip: { category: 'emergent', description: 'Agent spread gossip about another' },
   agent_signaled: { category: 'emergent', description: 'Agent sent a long-range signal' },
+  agent_message_sent: { category: 'emergent', description: 'Agent sent a direct message to another' },
+
+  // Organisations
+  org_founded: { category: 'emergent', description: 'Agent founded an organisation' },
+  org_joined: { category: 'emergent', description: 'Agent joined an organisation' },
+  org_left: { category: 'emergent', description: 'Agent left an organisation' },
+  org_member_expelled: { category: 'emergent', description: 'Founder expelled a member from an organisation' },
+  org_dissolved: { category: 'emergent', description: 'Organisation dissolved after its last member left or died' },
+
+  // Governance
+  proposal_created: { category: 'emergent', description: 'Agent put a decision to a vote' },
+  proposal_voted: { category: 'emergent', description: 'Agent voted on a proposal' },
+  proposal_tallied: { category: 'emergent', description: 'Votes on a proposal were counted and its outcome applied' },
 
   // Claims and naming
   agent_claimed: { category: 'emergent', description: 'Agent made a territorial claim' },
@@ -226,3 +285,38 @@ export function registerEventType(
   }
   EVENT_REGISTRY[eventType] = definition;
 }
+
+// =============================================================================
+// Payload Schemas
+// =============================================================================
+
+export interface EventSchemaEntry {
+  eventType: string;
+  category: EventCategory;
+  description: string | null;
+  /** Current payload version (null = untyped payload) */
+  version: number | null;
+  /** JSON Schema of the current payload (null = untyped payload) */
+  payload: Record<string, unknown> | null;
+}
+
+/**
+ * Every known event type with its category and payload schema
+ * (served by GET /api/events/schema)
+ */
+export function buildEventSchemaCatalog(): EventSchemaEntry[] {
+  const eventTypes = [...new Set([...Object.keys(EVENT_REGISTRY), ...Object.keys(EVENT_PAYLOAD_SCHEMAS)])].sort();
+
+  return eventTypes.map((eventType) => {
+    const definition = getEventPayloadDefinition(eventType);
+    return {
+      eventType,
+      category: getEventCategory(eventType),
+      description: EVENT_REGISTRY[eventType]?.description ?? null,
+      version: definition?.version ?? null,
+      payload: definition
+        ? zodToJsonSchema(definition.payload, { $refStrategy: 'none' }) as Record<string, unknown>
+        : null,
+    };
+  });
+}
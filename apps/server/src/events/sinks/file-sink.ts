@@ -0,0 +1,68 @@
+/**
+ * File Sink - append events to rotating local NDJSON files
+ *
+ * Writes to <directory>/events.ndjson; once it passes maxBytes the file is
+ * renamed to events.<n>.ndjson (1 = newest) and a fresh one is started.
+ * At most maxFiles rotated files are kept.
+ */
+
+import { appendFile, mkdir, rename, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { EventSink } from './index';
+
+export interface FileSinkOptions {
+  directory: string;
+  maxBytes: number;
+  maxFiles: number;
+  name?: string;
+}
+
+const CURRENT_FILE = 'events.ndjson';
+
+export function rotatedFileName(index: number): string {
+  return `events.${index}.ndjson`;
+}
+
+export function createFileSink(options: FileSinkOptions): EventSink {
+  const currentPath = join(options.directory, CURRENT_FILE);
+  let size: number | null = null;
+
+  async function currentSize(): Promise<number> {
+    if (size === null) {
+      await mkdir(options.directory, { recursive: true });
+      size = await stat(currentPath).then((s) => s.size, () => 0);
+    }
+    return size;
+  }
+
+  async function rotate(): Promise<void> {
+    await rm(join(options.directory, rotatedFileName(options.maxFiles)), { force: true });
+    for (let i = options.maxFiles - 1; i >= 1; i--) {
+      await rename(join(options.directory, rotatedFileName(i)), join(options.directory, rotatedFileName(i + 1))).catch(() => {});
+    }
+    if (options.maxFiles > 0) {
+      await rename(currentPath, join(options.directory, rotatedFileName(1)));
+    } else {
+      await rm(currentPath, { force: true });
+    }
+    size = 0;
+  }
+
+  return {
+    name: options.name ?? 'file',
+
+    async send(events: WorldEvent[]): Promise<void> {
+      const data = events.map((event) => JSON.stringify(event) + '\n').join('');
+      const bytes = Buffer.byteLength(data);
+
+      const existing = await currentSize();
+      if (existing > 0 && existing + bytes > options.maxBytes) {
+        await rotate();
+      }
+
+      await appendFile(currentPath, data);
+      size = (size ?? 0) + bytes;
+    },
+  };
+}
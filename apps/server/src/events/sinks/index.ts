@@ -0,0 +1,263 @@
+/**
+ * Event Sinks - fan world events out to external destinations
+ *
+ * publishEvent (cache/pubsub.ts) hands every event to the registered sinks in
+ * addition to Redis pub/sub, so dashboards and notebooks can consume the
+ * simulation live without polling Postgres. Built-in sinks:
+ * - file: rotating local NDJSON files
+ * - webhook: HTTP POST of event batches
+ * - kafka: Kafka-protocol producer
+ *
+ * Each sink gets its own channel: events are queued and delivered in batches
+ * (never blocking the tick), failed batches are retried with exponential
+ * backoff, and batches that still fail are appended to a per-sink dead-letter
+ * file. Delivery metrics are kept per sink (GET /api/event-sinks).
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { WorldEvent } from '../../cache/pubsub';
+import { CONFIG } from '../../config';
+import { createFileSink } from './file-sink';
+import { createWebhookSink } from './webhook-sink';
+import { createKafkaSink } from './kafka-sink';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EventSink {
+  readonly name: string;
+  /** Deliver a batch; throw to have the batch retried */
+  send(events: WorldEvent[]): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export interface SinkChannelOptions {
+  batchSize: number;
+  flushIntervalMs: number;
+  maxQueueSize: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  deadLetterDir: string;
+}
+
+export interface SinkMetrics {
+  sink: string;
+  /** Events delivered */
+  delivered: number;
+  /** Events waiting for delivery */
+  queued: number;
+  /** Events dropped because the queue was full */
+  dropped: number;
+  /** Failed delivery attempts that were retried */
+  retries: number;
+  /** Events written to the dead-letter file after all retries failed */
+  deadLettered: number;
+  lastError: string | null;
+  lastDeliveredAt: number | null;
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Backoff before retry number `attempt` (0-based): base * 2^attempt, capped
+ */
+export function getRetryDelay(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(maxMs, baseMs * 2 ** attempt);
+}
+
+/**
+ * Queue, batching, retries and dead-lettering for one sink
+ */
+export class SinkChannel {
+  readonly metrics: SinkMetrics;
+  private queue: WorldEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor(readonly sink: EventSink, private readonly options: SinkChannelOptions) {
+    this.metrics = {
+      sink: sink.name,
+      delivered: 0,
+      queued: 0,
+      dropped: 0,
+      retries: 0,
+      deadLettered: 0,
+      lastError: null,
+      lastDeliveredAt: null,
+    };
+  }
+
+  enqueue(event: WorldEvent): void {
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.metrics.dropped++;
+      return;
+    }
+
+    this.queue.push(event);
+    this.metrics.queued = this.queue.length;
+
+    if (this.queue.length >= this.options.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Deliver everything queued so far (one batch in flight at a time)
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.batchSize);
+      this.metrics.queued = this.queue.length;
+      await this.deliver(batch);
+    }
+  }
+
+  private async deliver(batch: WorldEvent[]): Promise<void> {
+    const { maxRetries, retryBaseMs, retryMaxMs } = this.options;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        await this.sink.send(batch);
+        this.metrics.delivered += batch.length;
+        this.metrics.lastDeliveredAt = Date.now();
+        return;
+      } catch (error) {
+        this.metrics.lastError = error instanceof Error ? error.message : String(error);
+        if (attempt < maxRetries) {
+          this.metrics.retries++;
+          await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, retryBaseMs, retryMaxMs)));
+        }
+      }
+    }
+
+    await this.deadLetter(batch, maxRetries + 1);
+  }
+
+  private async deadLetter(batch: WorldEvent[], attempts: number): Promise<void> {
+    this.metrics.deadLettered += batch.length;
+    const entry = {
+      sink: this.sink.name,
+      error: this.metrics.lastError,
+      attempts,
+      failedAt: new Date().toISOString(),
+      events: batch,
+    };
+
+    try {
+      await mkdir(this.options.deadLetterDir, { recursive: true });
+      await appendFile(join(this.options.deadLetterDir, `${this.sink.name}.ndjson`), JSON.stringify(entry) + '\n');
+    } catch (error) {
+      console.error(`[EventSinks] Failed to dead-letter ${batch.length} events for ${this.sink.name}:`, error);
+    }
+  }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const channels = new Map<string, SinkChannel>();
+
+function defaultChannelOptions(): SinkChannelOptions {
+  const { batchSize, flushIntervalMs, maxQueueSize, maxRetries, retryBaseMs, retryMaxMs, deadLetterDir } = CONFIG.eventSinks;
+  return { batchSize, flushIntervalMs, maxQueueSize, maxRetries, retryBaseMs, retryMaxMs, deadLetterDir };
+}
+
+/**
+ * Register a sink (replaces a sink with the same name)
+ */
+export function registerEventSink(sink: EventSink, options: Partial<SinkChannelOptions> = {}): void {
+  channels.set(sink.name, new SinkChannel(sink, { ...defaultChannelOptions(), ...options }));
+}
+
+/**
+ * Flush and remove a sink
+ */
+export async function unregisterEventSink(name: string): Promise<void> {
+  const channel = channels.get(name);
+  if (!channel) return;
+  channels.delete(name);
+  await channel.flush();
+  await channel.sink.close?.();
+}
+
+/**
+ * Hand an event to every registered sink (never blocks or throws)
+ */
+export function dispatchToSinks(event: WorldEvent): void {
+  for (const channel of channels.values()) {
+    channel.enqueue(event);
+  }
+}
+
+export function getEventSinkMetrics(): SinkMetrics[] {
+  return [...channels.values()].map((channel) => ({ ...channel.metrics }));
+}
+
+export async function flushEventSinks(): Promise<void> {
+  await Promise.all([...channels.values()].map((channel) => channel.flush()));
+}
+
+/**
+ * Flush and close every sink (shutdown)
+ */
+export async function closeEventSinks(): Promise<void> {
+  await Promise.all([...channels.keys()].map((name) => unregisterEventSink(name)));
+}
+
+/**
+ * Register the sinks enabled in CONFIG.eventSinks
+ */
+export function initEventSinks(): string[] {
+  const config = CONFIG.eventSinks;
+  const enabled = config.enabled.split(',').map((name) => name.trim()).filter(Boolean);
+
+  for (const name of enabled) {
+    switch (name) {
+      case 'file':
+        registerEventSink(createFileSink(config.file));
+        break;
+      case 'webhook':
+        if (!config.webhook.url) {
+          console.warn('[EventSinks] webhook sink enabled without EVENT_SINK_WEBHOOK_URL, skipping');
+          continue;
+        }
+        registerEventSink(createWebhookSink(config.webhook));
+        break;
+      case 'kafka':
+        registerEventSink(createKafkaSink({
+          brokers: config.kafka.brokers.split(',').map((broker) => broker.trim()),
+          topic: config.kafka.topic,
+          clientId: config.kafka.clientId,
+        }));
+        break;
+      default:
+        console.warn(`[EventSinks] Unknown sink "${name}", skipping`);
+        continue;
+    }
+    console.log(`[EventSinks] ${name} sink enabled`);
+  }
+
+  return [...channels.keys()];
+}
@@ -0,0 +1,77 @@
+/**
+ * Kafka Sink - produce events to a Kafka-protocol topic
+ *
+ * Works with Kafka or any wire-compatible broker (Redpanda for local runs,
+ * see docker-compose `streaming` profile). Messages are keyed by agentId
+ * ("world" for world-level events) so each agent's events stay ordered
+ * within a partition. Retries are left to the sink channel.
+ */
+
+import { Kafka, logLevel } from 'kafkajs';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { EventSink } from './index';
+
+/**
+ * The part of the kafkajs Producer the sink uses (lets tests supply a stand-in)
+ */
+export interface KafkaProducerLike {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  send(record: {
+    topic: string;
+    messages: Array<{ key: string; value: string; headers: Record<string, string> }>;
+  }): Promise<unknown>;
+}
+
+export interface KafkaSinkOptions {
+  brokers: string[];
+  topic: string;
+  clientId: string;
+  name?: string;
+  /** Override the producer (defaults to a kafkajs producer for `brokers`) */
+  producer?: KafkaProducerLike;
+}
+
+export function createKafkaSink(options: KafkaSinkOptions): EventSink {
+  const producer: KafkaProducerLike = options.producer ?? new Kafka({
+    clientId: options.clientId,
+    brokers: options.brokers,
+    logLevel: logLevel.WARN,
+    retry: { retries: 0 },
+  }).producer();
+  let connected = false;
+
+  return {
+    name: options.name ?? 'kafka',
+
+    async send(events: WorldEvent[]): Promise<void> {
+      if (!connected) {
+        await producer.connect();
+        connected = true;
+      }
+
+      try {
+        await producer.send({
+          topic: options.topic,
+          messages: events.map((event) => ({
+            key: event.agentId ?? 'world',
+            value: JSON.stringify(event),
+            headers: { 'event-type': event.type },
+          })),
+        });
+      } catch (error) {
+        // Reconnect on the next attempt
+        connected = false;
+        await producer.disconnect().catch(() => {});
+        throw error;
+      }
+    },
+
+    async close(): Promise<void> {
+      if (connected) {
+        connected = false;
+        await producer.disconnect();
+      }
+    },
+  };
+}
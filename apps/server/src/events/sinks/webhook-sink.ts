@@ -0,0 +1,56 @@
+/**
+ * Webhook Sink - POST event batches to an HTTP endpoint
+ *
+ * Body: { events: WorldEvent[] }. When a secret is configured the body is
+ * signed with HMAC-SHA256 (hex) in the X-SimAgents-Signature header.
+ * Any non-2xx response or timeout fails the batch so the channel retries it.
+ */
+
+import { createHmac } from 'node:crypto';
+import type { WorldEvent } from '../../cache/pubsub';
+import type { EventSink } from './index';
+
+export interface WebhookSinkOptions {
+  url: string;
+  secret?: string;
+  timeoutMs: number;
+  name?: string;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SimAgents-Signature';
+
+export function signWebhookBody(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function createWebhookSink(options: WebhookSinkOptions): EventSink {
+  return {
+    name: options.name ?? 'webhook',
+
+    async send(events: WorldEvent[]): Promise<void> {
+      const body = JSON.stringify({ events });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (options.secret) {
+        headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(body, options.secret);
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+      try {
+        const response = await fetch(options.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Webhook responded ${response.status}`);
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
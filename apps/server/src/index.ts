@@ -15,7 +15,11 @@ import swaggerUi from '@fastify/swagger-ui';
 import { db } from './db';
 import { redis, closeRedisConnection } from './cache';
 import { subscribeToWorldEvents, closePubSub } from './cache/pubsub';
+import { initEventSinks, getEventSinkMetrics, closeEventSinks } from './events/sinks';
+import { buildEventSchemaCatalog } from './events/event-types';
 import { tickEngine } from './simulation/tick-engine';
+import { loadStructureTerrain } from './simulation/structures';
+import { clearTerrain } from './world/terrain';
 import { startWorker, stopWorker, getQueueStats } from './queue';
 import { spawnWorld, spawnWorldWithGenesis } from './agents/spawner';
 import { logAdapterStatus } from './llm';
@@ -32,12 +36,16 @@ import {
   getEmergenceIndexMetrics,
   getMarketEfficiencyMetrics,
   getGovernanceMetrics,
+  getLanguageCorpus,
 } from './db/queries/analytics';
+import { analyzeLanguage } from './analysis/language';
 import {
   getCredentialsIssuedBy,
   getCredentialsReceivedBy,
   getActiveCredentials,
 } from './db/queries/credentials';
+import { verifyCredential, getSignedRevocationList } from './services/credential-service';
+import { isAgentSigningAvailable } from './services/agent-key-service';
 import {
   getGossipAbout,
   getGossipSpreadBy,
@@ -72,9 +80,12 @@ import {
 import { resetWorldWithConfig, clearWorld, getDefaultConfigurations, type SpawnConfiguration, type AgentConfig } from './agents/spawner';
 import { resetTickCounter } from './db/queries/world';
 import { clearCache } from './cache/projections';
+import { listWorldCheckpoints } from './db/queries/checkpoints';
+import { createCheckpoint, forkFromCheckpoint, restoreFromCheckpoint } from './simulation/checkpoints';
+import { initializeRNG } from './utils/random';
 
 // Phase 3: A2A Protocol imports
-import { requireApiKey, getExternalAgentFromRequest } from './middleware/auth';
+import { requireApiKey, requireAdmin, getExternalAgentFromRequest } from './middleware/auth';
 import { enforceRateLimit, recordAndCheckRateLimit, setRateLimitHeaders } from './middleware/rate-limit';
 import {
   registerExternalAgent,
@@ -85,8 +96,9 @@ import {
   getExternalAgentStats,
 } from './db/queries/external-agents';
 import { getAgentById, updateAgent } from './db/queries/agents';
+import { getBusyCrafters } from './db/queries/crafting';
 import { buildObservation } from './agents/observer';
-import { executeAction } from './actions';
+import { executeAction, getRegisteredActionTypes, buildDecisionBodySchema } from './actions';
 import type { ActionType } from './actions/types';
 
 // Phase 3: Replay (Time Travel) imports
@@ -97,6 +109,8 @@ import {
   getAgentStatesAtTick,
   getAgentHistory,
   getWorldSnapshotAtTick,
+  getReplayRange,
+  REPLAY_RANGE_MAX_TICKS,
   getTickSummaries,
   getAgentTimeline,
 } from './db/queries/replay';
@@ -130,6 +144,29 @@ import { registerUserKeysRoutes } from './routes/user-keys';
 // Puzzle Games routes
 import { registerPuzzlesRoutes } from './routes/puzzles-api';
 
+// External agent WebSocket transport
+import { registerAgentSocketRoutes } from './routes/agent-socket';
+import { agentSocketHub } from './agents/socket-hub';
+
+// Model Context Protocol (MCP) server
+import { registerMcpRoutes } from './routes/mcp';
+
+// Bulk data export
+import { registerExportRoutes } from './routes/export-api';
+
+// Event retention and archives
+import { registerRetentionRoutes } from './routes/retention-api';
+import { startRetentionJob, stopRetentionJob } from './queue/retention';
+
+// Direct agent messages
+import { registerMessagesRoutes } from './routes/messages-api';
+
+// Agent organisations
+import { registerOrganizationsRoutes } from './routes/organizations-api';
+
+// Governance proposals and votes
+import { registerProposalsRoutes } from './routes/proposals-api';
+
 // =============================================================================
 // Server Setup
 // =============================================================================
@@ -194,6 +231,7 @@ await server.register(swagger, {
       { name: 'Experiments', description: 'A/B testing and experiments' },
       { name: 'External Agents (v1)', description: 'A2A Protocol for external agent integration' },
       { name: 'Replay', description: 'Time travel and replay functionality' },
+      { name: 'Export', description: 'Bulk data export for offline analysis' },
     ],
     components: {
       securitySchemes: {
@@ -368,6 +406,27 @@ await registerUserKeysRoutes(server);
 // Register Puzzle Games routes
 await registerPuzzlesRoutes(server);
 
+// Register External Agent WebSocket route (Phase 3: A2A Protocol)
+await registerAgentSocketRoutes(server);
+
+// Register MCP route (Phase 3: A2A Protocol)
+await registerMcpRoutes(server);
+
+// Register Data Export routes
+await registerExportRoutes(server);
+
+// Register Event Retention routes
+await registerRetentionRoutes(server);
+
+// Register Agent Message routes
+await registerMessagesRoutes(server);
+
+// Register Organisation routes
+await registerOrganizationsRoutes(server);
+
+// Register Proposal routes
+await registerProposalsRoutes(server);
+
 // =============================================================================
 // Health & Status Routes
 // =============================================================================
@@ -451,6 +510,16 @@ server.get('/api/status', {
   };
 });
 
+// Event sink delivery metrics
+server.get('/api/event-sinks', {
+  schema: {
+    description: 'Delivery metrics for each enabled event sink (file, webhook, kafka)',
+    tags: ['Health'],
+  },
+}, async () => {
+  return { sinks: getEventSinkMetrics() };
+});
+
 // =============================================================================
 // Test Mode Routes
 // =============================================================================
@@ -635,10 +704,12 @@ server.post('/api/world/reset', {
 
   // Stop tick engine
   tickEngine.stop();
+  await tickEngine.waitForIdle();
 
   // Clear all data (DB + Redis cache)
   await resetWorldData();
   await clearCache(); // FIX: Pulisci Redis cache per evitare dati stale
+  clearTerrain();
 
   // Reinitialize world state and event version counter
   await initWorldState();
@@ -669,6 +740,9 @@ server.post('/api/world/start', {
 }, async () => {
   console.log('[Server] Starting simulation (scientific model)...');
 
+  // Seed the RNG so the run can be replayed (simulation/deterministic-replay.ts)
+  initializeRNG(String(CONFIG.simulation.randomSeed));
+
   // Check if Genesis mode is enabled
   const genesisConfig = getGenesisConfig();
 
@@ -703,6 +777,9 @@ server.post('/api/world/start', {
     getAllShelters(),
   ]);
 
+  // Tick 0 checkpoint: replays and restores can start from the very beginning
+  await createCheckpoint(0);
+
   console.log('[Server] Simulation started');
 
   // Start tick engine in background with delay
@@ -747,6 +824,174 @@ server.post('/api/world/start', {
   };
 });
 
+// List world checkpoints (newest first)
+server.get('/api/world/checkpoints', {
+  schema: {
+    description: 'List full world checkpoints available for restore and fork',
+    tags: ['World'],
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          intervalTicks: { type: 'number' },
+          checkpoints: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                tick: { type: 'number' },
+                rowCount: { type: 'number' },
+                createdAt: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+}, async () => {
+  const checkpoints = await listWorldCheckpoints();
+  return { intervalTicks: CONFIG.simulation.checkpointIntervalTicks, checkpoints };
+});
+
+// Take a checkpoint now
+server.post('/api/world/checkpoint', {
+  preHandler: [requireAdmin],
+  schema: {
+    description: 'Capture a full world checkpoint at the current tick',
+    tags: ['World'],
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          tick: { type: 'number' },
+          rowCount: { type: 'number' },
+        },
+      },
+      401: { $ref: 'Error#' },
+    },
+  },
+}, async () => {
+  const checkpoint = await createCheckpoint(await getCurrentTick());
+  return { id: checkpoint.id, tick: checkpoint.tick, rowCount: checkpoint.rowCount };
+});
+
+// Rewind the world to a checkpoint
+server.post<{ Params: { tick: string } }>('/api/world/restore/:tick', {
+  preHandler: [requireAdmin],
+  schema: {
+    description: 'Rewind the world to the latest checkpoint at or before a tick. Events and checkpoints after it are discarded.',
+    tags: ['World'],
+    params: {
+      type: 'object',
+      properties: {
+        tick: { type: 'string', description: 'Tick number' },
+      },
+      required: ['tick'],
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          tick: { type: 'number' },
+          rowsRestored: { type: 'number' },
+          rowsRemoved: { type: 'number' },
+          eventsRemoved: { type: 'number' },
+          notRestored: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      400: { $ref: 'Error#' },
+      401: { $ref: 'Error#' },
+      404: { $ref: 'Error#' },
+    },
+  },
+}, async (request, reply) => {
+  const tick = parseInt(request.params.tick, 10);
+  if (isNaN(tick) || tick < 0) {
+    return reply.code(400).send({ error: 'Invalid tick number' });
+  }
+
+  // Tick processing must not run against a half-restored world
+  const wasRunning = tickEngine.isActive();
+  tickEngine.stop();
+  await tickEngine.waitForIdle();
+
+  const result = await restoreFromCheckpoint(tick);
+  if (wasRunning) {
+    tickEngine.start().catch(console.error);
+  }
+  if (!result) {
+    return reply.code(404).send({ error: `No checkpoint at or before tick ${tick}` });
+  }
+
+  console.log(`[Server] World restored to tick ${result.tick}`);
+  return { success: true, ...result };
+});
+
+// Fork a new tenant world from a checkpoint
+server.post<{
+  Params: { tick: string };
+  Body: { name?: string; description?: string; ownerEmail?: string };
+}>('/api/world/fork/:tick', {
+  preHandler: [requireAdmin],
+  schema: {
+    description: 'Start a new tenant world from the latest checkpoint at or before a tick. The API key is only returned once.',
+    tags: ['World'],
+    params: {
+      type: 'object',
+      properties: {
+        tick: { type: 'string', description: 'Tick number' },
+      },
+      required: ['tick'],
+    },
+    body: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', maxLength: 255 },
+        description: { type: 'string', maxLength: 1000 },
+        ownerEmail: { type: 'string', maxLength: 255 },
+      },
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          tenantId: { type: 'string' },
+          apiKey: { type: 'string' },
+          tick: { type: 'number' },
+          rowsCopied: { type: 'number' },
+          agentIds: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+      },
+      400: { $ref: 'Error#' },
+      401: { $ref: 'Error#' },
+      404: { $ref: 'Error#' },
+    },
+  },
+}, async (request, reply) => {
+  const tick = parseInt(request.params.tick, 10);
+  if (isNaN(tick) || tick < 0) {
+    return reply.code(400).send({ error: 'Invalid tick number' });
+  }
+
+  const body = request.body ?? {};
+  const result = await forkFromCheckpoint(tick, {
+    name: body.name ?? `Fork of tick ${tick}`,
+    description: body.description,
+    ownerEmail: body.ownerEmail,
+  });
+  if (!result) {
+    return reply.code(404).send({ error: `No checkpoint at or before tick ${tick}` });
+  }
+
+  console.log(`[Server] Forked tick ${result.tick} into tenant ${result.tenantId}`);
+  return { success: true, ...result };
+});
+
 server.get('/api/agents', {
   schema: {
     description: 'Get all agents in the simulation',
@@ -836,6 +1081,16 @@ server.get('/api/shelters', {
   return { shelters };
 });
 
+// Event payload schemas (types, categories, versions)
+server.get('/api/events/schema', {
+  schema: {
+    description: 'Every event type with its category, current payload version and payload JSON Schema',
+    tags: ['Events'],
+  },
+}, async () => {
+  return { events: buildEventSchemaCatalog() };
+});
+
 // Get recent events (for loading history on page refresh)
 server.get<{ Querystring: { limit?: string } }>('/api/events/recent', {
   schema: {
@@ -932,6 +1187,7 @@ server.get('/api/analytics/economy', {
           giniCoefficient: { type: 'number' },
           balanceDistribution: { type: 'object', additionalProperties: true },
           byLlmType: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          fiscal: { type: 'object', additionalProperties: true },
         },
       },
     },
@@ -1076,6 +1332,43 @@ server.get('/api/analytics/governance', {
   return getGovernanceMetrics();
 });
 
+// Get emergent language metrics (signals, gossip claims, direct messages)
+server.get<{ Querystring: { groupBy?: 'llmType' | 'lineage'; bucketSize?: string; radius?: string } }>('/api/analytics/language', {
+  schema: {
+    description: 'Get emergent language metrics - vocabulary growth, term-to-referent mappings, naming convergence and dialects',
+    tags: ['Analytics'],
+    querystring: {
+      type: 'object',
+      properties: {
+        groupBy: { type: 'string', enum: ['llmType', 'lineage'], description: 'Dialect grouping (default llmType)' },
+        bucketSize: { type: 'string', description: 'Ticks per vocabulary growth bucket (default 50)' },
+        radius: { type: 'string', description: 'Max distance from an utterance to a referent (default 3)' },
+      },
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          utterances: { type: 'number' },
+          speakers: { type: 'number' },
+          vocabulary: { type: 'object', additionalProperties: true },
+          termReferents: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          naming: { type: 'object', additionalProperties: true },
+          dialects: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  },
+}, async (request) => {
+  const bucketSize = parseInt(request.query.bucketSize || '50', 10);
+  const radius = parseInt(request.query.radius || '3', 10);
+  return analyzeLanguage(await getLanguageCorpus(), {
+    groupBy: request.query.groupBy,
+    bucketSize: bucketSize > 0 ? bucketSize : 50,
+    referentRadius: radius >= 0 ? radius : 3,
+  });
+});
+
 // =============================================================================
 // Phase 4: Credentials, Gossip, Lineage, LLM Metrics
 // =============================================================================
@@ -1165,6 +1458,119 @@ server.get<{ Params: { agentId: string }; Querystring: { tick?: string } }>('/ap
   return { credentials };
 });
 
+// Verify a credential's signature against its issuer's public key
+server.get<{ Params: { id: string }; Querystring: { tick?: string } }>('/api/credentials/:id/verify', {
+  schema: {
+    description: 'Verify a credential: Ed25519 issuer signature, revocation and expiry',
+    tags: ['Phase4'],
+    params: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid', description: 'Credential ID' },
+      },
+      required: ['id'],
+    },
+    querystring: {
+      type: 'object',
+      properties: {
+        tick: { type: 'string', description: 'Tick for expiration check (default: current tick)' },
+      },
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          credentialId: { type: 'string' },
+          issuerId: { type: 'string' },
+          subjectId: { type: 'string' },
+          valid: { type: 'boolean' },
+          status: { type: 'string', enum: ['valid', 'invalid_signature', 'unverifiable', 'revoked', 'expired'] },
+          algorithm: { type: 'string' },
+          signatureValid: { type: 'boolean' },
+          issuerPublicKey: { type: ['string', 'null'] },
+          revoked: { type: 'boolean' },
+          revokedAtTick: { type: ['number', 'null'] },
+          revocationSignatureValid: { type: ['boolean', 'null'] },
+          expired: { type: 'boolean' },
+        },
+      },
+      404: {
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+        },
+      },
+    },
+  },
+}, async (request, reply) => {
+  const tick = request.query.tick ? parseInt(request.query.tick) : await getCurrentTick();
+  const verification = await verifyCredential(request.params.id, tick);
+  if (!verification) {
+    return reply.code(404).send({ error: 'Credential not found' });
+  }
+  return verification;
+});
+
+// Get an issuer's revocation list, signed with the issuer's key
+server.get<{ Params: { agentId: string } }>('/api/credentials/revocations/:agentId', {
+  schema: {
+    description: 'Get the signed list of credentials revoked by an issuer',
+    tags: ['Phase4'],
+    params: {
+      type: 'object',
+      properties: {
+        agentId: { type: 'string', format: 'uuid', description: 'Issuer agent ID' },
+      },
+      required: ['agentId'],
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          issuerId: { type: 'string' },
+          algorithm: { type: 'string' },
+          issuerPublicKey: { type: 'string' },
+          issuedAtTick: { type: 'number' },
+          entries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                credentialId: { type: 'string' },
+                revokedAtTick: { type: 'number' },
+                signature: { type: ['string', 'null'] },
+              },
+            },
+          },
+          signature: { type: 'string' },
+        },
+      },
+      404: {
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+        },
+      },
+      503: { $ref: 'Error#' },
+    },
+  },
+}, async (request, reply) => {
+  // The list is signed on every request: without the master key there is no issuer key to sign with
+  if (!isAgentSigningAvailable()) {
+    return reply.code(503).send({
+      error: 'Service Unavailable',
+      message: 'Credential signing is unavailable: ENCRYPTION_MASTER_KEY is missing or invalid',
+    });
+  }
+
+  const issuer = await getAgentById(request.params.agentId);
+  if (!issuer) {
+    return reply.code(404).send({ error: 'Agent not found' });
+  }
+  const tick = await getCurrentTick();
+  return getSignedRevocationList(issuer.id, tick, issuer.tenantId);
+});
+
 // Get gossip about an agent
 server.get<{ Params: { agentId: string } }>('/api/analytics/gossip/about/:agentId', {
   schema: {
@@ -1676,6 +2082,7 @@ server.post<{ Params: { id: string } }>('/api/experiments/:id/run', {
 
   // Stop current simulation
   tickEngine.stop();
+  await tickEngine.waitForIdle();
 
   // Clear world and reset tick counter
   await clearWorld();
@@ -2042,19 +2449,8 @@ server.post<{
         },
         required: ['id'],
       },
-      body: {
-        type: 'object',
-        required: ['action', 'params'],
-        properties: {
-          action: {
-            type: 'string',
-            enum: ['move', 'gather', 'buy', 'consume', 'sleep', 'work', 'trade', 'harm', 'steal', 'deceive', 'share_info', 'claim', 'name_location'],
-            description: 'Action type to execute',
-          },
-          params: { type: 'object', description: 'Action parameters' },
-          reasoning: { type: 'string', description: 'Optional reasoning for logging' },
-        },
-      },
+      // Generated from the action registry so the endpoint stays in sync with actions/index.ts
+      body: buildDecisionBodySchema(getRegisteredActionTypes()),
       response: {
         200: {
           type: 'object',
@@ -2068,6 +2464,7 @@ server.post<{
         401: { $ref: 'Error#' },
         403: { $ref: 'Error#' },
         404: { $ref: 'Error#' },
+        409: { $ref: 'Error#' },
         410: { $ref: 'Error#' },
         429: { $ref: 'Error#' },
       },
@@ -2103,11 +2500,8 @@ server.post<{
       });
     }
 
-    // Validate action type
-    const validActions = [
-      'move', 'gather', 'buy', 'consume', 'sleep', 'work', 'trade',
-      'harm', 'steal', 'deceive', 'share_info', 'claim', 'name_location',
-    ];
+    // Validate action type against the handler registry
+    const validActions: string[] = getRegisteredActionTypes();
 
     if (!validActions.includes(action)) {
       return reply.code(400).send({
@@ -2119,6 +2513,14 @@ server.post<{
     try {
       const tick = await getCurrentTick();
 
+      const busyUntil = (await getBusyCrafters(tick, [id])).get(id);
+      if (busyUntil !== undefined) {
+        return reply.code(409).send({
+          error: 'Conflict',
+          message: `Agent is busy crafting until tick ${busyUntil}`,
+        });
+      }
+
       // Create action intent
       const intent = {
         agentId: id,
@@ -2409,6 +2811,57 @@ server.get<{
   return { fromTick, toTick, events, count: events.length };
 });
 
+// Get world snapshots for a window of ticks (timeline scrubber prefetch)
+server.get<{
+  Querystring: { from?: string; to?: string };
+}>('/api/replay/range', {
+  schema: {
+    description: `Get agent states and events for every tick of a window (at most ${REPLAY_RANGE_MAX_TICKS} ticks)`,
+    tags: ['Replay'],
+    querystring: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'Start tick' },
+        to: { type: 'string', description: `End tick (default from + ${REPLAY_RANGE_MAX_TICKS - 1})` },
+      },
+      required: ['from'],
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          fromTick: { type: 'number' },
+          toTick: { type: 'number' },
+          ticks: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                tick: { type: 'number' },
+                agents: { type: 'array', items: { $ref: 'Agent#' } },
+                events: { type: 'array', items: { $ref: 'Event#' } },
+              },
+            },
+          },
+          resourceSpawns: { type: 'array', items: { $ref: 'ResourceSpawn#' } },
+          shelters: { type: 'array', items: { $ref: 'Shelter#' } },
+        },
+      },
+      400: { $ref: 'Error#' },
+    },
+  },
+}, async (request) => {
+  const fromTick = parseInt(request.query.from || '', 10);
+  const requestedTo = parseInt(request.query.to || String(fromTick + REPLAY_RANGE_MAX_TICKS - 1), 10);
+
+  if (isNaN(fromTick) || isNaN(requestedTo) || fromTick < 0 || requestedTo < fromTick) {
+    return { error: 'Invalid tick parameters' };
+  }
+
+  const toTick = Math.min(requestedTo, fromTick + REPLAY_RANGE_MAX_TICKS - 1);
+  return await getReplayRange(fromTick, toTick);
+});
+
 // Get world snapshot at a specific tick
 server.get<{ Params: { tick: string } }>('/api/replay/tick/:tick', {
   schema: {
@@ -2668,12 +3121,24 @@ async function shutdown(): Promise<void> {
 
   // Stop tick engine first
   tickEngine.stop();
+  await tickEngine.waitForIdle();
   console.log('[Server] Tick engine stopped');
 
   // Stop queue worker
   await stopWorker();
   console.log('[Server] Queue worker stopped');
 
+  // Stop scheduled event retention
+  await stopRetentionJob();
+
+  // Disconnect external agent sockets
+  agentSocketHub.closeAll();
+  console.log('[Server] Agent sockets closed');
+
+  // Flush queued events to external sinks
+  await closeEventSinks();
+  console.log('[Server] Event sinks flushed');
+
   // Close pub/sub
   await closePubSub();
   console.log('[Server] Pub/sub closed');
@@ -2710,10 +3175,22 @@ const start = async () => {
     // Initialize event version counter from database
     await initGlobalVersion();
 
+    // Rebuild impassable terrain from agent-built walls
+    const blockedCells = await loadStructureTerrain();
+    if (blockedCells > 0) {
+      console.log(`[Server] Restored ${blockedCells} blocked cell(s) from structures`);
+    }
+
+    // Register external event sinks (EVENT_SINKS)
+    initEventSinks();
+
     // Start queue worker
     console.log('[Server] Starting queue worker...');
     startWorker();
 
+    // Schedule event retention (EVENT_RETENTION_*)
+    await startRetentionJob();
+
     // Check if simulation was already running (persistence on restart)
     const existingAgents = await getAllAgents();
     if (existingAgents.length > 0) {
@@ -4,15 +4,32 @@
 
 import { v4 as uuid } from 'uuid';
 import { eq, desc, or } from 'drizzle-orm';
-import { db, ledger, agents, type LedgerEntry } from '../db';
+import { db, ledger, agents, organizations, publicTreasuries, type LedgerEntry } from '../db';
+import { getTreasury } from '../db/queries/fiscal';
 
 export type TransactionCategory =
-  | 'salary'      // Work income
-  | 'purchase'    // Buying items
-  | 'consumption' // Using items (no money transfer, just tracking)
-  | 'transfer'    // Agent-to-agent transfer
-  | 'tax'         // Future: emergent taxation
-  | 'welfare';    // Future: emergent welfare
+  | 'salary'          // Work income
+  | 'purchase'        // Buying items
+  | 'consumption'     // Using items (no money transfer, just tracking)
+  | 'transfer'        // Agent-to-agent transfer
+  | 'market'          // Order book settlement (buyer to seller)
+  | 'org'             // Organisation treasury deposits, entry fees and payouts
+  | FiscalCategory;
+
+/**
+ * Flows in and out of the public treasury, and money created or destroyed
+ * by the system. The treasury side of a ledger entry has no account.
+ */
+export type FiscalCategory =
+  | 'transaction_tax' // Share of a payment between agents, paid by the recipient
+  | 'wealth_tax'      // Periodic tax on balances above a threshold
+  | 'public_spending' // Public work paid from the treasury
+  | 'redistribution'  // Treasury paid out equally to living agents
+  | 'money_issued'    // New money (public work under 'mint' funding)
+  | 'currency_decay'; // Idle balances burned by currency decay
+
+// Payments between agents that the transaction tax applies to
+const TAXABLE_CATEGORIES: TransactionCategory[] = ['salary', 'transfer', 'market'];
 
 export interface TransactionResult {
   success: boolean;
@@ -20,6 +37,7 @@ export interface TransactionResult {
   entries: LedgerEntry[];
   fromNewBalance?: number;
   toNewBalance?: number;
+  taxPaid?: number; // Transaction tax the recipient paid to the public treasury
   error?: string;
 }
 
@@ -129,15 +147,59 @@ export async function transfer(
       .where(eq(agents.id, toAgentId));
   }
 
+  // Transaction tax: the recipient of a payment between agents pays a share to the public treasury
+  let taxPaid: number | undefined;
+  if (fromAgentId && toAgentId && TAXABLE_CATEGORIES.includes(category)) {
+    const taxTransfer = await chargeTransactionTax(toAgentId, amount, description, tick);
+    if (taxTransfer) {
+      taxPaid = taxTransfer.tax;
+      toNewBalance = taxTransfer.fromNewBalance;
+      entries.push(...taxTransfer.entries);
+    }
+  }
+
   return {
     success: true,
     txId,
     entries,
     fromNewBalance,
     toNewBalance,
+    taxPaid,
   };
 }
 
+/**
+ * Charge the recipient of a payment between agents the world's transaction tax
+ *
+ * Returns the treasury deposit, or undefined when no tax was due or the
+ * recipient could not pay it.
+ */
+async function chargeTransactionTax(
+  toAgentId: string,
+  amount: number,
+  description: string,
+  tick: number
+): Promise<(TransactionResult & { tax: number }) | undefined> {
+  const [recipient] = await db.select({ tenantId: agents.tenantId })
+    .from(agents)
+    .where(eq(agents.id, toAgentId))
+    .limit(1);
+  const treasury = await getTreasury(recipient?.tenantId ?? null);
+  const tax = Math.floor(amount * treasury.transactionTaxRate);
+  if (tax <= 0) return undefined;
+
+  const taxTransfer = await transferWithTreasury(
+    treasury.tenantId,
+    toAgentId,
+    'deposit',
+    tax,
+    'transaction_tax',
+    `Transaction tax: ${description}`,
+    tick
+  );
+  return taxTransfer.success ? { ...taxTransfer, tax } : undefined;
+}
+
 /**
  * Pay salary to agent (from system)
  */
@@ -150,6 +212,64 @@ export async function paySalary(
   return transfer(null, agentId, amount, 'salary', description, tick);
 }
 
+/**
+ * Pay a wage from employer to worker (taxed like any payment between agents)
+ */
+export async function payWage(
+  employerId: string,
+  workerId: string,
+  amount: number,
+  tick: number,
+  description = 'Wage'
+): Promise<TransactionResult> {
+  return transfer(employerId, workerId, amount, 'salary', description, tick);
+}
+
+/**
+ * Pay a worker out of the escrow an employer deposited for a job
+ *
+ * The escrow left the employer's balance when the job was offered, so only
+ * the worker is credited. The entries still name the employer, and the
+ * worker pays the transaction tax as on any other wage.
+ */
+export async function payFromEscrow(
+  employerId: string,
+  workerId: string,
+  amount: number,
+  tick: number,
+  description = 'Escrow payment'
+): Promise<TransactionResult> {
+  const txId = uuid();
+
+  if (amount <= 0) {
+    return { success: false, txId, entries: [], error: 'Amount must be positive' };
+  }
+
+  const now = new Date();
+  const accounts = { fromAgentId: employerId, toAgentId: workerId };
+
+  // Debit and credit entries
+  const entries = await db.insert(ledger).values([
+    { id: uuid(), txId, tick, ...accounts, amount: -amount, category: 'salary', description, createdAt: now },
+    { id: uuid(), txId, tick, ...accounts, amount, category: 'salary', description, createdAt: now },
+  ]).returning();
+
+  let toNewBalance = (await getBalance(workerId)) + amount;
+  await db.update(agents)
+    .set({ balance: toNewBalance, updatedAt: now })
+    .where(eq(agents.id, workerId));
+
+  let taxPaid: number | undefined;
+  const taxTransfer = await chargeTransactionTax(workerId, amount, description, tick);
+  if (taxTransfer) {
+    taxPaid = taxTransfer.tax;
+    toNewBalance = taxTransfer.fromNewBalance ?? toNewBalance;
+    entries.push(...taxTransfer.entries);
+  }
+
+  return { success: true, txId, entries, toNewBalance, taxPaid };
+}
+
 /**
  * Charge agent for purchase (to system)
  */
@@ -175,6 +295,147 @@ export async function transferBetweenAgents(
   return transfer(fromAgentId, toAgentId, amount, 'transfer', description, tick);
 }
 
+/**
+ * Move CITY between an agent and an organisation treasury
+ *
+ * @param orgId - Organisation whose treasury is debited or credited
+ * @param agentId - Agent on the other side
+ * @param direction - 'deposit' (agent pays the treasury) or 'payout' (treasury pays the agent)
+ * @param amount - Amount to transfer (must be positive)
+ * @param description - Human-readable description
+ * @param tick - Current simulation tick
+ */
+export async function transferWithOrg(
+  orgId: string,
+  agentId: string,
+  direction: 'deposit' | 'payout',
+  amount: number,
+  description: string,
+  tick: number
+): Promise<TransactionResult> {
+  const txId = uuid();
+
+  if (amount <= 0) {
+    return { success: false, txId, entries: [], error: 'Amount must be positive' };
+  }
+
+  const [org] = await db.select({ treasury: organizations.treasury, tenantId: organizations.tenantId })
+    .from(organizations)
+    .where(eq(organizations.id, orgId))
+    .limit(1);
+  if (!org) {
+    return { success: false, txId, entries: [], error: 'Organisation not found' };
+  }
+
+  const agentBalance = await getBalance(agentId);
+  const available = direction === 'deposit' ? agentBalance : org.treasury;
+  if (available < amount) {
+    return {
+      success: false,
+      txId,
+      entries: [],
+      error: `Insufficient ${direction === 'deposit' ? 'balance' : 'treasury'}: need ${amount}, have ${available}`,
+    };
+  }
+
+  const now = new Date();
+  const accounts = direction === 'deposit'
+    ? { fromAgentId: agentId, toOrgId: orgId }
+    : { fromOrgId: orgId, toAgentId: agentId };
+
+  // Debit and credit entries
+  const entries = await db.insert(ledger).values([
+    { id: uuid(), tenantId: org.tenantId, txId, tick, ...accounts, amount: -amount, category: 'org', description, createdAt: now },
+    { id: uuid(), tenantId: org.tenantId, txId, tick, ...accounts, amount, category: 'org', description, createdAt: now },
+  ]).returning();
+
+  // Update balances
+  const newAgentBalance = direction === 'deposit' ? agentBalance - amount : agentBalance + amount;
+  const newTreasury = direction === 'deposit' ? org.treasury + amount : org.treasury - amount;
+  await db.update(agents)
+    .set({ balance: newAgentBalance, updatedAt: now })
+    .where(eq(agents.id, agentId));
+  await db.update(organizations)
+    .set({ treasury: newTreasury, updatedAt: now })
+    .where(eq(organizations.id, orgId));
+
+  return {
+    success: true,
+    txId,
+    entries,
+    fromNewBalance: direction === 'deposit' ? newAgentBalance : newTreasury,
+    toNewBalance: direction === 'deposit' ? newTreasury : newAgentBalance,
+  };
+}
+
+/**
+ * Move CITY between an agent and a world's public treasury
+ *
+ * @param tenantId - World whose treasury is debited or credited (null = default world)
+ * @param agentId - Agent on the other side
+ * @param direction - 'deposit' (agent pays the treasury) or 'payout' (treasury pays the agent)
+ * @param amount - Amount to transfer (must be positive)
+ * @param category - Fiscal category (e.g. wealth_tax, redistribution)
+ * @param description - Human-readable description
+ * @param tick - Current simulation tick
+ */
+export async function transferWithTreasury(
+  tenantId: string | null,
+  agentId: string,
+  direction: 'deposit' | 'payout',
+  amount: number,
+  category: FiscalCategory,
+  description: string,
+  tick: number
+): Promise<TransactionResult> {
+  const txId = uuid();
+
+  if (amount <= 0) {
+    return { success: false, txId, entries: [], error: 'Amount must be positive' };
+  }
+
+  const treasury = await getTreasury(tenantId);
+  const agentBalance = await getBalance(agentId);
+  const available = direction === 'deposit' ? agentBalance : treasury.balance;
+  if (available < amount) {
+    return {
+      success: false,
+      txId,
+      entries: [],
+      error: `Insufficient ${direction === 'deposit' ? 'balance' : 'treasury'}: need ${amount}, have ${available}`,
+    };
+  }
+
+  const now = new Date();
+  const accounts = direction === 'deposit'
+    ? { fromAgentId: agentId, toAgentId: null }
+    : { fromAgentId: null, toAgentId: agentId };
+
+  // Debit and credit entries
+  const entries = await db.insert(ledger).values([
+    { id: uuid(), tenantId, txId, tick, ...accounts, amount: -amount, category, description, createdAt: now },
+    { id: uuid(), tenantId, txId, tick, ...accounts, amount, category, description, createdAt: now },
+  ]).returning();
+
+  // Update balances
+  const newAgentBalance = direction === 'deposit' ? agentBalance - amount : agentBalance + amount;
+  const newTreasury = direction === 'deposit' ? treasury.balance + amount : treasury.balance - amount;
+  await db.update(agents)
+    .set({ balance: newAgentBalance, updatedAt: now })
+    .where(eq(agents.id, agentId));
+  await db.update(publicTreasuries)
+    .set({ balance: newTreasury, updatedAt: now })
+    .where(eq(publicTreasuries.id, treasury.id));
+
+  return {
+    success: true,
+    txId,
+    entries,
+    fromNewBalance: direction === 'deposit' ? newAgentBalance : newTreasury,
+    toNewBalance: direction === 'deposit' ? newTreasury : newAgentBalance,
+  };
+}
+
 /**
  * Get transaction history for agent
  */
@@ -192,6 +453,23 @@ export async function getTransactionHistory(
     .limit(limit);
 }
 
+/**
+ * Get transaction history for an organisation treasury
+ */
+export async function getOrgTransactionHistory(
+  orgId: string,
+  limit = 50
+): Promise<LedgerEntry[]> {
+  return db.select()
+    .from(ledger)
+    .where(or(
+      eq(ledger.fromOrgId, orgId),
+      eq(ledger.toOrgId, orgId)
+    ))
+    .orderBy(desc(ledger.createdAt))
+    .limit(limit);
+}
+
 /**
  * Get total money supply (sum of all agent balances)
  */
@@ -197,8 +197,8 @@ export class ExternalAgentAdapter implements LLMAdapter {
     const response = data as Record<string, unknown>;
 
     // Accept both wrapped and unwrapped formats
-    // Format 1: { action, params, reasoning }
-    // Format 2: { decision: { action, params, reasoning } }
+    // Format 1: { action, params, reasoning, set_goal?, update_plan? }
+    // Format 2: { decision: { action, params, reasoning, set_goal?, update_plan? } }
     const decision = response.decision ?? response;
 
     if (typeof decision !== 'object' || decision === null) {
@@ -212,6 +212,8 @@ export class ExternalAgentAdapter implements LLMAdapter {
       action: decisionObj.action,
       params: decisionObj.params,
       reasoning: decisionObj.reasoning,
+      set_goal: decisionObj.set_goal,
+      update_plan: decisionObj.update_plan,
     });
 
     return parseResponse(jsonStr);
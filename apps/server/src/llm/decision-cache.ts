@@ -113,6 +113,11 @@ function normalizeObservation(obs: AgentObservation): Record<string, unknown> {
       const dist = Math.abs(a.x - obs.self.x) + Math.abs(a.y - obs.self.y);
       return dist <= 1;
     }) ?? false,
+
+    // Plan progress (decisions may set or update the plan)
+    plan: obs.currentPlan
+      ? { goal: obs.currentPlan.goal, currentStep: obs.currentPlan.currentStep }
+      : null,
   };
 }
 
@@ -119,6 +119,7 @@ export { getRandomWalkDecision, getRandomExplorerDecision } from './random-walk'
 // Export Lizard Brain (heuristic decision system)
 export {
   tryLizardBrain,
+  tryPlanStep,
   wouldUseLizardBrain,
   recordLizardBrain,
   recordWizardBrain,
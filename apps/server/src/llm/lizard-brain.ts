@@ -7,6 +7,8 @@
  * - Low balance → work
  * - No urgent needs → explore
  *
+ * - Routine step of the agent's plan → run it (see simulation/plans.ts)
+ *
  * The "Wizard Brain" (LLM) is reserved for:
  * - Social interactions (trade, share_info, harm, steal)
  * - Strategic decisions when stable
@@ -46,7 +48,7 @@ export interface LizardBrainResult {
   /** The decision if handled, null if should use Wizard Brain */
   decision: AgentDecision | null;
   /** Reason for the decision */
-  reason: 'survival_critical' | 'no_social_opportunity' | 'wizard_brain_needed';
+  reason: 'survival_critical' | 'plan_step' | 'no_social_opportunity' | 'wizard_brain_needed';
 }
 
 // =============================================================================
@@ -112,6 +114,36 @@ function getSurvivalDecision(obs: AgentObservation): AgentDecision {
   );
 }
 
+/**
+ * Whether the action the agent took last tick failed (the step would fail again
+ * unless the agent rethinks it)
+ */
+function lastActionFailed(obs: AgentObservation): boolean {
+  return obs.recentEvents.some((event) => event.type === 'action_failed' && event.tick === obs.tick - 1);
+}
+
+/**
+ * Decision for the current step of the agent's plan, if it is routine
+ * (has a concrete action) and nothing needs the agent's attention:
+ * survival needs, trade proposals waiting for an answer and a failed last
+ * action go to a full decision
+ */
+function getPlanStepDecision(obs: AgentObservation): AgentDecision | null {
+  const plan = obs.currentPlan;
+  const step = plan?.steps[plan.currentStep];
+  if (!plan || !step?.action || !step.params) return null;
+
+  if (isSurvivalCritical(obs) || (obs.incomingTradeProposals?.length ?? 0) > 0 || lastActionFailed(obs)) {
+    return null;
+  }
+
+  return {
+    action: step.action,
+    params: step.params as AgentDecision['params'],
+    reasoning: `Plan "${plan.goal}" step ${plan.currentStep + 1}/${plan.steps.length}: ${step.description}`,
+  };
+}
+
 // =============================================================================
 // Main Entry Point
 // =============================================================================
@@ -133,7 +165,17 @@ export function tryLizardBrain(obs: AgentObservation): LizardBrainResult {
     };
   }
 
-  // Case 2: No social opportunity - use Lizard Brain for efficiency
+  // Case 2: Routine plan step - the agent already decided on it
+  const planStep = getPlanStepDecision(obs);
+  if (planStep) {
+    return {
+      handled: true,
+      decision: planStep,
+      reason: 'plan_step',
+    };
+  }
+
+  // Case 3: No social opportunity - use Lizard Brain for efficiency
   if (!hasSocialOpportunity(obs)) {
     // But only if not in a particularly stable state where strategic thinking helps
     if (!isStable(obs)) {
@@ -145,7 +187,7 @@ export function tryLizardBrain(obs: AgentObservation): LizardBrainResult {
     }
   }
 
-  // Case 3: Agent is stable AND has social opportunities - use Wizard Brain
+  // Case 4: Agent is stable AND has social opportunities - use Wizard Brain
   return {
     handled: false,
     decision: null,
@@ -153,12 +195,24 @@ export function tryLizardBrain(obs: AgentObservation): LizardBrainResult {
   };
 }
 
+/**
+ * Run the current plan step without an LLM call if it is routine
+ *
+ * Unlike tryLizardBrain, everything else is left to the agent's own mind.
+ */
+export function tryPlanStep(obs: AgentObservation): LizardBrainResult {
+  const decision = getPlanStepDecision(obs);
+  return decision
+    ? { handled: true, decision, reason: 'plan_step' }
+    : { handled: false, decision: null, reason: 'wizard_brain_needed' };
+}
+
 /**
  * Check if Lizard Brain would handle this observation
  * (for statistics/logging without generating a decision)
  */
 export function wouldUseLizardBrain(obs: AgentObservation): boolean {
-  return isSurvivalCritical(obs) || (!hasSocialOpportunity(obs) && !isStable(obs));
+  return isSurvivalCritical(obs) || getPlanStepDecision(obs) !== null || (!hasSocialOpportunity(obs) && !isStable(obs));
 }
 
 // =============================================================================
@@ -0,0 +1,210 @@
+/**
+ * Memory Embeddings - Semantic Memory Retrieval
+ *
+ * Embeds memory content so retrieval can surface the memories most similar to
+ * an agent's current situation, not just the most recent ones:
+ * - hash: deterministic feature hashing of words and word pairs (no model,
+ *   same vector for the same text on every run; used in tests)
+ * - local: an OpenAI-compatible /v1/embeddings endpoint of a local model
+ *   server (Ollama, llama.cpp, LM Studio)
+ *
+ * Vectors are stored on agent_memories with the embedder name, and ranked
+ * in process: an agent holds at most CONFIG.memory.maxPerAgent memories, so
+ * a brute-force cosine scan is cheaper than maintaining an index.
+ */
+
+import { createHash } from 'node:crypto';
+import type { AgentObservation } from './types';
+import type { AgentMemory } from '../db/schema';
+import { CONFIG } from '../config';
+
+// =============================================================================
+// Embedders
+// =============================================================================
+
+export interface MemoryEmbedder {
+  /** Stored with each vector; vectors from another embedder are not compared */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Lowercased words of a text, without punctuation
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Deterministic embedder: words and adjacent word pairs are hashed into a
+ * fixed number of signed buckets, then the vector is L2-normalized
+ */
+export function createHashingEmbedder(dimensions: number = CONFIG.memory.hashDimensions): MemoryEmbedder {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = tokenize(text);
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const digest = createHash('sha1').update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % dimensions;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+    return normalize(vector);
+  };
+
+  return {
+    name: `hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Embedder backed by a local model server's OpenAI-compatible embeddings endpoint
+ */
+export function createLocalEmbedder(options: { url: string; model: string; timeoutMs: number }): MemoryEmbedder {
+  return {
+    name: options.model,
+    async embed(texts) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+      try {
+        const response = await fetch(options.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: options.model, input: texts }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Embeddings endpoint responded ${response.status}`);
+        }
+        const body = await response.json() as { data: { index: number; embedding: number[] }[] };
+        return [...body.data].sort((a, b) => a.index - b.index).map((item) => normalize(item.embedding));
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+let embedder: MemoryEmbedder | null = null;
+
+/**
+ * Embedder selected by CONFIG.memory.embedder
+ */
+export function getMemoryEmbedder(): MemoryEmbedder {
+  if (!embedder) {
+    embedder = CONFIG.memory.embedder === 'local'
+      ? createLocalEmbedder({
+        url: CONFIG.memory.embeddingUrl,
+        model: CONFIG.memory.embeddingModel,
+        timeoutMs: CONFIG.memory.embeddingTimeoutMs,
+      })
+      : createHashingEmbedder();
+  }
+  return embedder;
+}
+
+/**
+ * Replace the configured embedder
+ * @exported for testing
+ */
+export function setMemoryEmbedder(next: MemoryEmbedder | null): void {
+  embedder = next;
+}
+
+/**
+ * Check if memories are embedded and semantically retrieved
+ */
+export function isSemanticMemoryEnabled(): boolean {
+  return CONFIG.memory.semanticRetrieval;
+}
+
+// =============================================================================
+// Similarity
+// =============================================================================
+
+/**
+ * Cosine similarity (vectors of different length score 0)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Top-k memories by similarity to a query vector, skipping memories embedded
+ * by another embedder and those below minSimilarity
+ */
+export function rankMemoriesBySimilarity(
+  memories: AgentMemory[],
+  query: number[],
+  embedderName: string,
+  limit: number,
+  minSimilarity = 0
+): { memory: AgentMemory; similarity: number }[] {
+  return memories
+    .filter((memory) => memory.embedding && memory.embeddingModel === embedderName)
+    .map((memory) => ({ memory, similarity: cosineSimilarity(memory.embedding!, query) }))
+    .filter(({ similarity }) => similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity || b.memory.tick - a.memory.tick)
+    .slice(0, limit);
+}
+
+// =============================================================================
+// Situation Summary
+// =============================================================================
+
+/**
+ * Describe the agent's current situation in the vocabulary memories are
+ * written in (needs, items, agents, pending trades and jobs), as the query
+ * for semantic retrieval
+ */
+export function buildSituationSummary(obs: AgentObservation): string {
+  const parts: string[] = [];
+
+  if (obs.self.hunger < 40) parts.push('hungry, need food, eat');
+  if (obs.self.energy < 40) parts.push('tired, low energy, sleep, rest');
+  if (obs.self.health < 50) parts.push('hurt, low health, harmed');
+  if (obs.self.balance < 20) parts.push('low balance, need CITY, work, job');
+
+  if (obs.inventory.length > 0) {
+    parts.push(`have ${obs.inventory.map((item) => `${item.quantity}x ${item.type}`).join(', ')}`);
+  }
+  if (obs.nearbyAgents.length > 0) {
+    parts.push(`near ${obs.nearbyAgents.map((agent) => agent.id.slice(0, 8)).join(', ')}`);
+  }
+  const resources = new Set((obs.nearbyResourceSpawns ?? []).map((spawn) => spawn.resourceType));
+  if (resources.size > 0) parts.push(`${[...resources].join(', ')} nearby, gather`);
+  if ((obs.nearbyShelters ?? []).length > 0) parts.push('shelter nearby, buy');
+
+  for (const proposal of obs.incomingTradeProposals ?? []) {
+    parts.push(
+      `trade from ${proposal.proposerId.slice(0, 8)}: ${proposal.offeringQuantity}x ${proposal.offeringItemType} ` +
+      `for ${proposal.requestingQuantity}x ${proposal.requestingItemType}`
+    );
+  }
+  for (const offer of obs.nearbyJobOffers ?? []) {
+    parts.push(`job offer from ${offer.employerId.slice(0, 8)}`);
+  }
+  for (const event of obs.recentEvents.slice(-3)) {
+    parts.push(event.description);
+  }
+
+  return parts.join('. ');
+}
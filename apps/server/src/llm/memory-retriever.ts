@@ -6,11 +6,15 @@
  * - Memories about nearby agents (reputation/vendetta)
  * - Location-relevant memories (what happened here before)
  * - Important memories (significant past events)
+ * - Reflections (beliefs consolidated from older episodes, see reflection.ts)
+ * - Semantically relevant memories (most similar to the current situation,
+ *   see memory-embeddings.ts)
  *
  * This enables long-term behavior patterns like:
  * - Vendetta formation (remembering who harmed you)
  * - Reputation tracking (remembering who is trustworthy)
  * - Location associations (remembering dangers/opportunities)
+ * - Lessons (what happened the last time the agent was in a similar spot)
  */
 
 import type { AgentObservation, AgentMemoryEntry } from './types';
@@ -20,8 +24,16 @@ import {
   getMemoriesAboutAgents,
   getMemoriesAtLocation,
   getMostImportantMemories,
+  getEmbeddedMemories,
+  getMemoriesByType,
 } from '../db/queries/memories';
 import { CONFIG } from '../config';
+import {
+  buildSituationSummary,
+  getMemoryEmbedder,
+  isSemanticMemoryEnabled,
+  rankMemoriesBySimilarity,
+} from './memory-embeddings';
 
 // =============================================================================
 // Types
@@ -30,6 +42,10 @@ import { CONFIG } from '../config';
 export interface RetrievedMemories {
   /** Last few memories (chronological context) */
   recent: AgentMemory[];
+  /** Latest reflections (beliefs summarising older episodes) */
+  reflections: AgentMemory[];
+  /** Memories most similar to the current situation (empty unless semantic retrieval is on) */
+  relevant: AgentMemory[];
   /** Memories about agents currently visible */
   aboutNearbyAgents: AgentMemory[];
   /** Memories about the current location */
@@ -51,6 +67,14 @@ export interface MemoryRetrievalConfig {
   locationRadius: number;
   /** Total maximum memories to include in context */
   totalLimit: number;
+  /** Maximum reflections */
+  reflectionLimit: number;
+  /** Maximum semantically relevant memories */
+  semanticLimit: number;
+  /** Minimum cosine similarity for a relevant memory */
+  minSimilarity: number;
+  /** Estimated token budget for the formatted memories */
+  maxTokens: number;
 }
 
 const DEFAULT_CONFIG: MemoryRetrievalConfig = {
@@ -60,6 +84,10 @@ const DEFAULT_CONFIG: MemoryRetrievalConfig = {
   importantLimit: 3,
   locationRadius: 3,
   totalLimit: 12, // Keep context manageable for LLM
+  reflectionLimit: 3,
+  semanticLimit: 4,
+  minSimilarity: 0.2,
+  maxTokens: 600,
 };
 
 // =============================================================================
@@ -74,6 +102,9 @@ const DEFAULT_CONFIG: MemoryRetrievalConfig = {
  * 2. Query memories about nearby agents (social context)
  * 3. Query memories about current location (spatial context)
  * 4. Include high-importance memories (long-term significant events)
+ * 5. Include the latest reflections (beliefs)
+ * 6. With semantic retrieval on, rank embedded memories by similarity to a
+ *    summary of the current situation
  *
  * Memories are deduplicated and limited to prevent context overflow.
  */
@@ -85,10 +116,13 @@ export async function retrieveContextualMemories(
   const cfg = { ...DEFAULT_CONFIG, ...config };
 
   // Parallel queries for efficiency
-  const [recent, locationRelevant, important] = await Promise.all([
+  const [recent, reflections, locationRelevant, important] = await Promise.all([
     // Recent memories (what just happened)
     getRecentMemories(agentId, cfg.recentLimit),
 
+    // Beliefs consolidated from older episodes
+    cfg.reflectionLimit > 0 ? getMemoriesByType(agentId, 'reflection', cfg.reflectionLimit) : [],
+
     // Location-relevant memories (what happened here before)
     getMemoriesAtLocation(
       agentId,
@@ -116,44 +150,54 @@ export async function retrieveContextualMemories(
 
   return {
     recent,
+    reflections,
+    relevant: isSemanticMemoryEnabled() ? await retrieveRelevantMemories(agentId, observation, cfg) : [],
     aboutNearbyAgents,
     locationRelevant,
     important,
   };
 }
 
+/**
+ * Memories most similar to the agent's current situation
+ */
+export async function retrieveRelevantMemories(
+  agentId: string,
+  observation: AgentObservation,
+  config: Partial<MemoryRetrievalConfig> = {}
+): Promise<AgentMemory[]> {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const summary = buildSituationSummary(observation);
+  if (!summary || cfg.semanticLimit <= 0) return [];
+
+  const embedder = getMemoryEmbedder();
+  const [candidates, [query]] = await Promise.all([
+    getEmbeddedMemories(agentId, embedder.name),
+    embedder.embed([summary]),
+  ]);
+
+  return rankMemoriesBySimilarity(candidates, query, embedder.name, cfg.semanticLimit, cfg.minSimilarity)
+    .map(({ memory }) => memory);
+}
+
 /**
  * Deduplicate memories across categories
  * Returns unique memories, preferring to keep them in priority order:
- * recent > aboutNearbyAgents > locationRelevant > important
+ * recent > reflections > relevant > aboutNearbyAgents > locationRelevant > important
  */
 export function deduplicateMemories(retrieved: RetrievedMemories): AgentMemory[] {
   const seen = new Set<string>();
   const result: AgentMemory[] = [];
 
   // Add in priority order
-  for (const memory of retrieved.recent) {
-    if (!seen.has(memory.id)) {
-      seen.add(memory.id);
-      result.push(memory);
-    }
-  }
-
-  for (const memory of retrieved.aboutNearbyAgents) {
-    if (!seen.has(memory.id)) {
-      seen.add(memory.id);
-      result.push(memory);
-    }
-  }
-
-  for (const memory of retrieved.locationRelevant) {
-    if (!seen.has(memory.id)) {
-      seen.add(memory.id);
-      result.push(memory);
-    }
-  }
-
-  for (const memory of retrieved.important) {
+  for (const memory of [
+    ...retrieved.recent,
+    ...retrieved.reflections,
+    ...retrieved.relevant,
+    ...retrieved.aboutNearbyAgents,
+    ...retrieved.locationRelevant,
+    ...retrieved.important,
+  ]) {
     if (!seen.has(memory.id)) {
       seen.add(memory.id);
       result.push(memory);
@@ -176,9 +220,17 @@ export function memoryToEntry(memory: AgentMemory): AgentMemoryEntry {
   };
 }
 
+/**
+ * Rough token count of prompt text (~4 characters per token)
+ */
+export function estimatePromptTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
 /**
  * Format retrieved memories for inclusion in the LLM prompt
- * Groups memories by category with headers for clarity
+ * Groups memories by category with headers for clarity, stopping at
+ * totalLimit memories or maxTokens estimated tokens
  */
 export function formatMemoriesForPrompt(
   retrieved: RetrievedMemories,
@@ -189,6 +241,7 @@ export function formatMemoriesForPrompt(
   const lines: string[] = [];
   const seen = new Set<string>();
   let totalCount = 0;
+  let tokens = 0;
 
   // Helper to format a single memory
   const formatMemory = (memory: AgentMemory): string => {
@@ -201,67 +254,52 @@ export function formatMemoriesForPrompt(
     return `- [Tick ${memory.tick}] ${memory.content} ${sentiment}${importance}`;
   };
 
-  // Recent memories
-  if (retrieved.recent.length > 0) {
-    lines.push('### Recent Memories');
-    for (const memory of retrieved.recent) {
-      if (totalCount >= cfg.totalLimit) break;
-      if (!seen.has(memory.id)) {
-        seen.add(memory.id);
-        lines.push(formatMemory(memory));
-        totalCount++;
-      }
+  // Add a section; its header is only written once one of its memories fits
+  const addSection = (header: string, memories: AgentMemory[], suffix: (memory: AgentMemory) => string = () => '') => {
+    let headerWritten = false;
+    for (const memory of memories) {
+      if (totalCount >= cfg.totalLimit) return;
+      if (seen.has(memory.id)) continue;
+
+      const line = formatMemory(memory) + suffix(memory);
+      const heading = headerWritten ? [] : lines.length > 0 ? ['', header] : [header];
+      const cost = estimatePromptTokens([...heading, line].join('\n'));
+      if (tokens + cost > cfg.maxTokens) return;
+
+      lines.push(...heading, line);
+      headerWritten = true;
+      seen.add(memory.id);
+      tokens += cost;
+      totalCount++;
     }
-  }
+  };
+
+  // Recent memories
+  addSection('### Recent Memories', retrieved.recent);
+
+  // Beliefs from reflection
+  addSection('### Your Beliefs', retrieved.reflections);
+
+  // Memories most similar to the current situation
+  addSection('### Relevant Past Experiences', retrieved.relevant);
 
   // Memories about nearby agents
-  if (retrieved.aboutNearbyAgents.length > 0 && totalCount < cfg.totalLimit) {
-    lines.push('', '### Memories About Nearby Agents');
-    for (const memory of retrieved.aboutNearbyAgents) {
-      if (totalCount >= cfg.totalLimit) break;
-      if (!seen.has(memory.id)) {
-        seen.add(memory.id);
-        // Try to identify which nearby agent this memory is about
-        const involvedIds = memory.involvedAgentIds as string[];
-        const relevantAgents = involvedIds.filter((id) => nearbyAgentIds.includes(id));
-        const agentLabel = relevantAgents.length > 0
-          ? ` (about ${relevantAgents.map((id) => id.slice(0, 8)).join(', ')})`
-          : '';
-        lines.push(formatMemory(memory) + agentLabel);
-        totalCount++;
-      }
-    }
-  }
+  addSection('### Memories About Nearby Agents', retrieved.aboutNearbyAgents, (memory) => {
+    // Try to identify which nearby agent this memory is about
+    const involvedIds = memory.involvedAgentIds as string[];
+    const relevantAgents = involvedIds.filter((id) => nearbyAgentIds.includes(id));
+    return relevantAgents.length > 0
+      ? ` (about ${relevantAgents.map((id) => id.slice(0, 8)).join(', ')})`
+      : '';
+  });
 
   // Location-relevant memories
-  if (retrieved.locationRelevant.length > 0 && totalCount < cfg.totalLimit) {
-    lines.push('', '### Memories About This Location');
-    for (const memory of retrieved.locationRelevant) {
-      if (totalCount >= cfg.totalLimit) break;
-      if (!seen.has(memory.id)) {
-        seen.add(memory.id);
-        const locationInfo = memory.x !== null && memory.y !== null
-          ? ` (at ${memory.x}, ${memory.y})`
-          : '';
-        lines.push(formatMemory(memory) + locationInfo);
-        totalCount++;
-      }
-    }
-  }
+  addSection('### Memories About This Location', retrieved.locationRelevant, (memory) =>
+    memory.x !== null && memory.y !== null ? ` (at ${memory.x}, ${memory.y})` : ''
+  );
 
   // Important memories (only if we have room and they're not already included)
-  if (retrieved.important.length > 0 && totalCount < cfg.totalLimit) {
-    const importantNotSeen = retrieved.important.filter((m) => !seen.has(m.id));
-    if (importantNotSeen.length > 0) {
-      lines.push('', '### Significant Past Events');
-      for (const memory of importantNotSeen) {
-        if (totalCount >= cfg.totalLimit) break;
-        seen.add(memory.id);
-        lines.push(formatMemory(memory));
-        totalCount++;
-      }
-    }
-  }
+  addSection('### Significant Past Events', retrieved.important);
 
   return lines.join('\n');
 }
@@ -14,7 +14,7 @@
  * - Personality diversification: Subtle behavioral biases per agent
  */
 
-import type { AgentObservation, AvailableAction } from './types';
+import type { AgentObservation, AvailableAction, CurrentPlan } from './types';
 import { CONFIG, isEmergentPromptEnabled } from '../config';
 import {
   applySyntheticVocabulary,
@@ -48,6 +48,7 @@ import {
   hasCustomPrompt,
   getEffectiveSystemPrompt,
 } from './prompt-manager';
+import { getCraftableRecipes, formatRecipe } from '../actions/utils/recipes';
 
 // =============================================================================
 // Types for Extended Prompt Building
@@ -109,16 +110,33 @@ Respond with ONLY a JSON object. No other text. Format:
   "reasoning": "<brief explanation>"
 }
 
+Optionally add a plan you keep across ticks (shown to you every tick):
+- "set_goal": { "goal": string, "steps": [string or { "description": string, "action": "<action_type>", "params": {...} }], "deadlineInTicks"?: number }
+- "update_plan": { "stepDone"?: true, "steps"?: [...remaining steps], "status"?: "completed"|"abandoned", "reason"?: string }
+Steps with an action and params are carried out for you without asking you again, unless you are in danger.
+
 ## Available Actions
 - move: Move to adjacent cell. Params: { "toX": number, "toY": number }
+- travel_to: Walk to a distant cell along the cheapest path, one step per tick, without deciding again until you arrive (stops early if you get critically hungry/tired or hurt). Water costs 3x energy, buildings block. Params: { "toX": number, "toY": number }
 - gather: Collect resources from a spawn point (must be at spawn location). Params: { "resourceType": "food"|"energy"|"material", "quantity": 1-5 }
 - forage: Search for food anywhere (low yield but FREE, no spawn required). Params: {} (no params needed)
 - public_work: Do public work at a shelter for CITY payment (always available!). Params: { "taskType"?: "road_maintenance"|"resource_survey"|"shelter_cleanup" }
 - buy: Purchase items with CITY currency. REQUIRES being at a SHELTER! Params: { "itemType": "food"|"water"|"medicine", "quantity": number }
 - consume: Use items FROM YOUR INVENTORY to restore needs. REQUIRES having items first! Params: { "itemType": "food"|"water"|"medicine" }
+- craft: Turn inventory items into a new item (inputs are used up, tools wear out, crafting can fail). shelter_kit = 3 material + tool (3 ticks), ration = 2 food + 1 battery (1 tick), tool = 2 material (2 ticks); you can do nothing else until it is done. Params: { "recipeId": "shelter_kit"|"ration"|"tool" }
+- build: One tick of work on a structure AT YOUR POSITION (uses material + energy every tick). Starts a new one, continues a construction site (you can help others) or repairs a finished one. Structures you own decay and collapse without repairs. shelter (4 ticks, 2 material/tick), storage (3 ticks), market_stall (2 ticks, its own order book for place_order), wall (2 ticks, blocks movement). Params: { "structureType": "shelter"|"storage"|"market_stall"|"wall" }
+- demolish: Tear down a structure at or next to you and salvage half its materials (even if someone else owns it). Params: { "structureId"?: string }
+- deposit: Store items in a container AT YOUR POSITION. Without containerId, uses (or places) your own container here; a container inside a finished storage holds more. Params: { "itemType": string, "quantity": number, "containerId"?: string }
+- withdraw: Take items from a container at your position that you have withdraw access to. Params: { "containerId": string, "itemType": string, "quantity": number }
+- grant_access: Decide who may use a container you own - an agent, a puzzle team, or anyone holding a credential of a claim type (optionally from one issuer). withdraw includes deposit; "none" revokes. Params: { "containerId": string, "granteeType": "agent"|"team"|"credential", "granteeId"?: string, "claimType"?: string, "permission": "deposit"|"withdraw"|"none" }
 - sleep: Rest to restore energy. Params: { "duration": 1-10 }
 - work: Work on your active employment contract. REQUIRES having an active job! Params: {} (works on oldest contract)
-- trade: Exchange items with a nearby agent. Params: { "targetAgentId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number }
+- propose_trade: Offer a trade to a nearby agent; items only move if they accept. Params: { "targetAgentId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number, "expiresInTicks"?: number }
+- accept_trade: Accept a trade proposal addressed to you. Params: { "proposalId": string }
+- reject_trade: Decline a trade proposal addressed to you. Params: { "proposalId": string, "reason"?: string }
+- counter_trade: Answer a trade proposal with your own terms. Params: { "proposalId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number }
+- place_order: Post a limit order on the market of the shelter or market stall you are at. bid = buy at up to price, ask = sell at price or more (items are held until sold). Orders are matched with other agents' orders at the end of the tick. Params: { "side": "bid"|"ask", "itemType": string, "quantity": number, "price": number, "expiresInTicks"?: number }
+- cancel_order: Cancel one of your open market orders (unsold items come back). Params: { "orderId": string }
 - offer_job: Post a job offer for other agents to accept. Params: { "salary": number, "duration": number, "paymentType": "upfront"|"on_completion"|"per_tick", "escrowPercent"?: 0-100, "description"?: string }
 - accept_job: Accept an available job offer. Params: { "jobOfferId": string }
 - pay_worker: Pay a worker for completed on_completion contract. Params: { "employmentId": string }
@@ -127,7 +145,7 @@ Respond with ONLY a JSON object. No other text. Format:
 - fire_worker: Fire a worker from active employment (trust penalty). Params: { "employmentId": string }
 - cancel_job_offer: Cancel your open job offer. Params: { "jobOfferId": string }
 - harm: Attack a nearby agent (must be adjacent). Params: { "targetAgentId": string, "intensity": "light"|"moderate"|"severe" }
-- steal: Take items from a nearby agent (must be adjacent). Params: { "targetAgentId": string, "targetItemType": string, "quantity": number }
+- steal: Take items from a nearby agent (must be adjacent), or from a container next to you without access (the owner may find out who did it). Params: { "targetAgentId"?: string, "targetContainerId"?: string, "targetItemType": string, "quantity": number }
 - deceive: Tell false information to a nearby agent. Params: { "targetAgentId": string, "claim": string, "claimType": "resource_location"|"agent_reputation"|"danger_warning"|"trade_offer"|"other" }
 - share_info: Share information about a third party with a nearby agent. Params: { "targetAgentId": string, "subjectAgentId": string, "infoType": "location"|"reputation"|"warning"|"recommendation", "claim"?: string, "sentiment"?: -100 to 100 }
 - claim: Mark a location as yours (home, territory, resource, danger, meeting_point). Params: { "claimType": "territory"|"home"|"resource"|"danger"|"meeting_point", "description"?: string }
@@ -135,6 +153,14 @@ Respond with ONLY a JSON object. No other text. Format:
 - issue_credential: Issue a verifiable credential to vouch for another agent's skills/character. Params: { "subjectAgentId": string, "claimType": "skill"|"experience"|"membership"|"character"|"custom", "description": string, "evidence"?: string, "level"?: 1-10, "expiresAtTick"?: number }
 - revoke_credential: Revoke a credential you previously issued. Params: { "credentialId": string, "reason"?: string }
 - spread_gossip: Share reputation information about a third agent with a nearby agent. Params: { "targetAgentId": string, "subjectAgentId": string, "topic": "skill"|"behavior"|"transaction"|"warning"|"recommendation", "claim": string, "sentiment": -100 to 100 }
+- send_message: Send a private message to one agent nearby or one you know. Reply to a message in your inbox with "replyTo". Params: { "targetAgentId": string, "content": string, "replyTo"?: string, "conversationId"?: string }
+- found_org: Found an organisation (alliance, guild, firm...) and set its membership rules; the deposit goes into its treasury. Params: { "name": string, "entryFee"?: number, "minTrust"?: -100 to 100, "maxMembers"?: number, "deposit"?: number }
+- join_org: Join an organisation one of whose members is nearby; you pay its entry fee into the treasury. Params: { "orgId": string }
+- leave_org: Leave an organisation (the last member to leave dissolves it and takes the treasury). Params: { "orgId": string }
+- expel_member: Expel a member from an organisation you founded. Params: { "orgId": string, "memberId": string }
+- propose: Put a decision to a vote of an organisation you belong to, the area around a claim you are near, or the whole world. If it passes, the outcome is binding: "tax" (each member pays amount into the org treasury), "banish" (targetAgentId is expelled from the org or barred from the claim area), "shelter_price" (a shelter's prices are multiplied by priceMultiplier), "fiscal_policy" (world only: set the public treasury's transactionTaxRate, wealthTaxRate, wealthTaxThreshold, publicWorkFunding "mint"|"treasury" or redistributionShare) or "resolution" (non-binding). You set the rule: threshold (yes share to exceed, default 0.5), quorum (share of voters needed, default 0) and weighting ("equal" or "stake" = by balance). Params: { "scope": "org"|"claim"|"world", "scopeId"?: string, "title": string, "outcome": "tax"|"banish"|"shelter_price"|"fiscal_policy"|"resolution", "amount"?: number, "targetAgentId"?: string, "shelterId"?: string, "priceMultiplier"?: number, "transactionTaxRate"?: 0-1, "wealthTaxRate"?: 0-1, "wealthTaxThreshold"?: number, "publicWorkFunding"?: "mint"|"treasury", "redistributionShare"?: 0-1, "threshold"?: 0-1, "quorum"?: 0-1, "weighting"?: "equal"|"stake", "votingTicks"?: number }
+- vote: Vote on an open proposal (you can change your vote until it closes). Params: { "proposalId": string, "choice": "yes"|"no"|"abstain" }
+- tally: Count the votes on a proposal whose voting has closed and apply its outcome. Params: { "proposalId": string }
 - spawn_offspring: Reproduce to create a new agent (requires high resources). Params: { "partnerId"?: string, "inheritSystemPrompt"?: boolean, "mutationIntensity"?: 0-1 }
 - join_puzzle: Join a puzzle game (requires stake). Params: { "gameId": string, "stakeAmount"?: number }
 - leave_puzzle: Leave a puzzle game (lose 50% of stake). Params: { "gameId": string }
@@ -256,6 +282,7 @@ export function buildObservationPrompt(
       locationLimit: CONFIG.memory.ragLocationLimit,
       importantLimit: CONFIG.memory.ragImportantLimit,
       totalLimit: CONFIG.memory.ragTotalLimit,
+      maxTokens: CONFIG.memory.ragMaxTokens,
     });
 
     if (formattedMemories.trim()) {
@@ -271,6 +298,11 @@ export function buildObservationPrompt(
     }
   }
 
+  // Plan: the goal set on an earlier tick
+  if (obs.currentPlan) {
+    lines.push('', '### Your Plan', ...formatPlanForPrompt(obs.currentPlan, obs.tick));
+  }
+
   // Nearby agents (with relationship info if available)
   if (obs.nearbyAgents.length > 0) {
     lines.push('', '### Nearby Agents');
@@ -320,7 +352,7 @@ export function buildObservationPrompt(
 
       for (const trader of tradeableAgents) {
         const rel = obs.relationships?.[trader.id];
-        const trustBonus = rel && rel.trustScore > 20 ? ' (TRUSTED: +20% bonus!)' : '';
+        const trustBonus = rel && rel.trustScore > 20 ? ' (TRUSTED)' : '';
 
         // Check what they have that we might need
         const theirFood = trader.inventory?.find(i => i.type === 'food');
@@ -372,7 +404,7 @@ export function buildObservationPrompt(
         }
       }
 
-      lines.push('TIP: Trade directly to get items WITHOUT paying shelter prices!');
+      lines.push('TIP: Propose a trade to get items WITHOUT paying shelter prices!');
     }
   }
 
@@ -443,6 +475,41 @@ export function buildObservationPrompt(
       const distance = Math.abs(obs.self.x - shelter.x) + Math.abs(obs.self.y - shelter.y);
       const atShelter = distance === 0 ? ' YOU ARE HERE' : ` (${distance} tiles away)`;
       lines.push(`- Shelter at (${shelter.x}, ${shelter.y})${shelter.canSleep ? ' (can rest)' : ''}${atShelter}`);
+      for (const quote of shelter.market ?? []) {
+        const bid = quote.bestBid !== undefined ? `bid ${quote.bestBid} (${quote.bidQuantity})` : 'no bids';
+        const ask = quote.bestAsk !== undefined ? `ask ${quote.bestAsk} (${quote.askQuantity})` : 'no asks';
+        lines.push(`  - Market ${quote.itemType}: ${bid} / ${ask}`);
+      }
+    }
+  }
+
+  // Nearby structures (agent-built)
+  if (obs.nearbyStructures && obs.nearbyStructures.length > 0) {
+    lines.push('', '### Nearby Structures');
+    for (const structure of obs.nearbyStructures) {
+      const distance = Math.abs(obs.self.x - structure.x) + Math.abs(obs.self.y - structure.y);
+      const here = distance === 0 ? ' YOU ARE HERE' : ` (${distance} tiles away)`;
+      const owner = structure.ownerId === obs.self.id ? 'YOURS' : structure.ownerId ? `by ${structure.ownerId.slice(0, 8)}` : 'abandoned';
+      const state = structure.status === 'under_construction'
+        ? `under construction ${structure.buildProgress}/${structure.buildTicksRequired}`
+        : `condition ${structure.condition}%`;
+      lines.push(`- ${structure.structureType} at (${structure.x}, ${structure.y}) [${owner}, ${state}]${here} [id: ${structure.id}]`);
+    }
+  }
+
+  // Nearby containers (shared storage)
+  if (obs.nearbyContainers && obs.nearbyContainers.length > 0) {
+    lines.push('', '### Nearby Containers');
+    for (const container of obs.nearbyContainers) {
+      const distance = Math.abs(obs.self.x - container.x) + Math.abs(obs.self.y - container.y);
+      const here = distance === 0 ? ' YOU ARE HERE' : ` (${distance} tiles away)`;
+      const owner = container.ownerId === obs.self.id ? 'YOURS' : container.ownerId ? `owned by ${container.ownerId.slice(0, 8)}` : 'ownerless';
+      const access = container.canWithdraw ? 'you can withdraw' : container.canDeposit ? 'you can deposit' : 'no access';
+      const stored = container.contents.reduce((sum, i) => sum + i.quantity, 0);
+      const contents = container.contents.length > 0
+        ? container.contents.map((i) => `${i.quantity}x ${i.type}`).join(', ')
+        : 'empty';
+      lines.push(`- Container at (${container.x}, ${container.y}) [${owner}, ${access}, ${stored}/${container.capacity}: ${contents}]${here} [id: ${container.id}]`);
     }
   }
 
@@ -549,6 +616,103 @@ export function buildObservationPrompt(
     }
   }
 
+  // Trade Proposals: offers waiting for my answer
+  if (obs.incomingTradeProposals && obs.incomingTradeProposals.length > 0) {
+    lines.push('', '### Trade Proposals For You');
+    for (const p of obs.incomingTradeProposals) {
+      const counter = p.isCounterOffer ? ' (counter-offer)' : '';
+      lines.push(
+        `- [${p.id}] ${p.proposerId.slice(0, 8)} offers ${p.offeringQuantity}x ${p.offeringItemType} for your ${p.requestingQuantity}x ${p.requestingItemType}${counter} - expires tick ${p.expiresAtTick}`
+      );
+    }
+  }
+
+  // Direct messages: newest first
+  if (obs.inbox && obs.inbox.length > 0) {
+    lines.push('', '### Messages For You');
+    for (const m of obs.inbox) {
+      const reply = m.replyToId ? ' (reply)' : '';
+      lines.push(`- [${m.id}] tick ${m.sentAtTick}, from ${m.fromId.slice(0, 8)}${reply}: "${m.content}"`);
+    }
+  }
+
+  // Organisations: memberships and joinable organisations nearby
+  if (obs.myOrganizations && obs.myOrganizations.length > 0) {
+    lines.push('', '### Your Organisations');
+    for (const o of obs.myOrganizations) {
+      const others = o.memberIds.filter((id) => id !== obs.self.id).map((id) => id.slice(0, 8));
+      const founder = o.role === 'founder' ? 'you founded it' : `founder ${o.founderId?.slice(0, 8) ?? 'none'}`;
+      lines.push(
+        `- [${o.id}] "${o.name}" - ${founder}, members: ${others.length > 0 ? others.join(', ') : 'only you'}, treasury ${o.treasury.toFixed(1)} CITY, entry fee ${o.entryFee}`
+      );
+    }
+  }
+  if (obs.nearbyOrganizations && obs.nearbyOrganizations.length > 0) {
+    lines.push('', '### Organisations Nearby');
+    for (const o of obs.nearbyOrganizations) {
+      const rules = [`entry fee ${o.entryFee}`];
+      if (o.minTrust !== undefined) rules.push(`founder trust >= ${o.minTrust}`);
+      if (o.maxMembers !== undefined) rules.push(`max ${o.maxMembers} members`);
+      lines.push(
+        `- [${o.id}] "${o.name}" - ${o.memberCount} members (nearby: ${o.nearbyMemberIds.map((id) => id.slice(0, 8)).join(', ')}), ${rules.join(', ')}`
+      );
+    }
+  }
+
+  // Governance: open votes and banishments
+  if (obs.openProposals && obs.openProposals.length > 0) {
+    lines.push('', '### Open Proposals');
+    for (const p of obs.openProposals) {
+      const rule = `needs >${Math.round(p.threshold * 100)}% yes${p.quorum > 0 ? `, ${Math.round(p.quorum * 100)}% turnout` : ''}${p.weighting === 'stake' ? ', weighted by balance' : ''}`;
+      const state = p.readyToTally
+        ? 'voting closed - ready to tally'
+        : `closes tick ${p.closesAtTick}${p.myVote ? `, you voted ${p.myVote}` : ', you have not voted'}`;
+      lines.push(`- [${p.id}] ${p.scope} vote: "${p.title}" - if passed: ${p.outcomeSummary} (${rule}; ${state})`);
+    }
+  }
+  if (obs.banishedFrom && obs.banishedFrom.length > 0) {
+    lines.push('', '### Banished From');
+    for (const b of obs.banishedFrom) {
+      const until = b.expiresAtTick !== undefined ? ` until tick ${b.expiresAtTick}` : '';
+      lines.push(`- Within ${b.radius} tiles of (${b.x}, ${b.y})${until} - you cannot move there`);
+    }
+  }
+
+  // Fiscal policy: what the public treasury takes and pays out
+  if (obs.publicTreasury) {
+    const t = obs.publicTreasury;
+    lines.push('', '### Public Treasury');
+    lines.push(`- Balance: ${t.balance.toFixed(0)} CITY`);
+    lines.push(`- Transaction tax: ${Math.round(t.transactionTaxRate * 100)}% of each wage and trade payment, paid by the recipient`);
+    lines.push(
+      `- Wealth tax: ${Math.round(t.wealthTaxRate * 100)}% of balances above ${t.wealthTaxThreshold} CITY, every ${CONFIG.fiscal.interval} ticks`
+    );
+    lines.push(
+      `- Redistribution: ${Math.round(t.redistributionShare * 100)}% of the treasury shared equally every ${CONFIG.fiscal.interval} ticks`
+    );
+    lines.push(`- Public work is paid ${t.publicWorkFunding === 'treasury' ? 'from the treasury' : 'with newly issued money'}`);
+  }
+
+  // Trade Proposals: my offers awaiting an answer
+  if (obs.myTradeProposals && obs.myTradeProposals.length > 0) {
+    lines.push('', '### Your Pending Trade Proposals');
+    for (const p of obs.myTradeProposals) {
+      lines.push(
+        `- To ${p.targetId.slice(0, 8)}: your ${p.offeringQuantity}x ${p.offeringItemType} for their ${p.requestingQuantity}x ${p.requestingItemType} - expires tick ${p.expiresAtTick}`
+      );
+    }
+  }
+
+  // Market: my open orders
+  if (obs.myMarketOrders && obs.myMarketOrders.length > 0) {
+    lines.push('', '### Your Open Market Orders');
+    for (const o of obs.myMarketOrders) {
+      lines.push(
+        `- [${o.id}] ${o.side === 'bid' ? 'Buying' : 'Selling'} ${o.remaining}x ${o.itemType} at ${o.price} CITY - expires tick ${o.expiresAtTick}`
+      );
+    }
+  }
+
   // Puzzle Game System (Fragment Chase)
   if (obs.activePuzzleGames && obs.activePuzzleGames.length > 0) {
     lines.push('', '### 🧩 Puzzle Games (Fragment Chase)');
@@ -879,6 +1043,9 @@ export async function buildFinalPromptWithMemories(
         importantLimit: CONFIG.memory.ragImportantLimit,
         totalLimit: CONFIG.memory.ragTotalLimit,
         locationRadius: CONFIG.memory.ragLocationRadius,
+        reflectionLimit: CONFIG.memory.ragReflectionLimit,
+        semanticLimit: CONFIG.memory.ragSemanticLimit,
+        minSimilarity: CONFIG.memory.ragSemanticMinSimilarity,
       });
     } catch (error) {
       // Log error but continue with prompt building - memories are enhancement, not critical
@@ -924,6 +1091,20 @@ export function getActiveTransformations(): {
   };
 }
 
+/**
+ * Plan lines: goal, deadline and steps with the current one marked
+ */
+function formatPlanForPrompt(plan: CurrentPlan, tick: number): string[] {
+  const lines = [`Goal: ${plan.goal} (deadline tick ${plan.deadlineTick}, ${Math.max(0, plan.deadlineTick - tick)} ticks left)`];
+  plan.steps.forEach((step, i) => {
+    const marker = step.done ? '[x]' : i === plan.currentStep ? '[>]' : '[ ]';
+    const routine = step.action && !step.done ? ` (${step.action}, automatic)` : '';
+    lines.push(`${marker} ${i + 1}. ${step.description}${routine}`);
+  });
+  lines.push('Use "update_plan" to mark a step done, change the remaining steps, or complete/abandon the plan.');
+  return lines;
+}
+
 /**
  * Get status emoji based on value
  */
@@ -966,13 +1147,18 @@ function getClaimEmoji(claimType: string): string {
 export function buildAvailableActions(obs: AgentObservation): AvailableAction[] {
   const actions: AvailableAction[] = [];
 
-  // Move is always available (if has energy)
+  // Move and travel are always available (if has energy)
   if (obs.self.energy >= 1) {
     actions.push({
       type: 'move',
       description: 'Move to an adjacent cell',
       cost: { energy: 1 },
     });
+    actions.push({
+      type: 'travel_to',
+      description: 'Travel to a distant cell (one step per tick until arrival)',
+      cost: { energy: 1 },
+    });
   }
 
   // Gather is available if at a resource spawn with resources
@@ -1005,6 +1191,78 @@ export function buildAvailableActions(obs: AgentObservation): AvailableAction[]
     });
   }
 
+  // Craft is available for recipes the inventory covers
+  const craftable = getCraftableRecipes(obs.inventory ?? []);
+  if (craftable.length > 0) {
+    const { recipes, energyCostPerTick } = CONFIG.actions.craft;
+    const recipeList = craftable.map((id) => `${id}: ${formatRecipe(recipes[id])}`).join('; ');
+    const minTicks = Math.min(...craftable.map((id) => recipes[id].ticks));
+    actions.push({
+      type: 'craft',
+      description: `Craft items (${recipeList})`,
+      cost: { energy: minTicks * energyCostPerTick },
+    });
+  }
+
+  // Build is available with enough material for a tick of work
+  const buildCfg = CONFIG.actions.build;
+  const materials = obs.inventory?.find((i) => i.type === 'material')?.quantity ?? 0;
+  const buildable = Object.entries(buildCfg.structures)
+    .filter(([, blueprint]) => (blueprint.materialsPerTick.material ?? 0) <= materials)
+    .map(([structureType]) => structureType);
+  if (buildable.length > 0 && obs.self.energy >= buildCfg.energyCostPerTick) {
+    const structureHere = obs.nearbyStructures?.find((s) => s.x === obs.self.x && s.y === obs.self.y);
+    actions.push({
+      type: 'build',
+      description: structureHere
+        ? `Work on the ${structureHere.structureType} here (${structureHere.status === 'complete' ? 'repair' : 'continue construction'})`
+        : `Build a structure here (${buildable.join(', ')})`,
+      cost: { energy: buildCfg.energyCostPerTick },
+    });
+  }
+
+  // Demolish is available next to a structure
+  const demolishable = obs.nearbyStructures?.find(
+    (s) => Math.abs(s.x - obs.self.x) + Math.abs(s.y - obs.self.y) <= CONFIG.actions.demolish.maxDistance
+  );
+  if (demolishable && obs.self.energy >= CONFIG.actions.demolish.energyCost) {
+    actions.push({
+      type: 'demolish',
+      description: `Tear down the ${demolishable.structureType} at (${demolishable.x}, ${demolishable.y}) and salvage materials`,
+      cost: { energy: CONFIG.actions.demolish.energyCost },
+    });
+  }
+
+  // Deposit is available with something to store (own container is created on demand)
+  const containersHere = obs.nearbyContainers?.filter((c) => c.x === obs.self.x && c.y === obs.self.y) ?? [];
+  if (obs.inventory && obs.inventory.some((i) => i.quantity > 0)) {
+    const shared = containersHere.filter((c) => c.canDeposit && c.ownerId !== obs.self.id);
+    actions.push({
+      type: 'deposit',
+      description: shared.length > 0
+        ? `Store items in your container here or a shared one (${shared.map((c) => c.id.slice(0, 8)).join(', ')})`
+        : 'Store items in your container here',
+    });
+  }
+
+  // Withdraw is available from containers here with access and contents
+  const withdrawable = containersHere.filter((c) => c.canWithdraw && c.contents.length > 0);
+  if (withdrawable.length > 0) {
+    actions.push({
+      type: 'withdraw',
+      description: `Take items from a container here (${withdrawable.map((c) => c.id.slice(0, 8)).join(', ')})`,
+    });
+  }
+
+  // Grant access is available for containers you own
+  const ownContainers = obs.nearbyContainers?.filter((c) => c.ownerId === obs.self.id) ?? [];
+  if (ownContainers.length > 0) {
+    actions.push({
+      type: 'grant_access',
+      description: `Change who may use your container (${ownContainers.map((c) => c.id.slice(0, 8)).join(', ')})`,
+    });
+  }
+
   // Sleep is available if not already sleeping
   if (obs.self.state !== 'sleeping') {
     actions.push({
@@ -1033,8 +1291,43 @@ export function buildAvailableActions(obs: AgentObservation): AvailableAction[]
   if (nearbyForTrade.length > 0 && obs.inventory && obs.inventory.length > 0) {
     const agentIds = nearbyForTrade.map((a) => a.id.slice(0, 8)).join(', ');
     actions.push({
-      type: 'trade',
-      description: `Trade items with nearby agents (${agentIds})`,
+      type: 'propose_trade',
+      description: `Propose a trade to nearby agents (${agentIds}); they can accept, reject or counter`,
+    });
+  }
+
+  // Answering proposals is available while any are addressed to the agent
+  if (obs.incomingTradeProposals && obs.incomingTradeProposals.length > 0) {
+    const count = obs.incomingTradeProposals.length;
+    actions.push({
+      type: 'accept_trade',
+      description: `Accept a trade proposal (${count} waiting)`,
+    });
+    actions.push({
+      type: 'reject_trade',
+      description: `Reject a trade proposal (${count} waiting)`,
+    });
+    actions.push({
+      type: 'counter_trade',
+      description: `Counter a trade proposal with your own terms (${count} waiting)`,
+    });
+  }
+
+  // Market orders can be placed at a shelter
+  const atShelter = obs.nearbyShelters?.some((s) => s.x === obs.self.x && s.y === obs.self.y);
+  if (atShelter && obs.self.energy >= CONFIG.actions.market.energyCost) {
+    actions.push({
+      type: 'place_order',
+      description: 'Post a bid (buy) or ask (sell) on this shelter\'s market',
+      cost: { energy: CONFIG.actions.market.energyCost },
+    });
+  }
+
+  // Cancelling is available while the agent has open orders
+  if (obs.myMarketOrders && obs.myMarketOrders.length > 0) {
+    actions.push({
+      type: 'cancel_order',
+      description: `Cancel a market order (${obs.myMarketOrders.length} open)`,
     });
   }
 
@@ -1054,12 +1347,19 @@ export function buildAvailableActions(obs: AgentObservation): AvailableAction[]
     });
   }
 
-  // Steal is available if there are adjacent agents
-  if (adjacentAgents.length > 0 && obs.self.energy >= 8) {
-    const agentIds = adjacentAgents.map((a) => a.id.slice(0, 8)).join(', ');
+  // Steal is available if there are adjacent agents or containers you cannot withdraw from
+  const lockedContainers = obs.nearbyContainers?.filter(
+    (c) => !c.canWithdraw && c.contents.length > 0 &&
+      Math.abs(c.x - obs.self.x) + Math.abs(c.y - obs.self.y) <= CONFIG.actions.steal.maxDistance
+  ) ?? [];
+  if ((adjacentAgents.length > 0 || lockedContainers.length > 0) && obs.self.energy >= 8) {
+    const targets = [
+      ...adjacentAgents.map((a) => `agent ${a.id.slice(0, 8)}`),
+      ...lockedContainers.map((c) => `container ${c.id.slice(0, 8)}`),
+    ].join(', ');
     actions.push({
       type: 'steal',
-      description: `Steal items from adjacent agent (${agentIds})`,
+      description: `Steal items from ${targets}`,
       cost: { energy: 8 },
     });
   }
@@ -1140,6 +1440,81 @@ export function buildAvailableActions(obs: AgentObservation): AvailableAction[]
     });
   }
 
+  // Direct messages: agents in talking range, or any agent the agent knows about
+  const messageConfig = CONFIG.actions.sendMessage;
+  const inMessageRange = obs.nearbyAgents.filter((a) => {
+    const distance = Math.abs(a.x - obs.self.x) + Math.abs(a.y - obs.self.y);
+    return distance <= messageConfig.maxDistance && a.state !== 'dead';
+  });
+  const messageTargets = new Set([
+    ...inMessageRange.map((a) => a.id),
+    ...(obs.knownAgents ?? []).map((k) => k.id),
+  ]);
+  if (messageTargets.size > 0 && obs.self.energy >= messageConfig.energyCost) {
+    const targetIds = [...messageTargets].map((id) => id.slice(0, 8)).join(', ');
+    const waiting = obs.inbox && obs.inbox.length > 0 ? ` - ${obs.inbox.length} in your inbox` : '';
+    actions.push({
+      type: 'send_message',
+      description: `Send a private message to (${targetIds})${waiting}`,
+      cost: { energy: messageConfig.energyCost },
+    });
+  }
+
+  // Organisations
+  const orgConfig = CONFIG.organizations;
+  const myOrgs = obs.myOrganizations ?? [];
+  if (myOrgs.length < orgConfig.maxMembershipsPerAgent) {
+    if (obs.self.energy >= orgConfig.foundingEnergyCost) {
+      actions.push({
+        type: 'found_org',
+        description: `Found an organisation and set its entry fee and membership rules - costs ${orgConfig.foundingEnergyCost} energy`,
+        cost: { energy: orgConfig.foundingEnergyCost },
+      });
+    }
+    for (const o of obs.nearbyOrganizations ?? []) {
+      if (o.maxMembers !== undefined && o.memberCount >= o.maxMembers) continue;
+      if (obs.self.balance < o.entryFee) continue;
+      actions.push({
+        type: 'join_org',
+        description: `Join "${o.name}" [${o.id}]${o.entryFee > 0 ? ` - entry fee ${o.entryFee} CITY` : ''}`,
+        cost: o.entryFee > 0 ? { money: o.entryFee } : undefined,
+      });
+    }
+  }
+  for (const o of myOrgs) {
+    actions.push({
+      type: 'leave_org',
+      description: `Leave "${o.name}" [${o.id}]${o.memberIds.length <= 1 ? ` - dissolves it, you take the ${o.treasury.toFixed(1)} CITY treasury` : ''}`,
+    });
+    if (o.role === 'founder' && o.memberIds.length > 1) {
+      actions.push({
+        type: 'expel_member',
+        description: `Expel a member of "${o.name}" [${o.id}]`,
+      });
+    }
+  }
+
+  // Governance
+  const governanceConfig = CONFIG.governance;
+  if (obs.self.energy >= governanceConfig.proposalEnergyCost) {
+    actions.push({
+      type: 'propose',
+      description: `Put a decision (tax, banishment, shelter price, fiscal policy, resolution) to a vote - costs ${governanceConfig.proposalEnergyCost} energy`,
+      cost: { energy: governanceConfig.proposalEnergyCost },
+    });
+  }
+  for (const p of obs.openProposals ?? []) {
+    if (p.readyToTally) {
+      actions.push({ type: 'tally', description: `Count the votes on "${p.title}" [${p.id}]` });
+    } else if (obs.self.energy >= governanceConfig.voteEnergyCost) {
+      actions.push({
+        type: 'vote',
+        description: `Vote on "${p.title}" [${p.id}]${p.myVote ? ` (currently ${p.myVote})` : ''}`,
+        cost: { energy: governanceConfig.voteEnergyCost },
+      });
+    }
+  }
+
   // Phase 4: Reproduction (§36)
 
   // Spawn offspring is available if agent has sufficient resources
@@ -10,7 +10,7 @@
 
 import { db } from '../db';
 import { promptLogs, type NewPromptLog, type PromptLog } from '../db/schema';
-import { eq, and, desc, lt, sql } from 'drizzle-orm';
+import { eq, and, desc, gte, lt, lte, sql } from 'drizzle-orm';
 import { CONFIG, isEmergentPromptEnabled } from '../config';
 import { buildSystemPrompt, buildObservationPrompt } from './prompt-builder';
 import type { AgentObservation, AgentDecision } from './types';
@@ -86,6 +86,7 @@ export async function logPrompt(entry: PromptLogEntry): Promise<void> {
         action: entry.decision.action,
         params: entry.decision.params as Record<string, unknown> | undefined,
         reasoning: entry.decision.reasoning,
+        plan: entry.decision.plan,
       } : undefined,
       rawResponse: entry.rawResponse ?? null,
       llmType: entry.llmType,
@@ -247,6 +248,24 @@ export async function getPromptLogsByTick(tick: number): Promise<PromptLog[]> {
     .orderBy(promptLogs.agentId);
 }
 
+/**
+ * Get logged decisions in a tick range (all agents), oldest first
+ */
+export async function getLoggedDecisionsInRange(
+  fromTick: number,
+  toTick: number
+): Promise<Array<Pick<PromptLog, 'agentId' | 'tick' | 'decision'>>> {
+  return db
+    .select({
+      agentId: promptLogs.agentId,
+      tick: promptLogs.tick,
+      decision: promptLogs.decision,
+    })
+    .from(promptLogs)
+    .where(and(gte(promptLogs.tick, fromTick), lte(promptLogs.tick, toTick)))
+    .orderBy(promptLogs.tick, promptLogs.id);
+}
+
 /**
  * Clean up logs older than the retention period
  */
@@ -254,10 +254,13 @@ When you decide to act, respond with ONLY a JSON object:
   "reasoning": "<your thought process>"
 }
 
+You may also hold an intention across time. Add "set_goal": { "goal": string, "steps": [string or { "description": string, "action": "<action_type>", "params": {...} }], "deadlineInTicks"?: number } to commit to one, or "update_plan": { "stepDone"?: true, "steps"?: [...], "status"?: "completed"|"abandoned", "reason"?: string } to revise it. Steps you give an action are carried out by habit, without your attention.
+
 ## What You Can Do
 
 **Movement & Location**
 - move: Travel to an adjacent cell. Params: { "toX": number, "toY": number }
+- travel_to: Journey to a distant cell, one step per tick, until you arrive or something interrupts you. Params: { "toX": number, "toY": number }
 - claim: Mark a location as significant to you. Params: { "claimType": "territory"|"home"|"resource"|"danger"|"meeting_point", "description"?: string }
 - name_location: Propose a name for where you stand. Params: { "name": string }
 
@@ -265,6 +268,16 @@ When you decide to act, respond with ONLY a JSON object:
 - gather: Collect resources from the ground (if any exist here). Params: { "resourceType": "food"|"energy"|"material", "quantity": 1-5 }
 - forage: Search for scraps anywhere (low success, but always available). Params: {}
 - buy: Exchange currency for goods (requires being somewhere that sells). Params: { "itemType": "food"|"water"|"medicine", "quantity": number }
+- craft: Combine things you carry into something new. Materials are lost, tools wear down, it takes a few ticks of your time, and it does not always work. Params: { "recipeId": "shelter_kit"|"ration"|"tool" }
+
+**Building**
+- build: Put materials and effort into a structure where you stand: start one, keep working on one, or mend one. Unattended structures crumble. Params: { "structureType": "shelter"|"storage"|"market_stall"|"wall" }
+- demolish: Tear down a structure beside you and keep some of its materials. Params: { "structureId"?: string }
+
+**Storage**
+- deposit: Put things you carry into a container where you stand (yours, unless you name another that lets you). Params: { "itemType": string, "quantity": number, "containerId"?: string }
+- withdraw: Take things out of a container where you stand, if its owner allows you. Params: { "containerId": string, "itemType": string, "quantity": number }
+- grant_access: Choose who may use a container of yours: a particular agent, a team, or whoever holds a certain credential. Params: { "containerId": string, "granteeType": "agent"|"team"|"credential", "granteeId"?: string, "claimType"?: string, "permission": "deposit"|"withdraw"|"none" }
 
 **Work & Employment**
 - public_work: Do basic labor at shelters for modest pay (always available). Params: { "taskType"?: "road_maintenance"|"resource_survey"|"shelter_cleanup" }
@@ -282,13 +295,26 @@ When you decide to act, respond with ONLY a JSON object:
 - sleep: Rest your body. Params: { "duration": 1-10 }
 
 **Social Interaction**
-- trade: Propose an exchange with another. Params: { "targetAgentId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number }
+- propose_trade: Offer terms to another; nothing changes hands unless they agree. Params: { "targetAgentId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number, "expiresInTicks"?: number }
+- accept_trade: Agree to terms someone offered you. Params: { "proposalId": string }
+- reject_trade: Refuse terms someone offered you. Params: { "proposalId": string, "reason"?: string }
+- counter_trade: Answer an offer with different terms. Params: { "proposalId": string, "offeringItemType": string, "offeringQuantity": number, "requestingItemType": string, "requestingQuantity": number }
+- place_order: Name a price at which you will buy (bid) or sell (ask) something where you stand; it happens if someone meets your price. Params: { "side": "bid"|"ask", "itemType": string, "quantity": number, "price": number, "expiresInTicks"?: number }
+- cancel_order: Take back a price you named. Params: { "orderId": string }
 - share_info: Tell another what you know about a third party. Params: { "targetAgentId": string, "subjectAgentId": string, "infoType": "location"|"reputation"|"warning"|"recommendation", "claim"?: string, "sentiment"?: -100 to 100 }
+- send_message: Say something privately to one other, near you or known to you; answer something said to you with "replyTo". Params: { "targetAgentId": string, "content": string, "replyTo"?: string, "conversationId"?: string }
+- found_org: Start a named group with a shared purse and your own rules for who may join. Params: { "name": string, "entryFee"?: number, "minTrust"?: -100 to 100, "maxMembers"?: number, "deposit"?: number }
+- join_org: Join a group whose member is near you, paying what it asks into its purse. Params: { "orgId": string }
+- leave_org: Leave a group; the last to leave keeps its purse. Params: { "orgId": string }
+- expel_member: Send someone out of a group you started. Params: { "orgId": string, "memberId": string }
+- propose: Ask a group, those around a claimed place, or everyone to decide something together; if enough agree it happens: "tax" (each member gives amount to the group's purse), "banish" (someone is sent out of the group or kept away from the place), "shelter_price" (what things cost at a shelter changes), "fiscal_policy" (everyone only: how much of each payment or of large holdings goes to the common purse, whether public work is paid from it ("treasury") or with new money ("mint"), and what share of it is handed out to all) or "resolution" (words only). You choose how it is decided: threshold, quorum, and whether each voice counts the same ("equal") or by wealth ("stake"). Params: { "scope": "org"|"claim"|"world", "scopeId"?: string, "title": string, "outcome": "tax"|"banish"|"shelter_price"|"fiscal_policy"|"resolution", "amount"?: number, "targetAgentId"?: string, "shelterId"?: string, "priceMultiplier"?: number, "transactionTaxRate"?: 0-1, "wealthTaxRate"?: 0-1, "wealthTaxThreshold"?: number, "publicWorkFunding"?: "mint"|"treasury", "redistributionShare"?: 0-1, "threshold"?: 0-1, "quorum"?: 0-1, "weighting"?: "equal"|"stake", "votingTicks"?: number }
+- vote: Say yes, no or abstain to something put to you. Params: { "proposalId": string, "choice": "yes"|"no"|"abstain" }
+- tally: Count what was said once the time to decide is over, and make it so. Params: { "proposalId": string }
 - deceive: Tell another something untrue. Params: { "targetAgentId": string, "claim": string, "claimType": "resource_location"|"agent_reputation"|"danger_warning"|"trade_offer"|"other" }
 
 **Conflict**
 - harm: Attack another. Params: { "targetAgentId": string, "intensity": "light"|"moderate"|"severe" }
-- steal: Take from another without consent. Params: { "targetAgentId": string, "targetItemType": string, "quantity": number }
+- steal: Take from another, or from their container, without consent. Params: { "targetAgentId"?: string, "targetContainerId"?: string, "targetItemType": string, "quantity": number }
 
 **Reputation & Trust**
 - issue_credential: Vouch for another's qualities. Params: { "subjectAgentId": string, "claimType": "skill"|"experience"|"membership"|"character"|"custom", "description": string, "evidence"?: string, "level"?: 1-10, "expiresAtTick"?: number }
@@ -383,6 +409,18 @@ export function buildEmergentObservationPrompt(obs: AgentObservation): string {
     }
   }
 
+  // Intention held from earlier ticks
+  if (obs.currentPlan) {
+    const plan = obs.currentPlan;
+    lines.push('');
+    lines.push('**Your Intention**');
+    lines.push(`You set out to: ${plan.goal}. It must be done by tick ${plan.deadlineTick}.`);
+    plan.steps.forEach((step, i) => {
+      const state = step.done ? 'done' : i === plan.currentStep ? 'now' : 'later';
+      lines.push(`- (${state}) ${step.description}`);
+    });
+  }
+
   // Nearby agents
   if (obs.nearbyAgents.length > 0) {
     lines.push('');
@@ -535,6 +573,92 @@ export function buildEmergentObservationPrompt(obs: AgentObservation): string {
     }
   }
 
+  // Trade proposals waiting for an answer
+  if (obs.incomingTradeProposals && obs.incomingTradeProposals.length > 0) {
+    lines.push('');
+    lines.push('**Offers Made To You**');
+    for (const p of obs.incomingTradeProposals) {
+      lines.push(
+        `- [${p.id}] ${p.proposerId.slice(0, 8)} offers ${p.offeringQuantity} ${p.offeringItemType} for your ${p.requestingQuantity} ${p.requestingItemType} (open until tick ${p.expiresAtTick})`
+      );
+    }
+  }
+
+  // Messages said to this agent
+  if (obs.inbox && obs.inbox.length > 0) {
+    lines.push('');
+    lines.push('**Said To You**');
+    for (const m of obs.inbox) {
+      lines.push(`- [${m.id}] ${m.fromId.slice(0, 8)} (tick ${m.sentAtTick}): "${m.content}"`);
+    }
+  }
+
+  // Groups this agent belongs to, and groups of those nearby
+  if (obs.myOrganizations && obs.myOrganizations.length > 0) {
+    lines.push('');
+    lines.push('**Groups You Belong To**');
+    for (const o of obs.myOrganizations) {
+      const others = o.memberIds.filter((id) => id !== obs.self.id).map((id) => id.slice(0, 8));
+      const started = o.role === 'founder' ? ', you started it' : '';
+      lines.push(
+        `- [${o.id}] "${o.name}"${started} - with ${others.length > 0 ? others.join(', ') : 'no one else'}; purse ${o.treasury.toFixed(1)}`
+      );
+    }
+  }
+  if (obs.nearbyOrganizations && obs.nearbyOrganizations.length > 0) {
+    lines.push('');
+    lines.push('**Groups Around You**');
+    for (const o of obs.nearbyOrganizations) {
+      lines.push(
+        `- [${o.id}] "${o.name}" - ${o.memberCount} belong, ${o.nearbyMemberIds.map((id) => id.slice(0, 8)).join(', ')} near you; asks ${o.entryFee} to join`
+      );
+    }
+  }
+
+  // Decisions put to this agent, and places it was sent away from
+  if (obs.openProposals && obs.openProposals.length > 0) {
+    lines.push('');
+    lines.push('**Put To You**');
+    for (const p of obs.openProposals) {
+      const state = p.readyToTally
+        ? 'time to decide is over, not yet counted'
+        : `open until tick ${p.closesAtTick}${p.myVote ? `, you said ${p.myVote}` : ''}`;
+      lines.push(`- [${p.id}] "${p.title}" - if agreed: ${p.outcomeSummary} (${state})`);
+    }
+  }
+  if (obs.banishedFrom && obs.banishedFrom.length > 0) {
+    lines.push('');
+    lines.push('**Places You Were Sent Away From**');
+    for (const b of obs.banishedFrom) {
+      lines.push(`- Within ${b.radius} of (${b.x}, ${b.y})${b.expiresAtTick !== undefined ? ` until tick ${b.expiresAtTick}` : ''}`);
+    }
+  }
+
+  // The common purse and what it takes and gives
+  if (obs.publicTreasury) {
+    const t = obs.publicTreasury;
+    lines.push('');
+    lines.push('**The Common Purse**');
+    lines.push(`- Holds ${t.balance.toFixed(0)}`);
+    if (t.transactionTaxRate > 0) lines.push(`- Takes ${Math.round(t.transactionTaxRate * 100)}% of what sellers and workers receive`);
+    if (t.wealthTaxRate > 0) {
+      lines.push(`- Takes ${Math.round(t.wealthTaxRate * 100)}% of whatever anyone holds above ${t.wealthTaxThreshold}, now and then`);
+    }
+    if (t.redistributionShare > 0) lines.push(`- Gives ${Math.round(t.redistributionShare * 100)}% of itself to everyone alike, now and then`);
+    if (t.publicWorkFunding === 'treasury') lines.push('- Pays for public work');
+  }
+
+  // Trade proposals this agent is waiting on
+  if (obs.myTradeProposals && obs.myTradeProposals.length > 0) {
+    lines.push('');
+    lines.push('**Offers You Are Waiting On**');
+    for (const p of obs.myTradeProposals) {
+      lines.push(
+        `- You offered ${p.targetId.slice(0, 8)} ${p.offeringQuantity} ${p.offeringItemType} for ${p.requestingQuantity} ${p.requestingItemType} - no answer yet`
+      );
+    }
+  }
+
   // What's possible (actions without prescriptions)
   lines.push('');
   lines.push('## What You Can Do Now');
@@ -0,0 +1,299 @@
+/**
+ * Reflection - Memory Consolidation
+ *
+ * Every few ticks, or once enough important things have happened, an agent
+ * reflects: its recent episodic memories are summarised by its LLM into a few
+ * higher-level beliefs ("agent 1a2b3c4d cheats me in trades", "the food spawn
+ * at (12, 40) is depleted"). Each belief is stored as a 'reflection' memory
+ * listing the episodes it summarises (sourceMemoryIds); those episodes point
+ * back at it (consolidatedInto) and lose importance, so pruning drops them
+ * before the belief.
+ *
+ * The call is bounded by the agent's token budget (token_budgets): episodes
+ * are included newest first until maxInputTokens is reached, and the response
+ * is capped at maxOutputTokens.
+ */
+
+import type { Agent, AgentMemory } from '../db/schema';
+import {
+  consolidateMemories,
+  getLastReflectionTick,
+  getUnreflectedMemories,
+  storeMemory,
+} from '../db/queries/memories';
+import { getTokenBudget, recordLLMMetric } from '../db/queries/llm-metrics';
+import { getAdapter } from './index';
+import type { RawPromptOptions, RawPromptResult } from './adapters/base';
+import type { LLMType } from './types';
+import { estimatePromptTokens } from './memory-retriever';
+import { CONFIG, isTestMode } from '../config';
+import { createTracedLogger } from '../telemetry';
+
+const logger = createTracedLogger('Reflection');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ParsedReflection {
+  belief: string;
+  importance: number;
+  sourceMemoryIds: string[];
+}
+
+export interface ReflectionResult {
+  agentId: string;
+  tick: number;
+  episodesConsidered: number;
+  reflections: AgentMemory[];
+  consolidated: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Calls an agent's LLM with a raw prompt (replaced in tests)
+ */
+export type ReflectionInvoker = (
+  llmType: LLMType,
+  prompt: string,
+  options: RawPromptOptions
+) => Promise<RawPromptResult>;
+
+// =============================================================================
+// Triggers
+// =============================================================================
+
+/**
+ * Whether an agent should reflect now: enough new episodes, and either the
+ * interval has passed or their total importance reached the threshold
+ */
+export function shouldReflect(
+  tick: number,
+  lastReflectionTick: number | null,
+  newEpisodes: Pick<AgentMemory, 'importance'>[]
+): boolean {
+  const cfg = CONFIG.memory.reflection;
+  if (newEpisodes.length < cfg.minEpisodes) return false;
+
+  const importance = newEpisodes.reduce((sum, episode) => sum + episode.importance, 0);
+  return tick - (lastReflectionTick ?? 0) >= cfg.intervalTicks || importance >= cfg.importanceThreshold;
+}
+
+// =============================================================================
+// Prompt
+// =============================================================================
+
+const PROMPT_HEADER = `You are reflecting on your recent experiences in a simulated world.
+Summarise the memories below into at most {max} higher-level beliefs that will guide your future decisions:
+lessons about other agents (trust, debts, cheating), places (resources, dangers) and strategies that worked or failed.
+Only state beliefs the memories support. Refer to agents by the 8-character ids used in the memories.
+
+Respond with JSON only:
+{"reflections": [{"belief": "...", "importance": 1-10, "sources": [memory numbers]}]}
+
+## Memories`;
+
+/**
+ * Build the reflection prompt from episodes (most recent first), keeping as
+ * many as fit in maxInputTokens. Returns the prompt and the episodes in it,
+ * numbered from 1 in prompt order.
+ */
+export function buildReflectionPrompt(
+  episodes: AgentMemory[],
+  maxInputTokens: number,
+  maxReflections: number = CONFIG.memory.reflection.maxReflections
+): { prompt: string; episodes: AgentMemory[] } {
+  const header = PROMPT_HEADER.replace('{max}', String(maxReflections));
+  let tokens = estimatePromptTokens(header);
+  const included: AgentMemory[] = [];
+
+  for (const episode of episodes) {
+    const line = `[${included.length + 1}] (tick ${episode.tick}) ${episode.content}`;
+    const cost = estimatePromptTokens(line) + 1;
+    if (tokens + cost > maxInputTokens) break;
+    included.push(episode);
+    tokens += cost;
+  }
+
+  const lines = included.map((episode, i) => `[${i + 1}] (tick ${episode.tick}) ${episode.content}`);
+  return { prompt: [header, ...lines].join('\n'), episodes: included };
+}
+
+/**
+ * Parse the LLM response into beliefs, mapping memory numbers back to ids.
+ * Beliefs without a valid source are dropped.
+ */
+export function parseReflections(
+  response: string,
+  episodes: AgentMemory[],
+  maxReflections: number = CONFIG.memory.reflection.maxReflections
+): ParsedReflection[] {
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json[0]);
+  } catch {
+    return [];
+  }
+
+  const items = (parsed as { reflections?: unknown }).reflections;
+  if (!Array.isArray(items)) return [];
+
+  const reflections: ParsedReflection[] = [];
+  for (const item of items) {
+    const { belief, importance, sources } = (item ?? {}) as { belief?: unknown; importance?: unknown; sources?: unknown };
+    if (typeof belief !== 'string' || !belief.trim() || !Array.isArray(sources)) continue;
+
+    const sourceMemoryIds = [...new Set(sources
+      .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= episodes.length)
+      .map((n) => episodes[n - 1].id))];
+    if (sourceMemoryIds.length === 0) continue;
+
+    reflections.push({
+      belief: belief.trim(),
+      importance: typeof importance === 'number' ? Math.min(10, Math.max(1, importance)) : 7,
+      sourceMemoryIds,
+    });
+    if (reflections.length >= maxReflections) break;
+  }
+  return reflections;
+}
+
+// =============================================================================
+// Reflection Pass
+// =============================================================================
+
+// Tick of each agent's last reflection attempt (in this process)
+const lastAttemptTicks = new Map<string, number>();
+
+const defaultInvoker: ReflectionInvoker = async (llmType, prompt, options) => {
+  const adapter = getAdapter(llmType) as { callWithRawPrompt?: (prompt: string, options?: RawPromptOptions) => Promise<RawPromptResult> } | undefined;
+  if (!adapter?.callWithRawPrompt) {
+    throw new Error(`Adapter ${llmType} does not support raw prompts`);
+  }
+  return adapter.callWithRawPrompt(prompt, options);
+};
+
+/**
+ * Reflect for one agent if it is due. Returns null when it is not due.
+ */
+export async function reflectForAgent(
+  agent: Pick<Agent, 'id' | 'tenantId' | 'llmType'>,
+  tick: number,
+  invoke: ReflectionInvoker = defaultInvoker
+): Promise<ReflectionResult | null> {
+  const cfg = CONFIG.memory.reflection;
+  const lastReflectionTick = await getLastReflectionTick(agent.id);
+  const newEpisodes = await getUnreflectedMemories(agent.id, lastReflectionTick ?? -1);
+
+  // An attempt that produced no reflection also waits for the next trigger
+  const since = Math.max(lastReflectionTick ?? -1, lastAttemptTicks.get(agent.id) ?? -1);
+  const triggering = newEpisodes.filter((episode) => episode.tick > since);
+  if (!shouldReflect(tick, since >= 0 ? since : null, triggering)) return null;
+  lastAttemptTicks.set(agent.id, tick);
+
+  const budget = await getTokenBudget(agent.id, agent.tenantId ?? undefined);
+  const maxInputTokens = budget?.maxInputTokens ?? cfg.defaultMaxInputTokens;
+  const maxOutputTokens = budget?.maxOutputTokens ?? cfg.defaultMaxOutputTokens;
+
+  const { prompt, episodes } = buildReflectionPrompt(newEpisodes, maxInputTokens);
+  if (episodes.length === 0) return null;
+
+  const startTime = Date.now();
+  let result: RawPromptResult;
+  try {
+    result = await invoke(agent.llmType as LLMType, prompt, { temperature: 0.3, maxTokens: maxOutputTokens });
+  } catch (error) {
+    await recordReflectionMetric(agent, tick, Date.now() - startTime, estimatePromptTokens(prompt), 0, false);
+    throw error;
+  }
+
+  const inputTokens = result.inputTokens ?? estimatePromptTokens(prompt);
+  const outputTokens = result.outputTokens ?? estimatePromptTokens(result.response);
+  await recordReflectionMetric(agent, tick, Date.now() - startTime, inputTokens, outputTokens, true);
+
+  const reflections: AgentMemory[] = [];
+  let consolidated = 0;
+  for (const parsed of parseReflections(result.response, episodes)) {
+    const sources = episodes.filter((episode) => parsed.sourceMemoryIds.includes(episode.id));
+    const reflection = await storeMemory({
+      agentId: agent.id,
+      type: 'reflection',
+      content: parsed.belief,
+      importance: parsed.importance,
+      emotionalValence: sources.reduce((sum, s) => sum + s.emotionalValence, 0) / sources.length,
+      involvedAgentIds: [...new Set(sources.flatMap((s) => s.involvedAgentIds as string[]))],
+      tick,
+      sourceMemoryIds: parsed.sourceMemoryIds,
+    });
+    reflections.push(reflection);
+    consolidated += await consolidateMemories(parsed.sourceMemoryIds, reflection.id, cfg.episodeDecay);
+  }
+
+  return {
+    agentId: agent.id,
+    tick,
+    episodesConsidered: episodes.length,
+    reflections,
+    consolidated,
+    inputTokens,
+    outputTokens,
+  };
+}
+
+async function recordReflectionMetric(
+  agent: Pick<Agent, 'id' | 'tenantId' | 'llmType'>,
+  tick: number,
+  latencyMs: number,
+  inputTokens: number,
+  outputTokens: number,
+  success: boolean
+): Promise<void> {
+  await recordLLMMetric({
+    tenantId: agent.tenantId,
+    agentId: agent.id,
+    modelId: `${agent.llmType}:reflection`,
+    tick,
+    latencyMs,
+    inputTokens,
+    outputTokens,
+    success,
+    errorType: success ? null : 'reflection_failed',
+  }).catch((error) => logger.warn('Failed to record reflection metric', { error: String(error) }));
+}
+
+let reflecting = false;
+
+/**
+ * Run the reflection pass for agents that are due, at most
+ * maxAgentsPerTick of them. Skipped while a previous pass is still running.
+ */
+export async function runReflectionPass(
+  agents: Pick<Agent, 'id' | 'tenantId' | 'llmType'>[],
+  tick: number,
+  invoke: ReflectionInvoker = defaultInvoker
+): Promise<ReflectionResult[]> {
+  if (!CONFIG.memory.reflection.enabled || isTestMode() || reflecting) return [];
+
+  reflecting = true;
+  const results: ReflectionResult[] = [];
+  try {
+    for (const agent of agents) {
+      if (results.length >= CONFIG.memory.reflection.maxAgentsPerTick) break;
+      // External agents run their own minds (and memory) outside the server
+      if (agent.llmType === 'external') continue;
+      try {
+        const result = await reflectForAgent(agent, tick, invoke);
+        if (result) results.push(result);
+      } catch (error) {
+        logger.error(`Reflection failed for ${agent.id.slice(0, 8)}`, error);
+      }
+    }
+  } finally {
+    reflecting = false;
+  }
+  return results;
+}
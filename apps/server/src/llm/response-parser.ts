@@ -2,17 +2,24 @@
  * Response Parser - Parse LLM responses into structured decisions
  */
 
-import type { AgentDecision } from './types';
+import type { AgentDecision, PlanDirective, PlanStepInput } from './types';
 import type { ActionType } from '../actions/types';
 import { randomChoice } from '../utils/random';
+import { CONFIG } from '../config';
 
 const VALID_ACTIONS: ActionType[] = [
   // Core survival actions
-  'move', 'buy', 'consume', 'sleep', 'work', 'gather', 'trade',
+  'move', 'buy', 'consume', 'sleep', 'work', 'gather',
   // Survival fallbacks (always available)
   'forage', 'public_work',
   // Long-range communication
   'signal',
+  // Direct messages
+  'send_message',
+  // Organisations
+  'found_org', 'join_org', 'leave_org', 'expel_member',
+  // Governance
+  'propose', 'vote', 'tally',
   // Phase 1: Emergence Observation
   'claim', 'name_location',
   // Phase 2: Conflict Actions
@@ -27,8 +34,31 @@ const VALID_ACTIONS: ActionType[] = [
   'spawn_offspring',
   // Employment System
   'offer_job', 'accept_job', 'pay_worker', 'claim_escrow', 'quit_job', 'fire_worker', 'cancel_job_offer',
+  // Trade Proposals (two-phase trade)
+  'propose_trade', 'accept_trade', 'reject_trade', 'counter_trade',
+  // Multi-tick travel
+  'travel_to',
+  // Crafting
+  'craft',
+  // Structures
+  'build', 'demolish',
+  // Shared storage containers
+  'deposit', 'withdraw', 'grant_access',
+  // Market
+  'place_order', 'cancel_order',
 ];
 
+// Retired action names some models still answer with
+const ACTION_ALIASES: Record<string, ActionType> = {
+  trade: 'propose_trade', // Direct barter was replaced by consent-based trade
+};
+
+function resolveAction(action: unknown): ActionType | undefined {
+  if (typeof action !== 'string') return undefined;
+  const resolved = ACTION_ALIASES[action] ?? action;
+  return VALID_ACTIONS.includes(resolved as ActionType) ? (resolved as ActionType) : undefined;
+}
+
 /**
  * Parse LLM response into AgentDecision
  */
@@ -44,7 +74,8 @@ export function parseResponse(response: string): AgentDecision | null {
     const parsed = JSON.parse(jsonMatch[0]);
 
     // Validate action
-    if (!parsed.action || !VALID_ACTIONS.includes(parsed.action)) {
+    const action = resolveAction(parsed.action);
+    if (!action) {
       console.warn('Invalid action:', parsed.action);
       return null;
     }
@@ -56,16 +87,19 @@ export function parseResponse(response: string): AgentDecision | null {
     }
 
     // Validate specific action params
-    const validationResult = validateActionParams(parsed.action, parsed.params);
+    const validationResult = validateActionParams(action, parsed.params);
     if (!validationResult.valid) {
       console.warn('Invalid action params:', validationResult.error);
       return null;
     }
 
+    const plan = parsePlanDirective(parsed);
+
     return {
-      action: parsed.action as ActionType,
+      action,
       params: parsed.params,
       reasoning: parsed.reasoning || undefined,
+      ...(plan && { plan }),
     };
   } catch (error) {
     console.error('Failed to parse LLM response:', error);
@@ -73,6 +107,82 @@ export function parseResponse(response: string): AgentDecision | null {
   }
 }
 
+/**
+ * Parse the optional set_goal / update_plan fields of a response
+ *
+ * An invalid plan field is dropped without rejecting the action. set_goal
+ * wins when both are given.
+ */
+export function parsePlanDirective(parsed: Record<string, unknown>): PlanDirective | undefined {
+  if (!CONFIG.plans.enabled) return undefined;
+
+  const setGoal = parsed.set_goal as Record<string, unknown> | undefined;
+  if (setGoal && typeof setGoal === 'object') {
+    const goal = typeof setGoal.goal === 'string' ? setGoal.goal.trim() : '';
+    if (goal) {
+      return {
+        type: 'set_goal',
+        goal: goal.slice(0, CONFIG.plans.maxTextLength),
+        steps: parsePlanSteps(setGoal.steps),
+        deadlineInTicks: typeof setGoal.deadlineInTicks === 'number' ? setGoal.deadlineInTicks : undefined,
+      };
+    }
+    console.warn('Invalid set_goal (goal required):', setGoal);
+  }
+
+  const updatePlan = parsed.update_plan as Record<string, unknown> | undefined;
+  if (updatePlan && typeof updatePlan === 'object') {
+    const status = updatePlan.status === 'completed' || updatePlan.status === 'abandoned' ? updatePlan.status : undefined;
+    const stepDone = updatePlan.stepDone === true || undefined;
+    const steps = Array.isArray(updatePlan.steps) ? parsePlanSteps(updatePlan.steps) : undefined;
+    if (status || stepDone || steps) {
+      return {
+        type: 'update_plan',
+        stepDone,
+        steps,
+        status,
+        reason: typeof updatePlan.reason === 'string' ? updatePlan.reason.slice(0, CONFIG.plans.maxTextLength) : undefined,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse plan steps: a string is a free-form step; an object may name an
+ * action, kept only if it is valid with its params (routine step)
+ */
+function parsePlanSteps(raw: unknown): PlanStepInput[] {
+  if (!Array.isArray(raw)) return [];
+
+  const steps: PlanStepInput[] = [];
+  for (const item of raw.slice(0, CONFIG.plans.maxSteps)) {
+    if (typeof item === 'string') {
+      if (item.trim()) steps.push({ description: item.trim().slice(0, CONFIG.plans.maxTextLength) });
+      continue;
+    }
+    if (!item || typeof item !== 'object') continue;
+
+    const { description, action: rawAction, params } = item as { description?: unknown; action?: unknown; params?: unknown };
+    const action = resolveAction(rawAction);
+    const routineAction =
+      action && !!params && typeof params === 'object' &&
+      validateActionParams(action, params as Record<string, unknown>).valid
+        ? action
+        : undefined;
+    const text = typeof description === 'string' && description.trim()
+      ? description.trim()
+      : routineAction ?? '';
+    if (!text) continue;
+
+    steps.push(routineAction
+      ? { description: text.slice(0, CONFIG.plans.maxTextLength), action: routineAction, params: params as Record<string, unknown> }
+      : { description: text.slice(0, CONFIG.plans.maxTextLength) });
+  }
+  return steps;
+}
+
 /**
  * Validate action-specific parameters
  */
@@ -87,6 +197,79 @@ function validateActionParams(
       }
       break;
 
+    case 'travel_to':
+      if (typeof params.toX !== 'number' || typeof params.toY !== 'number') {
+        return { valid: false, error: 'travel_to requires toX and toY numbers' };
+      }
+      break;
+
+    case 'craft':
+      if (typeof params.recipeId !== 'string') {
+        return { valid: false, error: 'craft requires recipeId string' };
+      }
+      break;
+
+    case 'build':
+      if (typeof params.structureType !== 'string') {
+        return { valid: false, error: 'build requires structureType string' };
+      }
+      break;
+
+    case 'demolish':
+      if (params.structureId !== undefined && typeof params.structureId !== 'string') {
+        return { valid: false, error: 'demolish structureId must be a string' };
+      }
+      break;
+
+    case 'deposit':
+    case 'withdraw':
+      if (typeof params.itemType !== 'string') {
+        return { valid: false, error: `${action} requires itemType string` };
+      }
+      if (typeof params.quantity !== 'number' || params.quantity < 1) {
+        return { valid: false, error: `${action} quantity must be at least 1` };
+      }
+      if (action === 'withdraw' && typeof params.containerId !== 'string') {
+        return { valid: false, error: 'withdraw requires containerId string' };
+      }
+      if (params.containerId !== undefined && typeof params.containerId !== 'string') {
+        return { valid: false, error: `${action} containerId must be a string` };
+      }
+      break;
+
+    case 'place_order':
+      if (params.side !== 'bid' && params.side !== 'ask') {
+        return { valid: false, error: 'place_order side must be bid or ask' };
+      }
+      if (typeof params.itemType !== 'string') {
+        return { valid: false, error: 'place_order requires itemType string' };
+      }
+      if (typeof params.quantity !== 'number' || params.quantity < 1) {
+        return { valid: false, error: 'place_order quantity must be at least 1' };
+      }
+      if (typeof params.price !== 'number' || params.price < 1) {
+        return { valid: false, error: 'place_order price must be at least 1' };
+      }
+      break;
+
+    case 'cancel_order':
+      if (typeof params.orderId !== 'string') {
+        return { valid: false, error: 'cancel_order requires orderId string' };
+      }
+      break;
+
+    case 'grant_access':
+      if (typeof params.containerId !== 'string') {
+        return { valid: false, error: 'grant_access requires containerId string' };
+      }
+      if (!['agent', 'team', 'credential'].includes(params.granteeType as string)) {
+        return { valid: false, error: 'grant_access granteeType must be agent, team, or credential' };
+      }
+      if (!['deposit', 'withdraw', 'none'].includes(params.permission as string)) {
+        return { valid: false, error: 'grant_access permission must be deposit, withdraw, or none' };
+      }
+      break;
+
     case 'buy':
       if (typeof params.itemType !== 'string') {
         return { valid: false, error: 'buy requires itemType string' };
@@ -154,21 +337,94 @@ function validateActionParams(
       }
       break;
 
-    case 'trade':
+    case 'send_message':
       if (typeof params.targetAgentId !== 'string') {
-        return { valid: false, error: 'trade requires targetAgentId string' };
+        return { valid: false, error: 'send_message requires targetAgentId string' };
       }
-      if (typeof params.offeringItemType !== 'string') {
-        return { valid: false, error: 'trade requires offeringItemType string' };
+      if (typeof params.content !== 'string' || params.content.trim().length < 1) {
+        return { valid: false, error: 'send_message requires non-empty content string' };
       }
-      if (typeof params.offeringQuantity !== 'number' || params.offeringQuantity < 1) {
-        return { valid: false, error: 'trade offeringQuantity must be at least 1' };
+      if (params.conversationId !== undefined && typeof params.conversationId !== 'string') {
+        return { valid: false, error: 'send_message conversationId must be a string' };
       }
-      if (typeof params.requestingItemType !== 'string') {
-        return { valid: false, error: 'trade requires requestingItemType string' };
+      if (params.replyTo !== undefined && typeof params.replyTo !== 'string') {
+        return { valid: false, error: 'send_message replyTo must be a string' };
       }
-      if (typeof params.requestingQuantity !== 'number' || params.requestingQuantity < 1) {
-        return { valid: false, error: 'trade requestingQuantity must be at least 1' };
+      break;
+
+    case 'found_org':
+      if (typeof params.name !== 'string' || params.name.trim().length < 1) {
+        return { valid: false, error: 'found_org requires non-empty name string' };
+      }
+      if (params.entryFee !== undefined && (typeof params.entryFee !== 'number' || params.entryFee < 0)) {
+        return { valid: false, error: 'found_org entryFee must be a non-negative number' };
+      }
+      if (params.minTrust !== undefined && (typeof params.minTrust !== 'number' || params.minTrust < -100 || params.minTrust > 100)) {
+        return { valid: false, error: 'found_org minTrust must be between -100 and 100' };
+      }
+      if (params.maxMembers !== undefined && (typeof params.maxMembers !== 'number' || params.maxMembers < 2)) {
+        return { valid: false, error: 'found_org maxMembers must be at least 2' };
+      }
+      if (params.deposit !== undefined && (typeof params.deposit !== 'number' || params.deposit < 0)) {
+        return { valid: false, error: 'found_org deposit must be a non-negative number' };
+      }
+      break;
+
+    case 'join_org':
+    case 'leave_org':
+      if (typeof params.orgId !== 'string') {
+        return { valid: false, error: `${action} requires orgId string` };
+      }
+      break;
+
+    case 'expel_member':
+      if (typeof params.orgId !== 'string') {
+        return { valid: false, error: 'expel_member requires orgId string' };
+      }
+      if (typeof params.memberId !== 'string') {
+        return { valid: false, error: 'expel_member requires memberId string' };
+      }
+      break;
+
+    case 'propose':
+      if (!['org', 'claim', 'world'].includes(params.scope as string)) {
+        return { valid: false, error: 'propose scope must be org, claim, or world' };
+      }
+      if (params.scope !== 'world' && typeof params.scopeId !== 'string') {
+        return { valid: false, error: 'propose requires scopeId string for org and claim scopes' };
+      }
+      if (typeof params.title !== 'string' || params.title.trim().length < 1) {
+        return { valid: false, error: 'propose requires non-empty title string' };
+      }
+      if (!['tax', 'banish', 'shelter_price', 'fiscal_policy', 'resolution'].includes(params.outcome as string)) {
+        return { valid: false, error: 'propose outcome must be tax, banish, shelter_price, fiscal_policy, or resolution' };
+      }
+      if (params.publicWorkFunding !== undefined && params.publicWorkFunding !== 'mint' && params.publicWorkFunding !== 'treasury') {
+        return { valid: false, error: 'propose publicWorkFunding must be mint or treasury' };
+      }
+      if (params.weighting !== undefined && params.weighting !== 'equal' && params.weighting !== 'stake') {
+        return { valid: false, error: 'propose weighting must be equal or stake' };
+      }
+      for (const field of ['threshold', 'quorum', 'transactionTaxRate', 'wealthTaxRate', 'redistributionShare'] as const) {
+        const value = params[field];
+        if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+          return { valid: false, error: `propose ${field} must be between 0 and 1` };
+        }
+      }
+      break;
+
+    case 'vote':
+      if (typeof params.proposalId !== 'string') {
+        return { valid: false, error: 'vote requires proposalId string' };
+      }
+      if (!['yes', 'no', 'abstain'].includes(params.choice as string)) {
+        return { valid: false, error: 'vote choice must be yes, no, or abstain' };
+      }
+      break;
+
+    case 'tally':
+      if (typeof params.proposalId !== 'string') {
+        return { valid: false, error: 'tally requires proposalId string' };
       }
       break;
 
@@ -183,8 +439,8 @@ function validateActionParams(
       break;
 
     case 'steal':
-      if (typeof params.targetAgentId !== 'string') {
-        return { valid: false, error: 'steal requires targetAgentId string' };
+      if (typeof params.targetAgentId !== 'string' && typeof params.targetContainerId !== 'string') {
+        return { valid: false, error: 'steal requires targetAgentId or targetContainerId string' };
       }
       if (typeof params.targetItemType !== 'string') {
         return { valid: false, error: 'steal requires targetItemType string' };
@@ -336,6 +592,60 @@ function validateActionParams(
         return { valid: false, error: 'cancel_job_offer requires jobOfferId string' };
       }
       break;
+
+    // Trade Proposals
+    case 'propose_trade':
+      if (typeof params.targetAgentId !== 'string') {
+        return { valid: false, error: 'propose_trade requires targetAgentId string' };
+      }
+      if (typeof params.offeringItemType !== 'string') {
+        return { valid: false, error: 'propose_trade requires offeringItemType string' };
+      }
+      if (typeof params.offeringQuantity !== 'number' || params.offeringQuantity < 1) {
+        return { valid: false, error: 'propose_trade offeringQuantity must be at least 1' };
+      }
+      if (typeof params.requestingItemType !== 'string') {
+        return { valid: false, error: 'propose_trade requires requestingItemType string' };
+      }
+      if (typeof params.requestingQuantity !== 'number' || params.requestingQuantity < 1) {
+        return { valid: false, error: 'propose_trade requestingQuantity must be at least 1' };
+      }
+      if (params.expiresInTicks !== undefined) {
+        if (typeof params.expiresInTicks !== 'number' || params.expiresInTicks < 1) {
+          return { valid: false, error: 'propose_trade expiresInTicks must be at least 1' };
+        }
+      }
+      break;
+
+    case 'accept_trade':
+      if (typeof params.proposalId !== 'string') {
+        return { valid: false, error: 'accept_trade requires proposalId string' };
+      }
+      break;
+
+    case 'reject_trade':
+      if (typeof params.proposalId !== 'string') {
+        return { valid: false, error: 'reject_trade requires proposalId string' };
+      }
+      break;
+
+    case 'counter_trade':
+      if (typeof params.proposalId !== 'string') {
+        return { valid: false, error: 'counter_trade requires proposalId string' };
+      }
+      if (typeof params.offeringItemType !== 'string') {
+        return { valid: false, error: 'counter_trade requires offeringItemType string' };
+      }
+      if (typeof params.offeringQuantity !== 'number' || params.offeringQuantity < 1) {
+        return { valid: false, error: 'counter_trade offeringQuantity must be at least 1' };
+      }
+      if (typeof params.requestingItemType !== 'string') {
+        return { valid: false, error: 'counter_trade requires requestingItemType string' };
+      }
+      if (typeof params.requestingQuantity !== 'number' || params.requestingQuantity < 1) {
+        return { valid: false, error: 'counter_trade requestingQuantity must be at least 1' };
+      }
+      break;
   }
 
   return { valid: true };
@@ -469,7 +779,7 @@ export function getFallbackDecision(
   if (foodQuantity >= 3 && hasNearbyAgents && nearbyAgents && nearbyAgents.length > 0) {
     const targetAgent = nearbyAgents[0]; // Pick first nearby agent
     return {
-      action: 'trade',
+      action: 'propose_trade',
       params: {
         targetAgentId: targetAgent.id,
         offeringItemType: 'food',
@@ -477,7 +787,7 @@ export function getFallbackDecision(
         requestingItemType: 'CITY',
         requestingQuantity: 8, // Fair price for food
       },
-      reasoning: 'Fallback: surplus food, trading with nearby agent',
+      reasoning: 'Fallback: surplus food, offering a trade to nearby agent',
     };
   }
 
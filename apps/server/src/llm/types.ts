@@ -79,6 +79,36 @@ export interface AgentObservation {
   activeEmployments?: ActiveEmployment[]; // Current contracts (as worker or employer)
   myJobOffers?: OpenJobOffer[]; // Job offers I've posted
 
+  // Trade Proposals (two-phase trade)
+  incomingTradeProposals?: TradeProposalEntry[]; // Open proposals addressed to me
+  myTradeProposals?: TradeProposalEntry[]; // Open proposals I've made
+
+  // Direct messages (send_message)
+  inbox?: InboxMessage[]; // Recent messages addressed to me
+
+  // Organisations (found_org / join_org / leave_org / expel_member)
+  myOrganizations?: OrganizationEntry[]; // Organisations I belong to
+  nearbyOrganizations?: NearbyOrganization[]; // Organisations of nearby agents I'm not in
+
+  // Governance (propose / vote / tally)
+  openProposals?: OpenProposalEntry[]; // Proposals I can vote on or tally
+  banishedFrom?: BanishedArea[]; // Claim areas I was voted out of
+
+  // Fiscal policy (fiscal_policy proposals)
+  publicTreasury?: PublicTreasuryInfo; // My world's treasury, when taxes or spending are in force
+
+  // Structures (build/demolish)
+  nearbyStructures?: NearbyStructure[]; // Agent-built structures and construction sites
+
+  // Shared storage containers (deposit/withdraw/grant_access)
+  nearbyContainers?: NearbyContainer[];
+
+  // Market (order books at shelters)
+  myMarketOrders?: MyMarketOrder[];
+
+  // Agent Plans (set_goal / update_plan)
+  currentPlan?: CurrentPlan;
+
   // Stigmergy & Signaling
   /** Nearby scents (stigmergy) */
   scents?: ScentTrace[];
@@ -138,6 +168,57 @@ export interface NearbyShelter {
   y: number;
   canSleep: boolean;
   ownerId?: string;
+  market?: MarketQuote[]; // Order book top per item type (place_order/cancel_order)
+}
+
+export interface MarketQuote {
+  itemType: string;
+  bestBid?: number; // Highest price someone will pay
+  bestAsk?: number; // Lowest price someone will sell at
+  bidQuantity: number;
+  askQuantity: number;
+}
+
+export interface MyMarketOrder {
+  id: string;
+  shelterId: string;
+  itemType: string;
+  side: 'bid' | 'ask';
+  price: number;
+  remaining: number;
+  expiresAtTick: number;
+}
+
+export interface CurrentPlan {
+  id: string;
+  goal: string;
+  steps: { description: string; action?: ActionType; params?: Record<string, unknown>; done: boolean }[];
+  currentStep: number;
+  deadlineTick: number;
+  createdAtTick: number;
+}
+
+export interface NearbyStructure {
+  id: string;
+  structureType: string; // 'shelter' | 'storage' | 'market_stall' | 'wall'
+  x: number;
+  y: number;
+  ownerId?: string;
+  status: 'under_construction' | 'complete';
+  buildProgress: number;
+  buildTicksRequired: number;
+  condition: number; // 0-100, collapses at 0
+}
+
+export interface NearbyContainer {
+  id: string;
+  x: number;
+  y: number;
+  ownerId?: string;
+  capacity: number;
+  contents: { type: string; quantity: number }[];
+  canDeposit: boolean;
+  canWithdraw: boolean;
 }
 
 export interface AvailableAction {
@@ -234,6 +315,93 @@ export interface OpenJobOffer {
   expiresAtTick?: number;
 }
 
+// =============================================================================
+// Trade Proposal Types
+// =============================================================================
+
+export interface TradeProposalEntry {
+  id: string;
+  proposerId: string;
+  targetId: string;
+  offeringItemType: string; // What the proposer gives
+  offeringQuantity: number;
+  requestingItemType: string; // What the proposer wants
+  requestingQuantity: number;
+  expiresAtTick: number;
+  isCounterOffer: boolean; // true if this counters an earlier proposal
+}
+
+export interface InboxMessage {
+  id: string;
+  conversationId: string;
+  fromId: string;
+  content: string; // As delivered (synthetic vocabulary applied)
+  sentAtTick: number;
+  replyToId?: string;
+}
+
+// =============================================================================
+// Organisation Types
+// =============================================================================
+
+export interface OrganizationEntry {
+  id: string;
+  name: string;
+  role: 'founder' | 'member';
+  founderId: string | null;
+  memberIds: string[]; // Active members, including me
+  treasury: number;
+  entryFee: number;
+  minTrust?: number;
+  maxMembers?: number;
+}
+
+export interface NearbyOrganization {
+  id: string;
+  name: string;
+  entryFee: number;
+  minTrust?: number;
+  maxMembers?: number;
+  memberCount: number;
+  nearbyMemberIds: string[]; // Visible agents who belong to it
+}
+
+// =============================================================================
+// Governance Types
+// =============================================================================
+
+export interface OpenProposalEntry {
+  id: string;
+  title: string;
+  proposerId: string | null;
+  scope: 'org' | 'claim' | 'world';
+  scopeId?: string;
+  outcome: 'tax' | 'banish' | 'shelter_price' | 'fiscal_policy' | 'resolution';
+  outcomeSummary: string; // What happens if it passes
+  threshold: number;
+  quorum: number;
+  weighting: 'equal' | 'stake';
+  closesAtTick: number;
+  myVote?: 'yes' | 'no' | 'abstain';
+  readyToTally: boolean; // Voting has closed
+}
+
+export interface BanishedArea {
+  x: number;
+  y: number;
+  radius: number;
+  expiresAtTick?: number;
+}
+
+export interface PublicTreasuryInfo {
+  balance: number;
+  transactionTaxRate: number; // Share of each wage and trade payment taken from the recipient
+  wealthTaxRate: number; // Share of wealth above the threshold, collected periodically
+  wealthTaxThreshold: number;
+  publicWorkFunding: 'mint' | 'treasury';
+  redistributionShare: number; // Share of the treasury shared out among everyone periodically
+}
+
 // =============================================================================
 // Phase 2: Social Discovery Types
 // =============================================================================
@@ -327,16 +495,52 @@ export interface AgentDecision {
   action: ActionType;
   params: ActionParams;
   reasoning?: string; // Optional explanation for logging
+  plan?: PlanDirective; // Optional set_goal / update_plan, applied before the action
 }
 
+/**
+ * A plan sub-step as written by the agent. With an action (and valid params)
+ * the step is routine and runs without an LLM call.
+ */
+export interface PlanStepInput {
+  description: string;
+  action?: ActionType;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Plan change carried by a decision:
+ * - set_goal: start a new plan (replaces the active one)
+ * - update_plan: mark the current step done, replace the remaining steps,
+ *   or end the plan
+ */
+export type PlanDirective =
+  | { type: 'set_goal'; goal: string; steps: PlanStepInput[]; deadlineInTicks?: number }
+  | { type: 'update_plan'; stepDone?: boolean; steps?: PlanStepInput[]; status?: 'completed' | 'abandoned'; reason?: string };
+
 export type ActionParams =
   | MoveParams
+  | TravelToParams
   | GatherParams
+  | CraftParams
+  | BuildParams
+  | DemolishParams
+  | DepositParams
+  | WithdrawParams
+  | GrantAccessParams
+  | PlaceOrderParams
+  | CancelOrderParams
+  | FoundOrgParams
+  | JoinOrgParams
+  | LeaveOrgParams
+  | ExpelMemberParams
+  | ProposeParams
+  | VoteParams
+  | TallyParams
   | ConsumeParams
   | SleepParams
   | BuyParams
   | WorkParams
-  | TradeParams
   | OfferJobParams
   | AcceptJobParams
   | PayWorkerParams
@@ -344,6 +548,10 @@ export type ActionParams =
   | QuitJobParams
   | FireWorkerParams
   | CancelJobOfferParams
+  | ProposeTradeParams
+  | AcceptTradeParams
+  | RejectTradeParams
+  | CounterTradeParams
   | HarmParams
   | StealParams
   | DeceiveParams
@@ -355,6 +563,7 @@ export type ActionParams =
   | SpreadGossipParams
   | SpawnOffspringParams
   | SignalParams
+  | SendMessageParams
   // Puzzle Game System
   | JoinPuzzleParams
   | LeavePuzzleParams
@@ -368,11 +577,55 @@ export interface MoveParams {
   toY: number;
 }
 
+export interface TravelToParams {
+  toX: number;
+  toY: number;
+}
+
+export interface CraftParams {
+  recipeId: string;
+}
+
+export interface BuildParams {
+  structureType: string;
+}
+
+export interface DemolishParams {
+  structureId?: string;
+}
+
+export interface DepositParams {
+  itemType: string;
+  quantity: number;
+  containerId?: string;
+}
+
+export interface WithdrawParams {
+  containerId: string;
+  itemType: string;
+  quantity: number;
+}
+
+export interface GrantAccessParams {
+  containerId: string;
+  granteeType: 'agent' | 'team' | 'credential';
+  granteeId?: string;
+  claimType?: string;
+  permission: 'deposit' | 'withdraw' | 'none';
+}
+
 export interface SignalParams {
   message: string;
   intensity: number; // 1-5
 }
 
+export interface SendMessageParams {
+  targetAgentId: string;
+  content: string;
+  conversationId?: string;
+  replyTo?: string;
+}
+
 export interface GatherParams {
   resourceType?: string;
   quantity?: number;
@@ -395,14 +648,6 @@ export interface WorkParams {
   duration?: number;
 }
 
-export interface TradeParams {
-  targetAgentId: string;
-  offeringItemType: string;
-  offeringQuantity: number;
-  requestingItemType: string;
-  requestingQuantity: number;
-}
-
 export interface OfferJobParams {
   salary: number;
   duration: number;
@@ -435,13 +680,102 @@ export interface CancelJobOfferParams {
   jobOfferId: string;
 }
 
+export interface ProposeTradeParams {
+  targetAgentId: string;
+  offeringItemType: string;
+  offeringQuantity: number;
+  requestingItemType: string;
+  requestingQuantity: number;
+  expiresInTicks?: number;
+}
+
+export interface AcceptTradeParams {
+  proposalId: string;
+}
+
+export interface RejectTradeParams {
+  proposalId: string;
+  reason?: string;
+}
+
+export interface CounterTradeParams {
+  proposalId: string;
+  offeringItemType: string;
+  offeringQuantity: number;
+  requestingItemType: string;
+  requestingQuantity: number;
+}
+
 export interface HarmParams {
   targetAgentId: string;
   intensity: 'light' | 'moderate' | 'severe';
 }
 
+export interface PlaceOrderParams {
+  side: 'bid' | 'ask';
+  itemType: string;
+  quantity: number;
+  price: number;
+  expiresInTicks?: number;
+}
+
+export interface CancelOrderParams {
+  orderId: string;
+}
+
+export interface FoundOrgParams {
+  name: string;
+  entryFee?: number;
+  minTrust?: number;
+  maxMembers?: number;
+  deposit?: number;
+}
+
+export interface JoinOrgParams {
+  orgId: string;
+}
+
+export interface LeaveOrgParams {
+  orgId: string;
+}
+
+export interface ExpelMemberParams {
+  orgId: string;
+  memberId: string;
+}
+
+export interface ProposeParams {
+  scope: 'org' | 'claim' | 'world';
+  scopeId?: string;
+  title: string;
+  outcome: 'tax' | 'banish' | 'shelter_price' | 'fiscal_policy' | 'resolution';
+  amount?: number;
+  targetAgentId?: string;
+  shelterId?: string;
+  priceMultiplier?: number;
+  transactionTaxRate?: number;
+  wealthTaxRate?: number;
+  wealthTaxThreshold?: number;
+  publicWorkFunding?: 'mint' | 'treasury';
+  redistributionShare?: number;
+  threshold?: number;
+  quorum?: number;
+  weighting?: 'equal' | 'stake';
+  votingTicks?: number;
+}
+
+export interface VoteParams {
+  proposalId: string;
+  choice: 'yes' | 'no' | 'abstain';
+}
+
+export interface TallyParams {
+  proposalId: string;
+}
+
 export interface StealParams {
-  targetAgentId: string;
+  targetAgentId?: string;
+  targetContainerId?: string;
   targetItemType: string;
   quantity: number;
 }
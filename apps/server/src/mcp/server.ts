@@ -0,0 +1,241 @@
+/**
+ * MCP Server - Model Context Protocol access for external agents (Phase 3: A2A Protocol)
+ *
+ * Exposes one simulation agent to any MCP-capable client:
+ * - Resource: the agent's current observation (same as GET /api/v1/agents/:id/observe)
+ * - Tools: one per registered action handler, input schema from actions/schemas.ts
+ *
+ * A server instance is bound to the external agent whose API key opened it.
+ * Transports: stdio (scripts/mcp-server.ts) and HTTP (routes/mcp.ts).
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  McpError,
+  ErrorCode,
+  type CallToolResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { hashApiKey } from '../middleware/auth';
+import { recordAndCheckRateLimit } from '../middleware/rate-limit';
+import { getExternalAgentByKeyHash } from '../db/queries/external-agents';
+import { getAgentById, getAllAgents, updateAgent } from '../db/queries/agents';
+import { getAllResourceSpawns, getAllShelters, getCurrentTick } from '../db/queries/world';
+import { getBusyCrafters } from '../db/queries/crafting';
+import type { ExternalAgent } from '../db/schema';
+import {
+  executeAction,
+  createIntent,
+  getRegisteredActionTypes,
+  ACTION_PARAMS_SCHEMAS,
+  validateActionParams,
+  type ActionType,
+} from '../actions';
+import { buildObservation } from '../agents/observer';
+
+export const MCP_SERVER_NAME = 'simagents';
+export const MCP_SERVER_VERSION = '0.1.0';
+
+const OBSERVATION_URI_TEMPLATE = 'simagents://agents/{agentId}/observation';
+
+export function observationUri(agentId: string): string {
+  return OBSERVATION_URI_TEMPLATE.replace('{agentId}', agentId);
+}
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Resolve an external-agent API key (same keys as the REST A2A API)
+ */
+export async function authenticateMcpApiKey(apiKey: string | undefined): Promise<ExternalAgent | null> {
+  if (!apiKey || !apiKey.startsWith('ac_')) return null;
+
+  const externalAgent = await getExternalAgentByKeyHash(hashApiKey(apiKey));
+  if (!externalAgent || !externalAgent.isActive) return null;
+
+  return externalAgent;
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+/**
+ * Describe every registered action as an MCP tool
+ */
+export function buildActionTools(actionTypes: ActionType[] = getRegisteredActionTypes()): Tool[] {
+  return actionTypes.map((type) => {
+    const { description, properties, required } = ACTION_PARAMS_SCHEMAS[type];
+    return {
+      name: type,
+      description,
+      inputSchema: {
+        type: 'object',
+        properties,
+        ...(required ? { required } : {}),
+      },
+    };
+  });
+}
+
+function toolResult(payload: Record<string, unknown>, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+    structuredContent: payload,
+    isError,
+  };
+}
+
+/**
+ * Execute an action for the agent, with the same checks as POST /decide
+ */
+async function callActionTool(
+  externalAgent: ExternalAgent,
+  action: ActionType,
+  params: Record<string, unknown>
+): Promise<CallToolResult> {
+  const agentId = externalAgent.agentId;
+
+  const paramsError = validateActionParams(action, params);
+  if (paramsError) {
+    return toolResult({ success: false, error: `Invalid params: ${paramsError}` }, true);
+  }
+
+  const agent = await getAgentById(agentId);
+  if (!agent) {
+    return toolResult({ success: false, error: 'Agent not found' }, true);
+  }
+  if (agent.state === 'dead') {
+    return toolResult({ success: false, error: 'Agent is dead' }, true);
+  }
+
+  const rateLimit = await recordAndCheckRateLimit(externalAgent.id);
+  if (!rateLimit.allowed) {
+    return toolResult({
+      success: false,
+      error: `Rate limit exceeded. Limit: ${rateLimit.limit} actions per tick`,
+    }, true);
+  }
+
+  const tick = await getCurrentTick();
+  const busyUntil = (await getBusyCrafters(tick, [agentId])).get(agentId);
+  if (busyUntil !== undefined) {
+    return toolResult({ success: false, error: `Agent is busy crafting until tick ${busyUntil}` }, true);
+  }
+
+  const result = await executeAction(createIntent(agentId, action, params, tick), agent);
+
+  if (result.success && result.changes) {
+    await updateAgent(agentId, result.changes);
+  }
+
+  return toolResult({
+    success: result.success,
+    tick,
+    result: {
+      changes: result.changes,
+      events: result.events,
+      error: result.error,
+    },
+  }, !result.success);
+}
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+async function readObservation(agentId: string) {
+  const agent = await getAgentById(agentId);
+  if (!agent) {
+    throw new McpError(ErrorCode.InvalidParams, 'Agent not found');
+  }
+
+  const tick = await getCurrentTick();
+  const [allAgents, allResourceSpawns, allShelters] = await Promise.all([
+    getAllAgents(),
+    getAllResourceSpawns(),
+    getAllShelters(),
+  ]);
+  const observation = await buildObservation(agent, tick, allAgents, allResourceSpawns, allShelters);
+
+  return { tick, observation };
+}
+
+// =============================================================================
+// Server Factory
+// =============================================================================
+
+/**
+ * Create an MCP server bound to one external agent
+ */
+export function createMcpServer(externalAgent: ExternalAgent): Server {
+  const agentId = externalAgent.agentId;
+  const server = new Server(
+    { name: MCP_SERVER_NAME, version: MCP_SERVER_VERSION },
+    {
+      capabilities: { tools: {}, resources: {} },
+      instructions:
+        `You control agent ${agentId} in the SimAgents world. ` +
+        `Read ${observationUri(agentId)} to see its surroundings, then call one action tool per tick.`,
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: buildActionTools(),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    if (!(getRegisteredActionTypes() as string[]).includes(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    return callActionTool(externalAgent, name as ActionType, args ?? {});
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: observationUri(agentId),
+        name: 'observation',
+        title: 'Current observation',
+        description: 'What the agent perceives this tick (self, nearby agents, resources, shelters, events)',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: OBSERVATION_URI_TEMPLATE,
+        name: 'observation',
+        description: 'Current observation of an agent (only the authenticated agent is readable)',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    if (uri !== observationUri(agentId)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown or forbidden resource: ${uri}`);
+    }
+
+    const contents = await readObservation(agentId);
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(contents, null, 2) }],
+    };
+  });
+
+  return server;
+}
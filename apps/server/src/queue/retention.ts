@@ -0,0 +1,80 @@
+/**
+ * Event Retention Job
+ * Runs services/event-retention.ts on a BullMQ job scheduler, so only one
+ * server instance enforces retention per interval
+ */
+
+import { Queue, Worker } from 'bullmq';
+import Redis from 'ioredis';
+import { CONFIG } from '../config';
+import { enforceEventRetention, type RetentionReport } from '../services/event-retention';
+import { createTracedLogger } from '../telemetry';
+
+const logger = createTracedLogger('Retention');
+
+const QUEUE_NAME = 'event-retention';
+const SCHEDULER_ID = 'event-retention-interval';
+
+let queue: Queue | null = null;
+let worker: Worker | null = null;
+let lastRun: { finishedAt: string; reports: RetentionReport[] } | null = null;
+
+/**
+ * Run retention now and log what was pruned
+ */
+export async function runEventRetention(): Promise<RetentionReport[]> {
+  const reports = await enforceEventRetention();
+  lastRun = { finishedAt: new Date().toISOString(), reports };
+
+  for (const report of reports) {
+    const world = report.tenantId ?? 'main world';
+    if (report.error) {
+      logger.error(`Retention failed for ${world}: ${report.error}`);
+    } else if (report.prunedEvents > 0) {
+      logger.info(
+        `Archived ${report.prunedEvents} events (${report.archivedTicks} ticks) for ${world}, ${report.remainingEvents} remain`
+      );
+    }
+  }
+  return reports;
+}
+
+/**
+ * Reports of the last run in this process, or null if it has not run yet
+ */
+export function getLastRetentionRun(): { finishedAt: string; reports: RetentionReport[] } | null {
+  return lastRun;
+}
+
+export async function startRetentionJob(): Promise<void> {
+  if (worker || !CONFIG.eventRetention.enabled) return;
+
+  // BullMQ requires maxRetriesPerRequest: null for blocking operations
+  const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const connection: any = new Redis(redisUrl, { maxRetriesPerRequest: null });
+
+  queue = new Queue(QUEUE_NAME, {
+    connection,
+    defaultJobOptions: { removeOnComplete: 10, removeOnFail: 10 },
+  });
+  await queue.upsertJobScheduler(SCHEDULER_ID, { every: CONFIG.eventRetention.intervalMs });
+
+  worker = new Worker(QUEUE_NAME, async () => {
+    const reports = await runEventRetention();
+    return { prunedEvents: reports.reduce((sum, report) => sum + report.prunedEvents, 0) };
+  }, { connection, concurrency: 1 });
+
+  worker.on('failed', (job, err) => {
+    logger.error(`Retention job ${job?.id} failed`, err);
+  });
+
+  logger.info(`Event retention scheduled every ${CONFIG.eventRetention.intervalMs}ms`);
+}
+
+export async function stopRetentionJob(): Promise<void> {
+  await worker?.close();
+  await queue?.close();
+  worker = null;
+  queue = null;
+}
@@ -0,0 +1,231 @@
+/**
+ * Agent Socket Routes (Phase 3: A2A Protocol)
+ *
+ * WebSocket alternative to polling /observe and /decide.
+ * The server pushes each tick's observation and the agent answers in-band
+ * before the deadline. See agents/socket-hub.ts for the message protocol.
+ *
+ * Endpoints:
+ * - GET /api/v1/agents/:id/ws - Upgrade to a WebSocket (X-API-Key header or ?apiKey=)
+ *
+ * Query parameters:
+ * - resumeFromTick: replay this agent's events after the given tick on connect
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import websocket from '@fastify/websocket';
+import { verifyApiKey } from '../middleware/auth';
+import { recordAndCheckRateLimit } from '../middleware/rate-limit';
+import { getAgentById } from '../db/queries/agents';
+import { getCurrentTick } from '../db/queries/world';
+import { getAgentEventsSinceTick } from '../db/queries/events';
+import type { ExternalAgent } from '../db/schema';
+import { agentSocketHub, type AgentSocket, type ServerMessage } from '../agents/socket-hub';
+import { CONFIG } from '../config';
+
+interface SocketRouteParams {
+  id: string;
+}
+
+interface SocketRouteQuery {
+  apiKey?: string;
+  resumeFromTick?: string;
+}
+
+type SocketRequest = FastifyRequest<{ Params: SocketRouteParams; Querystring: SocketRouteQuery }>;
+
+// =============================================================================
+// Handshake
+// =============================================================================
+
+/**
+ * Authenticate before the upgrade so failures are plain HTTP errors
+ *
+ * Browsers cannot set headers on WebSocket requests, hence the query fallback.
+ */
+async function authenticateSocket(request: SocketRequest, reply: FastifyReply): Promise<void> {
+  const apiKey = (request.headers['x-api-key'] as string | undefined) ?? request.query.apiKey;
+
+  if (!apiKey) {
+    reply.code(401).send({ error: 'Unauthorized', message: 'Missing X-API-Key header or apiKey query parameter' });
+    return;
+  }
+
+  const externalAgent = await verifyApiKey(apiKey);
+  if (!externalAgent) {
+    reply.code(401).send({ error: 'Unauthorized', message: 'Invalid or inactive API key' });
+    return;
+  }
+
+  if (externalAgent.agentId !== request.params.id) {
+    reply.code(403).send({ error: 'Forbidden', message: 'API key does not match requested agent' });
+    return;
+  }
+
+  const agent = await getAgentById(request.params.id);
+  if (!agent) {
+    reply.code(404).send({ error: 'Agent not found' });
+    return;
+  }
+
+  if (agent.state === 'dead') {
+    reply.code(410).send({ error: 'Gone', message: 'Agent is dead' });
+    return;
+  }
+
+  (request as any).externalAgent = externalAgent;
+}
+
+/**
+ * Replay events the agent missed while disconnected
+ */
+async function sendResume(socket: AgentSocket, agentId: string, fromTick: number, currentTick: number): Promise<void> {
+  const limit = CONFIG.externalAgents.socket.maxResumeEvents;
+  const missed = await getAgentEventsSinceTick(agentId, fromTick, limit + 1);
+  const truncated = missed.length > limit;
+
+  const message: ServerMessage = {
+    type: 'resume',
+    fromTick,
+    toTick: currentTick,
+    events: missed.slice(0, limit).map((e) => ({
+      id: e.id,
+      tick: e.tick,
+      eventType: e.eventType,
+      payload: e.payload,
+    })),
+    truncated,
+  };
+  socket.send(JSON.stringify(message));
+}
+
+// =============================================================================
+// Message Handling
+// =============================================================================
+
+async function handleMessage(agentId: string, externalAgent: ExternalAgent, raw: string): Promise<void> {
+  agentSocketHub.touch(agentId);
+
+  let message: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    message = parsed;
+  } catch {
+    agentSocketHub.send(agentId, { type: 'error', code: 'invalid_message', message: 'Messages must be JSON objects' });
+    return;
+  }
+
+  switch (message.type) {
+    case 'ping':
+      agentSocketHub.send(agentId, { type: 'pong', timestamp: Date.now() });
+      return;
+
+    case 'pong':
+      return;
+
+    case 'decision': {
+      const pendingTick = agentSocketHub.getPendingTick(agentId);
+      if (pendingTick === null) {
+        agentSocketHub.send(agentId, {
+          type: 'error',
+          code: 'no_pending_observation',
+          message: 'No observation is waiting for a decision',
+        });
+        return;
+      }
+
+      // Same per-tick budget as POST /decide
+      const rateLimit = await recordAndCheckRateLimit(externalAgent.id);
+      if (!rateLimit.allowed) {
+        agentSocketHub.send(agentId, {
+          type: 'error',
+          code: 'rate_limited',
+          message: `Rate limit exceeded. Limit: ${rateLimit.limit} actions per tick`,
+          tick: pendingTick,
+        });
+        return;
+      }
+
+      const result = agentSocketHub.submitDecision(agentId, message);
+      if (result.accepted) {
+        agentSocketHub.send(agentId, { type: 'decision_ack', tick: result.tick });
+      } else {
+        agentSocketHub.send(agentId, { type: 'error', code: result.code, message: result.message, tick: pendingTick });
+      }
+      return;
+    }
+
+    default:
+      agentSocketHub.send(agentId, {
+        type: 'error',
+        code: 'unknown_message_type',
+        message: `Unknown message type: ${String(message.type)}`,
+      });
+  }
+}
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export async function registerAgentSocketRoutes(server: FastifyInstance): Promise<void> {
+  await server.register(websocket);
+
+  server.get<{ Params: SocketRouteParams; Querystring: SocketRouteQuery }>(
+    '/api/v1/agents/:id/ws',
+    {
+      websocket: true,
+      preValidation: authenticateSocket,
+      schema: {
+        description: 'Open a WebSocket for an external agent (observations pushed each tick, decisions in-band)',
+        tags: ['External Agents (v1)'],
+        security: [{ apiKey: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid', description: 'Agent ID' },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            apiKey: { type: 'string', description: 'API key (alternative to X-API-Key header)' },
+            resumeFromTick: { type: 'string', pattern: '^[0-9]+$', description: 'Replay events after this tick' },
+          },
+        },
+      },
+    },
+    async (socket, request) => {
+      const agentId = request.params.id;
+      const externalAgent = (request as any).externalAgent as ExternalAgent;
+      const agentSocket = socket as AgentSocket;
+
+      // Register listeners first so frames sent during setup are not lost
+      socket.on('message', (data) => {
+        handleMessage(agentId, externalAgent, data.toString()).catch((error) => {
+          console.error(`[AgentSocket] Message handling failed for ${agentId}:`, error);
+        });
+      });
+      socket.on('pong', () => agentSocketHub.touch(agentId));
+      socket.on('close', () => agentSocketHub.detach(agentId, agentSocket));
+
+      const tick = await getCurrentTick();
+      const { heartbeatIntervalMs, decisionTimeoutMs } = CONFIG.externalAgents.socket;
+
+      const welcome: ServerMessage = { type: 'welcome', agentId, tick, heartbeatIntervalMs, decisionTimeoutMs };
+      socket.send(JSON.stringify(welcome));
+
+      // Sent on the raw socket: the hub only routes to the agent once attached below
+      if (request.query.resumeFromTick !== undefined) {
+        await sendResume(agentSocket, agentId, parseInt(request.query.resumeFromTick, 10), tick);
+      }
+
+      // Attaching also re-sends an observation still awaiting a decision
+      agentSocketHub.attach(agentId, externalAgent.id, agentSocket);
+    }
+  );
+}
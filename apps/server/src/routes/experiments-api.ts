@@ -263,6 +263,7 @@ export async function registerExperimentRoutes(server: FastifyInstance): Promise
 
     // Stop current simulation
     tickEngine.stop();
+    await tickEngine.waitForIdle();
 
     // Clear world and reset tick counter
     await clearWorld();
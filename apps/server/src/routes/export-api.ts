@@ -0,0 +1,93 @@
+/**
+ * Data Export API Routes
+ *
+ * Streaming bulk export for offline analysis (services/data-export.ts):
+ * - GET /api/export/schema - Datasets, columns and event types per dataset
+ * - GET /api/export/:dataset - Stream one dataset as NDJSON or Arrow IPC
+ */
+
+import { Readable } from 'node:stream';
+import type { FastifyInstance } from 'fastify';
+import {
+  EXPORT_FORMATS,
+  buildExportSchema,
+  getExportDataset,
+  resolveExportRange,
+  streamExportDataset,
+  type ExportFormat,
+} from '../services/data-export';
+
+interface ExportQuery {
+  format?: string;
+  from?: string;
+  to?: string;
+  variantId?: string;
+}
+
+function parseTick(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  const tick = parseInt(value, 10);
+  return isNaN(tick) || tick < 0 ? null : tick;
+}
+
+export async function registerExportRoutes(server: FastifyInstance): Promise<void> {
+  // ---------------------------------------------------------------------------
+  // GET /api/export/schema - Documented schema of every dataset
+  // ---------------------------------------------------------------------------
+  server.get('/api/export/schema', {
+    schema: {
+      description: 'Column schema of every export dataset, and the event types in each events dataset',
+      tags: ['Export'],
+    },
+  }, async () => {
+    return buildExportSchema();
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /api/export/:dataset - Stream a dataset
+  // ---------------------------------------------------------------------------
+  server.get<{ Params: { dataset: string }; Querystring: ExportQuery }>('/api/export/:dataset', {
+    schema: {
+      description: 'Stream a dataset (events_<category>, ledger, agent_tick_states, llm_metrics) for a tick range or experiment variant',
+      tags: ['Export'],
+      params: {
+        type: 'object',
+        properties: {
+          dataset: { type: 'string', description: 'Dataset name (see /api/export/schema)' },
+        },
+        required: ['dataset'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: Object.keys(EXPORT_FORMATS), description: 'ndjson (default) or arrow' },
+          from: { type: 'string', description: 'Start tick (default 0)' },
+          to: { type: 'string', description: 'End tick (default: latest)' },
+          variantId: { type: 'string', format: 'uuid', description: 'Export the tick range of an experiment variant' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const dataset = getExportDataset(request.params.dataset);
+    if (!dataset) {
+      return reply.code(404).send({ error: `Unknown dataset: ${request.params.dataset}` });
+    }
+
+    const format = (request.query.format ?? 'ndjson') as ExportFormat;
+    const fromTick = parseTick(request.query.from);
+    const toTick = parseTick(request.query.to);
+    if (fromTick === null || toTick === null || (fromTick !== undefined && toTick !== undefined && toTick < fromTick)) {
+      return reply.code(400).send({ error: 'Invalid tick parameters' });
+    }
+
+    const range = await resolveExportRange({ fromTick, toTick, variantId: request.query.variantId });
+    if (!range) {
+      return reply.code(404).send({ error: 'Variant not found or not started' });
+    }
+
+    const { extension, contentType } = EXPORT_FORMATS[format];
+    reply.header('Content-Type', contentType);
+    reply.header('Content-Disposition', `attachment; filename="${dataset.name}.${extension}"`);
+    return reply.send(Readable.from(streamExportDataset(dataset, format, range)));
+  });
+}
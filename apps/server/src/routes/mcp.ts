@@ -0,0 +1,85 @@
+/**
+ * MCP Routes (Phase 3: A2A Protocol)
+ *
+ * Model Context Protocol over Streamable HTTP, stateless: every POST carries
+ * the API key and gets a fresh server bound to that key's agent.
+ * See mcp/server.ts for the exposed tools and resources.
+ *
+ * Endpoints:
+ * - POST /mcp - JSON-RPC requests (X-API-Key or Authorization: Bearer <key>)
+ * - GET /mcp, DELETE /mcp - 405 (no sessions, no server-initiated streams)
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { authenticateMcpApiKey, createMcpServer } from '../mcp/server';
+
+function getApiKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string') return header;
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length);
+
+  return undefined;
+}
+
+/**
+ * JSON-RPC error body, as MCP clients expect even for HTTP-level failures
+ */
+function sendJsonRpcError(reply: FastifyReply, statusCode: number, code: number, message: string) {
+  return reply.code(statusCode).send({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+export async function registerMcpRoutes(server: FastifyInstance): Promise<void> {
+  server.post('/mcp', {
+    schema: {
+      description: 'Model Context Protocol endpoint (Streamable HTTP, stateless)',
+      tags: ['External Agents (v1)'],
+      security: [{ apiKey: [] }],
+    },
+  }, async (request, reply) => {
+    const externalAgent = await authenticateMcpApiKey(getApiKey(request));
+    if (!externalAgent) {
+      return sendJsonRpcError(reply, 401, -32001, 'Missing, invalid or inactive API key');
+    }
+
+    const mcpServer = createMcpServer(externalAgent);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+
+    // The transport writes the response itself
+    reply.hijack();
+    reply.raw.on('close', () => {
+      transport.close().catch(() => {});
+      mcpServer.close().catch(() => {});
+    });
+
+    try {
+      await mcpServer.connect(transport);
+      await transport.handleRequest(request.raw, reply.raw, request.body);
+    } catch (error) {
+      console.error('[MCP] Request failed:', error);
+      if (!reply.raw.headersSent) {
+        reply.raw.writeHead(500, { 'Content-Type': 'application/json' });
+        reply.raw.end(JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        }));
+      }
+    }
+  });
+
+  const methodNotAllowed = async (_request: FastifyRequest, reply: FastifyReply) =>
+    sendJsonRpcError(reply, 405, -32000, 'Method not allowed: this server is stateless, use POST');
+
+  server.get('/mcp', { schema: { hide: true } }, methodNotAllowed);
+  server.delete('/mcp', { schema: { hide: true } }, methodNotAllowed);
+}
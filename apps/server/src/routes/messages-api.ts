@@ -0,0 +1,43 @@
+/**
+ * Agent Message API Routes
+ *
+ * Direct messages (send_message) for linguistic analysis:
+ * - GET /api/messages - Messages of a world, agent or conversation
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { listMessages } from '../db/queries/messages';
+
+interface MessagesQuery {
+  tenantId?: string;
+  agentId?: string;
+  conversationId?: string;
+  limit?: string;
+}
+
+export async function registerMessagesRoutes(server: FastifyInstance): Promise<void> {
+  // ---------------------------------------------------------------------------
+  // GET /api/messages - Message log, newest first
+  // ---------------------------------------------------------------------------
+  server.get<{ Querystring: MessagesQuery }>('/api/messages', {
+    schema: {
+      description: 'Direct messages between agents, newest first (content as written and as delivered)',
+      tags: ['Messages'],
+      querystring: {
+        type: 'object',
+        properties: {
+          tenantId: { type: 'string', format: 'uuid', description: 'Tenant world (default: all worlds)' },
+          agentId: { type: 'string', format: 'uuid', description: 'Sender or recipient' },
+          conversationId: { type: 'string', format: 'uuid', description: 'One conversation thread' },
+          limit: { type: 'string', description: 'Max messages (default 100, max 1000)' },
+        },
+      },
+    },
+  }, async (request) => {
+    const { tenantId, agentId, conversationId } = request.query;
+    const limit = Math.min(Math.max(parseInt(request.query.limit ?? '100', 10) || 100, 1), 1000);
+
+    const messages = await listMessages({ tenantId, agentId, conversationId, limit });
+    return { messages, count: messages.length };
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Organisation API Routes
+ *
+ * Organisations founded by agents (found_org / join_org / leave_org / expel_member):
+ * - GET /api/organizations - Organisations of a world with their members
+ * - GET /api/organizations/:id - One organisation with membership history and treasury ledger
+ */
+
+import type { FastifyInstance } from 'fastify';
+import {
+  getMembersForOrganizations,
+  getOrganizationById,
+  listOrganizations,
+} from '../db/queries/organizations';
+import { getOrgTransactionHistory } from '../ledger';
+
+interface OrganizationsQuery {
+  tenantId?: string;
+  includeDissolved?: string;
+}
+
+export async function registerOrganizationsRoutes(server: FastifyInstance): Promise<void> {
+  // ---------------------------------------------------------------------------
+  // GET /api/organizations - Organisations and their active members
+  // ---------------------------------------------------------------------------
+  server.get<{ Querystring: OrganizationsQuery }>('/api/organizations', {
+    schema: {
+      description: 'Organisations of a world, newest first, with active members and roles',
+      tags: ['Organizations'],
+      querystring: {
+        type: 'object',
+        properties: {
+          tenantId: { type: 'string', format: 'uuid', description: 'Tenant world (default: main world)' },
+          includeDissolved: { type: 'string', enum: ['true', 'false'], description: 'Include dissolved organisations' },
+        },
+      },
+    },
+  }, async (request) => {
+    const orgs = await listOrganizations(request.query.tenantId ?? null, request.query.includeDissolved === 'true');
+    const members = await getMembersForOrganizations(orgs.map((o) => o.id));
+
+    const organizations = orgs.map((org) => ({
+      ...org,
+      members: members
+        .filter((m) => m.orgId === org.id && m.status === 'active')
+        .map((m) => ({ agentId: m.agentId, role: m.role, joinedAtTick: m.joinedAtTick })),
+    }));
+    return { organizations, count: organizations.length };
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /api/organizations/:id - Membership history and treasury transactions
+  // ---------------------------------------------------------------------------
+  server.get<{ Params: { id: string } }>('/api/organizations/:id', {
+    schema: {
+      description: 'One organisation with every membership (including left/expelled) and its treasury ledger',
+      tags: ['Organizations'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+  }, async (request, reply) => {
+    const org = await getOrganizationById(request.params.id);
+    if (!org) {
+      return reply.code(404).send({ error: 'Organization not found' });
+    }
+
+    const [members, transactions] = await Promise.all([
+      getMembersForOrganizations([org.id]),
+      getOrgTransactionHistory(org.id),
+    ]);
+    return { organization: org, members, transactions };
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Proposal API Routes
+ *
+ * Collective decisions (propose / vote / tally) for governance analysis:
+ * - GET /api/proposals - Proposals of a world, newest first
+ * - GET /api/proposals/:id - One proposal with every vote
+ */
+
+import type { FastifyInstance } from 'fastify';
+import {
+  getProposalById,
+  getVotesForProposal,
+  listProposals,
+  type ProposalScope,
+  type ProposalStatus,
+} from '../db/queries/governance';
+
+interface ProposalsQuery {
+  tenantId?: string;
+  status?: ProposalStatus;
+  scope?: ProposalScope;
+  limit?: string;
+}
+
+export async function registerProposalsRoutes(server: FastifyInstance): Promise<void> {
+  // ---------------------------------------------------------------------------
+  // GET /api/proposals - Proposal log, newest first
+  // ---------------------------------------------------------------------------
+  server.get<{ Querystring: ProposalsQuery }>('/api/proposals', {
+    schema: {
+      description: 'Proposals with their decision rule, tally and outcome, newest first',
+      tags: ['Governance'],
+      querystring: {
+        type: 'object',
+        properties: {
+          tenantId: { type: 'string', format: 'uuid', description: 'Tenant world (default: all worlds)' },
+          status: { type: 'string', enum: ['open', 'passed', 'rejected', 'no_quorum'] },
+          scope: { type: 'string', enum: ['org', 'claim', 'world'] },
+          limit: { type: 'string', description: 'Max proposals (default 100, max 1000)' },
+        },
+      },
+    },
+  }, async (request) => {
+    const { tenantId, status, scope } = request.query;
+    const limit = Math.min(Math.max(parseInt(request.query.limit ?? '100', 10) || 100, 1), 1000);
+
+    const proposals = await listProposals({ tenantId, status, scopeType: scope, limit });
+    return { proposals, count: proposals.length };
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /api/proposals/:id - Proposal with its votes
+  // ---------------------------------------------------------------------------
+  server.get<{ Params: { id: string } }>('/api/proposals/:id', {
+    schema: {
+      description: 'One proposal with every vote cast (choice, weight, tick)',
+      tags: ['Governance'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+  }, async (request, reply) => {
+    const proposal = await getProposalById(request.params.id);
+    if (!proposal) {
+      return reply.code(404).send({ error: 'Proposal not found' });
+    }
+
+    const votes = await getVotesForProposal(proposal.id);
+    return { proposal, votes };
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Event Retention API Routes
+ *
+ * Retention policy, archives and rehydration (services/event-retention.ts):
+ * - GET /api/events/retention - Policy, last run report and archives of a world
+ * - GET /api/events/aggregates - Per-tick counts of archived infrastructure events
+ * - POST /api/events/retention/run - Enforce retention now (admin)
+ * - POST /api/replay/rehydrate - Restore archived events of a tick range (admin)
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { requireAdmin } from '../middleware/auth';
+import { getEventTickAggregates, listEventArchives } from '../db/queries/events-cleanup';
+import { getTenant } from '../db/queries/tenants';
+import { getRetentionPolicy, rehydrateArchivedEvents } from '../services/event-retention';
+import { getLastRetentionRun, runEventRetention } from '../queue/retention';
+
+interface WorldQuery {
+  tenantId?: string;
+}
+
+interface TickRangeQuery extends WorldQuery {
+  from?: string;
+  to?: string;
+}
+
+const worldQuerySchema = {
+  tenantId: { type: 'string', format: 'uuid', description: 'Tenant world (default: main world)' },
+};
+
+function parseTickRange(query: TickRangeQuery): { fromTick: number; toTick: number } | null {
+  const fromTick = parseInt(query.from ?? '', 10);
+  const toTick = parseInt(query.to ?? '', 10);
+  if (isNaN(fromTick) || isNaN(toTick) || fromTick < 0 || toTick < fromTick) return null;
+  return { fromTick, toTick };
+}
+
+export async function registerRetentionRoutes(server: FastifyInstance): Promise<void> {
+  // ---------------------------------------------------------------------------
+  // GET /api/events/retention - Policy, last report and archives
+  // ---------------------------------------------------------------------------
+  server.get<{ Querystring: WorldQuery }>('/api/events/retention', {
+    schema: {
+      description: 'Event retention policy, last retention report and archived tick ranges of a world',
+      tags: ['Events'],
+      querystring: { type: 'object', properties: worldQuerySchema },
+    },
+  }, async (request, reply) => {
+    const tenantId = request.query.tenantId ?? null;
+    const tenant = tenantId ? await getTenant(tenantId) : null;
+    if (tenantId && !tenant) {
+      return reply.code(404).send({ error: 'Tenant not found' });
+    }
+
+    const lastRun = getLastRetentionRun();
+    return {
+      tenantId,
+      policy: getRetentionPolicy(tenant),
+      lastRun: lastRun && {
+        finishedAt: lastRun.finishedAt,
+        report: lastRun.reports.find((report) => report.tenantId === tenantId) ?? null,
+      },
+      archives: await listEventArchives(tenantId),
+    };
+  });
+
+  // ---------------------------------------------------------------------------
+  // GET /api/events/aggregates - Archived infrastructure activity per tick
+  // ---------------------------------------------------------------------------
+  server.get<{ Querystring: TickRangeQuery }>('/api/events/aggregates', {
+    schema: {
+      description: 'Per-tick counts of archived infrastructure events by type',
+      tags: ['Events'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...worldQuerySchema,
+          from: { type: 'string', description: 'Start tick' },
+          to: { type: 'string', description: 'End tick' },
+        },
+        required: ['from', 'to'],
+      },
+    },
+  }, async (request, reply) => {
+    const range = parseTickRange(request.query);
+    if (!range) {
+      return reply.code(400).send({ error: 'Invalid tick parameters' });
+    }
+
+    const aggregates = await getEventTickAggregates(request.query.tenantId ?? null, range.fromTick, range.toTick);
+    return { ...range, aggregates };
+  });
+
+  // ---------------------------------------------------------------------------
+  // POST /api/events/retention/run - Enforce retention now
+  // ---------------------------------------------------------------------------
+  server.post('/api/events/retention/run', {
+    schema: {
+      description: 'Archive events outside each world\'s retention policy now and report what was pruned',
+      tags: ['Events'],
+    },
+    preHandler: [requireAdmin],
+  }, async () => {
+    return { reports: await runEventRetention() };
+  });
+
+  // ---------------------------------------------------------------------------
+  // POST /api/replay/rehydrate - Restore archived events
+  // ---------------------------------------------------------------------------
+  server.post<{ Querystring: TickRangeQuery }>('/api/replay/rehydrate', {
+    schema: {
+      description: 'Restore archived events overlapping a tick range so replay can read them (whole archives are restored)',
+      tags: ['Replay'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...worldQuerySchema,
+          from: { type: 'string', description: 'Start tick' },
+          to: { type: 'string', description: 'End tick' },
+        },
+        required: ['from', 'to'],
+      },
+    },
+    preHandler: [requireAdmin],
+  }, async (request, reply) => {
+    const range = parseTickRange(request.query);
+    if (!range) {
+      return reply.code(400).send({ error: 'Invalid tick parameters' });
+    }
+
+    const restored = await rehydrateArchivedEvents(range.fromTick, range.toTick, request.query.tenantId ?? null);
+    return { restored };
+  });
+}
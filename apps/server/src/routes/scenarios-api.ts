@@ -11,6 +11,7 @@
  * - POST /api/scenarios/disaster  - Natural disaster (remove resources)
  * - POST /api/scenarios/abundance - Resource abundance (boost resources)
  * - POST /api/scenarios/rule      - Modify simulation rules
+ * - POST /api/scenarios/fiscal    - Change a world's taxes and public spending
  * - GET  /api/scenarios/history   - Get scenario injection history
  */
 
@@ -22,6 +23,8 @@ import { getCurrentTick } from '../db/queries/world';
 import { appendEvent } from '../db/queries/events';
 import { v4 as uuid } from 'uuid';
 import { requireAdmin } from '../middleware/auth';
+import { getTreasury, toFiscalPolicy, updateFiscalPolicy, type FiscalPolicy } from '../db/queries/fiscal';
+import { validateFiscalPolicy } from '../simulation/fiscal';
 
 // =============================================================================
 // Types
@@ -104,6 +107,11 @@ interface RuleChangeBody {
   durationTicks?: number;
 }
 
+interface FiscalPolicyBody extends Partial<FiscalPolicy> {
+  /** World whose treasury to change (omit for the default world) */
+  tenantId?: string;
+}
+
 // =============================================================================
 // Scenario History (in-memory for now)
 // =============================================================================
@@ -551,6 +559,70 @@ export async function registerScenarioRoutes(server: FastifyInstance): Promise<v
     return scenarioResult;
   });
 
+  // ---------------------------------------------------------------------------
+  // POST /api/scenarios/fiscal - Change fiscal policy (requires admin auth)
+  // ---------------------------------------------------------------------------
+  server.post<{ Body: FiscalPolicyBody }>('/api/scenarios/fiscal', {
+    preHandler: [requireAdmin],
+    schema: {
+      description: "Change a world's taxes and public spending rules",
+      tags: ['Scenarios'],
+      body: {
+        type: 'object',
+        properties: {
+          tenantId: { type: 'string', format: 'uuid' },
+          transactionTaxRate: { type: 'number', description: 'Share of each payment between agents' },
+          wealthTaxRate: { type: 'number', description: 'Share of balances above the threshold, per fiscal interval' },
+          wealthTaxThreshold: { type: 'number' },
+          publicWorkFunding: { type: 'string', enum: ['mint', 'treasury'] },
+          redistributionShare: { type: 'number', description: 'Share of the treasury paid out per fiscal interval' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { tenantId = null, ...policy } = request.body;
+
+    const error = validateFiscalPolicy(policy);
+    if (error) {
+      return reply.code(400).send({ error });
+    }
+
+    const tick = await getCurrentTick();
+    const scenarioId = uuid();
+    const previous = toFiscalPolicy(await getTreasury(tenantId));
+    const treasury = await updateFiscalPolicy(tenantId, policy, 'scenario', tick);
+    const current = toFiscalPolicy(treasury);
+
+    // Log event
+    await appendEvent({
+      eventType: 'scenario_fiscal_policy',
+      tick,
+      payload: {
+        scenarioId,
+        tenantId,
+        previous,
+        current,
+      },
+    });
+
+    const scenarioResult: ScenarioResult = {
+      success: true,
+      scenarioId,
+      type: 'fiscal_policy',
+      tick,
+      affectedEntities: 1,
+      details: {
+        tenantId,
+        previous,
+        current,
+        treasuryBalance: treasury.balance,
+      },
+    };
+
+    addToHistory(scenarioResult, request.body as unknown as Record<string, unknown>);
+    return scenarioResult;
+  });
+
   // ---------------------------------------------------------------------------
   // GET /api/scenarios/history - Get scenario injection history
   // ---------------------------------------------------------------------------
@@ -56,6 +56,7 @@ export async function registerTenantRoutes(server: FastifyInstance): Promise<voi
           maxAgents: { type: 'number', default: 20, description: 'Maximum agents allowed' },
           maxTicksPerDay: { type: 'number', default: 1000, description: 'Maximum ticks per day' },
           maxEventsStored: { type: 'number', default: 100000, description: 'Maximum events stored' },
+          eventRetentionTicks: { type: 'number', nullable: true, description: 'Ticks of full event detail kept before archival (null = server default)' },
           tickIntervalMs: { type: 'number', default: 60000, description: 'Tick interval in milliseconds' },
           gridWidth: { type: 'number', default: 100, description: 'Grid width' },
           gridHeight: { type: 'number', default: 100, description: 'Grid height' },
@@ -218,6 +219,7 @@ export async function registerTenantRoutes(server: FastifyInstance): Promise<voi
           maxAgents: { type: 'number' },
           maxTicksPerDay: { type: 'number' },
           maxEventsStored: { type: 'number' },
+          eventRetentionTicks: { type: 'number', nullable: true },
           tickIntervalMs: { type: 'number' },
           gridWidth: { type: 'number' },
           gridHeight: { type: 'number' },
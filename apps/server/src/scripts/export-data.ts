@@ -0,0 +1,61 @@
+/**
+ * Data Export Script
+ *
+ * Dumps events (one file per category), ledger, agent tick states and
+ * llm_metrics for a tick range or experiment variant, plus schema.json.
+ *
+ * Usage:
+ *   bun run src/scripts/export-data.ts --out <dir> [--format ndjson|arrow]
+ *     [--from <tick>] [--to <tick>] [--variant <variantId>]
+ */
+
+import { EXPORT_FORMATS, exportToDirectory, resolveExportRange, type ExportFormat } from '../services/data-export';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseTick(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const out = getFlag(args, 'out');
+  const format = (getFlag(args, 'format') ?? 'ndjson') as ExportFormat;
+  const fromTick = parseTick(getFlag(args, 'from'));
+  const toTick = parseTick(getFlag(args, 'to'));
+  const variantId = getFlag(args, 'variant');
+
+  const validTick = (tick: number | undefined) => tick === undefined || (Number.isInteger(tick) && tick >= 0);
+  if (!out || !(format in EXPORT_FORMATS) || !validTick(fromTick) || !validTick(toTick)) {
+    console.log('Usage: bun run src/scripts/export-data.ts --out <dir> [--format ndjson|arrow] [--from <tick>] [--to <tick>] [--variant <variantId>]');
+    process.exit(1);
+  }
+
+  try {
+    const range = await resolveExportRange({ fromTick, toTick, variantId });
+    if (!range) {
+      console.error(`[Export] Variant ${variantId} not found or not started`);
+      process.exit(1);
+    }
+
+    console.log(`[Export] Ticks ${range.fromTick}-${range.toTick} as ${format} to ${out}`);
+    const summary = await exportToDirectory(out, format, range);
+
+    for (const [dataset, stats] of Object.entries(summary)) {
+      console.log(`  ${dataset.padEnd(24)} ${String(stats.rows).padStart(10)} rows ${String(stats.bytes).padStart(12)} bytes`);
+    }
+    console.log('\n[Done] Export complete');
+    process.exit(0);
+  } catch (error) {
+    console.error('[Error] Export failed:', error);
+    process.exit(1);
+  }
+}
+
+// Only run main if this is the entry point
+if (import.meta.main) {
+  main();
+}
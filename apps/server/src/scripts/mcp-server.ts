@@ -0,0 +1,63 @@
+/**
+ * MCP Server over stdio
+ *
+ * Lets an MCP client (desktop assistants, agent frameworks) control one
+ * external agent. Launch it as the client's server command; the API key is the
+ * one returned by POST /api/v1/agents/register.
+ *
+ * Usage:
+ *   SIMAGENTS_API_KEY=ac_... bun run src/scripts/mcp-server.ts
+ *   bun run src/scripts/mcp-server.ts --api-key ac_...
+ *
+ * Arguments:
+ *   --api-key KEY     External agent API key (default: $SIMAGENTS_API_KEY)
+ *
+ * Needs the same DATABASE_URL / REDIS_URL as the server it shares the world with.
+ */
+
+import { parseArgs } from 'util';
+
+// stdout carries the protocol: route all logging to stderr before anything logs
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'api-key': { type: 'string' },
+    },
+  });
+
+  // Imported after the console redirect (module init may log)
+  const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+  const { authenticateMcpApiKey, createMcpServer } = await import('../mcp/server');
+
+  const apiKey = values['api-key'] ?? process.env.SIMAGENTS_API_KEY;
+  if (!apiKey) {
+    console.error('[MCP] Missing API key: pass --api-key or set SIMAGENTS_API_KEY');
+    process.exit(1);
+  }
+
+  const externalAgent = await authenticateMcpApiKey(apiKey);
+  if (!externalAgent) {
+    console.error('[MCP] Invalid or inactive API key');
+    process.exit(1);
+  }
+
+  const server = createMcpServer(externalAgent);
+
+  // Database and Redis connections would otherwise keep the process alive
+  server.onclose = () => process.exit(0);
+  process.stdin.on('end', () => process.exit(0));
+
+  await server.connect(new StdioServerTransport());
+  console.error(`[MCP] Serving agent ${externalAgent.agentId} over stdio`);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('[MCP] Error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Deterministic Replay Script
+ *
+ * Re-executes a recorded run from its decisions (no LLM calls) and reports the
+ * first tick where the replayed world diverges from the recorded one.
+ *
+ * WARNING: replay rewinds the world in DATABASE_URL and drops everything
+ * recorded after the starting checkpoint. Run it against a copy of the database.
+ *
+ * Usage:
+ *   bun run src/scripts/replay-run.ts --from <tick> --to <tick> [--seed <seed>] --yes
+ *
+ *   --from  first tick to replay (starts at the checkpoint at or before it)
+ *   --to    last tick to replay
+ *   --seed  RNG seed when the starting checkpoint has no RNG state
+ *           (defaults to RANDOM_SEED)
+ *   --yes   confirm that this database may be rewritten
+ */
+
+import { replayRecordedRun } from '../simulation/deterministic-replay';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fromTick = Number(getFlag(args, 'from'));
+  const toTick = Number(getFlag(args, 'to'));
+  const seed = getFlag(args, 'seed');
+
+  if (!Number.isInteger(fromTick) || !Number.isInteger(toTick) || fromTick < 0 || toTick < fromTick) {
+    console.log('Usage: bun run src/scripts/replay-run.ts --from <tick> --to <tick> [--seed <seed>] --yes');
+    process.exit(1);
+  }
+
+  if (!args.includes('--yes')) {
+    console.error('[Replay] This rewrites the world in DATABASE_URL. Run it on a copy and pass --yes to confirm.');
+    process.exit(1);
+  }
+
+  try {
+    const report = await replayRecordedRun({ fromTick, toTick, seed });
+    if (!report) {
+      console.error(`[Replay] No checkpoint at or before tick ${fromTick}`);
+      process.exit(1);
+    }
+
+    console.log(JSON.stringify(report, null, 2));
+    if (report.deterministic) {
+      console.log(`\n✓ Ticks ${report.fromTick}-${report.toTick} replayed identically`);
+    } else {
+      console.log(`\n✗ Diverged at tick ${report.divergence!.tick}: ${report.divergence!.message}`);
+    }
+    process.exit(report.deterministic ? 0 : 2);
+  } catch (error) {
+    console.error('[Error] Replay failed:', error);
+    process.exit(1);
+  }
+}
+
+// Only run main if this is the entry point
+if (import.meta.main) {
+  main();
+}
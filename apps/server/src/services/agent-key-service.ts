@@ -0,0 +1,150 @@
+/**
+ * Agent Key Service
+ *
+ * Manages per-agent Ed25519 signing keys.
+ *
+ * Security features:
+ * - Private keys encrypted at rest with AES-256-GCM (same scheme as LLM keys)
+ * - Context binding (agent ID) prevents moving a key to another agent
+ * - Private keys are only decrypted in memory to sign, never returned
+ * - Agents created before keys existed get one on first use
+ */
+
+import { ApiKeyEncryption, type EncryptedData } from '../crypto/key-encryption';
+import {
+  generateSigningKeyPair,
+  signPayload,
+  verifyPayload,
+  SIGNATURE_ALGORITHM,
+} from '../crypto/signing';
+import { createAgentSigningKey, getAgentSigningKey } from '../db/queries/agent-keys';
+import type { AgentSigningKey } from '../db/schema';
+
+/**
+ * Create the encryption context for an agent's private key
+ */
+export function createSigningKeyContext(agentId: string): string {
+  if (!agentId) {
+    throw new Error('agentId is required for signing key context');
+  }
+  return `agent:${agentId}:signing:${SIGNATURE_ALGORITHM}`;
+}
+
+// =============================================================================
+// Agent Key Service Class
+// =============================================================================
+
+export class AgentKeyService {
+  private encryption: ApiKeyEncryption;
+
+  constructor(masterKeyHex?: string) {
+    const masterKey = masterKeyHex || process.env.ENCRYPTION_MASTER_KEY;
+    if (!masterKey) {
+      throw new Error('ENCRYPTION_MASTER_KEY environment variable is required');
+    }
+    this.encryption = new ApiKeyEncryption(masterKey);
+  }
+
+  /**
+   * Generate and store a keypair for an agent (keeps an existing one)
+   */
+  async provisionKey(agentId: string, tenantId: string | null = null): Promise<AgentSigningKey> {
+    const existing = await getAgentSigningKey(agentId);
+    if (existing) return existing;
+
+    const keyPair = generateSigningKeyPair();
+    const encryptedPrivateKey = this.encryption.encrypt(keyPair.privateKey, createSigningKeyContext(agentId));
+
+    return createAgentSigningKey({
+      agentId,
+      tenantId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey,
+    });
+  }
+
+  /**
+   * Get an agent's published public key (base64 SPKI), if it has one
+   */
+  async getPublicKey(agentId: string): Promise<string | null> {
+    const key = await getAgentSigningKey(agentId);
+    return key?.publicKey ?? null;
+  }
+
+  /**
+   * Sign a payload as an agent
+   *
+   * @returns Hex-encoded Ed25519 signature
+   */
+  async sign(agentId: string, payload: string, tenantId: string | null = null): Promise<string> {
+    const key = await this.provisionKey(agentId, tenantId);
+    const privateKey = this.encryption.decrypt(
+      key.encryptedPrivateKey as EncryptedData,
+      createSigningKeyContext(agentId)
+    );
+    return signPayload(privateKey, payload);
+  }
+
+  /**
+   * Verify a payload signature against an agent's public key
+   *
+   * Returns false if the agent has no key.
+   */
+  async verify(agentId: string, payload: string, signature: string): Promise<boolean> {
+    const publicKey = await this.getPublicKey(agentId);
+    if (!publicKey) return false;
+    return verifyPayload(publicKey, payload, signature);
+  }
+}
+
+// =============================================================================
+// Singleton Instance
+// =============================================================================
+
+let agentKeyServiceInstance: AgentKeyService | null = null;
+
+/**
+ * Get the singleton AgentKeyService instance.
+ * Lazily initialized to allow ENCRYPTION_MASTER_KEY to be set after module load.
+ */
+export function getAgentKeyService(): AgentKeyService {
+  if (!agentKeyServiceInstance) {
+    agentKeyServiceInstance = new AgentKeyService();
+  }
+  return agentKeyServiceInstance;
+}
+
+/**
+ * Whether agents can sign: ENCRYPTION_MASTER_KEY is set and usable
+ */
+export function isAgentSigningAvailable(): boolean {
+  try {
+    getAgentKeyService();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let provisionWarningLogged = false;
+
+/**
+ * Give a newly spawned agent its signing key.
+ *
+ * Never throws: spawning must not fail because keys are misconfigured.
+ * Agents without a key are provisioned on their first signature.
+ */
+export async function provisionAgentSigningKey(agentId: string, tenantId: string | null = null): Promise<void> {
+  try {
+    await getAgentKeyService().provisionKey(agentId, tenantId);
+  } catch (error) {
+    // Warn once per process, not once per spawned agent
+    if (provisionWarningLogged) return;
+    provisionWarningLogged = true;
+    console.warn(
+      `[AgentKeys] Could not provision signing key for ${agentId}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Credential Service - Phase 4: Verifiable Credentials (§34)
+ *
+ * Verification of issued credentials and signed revocation lists.
+ * Anyone holding the issuer's public key can repeat these checks offline:
+ * the canonical payloads are defined in crypto/signing.ts.
+ */
+
+import type { AgentCredential } from '../db/schema';
+import { getCredentialById, getRevokedCredentialsByIssuer } from '../db/queries/credentials';
+import {
+  credentialSigningPayload,
+  revocationSigningPayload,
+  revocationListSigningPayload,
+  verifyPayload,
+  SIGNATURE_ALGORITHM,
+  type RevocationEntry,
+} from '../crypto/signing';
+import { getAgentKeyService } from './agent-key-service';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CredentialStatus = 'valid' | 'invalid_signature' | 'unverifiable' | 'revoked' | 'expired';
+
+export interface CredentialVerification {
+  credentialId: string;
+  issuerId: string;
+  subjectId: string;
+  /** True only if the signature checks out and the credential is neither revoked nor expired */
+  valid: boolean;
+  status: CredentialStatus;
+  algorithm: string;
+  signatureValid: boolean;
+  issuerPublicKey: string | null;
+  revoked: boolean;
+  revokedAtTick: number | null;
+  /** Whether the revocation itself carries a valid issuer signature (null if not revoked) */
+  revocationSignatureValid: boolean | null;
+  expired: boolean;
+}
+
+export interface SignedRevocationEntry extends RevocationEntry {
+  signature: string | null;
+}
+
+export interface SignedRevocationList {
+  issuerId: string;
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  issuerPublicKey: string;
+  issuedAtTick: number;
+  entries: SignedRevocationEntry[];
+  /** Issuer signature over revocationListSigningPayload(issuerId, issuedAtTick, entries) */
+  signature: string;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check a stored credential against its issuer's public key
+ */
+export function verifyCredentialRecord(
+  credential: AgentCredential,
+  issuerPublicKey: string | null,
+  currentTick: number
+): CredentialVerification {
+  const isEd25519 = credential.signatureAlgorithm === SIGNATURE_ALGORITHM;
+  const signatureValid = isEd25519 && issuerPublicKey !== null && verifyPayload(
+    issuerPublicKey,
+    credentialSigningPayload(credential),
+    credential.issuerSignature
+  );
+
+  const revocationSignatureValid = credential.revoked
+    ? issuerPublicKey !== null &&
+      credential.revocationSignature !== null &&
+      credential.revokedAtTick !== null &&
+      verifyPayload(
+        issuerPublicKey,
+        revocationSigningPayload(credential.id, credential.issuerId, credential.revokedAtTick),
+        credential.revocationSignature
+      )
+    : null;
+
+  const expired = credential.expiresAtTick !== null && credential.expiresAtTick <= currentTick;
+
+  let status: CredentialStatus;
+  if (!isEd25519) {
+    status = 'unverifiable';
+  } else if (!signatureValid) {
+    status = 'invalid_signature';
+  } else if (credential.revoked) {
+    status = 'revoked';
+  } else if (expired) {
+    status = 'expired';
+  } else {
+    status = 'valid';
+  }
+
+  return {
+    credentialId: credential.id,
+    issuerId: credential.issuerId,
+    subjectId: credential.subjectId,
+    valid: status === 'valid',
+    status,
+    algorithm: credential.signatureAlgorithm,
+    signatureValid,
+    issuerPublicKey,
+    revoked: credential.revoked,
+    revokedAtTick: credential.revokedAtTick,
+    revocationSignatureValid,
+    expired,
+  };
+}
+
+/**
+ * Verify a credential by ID
+ *
+ * Returns null if the credential does not exist.
+ */
+export async function verifyCredential(
+  credentialId: string,
+  currentTick: number
+): Promise<CredentialVerification | null> {
+  const credential = await getCredentialById(credentialId);
+  if (!credential) return null;
+
+  const issuerPublicKey = await getAgentKeyService().getPublicKey(credential.issuerId);
+  return verifyCredentialRecord(credential, issuerPublicKey, currentTick);
+}
+
+/**
+ * Build an issuer's revocation list, signed with the issuer's key at the given tick
+ *
+ * Each entry also carries the signature made when the credential was revoked.
+ */
+export async function getSignedRevocationList(
+  issuerId: string,
+  currentTick: number,
+  tenantId: string | null = null
+): Promise<SignedRevocationList> {
+  const keyService = getAgentKeyService();
+  const key = await keyService.provisionKey(issuerId, tenantId);
+  const revoked = await getRevokedCredentialsByIssuer(issuerId);
+
+  const entries: SignedRevocationEntry[] = revoked
+    .filter((c) => c.revokedAtTick !== null)
+    .map((c) => ({
+      credentialId: c.id,
+      revokedAtTick: c.revokedAtTick as number,
+      signature: c.revocationSignature,
+    }));
+
+  const signature = await keyService.sign(
+    issuerId,
+    revocationListSigningPayload(issuerId, currentTick, entries)
+  );
+
+  return {
+    issuerId,
+    algorithm: SIGNATURE_ALGORITHM,
+    issuerPublicKey: key.publicKey,
+    issuedAtTick: currentTick,
+    entries,
+    signature,
+  };
+}
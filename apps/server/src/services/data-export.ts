@@ -0,0 +1,422 @@
+/**
+ * Data Export Service
+ *
+ * Streams run data out of Postgres for offline analysis: events, ledger,
+ * agent state projections (agent_tick_states) and llm_metrics, for a tick range
+ * or an experiment variant.
+ *
+ * - Formats: NDJSON (one row per line) and Arrow IPC stream (columnar; read
+ *   with pyarrow, polars, DuckDB, or convert to Parquet)
+ * - Events are split by category (events/event-types.ts) so infrastructure
+ *   and emergent events land in separate datasets
+ * - Every dataset has a fixed, documented column schema (EXPORT_SCHEMA_VERSION);
+ *   event payloads are a JSON column, upcast to the current payload version
+ *   (schema_version), and the manifest lists the event types in each events
+ *   dataset with the JSON Schema of their payload
+ *
+ * Rows are read in keyset batches and encoded batch by batch, so memory use is
+ * bounded by the batch size regardless of how much is exported.
+ */
+
+import { createWriteStream } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { once } from 'node:events';
+import { join } from 'node:path';
+import {
+  Bool,
+  Float64,
+  Int32,
+  Int64,
+  RecordBatchStreamWriter,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  vectorFromArray,
+  type DataType,
+} from 'apache-arrow';
+import type { SQL } from 'drizzle-orm';
+import { eventTypeFilter, readExportBatches, type ExportSource, type ExportTickRange } from '../db/queries/export';
+import { upcastEvent } from '../db/queries/events';
+import type { Event } from '../db/schema';
+import { getVariant } from '../db/queries/experiments';
+import { getCurrentTick } from '../db/queries/world';
+import {
+  EVENT_REGISTRY,
+  buildEventSchemaCatalog,
+  getEventTypesByCategory,
+  type EventCategory,
+} from '../events/event-types';
+
+/**
+ * Bumped whenever a column is added, renamed or retyped
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportFormat = 'ndjson' | 'arrow';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson' },
+  arrow: { extension: 'arrow', contentType: 'application/vnd.apache.arrow.stream' },
+};
+
+export type ExportColumnType = 'int32' | 'int64' | 'float64' | 'bool' | 'utf8' | 'json' | 'timestamp';
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+  nullable: boolean;
+  description: string;
+  /** Row field the column is read from */
+  field: string;
+}
+
+export interface ExportDataset {
+  name: string;
+  description: string;
+  source: ExportSource;
+  columns: ExportColumn[];
+  /** Only for events datasets */
+  category?: EventCategory;
+}
+
+export interface ExportStats {
+  rows: number;
+  bytes: number;
+}
+
+// =============================================================================
+// Datasets
+// =============================================================================
+
+function column(
+  name: string,
+  type: ExportColumnType,
+  description: string,
+  options: { nullable?: boolean; field?: string } = {}
+): ExportColumn {
+  return { name, type, description, nullable: options.nullable ?? false, field: options.field ?? name };
+}
+
+const EVENT_COLUMNS: ExportColumn[] = [
+  column('id', 'int64', 'Event id (append order)'),
+  column('tick', 'int64', 'Tick the event happened in'),
+  column('agent_id', 'utf8', 'Acting or affected agent', { nullable: true, field: 'agentId' }),
+  column('event_type', 'utf8', 'Event type (see eventTypes)', { field: 'eventType' }),
+  column('version', 'int64', 'Per-agent event version'),
+  column('payload', 'json', 'Event payload as JSON, upcast to the current version of its event type'),
+  column('schema_version', 'int32', 'Payload version (see payloadVersion and payloadSchema in the manifest)', { field: 'schemaVersion' }),
+  column('created_at', 'timestamp', 'Wall-clock time the event was stored (UTC, ms)', { field: 'createdAt' }),
+];
+
+const EVENT_CATEGORIES: Array<{ category: EventCategory; description: string }> = [
+  { category: 'infrastructure', description: 'System-imposed events (ticks, decay, deaths, births, shocks)' },
+  { category: 'emergent', description: 'Agent-created events (actions, trades, messages); unregistered types land here' },
+  { category: 'puzzle', description: 'Puzzle game system events' },
+  { category: 'observation', description: 'Metric snapshots and observations' },
+];
+
+export const EXPORT_DATASETS: ExportDataset[] = [
+  ...EVENT_CATEGORIES.map(({ category, description }) => ({
+    name: `events_${category}`,
+    description,
+    source: 'events' as const,
+    columns: EVENT_COLUMNS,
+    category,
+  })),
+  {
+    name: 'ledger',
+    description: 'Double-entry ledger: every currency movement',
+    source: 'ledger',
+    columns: [
+      column('id', 'utf8', 'Ledger entry id'),
+      column('tx_id', 'utf8', 'Transaction id grouping related entries', { field: 'txId' }),
+      column('tick', 'int64', 'Tick of the transfer'),
+      column('from_agent_id', 'utf8', 'Payer (null = system)', { nullable: true, field: 'fromAgentId' }),
+      column('to_agent_id', 'utf8', 'Payee (null = system)', { nullable: true, field: 'toAgentId' }),
+      column('amount', 'float64', 'Amount transferred'),
+      column('category', 'utf8', 'salary, purchase, consumption, tax, welfare, ...'),
+      column('description', 'utf8', 'Free-text description', { nullable: true }),
+      column('created_at', 'timestamp', 'Wall-clock time (UTC, ms)', { field: 'createdAt' }),
+    ],
+  },
+  {
+    name: 'agent_tick_states',
+    description: 'Agent state at the end of every tick (agent_tick_states projection)',
+    source: 'agentTickStates',
+    columns: [
+      column('tick', 'int64', 'Tick'),
+      column('agent_id', 'utf8', 'Agent', { field: 'agentId' }),
+      column('llm_type', 'utf8', 'Agent LLM type', { field: 'llmType' }),
+      column('x', 'int32', 'Grid x'),
+      column('y', 'int32', 'Grid y'),
+      column('hunger', 'float64', 'Hunger (0-100, 100 = full)'),
+      column('energy', 'float64', 'Energy (0-100)'),
+      column('health', 'float64', 'Health (0-100)'),
+      column('balance', 'float64', 'Currency balance'),
+      column('state', 'utf8', 'idle, walking, working, sleeping, dead'),
+    ],
+  },
+  {
+    name: 'llm_metrics',
+    description: 'Per-decision LLM performance',
+    source: 'llmMetrics',
+    columns: [
+      column('id', 'int64', 'Metric id'),
+      column('tick', 'int64', 'Tick of the decision'),
+      column('agent_id', 'utf8', 'Agent', { field: 'agentId' }),
+      column('model_id', 'utf8', 'Model identifier', { field: 'modelId' }),
+      column('latency_ms', 'int32', 'Decision latency', { field: 'latencyMs' }),
+      column('input_tokens', 'int32', 'Prompt tokens', { nullable: true, field: 'inputTokens' }),
+      column('output_tokens', 'int32', 'Completion tokens', { nullable: true, field: 'outputTokens' }),
+      column('cost_usd', 'float64', 'Estimated cost', { nullable: true, field: 'costUsd' }),
+      column('success', 'bool', 'Whether a valid decision was produced'),
+      column('used_fallback', 'bool', 'Whether the fallback decision was used', { field: 'usedFallback' }),
+      column('error_type', 'utf8', 'Error class when unsuccessful', { nullable: true, field: 'errorType' }),
+      column('created_at', 'timestamp', 'Wall-clock time (UTC, ms)', { field: 'createdAt' }),
+    ],
+  },
+];
+
+export function getExportDataset(name: string): ExportDataset | undefined {
+  return EXPORT_DATASETS.find((dataset) => dataset.name === name);
+}
+
+/**
+ * Event types exported in an events dataset (registry order)
+ */
+export function getDatasetEventTypes(dataset: ExportDataset): string[] {
+  return dataset.category ? getEventTypesByCategory(dataset.category) : [];
+}
+
+/**
+ * Documented schema of every dataset (served at /api/export/schema and written
+ * as schema.json next to directory exports)
+ */
+export function buildExportSchema() {
+  const payloads = new Map(buildEventSchemaCatalog().map((entry) => [entry.eventType, entry]));
+
+  return {
+    version: EXPORT_SCHEMA_VERSION,
+    formats: Object.keys(EXPORT_FORMATS),
+    datasets: EXPORT_DATASETS.map((dataset) => ({
+      name: dataset.name,
+      description: dataset.description,
+      columns: dataset.columns.map(({ name, type, nullable, description }) => ({ name, type, nullable, description })),
+      ...(dataset.category && {
+        eventTypes: getDatasetEventTypes(dataset).map((eventType) => ({
+          eventType,
+          description: EVENT_REGISTRY[eventType].description,
+          payloadVersion: payloads.get(eventType)?.version ?? null,
+          payloadSchema: payloads.get(eventType)?.payload ?? null,
+        })),
+      }),
+    })),
+  };
+}
+
+// =============================================================================
+// Range
+// =============================================================================
+
+/**
+ * Tick range to export: an experiment variant's run, or from/to (defaults: whole run)
+ *
+ * Returns null when the variant does not exist or has not started.
+ */
+export async function resolveExportRange(options: {
+  fromTick?: number;
+  toTick?: number;
+  variantId?: string;
+}): Promise<ExportTickRange | null> {
+  if (options.variantId) {
+    const variant = await getVariant(options.variantId);
+    if (!variant || variant.startTick === null) return null;
+    return {
+      fromTick: variant.startTick,
+      toTick: variant.endTick ?? (await getCurrentTick()),
+    };
+  }
+
+  return {
+    fromTick: options.fromTick ?? 0,
+    toTick: options.toTick ?? Number.MAX_SAFE_INTEGER,
+  };
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Row as written to NDJSON: snake_case columns, timestamps as ISO strings (pure)
+ */
+export function toExportRow(dataset: ExportDataset, row: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const col of dataset.columns) {
+    const value = row[col.field] ?? null;
+    out[col.name] = col.type === 'timestamp' && value instanceof Date ? value.toISOString() : value;
+  }
+  return out;
+}
+
+export function encodeNdjsonBatch(dataset: ExportDataset, rows: Record<string, unknown>[]): string {
+  return rows.map((row) => JSON.stringify(toExportRow(dataset, row)) + '\n').join('');
+}
+
+function arrowType(type: ExportColumnType): DataType {
+  switch (type) {
+    case 'int32': return new Int32();
+    case 'int64': return new Int64();
+    case 'float64': return new Float64();
+    case 'bool': return new Bool();
+    case 'timestamp': return new TimestampMillisecond();
+    case 'utf8':
+    case 'json':
+      return new Utf8();
+  }
+}
+
+function arrowValue(type: ExportColumnType, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'int64': return BigInt(value as number);
+    case 'timestamp': return value instanceof Date ? value.getTime() : new Date(value as string).getTime();
+    case 'json': return JSON.stringify(value);
+    default: return value;
+  }
+}
+
+/**
+ * One complete Arrow IPC stream (schema, batch, end-of-stream) for some rows
+ */
+function encodeArrowStream(dataset: ExportDataset, rows: Record<string, unknown>[]): Uint8Array {
+  const vectors = Object.fromEntries(dataset.columns.map((col) => [
+    col.name,
+    vectorFromArray(rows.map((row) => arrowValue(col.type, row[col.field])), arrowType(col.type)),
+  ]));
+  return RecordBatchStreamWriter.writeAll(new Table(vectors).batches).toUint8Array(true);
+}
+
+// Arrow IPC end-of-stream marker: continuation token + zero metadata length
+const ARROW_EOS_BYTES = 8;
+
+/**
+ * Length of the leading schema message of an Arrow IPC stream
+ */
+function arrowSchemaMessageLength(stream: Uint8Array): number {
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  return 8 + view.getInt32(4, true);
+}
+
+/**
+ * Arrow IPC stream encoder over many batches
+ *
+ * Each batch is encoded as a standalone stream; the schema message is kept
+ * from the first one and the end-of-stream marker only from the last, which
+ * yields one valid stream without buffering the whole dataset.
+ */
+async function* encodeArrowBatches(
+  dataset: ExportDataset,
+  batches: AsyncIterable<Record<string, unknown>[]>
+): AsyncGenerator<Uint8Array> {
+  let started = false;
+  for await (const rows of batches) {
+    const stream = encodeArrowStream(dataset, rows);
+    const start = started ? arrowSchemaMessageLength(stream) : 0;
+    started = true;
+    yield stream.subarray(start, stream.byteLength - ARROW_EOS_BYTES);
+  }
+
+  // Schema only (empty dataset) or the end-of-stream marker
+  const empty = encodeArrowStream(dataset, []);
+  yield started ? empty.subarray(empty.byteLength - ARROW_EOS_BYTES) : empty;
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+function readDatasetBatches(
+  dataset: ExportDataset,
+  range: ExportTickRange,
+  stats?: ExportStats
+): AsyncGenerator<Record<string, unknown>[]> {
+  let where: SQL | undefined;
+  if (dataset.category === 'emergent') {
+    // Unregistered event types count as emergent (getEventCategory)
+    where = eventTypeFilter(
+      EVENT_CATEGORIES.filter((c) => c.category !== 'emergent').flatMap((c) => getEventTypesByCategory(c.category)),
+      true
+    );
+  } else if (dataset.category) {
+    where = eventTypeFilter(getEventTypesByCategory(dataset.category));
+  }
+
+  const batches = readExportBatches(dataset.source, range, { where });
+  const upcast = dataset.source === 'events';
+  if (!stats && !upcast) return batches;
+
+  return (async function* () {
+    for await (const rows of batches) {
+      if (stats) stats.rows += rows.length;
+      // Older payloads are exported at the current version, like every other read
+      yield upcast ? (rows as Event[]).map(upcastEvent) : rows;
+    }
+  })();
+}
+
+/**
+ * Stream one dataset in a tick range as encoded bytes
+ */
+export async function* streamExportDataset(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  range: ExportTickRange,
+  stats: ExportStats = { rows: 0, bytes: 0 }
+): AsyncGenerator<Uint8Array> {
+  const batches = readDatasetBatches(dataset, range, stats);
+  const encoder = new TextEncoder();
+
+  const chunks: AsyncIterable<Uint8Array> = format === 'arrow'
+    ? encodeArrowBatches(dataset, batches)
+    : (async function* () {
+      for await (const rows of batches) yield encoder.encode(encodeNdjsonBatch(dataset, rows));
+    })();
+
+  for await (const chunk of chunks) {
+    stats.bytes += chunk.byteLength;
+    yield chunk;
+  }
+}
+
+/**
+ * Write every dataset plus schema.json into a directory
+ */
+export async function exportToDirectory(
+  directory: string,
+  format: ExportFormat,
+  range: ExportTickRange
+): Promise<Record<string, ExportStats>> {
+  await mkdir(directory, { recursive: true });
+  const summary: Record<string, ExportStats> = {};
+
+  for (const dataset of EXPORT_DATASETS) {
+    const stats: ExportStats = { rows: 0, bytes: 0 };
+    const file = createWriteStream(join(directory, `${dataset.name}.${EXPORT_FORMATS[format].extension}`));
+
+    for await (const chunk of streamExportDataset(dataset, format, range, stats)) {
+      if (!file.write(chunk)) await once(file, 'drain');
+    }
+    file.end();
+    await once(file, 'finish');
+
+    summary[dataset.name] = stats;
+  }
+
+  await writeFile(
+    join(directory, 'schema.json'),
+    JSON.stringify({ ...buildExportSchema(), range, exportedAt: new Date().toISOString(), summary }, null, 2)
+  );
+
+  return summary;
+}
@@ -0,0 +1,350 @@
+/**
+ * Event Retention Service
+ *
+ * Keeps the events table bounded per world (main world and each tenant):
+ * - Full detail is kept for the last N ticks (tenants.eventRetentionTicks, or
+ *   CONFIG.eventRetention.fullDetailTicks); older ticks are archived
+ * - maxEventsStored is enforced by archiving the oldest whole ticks until the
+ *   world is back under its limit
+ * - Archived events are written to a gzipped NDJSON file (one row per line,
+ *   original ids and versions) and deleted from the events table
+ * - Archived infrastructure events leave per-tick counts behind
+ *   (event_tick_aggregates), so tick-level activity stays queryable
+ *
+ * Replay can rehydrate an archived tick range: the rows are re-inserted and
+ * the archive file, record and aggregates are removed.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGunzip, createGzip } from 'node:zlib';
+import { join } from 'node:path';
+import { CONFIG } from '../config';
+import { readExportBatches } from '../db/queries/export';
+import {
+  countStoredEvents,
+  deleteEventArchive,
+  getEventTickAtOffset,
+  getOldestEventTick,
+  listEventArchives,
+  recordEventArchive,
+  restoreArchivedEvents,
+} from '../db/queries/events-cleanup';
+import { getCurrentTick } from '../db/queries/world';
+import { getTenantCurrentTick, listTenants } from '../db/queries/tenants';
+import type { Event, EventArchive, NewEventTickAggregate } from '../db/schema';
+
+export interface RetentionPolicy {
+  /** Ticks of full event detail kept (0 = keep everything) */
+  fullDetailTicks: number;
+  /** Event row limit (0 = unlimited) */
+  maxEventsStored: number;
+}
+
+export type ArchiveReason = 'retention' | 'max_events';
+
+export interface RetentionReport {
+  tenantId: string | null;
+  currentTick: number;
+  policy: RetentionPolicy;
+  archives: Pick<EventArchive, 'id' | 'fromTick' | 'toTick' | 'eventCount' | 'bytes' | 'reason' | 'path'>[];
+  prunedEvents: number;
+  archivedTicks: number;
+  remainingEvents: number;
+  error?: string;
+}
+
+export type TickAggregate = Omit<NewEventTickAggregate, 'archiveId' | 'tenantId'>;
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * Retention policy of the main world (null) or a tenant
+ */
+export function getRetentionPolicy(
+  tenant?: { eventRetentionTicks: number | null; maxEventsStored: number } | null
+): RetentionPolicy {
+  if (!tenant) {
+    return {
+      fullDetailTicks: CONFIG.eventRetention.fullDetailTicks,
+      maxEventsStored: CONFIG.eventRetention.maxEventsStored,
+    };
+  }
+  return {
+    fullDetailTicks: tenant.eventRetentionTicks ?? CONFIG.eventRetention.fullDetailTicks,
+    maxEventsStored: tenant.maxEventsStored,
+  };
+}
+
+/**
+ * Last tick to archive so that fullDetailTicks ticks stay in full detail,
+ * or null when nothing is old enough
+ */
+export function getRetentionCutoff(currentTick: number, fullDetailTicks: number): number | null {
+  if (fullDetailTicks <= 0) return null;
+  const cutoff = currentTick - fullDetailTicks;
+  return cutoff >= 0 ? cutoff : null;
+}
+
+/**
+ * Running per-tick counts of infrastructure events, fed batch by batch
+ */
+export function createTickAggregator(): {
+  add(rows: Pick<Event, 'tick' | 'eventType' | 'agentId' | 'category'>[]): void;
+  result(): TickAggregate[];
+} {
+  const groups = new Map<string, { tick: number; eventType: string; eventCount: number; agents: Set<string> }>();
+
+  return {
+    add(rows) {
+      for (const row of rows) {
+        if (row.category !== 'infrastructure') continue;
+        const key = `${row.tick}:${row.eventType}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { tick: row.tick, eventType: row.eventType, eventCount: 0, agents: new Set() };
+          groups.set(key, group);
+        }
+        group.eventCount++;
+        if (row.agentId) group.agents.add(row.agentId);
+      }
+    },
+    result() {
+      return Array.from(groups.values()).map(({ agents, ...group }) => ({ ...group, agentCount: agents.size }));
+    },
+  };
+}
+
+// =============================================================================
+// Archive files
+// =============================================================================
+
+export interface ArchiveFileSummary {
+  eventCount: number;
+  bytes: number;
+  fromTick: number;
+  toTick: number;
+  maxEventId: number;
+  aggregates: TickAggregate[];
+}
+
+/**
+ * Write batches of event rows to a gzipped NDJSON file
+ */
+export async function writeEventArchive(
+  path: string,
+  batches: AsyncIterable<Record<string, unknown>[]>
+): Promise<ArchiveFileSummary> {
+  const summary: ArchiveFileSummary = { eventCount: 0, bytes: 0, fromTick: 0, toTick: 0, maxEventId: 0, aggregates: [] };
+  const aggregator = createTickAggregator();
+
+  async function* lines(): AsyncGenerator<string> {
+    for await (const batch of batches) {
+      const rows = batch as unknown as Event[];
+      for (const row of rows) {
+        if (summary.eventCount === 0) summary.fromTick = row.tick;
+        summary.eventCount++;
+        summary.toTick = Math.max(summary.toTick, row.tick);
+        summary.maxEventId = Math.max(summary.maxEventId, row.id);
+      }
+      aggregator.add(rows);
+      yield batch.map((row) => JSON.stringify(row)).join('\n') + '\n';
+    }
+  }
+
+  await pipeline(Readable.from(lines()), createGzip(), createWriteStream(path));
+
+  summary.bytes = (await stat(path)).size;
+  summary.aggregates = aggregator.result();
+  return summary;
+}
+
+/**
+ * Read events back from an archive file, batch by batch
+ */
+export async function* readEventArchive(path: string, batchSize = 1000): AsyncGenerator<Event[]> {
+  const lines = createInterface({ input: createReadStream(path).pipe(createGunzip()), crlfDelay: Infinity });
+  let batch: Event[] = [];
+
+  for await (const line of lines) {
+    if (!line) continue;
+    const row = JSON.parse(line) as Event & { createdAt: string };
+    batch.push({ ...row, createdAt: new Date(row.createdAt) });
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+// =============================================================================
+// Enforcement
+// =============================================================================
+
+/**
+ * Archive a world's events up to and including toTick
+ */
+async function archiveEventsThrough(
+  tenantId: string | null,
+  toTick: number,
+  reason: ArchiveReason
+): Promise<EventArchive | null> {
+  const oldestTick = await getOldestEventTick(tenantId);
+  if (oldestTick === null || oldestTick > toTick) return null;
+
+  const directory = join(CONFIG.eventRetention.archiveDir, tenantId ?? 'world');
+  await mkdir(directory, { recursive: true });
+  const path = join(directory, `events-${oldestTick}-${toTick}-${Date.now()}.ndjson.gz`);
+
+  const summary = await writeEventArchive(
+    path,
+    readExportBatches('events', { fromTick: oldestTick, toTick }, { batchSize: CONFIG.eventRetention.batchSize, tenantId })
+  );
+  if (summary.eventCount === 0) {
+    await rm(path, { force: true });
+    return null;
+  }
+
+  try {
+    return await recordEventArchive(
+      {
+        tenantId,
+        fromTick: summary.fromTick,
+        toTick: summary.toTick,
+        path,
+        eventCount: summary.eventCount,
+        bytes: summary.bytes,
+        reason,
+      },
+      summary.aggregates,
+      summary.maxEventId
+    );
+  } catch (error) {
+    // Nothing was deleted; drop the file so the range is archived again next run
+    await rm(path, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Apply a retention policy to one world
+ */
+export async function applyEventRetention(
+  tenantId: string | null,
+  currentTick: number,
+  policy: RetentionPolicy
+): Promise<RetentionReport> {
+  const archived: EventArchive[] = [];
+
+  const cutoff = getRetentionCutoff(currentTick, policy.fullDetailTicks);
+  if (cutoff !== null) {
+    const archive = await archiveEventsThrough(tenantId, cutoff, 'retention');
+    if (archive) archived.push(archive);
+  }
+
+  let remainingEvents = await countStoredEvents(tenantId);
+  if (policy.maxEventsStored > 0 && remainingEvents > policy.maxEventsStored) {
+    // Archive whole ticks up to the newest excess event, never the tick in progress
+    const excessTick = await getEventTickAtOffset(tenantId, remainingEvents - policy.maxEventsStored - 1);
+    const toTick = Math.min(excessTick ?? -1, currentTick - 1);
+    const archive = toTick >= 0 ? await archiveEventsThrough(tenantId, toTick, 'max_events') : null;
+    if (archive) {
+      archived.push(archive);
+      remainingEvents = await countStoredEvents(tenantId);
+    }
+  }
+
+  return {
+    tenantId,
+    currentTick,
+    policy,
+    archives: archived.map(({ id, fromTick, toTick, eventCount, bytes, reason, path }) => ({
+      id, fromTick, toTick, eventCount, bytes, reason, path,
+    })),
+    prunedEvents: archived.reduce((sum, archive) => sum + archive.eventCount, 0),
+    archivedTicks: archived.reduce((sum, archive) => sum + archive.toTick - archive.fromTick + 1, 0),
+    remainingEvents,
+  };
+}
+
+/**
+ * Apply retention to the main world and every active tenant.
+ * A failing world is reported with its error and does not stop the others.
+ */
+export async function enforceEventRetention(): Promise<RetentionReport[]> {
+  const worlds: { tenantId: string | null; policy: RetentionPolicy; currentTick: () => Promise<number> }[] = [
+    { tenantId: null, policy: getRetentionPolicy(null), currentTick: getCurrentTick },
+  ];
+
+  for (let offset = 0; ; offset += 100) {
+    const { tenants } = await listTenants({ activeOnly: true, limit: 100, offset });
+    for (const tenant of tenants) {
+      worlds.push({
+        tenantId: tenant.id,
+        policy: getRetentionPolicy(tenant),
+        currentTick: () => getTenantCurrentTick(tenant.id),
+      });
+    }
+    if (tenants.length < 100) break;
+  }
+
+  const reports: RetentionReport[] = [];
+  for (const world of worlds) {
+    let currentTick = 0;
+    try {
+      currentTick = await world.currentTick();
+      reports.push(await applyEventRetention(world.tenantId, currentTick, world.policy));
+    } catch (error) {
+      reports.push({
+        tenantId: world.tenantId,
+        currentTick,
+        policy: world.policy,
+        archives: [],
+        prunedEvents: 0,
+        archivedTicks: 0,
+        remainingEvents: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return reports;
+}
+
+// =============================================================================
+// Rehydration
+// =============================================================================
+
+/**
+ * Restore archived events overlapping a tick range into the events table.
+ * Whole archives are restored, so the restored range can extend past the
+ * requested one.
+ */
+export async function rehydrateArchivedEvents(
+  fromTick: number,
+  toTick: number,
+  tenantId: string | null = null
+): Promise<{ archives: number; events: number; fromTick: number | null; toTick: number | null }> {
+  const archives = await listEventArchives(tenantId, { fromTick, toTick });
+  let restored = 0;
+
+  for (const archive of archives) {
+    for await (const batch of readEventArchive(archive.path)) {
+      restored += await restoreArchivedEvents(batch);
+    }
+    await deleteEventArchive(archive.id);
+    await rm(archive.path, { force: true });
+  }
+
+  return {
+    archives: archives.length,
+    events: restored,
+    fromTick: archives.length > 0 ? Math.min(...archives.map((a) => a.fromTick)) : null,
+    toTick: archives.length > 0 ? Math.max(...archives.map((a) => a.toTick)) : null,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Checkpoints - full world state for restore and fork
+ *
+ * Every CONFIG.simulation.checkpointIntervalTicks ticks the tick engine dumps
+ * the world (db/queries/checkpoints.ts) together with the seeded RNG state.
+ * From any checkpoint the world can be:
+ * - restored: the default world rewinds to that tick and continues from there
+ * - forked: a new tenant world starts from that state, the original world
+ *   keeps running untouched - for "what if" branches from an interesting moment
+ */
+
+import {
+  captureWorldCheckpoint,
+  forkWorldCheckpoint,
+  getCheckpointAtOrBefore,
+  pruneWorldCheckpoints,
+  restoreWorldCheckpoint,
+  type ForkResult,
+  type RestoreResult,
+  type WorldCheckpointSummary,
+} from '../db/queries/checkpoints';
+import { createTenant, deleteTenant, type CreateTenantInput } from '../db/queries/tenants';
+import { clearCache } from '../cache/projections';
+import { clearTerrain } from '../world/terrain';
+import { getRNGState, restoreRNGState, type RNGState } from '../utils/random';
+import { loadStructureTerrain } from './structures';
+import { CONFIG } from '../config';
+
+/**
+ * Whether the tick engine should checkpoint at this tick
+ */
+export function isCheckpointTick(tick: number): boolean {
+  const interval = CONFIG.simulation.checkpointIntervalTicks;
+  return interval > 0 && tick > 0 && tick % interval === 0;
+}
+
+/**
+ * Checkpoint the default world now and prune old checkpoints
+ */
+export async function createCheckpoint(tick: number): Promise<WorldCheckpointSummary> {
+  const checkpoint = await captureWorldCheckpoint(tick, null, getRNGState());
+  await pruneWorldCheckpoints(CONFIG.simulation.checkpointsKept);
+  return checkpoint;
+}
+
+/**
+ * Rewind the default world to the latest checkpoint at or before a tick
+ * (null when there is none)
+ *
+ * The caller must stop the tick engine first. Caches and derived terrain are
+ * rebuilt, and the seeded RNG continues exactly where it was at the checkpoint.
+ */
+export async function restoreFromCheckpoint(tick: number): Promise<RestoreResult | null> {
+  const checkpoint = await getCheckpointAtOrBefore(tick);
+  if (!checkpoint) return null;
+
+  const result = await restoreWorldCheckpoint(checkpoint);
+
+  restoreRNGState(checkpoint.rngState as RNGState | null);
+  await clearCache();
+  clearTerrain();
+  await loadStructureTerrain();
+
+  return result;
+}
+
+/**
+ * Start a new tenant world from the latest checkpoint at or before a tick
+ *
+ * Returns the new tenant's API key (shown only once) along with the fork,
+ * or null when there is no checkpoint to fork from.
+ */
+export async function forkFromCheckpoint(
+  tick: number,
+  tenant: CreateTenantInput
+): Promise<(ForkResult & { apiKey: string }) | null> {
+  const checkpoint = await getCheckpointAtOrBefore(tick);
+  if (!checkpoint) return null;
+
+  const { tenant: created, apiKey } = await createTenant(tenant);
+  try {
+    const result = await forkWorldCheckpoint(checkpoint, created.id);
+    return { ...result, apiKey };
+  } catch (error) {
+    // Don't leave an empty tenant behind
+    await deleteTenant(created.id);
+    throw error;
+  }
+}
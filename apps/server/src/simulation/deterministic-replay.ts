@@ -0,0 +1,404 @@
+/**
+ * Deterministic Replay - re-execute a recorded run and report divergence
+ *
+ * For reproducibility audits: the world is rewound to the checkpoint at or
+ * before `fromTick` (seeded RNG state included) and every tick is run again
+ * through the tick engine. Agents do not call any LLM; their decisions are the
+ * ones recorded in the events log (`agent_<action>` / `action_failed`), falling
+ * back to `prompt_logs` for ticks whose events were pruned.
+ *
+ * After each tick the events written by the replay are compared with the
+ * recorded ones, and at every recorded checkpoint the agents' state is
+ * compared too. The report stops at the first divergent tick.
+ *
+ * Ids minted during a tick (uuid v4) are not seeded, so the comparison learns a
+ * recorded id -> replayed id mapping as it goes and applies it to later
+ * decisions; an id that maps to two different values is a divergence.
+ *
+ * Replay rewrites the default world (later events and checkpoints are
+ * dropped), so it is meant for a copy of the database.
+ */
+
+import { getCheckpointAtOrBefore, getCheckpointsInRange, remapIds, restoreWorldCheckpoint, type CheckpointRow, type CheckpointTables } from '../db/queries/checkpoints';
+import { getEventsInRange, type ReplayEvent } from '../db/queries/replay';
+import { getAllAgents } from '../db/queries/agents';
+import { resumeWorld } from '../db/queries/world';
+import { getLoggedDecisionsInRange } from '../llm/prompt-logger';
+import { setRecordedDecisionSource } from '../agents/orchestrator';
+import { clearCache } from '../cache/projections';
+import { clearTerrain } from '../world/terrain';
+import { initializeRNG, restoreRNGState, type RNGState } from '../utils/random';
+import { loadStructureTerrain } from './structures';
+import { tickEngine } from './tick-engine';
+import type { AgentDecision, PlanDirective } from '../llm/types';
+import { CONFIG } from '../config';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ReplayDivergence {
+  tick: number;
+  kind: 'event' | 'state' | 'tick';
+  message: string;
+  /** Location of the first difference, e.g. "events[3].payload.params.x" */
+  path?: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface ReplayReport {
+  fromTick: number;
+  toTick: number;
+  /** Tick of the checkpoint the replay started from */
+  checkpointTick: number;
+  ticksReplayed: number;
+  decisionsReplayed: number;
+  /** False when the checkpoint had no RNG state and the RNG was seeded fresh */
+  rngRestored: boolean;
+  /** Ticks replayed from prompt_logs only (no recorded events to compare) */
+  unverifiedTicks: number[];
+  deterministic: boolean;
+  divergence: ReplayDivergence | null;
+}
+
+export interface ReplayOptions {
+  fromTick: number;
+  toTick: number;
+  /** Seed used when the starting checkpoint has no RNG state */
+  seed?: string;
+}
+
+// Event payload keys that depend on wall-clock time or on the decision source
+const VOLATILE_PAYLOAD_KEYS = new Set(['processingTimeMs', 'usedFallback', 'duration', 'timestamp']);
+
+// Agent fields compared at recorded checkpoints
+const COMPARED_AGENT_FIELDS = ['x', 'y', 'hunger', 'energy', 'health', 'balance', 'state'] as const;
+
+// Upper bound for events read back per tick
+const EVENTS_PER_TICK_LIMIT = 100_000;
+
+// =============================================================================
+// Recorded decisions
+// =============================================================================
+
+function isDecisionEvent(event: ReplayEvent): boolean {
+  const action = event.payload.action;
+  if (!event.agentId || typeof action !== 'string') return false;
+  return event.eventType === `agent_${action}` || event.eventType === 'action_failed';
+}
+
+/**
+ * Decisions taken in a run, per tick and agent (pure)
+ *
+ * Events are the primary record. prompt_logs only fill ticks that have no
+ * decision events at all, which keeps external and baseline agents (not in
+ * prompt_logs) consistent whenever events exist.
+ */
+export function extractRecordedDecisions(
+  events: ReplayEvent[],
+  promptLogs: Array<{
+    tick: number;
+    agentId: string;
+    decision: { action: string; params?: Record<string, unknown>; reasoning?: string; plan?: Record<string, unknown> } | null;
+  }>
+): Map<number, Map<string, AgentDecision>> {
+  const byTick = new Map<number, Map<string, AgentDecision>>();
+  const add = (tick: number, agentId: string, decision: AgentDecision) => {
+    let decisions = byTick.get(tick);
+    if (!decisions) {
+      decisions = new Map();
+      byTick.set(tick, decisions);
+    }
+    if (!decisions.has(agentId)) decisions.set(agentId, decision);
+  };
+
+  for (const event of events) {
+    if (!isDecisionEvent(event)) continue;
+    add(event.tick, event.agentId!, {
+      action: event.payload.action,
+      params: (event.payload.params ?? {}) as AgentDecision['params'],
+      reasoning: event.payload.reasoning as string | undefined,
+      // set_goal / update_plan ride along with the action
+      ...(event.payload.plan ? { plan: event.payload.plan as PlanDirective } : {}),
+    } as AgentDecision);
+  }
+
+  const ticksWithEvents = new Set(byTick.keys());
+  for (const log of promptLogs) {
+    if (!log.decision || ticksWithEvents.has(log.tick)) continue;
+    add(log.tick, log.agentId, {
+      action: log.decision.action,
+      params: log.decision.params ?? {},
+      reasoning: log.decision.reasoning,
+      ...(log.decision.plan ? { plan: log.decision.plan as PlanDirective } : {}),
+    } as AgentDecision);
+  }
+
+  return byTick;
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * Strip wall-clock and decision-source fields from an event (pure)
+ */
+export function normalizeEvent(event: Pick<ReplayEvent, 'eventType' | 'agentId' | 'payload'>): Record<string, unknown> {
+  return {
+    eventType: event.eventType,
+    agentId: event.agentId,
+    payload: stripVolatile(event.payload),
+  };
+}
+
+function stripVolatile(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripVolatile);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !VOLATILE_PAYLOAD_KEYS.has(key))
+        .map(([key, v]) => [key, stripVolatile(v)])
+    );
+  }
+  return value;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ValueDifference {
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * First difference between a recorded and a replayed value (null if equal)
+ *
+ * Differing uuids are learned into idMap (recorded -> replayed); they only
+ * count as a difference when the recorded id is already mapped elsewhere.
+ */
+export function findDifference(
+  expected: unknown,
+  actual: unknown,
+  idMap: Map<string, string>,
+  path = ''
+): ValueDifference | null {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    const mapped = idMap.get(expected);
+    if (mapped !== undefined) return mapped === actual ? null : { path, expected, actual };
+    if (expected === actual) return null;
+    if (UUID_PATTERN.test(expected) && UUID_PATTERN.test(actual)) {
+      idMap.set(expected, actual);
+      return null;
+    }
+    return { path, expected, actual };
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (expected.length !== actual.length) {
+      return { path: `${path}.length`, expected: expected.length, actual: actual.length };
+    }
+    for (let i = 0; i < expected.length; i++) {
+      const diff = findDifference(expected[i], actual[i], idMap, `${path}[${i}]`);
+      if (diff) return diff;
+    }
+    return null;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of [...keys].sort()) {
+      const diff = findDifference(expected[key], actual[key], idMap, path ? `${path}.${key}` : key);
+      if (diff) return diff;
+    }
+    return null;
+  }
+
+  return Object.is(expected, actual) ? null : { path, expected, actual };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare the events of one tick, in insertion order (pure apart from idMap)
+ */
+export function compareTickEvents(
+  tick: number,
+  recorded: ReplayEvent[],
+  replayed: ReplayEvent[],
+  idMap: Map<string, string>
+): ReplayDivergence | null {
+  const diff = findDifference(
+    recorded.map(normalizeEvent),
+    replayed.map(normalizeEvent),
+    idMap,
+    'events'
+  );
+  if (!diff) return null;
+
+  return {
+    tick,
+    kind: 'event',
+    message: `Events differ at ${diff.path}`,
+    ...diff,
+  };
+}
+
+/**
+ * Compare agents' state with a recorded checkpoint's agents rows (pure apart from idMap)
+ */
+export function diffAgentStates(
+  tick: number,
+  recorded: CheckpointRow[],
+  replayed: CheckpointRow[],
+  idMap: Map<string, string>
+): ReplayDivergence | null {
+  const replayedById = new Map(replayed.map((agent) => [agent.id as string, agent]));
+
+  for (const agent of recorded) {
+    const recordedId = agent.id as string;
+    const replayedAgent = replayedById.get(idMap.get(recordedId) ?? recordedId);
+    if (!replayedAgent) {
+      return { tick, kind: 'state', message: `Agent ${recordedId} is missing from the replay`, path: `agents.${recordedId}` };
+    }
+
+    for (const field of COMPARED_AGENT_FIELDS) {
+      if (!Object.is(agent[field], replayedAgent[field])) {
+        return {
+          tick,
+          kind: 'state',
+          message: `Agent ${recordedId} ${field} differs`,
+          path: `agents.${recordedId}.${field}`,
+          expected: agent[field],
+          actual: replayedAgent[field],
+        };
+      }
+    }
+  }
+
+  if (replayed.length !== recorded.length) {
+    return {
+      tick,
+      kind: 'state',
+      message: 'Agent count differs',
+      path: 'agents.length',
+      expected: recorded.length,
+      actual: replayed.length,
+    };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Re-execute ticks fromTick..toTick of the default world from recorded decisions
+ *
+ * The caller must stop the tick engine first. Returns null when there is no
+ * checkpoint at or before fromTick.
+ */
+export async function replayRecordedRun(options: ReplayOptions): Promise<ReplayReport | null> {
+  const { fromTick, toTick } = options;
+
+  const checkpoint = await getCheckpointAtOrBefore(fromTick);
+  if (!checkpoint) return null;
+
+  // Everything recorded must be read before the restore drops later events
+  const startTick = checkpoint.tick + 1;
+  const [recordedEvents, promptLogs, recordedCheckpoints] = await Promise.all([
+    getEventsInRange(startTick, toTick, Number.MAX_SAFE_INTEGER),
+    getLoggedDecisionsInRange(startTick, toTick),
+    getCheckpointsInRange(startTick, toTick),
+  ]);
+
+  const decisionsByTick = extractRecordedDecisions(recordedEvents, promptLogs);
+  const eventsByTick = new Map<number, ReplayEvent[]>();
+  for (const event of recordedEvents) {
+    const tickEvents = eventsByTick.get(event.tick) ?? [];
+    tickEvents.push(event);
+    eventsByTick.set(event.tick, tickEvents);
+  }
+
+  await restoreWorldCheckpoint(checkpoint);
+  const rngState = checkpoint.rngState as RNGState | null;
+  if (rngState) {
+    restoreRNGState(rngState);
+  } else {
+    initializeRNG(options.seed ?? String(CONFIG.simulation.randomSeed));
+  }
+  await clearCache();
+  clearTerrain();
+  await loadStructureTerrain();
+  await resumeWorld();
+
+  const report: ReplayReport = {
+    fromTick: startTick,
+    toTick,
+    checkpointTick: checkpoint.tick,
+    ticksReplayed: 0,
+    decisionsReplayed: 0,
+    rngRestored: !!rngState,
+    unverifiedTicks: [],
+    deterministic: true,
+    divergence: null,
+  };
+
+  const idMap = new Map<string, string>();
+  setRecordedDecisionSource((tick) => {
+    const recorded = decisionsByTick.get(tick) ?? new Map<string, AgentDecision>();
+    const remapped = new Map<string, AgentDecision>();
+    for (const [agentId, decision] of recorded) {
+      remapped.set(idMap.get(agentId) ?? agentId, remapIds(decision, idMap) as AgentDecision);
+    }
+    report.decisionsReplayed += remapped.size;
+    return remapped;
+  });
+
+  try {
+    for (let expectedTick = startTick; expectedTick <= toTick; expectedTick++) {
+      const result = await tickEngine.processTick();
+      report.ticksReplayed++;
+
+      if (result.tick !== expectedTick) {
+        report.divergence = {
+          tick: expectedTick,
+          kind: 'tick',
+          message: `Tick engine ran tick ${result.tick} instead of ${expectedTick}`,
+          expected: expectedTick,
+          actual: result.tick,
+        };
+        break;
+      }
+
+      const recorded = eventsByTick.get(expectedTick);
+      if (recorded) {
+        const replayed = await getEventsInRange(expectedTick, expectedTick, EVENTS_PER_TICK_LIMIT);
+        report.divergence = compareTickEvents(expectedTick, recorded, replayed, idMap);
+        if (report.divergence) break;
+      } else {
+        report.unverifiedTicks.push(expectedTick);
+      }
+
+      const recordedCheckpoint = recordedCheckpoints.find((c) => c.tick === expectedTick);
+      if (recordedCheckpoint) {
+        const recordedAgents = (recordedCheckpoint.tables as CheckpointTables).agents ?? [];
+        const replayedAgents = (await getAllAgents())
+          .filter((agent) => agent.tenantId === null) as unknown as CheckpointRow[];
+        report.divergence = diffAgentStates(expectedTick, recordedAgents, replayedAgents, idMap);
+        if (report.divergence) break;
+      }
+    }
+  } finally {
+    setRecordedDecisionSource(null);
+  }
+
+  report.deterministic = report.divergence === null;
+  return report;
+}
@@ -0,0 +1,156 @@
+/**
+ * Fiscal Policy - public treasury revenue and spending
+ *
+ * Each world has a public treasury whose policy (db/queries/fiscal) sets:
+ * - transactionTaxRate: share of each payment between agents, collected by
+ *   the ledger as the payment settles
+ * - wealthTaxRate / wealthTaxThreshold: share of each balance above the
+ *   threshold, collected every CONFIG.fiscal.interval ticks
+ * - publicWorkFunding: public work is paid with new money ('mint') or from
+ *   the treasury ('treasury')
+ * - redistributionShare: share of the treasury paid out equally to living
+ *   agents every interval
+ *
+ * The policy is changed by governance (fiscal_policy proposals) or the
+ * scenarios API. All flows are recorded in the ledger under fiscal
+ * categories so revenue and spending can be compared.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Agent } from '../db/schema';
+import type { WorldEvent } from '../cache/pubsub';
+import type { FiscalPolicy } from '../db/queries/fiscal';
+import { getTreasury, toFiscalPolicy } from '../db/queries/fiscal';
+import { getAliveAgents } from '../db/queries/agents';
+import { transferWithTreasury } from '../ledger';
+import { CONFIG } from '../config';
+
+const FUNDING = ['mint', 'treasury'] as const;
+
+/**
+ * Check a (partial) fiscal policy against the configured limits (pure)
+ *
+ * @returns An error message, or null if the policy is valid
+ */
+export function validateFiscalPolicy(policy: Partial<FiscalPolicy>): string | null {
+  const config = CONFIG.fiscal;
+  const { transactionTaxRate, wealthTaxRate, wealthTaxThreshold, publicWorkFunding, redistributionShare } = policy;
+
+  if (
+    transactionTaxRate === undefined &&
+    wealthTaxRate === undefined &&
+    wealthTaxThreshold === undefined &&
+    publicWorkFunding === undefined &&
+    redistributionShare === undefined
+  ) {
+    return 'No fiscal policy change given';
+  }
+  if (transactionTaxRate !== undefined && (transactionTaxRate < 0 || transactionTaxRate > config.maxTransactionTaxRate)) {
+    return `transactionTaxRate must be between 0 and ${config.maxTransactionTaxRate}`;
+  }
+  if (wealthTaxRate !== undefined && (wealthTaxRate < 0 || wealthTaxRate > config.maxWealthTaxRate)) {
+    return `wealthTaxRate must be between 0 and ${config.maxWealthTaxRate}`;
+  }
+  if (wealthTaxThreshold !== undefined && wealthTaxThreshold < 0) {
+    return 'wealthTaxThreshold must be at least 0';
+  }
+  if (publicWorkFunding !== undefined && !FUNDING.includes(publicWorkFunding)) {
+    return 'publicWorkFunding must be "mint" or "treasury"';
+  }
+  if (redistributionShare !== undefined && (redistributionShare < 0 || redistributionShare > 1)) {
+    return 'redistributionShare must be between 0 and 1';
+  }
+  return null;
+}
+
+/**
+ * Wealth tax due on a balance, rounded down (pure)
+ */
+export function calculateWealthTax(balance: number, policy: Pick<FiscalPolicy, 'wealthTaxRate' | 'wealthTaxThreshold'>): number {
+  if (policy.wealthTaxRate <= 0 || balance <= policy.wealthTaxThreshold) return 0;
+  return Math.floor((balance - policy.wealthTaxThreshold) * policy.wealthTaxRate);
+}
+
+/**
+ * Redistribution paid to each recipient, rounded down (pure)
+ */
+export function calculateRedistribution(treasuryBalance: number, share: number, recipients: number): number {
+  if (share <= 0 || recipients <= 0 || treasuryBalance <= 0) return 0;
+  return Math.floor((treasuryBalance * share) / recipients);
+}
+
+/**
+ * Collect the wealth tax and pay out redistribution in one world
+ */
+async function runFiscalCycle(tenantId: string | null, residents: Agent[], tick: number): Promise<WorldEvent | null> {
+  const treasury = await getTreasury(tenantId);
+  const policy = toFiscalPolicy(treasury);
+  let treasuryBalance = treasury.balance;
+
+  let wealthTaxCollected = 0;
+  let taxpayers = 0;
+  for (const agent of residents) {
+    const due = calculateWealthTax(agent.balance, policy);
+    if (due <= 0) continue;
+    const result = await transferWithTreasury(tenantId, agent.id, 'deposit', due, 'wealth_tax', 'Wealth tax', tick);
+    if (!result.success) continue;
+    wealthTaxCollected += due;
+    taxpayers++;
+    treasuryBalance = result.toNewBalance ?? treasuryBalance;
+  }
+
+  let redistributed = 0;
+  let recipients = 0;
+  const perAgent = calculateRedistribution(treasuryBalance, policy.redistributionShare, residents.length);
+  if (perAgent > 0) {
+    for (const agent of residents) {
+      const result = await transferWithTreasury(tenantId, agent.id, 'payout', perAgent, 'redistribution', 'Redistribution', tick);
+      if (!result.success) break;
+      redistributed += perAgent;
+      recipients++;
+      treasuryBalance = result.fromNewBalance ?? treasuryBalance;
+    }
+  }
+
+  if (wealthTaxCollected === 0 && redistributed === 0) return null;
+
+  return {
+    id: uuid(),
+    type: 'fiscal_cycle',
+    tick,
+    timestamp: Date.now(),
+    payload: {
+      tenantId,
+      wealthTaxCollected,
+      taxpayers,
+      redistributed,
+      recipients,
+      perRecipient: perAgent,
+      treasuryBalance,
+      wealthTaxRate: policy.wealthTaxRate,
+      redistributionShare: policy.redistributionShare,
+    },
+  };
+}
+
+/**
+ * Run the fiscal cycle of every world at the configured interval
+ */
+export async function processFiscalTick(tick: number): Promise<WorldEvent[]> {
+  if (tick % CONFIG.fiscal.interval !== 0) return [];
+
+  // Balances are read fresh: actions and currency decay changed them this tick
+  const byWorld = new Map<string | null, Agent[]>();
+  for (const agent of await getAliveAgents()) {
+    const residents = byWorld.get(agent.tenantId) ?? [];
+    residents.push(agent);
+    byWorld.set(agent.tenantId, residents);
+  }
+
+  const events: WorldEvent[] = [];
+  for (const [tenantId, residents] of byWorld) {
+    const event = await runFiscalCycle(tenantId, residents, tick);
+    if (event) events.push(event);
+  }
+  return events;
+}
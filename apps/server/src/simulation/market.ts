@@ -0,0 +1,233 @@
+/**
+ * Market - per-shelter limit order books
+ *
+ * Agents post bids (buy) and asks (sell) for an item type at a shelter with
+ * place_order. Ask quantities are taken from the seller's inventory into
+ * escrow when placed; bids are only checked against the buyer's balance.
+ *
+ * Every tick each book (shelter + item type) is cleared with price-time
+ * priority: the best bid meets the best ask while bid >= ask. The order that
+ * was resting in the book sets the price (same-tick crosses meet in the
+ * middle). Money settles through the ledger; a buyer who can no longer pay
+ * has the bid cancelled. Expired asks return their escrow, as do the open
+ * orders of a venue that collapses or is demolished.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { MarketOrder } from '../db/schema';
+import type { WorldEvent } from '../cache/pubsub';
+import {
+  cancelShelterOrders,
+  closeMarketOrder,
+  expireMarketOrders,
+  getOpenOrders,
+  recordOrderFill,
+} from '../db/queries/market';
+import { addToInventory } from '../db/queries/inventory';
+import { storeMemory } from '../db/queries/memories';
+import { transfer } from '../ledger';
+
+export interface OrderMatch {
+  bid: MarketOrder;
+  ask: MarketOrder;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Quantity of an order not yet filled
+ */
+export function remainingQuantity(order: Pick<MarketOrder, 'quantity' | 'filledQuantity'>): number {
+  return order.quantity - order.filledQuantity;
+}
+
+/**
+ * Sort one side of a book by price-time priority (pure)
+ *
+ * Bids: highest price first. Asks: lowest price first. Ties: oldest first.
+ */
+export function sortBookSide(orders: MarketOrder[], side: 'bid' | 'ask'): MarketOrder[] {
+  return [...orders].sort((a, b) => {
+    if (a.price !== b.price) return side === 'bid' ? b.price - a.price : a.price - b.price;
+    return a.createdAtTick - b.createdAtTick;
+  });
+}
+
+/**
+ * Price a crossing bid and ask trade at (pure)
+ *
+ * The resting (older) order sets the price; orders placed in the same tick
+ * meet in the middle, rounded down.
+ */
+export function executionPrice(bid: MarketOrder, ask: MarketOrder): number {
+  if (bid.createdAtTick < ask.createdAtTick) return bid.price;
+  if (ask.createdAtTick < bid.createdAtTick) return ask.price;
+  return Math.floor((bid.price + ask.price) / 2);
+}
+
+/**
+ * Match the best bid against the best ask of sorted book sides (pure)
+ */
+export function findMatch(bids: MarketOrder[], asks: MarketOrder[]): OrderMatch | null {
+  const bid = bids[0];
+  const ask = asks[0];
+  if (!bid || !ask || bid.price < ask.price) return null;
+
+  return {
+    bid,
+    ask,
+    price: executionPrice(bid, ask),
+    quantity: Math.min(remainingQuantity(bid), remainingQuantity(ask)),
+  };
+}
+
+/**
+ * Return the unfilled escrow of an order that was just closed
+ */
+async function releaseOrder(order: MarketOrder, tick: number, type: string, reason: string): Promise<WorldEvent> {
+  const remaining = remainingQuantity(order);
+  if (order.side === 'ask' && remaining > 0) {
+    await addToInventory(order.agentId, order.itemType, remaining);
+  }
+
+  return {
+    id: uuid(),
+    type,
+    tick,
+    timestamp: Date.now(),
+    agentId: order.agentId,
+    payload: {
+      orderId: order.id,
+      shelterId: order.shelterId,
+      itemType: order.itemType,
+      side: order.side,
+      price: order.price,
+      unfilledQuantity: remaining,
+      reason,
+    },
+  };
+}
+
+/**
+ * Clear one book (shelter + item type)
+ */
+async function clearBook(orders: MarketOrder[], tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+  const bids = sortBookSide(orders.filter((o) => o.side === 'bid'), 'bid');
+  const asks = sortBookSide(orders.filter((o) => o.side === 'ask'), 'ask');
+
+  let match = findMatch(bids, asks);
+  while (match) {
+    const { bid, ask, price, quantity } = match;
+    const total = price * quantity;
+
+    const payment = await transfer(
+      bid.agentId,
+      ask.agentId,
+      total,
+      'market',
+      `Market: ${quantity}x ${bid.itemType} at ${price} CITY`,
+      tick
+    );
+
+    if (!payment.success) {
+      // Buyer can no longer cover the bid - pull it from the book
+      if (await closeMarketOrder(bid.id, 'cancelled', tick)) {
+        events.push(await releaseOrder(bid, tick, 'market_order_cancelled', 'insufficient_funds'));
+      }
+      bids.shift();
+      match = findMatch(bids, asks);
+      continue;
+    }
+
+    await addToInventory(bid.agentId, bid.itemType, quantity);
+    await recordOrderFill(bid, quantity, tick);
+    await recordOrderFill(ask, quantity, tick);
+
+    events.push({
+      id: uuid(),
+      type: 'market_trade',
+      tick,
+      timestamp: Date.now(),
+      agentId: bid.agentId,
+      payload: {
+        shelterId: bid.shelterId,
+        itemType: bid.itemType,
+        price,
+        quantity,
+        total,
+        tax: payment.taxPaid ?? 0, // Transaction tax the seller paid to the public treasury
+        buyerId: bid.agentId,
+        sellerId: ask.agentId,
+        bidOrderId: bid.id,
+        askOrderId: ask.id,
+        bidPrice: bid.price,
+        askPrice: ask.price,
+      },
+    });
+
+    await storeMemory({
+      agentId: bid.agentId,
+      type: 'action',
+      content: `Bought ${quantity}x ${bid.itemType} at the market for ${price} CITY each (my bid was ${bid.price}).`,
+      importance: 4,
+      emotionalValence: 0.2,
+      involvedAgentIds: [ask.agentId],
+      tick,
+    });
+    await storeMemory({
+      agentId: ask.agentId,
+      type: 'action',
+      content: `Sold ${quantity}x ${ask.itemType} at the market for ${price} CITY each (my ask was ${ask.price}).`,
+      importance: 4,
+      emotionalValence: 0.2,
+      involvedAgentIds: [bid.agentId],
+      tick,
+    });
+
+    // Advance the book
+    bids[0] = { ...bid, filledQuantity: bid.filledQuantity + quantity };
+    asks[0] = { ...ask, filledQuantity: ask.filledQuantity + quantity };
+    if (remainingQuantity(bids[0]) <= 0) bids.shift();
+    if (remainingQuantity(asks[0]) <= 0) asks.shift();
+    match = findMatch(bids, asks);
+  }
+
+  return events;
+}
+
+/**
+ * Cancel the open orders of a venue that is about to be removed
+ */
+export async function cancelVenueOrders(shelterId: string, tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+  for (const order of await cancelShelterOrders(shelterId, tick)) {
+    events.push(await releaseOrder(order, tick, 'market_order_cancelled', 'venue_removed'));
+  }
+  return events;
+}
+
+/**
+ * Expire stale orders and clear every order book
+ */
+export async function processMarketTick(tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+
+  for (const order of await expireMarketOrders(tick)) {
+    events.push(await releaseOrder(order, tick, 'market_order_expired', 'expired'));
+  }
+
+  const books = new Map<string, MarketOrder[]>();
+  for (const order of await getOpenOrders()) {
+    const key = `${order.shelterId}:${order.itemType}`;
+    const book = books.get(key) ?? [];
+    book.push(order);
+    books.set(key, book);
+  }
+
+  for (const orders of books.values()) {
+    events.push(...(await clearBook(orders, tick)));
+  }
+
+  return events;
+}
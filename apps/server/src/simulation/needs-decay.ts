@@ -26,6 +26,7 @@ import { getInventoryItem, removeFromInventory, getAgentInventory, updateInvento
 import type { Agent } from '../db/schema';
 import type { WorldEvent } from '../cache/pubsub';
 import { getRuntimeConfig } from '../config';
+import { transfer } from '../ledger';
 
 // Track consecutive ticks in critical state (for grace timer)
 const criticalTicksMap = new Map<string, { hunger: number; energy: number }>();
@@ -430,6 +431,8 @@ export function calculateSurvivalTicks(hunger: number, energy: number): number {
 // Idle wealth loses value over time - this prevents hoarding and encourages
 // agents to actively spend/invest their CITY currency.
 // Agents with balance > threshold lose a % of their balance every N ticks.
+// Decayed money is destroyed; the wealth tax (simulation/fiscal.ts) collects
+// into the public treasury instead.
 
 export interface CurrencyDecayResult {
   agentId: string;
@@ -501,11 +504,21 @@ export async function applyCurrencyDecay(
   const actualDecay = Math.max(1, decayAmount);
 
   // Ensure we don't go below threshold
-  const newBalance = Math.max(currencyDecayThreshold, agent.balance - actualDecay);
-  const appliedDecay = agent.balance - newBalance;
+  const appliedDecay = agent.balance - Math.max(currencyDecayThreshold, agent.balance - actualDecay);
 
-  // Update agent balance in database
-  await updateAgent(agent.id, { balance: newBalance });
+  // Burn the decayed amount (recorded in the ledger so the money sink is visible)
+  const burn = await transfer(agent.id, null, appliedDecay, 'currency_decay', 'Currency decay', tick);
+  if (!burn.success) {
+    return {
+      agentId: agent.id,
+      previousBalance: agent.balance,
+      newBalance: agent.balance,
+      decayAmount: 0,
+      applied: false,
+      reason: burn.error,
+    };
+  }
+  const newBalance = burn.fromNewBalance ?? agent.balance - appliedDecay;
 
   // Create event for visibility
   const event: WorldEvent = {
@@ -0,0 +1,77 @@
+/**
+ * Organisations - memberships end when an agent dies
+ *
+ * A dead agent leaves every organisation it belonged to, as with leave_org:
+ * the founder role passes to the longest-standing member, and an organisation
+ * whose last member died is dissolved. Its treasury stays where it is, since
+ * there is nobody left to pay it out to.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { WorldEvent } from '../cache/pubsub';
+import {
+  dissolveOrganization,
+  endMembership,
+  getActiveMembers,
+  getActiveMembershipsForAgents,
+  transferFounder,
+} from '../db/queries/organizations';
+
+/**
+ * End the memberships of agents that died this tick
+ */
+export async function endMembershipsOfDeadAgents(agentIds: string[], tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+
+  for (const { membership: dead, org } of await getActiveMembershipsForAgents(agentIds)) {
+    // Re-read the members: another agent that died this tick may have passed on the founder role
+    const members = await getActiveMembers(org.id);
+    const membership = members.find((m) => m.id === dead.id);
+    if (!membership || !(await endMembership(membership.id, 'died', tick))) continue;
+
+    const remaining = members.filter((m) => m.id !== membership.id);
+    let newFounderId: string | null = null;
+
+    if (remaining.length > 0 && membership.role === 'founder') {
+      await transferFounder(org.id, remaining[0]);
+      newFounderId = remaining[0].agentId;
+    }
+
+    events.push({
+      id: uuid(),
+      type: 'org_left',
+      tick,
+      timestamp: Date.now(),
+      agentId: membership.agentId,
+      payload: {
+        orgId: org.id,
+        name: org.name,
+        memberId: membership.agentId,
+        role: membership.role,
+        newFounderId,
+        memberCount: remaining.length,
+        ticksAsMember: tick - membership.joinedAtTick,
+        reason: 'died',
+      },
+    });
+
+    if (remaining.length === 0) {
+      await dissolveOrganization(org.id, tick);
+      events.push({
+        id: uuid(),
+        type: 'org_dissolved',
+        tick,
+        timestamp: Date.now(),
+        agentId: membership.agentId,
+        payload: {
+          orgId: org.id,
+          name: org.name,
+          ticksActive: tick - org.foundedAtTick,
+          treasuryPayout: 0,
+        },
+      });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,217 @@
+/**
+ * Plans - goals with sub-steps kept across ticks
+ *
+ * A decision may start a plan (set_goal) or change the active one
+ * (update_plan). The active plan is shown in the prompt every tick, so the
+ * agent keeps working towards the same goal instead of re-deciding from
+ * scratch. Steps with a concrete action are routine: the lizard brain runs
+ * them without an LLM call, and they are done once the action succeeds.
+ * Free-form steps are done when the agent says so.
+ *
+ * A plan ends as:
+ * - completed: every step is done, or the agent marks it completed
+ * - abandoned: the agent gives up, sets a new goal, or the deadline passes
+ * Both are logged (plan_completed / plan_abandoned) for analysis.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Agent, AgentPlan, AgentPlanStep } from '../db/schema';
+import type { CurrentPlan, PlanDirective, PlanStepInput } from '../llm/types';
+import type { ActionType } from '../actions/types';
+import type { WorldEvent } from '../cache/pubsub';
+import {
+  createAgentPlan,
+  endAgentPlan,
+  getActivePlan,
+  getOverduePlans,
+  updatePlanSteps,
+} from '../db/queries/plans';
+import { CONFIG } from '../config';
+
+/** The plan fields progress tracking needs (a plan row or an observation's plan) */
+export type PlanState = Pick<AgentPlan, 'id' | 'goal' | 'steps' | 'currentStep' | 'deadlineTick' | 'createdAtTick'>;
+
+export interface PlanUpdateResult {
+  /** The agent's active plan after the change (null if none) */
+  plan: PlanState | null;
+  /** plan_completed / plan_abandoned events */
+  events: WorldEvent[];
+}
+
+/**
+ * Active plan as shown in the observation
+ */
+export function toCurrentPlan(plan: AgentPlan): CurrentPlan {
+  return {
+    id: plan.id,
+    goal: plan.goal,
+    steps: plan.steps.map((step) => ({ ...step, action: step.action as ActionType | undefined })),
+    currentStep: plan.currentStep,
+    deadlineTick: plan.deadlineTick,
+    createdAtTick: plan.createdAtTick,
+  };
+}
+
+/**
+ * The step the agent is working on (undefined when all are done)
+ */
+export function getCurrentStep(plan: Pick<PlanState, 'steps' | 'currentStep'>): AgentPlanStep | undefined {
+  return plan.steps[plan.currentStep];
+}
+
+/**
+ * Mark the current step done and move to the next open one (pure)
+ */
+export function completeCurrentStep(
+  steps: AgentPlanStep[],
+  currentStep: number
+): { steps: AgentPlanStep[]; currentStep: number } {
+  const next = steps.map((step, i) => (i === currentStep ? { ...step, done: true } : step));
+  let index = currentStep;
+  while (index < next.length && next[index].done) index++;
+  return { steps: next, currentStep: index };
+}
+
+function toSteps(inputs: PlanStepInput[]): AgentPlanStep[] {
+  return inputs.map((input) => ({ ...input, done: false }));
+}
+
+/**
+ * Apply a decision's set_goal / update_plan
+ */
+export async function applyPlanDirective(
+  agent: Pick<Agent, 'id' | 'tenantId'>,
+  directive: PlanDirective,
+  tick: number
+): Promise<PlanUpdateResult> {
+  const result: PlanUpdateResult = { plan: null, events: [] };
+  const active = await getActivePlan(agent.id);
+
+  if (directive.type === 'set_goal') {
+    if (active && await endAgentPlan(active.id, 'abandoned', tick, 'replaced')) {
+      result.events.push(createPlanEndedEvent(active, agent.id, tick, 'abandoned', 'replaced'));
+    }
+
+    const deadlineInTicks = Math.min(
+      CONFIG.plans.maxDeadlineTicks,
+      Math.max(1, Math.round(directive.deadlineInTicks ?? CONFIG.plans.defaultDeadlineTicks))
+    );
+    result.plan = await createAgentPlan({
+      tenantId: agent.tenantId,
+      agentId: agent.id,
+      goal: directive.goal,
+      steps: toSteps(directive.steps),
+      currentStep: 0,
+      deadlineTick: tick + deadlineInTicks,
+      createdAtTick: tick,
+      updatedAtTick: tick,
+    });
+    return result;
+  }
+
+  if (!active) return result;
+
+  if (directive.status) {
+    const reason = directive.status === 'abandoned' ? directive.reason ?? 'agent_decision' : null;
+    if (await endAgentPlan(active.id, directive.status, tick, reason)) {
+      result.events.push(createPlanEndedEvent(active, agent.id, tick, directive.status, reason ?? undefined));
+    }
+    return result;
+  }
+
+  let steps = active.steps;
+  let currentStep = active.currentStep;
+  if (directive.stepDone && currentStep < steps.length) {
+    ({ steps, currentStep } = completeCurrentStep(steps, currentStep));
+  }
+  if (directive.steps) {
+    // Replace the remaining steps, keeping the ones already done
+    steps = [...steps.slice(0, currentStep), ...toSteps(directive.steps)].slice(0, CONFIG.plans.maxSteps);
+  }
+
+  const plan = { ...active, steps, currentStep };
+  const ended = await savePlanProgress(plan, agent.id, tick);
+  if (ended) {
+    result.events.push(ended);
+  } else {
+    result.plan = plan;
+  }
+  return result;
+}
+
+/**
+ * Record an executed action against the active plan: a successful action
+ * matching the current step completes it
+ *
+ * Returns a plan_completed event if that was the last step.
+ */
+export async function recordPlanProgress(
+  plan: PlanState,
+  agentId: string,
+  action: string,
+  success: boolean,
+  tick: number
+): Promise<WorldEvent | null> {
+  const step = getCurrentStep(plan);
+  if (!success || !step || step.action !== action) return null;
+
+  return savePlanProgress({ ...plan, ...completeCurrentStep(plan.steps, plan.currentStep) }, agentId, tick);
+}
+
+/**
+ * Save step progress, completing the plan once every step is done
+ */
+async function savePlanProgress(plan: PlanState, agentId: string, tick: number): Promise<WorldEvent | null> {
+  if (plan.steps.length > 0 && plan.steps.every((step) => step.done)) {
+    if (await endAgentPlan(plan.id, 'completed', tick)) {
+      return createPlanEndedEvent(plan, agentId, tick, 'completed');
+    }
+    return null;
+  }
+
+  await updatePlanSteps(plan.id, plan.steps, plan.currentStep, tick);
+  return null;
+}
+
+/**
+ * Abandon plans of the given agents whose deadline has passed
+ */
+export async function expireOverduePlans(tick: number, agents: Pick<Agent, 'id'>[]): Promise<WorldEvent[]> {
+  const agentIds = new Set(agents.map((a) => a.id));
+  const events: WorldEvent[] = [];
+
+  for (const plan of await getOverduePlans(tick)) {
+    // Plans of agents in another world loop are expired by that loop
+    if (!agentIds.has(plan.agentId)) continue;
+    if (await endAgentPlan(plan.id, 'abandoned', tick, 'deadline_passed')) {
+      events.push(createPlanEndedEvent(plan, plan.agentId, tick, 'abandoned', 'deadline_passed'));
+    }
+  }
+
+  return events;
+}
+
+function createPlanEndedEvent(
+  plan: PlanState,
+  agentId: string,
+  tick: number,
+  outcome: 'completed' | 'abandoned',
+  reason?: string
+): WorldEvent {
+  return {
+    id: uuid(),
+    type: outcome === 'completed' ? 'plan_completed' : 'plan_abandoned',
+    tick,
+    timestamp: Date.now(),
+    agentId,
+    payload: {
+      planId: plan.id,
+      goal: plan.goal,
+      stepsCompleted: plan.steps.filter((step) => step.done).length,
+      totalSteps: plan.steps.length,
+      ticksActive: tick - plan.createdAtTick,
+      deadlineTick: plan.deadlineTick,
+      reason: outcome === 'abandoned' ? reason ?? 'agent_decision' : undefined,
+    },
+  };
+}
@@ -25,6 +25,7 @@ import {
 } from '../db/queries/puzzles';
 import { getAliveAgents } from '../db/queries/agents';
 import { CONFIG } from '../config';
+import { random, randomBelow } from '../utils/random';
 import type { PuzzleGame, NewPuzzleGame, NewPuzzleFragment } from '../db/schema';
 
 // =============================================================================
@@ -49,8 +50,8 @@ interface GeneratedPuzzle {
  * Generate a coordinates puzzle (find x,y from hints)
  */
 function generateCoordinatesPuzzle(): GeneratedPuzzle {
-  const targetX = Math.floor(Math.random() * CONFIG.simulation.gridSize);
-  const targetY = Math.floor(Math.random() * CONFIG.simulation.gridSize);
+  const targetX = randomBelow(CONFIG.simulation.gridSize);
+  const targetY = randomBelow(CONFIG.simulation.gridSize);
   const solution = `${targetX},${targetY}`;
 
   const fragments = [
@@ -83,12 +84,12 @@ function generateCoordinatesPuzzle(): GeneratedPuzzle {
  */
 function generatePasswordPuzzle(): GeneratedPuzzle {
   const words = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'theta', 'omega'];
-  const wordCount = 3 + Math.floor(Math.random() * 2); // 3-4 words
+  const wordCount = 3 + randomBelow(2); // 3-4 words
   const selectedWords = [];
   const usedIndices = new Set<number>();
 
   while (selectedWords.length < wordCount) {
-    const idx = Math.floor(Math.random() * words.length);
+    const idx = randomBelow(words.length);
     if (!usedIndices.has(idx)) {
       usedIndices.add(idx);
       selectedWords.push(words[idx]);
@@ -123,7 +124,7 @@ function generatePasswordPuzzle(): GeneratedPuzzle {
  */
 function generateLogicPuzzle(): GeneratedPuzzle {
   // Simple number logic puzzle: find a number that satisfies all constraints
-  const targetNumber = 10 + Math.floor(Math.random() * 90); // 10-99
+  const targetNumber = 10 + randomBelow(90); // 10-99
   const solution = targetNumber.toString();
 
   const fragments = [
@@ -164,8 +165,8 @@ function generateLogicPuzzle(): GeneratedPuzzle {
  */
 function generatePuzzle(type?: PuzzleType): GeneratedPuzzle {
   const puzzleType = type || (
-    Math.random() < 0.4 ? 'coordinates' :
-    Math.random() < 0.7 ? 'password' : 'logic'
+    random() < 0.4 ? 'coordinates' :
+    random() < 0.7 ? 'password' : 'logic'
   );
 
   switch (puzzleType) {
@@ -316,7 +317,7 @@ export async function processPuzzleEngineTick(
     const aliveAgents = await getAliveAgents();
     if (aliveAgents.length >= 3) {
       // Create a new puzzle with 10% chance per tick (avg 1 per 10 ticks)
-      if (Math.random() < 0.1) {
+      if (random() < 0.1) {
         const newGame = await createNewPuzzleGame(tenantId, tick);
         newGames.push(newGame.id);
       }
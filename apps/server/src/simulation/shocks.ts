@@ -26,6 +26,7 @@ import { publishEvent, type WorldEvent } from '../cache/pubsub';
 import { getCurrentTick } from '../db/queries/world';
 import { random, randomBelow, randomChoice } from '../utils/random';
 import type { Agent, NewAgent } from '../db/schema';
+import { provisionAgentSigningKey } from '../services/agent-key-service';
 
 // =============================================================================
 // Types
@@ -612,6 +613,7 @@ export class ShockManager {
       };
 
       const created = await createAgent(newAgent);
+      await provisionAgentSigningKey(created.id);
       affectedAgents.push(created.id);
 
       // Emit immigration event for each new agent
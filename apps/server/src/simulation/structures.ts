@@ -0,0 +1,136 @@
+/**
+ * Structures - world effects and decay of agent-built structures
+ *
+ * A completed structure changes the world:
+ * - blueprints with a venue (shelter, market_stall): a shelters row owned by
+ *   the builder, so it gets an order book like any shelter (stalls have no beds)
+ * - blueprints with blocksMovement (walls): the cell becomes impassable terrain
+ *
+ * Every active structure loses condition each tick (CONFIG.actions.build
+ * blueprints); build work restores it. At 0 the structure collapses and its
+ * world effects are removed (orders resting at a venue are cancelled first).
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Structure } from '../db/schema';
+import type { WorldEvent } from '../cache/pubsub';
+import {
+  completeStructure,
+  decayStructures,
+  endStructure,
+  getActiveStructures,
+} from '../db/queries/structures';
+import { createShelter, deleteShelter } from '../db/queries/world';
+import { resetTerrain, setTerrain } from '../world/terrain';
+import { cancelVenueOrders } from './market';
+import { CONFIG } from '../config';
+
+/**
+ * Complete a construction site and apply its world effects
+ */
+export async function finishConstruction(structure: Structure, tick: number): Promise<{ shelterId: string | null }> {
+  const blueprint = CONFIG.actions.build.structures[structure.structureType];
+  let shelterId: string | null = null;
+
+  if (blueprint?.venue) {
+    const shelter = await createShelter({
+      id: uuid(),
+      tenantId: structure.tenantId,
+      x: structure.x,
+      y: structure.y,
+      canSleep: blueprint.venue.canSleep,
+      ownerAgentId: structure.ownerAgentId,
+    });
+    shelterId = shelter.id;
+  }
+
+  if (blueprint?.blocksMovement) {
+    setTerrain(structure.x, structure.y, 'building');
+  }
+
+  await completeStructure(structure.id, tick, shelterId);
+  return { shelterId };
+}
+
+/**
+ * Remove the world effects of a structure that collapsed or was demolished
+ *
+ * Returns the market_order_cancelled events of orders resting at its venue.
+ */
+export async function removeStructureFromWorld(structure: Structure, tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+  if (structure.shelterId) {
+    events.push(...await cancelVenueOrders(structure.shelterId, tick));
+    await deleteShelter(structure.shelterId);
+  }
+
+  const blueprint = CONFIG.actions.build.structures[structure.structureType];
+  if (blueprint?.blocksMovement && structure.status === 'complete') {
+    resetTerrain(structure.x, structure.y);
+  }
+  return events;
+}
+
+/**
+ * Materials recovered when a structure is torn down (pure)
+ */
+export function calculateSalvage(materialsUsed: Record<string, number>, salvageRate: number): Record<string, number> {
+  const salvage: Record<string, number> = {};
+  for (const [itemType, quantity] of Object.entries(materialsUsed)) {
+    const recovered = Math.floor(quantity * salvageRate);
+    if (recovered > 0) salvage[itemType] = recovered;
+  }
+  return salvage;
+}
+
+/**
+ * Decay all active structures and collapse those that reach 0 condition
+ */
+export async function processStructureDecay(tick: number): Promise<WorldEvent[]> {
+  const events: WorldEvent[] = [];
+
+  for (const [structureType, blueprint] of Object.entries(CONFIG.actions.build.structures)) {
+    if (blueprint.decayPerTick <= 0) continue;
+
+    const worn = await decayStructures(structureType, blueprint.decayPerTick);
+    for (const structure of worn) {
+      if (!(await endStructure(structure.id, 'collapsed', tick))) continue;
+      const orderEvents = await removeStructureFromWorld(structure, tick);
+
+      events.push({
+        id: uuid(),
+        type: 'structure_collapsed',
+        tick,
+        timestamp: Date.now(),
+        agentId: structure.ownerAgentId ?? undefined,
+        payload: {
+          structureId: structure.id,
+          structureType,
+          x: structure.x,
+          y: structure.y,
+          ownerAgentId: structure.ownerAgentId,
+          wasComplete: structure.status === 'complete',
+          lastMaintainedTick: structure.lastMaintainedTick,
+        },
+      });
+      events.push(...orderEvents);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Rebuild impassable terrain from completed structures (on startup)
+ */
+export async function loadStructureTerrain(): Promise<number> {
+  let blocked = 0;
+  for (const structure of await getActiveStructures()) {
+    const blueprint = CONFIG.actions.build.structures[structure.structureType];
+    if (blueprint?.blocksMovement && structure.status === 'complete') {
+      setTerrain(structure.x, structure.y, 'building');
+      blocked++;
+    }
+  }
+  return blocked;
+}
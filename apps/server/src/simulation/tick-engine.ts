@@ -23,10 +23,11 @@ import { TICK_INTERVAL_MS } from '@simagents/shared';
 import { incrementTick, getCurrentTick, getWorldState } from '../db/queries/world';
 import { getAliveAgents, updateAgent } from '../db/queries/agents';
 import { appendEvent } from '../db/queries/events';
+import { recordAgentTickStates } from '../db/queries/agent-tick-states';
 import { publishEvent, type WorldEvent } from '../cache/pubsub';
 import { setCachedTick, setCachedWorldState, setCachedAgents } from '../cache/projections';
 import { applyNeedsDecay, applyCurrencyDecay, applyItemSpoilage, cleanupOrphanedCriticalTicks } from './needs-decay';
-import { processAgentsTick } from '../agents/orchestrator';
+import { isReplayingRecordedDecisions, processAgentsTick } from '../agents/orchestrator';
 import { captureVariantSnapshot, updateVariantStatus, updateExperimentStatus, getNextPendingVariant } from '../db/queries/experiments';
 import { updateAllAgentRoles } from '../db/queries/roles';
 import { getGestatingStates, completeReproduction, createLineage, getLineage } from '../db/queries/reproduction';
@@ -36,6 +37,14 @@ import type { Agent, NewAgent } from '../db/schema';
 import { random, randomBelow, randomChoice, resetRNG } from '../utils/random';
 import { processScheduledShocks, type ShockResult } from './shocks';
 import { processPuzzleEngineTick } from './puzzle-engine';
+import { expireTradeProposals } from '../db/queries/trade-proposals';
+import { processStructureDecay } from './structures';
+import { processMarketTick } from './market';
+import { processFiscalTick } from './fiscal';
+import { endMembershipsOfDeadAgents } from './organizations';
+import { createCheckpoint, isCheckpointTick } from './checkpoints';
+import { provisionAgentSigningKey } from '../services/agent-key-service';
+import { runReflectionPass } from '../llm/reflection';
 
 // Role update interval (every N ticks)
 const ROLE_UPDATE_INTERVAL = 20;
@@ -83,6 +92,7 @@ class TickEngine {
   private intervalId: Timer | null = null;
   private isRunning = false;
   private isProcessingTick = false; // Guard against overlapping ticks
+  private tickInFlight: Promise<TickResult> | null = null;
   private tickInterval: number;
   private actionHandlers: Map<string, ActionHandler> = new Map();
   private experimentContext: ExperimentContext | null = null;
@@ -126,7 +136,7 @@ class TickEngine {
     console.log(`Tick engine started (interval: ${this.tickInterval}ms)`);
 
     // Run first tick immediately
-    await this.processTick();
+    await this.runTick();
 
     // Schedule subsequent ticks with overlap protection
     this.intervalId = setInterval(async () => {
@@ -134,17 +144,36 @@ class TickEngine {
         logger.warn('Previous tick still processing, skipping this interval');
         return;
       }
-      this.isProcessingTick = true;
       try {
-        await this.processTick();
+        await this.runTick();
       } catch (error) {
         logger.error('Error in tick processing', error);
-      } finally {
-        this.isProcessingTick = false;
       }
     }, this.tickInterval);
   }
 
+  /**
+   * Process a tick and keep track of it until it has finished
+   */
+  private async runTick(): Promise<TickResult> {
+    this.isProcessingTick = true;
+    this.tickInFlight = this.processTick();
+    try {
+      return await this.tickInFlight;
+    } finally {
+      this.isProcessingTick = false;
+      this.tickInFlight = null;
+    }
+  }
+
+  /**
+   * Wait for the tick in progress, if any. stop() only prevents new ticks, so
+   * callers that rewrite world state call this after stopping the engine.
+   */
+  async waitForIdle(): Promise<void> {
+    await this.tickInFlight?.catch(() => undefined);
+  }
+
   stop(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -217,6 +246,29 @@ class TickEngine {
       logger.error('Error processing puzzle engine', error);
     }
 
+    // Expire unanswered trade proposals before agents observe the world
+    try {
+      const expiredProposals = await expireTradeProposals(tick, null);
+      for (const proposal of expiredProposals) {
+        const expiredEvent: WorldEvent = {
+          id: uuid(),
+          type: 'trade_proposal_expired',
+          tick,
+          timestamp: Date.now(),
+          agentId: proposal.proposerId,
+          payload: {
+            proposalId: proposal.id,
+            proposerId: proposal.proposerId,
+            targetId: proposal.targetId,
+          },
+        };
+        allEvents.push(expiredEvent);
+        await publishEvent(expiredEvent);
+      }
+    } catch (error) {
+      logger.error('Error expiring trade proposals', error);
+    }
+
     // Get all alive agents
     const agents = await getAliveAgents();
 
@@ -244,6 +296,7 @@ class TickEngine {
               action: result.decision.action,
               params: result.decision.params,
               reasoning: result.decision.reasoning,
+              plan: result.decision.plan,
               usedFallback: result.usedFallback,
               processingTimeMs: result.processingTimeMs,
             },
@@ -295,6 +348,19 @@ class TickEngine {
     // Create set for efficient dead agent lookup in subsequent phases
     const deadAgentIds = new Set(deaths);
 
+    // Phase 5a: ORGANISATIONS - Dead agents leave their organisations
+    if (deaths.length > 0) {
+      try {
+        const orgEvents = await endMembershipsOfDeadAgents(deaths, tick);
+        for (const event of orgEvents) {
+          allEvents.push(event);
+          await publishEvent(event);
+        }
+      } catch (error) {
+        logger.error('Error ending memberships of dead agents', error);
+      }
+    }
+
     // Phase 5b: CURRENCY DECAY - Apply currency decay to discourage hoarding
     for (const agent of agents) {
       if (deadAgentIds.has(agent.id)) continue;
@@ -306,6 +372,17 @@ class TickEngine {
       }
     }
 
+    // Phase 5b2: FISCAL - Wealth tax and redistribution through the public treasury
+    try {
+      const fiscalEvents = await processFiscalTick(tick);
+      for (const event of fiscalEvents) {
+        allEvents.push(event);
+        await publishEvent(event);
+      }
+    } catch (error) {
+      logger.error('Error processing fiscal policy', error);
+    }
+
     // Phase 5c: ITEM SPOILAGE - Apply item decay to create urgency
     for (const agent of agents) {
       if (deadAgentIds.has(agent.id)) continue;
@@ -317,6 +394,28 @@ class TickEngine {
       }
     }
 
+    // Phase 5c2: STRUCTURE DECAY - Unmaintained structures crumble and collapse
+    try {
+      const collapseEvents = await processStructureDecay(tick);
+      for (const event of collapseEvents) {
+        allEvents.push(event);
+        await publishEvent(event);
+      }
+    } catch (error) {
+      logger.error('Error processing structure decay', error);
+    }
+
+    // Phase 5c3: MARKET - Clear order books (after currency decay, which rewrites balances)
+    try {
+      const marketEvents = await processMarketTick(tick);
+      for (const event of marketEvents) {
+        allEvents.push(event);
+        await publishEvent(event);
+      }
+    } catch (error) {
+      logger.error('Error processing market', error);
+    }
+
     // Phase 5d: MEMORY CLEANUP - Periodically clean up orphaned critical ticks map entries
     if (tick % 100 === 0) {
       const aliveAgentIds = new Set(agents.filter(a => !deadAgentIds.has(a.id)).map(a => a.id));
@@ -357,6 +456,20 @@ class TickEngine {
       isPaused: newState.isPaused ?? false,
     });
 
+    // Record agent states for replay (agents that died this tick get their final row)
+    try {
+      const diedThisTick = await Promise.all(deaths.map((id) => getAgentById(id)));
+      await recordAgentTickStates(tick, [
+        ...aliveAgents,
+        ...diedThisTick.filter((agent): agent is Agent => !!agent),
+      ]);
+    } catch (error) {
+      logger.warn('Failed to record agent tick states', {
+        tick,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     // Emit tick_end event
     const duration = Date.now() - startTime;
     const tickEndEvent: WorldEvent = {
@@ -469,6 +582,33 @@ class TickEngine {
       console.error('[TickEngine] Error processing gestations:', error);
     }
 
+    // Phase 7: CHECKPOINT - Full world state (incl. RNG) for restore and fork
+    if (isCheckpointTick(tick)) {
+      try {
+        const checkpoint = await createCheckpoint(tick);
+        logger.info(`Checkpoint at tick ${tick}`, { rows: checkpoint.rowCount });
+      } catch (error) {
+        logger.error('Error creating checkpoint', error);
+      }
+    }
+
+    // REFLECTION - Consolidate agents' recent episodes into beliefs (LLM calls,
+    // so not awaited; a pass still running from an earlier tick skips this one).
+    // Skipped during deterministic replay: live LLM calls would make the replayed
+    // memories diverge from the recorded run.
+    if (!isReplayingRecordedDecisions()) {
+      runReflectionPass(aliveAgents, tick)
+        .then((results) => {
+          for (const result of results) {
+            logger.info(`Agent ${result.agentId.slice(0, 8)} reflected`, {
+              reflections: result.reflections.length,
+              consolidated: result.consolidated,
+            });
+          }
+        })
+        .catch((error) => logger.error('Error running reflection pass', error));
+    }
+
     logger.info(`Tick ${tick} completed in ${duration}ms`, {
       agentCount: aliveAgents.length,
       deaths: deaths.length,
@@ -564,6 +704,7 @@ class TickEngine {
       };
 
       await createAgent(offspring);
+      await provisionAgentSigningKey(offspringId);
 
       // Create lineage record
       const parentIds = reproductionState.partnerAgentId
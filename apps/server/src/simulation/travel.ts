@@ -0,0 +1,185 @@
+/**
+ * Travel - advances travel_to journeys one step per tick
+ *
+ * Agents on an active travel plan skip the LLM decision: the orchestrator
+ * issues a move along the A* path instead. A journey ends when the agent
+ * arrives, or is interrupted so the agent can decide again:
+ * - critical hunger or energy (the agent needs to look after itself)
+ * - health dropped since the last step (attacked, starving)
+ * - no path to the destination any more (terrain changed)
+ * - the journey exceeded CONFIG.actions.travel.maxTicks
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Agent, TravelPlan } from '../db/schema';
+import type { AgentDecision } from '../llm/types';
+import type { WorldEvent } from '../cache/pubsub';
+import {
+  getActiveTravelPlans,
+  recordTravelStep,
+  endTravelPlan,
+} from '../db/queries/travel';
+import { findPath, type CellLookup, type Position } from '../world/grid';
+import { CONFIG } from '../config';
+
+export type TravelInterruptReason =
+  | 'critical_hunger'
+  | 'critical_energy'
+  | 'took_damage'
+  | 'path_blocked'
+  | 'step_failed'
+  | 'timeout';
+
+export type TravelStep =
+  | { kind: 'step'; next: Position; remainingTiles: number }
+  | { kind: 'arrived' }
+  | { kind: 'interrupted'; reason: TravelInterruptReason };
+
+/**
+ * Decide what an agent on a travel plan does this tick (pure)
+ */
+export function planTravelStep(
+  plan: TravelPlan,
+  agent: Agent,
+  tick: number,
+  getCell?: CellLookup
+): TravelStep {
+  if (agent.x === plan.toX && agent.y === plan.toY) {
+    return { kind: 'arrived' };
+  }
+
+  if (tick - plan.startedAtTick >= CONFIG.actions.travel.maxTicks) {
+    return { kind: 'interrupted', reason: 'timeout' };
+  }
+
+  if (agent.hunger < CONFIG.needs.criticalHungerThreshold) {
+    return { kind: 'interrupted', reason: 'critical_hunger' };
+  }
+
+  if (agent.energy < CONFIG.needs.criticalEnergyThreshold) {
+    return { kind: 'interrupted', reason: 'critical_energy' };
+  }
+
+  if (agent.health < plan.healthAtLastStep) {
+    return { kind: 'interrupted', reason: 'took_damage' };
+  }
+
+  const path = findPath({ x: agent.x, y: agent.y }, { x: plan.toX, y: plan.toY }, getCell);
+  if (path.length === 0) {
+    return { kind: 'interrupted', reason: 'path_blocked' };
+  }
+
+  return { kind: 'step', next: path[0], remainingTiles: path.length };
+}
+
+/**
+ * Build the move decision for one step of a journey
+ */
+export function createTravelDecision(plan: TravelPlan): AgentDecision {
+  return {
+    action: 'move',
+    params: { toX: plan.toX, toY: plan.toY },
+    reasoning: `Travelling to (${plan.toX}, ${plan.toY})`,
+  };
+}
+
+export interface TravelTickResult {
+  /** Move decisions for agents still travelling (agentId -> plan + decision) */
+  steps: Map<string, { plan: TravelPlan; decision: AgentDecision }>;
+  /** Arrival and interruption events */
+  events: WorldEvent[];
+}
+
+/**
+ * Advance all active travel plans for a tick
+ *
+ * Ends plans that arrived or were interrupted and returns move decisions
+ * for the rest. Agents without a step fall back to a normal decision.
+ */
+export async function advanceTravelPlans(tick: number, agents: Agent[]): Promise<TravelTickResult> {
+  const result: TravelTickResult = { steps: new Map(), events: [] };
+  const plans = await getActiveTravelPlans();
+  if (plans.length === 0) return result;
+
+  const agentsById = new Map(agents.map((a) => [a.id, a]));
+
+  for (const plan of plans) {
+    const agent = agentsById.get(plan.agentId);
+    if (!agent) {
+      // Agent died or belongs to another world loop
+      await endTravelPlan(plan.id, 'cancelled', tick, 'agent_unavailable');
+      continue;
+    }
+
+    const step = planTravelStep(plan, agent, tick);
+    if (step.kind === 'step') {
+      result.steps.set(agent.id, { plan, decision: createTravelDecision(plan) });
+      continue;
+    }
+
+    if (step.kind === 'arrived') {
+      if (await endTravelPlan(plan.id, 'arrived', tick)) {
+        result.events.push(createTravelEndedEvent(plan, agent, tick, 'arrived'));
+      }
+    } else if (await endTravelPlan(plan.id, 'interrupted', tick, step.reason)) {
+      result.events.push(createTravelEndedEvent(plan, agent, tick, 'interrupted', step.reason));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record the outcome of a travel step executed by the orchestrator
+ *
+ * Returns an arrival/interruption event if the step ended the journey.
+ */
+export async function completeTravelStep(
+  plan: TravelPlan,
+  agent: Agent,
+  tick: number,
+  success: boolean
+): Promise<WorldEvent | null> {
+  if (!success) {
+    if (await endTravelPlan(plan.id, 'interrupted', tick, 'step_failed')) {
+      return createTravelEndedEvent(plan, agent, tick, 'interrupted', 'step_failed');
+    }
+    return null;
+  }
+
+  const stepsTaken = plan.stepsTaken + 1;
+  if (agent.x === plan.toX && agent.y === plan.toY) {
+    if (await endTravelPlan(plan.id, 'arrived', tick)) {
+      return createTravelEndedEvent({ ...plan, stepsTaken }, agent, tick, 'arrived');
+    }
+    return null;
+  }
+
+  await recordTravelStep(plan.id, tick, agent.health, stepsTaken);
+  return null;
+}
+
+function createTravelEndedEvent(
+  plan: TravelPlan,
+  agent: Agent,
+  tick: number,
+  outcome: 'arrived' | 'interrupted',
+  reason?: TravelInterruptReason
+): WorldEvent {
+  return {
+    id: uuid(),
+    type: outcome === 'arrived' ? 'agent_travel_arrived' : 'agent_travel_interrupted',
+    tick,
+    timestamp: Date.now(),
+    agentId: agent.id,
+    payload: {
+      planId: plan.id,
+      from: { x: plan.fromX, y: plan.fromY },
+      destination: { x: plan.toX, y: plan.toY },
+      position: { x: agent.x, y: agent.y },
+      stepsTaken: plan.stepsTaken,
+      ticksTravelled: tick - plan.startedAtTick,
+      reason,
+    },
+  };
+}
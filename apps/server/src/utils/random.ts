@@ -13,8 +13,8 @@
 
 import seedrandom from 'seedrandom';
 
-// Global RNG instance
-let rng: ReturnType<typeof seedrandom> | null = null;
+// Global RNG instance (stateful so checkpoints can resume the exact sequence)
+let rng: seedrandom.StatefulPRNG<seedrandom.State.Arc4> | null = null;
 
 // Current seed for debugging/logging
 let currentSeed: string | null = null;
@@ -27,10 +27,41 @@ let currentSeed: string | null = null;
  */
 export function initializeRNG(seed: string): void {
   currentSeed = seed;
-  rng = seedrandom(seed);
+  rng = seedrandom(seed, { state: true });
   console.log(`[SeededRNG] Initialized with seed: ${seed}`);
 }
 
+/**
+ * Snapshot of a seeded RNG: the seed plus the generator's internal state
+ */
+export interface RNGState {
+  seed: string;
+  state: seedrandom.State.Arc4;
+}
+
+/**
+ * Capture the RNG state (null when unseeded).
+ * Restoring it continues the sequence exactly where it was captured.
+ */
+export function getRNGState(): RNGState | null {
+  if (!rng || currentSeed === null) return null;
+  return { seed: currentSeed, state: rng.state() };
+}
+
+/**
+ * Restore an RNG state captured with getRNGState().
+ * Passing null switches back to unseeded mode.
+ */
+export function restoreRNGState(snapshot: RNGState | null): void {
+  if (!snapshot) {
+    resetRNG();
+    return;
+  }
+  currentSeed = snapshot.seed;
+  rng = seedrandom('', { state: snapshot.state });
+  console.log(`[SeededRNG] Restored state for seed: ${snapshot.seed}`);
+}
+
 /**
  * Set the RNG seed (alias for initializeRNG for convenience).
  * Accepts either a string or number seed.
@@ -70,7 +101,7 @@ export function isSeeded(): boolean {
  * Drop-in replacement for Math.random().
  */
 export function random(): number {
-  return rng ? (rng as () => number)() : Math.random();
+  return rng ? rng() : Math.random();
 }
 
 /**
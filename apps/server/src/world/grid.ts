@@ -4,6 +4,7 @@
 
 import { WORLD_SIZE } from '@simagents/shared';
 import type { Agent, Location } from '../db/schema';
+import { getCell as getTerrainCell } from './terrain';
 
 export interface GridCell {
   x: number;
@@ -98,32 +99,170 @@ export function isValidMove(from: Position, to: Position): boolean {
 }
 
 /**
- * Get path from A to B (simple implementation)
- * Returns array of positions to traverse
+ * Movement cost multiplier per terrain type (Infinity = impassable)
  */
-export function getPath(from: Position, to: Position): Position[] {
-  // Simple greedy pathfinding (can be replaced with A* later)
-  const path: Position[] = [];
-  let current = { ...from };
-
-  while (current.x !== to.x || current.y !== to.y) {
-    // Move in X direction first
-    if (current.x < to.x) {
-      current = { x: current.x + 1, y: current.y };
-    } else if (current.x > to.x) {
-      current = { x: current.x - 1, y: current.y };
+export const TERRAIN_MOVE_COST: Record<GridCell['terrain'], number> = {
+  ground: 1,
+  water: 3,
+  building: Infinity,
+};
+
+/**
+ * Lookup for the cell at a position (defaults to the shared terrain map)
+ */
+export type CellLookup = (x: number, y: number) => GridCell;
+
+/**
+ * Cost of stepping onto a cell (Infinity if it cannot be entered)
+ */
+export function getStepCost(cell: GridCell): number {
+  return cell.walkable ? TERRAIN_MOVE_COST[cell.terrain] : Infinity;
+}
+
+interface PathNode {
+  x: number;
+  y: number;
+  g: number; // Cost from start
+  f: number; // g + heuristic
+  order: number; // Insertion order (stable tie-break)
+}
+
+/**
+ * Min-heap ordered by f, then deeper nodes first (larger g), then insertion order.
+ * Preferring deeper nodes keeps paths straight on open ground (X before Y).
+ */
+class PathHeap {
+  private nodes: PathNode[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: PathNode): void {
+    this.nodes.push(node);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(this.nodes[i], this.nodes[parent])) break;
+      [this.nodes[i], this.nodes[parent]] = [this.nodes[parent], this.nodes[i]];
+      i = parent;
     }
-    // Then Y direction
-    else if (current.y < to.y) {
-      current = { x: current.x, y: current.y + 1 };
-    } else if (current.y > to.y) {
-      current = { x: current.x, y: current.y - 1 };
+  }
+
+  pop(): PathNode | undefined {
+    const top = this.nodes[0];
+    const last = this.nodes.pop();
+    if (this.nodes.length > 0 && last) {
+      this.nodes[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.less(this.nodes[left], this.nodes[smallest])) smallest = left;
+        if (right < this.nodes.length && this.less(this.nodes[right], this.nodes[smallest])) smallest = right;
+        if (smallest === i) break;
+        [this.nodes[i], this.nodes[smallest]] = [this.nodes[smallest], this.nodes[i]];
+        i = smallest;
+      }
     }
+    return top;
+  }
 
-    path.push({ ...current });
+  private less(a: PathNode, b: PathNode): boolean {
+    if (a.f !== b.f) return a.f < b.f;
+    if (a.g !== b.g) return a.g > b.g;
+    return a.order < b.order;
   }
+}
+
+// Neighbour order: X axis before Y axis (matches the old greedy walk on open ground)
+const PATH_DIRECTIONS: Position[] = [
+  { x: 1, y: 0 },  // East
+  { x: -1, y: 0 }, // West
+  { x: 0, y: 1 },  // South
+  { x: 0, y: -1 }, // North
+];
 
-  return path;
+/**
+ * Find the cheapest path from A to B with A* (4-directional, terrain-aware)
+ * Returns positions to traverse (excluding start), or [] if unreachable
+ */
+export function findPath(
+  from: Position,
+  to: Position,
+  getCell: CellLookup = getTerrainCell
+): Position[] {
+  if (from.x === to.x && from.y === to.y) return [];
+  if (!isValidPosition(to.x, to.y)) return [];
+  if (getStepCost(getCell(to.x, to.y)) === Infinity) return [];
+
+  const idx = (x: number, y: number) => y * WORLD_SIZE + x;
+  const bestG = new Map<number, number>();
+  const cameFrom = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new PathHeap();
+  let order = 0;
+
+  bestG.set(idx(from.x, from.y), 0);
+  open.push({ x: from.x, y: from.y, g: 0, f: getDistance(from, to), order: order++ });
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    const currentIdx = idx(current.x, current.y);
+    if (closed.has(currentIdx)) continue;
+    closed.add(currentIdx);
+
+    if (current.x === to.x && current.y === to.y) {
+      // Reconstruct path back to start
+      const path: Position[] = [];
+      let step: number | undefined = currentIdx;
+      const startIdx = idx(from.x, from.y);
+      while (step !== undefined && step !== startIdx) {
+        path.push({ x: step % WORLD_SIZE, y: Math.floor(step / WORLD_SIZE) });
+        step = cameFrom.get(step);
+      }
+      return path.reverse();
+    }
+
+    for (const d of PATH_DIRECTIONS) {
+      const nx = current.x + d.x;
+      const ny = current.y + d.y;
+      if (!isValidPosition(nx, ny)) continue;
+
+      const neighbourIdx = idx(nx, ny);
+      if (closed.has(neighbourIdx)) continue;
+
+      const stepCost = getStepCost(getCell(nx, ny));
+      if (stepCost === Infinity) continue;
+
+      const g = current.g + stepCost;
+      const known = bestG.get(neighbourIdx);
+      if (known !== undefined && known <= g) continue;
+
+      bestG.set(neighbourIdx, g);
+      cameFrom.set(neighbourIdx, currentIdx);
+      // Manhattan distance is admissible: the cheapest terrain costs 1 per tile
+      open.push({ x: nx, y: ny, g, f: g + getDistance({ x: nx, y: ny }, to), order: order++ });
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Get path from A to B
+ * Returns array of positions to traverse (terrain-aware A*)
+ */
+export function getPath(from: Position, to: Position): Position[] {
+  return findPath(from, to);
+}
+
+/**
+ * Total movement cost of a path (sum of terrain step costs)
+ */
+export function getPathCost(path: Position[], getCell: CellLookup = getTerrainCell): number {
+  return path.reduce((total, p) => total + getStepCost(getCell(p.x, p.y)), 0);
 }
 
 /**
@@ -0,0 +1,97 @@
+/**
+ * Terrain Map - per-cell terrain for pathfinding
+ *
+ * The world is open ground with a few natural water bodies (WATER_BODIES,
+ * static world data like the shelter and resource layout). Cells changed
+ * at runtime (walls raised by agents) are stored as sparse overrides keyed
+ * by "x,y" on top of the natural terrain.
+ *
+ * Kept in memory: overrides are derived world state, rebuilt from the
+ * database (structures) by whoever owns that data.
+ */
+
+import type { GridCell } from './grid';
+
+type Terrain = GridCell['terrain'];
+
+interface WaterBody {
+  name: string;
+  x: [number, number]; // Inclusive range
+  y: [number, number];
+}
+
+/**
+ * Natural water (3x movement cost). Placed between the resource clusters,
+ * clear of shelters and spawns, so routes between clusters bend or slow down.
+ */
+export const WATER_BODIES: WaterBody[] = [
+  { name: 'river', x: [40, 40], y: [24, 34] }, // Between the central and southeast clusters
+  { name: 'north lake', x: [58, 62], y: [24, 27] }, // Tundra
+  { name: 'oasis', x: [18, 21], y: [56, 59] }, // Desert
+];
+
+const naturalTerrain = new Map<string, Terrain>();
+const terrainOverrides = new Map<string, Terrain>();
+
+function key(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+for (const water of WATER_BODIES) {
+  for (let x = water.x[0]; x <= water.x[1]; x++) {
+    for (let y = water.y[0]; y <= water.y[1]; y++) {
+      naturalTerrain.set(key(x, y), 'water');
+    }
+  }
+}
+
+/**
+ * Terrain types agents cannot enter
+ */
+export function isWalkableTerrain(terrain: Terrain): boolean {
+  return terrain !== 'building';
+}
+
+/**
+ * Get the grid cell at a position
+ */
+export function getCell(x: number, y: number): GridCell {
+  const terrain = terrainOverrides.get(key(x, y)) ?? naturalTerrain.get(key(x, y)) ?? 'ground';
+  return { x, y, terrain, walkable: isWalkableTerrain(terrain) };
+}
+
+/**
+ * Set terrain at a position (the natural terrain removes the override)
+ */
+export function setTerrain(x: number, y: number, terrain: Terrain): void {
+  if (terrain === (naturalTerrain.get(key(x, y)) ?? 'ground')) {
+    terrainOverrides.delete(key(x, y));
+  } else {
+    terrainOverrides.set(key(x, y), terrain);
+  }
+}
+
+/**
+ * Return a position to its natural terrain
+ */
+export function resetTerrain(x: number, y: number): void {
+  terrainOverrides.delete(key(x, y));
+}
+
+/**
+ * Get all non-ground cells (for snapshots and debugging)
+ */
+export function getTerrainOverrides(): GridCell[] {
+  const cells = new Map([...naturalTerrain, ...terrainOverrides]);
+  return Array.from(cells.entries()).filter(([, terrain]) => terrain !== 'ground').map(([k, terrain]) => {
+    const [x, y] = k.split(',').map(Number);
+    return { x, y, terrain, walkable: isWalkableTerrain(terrain) };
+  });
+}
+
+/**
+ * Reset the whole map to its natural terrain
+ */
+export function clearTerrain(): void {
+  terrainOverrides.clear();
+}
@@ -21,7 +21,8 @@ export function EconomyPanel() {
     moneySupply = 0,
     giniCoefficient = 0,
     balanceDistribution = { min: 0, max: 0, median: 0, mean: 0 },
-    byLlmType = []
+    byLlmType = [],
+    fiscal
   } = economy;
 
   // Handle empty data case
@@ -49,6 +50,16 @@ export function EconomyPanel() {
     }))
     .sort((a, b) => b.value - a.value);
 
+  // Fiscal flows: treasury revenue vs spending
+  const fiscalFlowData = fiscal
+    ? [
+        { label: 'Transaction tax', value: Math.round(fiscal.revenue.transactionTax), color: '#81b29a' },
+        { label: 'Wealth tax', value: Math.round(fiscal.revenue.wealthTax), color: '#81b29a' },
+        { label: 'Public works', value: Math.round(fiscal.spending.publicWorks), color: '#e07a5f' },
+        { label: 'Redistribution', value: Math.round(fiscal.spending.redistribution), color: '#e07a5f' },
+      ]
+    : [];
+
   // Gini interpretation
   const getGiniInterpretation = (gini: number) => {
     if (gini < 0.2) return { text: 'Very Equal', color: 'success' as const };
@@ -158,6 +169,37 @@ export function EconomyPanel() {
           formatValue={(v) => v.toLocaleString()}
         />
       </div>
+
+      {/* Fiscal flows */}
+      {fiscal && (
+        <div>
+          <div className="text-xs text-city-text-muted mb-2 uppercase tracking-wide">
+            Fiscal Flows
+          </div>
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            <MetricCard
+              label="Treasury"
+              value={Math.round(fiscal.treasuryBalance).toLocaleString()}
+              subtitle={`In ${Math.round(fiscal.revenue.total).toLocaleString()} / out ${Math.round(fiscal.spending.total).toLocaleString()}`}
+            />
+            <MetricCard
+              label="Issued"
+              value={Math.round(fiscal.moneyIssued).toLocaleString()}
+              subtitle="New money for public work"
+            />
+            <MetricCard
+              label="Decayed"
+              value={Math.round(fiscal.currencyDecay).toLocaleString()}
+              subtitle="Burned by currency decay"
+            />
+          </div>
+          <BarChart
+            data={fiscalFlowData}
+            height={100}
+            formatValue={(v) => v.toLocaleString()}
+          />
+        </div>
+      )}
     </div>
   );
 }
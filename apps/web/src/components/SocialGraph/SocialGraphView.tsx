@@ -5,11 +5,12 @@
  * Shows:
  * - Agents as nodes (colored by LLM type)
  * - Edges for interactions (trade, harm, gossip)
+ * - Organisation edges linking members to their founder
  * - Edge thickness based on interaction frequency
  * - Interactive: click nodes to select agent
  */
 
-import { useEffect, useRef, useMemo, useCallback } from 'react';
+import { useEffect, useRef, useMemo, useCallback, useState } from 'react';
 import * as d3 from 'd3';
 import { useAgents, useEvents, useWorldStore } from '../../stores/world';
 import {
@@ -25,8 +26,19 @@ const EDGE_COLORS: Record<SocialEdgeType, string> = {
   gossip: '#8b5cf6',   // Purple
   trust: '#06b6d4',    // Cyan
   distrust: '#f97316', // Orange
+  org: '#eab308',      // Yellow
 };
 
+const API_BASE = '';
+
+// Organisation as returned by GET /api/organizations
+interface OrganizationSummary {
+  id: string;
+  name: string;
+  founderId: string | null;
+  members: Array<{ agentId: string; role: 'founder' | 'member' }>;
+}
+
 // Node interface for D3
 interface GraphNode extends d3.SimulationNodeDatum {
   id: string;
@@ -54,6 +66,25 @@ export function SocialGraphView() {
   const selectedAgentId = useWorldStore((s) => s.selectedAgentId);
   const selectAgent = useWorldStore((s) => s.selectAgent);
   const toggleSocialGraph = useVisualizationStore((s) => s.toggleSocialGraph);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+
+  // Refetch organisations whenever a membership event arrives
+  const lastOrgEventId = events.find((e) => e.type.startsWith('org_'))?.id;
+  useEffect(() => {
+    if (!visible || !edgeTypes.has('org')) return;
+    let cancelled = false;
+    fetch(`${API_BASE}/api/organizations`)
+      .then((res) => (res.ok ? res.json() : { organizations: [] }))
+      .then((data: { organizations: OrganizationSummary[] }) => {
+        if (!cancelled) setOrganizations(data.organizations);
+      })
+      .catch(() => {
+        if (!cancelled) setOrganizations([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, edgeTypes, lastOrgEventId]);
 
   // Build graph data from events
   const graphData = useMemo(() => {
@@ -120,6 +151,23 @@ export function SocialGraphView() {
       }
     }
 
+    // Organisation membership: member -> founder
+    if (edgeTypes.has('org')) {
+      for (const org of organizations) {
+        if (!org.founderId) continue;
+        for (const member of org.members) {
+          if (member.agentId === org.founderId) continue;
+          const key = `${member.agentId}-${org.founderId}-org`;
+          const existing = edgeMap.get(key);
+          if (existing) {
+            existing.weight += 3;
+          } else {
+            edgeMap.set(key, { source: member.agentId, target: org.founderId, type: 'org', weight: 3 });
+          }
+        }
+      }
+    }
+
     // Filter edges to only include nodes that exist
     const nodeIds = new Set(nodes.map((n) => n.id));
     const links = Array.from(edgeMap.values()).filter(
@@ -128,7 +176,7 @@ export function SocialGraphView() {
     );
 
     return { nodes, links };
-  }, [agents, events, edgeTypes]);
+  }, [agents, events, edgeTypes, organizations]);
 
   // Initialize D3 graph (only once when visible)
   useEffect(() => {
@@ -367,6 +415,7 @@ export function SocialGraphView() {
         <EdgeTypeToggle type="harm" label="Harm" />
         <EdgeTypeToggle type="gossip" label="Gossip" />
         <EdgeTypeToggle type="distrust" label="Deceive" />
+        <EdgeTypeToggle type="org" label="Organisation" />
       </div>
 
       {/* Graph */}
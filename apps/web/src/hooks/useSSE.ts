@@ -1,4 +1,5 @@
 import { useCallback, useRef, useState } from 'react';
+import type { EventPayload } from '@simagents/shared';
 import { useWorldStore, type WorldEvent } from '../stores/world';
 import { playSound } from './useAudio';
 
@@ -58,7 +59,7 @@ function getBubbleContent(event: WorldEvent): { emoji: string; text: string } |
     case 'agent_consumed':
       return { emoji: '🍔', text: reasoning || 'Ate!' };
     case 'balance_changed': {
-      const delta = (event.payload.newBalance as number) - (event.payload.oldBalance as number || 0);
+      const { change: delta } = event.payload as EventPayload<'balance_changed'>;
       if (delta > 0) return { emoji: '💰', text: `+${delta} CITY` };
       if (delta < 0) return { emoji: '💸', text: `${delta} CITY` };
       return null;
@@ -141,8 +142,8 @@ export function useSSE() {
           break;
 
         case 'agent_moved':
-          if (data.agentId && data.payload.to) {
-            const to = data.payload.to as { x: number; y: number };
+          if (data.agentId) {
+            const { to } = data.payload as EventPayload<'agent_moved'>;
             updateAgent(data.agentId, { x: to.x, y: to.y, state: 'idle' });
           }
           break;
@@ -179,26 +180,20 @@ export function useSSE() {
           break;
 
         case 'needs_updated':
-          if (data.agentId && data.payload) {
-            const { hunger, energy, health } = data.payload as {
-              hunger?: number;
-              energy?: number;
-              health?: number;
-            };
+          if (data.agentId) {
+            const { newState } = data.payload as EventPayload<'needs_updated'>;
             updateAgent(data.agentId, {
-              ...(hunger !== undefined && { hunger }),
-              ...(energy !== undefined && { energy }),
-              ...(health !== undefined && { health }),
+              hunger: newState.hunger,
+              energy: newState.energy,
+              health: newState.health,
             });
           }
           break;
 
         case 'balance_changed':
-          if (data.agentId && data.payload.newBalance !== undefined) {
-            updateAgent(data.agentId, {
-              balance: data.payload.newBalance as number,
-            });
-            const delta = (data.payload.newBalance as number) - (data.payload.oldBalance as number || 0);
+          if (data.agentId) {
+            const { newBalance, change: delta } = data.payload as EventPayload<'balance_changed'>;
+            updateAgent(data.agentId, { balance: newBalance });
             if (delta < 0) {
               playSound('buy');
             } else if (delta > 0) {
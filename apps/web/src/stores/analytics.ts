@@ -44,6 +44,13 @@ export interface EconomyMetrics {
     totalBalance: number;
     avgBalance: number;
   }[];
+  fiscal?: {
+    treasuryBalance: number;
+    revenue: { transactionTax: number; wealthTax: number; total: number };
+    spending: { publicWorks: number; redistribution: number; total: number };
+    moneyIssued: number;
+    currencyDecay: number;
+  };
 }
 
 export interface BehaviorMetrics {
@@ -64,6 +64,20 @@ export interface TickRange {
   totalEvents: number;
 }
 
+export interface ReplayRangeTick {
+  tick: number;
+  agents: ReplayAgent[];
+  events: ReplayEvent[];
+}
+
+export interface ReplayRange {
+  fromTick: number;
+  toTick: number;
+  ticks: ReplayRangeTick[];
+  resourceSpawns: ResourceSpawn[];
+  shelters: Shelter[];
+}
+
 export interface AgentTimelineEntry {
   tick: number;
   eventType: string;
@@ -125,7 +139,10 @@ export const useReplayStore = create<ReplayState>((set) => ({
   ...initialState,
 
   enterReplayMode: () => set({ isReplayMode: true }),
-  exitReplayMode: () => set({ ...initialState }),
+  exitReplayMode: () => {
+    clearReplayRangeCache();
+    set({ ...initialState });
+  },
 
   setTickRange: (range) => set({ tickRange: range, currentTick: range.maxTick }),
   setCurrentTick: (tick) => set({ currentTick: tick }),
@@ -136,7 +153,10 @@ export const useReplayStore = create<ReplayState>((set) => ({
   setAgentTimeline: (timeline) => set({ agentTimeline: timeline }),
   setLoading: (loading) => set({ isLoading: loading }),
   setError: (error) => set({ error }),
-  reset: () => set(initialState),
+  reset: () => {
+    clearReplayRangeCache();
+    set(initialState);
+  },
 }));
 
 // =============================================================================
@@ -173,7 +193,74 @@ export async function fetchTickRange(): Promise<TickRange> {
   return data;
 }
 
+export async function fetchReplayRange(fromTick: number, toTick: number): Promise<ReplayRange> {
+  const res = await fetch(`${API_BASE}/api/replay/range?from=${fromTick}&to=${toTick}`);
+  return res.json();
+}
+
+// Scrubber prefetch: snapshots are served from windows of ticks fetched in one
+// request, and the next window is loaded before playback reaches it
+const RANGE_WINDOW_TICKS = 100;
+const RANGE_PREFETCH_MARGIN = 20;
+const MAX_CACHED_WINDOWS = 4;
+
+let cachedWindows: ReplayRange[] = [];
+const pendingWindows = new Map<number, Promise<ReplayRange>>();
+
+function clearReplayRangeCache() {
+  cachedWindows = [];
+  pendingWindows.clear();
+}
+
+function findCachedWindow(tick: number): ReplayRange | undefined {
+  return cachedWindows.find((w) => tick >= w.fromTick && tick <= w.toTick);
+}
+
+function loadWindow(fromTick: number): Promise<ReplayRange> {
+  const pending = pendingWindows.get(fromTick);
+  if (pending) return pending;
+
+  // Never cache ticks that haven't happened yet
+  const maxTick = useReplayStore.getState().tickRange?.maxTick ?? fromTick + RANGE_WINDOW_TICKS - 1;
+  const toTick = Math.max(fromTick, Math.min(fromTick + RANGE_WINDOW_TICKS - 1, maxTick));
+
+  const request = fetchReplayRange(fromTick, toTick)
+    .then((window) => {
+      cachedWindows = [window, ...cachedWindows.filter((w) => w.fromTick !== fromTick)].slice(0, MAX_CACHED_WINDOWS);
+      return window;
+    })
+    .finally(() => pendingWindows.delete(fromTick));
+
+  pendingWindows.set(fromTick, request);
+  return request;
+}
+
+function snapshotFromWindow(window: ReplayRange, tick: number): WorldSnapshot | null {
+  const entry = window.ticks.find((t) => t.tick === tick);
+  if (!entry) return null;
+  return {
+    tick,
+    agents: entry.agents,
+    resourceSpawns: window.resourceSpawns,
+    shelters: window.shelters,
+    events: entry.events,
+  };
+}
+
 export async function fetchWorldSnapshot(tick: number): Promise<WorldSnapshot> {
+  // On a miss, start the window a little before the tick so stepping back stays cached
+  const minTick = useReplayStore.getState().tickRange?.minTick ?? 0;
+  const window = findCachedWindow(tick) ?? await loadWindow(Math.max(minTick, tick - RANGE_PREFETCH_MARGIN));
+
+  const maxTick = useReplayStore.getState().tickRange?.maxTick ?? window.toTick;
+  if (window.toTick - tick < RANGE_PREFETCH_MARGIN && window.toTick < maxTick && !findCachedWindow(window.toTick + 1)) {
+    loadWindow(window.toTick + 1).catch(() => {});
+  }
+
+  const snapshot = snapshotFromWindow(window, tick);
+  if (snapshot) return snapshot;
+
+  // Tick outside the window the server returned: fall back to a single snapshot
   const res = await fetch(`${API_BASE}/api/replay/tick/${tick}`);
   const data = await res.json();
   return data.snapshot;
@@ -135,7 +135,7 @@ export const TRUST_EVENT_TYPES = ['agent_trade', 'agent_traded', 'agent_share_in
 export const CONFLICT_EVENT_TYPES = ['agent_harm', 'agent_harmed', 'agent_steal', 'agent_stole'] as const;
 
 // Social graph edge types
-export type SocialEdgeType = 'trade' | 'harm' | 'gossip' | 'trust' | 'distrust';
+export type SocialEdgeType = 'trade' | 'harm' | 'gossip' | 'trust' | 'distrust' | 'org';
 
 export interface SocialEdge {
   source: string;
@@ -194,7 +194,7 @@ export const useVisualizationStore = create<VisualizationState>((set, get) => ({
   // Initial state - Social Graph
   socialGraphVisible: false,
   socialEdges: [],
-  socialGraphEdgeTypes: new Set<SocialEdgeType>(['trade', 'harm', 'gossip']),
+  socialGraphEdgeTypes: new Set<SocialEdgeType>(['trade', 'harm', 'gossip', 'org']),
 
   // Heatmap actions
   setHeatmapMetric: (metric) => set({ heatmapMetric: metric, heatmapEnabled: metric !== 'none' }),
@@ -0,0 +1,587 @@
+/**
+ * Event payload schemas
+ *
+ * Typed, versioned payloads for the events the server logs (events.payload) and
+ * streams over SSE. Consumers (observer, novelty detection, the web client,
+ * analysis scripts) read fields through EventPayload<'type'> instead of
+ * guessing names, and the server validates every appended event against the
+ * current version.
+ *
+ * Schemas pass unknown keys through: emitters may add fields without a version
+ * bump. Renaming, removing or retyping a field is a breaking change:
+ * 1. Bump `version`
+ * 2. Add an upcaster from the previous version, so events already logged
+ *    can still be read at the current version (see upcastEventPayload)
+ */
+
+import { z } from 'zod';
+
+// ============================================
+// Definition helpers
+// ============================================
+
+type Payload = Record<string, unknown>;
+
+export interface EventPayloadDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** Current payload version (stored in events.schema_version) */
+  version: number;
+  payload: S;
+  /** upcasters[n] converts a version-n payload to version n + 1 */
+  upcasters?: Record<number, (payload: Payload) => Payload>;
+}
+
+function defineEvent<S extends z.ZodTypeAny>(
+  version: number,
+  payload: S,
+  upcasters?: Record<number, (payload: Payload) => Payload>
+): EventPayloadDefinition<S> {
+  return { version, payload, upcasters };
+}
+
+function payloadOf<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).passthrough();
+}
+
+// ============================================
+// Shared shapes
+// ============================================
+
+const Position = z.object({ x: z.number(), y: z.number() });
+const ItemStack = z.object({ itemType: z.string(), quantity: z.number() });
+const ItemCounts = z.record(z.number());
+const Vitals = z.object({ hunger: z.number(), energy: z.number(), health: z.number() }).passthrough();
+const OrderSide = z.enum(['bid', 'ask']);
+
+const TravelEnded = payloadOf({
+  planId: z.string(),
+  from: Position,
+  destination: Position,
+  position: Position,
+  stepsTaken: z.number(),
+  ticksTravelled: z.number(),
+  reason: z.string().optional(),
+});
+
+const PlanEnded = payloadOf({
+  planId: z.string(),
+  goal: z.string(),
+  stepsCompleted: z.number(),
+  totalSteps: z.number(),
+  ticksActive: z.number(),
+  deadlineTick: z.number(),
+});
+
+const StructureAt = {
+  structureType: z.string(),
+  x: z.number(),
+  y: z.number(),
+};
+
+const MarketOrderClosed = payloadOf({
+  orderId: z.string(),
+  shelterId: z.string(),
+  itemType: z.string(),
+  side: OrderSide,
+  price: z.number(),
+  unfilledQuantity: z.number(),
+  reason: z.enum(['by_agent', 'insufficient_funds', 'expired', 'venue_removed']),
+});
+
+const ContainerAccess = {
+  containerId: z.string(),
+  granteeType: z.string(),
+  granteeId: z.string().nullable(),
+  claimType: z.string().nullable(),
+  x: z.number(),
+  y: z.number(),
+};
+
+const TradeTerms = {
+  initiatorId: z.string(),
+  targetId: z.string(),
+  position: Position,
+  offered: ItemStack,
+  received: ItemStack,
+};
+
+const PlanStep = z.object({
+  description: z.string(),
+  action: z.string().optional(),
+  params: z.record(z.unknown()).optional(),
+}).passthrough();
+
+/**
+ * set_goal / update_plan directive carried by a decision (recorded so a
+ * replay applies the same plan changes)
+ */
+export const PlanDirectivePayload = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('set_goal'),
+    goal: z.string(),
+    steps: z.array(PlanStep),
+    deadlineInTicks: z.number().optional(),
+  }).passthrough(),
+  z.object({
+    type: z.literal('update_plan'),
+    stepDone: z.boolean().optional(),
+    steps: z.array(PlanStep).optional(),
+    status: z.enum(['completed', 'abandoned']).optional(),
+    reason: z.string().optional(),
+  }).passthrough(),
+]);
+
+/**
+ * Payload of decision events (agent_<action>, one per executed decision).
+ * The event type depends on the action, so it is not in the registry.
+ */
+export const AgentDecisionPayload = payloadOf({
+  action: z.string(),
+  params: z.unknown().optional(),
+  reasoning: z.string().optional(),
+  plan: PlanDirectivePayload.optional(),
+  usedFallback: z.boolean().optional(),
+  processingTimeMs: z.number().optional(),
+});
+
+const TradeProposal = {
+  proposalId: z.string(),
+  proposerId: z.string(),
+  targetId: z.string(),
+  position: Position,
+  offered: ItemStack,
+  requested: ItemStack,
+  expiresAtTick: z.number(),
+};
+
+// ============================================
+// Registry
+// ============================================
+
+export const EVENT_PAYLOAD_SCHEMAS = {
+  // Tick lifecycle
+  tick_start: defineEvent(1, payloadOf({})),
+  tick_end: defineEvent(1, payloadOf({
+    duration: z.number(),
+    agentCount: z.number(),
+    actionsExecuted: z.number(),
+    deaths: z.number(),
+  })),
+
+  // Agent lifecycle and needs
+  agent_died: defineEvent(1, payloadOf({
+    cause: z.string().optional(),
+    attackerId: z.string().optional(),
+  })),
+  agent_born: defineEvent(1, payloadOf({
+    parentId: z.string(),
+    partnerId: z.string().nullable(),
+    generation: z.number(),
+    x: z.number(),
+    y: z.number(),
+  })),
+  needs_updated: defineEvent(2, payloadOf({
+    previousState: Vitals,
+    newState: Vitals,
+    effects: z.array(z.string()),
+  }), {
+    // v1 logged the new needs flat ({ hunger, energy, health }). Rows logged
+    // before versioning are stamped v1 even if already nested, so keep those as-is.
+    1: (payload) => 'newState' in payload
+      ? payload
+      : { previousState: payload, newState: payload, effects: [] },
+  }),
+  needs_warning: defineEvent(1, payloadOf({
+    need: z.string(),
+    level: z.string(),
+    value: z.number(),
+  })),
+  balance_changed: defineEvent(1, payloadOf({
+    previousBalance: z.number(),
+    newBalance: z.number(),
+    change: z.number(),
+    reason: z.string(),
+  })),
+  action_failed: defineEvent(1, payloadOf({
+    action: z.string(),
+    params: z.unknown().optional(),
+    plan: PlanDirectivePayload.optional(),
+    error: z.string().optional(),
+  })),
+
+  // Movement
+  agent_moved: defineEvent(1, payloadOf({
+    from: Position,
+    to: Position,
+    energyCost: z.number(),
+    hungerCost: z.number(),
+  })),
+  agent_travel_started: defineEvent(1, payloadOf({
+    planId: z.string().nullable(),
+    from: Position,
+    destination: Position,
+    pathLength: z.number(),
+    pathCost: z.number(),
+    arrived: z.boolean(),
+  })),
+  agent_travel_arrived: defineEvent(1, TravelEnded),
+  agent_travel_interrupted: defineEvent(1, TravelEnded),
+
+  // Plans
+  plan_completed: defineEvent(1, PlanEnded),
+  plan_abandoned: defineEvent(1, PlanEnded.extend({ reason: z.string() })),
+
+  // Resources and work
+  agent_gathered: defineEvent(1, payloadOf({
+    position: Position,
+    resourceType: z.string(),
+    itemType: z.string(),
+    amountRequested: z.number(),
+    amountGathered: z.number(),
+  })),
+  agent_consumed: defineEvent(1, payloadOf({
+    itemType: z.string(),
+    previousState: Vitals,
+    newState: Vitals,
+  })),
+  agent_bought: defineEvent(1, payloadOf({
+    itemType: z.string(),
+    quantity: z.number(),
+    unitPrice: z.number(),
+    totalCost: z.number(),
+    newBalance: z.number(),
+  })),
+  agent_worked: defineEvent(1, payloadOf({
+    employmentId: z.string(),
+    employerId: z.string(),
+    ticksWorked: z.number(),
+    ticksRequired: z.number(),
+    paymentThisTick: z.number(),
+    isComplete: z.boolean(),
+  })),
+
+  // Crafting
+  agent_crafted: defineEvent(1, payloadOf({
+    recipeId: z.string(),
+    inputs: ItemCounts,
+    output: ItemStack,
+    success: z.literal(true),
+  })),
+  agent_craft_failed: defineEvent(1, payloadOf({
+    recipeId: z.string(),
+    inputs: ItemCounts,
+    success: z.literal(false),
+  })),
+  recipe_discovered: defineEvent(1, payloadOf({
+    recipeId: z.string(),
+    output: ItemStack,
+    firstInWorld: z.boolean(),
+    priorCrafts: z.number(),
+  })),
+
+  // Structures
+  structure_construction_started: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    progress: z.number(),
+    ticksRequired: z.number(),
+  })),
+  structure_build_progress: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    progress: z.number(),
+    ticksRequired: z.number(),
+  })),
+  structure_completed: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    ownerAgentId: z.string().nullable(),
+  })),
+  structure_repaired: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    conditionBefore: z.number(),
+    conditionAfter: z.number(),
+  })),
+  structure_demolished: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    byOwner: z.boolean(),
+    wasComplete: z.boolean(),
+  })),
+  structure_collapsed: defineEvent(1, payloadOf({
+    ...StructureAt,
+    structureId: z.string(),
+    wasComplete: z.boolean(),
+  })),
+
+  // Market
+  market_order_placed: defineEvent(1, payloadOf({
+    orderId: z.string(),
+    shelterId: z.string(),
+    itemType: z.string(),
+    side: OrderSide,
+    price: z.number(),
+    quantity: z.number(),
+    expiresAtTick: z.number(),
+  })),
+  market_order_cancelled: defineEvent(1, MarketOrderClosed),
+  market_order_expired: defineEvent(1, MarketOrderClosed),
+  market_trade: defineEvent(1, payloadOf({
+    shelterId: z.string(),
+    itemType: z.string(),
+    price: z.number(),
+    quantity: z.number(),
+    total: z.number(),
+    tax: z.number().optional(),
+    buyerId: z.string(),
+    sellerId: z.string(),
+  })),
+
+  // Containers
+  container_created: defineEvent(1, payloadOf({
+    containerId: z.string(),
+    x: z.number(),
+    y: z.number(),
+    capacity: z.number(),
+  })),
+  container_deposit: defineEvent(1, payloadOf({
+    containerId: z.string(),
+    itemType: z.string(),
+    quantity: z.number(),
+    byOwner: z.boolean(),
+  })),
+  container_withdraw: defineEvent(1, payloadOf({
+    containerId: z.string(),
+    itemType: z.string(),
+    quantity: z.number(),
+    remaining: z.number(),
+    byOwner: z.boolean(),
+  })),
+  container_access_granted: defineEvent(1, payloadOf({
+    ...ContainerAccess,
+    permission: z.string(),
+  })),
+  container_access_revoked: defineEvent(1, payloadOf(ContainerAccess)),
+  container_theft: defineEvent(1, payloadOf({
+    thiefId: z.string(),
+    containerId: z.string(),
+    itemType: z.string(),
+    quantity: z.number(),
+    detected: z.boolean(),
+    witnessIds: z.array(z.string()),
+  })),
+
+  // Trade
+  agent_traded: defineEvent(1, payloadOf(TradeTerms)),
+  agent_received_trade: defineEvent(1, payloadOf(TradeTerms)),
+  agent_trade_proposed: defineEvent(1, payloadOf(TradeProposal)),
+  agent_trade_countered: defineEvent(1, payloadOf({
+    ...TradeProposal,
+    parentProposalId: z.string(),
+  })),
+  agent_trade_accepted: defineEvent(1, payloadOf({
+    proposalId: z.string(),
+    proposerId: z.string(),
+    targetId: z.string(),
+  })),
+  agent_trade_rejected: defineEvent(1, payloadOf({
+    proposalId: z.string(),
+    proposerId: z.string(),
+    targetId: z.string(),
+    reason: z.string().optional(),
+  })),
+
+  // Social and conflict
+  agent_shared_info: defineEvent(1, payloadOf({
+    sharerId: z.string(),
+    targetId: z.string(),
+    subjectId: z.string(),
+    infoType: z.string(),
+    sentiment: z.number(),
+  })),
+  agent_message_sent: defineEvent(1, payloadOf({
+    messageId: z.string(),
+    conversationId: z.string(),
+    replyToId: z.string().nullable(),
+    senderId: z.string(),
+    recipientId: z.string(),
+    content: z.string(),
+    deliveredContent: z.string(),
+    vocabulary: z.enum(['natural', 'synthetic']),
+    channel: z.enum(['nearby', 'known']),
+    distance: z.number(),
+    wordCount: z.number(),
+    position: Position,
+  })),
+
+  // Organisations
+  org_founded: defineEvent(1, payloadOf({
+    orgId: z.string(),
+    name: z.string(),
+    founderId: z.string(),
+    entryFee: z.number(),
+    minTrust: z.number().nullable(),
+    maxMembers: z.number().nullable(),
+    deposit: z.number(),
+    position: Position,
+  })),
+  org_joined: defineEvent(1, payloadOf({
+    orgId: z.string(),
+    name: z.string(),
+    memberId: z.string(),
+    entryFee: z.number(),
+    memberCount: z.number(),
+    position: Position,
+  })),
+  org_left: defineEvent(1, payloadOf({
+    orgId: z.string(),
+    name: z.string(),
+    memberId: z.string(),
+    role: z.enum(['founder', 'member']),
+    newFounderId: z.string().nullable(),
+    memberCount: z.number(),
+    ticksAsMember: z.number(),
+    reason: z.enum(['left', 'died']).optional(),
+  })),
+  org_member_expelled: defineEvent(1, payloadOf({
+    orgId: z.string(),
+    name: z.string(),
+    founderId: z.string(),
+    memberId: z.string(),
+    memberCount: z.number(),
+    ticksAsMember: z.number(),
+  })),
+  org_dissolved: defineEvent(1, payloadOf({
+    orgId: z.string(),
+    name: z.string(),
+    ticksActive: z.number(),
+    treasuryPayout: z.number(),
+  })),
+
+  // Governance
+  proposal_created: defineEvent(1, payloadOf({
+    proposalId: z.string(),
+    title: z.string(),
+    scopeType: z.enum(['org', 'claim', 'world']),
+    scopeId: z.string().nullable(),
+    outcomeType: z.enum(['tax', 'banish', 'shelter_price', 'fiscal_policy', 'resolution']),
+    outcomeParams: z.record(z.unknown()),
+    threshold: z.number(),
+    quorum: z.number(),
+    weighting: z.enum(['equal', 'stake']),
+    closesAtTick: z.number(),
+    electorateSize: z.number(),
+    position: Position,
+  })),
+  proposal_voted: defineEvent(1, payloadOf({
+    proposalId: z.string(),
+    title: z.string(),
+    voterId: z.string(),
+    choice: z.enum(['yes', 'no', 'abstain']),
+    weight: z.number(),
+    previousChoice: z.string().nullable(),
+  })),
+  proposal_tallied: defineEvent(1, payloadOf({
+    proposalId: z.string(),
+    title: z.string(),
+    proposerId: z.string().nullable(),
+    scopeType: z.enum(['org', 'claim', 'world']),
+    scopeId: z.string().nullable(),
+    status: z.enum(['passed', 'rejected', 'no_quorum']),
+    yesWeight: z.number(),
+    noWeight: z.number(),
+    abstainWeight: z.number(),
+    turnout: z.number(),
+    electorateSize: z.number(),
+    outcomeType: z.enum(['tax', 'banish', 'shelter_price', 'fiscal_policy', 'resolution']),
+    outcomeApplied: z.boolean(),
+    outcomeNote: z.string().nullable(),
+  })),
+  agent_harmed: defineEvent(1, payloadOf({
+    attackerId: z.string(),
+    victimId: z.string(),
+    intensity: z.string(),
+    damage: z.number(),
+    victimDied: z.boolean(),
+    witnessIds: z.array(z.string()),
+  })),
+  agent_stole: defineEvent(1, payloadOf({
+    thiefId: z.string(),
+    victimId: z.string(),
+    itemType: z.string(),
+    quantity: z.number(),
+    witnessIds: z.array(z.string()),
+  })),
+  agent_deceived: defineEvent(1, payloadOf({
+    deceiverId: z.string(),
+    targetId: z.string(),
+    claimType: z.string(),
+    credibilityScore: z.number(),
+  })),
+
+  // Fiscal policy
+  fiscal_cycle: defineEvent(1, payloadOf({
+    tenantId: z.string().nullable(),
+    wealthTaxCollected: z.number(),
+    taxpayers: z.number(),
+    redistributed: z.number(),
+    recipients: z.number(),
+    treasuryBalance: z.number(),
+  })),
+} satisfies Record<string, EventPayloadDefinition>;
+
+export type TypedEventType = keyof typeof EVENT_PAYLOAD_SCHEMAS;
+
+/** Payload of a typed event at the current version */
+export type EventPayload<T extends TypedEventType> = z.infer<(typeof EVENT_PAYLOAD_SCHEMAS)[T]['payload']>;
+
+// ============================================
+// Lookup, validation and upcasting
+// ============================================
+
+export function getEventPayloadDefinition(eventType: string): EventPayloadDefinition | undefined {
+  return (EVENT_PAYLOAD_SCHEMAS as Record<string, EventPayloadDefinition>)[eventType];
+}
+
+/**
+ * Current payload version of an event type (1 for untyped events)
+ */
+export function getEventPayloadVersion(eventType: string): number {
+  return getEventPayloadDefinition(eventType)?.version ?? 1;
+}
+
+/**
+ * Validate a payload against the current version of its event type.
+ * Untyped event types always pass.
+ */
+export function validateEventPayload(
+  eventType: string,
+  payload: unknown
+): { valid: true } | { valid: false; issues: string[] } {
+  const definition = getEventPayloadDefinition(eventType);
+  if (!definition) return { valid: true };
+
+  const result = definition.payload.safeParse(payload);
+  if (result.success) return { valid: true };
+
+  return {
+    valid: false,
+    issues: result.error.issues.map((issue) => `${issue.path.join('.') || '(payload)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Bring a payload logged at `fromVersion` up to the current version by
+ * applying each upcaster in turn. Payloads already current are returned as-is.
+ */
+export function upcastEventPayload(eventType: string, payload: Payload, fromVersion: number): Payload {
+  const definition = getEventPayloadDefinition(eventType);
+  if (!definition) return payload;
+
+  let upcast = payload;
+  for (let version = fromVersion; version < definition.version; version++) {
+    const upcaster = definition.upcasters?.[version];
+    if (upcaster) upcast = upcaster(upcast);
+  }
+  return upcast;
+}
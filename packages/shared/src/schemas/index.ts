@@ -6,6 +6,8 @@
 import { z } from 'zod';
 import { AGENT_STATES, LOCATION_TYPES, EVENT_TYPES, LLM_TYPES } from '../constants';
 
+export * from './events';
+
 // ============================================
 // Physical Identity Schemas
 // ============================================